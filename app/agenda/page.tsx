@@ -0,0 +1,91 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import WorkerAgenda from '@/components/WorkerAgenda'
+import CalendarFeedLink from '@/components/CalendarFeedLink'
+import { fetchWorkerAgenda, type Appointment } from '@/lib/utils/appointments'
+
+export default async function MyAgendaPage() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  let appointments: Appointment[] = []
+  try {
+    appointments = await fetchWorkerAgenda(supabase, user.email || '')
+  } catch (error) {
+    console.error('Error loading agenda:', error)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Blue Header Bar */}
+      <div className="bg-gradient-to-r from-blue-800 to-blue-700 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Image
+                src="https://www.sdrescue.org/wp-content/uploads/2021/06/SDRMLogo2016.svg"
+                alt="San Diego Rescue Mission"
+                width={180}
+                height={60}
+                className="h-12 w-auto bg-white p-2 rounded"
+              />
+              <div className="border-l-2 border-blue-500 pl-4">
+                <h1 className="text-2xl font-bold text-white">
+                  Encinitas Street Reach
+                </h1>
+                <p className="text-blue-200 text-sm">
+                  By-name list & service tracking
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header with back link */}
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="text-blue-700 hover:text-blue-800 font-medium mb-4 inline-flex items-center"
+          >
+            <svg
+              className="w-5 h-5 mr-1"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Client List
+          </Link>
+          <h2 className="text-3xl font-bold text-gray-900 mt-4">
+            My Agenda
+          </h2>
+          <p className="text-gray-600 mt-2">
+            Appointments you are taking clients to, earliest first. Schedule new ones from the client&apos;s profile.
+          </p>
+        </div>
+
+        <div className="mb-6">
+          <CalendarFeedLink />
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <WorkerAgenda initialAppointments={appointments} />
+        </div>
+      </div>
+    </div>
+  )
+}
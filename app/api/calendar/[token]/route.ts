@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { subDays } from 'date-fns'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { Appointment } from '@/lib/utils/appointments'
+import { buildCalendarFeed } from '@/lib/utils/calendar-feed'
+
+// How far back past appointments stay in the feed
+const FEED_HISTORY_DAYS = 30
+
+// GET - A worker's appointments as an .ics feed. Calendar apps have no
+// session, so the secret token in the URL identifies the worker.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+
+  try {
+    // Use admin client - the calendar app has no user session
+    const supabase = createAdminClient()
+
+    const { data: feed } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token.replace(/\.ics$/, ''))
+      .maybeSingle<{ user_id: string }>()
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('email')
+      .eq('id', feed.user_id)
+      .single<{ email: string }>()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('assigned_to', profile.email)
+      .gte('scheduled_at', subDays(new Date(), FEED_HISTORY_DAYS).toISOString())
+      .order('scheduled_at', { ascending: true })
+
+    if (error) throw error
+
+    const calendar = buildCalendarFeed(
+      (data || []) as Appointment[],
+      'Street Reach Appointments',
+      new URL(request.url).origin
+    )
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="appointments.ics"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runDuplicateScan } from '@/lib/utils/duplicate-scoring'
+
+// The scan scores every client pair; give it longer than the default limit
+export const maxDuration = 300
+
+interface UserProfile {
+  role: 'admin' | 'field_worker'
+}
+
+// GET - Rescore duplicate candidates nightly (called by Vercel Cron)
+export async function GET(request: Request) {
+  // Vercel Cron sends the CRON_SECRET as a bearer token
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    // Use admin client - the scheduler runs without a user session
+    const result = await runDuplicateScan(createAdminClient())
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error running scheduled duplicate scan:', error)
+    return NextResponse.json(
+      { error: 'Failed to run duplicate scan' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Rescore duplicate candidates now (admin "Scan now")
+export async function POST() {
+  try {
+    // Verify the requesting user is an admin
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single<UserProfile>()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const result = await runDuplicateScan(supabase)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error running duplicate scan:', error)
+    return NextResponse.json(
+      { error: 'Failed to run duplicate scan' },
+      { status: 500 }
+    )
+  }
+}
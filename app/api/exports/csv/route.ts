@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { csvExportRequestSchema } from '@/lib/schemas/export-schema'
+import { logAuditEvent } from '@/lib/utils/audit'
+import { buildCsvExport } from '@/lib/utils/export-data'
+
+interface UserProfile {
+  role: 'admin' | 'field_worker'
+}
+
+// POST - Download one of the dashboard CSV export files for an agency
+export async function POST(request: Request) {
+  try {
+    // Verify the requesting user is an admin
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single<UserProfile>()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const parsed = csvExportRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid export request' },
+        { status: 400 }
+      )
+    }
+
+    const { file, recipient, startDate, endDate } = parsed.data
+    const csvExport = await buildCsvExport(supabase, recipient, startDate || null, endDate || null)
+
+    await logAuditEvent(supabase, {
+      action: 'export',
+      entity_type: 'persons',
+      details: {
+        format: 'csv',
+        files: [file],
+        start_date: startDate || null,
+        end_date: endDate || null,
+        recipient,
+        client_count: csvExport.clientCount,
+        encounter_count: csvExport.encounterCount,
+        excluded_without_roi: csvExport.excludedWithoutRoi,
+      },
+    })
+
+    const dateRange = startDate && endDate
+      ? `_${startDate}_to_${endDate}`
+      : '_all_time'
+
+    return new NextResponse(csvExport.files[file], {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="encinitas_street_reach_${file}${dateRange}.csv"`,
+        'Cache-Control': 'no-store',
+        // Shown to the admin after the download
+        'X-Excluded-Without-Roi': String(csvExport.excludedWithoutRoi),
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting CSV:', error)
+    return NextResponse.json(
+      { error: 'Failed to export data' },
+      { status: 500 }
+    )
+  }
+}
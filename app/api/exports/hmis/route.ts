@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { hmisExportRequestSchema } from '@/lib/schemas/export-schema'
+import { HMIS_ROI_RECIPIENT } from '@/lib/schemas/roi-schema'
+import { logAuditEvent } from '@/lib/utils/audit'
+import { buildHmisExport } from '@/lib/utils/export-data'
+import { packageHmisZip } from '@/lib/utils/hmis-export'
+
+interface UserProfile {
+  role: 'admin' | 'field_worker'
+}
+
+// POST - Validate the HUD HMIS CSV export, or download it as a zip
+export async function POST(request: Request) {
+  try {
+    // Verify the requesting user is an admin
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single<UserProfile>()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const parsed = hmisExportRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid export request' },
+        { status: 400 }
+      )
+    }
+
+    const { startDate, endDate, validateOnly } = parsed.data
+    const { result, clientCount, excludedWithoutRoi } = await buildHmisExport(
+      supabase,
+      startDate || null,
+      endDate || null
+    )
+
+    // The validation report lists row problems by client ID only
+    if (validateOnly) {
+      return NextResponse.json({
+        counts: result.counts,
+        issues: result.issues,
+        excludedWithoutRoi,
+      })
+    }
+
+    const zip = await packageHmisZip(result.files)
+
+    await logAuditEvent(supabase, {
+      action: 'export',
+      entity_type: 'persons',
+      details: {
+        format: 'hmis_csv',
+        start_date: startDate || null,
+        end_date: endDate || null,
+        recipient: HMIS_ROI_RECIPIENT,
+        client_count: clientCount,
+        excluded_without_roi: excludedWithoutRoi,
+      },
+    })
+
+    const dateRange = startDate && endDate
+      ? `_${startDate}_to_${endDate}`
+      : '_all_time'
+
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="hmis_csv_fy2024${dateRange}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting HMIS CSV:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate HMIS export' },
+      { status: 500 }
+    )
+  }
+}
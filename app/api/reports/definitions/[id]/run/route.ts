@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runReportDefinition } from '@/lib/utils/report-data'
+import type { ReportDefinition } from '@/lib/utils/report-definitions'
+
+interface UserProfile {
+  role: 'admin' | 'field_worker'
+}
+
+// POST - Run a saved report definition and record it in the report history
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify the requesting user is an admin
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single<UserProfile>()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    // RLS limits this to the user's own and shared definitions
+    const { data: definition } = await supabase
+      .from('report_definitions')
+      .select('*')
+      .eq('id', id)
+      .single<ReportDefinition>()
+
+    if (!definition) {
+      return NextResponse.json({ error: 'Report definition not found' }, { status: 404 })
+    }
+
+    // Runs are written with the service role now that the user is known to be an admin
+    const run = await runReportDefinition(createAdminClient(), definition, 'manual', user.email || null)
+
+    return NextResponse.json({ run })
+  } catch (error) {
+    console.error('Error running report definition:', error)
+    return NextResponse.json(
+      { error: 'Failed to run report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { reportDetailRequestSchema } from '@/lib/schemas/report-schema'
+import { logAuditEvent } from '@/lib/utils/audit'
+import { fetchReportInput } from '@/lib/utils/report-data'
+import { getReportDetails } from '@/lib/utils/report-engine'
+
+interface UserProfile {
+  role: 'admin' | 'field_worker'
+}
+
+// POST - List the clients or encounters behind one of a report's metrics
+export async function POST(request: Request) {
+  try {
+    // Verify the requesting user is an admin
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single<UserProfile>()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const parsed = reportDetailRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid detail request' },
+        { status: 400 }
+      )
+    }
+
+    const input = await fetchReportInput(supabase)
+    const details = getReportDetails(input, parsed.data.options, parsed.data.type)
+
+    // Detail lists show client names, so they are logged as views
+    await logAuditEvent(supabase, {
+      action: 'view',
+      entity_type: 'report',
+      details: {
+        type: parsed.data.type,
+        start_date: parsed.data.options.startDate || null,
+        end_date: parsed.data.options.endDate || null,
+        client_count: details.persons.length,
+        encounter_count: details.encounters.length,
+      },
+    })
+
+    return NextResponse.json(details)
+  } catch (error) {
+    console.error('Error loading report details:', error)
+    return NextResponse.json(
+      { error: 'Failed to load report details' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { reportPdfRequestSchema, type ReportOptions } from '@/lib/schemas/report-schema'
+import { logAuditEvent } from '@/lib/utils/audit'
+import { fetchReportInput } from '@/lib/utils/report-data'
+import type { ReportRun } from '@/lib/utils/report-definitions'
+import { generateReport, type GeneratedReport } from '@/lib/utils/report-engine'
+import { renderReportPdf } from '@/lib/utils/report-pdf'
+
+interface UserProfile {
+  role: 'admin' | 'field_worker'
+}
+
+/**
+ * Load the program logo for embedding in the PDF
+ */
+async function loadLogoPng(): Promise<Uint8Array | null> {
+  try {
+    return await readFile(path.join(process.cwd(), 'public', 'sdrm-logo.png'))
+  } catch (error) {
+    console.error('Error loading report logo:', error)
+    return null
+  }
+}
+
+// POST - Render a report as a formatted PDF
+export async function POST(request: Request) {
+  try {
+    // Verify the requesting user is an admin
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single<UserProfile>()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const parsed = reportPdfRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid PDF request' },
+        { status: 400 }
+      )
+    }
+
+    const { runId, cover } = parsed.data
+    let report: GeneratedReport
+    let options: ReportOptions
+
+    if (runId) {
+      // Past runs are rendered from their stored results so they match what was reported
+      const { data: run } = await supabase
+        .from('report_runs')
+        .select('*')
+        .eq('id', runId)
+        .single<ReportRun>()
+
+      if (!run) {
+        return NextResponse.json({ error: 'Report run not found' }, { status: 404 })
+      }
+
+      report = run.report
+      options = run.options
+    } else {
+      options = parsed.data.options as ReportOptions
+      report = generateReport(await fetchReportInput(supabase), options)
+    }
+
+    const pdf = await renderReportPdf(report, options, cover, await loadLogoPng())
+
+    await logAuditEvent(supabase, {
+      action: 'export',
+      entity_type: 'report',
+      entity_id: runId || null,
+      details: {
+        format: 'pdf',
+        start_date: options.startDate || null,
+        end_date: options.endDate || null,
+        metrics: options.metrics,
+      },
+    })
+    const dateRange = options.startDate && options.endDate
+      ? `_${options.startDate}_to_${options.endDate}`
+      : ''
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="funder_report${dateRange}.pdf"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error rendering report PDF:', error)
+    return NextResponse.json(
+      { error: 'Failed to render report PDF' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { reportOptionsSchema } from '@/lib/schemas/report-schema'
+import { fetchReportInput } from '@/lib/utils/report-data'
+import { generateReport } from '@/lib/utils/report-engine'
+
+interface UserProfile {
+  role: 'admin' | 'field_worker'
+}
+
+// POST - Generate a custom report from the selected metrics, breakdowns and filters
+export async function POST(request: Request) {
+  try {
+    // Verify the requesting user is an admin
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single<UserProfile>()
+
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 })
+    }
+
+    const parsed = reportOptionsSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid report options' },
+        { status: 400 }
+      )
+    }
+
+    const input = await fetchReportInput(supabase)
+    const report = generateReport(input, parsed.data)
+
+    return NextResponse.json({ report })
+  } catch (error) {
+    console.error('Error generating report:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate report' },
+      { status: 500 }
+    )
+  }
+}
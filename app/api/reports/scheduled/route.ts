@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runReportDefinition } from '@/lib/utils/report-data'
+import { getNextRunAt, type ReportDefinition } from '@/lib/utils/report-definitions'
+
+// GET - Generate all scheduled reports that are due (called by Vercel Cron)
+export async function GET(request: Request) {
+  // Vercel Cron sends the CRON_SECRET as a bearer token
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    // Use admin client - the scheduler runs without a user session
+    const adminClient = createAdminClient()
+    const now = new Date()
+
+    const { data: definitions, error } = await adminClient
+      .from('report_definitions')
+      .select('*')
+      .neq('schedule', 'none')
+      .lte('next_run_at', now.toISOString())
+
+    if (error) {
+      throw error
+    }
+
+    // Only definitions owned by a current admin are run; an owner may have
+    // been demoted since scheduling the report
+    const ownerIds = [...new Set(((definitions || []) as ReportDefinition[]).map((d) => d.owner_id))]
+    const { data: admins, error: adminsError } = await adminClient
+      .from('user_profiles')
+      .select('id')
+      .in('id', ownerIds)
+      .eq('role', 'admin')
+
+    if (adminsError) {
+      throw adminsError
+    }
+
+    const adminIds = new Set((admins || []).map((profile: { id: string }) => profile.id))
+
+    let ran = 0
+    const failed: string[] = []
+    const skipped: string[] = []
+
+    // Run each definition separately so one failure doesn't block the rest
+    for (const definition of (definitions || []) as ReportDefinition[]) {
+      if (!adminIds.has(definition.owner_id)) {
+        console.warn(`Skipping scheduled report ${definition.id}: owner is not an admin`)
+        skipped.push(definition.id)
+      } else {
+        try {
+          await runReportDefinition(adminClient, definition, 'scheduled', 'System (Scheduled report)')
+          ran++
+        } catch (runError) {
+          console.error(`Error running scheduled report ${definition.id}:`, runError)
+          failed.push(definition.id)
+        }
+      }
+
+      // Advance the schedule even on failure so a broken definition isn't retried every run
+      const { error: updateError } = await adminClient
+        .from('report_definitions')
+        .update({
+          last_run_at: now.toISOString(),
+          next_run_at: getNextRunAt(definition.schedule, definition.time_zone, now),
+        })
+        .eq('id', definition.id)
+
+      if (updateError) {
+        console.error(`Error updating schedule for report ${definition.id}:`, updateError)
+      }
+    }
+
+    return NextResponse.json({ ran, failed, skipped })
+  } catch (error) {
+    console.error('Error running scheduled reports:', error)
+    return NextResponse.json(
+      { error: 'Failed to run scheduled reports' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,7 +2,7 @@ import ClientEditForm from '@/components/ClientEditForm'
 import Link from 'next/link'
 import Image from 'next/image'
 import { createClient } from '@/lib/supabase/server'
-import { notFound } from 'next/navigation'
+import { notFound, redirect } from 'next/navigation'
 
 export default async function EditClientPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = await params
@@ -19,6 +19,12 @@ export default async function EditClientPage({ params }: { params: Promise<{ id:
     notFound()
   }
 
+  // Merged-away duplicates resolve to the record they were merged into
+  const mergedInto = (data as { merged_into?: string | null }).merged_into
+  if (mergedInto) {
+    redirect(`/client/${mergedInto}/edit`)
+  }
+
   const person = data as {
     id: string
     client_id: string
@@ -45,8 +51,6 @@ export default async function EditClientPage({ params }: { params: Promise<{ id:
     living_situation: string
     length_of_time_homeless?: string | null
     evictions?: number | null
-    income?: string | null
-    income_amount?: number | null
     support_system?: string | null
     enrollment_date: string
     case_manager?: string | null
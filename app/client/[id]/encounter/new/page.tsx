@@ -1,8 +1,15 @@
 import ServiceInteractionForm from '@/components/ServiceInteractionForm'
+import CautionFlagBanner from '@/components/CautionFlagBanner'
 import Link from 'next/link'
 import Image from 'next/image'
 import { createClient } from '@/lib/supabase/server'
-import { notFound } from 'next/navigation'
+import { notFound, redirect } from 'next/navigation'
+import { fetchPersonHousehold } from '@/lib/utils/households'
+import { fetchPersonIncomeSources, type IncomeSource } from '@/lib/utils/income'
+import { fetchPersonCautionFlags, type CautionFlag } from '@/lib/utils/caution-flags'
+import { fetchAppointment } from '@/lib/utils/appointments'
+import { APPOINTMENT_TYPE_LABELS } from '@/lib/schemas/appointment-schema'
+import { format } from 'date-fns'
 
 type PersonData = {
   id: string
@@ -11,14 +18,21 @@ type PersonData = {
   client_id: string
 }
 
-export default async function NewEncounterPage({ params }: { params: Promise<{ id: string }> }) {
+export default async function NewEncounterPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ appointment?: string }>
+}) {
   const { id } = await params
+  const { appointment: appointmentId } = await searchParams
   const supabase = await createClient()
 
   // Fetch the person's details
   const { data, error } = await supabase
     .from('persons')
-    .select('id, first_name, last_name, client_id')
+    .select('id, first_name, last_name, client_id, merged_into')
     .eq('id', id)
     .single()
 
@@ -26,9 +40,61 @@ export default async function NewEncounterPage({ params }: { params: Promise<{ i
     notFound()
   }
 
+  // Merged-away duplicates resolve to the record they were merged into
+  const mergedInto = (data as { merged_into?: string | null }).merged_into
+  if (mergedInto) {
+    redirect(`/client/${mergedInto}/encounter/new${appointmentId ? `?appointment=${appointmentId}` : ''}`)
+  }
+
   const person = data as PersonData
   const fullName = `${person.first_name} ${person.last_name}`
 
+  // Household members can be served in the same interaction
+  let householdMembers: { id: string, name: string }[] = []
+  try {
+    const household = await fetchPersonHousehold(supabase, person.id)
+    householdMembers = (household?.members || [])
+      .filter((member) => member.person_id !== person.id && member.person)
+      .map((member) => ({
+        id: member.person_id,
+        name: `${member.person?.first_name} ${member.person?.last_name}`,
+      }))
+  } catch (householdError) {
+    console.error('Error loading household:', householdError)
+  }
+
+  // Current income and benefits, so the worker can record any that stopped
+  let incomeSources: IncomeSource[] = []
+  try {
+    incomeSources = (await fetchPersonIncomeSources(supabase, person.id)).filter((source) => !source.end_date)
+  } catch (incomeError) {
+    console.error('Error loading income sources:', incomeError)
+  }
+
+  // Cautions to read before approaching the client
+  let cautionFlags: CautionFlag[] = []
+  try {
+    cautionFlags = await fetchPersonCautionFlags(supabase, person.id)
+  } catch (cautionFlagsError) {
+    console.error('Error loading caution flags:', cautionFlagsError)
+  }
+
+  // Missed appointment this interaction follows up (linked from the agenda)
+  let followUpAppointment: { id: string, label: string } | null = null
+  if (appointmentId) {
+    try {
+      const appointment = await fetchAppointment(supabase, appointmentId)
+      if (appointment && !appointment.follow_up_encounter_id) {
+        followUpAppointment = {
+          id: appointment.id,
+          label: `${APPOINTMENT_TYPE_LABELS[appointment.appointment_type].toLowerCase()} appointment on ${format(new Date(appointment.scheduled_at), 'MM/dd/yyyy')}`,
+        }
+      }
+    } catch (appointmentError) {
+      console.error('Error loading appointment:', appointmentError)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Blue Header Bar */}
@@ -86,8 +152,16 @@ export default async function NewEncounterPage({ params }: { params: Promise<{ i
           </p>
         </div>
 
+        <CautionFlagBanner flags={cautionFlags} />
+
         {/* Service Interaction Form */}
-        <ServiceInteractionForm personId={person.id} personName={fullName} />
+        <ServiceInteractionForm
+          personId={person.id}
+          personName={fullName}
+          householdMembers={householdMembers}
+          incomeSources={incomeSources}
+          followUpAppointment={followUpAppointment}
+        />
       </div>
     </div>
   )
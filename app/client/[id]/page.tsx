@@ -1,9 +1,39 @@
 import Link from 'next/link'
 import Image from 'next/image'
 import { createClient } from '@/lib/supabase/server'
-import { notFound } from 'next/navigation'
+import { notFound, redirect } from 'next/navigation'
 import { format } from 'date-fns'
 import ExitProgramButton from '@/components/ExitProgramButton'
+import ReferralList from '@/components/ReferralList'
+import HouseholdCard from '@/components/HouseholdCard'
+import AssessmentHistory from '@/components/AssessmentHistory'
+import HousingPipelineCard from '@/components/HousingPipelineCard'
+import DocumentVault from '@/components/DocumentVault'
+import RoiCard from '@/components/RoiCard'
+import IncomeCard from '@/components/IncomeCard'
+import IncidentList from '@/components/IncidentList'
+import CautionFlagBanner from '@/components/CautionFlagBanner'
+import CautionFlagCard from '@/components/CautionFlagCard'
+import CasePlanCard from '@/components/CasePlanCard'
+import AppointmentsCard from '@/components/AppointmentsCard'
+import { logAuditEvent } from '@/lib/utils/audit'
+import {
+  ENCOUNTER_SERVICES_SELECT,
+  formatEncounterService,
+  groupServicesByCategory,
+  type EncounterService,
+} from '@/lib/utils/encounter-services'
+import { fetchPersonReferrals, isReferralOpen, isReferralOverdue, type Referral } from '@/lib/utils/referrals'
+import { fetchPersonHousehold, type Household } from '@/lib/utils/households'
+import { fetchPersonAssessments, type Assessment } from '@/lib/utils/assessments'
+import { fetchPersonPipelines, type HousingPipeline } from '@/lib/utils/housing-pipeline'
+import { fetchPersonDocuments, type ClientDocument } from '@/lib/utils/documents'
+import { fetchPersonRois, getRoiStatus, type ReleaseOfInformation } from '@/lib/utils/roi'
+import { fetchPersonIncomeSources, type IncomeSource } from '@/lib/utils/income'
+import { fetchPersonIncidents, type Incident } from '@/lib/utils/incidents'
+import { fetchPersonCautionFlags, type CautionFlag } from '@/lib/utils/caution-flags'
+import { fetchPersonCaseGoals, fetchWorkers, type CaseGoal, type Worker } from '@/lib/utils/case-plans'
+import { fetchPersonAppointments, type Appointment } from '@/lib/utils/appointments'
 
 function calculateAge(dob: string): number {
   const birthDate = new Date(dob)
@@ -20,17 +50,23 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
   const { id } = await params
   const supabase = await createClient()
 
-  // Fetch person details
+  // Fetch person details. Old links may use the client ID (CL-000123) instead of the UUID.
   const { data, error } = await supabase
     .from('persons')
     .select('*')
-    .eq('id', id)
+    .eq(id.startsWith('CL-') ? 'client_id' : 'id', id)
     .single()
 
   if (error || !data) {
     notFound()
   }
 
+  // Merged-away duplicates resolve to the record they were merged into
+  const { id: personId, merged_into: mergedInto } = data as { id: string, merged_into?: string | null }
+  if (mergedInto || personId !== id) {
+    redirect(`/client/${mergedInto || personId}`)
+  }
+
   // Type assertion for person data (all fields from persons table)
   const person = data as {
     id: string
@@ -55,10 +91,18 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
     exit_notes?: string | null
   }
 
+  await logAuditEvent(supabase, {
+    action: 'view',
+    entity_type: 'persons',
+    entity_id: person.id,
+    person_id: person.id,
+    client_id: person.client_id,
+  })
+
   // Fetch encounters count and data
   const { data: encounterData, count: encounterCount } = await supabase
     .from('encounters')
-    .select('*', { count: 'exact' })
+    .select(`*, ${ENCOUNTER_SERVICES_SELECT}`, { count: 'exact' })
     .eq('person_id', id)
     .order('service_date', { ascending: false })
 
@@ -78,17 +122,95 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
     mat_provider?: string | null
     detox_referral: boolean
     detox_provider?: string | null
-    naloxone_distributed: boolean
     naloxone_date?: string | null
-    fentanyl_test_strips_count?: number | null
-    harm_reduction_education: boolean
-    transportation_provided: boolean
-    shower_trailer: boolean
+    encounter_services?: EncounterService[] | null
     other_services?: string | null
     case_management_notes?: string | null
   }
 
   const allEncounters = (encounterData || []) as EncounterData[]
+
+  let referrals: Referral[] = []
+  try {
+    referrals = await fetchPersonReferrals(supabase, id)
+  } catch (referralsError) {
+    console.error('Error loading referrals:', referralsError)
+  }
+  const openReferrals = referrals.filter(isReferralOpen).length
+  const overdueReferrals = referrals.filter((r) => isReferralOverdue(r)).length
+
+  let household: Household | null = null
+  try {
+    household = await fetchPersonHousehold(supabase, id)
+  } catch (householdError) {
+    console.error('Error loading household:', householdError)
+  }
+
+  let assessments: Assessment[] = []
+  try {
+    assessments = await fetchPersonAssessments(supabase, id)
+  } catch (assessmentsError) {
+    console.error('Error loading assessments:', assessmentsError)
+  }
+
+  let pipelines: HousingPipeline[] = []
+  try {
+    pipelines = await fetchPersonPipelines(supabase, id)
+  } catch (pipelinesError) {
+    console.error('Error loading housing pipelines:', pipelinesError)
+  }
+
+  let documents: ClientDocument[] = []
+  try {
+    documents = await fetchPersonDocuments(supabase, id)
+  } catch (documentsError) {
+    console.error('Error loading documents:', documentsError)
+  }
+
+  let rois: ReleaseOfInformation[] = []
+  try {
+    rois = await fetchPersonRois(supabase, id)
+  } catch (roisError) {
+    console.error('Error loading releases of information:', roisError)
+  }
+  const roiStatus = getRoiStatus(rois)
+
+  let incomeSources: IncomeSource[] = []
+  try {
+    incomeSources = await fetchPersonIncomeSources(supabase, id)
+  } catch (incomeError) {
+    console.error('Error loading income sources:', incomeError)
+  }
+
+  let incidents: Incident[] = []
+  try {
+    incidents = await fetchPersonIncidents(supabase, id)
+  } catch (incidentsError) {
+    console.error('Error loading incidents:', incidentsError)
+  }
+
+  let cautionFlags: CautionFlag[] = []
+  try {
+    cautionFlags = await fetchPersonCautionFlags(supabase, id)
+  } catch (cautionFlagsError) {
+    console.error('Error loading caution flags:', cautionFlagsError)
+  }
+
+  let caseGoals: CaseGoal[] = []
+  let workers: Worker[] = []
+  try {
+    [caseGoals, workers] = await Promise.all([fetchPersonCaseGoals(supabase, id), fetchWorkers(supabase)])
+  } catch (caseGoalsError) {
+    console.error('Error loading case plan:', caseGoalsError)
+  }
+
+  let appointments: Appointment[] = []
+  try {
+    appointments = await fetchPersonAppointments(supabase, id)
+  } catch (appointmentsError) {
+    console.error('Error loading appointments:', appointmentsError)
+  }
+
   const age = calculateAge(person.date_of_birth)
 
   return (
@@ -208,6 +330,27 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
                 New Service Interaction
               </Link>
             )}
+            {!person.exit_date && (
+              <Link
+                href={`/client/${id}/assessment/new`}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium inline-flex items-center"
+              >
+                <svg
+                  className="w-5 h-5 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+                  />
+                </svg>
+                New Assessment
+              </Link>
+            )}
             <ExitProgramButton
               personId={person.id}
               personName={`${person.first_name} ${person.last_name}`}
@@ -218,6 +361,22 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
           </div>
         </div>
 
+        {/* Active caution flags */}
+        <CautionFlagBanner flags={cautionFlags} />
+
+        {/* Expired or revoked consent */}
+        {(roiStatus === 'expired' || roiStatus === 'revoked') && (
+          <div className="bg-orange-50 border-2 border-orange-300 rounded-lg p-4 mb-6 text-orange-900">
+            <p className="font-semibold">
+              Release of information {roiStatus === 'expired' ? 'has expired' : 'was revoked'}
+            </p>
+            <p className="text-sm">
+              Do not share this client&apos;s information with partner agencies. Have the client sign a new release under{' '}
+              <a href="#releases-of-information" className="underline">Releases of Information</a>.
+            </p>
+          </div>
+        )}
+
         {/* Client Information */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
           {/* Demographics */}
@@ -278,6 +437,17 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
                 <dt className="text-gray-600">Total Interactions</dt>
                 <dd className="text-2xl font-bold text-blue-600">{encounterCount || 0}</dd>
               </div>
+              <div>
+                <dt className="text-gray-600">Open Referrals</dt>
+                <dd className="font-medium">
+                  {openReferrals}
+                  {overdueReferrals > 0 && (
+                    <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      {overdueReferrals} overdue
+                    </span>
+                  )}
+                </dd>
+              </div>
               <div>
                 <dt className="text-gray-600">Case Manager</dt>
                 <dd className="font-medium">{person.case_manager || 'Not assigned'}</dd>
@@ -298,6 +468,82 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
           </div>
         )}
 
+        {/* Caution flags */}
+        <CautionFlagCard personId={person.id} initialFlags={cautionFlags} />
+
+        {/* Releases of information */}
+        <div id="releases-of-information">
+          <RoiCard
+            personId={person.id}
+            personName={`${person.first_name} ${person.last_name}`}
+            initialRois={rois}
+          />
+        </div>
+
+        {/* Household */}
+        <HouseholdCard
+          personId={person.id}
+          personName={`${person.first_name} ${person.last_name}`}
+          initialHousehold={household}
+        />
+
+        {/* Income and benefits */}
+        <IncomeCard personId={person.id} initialSources={incomeSources} />
+
+        {/* Case plan */}
+        <CasePlanCard
+          personId={person.id}
+          initialGoals={caseGoals}
+          workers={workers}
+          encounters={allEncounters.map((e) => ({
+            id: String(e.id),
+            service_date: e.service_date,
+            outreach_location: e.outreach_location,
+          }))}
+        />
+
+        {/* Appointments */}
+        <AppointmentsCard personId={person.id} initialAppointments={appointments} workers={workers} />
+
+        {/* Coordinated Entry assessments */}
+        <div className="bg-white rounded-lg shadow p-8 mb-6">
+          <h3 className="text-xl font-semibold mb-4">Assessments</h3>
+          <AssessmentHistory assessments={assessments} />
+        </div>
+
+        {/* Incident reports */}
+        <div className="bg-white rounded-lg shadow p-8 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-semibold">Incidents</h3>
+            <Link
+              href={`/incidents/new?person=${person.id}`}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
+            >
+              Report Incident
+            </Link>
+          </div>
+          <IncidentList initialIncidents={incidents} showPerson={false} />
+        </div>
+
+        {/* Housing pipeline */}
+        <HousingPipelineCard personId={person.id} initialPipelines={pipelines} />
+
+        {/* Documents */}
+        <DocumentVault personId={person.id} veteran={person.veteran_status} initialDocuments={documents} />
+
+        {/* Referrals */}
+        {referrals.length > 0 && (
+          <div className={`bg-white rounded-lg shadow p-8 mb-6 ${overdueReferrals > 0 ? 'border-2 border-red-300' : ''}`}>
+            <h3 className="text-xl font-semibold mb-2">Referrals</h3>
+            {overdueReferrals > 0 && (
+              <p className="text-sm text-red-700 mb-4">
+                {overdueReferrals} referral{overdueReferrals === 1 ? ' is' : 's are'} overdue for follow-up. Check in with the client or provider and update the status.
+              </p>
+            )}
+            <ReferralList initialReferrals={referrals} />
+          </div>
+        )}
+
         {/* Interaction Timeline */}
         <div className="bg-white rounded-lg shadow p-8">
           <h3 className="text-xl font-semibold mb-6">Service Interaction Timeline</h3>
@@ -392,72 +638,38 @@ export default async function ClientProfilePage({ params }: { params: Promise<{
                         </div>
                       )}
 
-                      {/* Harm Reduction */}
-                      {(encounter.naloxone_distributed || encounter.fentanyl_test_strips_count || encounter.harm_reduction_education) && (
-                        <div>
+                      {/* Services provided, grouped by catalog category */}
+                      {groupServicesByCategory(encounter.encounter_services).map(([category, services]) => (
+                        <div key={category}>
                           <h5 className="text-sm font-semibold text-gray-700 mb-2">
-                            Harm Reduction
+                            {category}
                           </h5>
                           <ul className="space-y-1 text-sm">
-                            {encounter.naloxone_distributed && (
-                              <li className="flex items-center text-gray-600">
-                                <svg className="w-4 h-4 mr-2 text-red-600" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                                </svg>
-                                Naloxone Kit Distributed
-                              </li>
-                            )}
-                            {(encounter.fentanyl_test_strips_count || 0) > 0 && (
-                              <li className="flex items-center text-gray-600">
-                                <svg className="w-4 h-4 mr-2 text-yellow-600" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                                </svg>
-                                Fentanyl Test Strips ({encounter.fentanyl_test_strips_count})
-                              </li>
-                            )}
-                            {encounter.harm_reduction_education && (
-                              <li className="flex items-center text-gray-600">
-                                <svg className="w-4 h-4 mr-2 text-orange-600" fill="currentColor" viewBox="0 0 20 20">
+                            {services.map((service) => (
+                              <li key={service.service_id} className="flex items-center text-gray-600">
+                                <svg className="w-4 h-4 mr-2 text-teal-600" fill="currentColor" viewBox="0 0 20 20">
                                   <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                                 </svg>
-                                Harm Reduction Education
+                                {formatEncounterService(service)}
                               </li>
-                            )}
+                            ))}
                           </ul>
                         </div>
-                      )}
+                      ))}
 
                       {/* Other Services */}
-                      {(encounter.transportation_provided || encounter.shower_trailer || encounter.other_services) && (
+                      {encounter.other_services && (
                         <div>
                           <h5 className="text-sm font-semibold text-gray-700 mb-2">
                             Other Services
                           </h5>
                           <ul className="space-y-1 text-sm">
-                            {encounter.transportation_provided && (
-                              <li className="flex items-center text-gray-600">
-                                <svg className="w-4 h-4 mr-2 text-indigo-600" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                                </svg>
-                                Transportation Provided
-                              </li>
-                            )}
-                            {encounter.shower_trailer && (
-                              <li className="flex items-center text-gray-600">
-                                <svg className="w-4 h-4 mr-2 text-teal-600" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                                </svg>
-                                Shower Trailer Access
-                              </li>
-                            )}
-                            {encounter.other_services && (
-                              <li className="flex items-start text-gray-600">
-                                <svg className="w-4 h-4 mr-2 mt-0.5 text-gray-600" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                                </svg>
-                                <span>{encounter.other_services}</span>
-                              </li>
-                            )}
+                            <li className="flex items-start text-gray-600">
+                              <svg className="w-4 h-4 mr-2 mt-0.5 text-gray-600" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                              </svg>
+                              <span>{encounter.other_services}</span>
+                            </li>
                           </ul>
                         </div>
                       )}
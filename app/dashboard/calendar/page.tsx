@@ -0,0 +1,127 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { addDays, addWeeks, format, isValid, startOfWeek } from 'date-fns'
+import { isAdmin } from '@/lib/utils/auth'
+import { createClient } from '@/lib/supabase/server'
+import TeamCalendar from '@/components/TeamCalendar'
+import { fetchAppointments, isAppointmentOverdue, type Appointment } from '@/lib/utils/appointments'
+
+export default async function TeamCalendarPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ week?: string }>
+}) {
+  // Check if user is admin - redirect if not
+  const userIsAdmin = await isAdmin()
+  if (!userIsAdmin) {
+    redirect('/')
+  }
+
+  const { week } = await searchParams
+  const requestedWeek = week ? new Date(`${week}T00:00:00`) : null
+  const weekStart = startOfWeek(requestedWeek && isValid(requestedWeek) ? requestedWeek : new Date())
+  const days = Array.from({ length: 7 }, (_, i) => format(addDays(weekStart, i), 'yyyy-MM-dd'))
+  const supabase = await createClient()
+
+  let appointments: Appointment[] = []
+  try {
+    appointments = await fetchAppointments(supabase, days[0], days[6])
+  } catch (error) {
+    console.error('Error loading appointments:', error)
+  }
+
+  const ridesNeeded = appointments.filter((a) => a.transportation_needed && a.status === 'scheduled').length
+  const noShows = appointments.filter((a) => a.status === 'no_show').length
+  const overdue = appointments.filter((a) => isAppointmentOverdue(a)).length
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-800 to-blue-700 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <Link
+                href="/dashboard"
+                className="text-blue-200 hover:text-white text-sm mb-2 inline-flex items-center"
+              >
+                <svg
+                  className="w-4 h-4 mr-1"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15 19l-7-7 7-7"
+                  />
+                </svg>
+                Back to Dashboard
+              </Link>
+              <h1 className="text-2xl font-bold text-white">Team Calendar</h1>
+              <p className="text-blue-200 text-sm">
+                Every worker&apos;s appointments with clients, by week
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Week navigation */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6 flex flex-wrap items-center justify-between gap-4">
+          <Link
+            href={`/dashboard/calendar?week=${format(addWeeks(weekStart, -1), 'yyyy-MM-dd')}`}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Previous Week
+          </Link>
+          <p className="font-semibold text-gray-900">
+            {format(weekStart, 'MMM dd')} - {format(addDays(weekStart, 6), 'MMM dd, yyyy')}
+          </p>
+          <div className="flex gap-2">
+            {week && (
+              <Link
+                href="/dashboard/calendar"
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                This Week
+              </Link>
+            )}
+            <Link
+              href={`/dashboard/calendar?week=${format(addWeeks(weekStart, 1), 'yyyy-MM-dd')}`}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+            >
+              Next Week
+            </Link>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">Appointments</p>
+            <p className="text-3xl font-bold text-blue-600 mt-1">{appointments.length}</p>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">Rides Needed</p>
+            <p className="text-3xl font-bold text-purple-600 mt-1">{ridesNeeded}</p>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">No-shows</p>
+            <p className="text-3xl font-bold text-red-600 mt-1">{noShows}</p>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">Awaiting Outcome</p>
+            <p className="text-3xl font-bold text-orange-600 mt-1">{overdue}</p>
+          </div>
+        </div>
+
+        <TeamCalendar key={days[0]} days={days} initialAppointments={appointments} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { isAdmin } from '@/lib/utils/auth'
+import { createClient } from '@/lib/supabase/server'
+import IncidentList from '@/components/IncidentList'
+import IncidentExportButton from '@/components/IncidentExportButton'
+import { INCIDENT_OUTCOME_LABELS, INCIDENT_TYPE_LABELS } from '@/lib/schemas/incident-schema'
+import { fetchIncidents, summarizeIncidents, type Incident } from '@/lib/utils/incidents'
+
+export default async function IncidentsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ start_date?: string; end_date?: string }>
+}) {
+  // Check if user is admin - redirect if not
+  const userIsAdmin = await isAdmin()
+  if (!userIsAdmin) {
+    redirect('/')
+  }
+
+  const { start_date: startDate, end_date: endDate } = await searchParams
+  const supabase = await createClient()
+
+  let incidents: Incident[] = []
+  try {
+    incidents = await fetchIncidents(supabase, startDate, endDate)
+  } catch (error) {
+    console.error('Error loading incidents:', error)
+  }
+
+  const summary = summarizeIncidents(incidents)
+  const pending = incidents.filter((incident) => incident.review_status === 'pending')
+  const reviewed = incidents.filter((incident) => incident.review_status === 'reviewed')
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-800 to-blue-700 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <Link
+                href="/dashboard"
+                className="text-blue-200 hover:text-white text-sm mb-2 inline-flex items-center"
+              >
+                <svg
+                  className="w-4 h-4 mr-1"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15 19l-7-7 7-7"
+                  />
+                </svg>
+                Back to Dashboard
+              </Link>
+              <h1 className="text-2xl font-bold text-white">Incidents</h1>
+              <p className="text-blue-200 text-sm">
+                Overdoses, reversals and other critical incidents reported in the field
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Date Range Filter */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <form method="GET" action="/dashboard/incidents" className="flex gap-4 items-end">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Start Date
+              </label>
+              <input
+                type="date"
+                name="start_date"
+                defaultValue={startDate || ''}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                End Date
+              </label>
+              <input
+                type="date"
+                name="end_date"
+                defaultValue={endDate || ''}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Apply Filter
+            </button>
+            {(startDate || endDate) && (
+              <Link
+                href="/dashboard/incidents"
+                className="px-6 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+              >
+                Clear
+              </Link>
+            )}
+          </form>
+          {(startDate || endDate) && (
+            <p className="text-sm text-gray-600 mt-3">
+              {startDate && endDate
+                ? `Showing incidents from ${format(new Date(startDate), 'MMM dd, yyyy')} to ${format(new Date(endDate), 'MMM dd, yyyy')}`
+                : startDate
+                  ? `Showing incidents from ${format(new Date(startDate), 'MMM dd, yyyy')} onwards`
+                  : `Showing incidents up to ${format(new Date(endDate!), 'MMM dd, yyyy')}`
+              }
+            </p>
+          )}
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">Incidents</p>
+            <p className="text-3xl font-bold text-blue-600 mt-1">{summary.total}</p>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">Overdose Reversals</p>
+            <p className="text-3xl font-bold text-green-600 mt-1">{summary.reversals}</p>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">Naloxone Doses</p>
+            <p className="text-3xl font-bold text-red-600 mt-1">{summary.naloxoneDoses}</p>
+            <p className="text-xs text-gray-500 mt-1">Administered by staff</p>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">EMS Called</p>
+            <p className="text-3xl font-bold text-orange-600 mt-1">{summary.emsCalled}</p>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow">
+            <p className="text-sm text-gray-600 font-medium">Awaiting Review</p>
+            <p className="text-3xl font-bold text-gray-700 mt-1">{summary.pendingReview}</p>
+          </div>
+        </div>
+
+        {summary.total > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-4">By Type</h3>
+              <dl className="space-y-2 text-sm">
+                {summary.byType.map(({ incident_type, count }) => (
+                  <div key={incident_type} className="flex justify-between">
+                    <dt className="text-gray-600">{INCIDENT_TYPE_LABELS[incident_type]}</dt>
+                    <dd className="font-medium">{count}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold mb-4">By Outcome</h3>
+              <dl className="space-y-2 text-sm">
+                {summary.byOutcome.map(({ outcome, count }) => (
+                  <div key={outcome} className="flex justify-between">
+                    <dt className="text-gray-600">{INCIDENT_OUTCOME_LABELS[outcome]}</dt>
+                    <dd className="font-medium">{count}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          </div>
+        )}
+
+        {/* Review queue */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">Awaiting Review</h3>
+          <IncidentList key={`pending-${startDate}-${endDate}`} initialIncidents={pending} canReview />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+            <h3 className="text-xl font-bold text-gray-900">Reviewed</h3>
+            {incidents.length > 0 && <IncidentExportButton incidents={incidents} />}
+          </div>
+          <IncidentList key={`reviewed-${startDate}-${endDate}`} initialIncidents={reviewed} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,12 +6,28 @@ import { redirect } from 'next/navigation'
 import { isAdmin } from '@/lib/utils/auth'
 import EncounterHeatMap from '@/components/EncounterHeatMap'
 import ExportButton from '@/components/ExportButton'
+import HmisExportButton from '@/components/HmisExportButton'
 import CustomReportBuilder from '@/components/CustomReportBuilder'
 import DuplicateManager from '@/components/DuplicateManager'
 import LogoutButton from '@/components/LogoutButton'
 import ProgramExitsSection from '@/components/ProgramExitsSection'
 import MetricsGrid from '@/components/MetricsGrid'
 import PlacementBreakdown from '@/components/PlacementBreakdown'
+import {
+  ENCOUNTER_SERVICES_SELECT,
+  FENTANYL_STRIPS_SERVICE,
+  NALOXONE_SERVICE,
+  fetchServiceCatalog,
+  hasService,
+  serviceQuantity,
+  summarizeServices,
+  type EncounterService,
+  type ServiceCatalogItem,
+} from '@/lib/utils/encounter-services'
+import { countHouseholds, fetchHouseholdMemberships, type HouseholdMembership } from '@/lib/utils/households'
+import { fetchIncomeSourcesByPerson, summarizeBenefitEnrollment, type IncomeSource } from '@/lib/utils/income'
+import { INCOME_SOURCE_LABELS } from '@/lib/schemas/income-schema'
+import { fetchInventory, summarizeStockAlerts, type LowStockAlert, type ExpiringLotAlert } from '@/lib/utils/inventory'
 
 export default async function DashboardPage({
   searchParams,
@@ -31,16 +47,11 @@ export default async function DashboardPage({
   const startDate = params.start_date || null
   const endDate = params.end_date || null
 
-  // Fetch ALL encounters for CustomReportBuilder (unfiltered)
-  const { data: allEncountersData, error: allEncountersError } = await supabase
-    .from('encounters')
-    .select('*')
-
   // Build filtered query for dashboard metrics
   // Use timestamp range that covers the full day in local timezone
   // Start date: beginning of day (00:00:00)
   // End date: end of day (23:59:59)
-  let dashboardEncountersQuery = supabase.from('encounters').select('*')
+  let dashboardEncountersQuery = supabase.from('encounters').select(`*, ${ENCOUNTER_SERVICES_SELECT}`)
 
   if (startDate && endDate) {
     // Both dates provided: filter between range
@@ -63,22 +74,51 @@ export default async function DashboardPage({
 
   const { data: encounters, error: encountersError } = await dashboardEncountersQuery
 
-  // Fetch all persons
+  // Fetch all persons (merged-away duplicates are kept as tombstones and left out)
   const { data: persons, error: personsError } = await supabase
     .from('persons')
     .select('*')
+    .is('merged_into', null)
 
-  // Fetch all status changes for reporting
-  const { data: statusChanges, error: statusChangesError } = await supabase
-    .from('status_changes')
-    .select('*')
+  // Service catalog, for the per-service breakdown and export columns
+  let serviceCatalog: ServiceCatalogItem[] = []
+  try {
+    serviceCatalog = await fetchServiceCatalog(supabase)
+  } catch (error) {
+    console.error('Dashboard service catalog fetch error:', error)
+  }
+
+  // Household memberships, for counting households served
+  let householdMemberships: HouseholdMembership[] = []
+  try {
+    householdMemberships = await fetchHouseholdMemberships(supabase)
+  } catch (error) {
+    console.error('Dashboard household fetch error:', error)
+  }
 
-  if (encountersError || personsError || allEncountersError || statusChangesError) {
-    console.error('Dashboard data fetch error:', encountersError || personsError || allEncountersError || statusChangesError)
+  // Income and benefit history, for income and benefit enrollment rates
+  let incomeByPerson = new Map<string, IncomeSource[]>()
+  try {
+    incomeByPerson = await fetchIncomeSourcesByPerson(supabase)
+  } catch (error) {
+    console.error('Dashboard income fetch error:', error)
+  }
+
+  // Supply stock, for low-stock and expiring-lot alerts
+  let stockAlerts: { lowStock: LowStockAlert[], expiringLots: ExpiringLotAlert[] } = { lowStock: [], expiringLots: [] }
+  try {
+    stockAlerts = summarizeStockAlerts(await fetchInventory(supabase))
+  } catch (error) {
+    console.error('Dashboard inventory fetch error:', error)
+  }
+
+  if (encountersError || personsError) {
+    console.error('Dashboard data fetch error:', encountersError || personsError)
   }
 
   // Type assertions for Supabase data (all fields from database)
   type EncounterData = {
+    id?: string
     service_date: string
     person_id: string  // UUID foreign key
     outreach_location: string
@@ -93,17 +133,14 @@ export default async function DashboardPage({
     mat_provider?: string | null
     detox_referral: boolean
     detox_provider?: string | null
-    naloxone_distributed: boolean
     naloxone_date?: string | null
-    fentanyl_test_strips_count?: number | null
-    harm_reduction_education: boolean
-    transportation_provided: boolean
-    shower_trailer: boolean
+    encounter_services?: EncounterService[] | null
     other_services?: string | null
     placement_made?: boolean
     placement_location?: string | null
     placement_location_other?: string | null
     case_management_notes?: string | null
+    created_at?: string
   }
 
   type PersonData = {
@@ -120,32 +157,24 @@ export default async function DashboardPage({
     living_situation: string
     length_of_time_homeless?: string | null
     veteran_status: boolean
+    disability_status?: boolean
+    disability_type?: string | null
     chronic_homeless: boolean
+    chronic_health?: boolean
+    mental_health?: boolean
+    addiction?: string | null
     enrollment_date: string
     case_manager?: string | null
     referral_source?: string | null
-    income?: string | null
-    income_amount?: number | null
     exit_date?: string | null
     exit_destination?: string | null
     exit_notes?: string | null
-  }
-
-  type StatusChangeData = {
-    id: string
-    person_id: string
-    change_type: 'exit' | 'return_to_active'
-    change_date: string
-    exit_destination?: string | null
-    notes?: string | null
-    created_by?: string | null
-    created_at: string
+    created_at?: string
+    updated_at?: string
   }
 
   const allEncounters = (encounters || []) as EncounterData[]
-  const allEncountersUnfiltered = (allEncountersData || []) as EncounterData[]
   const allPersons = (persons || []) as PersonData[]
-  const allStatusChanges = (statusChanges || []) as StatusChangeData[]
 
   // Helper function to get local date string (YYYY-MM-DD) from timestamp
   // This properly handles timezone offsets by parsing the date and extracting local date
@@ -163,6 +192,38 @@ export default async function DashboardPage({
     ? allPersons.filter(p => personIdsInRange.has(p.id))
     : allPersons
 
+  // Client components get only the fields they show, never whole client records
+  const gridPersons = personsInRange.map((p) => ({
+    id: p.id,
+    client_id: p.client_id,
+    first_name: p.first_name,
+    last_name: p.last_name,
+    gender: p.gender,
+    race: p.race,
+    veteran_status: p.veteran_status,
+    chronic_homeless: p.chronic_homeless,
+    exit_date: p.exit_date,
+    exit_destination: p.exit_destination,
+  }))
+  const gridEncounters = allEncounters.map((e) => ({
+    id: e.id,
+    service_date: e.service_date,
+    person_id: e.person_id,
+    outreach_location: e.outreach_location,
+    outreach_worker: e.outreach_worker,
+    co_occurring_mh_sud: e.co_occurring_mh_sud,
+    co_occurring_type: e.co_occurring_type,
+    mat_referral: e.mat_referral,
+    mat_type: e.mat_type,
+    mat_provider: e.mat_provider,
+    detox_referral: e.detox_referral,
+    detox_provider: e.detox_provider,
+    naloxone_date: e.naloxone_date,
+    encounter_services: e.encounter_services,
+    placement_made: e.placement_made,
+    placement_location: e.placement_location,
+  }))
+
   // Calculate clients served in date range (unique person_ids from filtered encounters)
   const clientsServedInRange = personsInRange.length
 
@@ -180,7 +241,7 @@ export default async function DashboardPage({
     placementsMade: allEncounters.filter((e) => e.placement_made).length,
 
     // 4. Total Naloxone kits distributed
-    naloxoneDistributed: allEncounters.filter((e) => e.naloxone_distributed).length,
+    naloxoneDistributed: allEncounters.filter((e) => hasService(e, NALOXONE_SERVICE)).length,
 
     // 5. Total MAT/detox referrals
     matDetoxReferrals: allEncounters.filter(
@@ -190,21 +251,24 @@ export default async function DashboardPage({
     // 6. Co-occurring SUD and mental health conditions
     coOccurringConditions: allEncounters.filter((e) => e.co_occurring_mh_sud).length,
 
-    // 7. Shower trailer events (need to add this field - placeholder)
-    showerTrailerEvents: 0, // TODO: Add shower_trailer field tracking
+    // 7. Shower trailer events
+    showerTrailerEvents: allEncounters.filter((e) => hasService(e, 'shower_trailer')).length,
 
     // 8. Total service interactions
     totalInteractions: allEncounters.length,
 
     // 9. Fentanyl test strips distributed
     fentanylTestStrips: allEncounters.reduce(
-      (sum, e) => sum + (e.fentanyl_test_strips_count || 0),
+      (sum, e) => sum + serviceQuantity(e, FENTANYL_STRIPS_SERVICE),
       0
     ),
 
     // 10. Transportation provided count
-    transportationProvided: allEncounters.filter((e) => e.transportation_provided)
+    transportationProvided: allEncounters.filter((e) => hasService(e, 'transportation'))
       .length,
+
+    // 11. Households served (persons not in a household count as their own)
+    householdsServed: countHouseholds(personsInRange.map((p) => p.id), householdMemberships),
   }
 
   // Demographics breakdown - use personsInRange for date-filtered stats
@@ -220,14 +284,17 @@ export default async function DashboardPage({
     veterans: personsInRange.filter((p) => p.veteran_status).length,
     chronicallyHomeless: personsInRange.filter((p) => p.chronic_homeless).length,
     withPhoneNumber: personsInRange.filter((p) => p.phone_number).length,
-    withIncome: personsInRange.filter((p) => p.income_amount && p.income_amount > 0).length,
-    averageIncome: personsInRange.filter((p) => p.income_amount && p.income_amount > 0).length > 0
-      ? Math.round(personsInRange.reduce((sum, p) => sum + (p.income_amount || 0), 0) /
-          personsInRange.filter((p) => p.income_amount && p.income_amount > 0).length)
-      : 0,
-    totalIncome: personsInRange.reduce((sum, p) => sum + (p.income_amount || 0), 0),
   }
 
+  // Income and benefits clients were receiving at the end of the period
+  const benefitEnrollment = summarizeBenefitEnrollment(
+    personsInRange.map((p) => p.id),
+    incomeByPerson,
+    endDate || format(new Date(), 'yyyy-MM-dd')
+  )
+  const percentOfClients = (count: number) =>
+    benefitEnrollment.clients > 0 ? Math.round((count / benefitEnrollment.clients) * 100) : 0
+
   // Program exits breakdown - filter by date range if specified
   const exitedPersons = allPersons.filter((p) => {
     if (!p.exit_date) return false
@@ -296,14 +363,13 @@ export default async function DashboardPage({
   // Service interaction types
   const serviceTypes = {
     caseManagement: allEncounters.filter((e) => e.case_management_notes).length,
-    harmReduction: allEncounters.filter((e) => e.harm_reduction_education).length,
     matReferrals: allEncounters.filter((e) => e.mat_referral).length,
     detoxReferrals: allEncounters.filter((e) => e.detox_referral).length,
-    naloxone: allEncounters.filter((e) => e.naloxone_distributed).length,
-    transportation: allEncounters.filter((e) => e.transportation_provided).length,
-    showerTrailer: allEncounters.filter((e) => e.shower_trailer).length,
   }
 
+  // Catalog services provided, one total per service
+  const serviceTotals = summarizeServices(allEncounters, serviceCatalog)
+
   // Referral breakdown by provider
   const referralBreakdown = {
     mat: allEncounters
@@ -400,7 +466,159 @@ export default async function DashboardPage({
               Program metrics and service analytics
             </p>
           </div>
-          <div>
+          <div className="flex gap-3">
+            <Link
+              href="/dashboard/audit"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"
+                />
+              </svg>
+              Audit Log
+            </Link>
+            <Link
+              href="/dashboard/lookups"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 6h16M4 10h16M4 14h16M4 18h16"
+                />
+              </svg>
+              Lookup Lists
+            </Link>
+            <Link
+              href="/dashboard/services"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 13l4 4L19 7"
+                />
+              </svg>
+              Service Catalog
+            </Link>
+            <Link
+              href="/dashboard/sites"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z"
+                />
+              </svg>
+              Sites
+            </Link>
+            <Link
+              href="/dashboard/inventory"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+                />
+              </svg>
+              Supplies
+            </Link>
+            <Link
+              href="/dashboard/incidents"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                />
+              </svg>
+              Incidents
+            </Link>
+            <Link
+              href="/dashboard/calendar"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                />
+              </svg>
+              Calendar
+            </Link>
+            <Link
+              href="/dashboard/prioritization"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 4h13M3 8h9m-9 4h6m4 0l4-4m0 0l4 4m-4-4v12"
+                />
+              </svg>
+              Prioritization
+            </Link>
             <Link
               href="/dashboard/users"
               className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium inline-flex items-center"
@@ -662,23 +880,35 @@ export default async function DashboardPage({
         </div>
 
         {/* Placement Breakdown Section */}
-        <PlacementBreakdown encounters={allEncounters} persons={allPersons} />
+        <PlacementBreakdown
+          encounters={allEncounters
+            .filter((e) => e.placement_made)
+            .map((e) => ({
+              service_date: e.service_date,
+              person_id: e.person_id,
+              placement_made: e.placement_made,
+              placement_location: e.placement_location,
+              placement_location_other: e.placement_location_other,
+            }))}
+          persons={allPersons.map((p) => ({ id: p.id, first_name: p.first_name, last_name: p.last_name }))}
+        />
 
         {/* Custom Report Builder */}
         <div className="mb-6">
-          <CustomReportBuilder persons={allPersons} encounters={allEncountersUnfiltered} statusChanges={allStatusChanges} />
+          <CustomReportBuilder />
         </div>
 
         {/* Duplicate Manager */}
         <div className="mb-6">
-          <DuplicateManager persons={allPersons} />
+          <DuplicateManager />
         </div>
 
         {/* Key Metrics Grid - Clickable Cards */}
         <MetricsGrid
           metrics={metrics}
-          persons={personsInRange}
-          encounters={allEncounters}
+          persons={gridPersons}
+          encounters={gridEncounters}
+          householdMemberships={householdMemberships}
           demographics={demographics}
         />
 
@@ -744,28 +974,44 @@ export default async function DashboardPage({
             </div>
             <div className="text-center p-4 bg-cyan-50 rounded-lg">
               <p className="text-2xl font-bold text-cyan-600">
-                {demographics.withIncome}
+                {benefitEnrollment.withCashIncome}
               </p>
-              <p className="text-sm text-gray-600 mt-1">Reporting Income</p>
+              <p className="text-sm text-gray-600 mt-1">Receiving Income</p>
               <p className="text-xs text-gray-500 mt-1">
-                {Math.round((demographics.withIncome / allPersons.length) * 100)}% of total
+                {percentOfClients(benefitEnrollment.withCashIncome)}% of clients
               </p>
             </div>
             <div className="text-center p-4 bg-blue-50 rounded-lg">
               <p className="text-2xl font-bold text-blue-600">
-                ${demographics.averageIncome.toLocaleString()}
+                ${(benefitEnrollment.averageMonthlyIncome ?? 0).toLocaleString()}
               </p>
               <p className="text-sm text-gray-600 mt-1">Average Monthly Income</p>
-              <p className="text-xs text-gray-500 mt-1">Among those reporting</p>
+              <p className="text-xs text-gray-500 mt-1">Among those receiving income</p>
             </div>
             <div className="text-center p-4 bg-violet-50 rounded-lg">
               <p className="text-2xl font-bold text-violet-600">
-                ${demographics.totalIncome.toLocaleString()}
+                {benefitEnrollment.withNonCashBenefit}
+              </p>
+              <p className="text-sm text-gray-600 mt-1">Receiving Non-Cash Benefits</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {percentOfClients(benefitEnrollment.withNonCashBenefit)}% of clients
               </p>
-              <p className="text-sm text-gray-600 mt-1">Total Monthly Income</p>
-              <p className="text-xs text-gray-500 mt-1">All clients combined</p>
             </div>
           </div>
+
+          {benefitEnrollment.bySource.length > 0 && (
+            <>
+              <h4 className="text-md font-semibold mt-6 mb-3">Benefit Enrollment Rates</h4>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+                {benefitEnrollment.bySource.map(({ source_type, count }) => (
+                  <div key={source_type} className="flex justify-between">
+                    <dt className="text-gray-600">{INCOME_SOURCE_LABELS[source_type]}</dt>
+                    <dd className="font-medium">{count} ({percentOfClients(count)}%)</dd>
+                  </div>
+                ))}
+              </dl>
+            </>
+          )}
         </div>
 
         {/* Service Types Breakdown */}
@@ -778,12 +1024,6 @@ export default async function DashboardPage({
               </p>
               <p className="text-sm text-gray-600 mt-1">Case Management</p>
             </div>
-            <div className="text-center p-4 bg-green-50 rounded-lg">
-              <p className="text-2xl font-bold text-green-600">
-                {serviceTypes.harmReduction}
-              </p>
-              <p className="text-sm text-gray-600 mt-1">Harm Reduction</p>
-            </div>
             <div className="text-center p-4 bg-purple-50 rounded-lg">
               <p className="text-2xl font-bold text-purple-600">
                 {serviceTypes.matReferrals}
@@ -796,26 +1036,67 @@ export default async function DashboardPage({
               </p>
               <p className="text-sm text-gray-600 mt-1">Detox Referrals</p>
             </div>
-            <div className="text-center p-4 bg-orange-50 rounded-lg">
-              <p className="text-2xl font-bold text-orange-600">
-                {serviceTypes.naloxone}
-              </p>
-              <p className="text-sm text-gray-600 mt-1">Naloxone</p>
-            </div>
-            <div className="text-center p-4 bg-indigo-50 rounded-lg">
-              <p className="text-2xl font-bold text-indigo-600">
-                {serviceTypes.transportation}
-              </p>
-              <p className="text-sm text-gray-600 mt-1">Transportation</p>
+            {serviceTotals.map((total) => (
+              <div key={total.key} className="text-center p-4 bg-teal-50 rounded-lg">
+                <p className="text-2xl font-bold text-teal-600">
+                  {total.encounters}
+                </p>
+                <p className="text-sm text-gray-600 mt-1">{total.name}</p>
+                {total.unit && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {total.quantity.toLocaleString()} {total.unit}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Supply Alerts */}
+        {(stockAlerts.lowStock.length > 0 || stockAlerts.expiringLots.length > 0) && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6 border-l-4 border-orange-400">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Supply Alerts</h3>
+              <Link href="/inventory" className="text-sm text-blue-700 hover:text-blue-800 font-medium">
+                Manage stock →
+              </Link>
             </div>
-            <div className="text-center p-4 bg-teal-50 rounded-lg">
-              <p className="text-2xl font-bold text-teal-600">
-                {serviceTypes.showerTrailer}
-              </p>
-              <p className="text-sm text-gray-600 mt-1">Shower Trailer</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {stockAlerts.lowStock.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Low Stock</h4>
+                  <ul className="space-y-1 text-sm">
+                    {stockAlerts.lowStock.map(({ location, item, quantity }) => (
+                      <li key={`${location.id}:${item.id}`} className="flex justify-between">
+                        <span className="text-gray-600">{location.name}: {item.name}</span>
+                        <span className={`font-medium ${quantity <= 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                          {quantity} {item.unit}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {stockAlerts.expiringLots.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Expiring Lots</h4>
+                  <ul className="space-y-1 text-sm">
+                    {stockAlerts.expiringLots.map(({ location, item, lot, quantity, expired }) => (
+                      <li key={`${location.id}:${lot.id}`} className="flex justify-between">
+                        <span className="text-gray-600">
+                          {location.name}: {item.name} lot {lot.lot_number} ({quantity} {item.unit})
+                        </span>
+                        <span className={`font-medium ${expired ? 'text-red-600' : 'text-orange-600'}`}>
+                          {expired ? 'Expired' : 'Expires'} {format(new Date(`${lot.expires_on}T00:00:00`), 'MMM d, yyyy')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
-        </div>
+        )}
 
         {/* Heat Map */}
         <div className="bg-white rounded-lg shadow p-6 mb-6">
@@ -828,14 +1109,20 @@ export default async function DashboardPage({
           <h3 className="text-lg font-semibold mb-4">Export Data</h3>
           <p className="text-gray-600 mb-4">
             Download all metrics and data for the selected date range. Exports three CSV files:
-            summary metrics, client list, and service interactions.
+            summary metrics, client list, and service interactions. Choose who the export is for;
+            clients without an active release of information for that agency are left out.
           </p>
-          <ExportButton
-            persons={allPersons}
-            encounters={allEncounters}
-            startDate={startDate}
-            endDate={endDate}
-          />
+          <ExportButton startDate={startDate} endDate={endDate} />
+
+          <div className="border-t border-gray-200 mt-6 pt-6">
+            <h4 className="font-semibold text-gray-900 mb-2">HUD HMIS Upload</h4>
+            <p className="text-gray-600 mb-4">
+              Generate the HMIS CSV (FY2024) files required by the CoC as a zip. Records are
+              validated first, with a report of any rows that would fail import. Only clients with an
+              active release of information for HMIS are included.
+            </p>
+            <HmisExportButton startDate={startDate} endDate={endDate} />
+          </div>
         </div>
       </div>
     </div>
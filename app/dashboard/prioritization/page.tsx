@@ -0,0 +1,127 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { isAdmin } from '@/lib/utils/auth'
+import { createClient } from '@/lib/supabase/server'
+import PriorityListExportButton from '@/components/PriorityListExportButton'
+import { ACUITY_LABELS, type Acuity } from '@/lib/schemas/assessment-schema'
+import { fetchPriorityList, type PriorityListEntry } from '@/lib/utils/assessments'
+
+const ACUITY_STYLES: Record<Acuity, string> = {
+  low: 'bg-green-100 text-green-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+}
+
+export default async function PrioritizationPage() {
+  // Check if user is admin - redirect if not
+  const userIsAdmin = await isAdmin()
+  if (!userIsAdmin) {
+    redirect('/')
+  }
+
+  const supabase = await createClient()
+
+  let entries: PriorityListEntry[] = []
+  try {
+    entries = await fetchPriorityList(supabase)
+  } catch (error) {
+    console.error('Error loading prioritization list:', error)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-800 to-blue-700 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <Link
+                href="/dashboard"
+                className="text-blue-200 hover:text-white text-sm mb-2 inline-flex items-center"
+              >
+                <svg
+                  className="w-4 h-4 mr-1"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15 19l-7-7 7-7"
+                  />
+                </svg>
+                Back to Dashboard
+              </Link>
+              <h1 className="text-2xl font-bold text-white">Prioritization List</h1>
+              <p className="text-blue-200 text-sm">
+                Active clients by latest assessment score
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+            <p className="text-sm text-gray-600 max-w-3xl">
+              Clients who are still enrolled, ranked by their most recent assessment score. Ties go to chronically
+              homeless clients, then veterans, then the longest time homeless, then whoever was assessed first.
+              Clients without an assessment are not listed. The CSV export only includes clients with an active
+              release of information for Coordinated Entry.
+            </p>
+            {entries.length > 0 && <PriorityListExportButton entries={entries} />}
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-gray-500 py-4">No active clients have been assessed yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4 font-medium">Rank</th>
+                    <th className="py-2 pr-4 font-medium">Client</th>
+                    <th className="py-2 pr-4 font-medium">Score</th>
+                    <th className="py-2 pr-4 font-medium">Acuity</th>
+                    <th className="py-2 pr-4 font-medium">Chronic</th>
+                    <th className="py-2 pr-4 font-medium">Veteran</th>
+                    <th className="py-2 pr-4 font-medium">Time Homeless</th>
+                    <th className="py-2 font-medium">Assessed</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.map(({ person, assessment }, index) => (
+                    <tr key={person.id}>
+                      <td className="py-2 pr-4 font-semibold text-gray-900">{index + 1}</td>
+                      <td className="py-2 pr-4">
+                        <Link href={`/client/${person.id}`} className="text-blue-700 hover:text-blue-800 font-medium">
+                          {person.first_name} {person.last_name}
+                        </Link>
+                        <span className="text-gray-500 ml-2">{person.client_id}</span>
+                      </td>
+                      <td className="py-2 pr-4 text-lg font-bold text-gray-900">{assessment.total_score}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ACUITY_STYLES[assessment.acuity]}`}>
+                          {ACUITY_LABELS[assessment.acuity]}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">{person.chronic_homeless ? 'Yes' : 'No'}</td>
+                      <td className="py-2 pr-4">{person.veteran_status ? 'Yes' : 'No'}</td>
+                      <td className="py-2 pr-4">{person.length_of_time_homeless || 'Not recorded'}</td>
+                      <td className="py-2">{format(parseISO(assessment.assessed_on), 'MM/dd/yyyy')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { endOfMonth, format, startOfMonth } from 'date-fns'
+import InventoryManager from '@/components/InventoryManager'
+import {
+  fetchInventory,
+  fetchRecordedServiceQuantities,
+  type InventorySnapshot,
+} from '@/lib/utils/inventory'
+
+export default async function InventoryPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ month?: string }>
+}) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  // Month to reconcile, defaulting to the current one
+  const { month: monthParam } = await searchParams
+  const month = monthParam && /^\d{4}-\d{2}$/.test(monthParam) ? monthParam : format(new Date(), 'yyyy-MM')
+  const monthDate = new Date(`${month}-01T00:00:00`)
+  const monthStart = format(startOfMonth(monthDate), 'yyyy-MM-dd')
+  const monthEnd = format(endOfMonth(monthDate), 'yyyy-MM-dd')
+
+  let snapshot: InventorySnapshot = { items: [], locations: [], lots: [], transactions: [] }
+  try {
+    snapshot = await fetchInventory(supabase)
+  } catch (error) {
+    console.error('Error loading inventory:', error)
+  }
+
+  let recordedByService = new Map<string, number>()
+  try {
+    recordedByService = await fetchRecordedServiceQuantities(supabase, monthStart, monthEnd)
+  } catch (error) {
+    console.error('Error loading recorded service quantities:', error)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Blue Header Bar */}
+      <div className="bg-gradient-to-r from-blue-800 to-blue-700 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Image
+                src="https://www.sdrescue.org/wp-content/uploads/2021/06/SDRMLogo2016.svg"
+                alt="San Diego Rescue Mission"
+                width={180}
+                height={60}
+                className="h-12 w-auto bg-white p-2 rounded"
+              />
+              <div className="border-l-2 border-blue-500 pl-4">
+                <h1 className="text-2xl font-bold text-white">
+                  Encinitas Street Reach
+                </h1>
+                <p className="text-blue-200 text-sm">
+                  By-name list & service tracking
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header with back link */}
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="text-blue-700 hover:text-blue-800 font-medium mb-4 inline-flex items-center"
+          >
+            <svg
+              className="w-5 h-5 mr-1"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Client List
+          </Link>
+          <h2 className="text-3xl font-bold text-gray-900 mt-4">
+            Supplies
+          </h2>
+          <p className="text-gray-600 mt-2">
+            Harm-reduction stock held by each worker, vehicle and storage location. Supplies recorded on service interactions are taken off the worker&apos;s stock automatically.
+          </p>
+        </div>
+
+        <InventoryManager
+          initialSnapshot={snapshot}
+          month={month}
+          monthStart={monthStart}
+          monthEnd={monthEnd}
+          recordedByService={Object.fromEntries(recordedByService)}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { notFound } from 'next/navigation'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { SITE_TYPE_LABELS } from '@/lib/schemas/site-schema'
+import type { Site } from '@/lib/utils/sites'
+
+type SiteEncounter = {
+  id: string
+  service_date: string
+  outreach_worker: string
+  person_id: string
+  person: { id: string, client_id: string, first_name: string, last_name: string } | null
+}
+
+// A client contacted at the site, with when they were first and last seen there
+type SiteContact = {
+  person: NonNullable<SiteEncounter['person']>
+  interactions: number
+  firstSeen: string
+  lastSeen: string
+}
+
+export default async function SiteDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data: siteData, error: siteError } = await supabase
+    .from('sites')
+    .select('id, name, site_type, latitude, longitude, radius_meters, notes, retired_at')
+    .eq('id', id)
+    .single()
+
+  if (siteError || !siteData) {
+    notFound()
+  }
+
+  const site = siteData as Site
+
+  const { data: encounterData, error: encountersError } = await supabase
+    .from('encounters')
+    .select('id, service_date, outreach_worker, person_id, person:persons(id, client_id, first_name, last_name)')
+    .eq('site_id', id)
+    .order('service_date', { ascending: false })
+
+  if (encountersError) {
+    console.error('Error loading site encounters:', encountersError)
+  }
+
+  const encounters = (encounterData || []) as unknown as SiteEncounter[]
+
+  // Encounters are newest first, so the first one seen per person is their last contact
+  const contacts = new Map<string, SiteContact>()
+  encounters.forEach((e) => {
+    if (!e.person) return
+    const contact = contacts.get(e.person_id)
+    if (contact) {
+      contact.interactions += 1
+      contact.firstSeen = e.service_date
+    } else {
+      contacts.set(e.person_id, { person: e.person, interactions: 1, firstSeen: e.service_date, lastSeen: e.service_date })
+    }
+  })
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Blue Header Bar */}
+      <div className="bg-gradient-to-r from-blue-800 to-blue-700 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Image
+                src="https://www.sdrescue.org/wp-content/uploads/2021/06/SDRMLogo2016.svg"
+                alt="San Diego Rescue Mission"
+                width={180}
+                height={60}
+                className="h-12 w-auto bg-white p-2 rounded"
+              />
+              <div className="border-l-2 border-blue-500 pl-4">
+                <h1 className="text-2xl font-bold text-white">
+                  Encinitas Street Reach
+                </h1>
+                <p className="text-blue-200 text-sm">
+                  By-name list & service tracking
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header with back link */}
+        <div className="mb-8">
+          <Link
+            href="/sites"
+            className="text-blue-700 hover:text-blue-800 font-medium mb-4 inline-flex items-center"
+          >
+            <svg
+              className="w-5 h-5 mr-1"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Sites
+          </Link>
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <h2 className="text-3xl font-bold text-gray-900">{site.name}</h2>
+            <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-sm font-semibold rounded">
+              {SITE_TYPE_LABELS[site.site_type]}
+            </span>
+            {site.retired_at && (
+              <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-sm font-semibold rounded">
+                Retired
+              </span>
+            )}
+          </div>
+          <p className="text-gray-600 mt-2">
+            {site.latitude.toFixed(5)}, {site.longitude.toFixed(5)} · {site.radius_meters} m radius
+          </p>
+          {site.notes && <p className="text-gray-700 mt-2 whitespace-pre-wrap">{site.notes}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm text-gray-600 font-medium">Clients Contacted</p>
+            <p className="text-3xl font-bold text-blue-600 mt-1">{contacts.size}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm text-gray-600 font-medium">Service Interactions</p>
+            <p className="text-3xl font-bold text-green-600 mt-1">{encounters.length}</p>
+          </div>
+        </div>
+
+        {/* Everyone contacted here, most recent first */}
+        <div className="bg-white rounded-lg shadow p-8 mb-6">
+          <h3 className="text-xl font-semibold mb-4">Clients Contacted Here</h3>
+          {contacts.size === 0 ? (
+            <p className="text-gray-500">No interactions recorded at this site yet.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4 font-medium">Client</th>
+                  <th className="py-2 pr-4 font-medium">Interactions</th>
+                  <th className="py-2 pr-4 font-medium">First Seen</th>
+                  <th className="py-2 font-medium">Last Seen</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {Array.from(contacts.values()).map((contact) => (
+                  <tr key={contact.person.id}>
+                    <td className="py-2 pr-4">
+                      <Link href={`/client/${contact.person.id}`} className="text-blue-700 hover:text-blue-800 font-medium">
+                        {contact.person.first_name} {contact.person.last_name}
+                      </Link>
+                      <span className="text-gray-500 ml-2">{contact.person.client_id}</span>
+                    </td>
+                    <td className="py-2 pr-4">{contact.interactions}</td>
+                    <td className="py-2 pr-4">{format(new Date(contact.firstSeen), 'MM/dd/yyyy')}</td>
+                    <td className="py-2">{format(new Date(contact.lastSeen), 'MM/dd/yyyy')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Interaction history */}
+        {encounters.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-8">
+            <h3 className="text-xl font-semibold mb-4">Interaction History</h3>
+            <ul className="divide-y divide-gray-200">
+              {encounters.map((e) => (
+                <li key={e.id} className="py-2 flex flex-wrap justify-between gap-2 text-sm">
+                  <span>
+                    {format(new Date(e.service_date), 'MM/dd/yyyy')} ·{' '}
+                    {e.person ? `${e.person.first_name} ${e.person.last_name}` : 'Unknown client'}
+                  </span>
+                  <span className="text-gray-500">{e.outreach_worker}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
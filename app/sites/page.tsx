@@ -0,0 +1,137 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { redirect } from 'next/navigation'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { SITE_TYPE_LABELS } from '@/lib/schemas/site-schema'
+import { fetchSites, summarizeSites, type Site, type SiteTotal } from '@/lib/utils/sites'
+
+export default async function SitesPage() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/login')
+  }
+
+  let sites: Site[] = []
+  try {
+    sites = await fetchSites(supabase)
+  } catch (error) {
+    console.error('Error loading sites:', error)
+  }
+
+  const { data: encounterData, error: encountersError } = await supabase
+    .from('encounters')
+    .select('person_id, site_id, service_date')
+    .not('site_id', 'is', null)
+
+  if (encountersError) {
+    console.error('Error loading site encounters:', encountersError)
+  }
+
+  const encounters = (encounterData || []) as { person_id: string, site_id: string, service_date: string }[]
+  const totals = new Map<string, SiteTotal>(summarizeSites(encounters, sites).map((t) => [t.site_id, t]))
+  const lastContact = new Map<string, string>()
+  encounters.forEach((e) => {
+    if (e.service_date > (lastContact.get(e.site_id) || '')) {
+      lastContact.set(e.site_id, e.service_date)
+    }
+  })
+
+  const activeSites = sites.filter((site) => !site.retired_at)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Blue Header Bar */}
+      <div className="bg-gradient-to-r from-blue-800 to-blue-700 shadow-lg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Image
+                src="https://www.sdrescue.org/wp-content/uploads/2021/06/SDRMLogo2016.svg"
+                alt="San Diego Rescue Mission"
+                width={180}
+                height={60}
+                className="h-12 w-auto bg-white p-2 rounded"
+              />
+              <div className="border-l-2 border-blue-500 pl-4">
+                <h1 className="text-2xl font-bold text-white">
+                  Encinitas Street Reach
+                </h1>
+                <p className="text-blue-200 text-sm">
+                  By-name list & service tracking
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header with back link */}
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="text-blue-700 hover:text-blue-800 font-medium mb-4 inline-flex items-center"
+          >
+            <svg
+              className="w-5 h-5 mr-1"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Client List
+          </Link>
+          <h2 className="text-3xl font-bold text-gray-900 mt-4">
+            Sites
+          </h2>
+          <p className="text-gray-600 mt-2">
+            Known outreach sites and how many clients have been contacted at each.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          {activeSites.length === 0 ? (
+            <p className="text-gray-500 py-4">No sites registered yet. An admin can add sites from the dashboard.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {activeSites.map((site) => {
+                const total = totals.get(site.id)
+                const last = lastContact.get(site.id)
+                return (
+                  <li key={site.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <Link href={`/sites/${site.id}`} className="font-semibold text-blue-700 hover:text-blue-800">
+                        {site.name}
+                      </Link>
+                      <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded">
+                        {SITE_TYPE_LABELS[site.site_type]}
+                      </span>
+                      {last && (
+                        <p className="text-sm text-gray-600 mt-1">
+                          Last contact {format(new Date(last), 'MM/dd/yyyy')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-700">
+                      <span className="font-semibold">{total?.clients || 0}</span> clients ·{' '}
+                      <span className="font-semibold">{total?.interactions || 0}</span> interactions
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import { addDays, format } from 'date-fns'
+import {
+  APPOINTMENT_TYPES,
+  APPOINTMENT_TYPE_LABELS,
+  appointmentSchema,
+  type AppointmentType,
+} from '@/lib/schemas/appointment-schema'
+import { saveAppointment } from '@/lib/utils/appointments'
+import type { Worker } from '@/lib/utils/case-plans'
+
+interface AppointmentFormProps {
+  personId: string
+  workers: Worker[]
+  onSaved: () => Promise<void>
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function AppointmentForm({ personId, workers, onSaved }: AppointmentFormProps) {
+  const [appointmentType, setAppointmentType] = useState<AppointmentType | ''>('')
+  const [scheduledOn, setScheduledOn] = useState(format(addDays(new Date(), 1), 'yyyy-MM-dd'))
+  const [scheduledTime, setScheduledTime] = useState('09:00')
+  const [durationMinutes, setDurationMinutes] = useState(60)
+  const [assignedTo, setAssignedTo] = useState('')
+  const [location, setLocation] = useState('')
+  const [transportationNeeded, setTransportationNeeded] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    const result = appointmentSchema.safeParse({
+      appointment_type: appointmentType,
+      scheduled_on: scheduledOn,
+      scheduled_time: scheduledTime,
+      duration_minutes: durationMinutes,
+      assigned_to: assignedTo,
+      location: location.trim() || null,
+      transportation_needed: transportationNeeded,
+      notes: notes.trim() || null,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid appointment')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await saveAppointment(personId, result.data)
+      await onSaved()
+    } catch (error) {
+      console.error('Error saving appointment:', error)
+      alert('Error saving appointment. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mb-6 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Type <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={appointmentType}
+            onChange={(e) => setAppointmentType(e.target.value as AppointmentType | '')}
+            className={inputClass}
+          >
+            <option value="">Select...</option>
+            {APPOINTMENT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {APPOINTMENT_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Date <span className="text-red-500">*</span>
+          </label>
+          <input type="date" value={scheduledOn} onChange={(e) => setScheduledOn(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Time <span className="text-red-500">*</span>
+          </label>
+          <input type="time" value={scheduledTime} onChange={(e) => setScheduledTime(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Length (minutes)</label>
+          <input
+            type="number"
+            min="5"
+            step="5"
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(e.target.valueAsNumber)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Worker <span className="text-red-500">*</span>
+          </label>
+          <select value={assignedTo} onChange={(e) => setAssignedTo(e.target.value)} className={inputClass}>
+            <option value="">Assign to...</option>
+            {workers.map((worker) => (
+              <option key={worker.email} value={worker.email}>
+                {worker.full_name || worker.email}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+          <input
+            type="text"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="e.g. McAlister Institute, Oceanside"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <label className="flex items-center space-x-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={transportationNeeded}
+          onChange={(e) => setTransportationNeeded(e.target.checked)}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700">Client needs a ride</span>
+      </label>
+      <input
+        type="text"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes (optional), e.g. pick up at the library at 8:30"
+        className={inputClass}
+      />
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {saving ? 'Saving...' : 'Schedule Appointment'}
+      </button>
+    </div>
+  )
+}
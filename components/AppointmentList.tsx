@@ -0,0 +1,156 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import {
+  APPOINTMENT_STATUS_LABELS,
+  APPOINTMENT_TYPE_LABELS,
+  type AppointmentStatus,
+} from '@/lib/schemas/appointment-schema'
+import {
+  appointmentEnd,
+  isAppointmentOverdue,
+  setAppointmentStatus,
+  type Appointment,
+} from '@/lib/utils/appointments'
+
+const STATUS_STYLES: Record<AppointmentStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  no_show: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-700',
+}
+
+interface AppointmentListProps {
+  appointments: Appointment[]
+  onUpdated: (appointment: Appointment) => void
+  // Show the client's name on each appointment (for lists spanning clients)
+  showClient?: boolean
+  // Show the worker responsible (for lists spanning workers)
+  showAssignee?: boolean
+  emptyMessage?: string
+}
+
+export default function AppointmentList({
+  appointments,
+  onUpdated,
+  showClient = false,
+  showAssignee = false,
+  emptyMessage = 'No appointments scheduled',
+}: AppointmentListProps) {
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const handleStatus = async (appointment: Appointment, status: AppointmentStatus) => {
+    if (status === 'cancelled' && !confirm('Cancel this appointment?')) return
+
+    setSavingId(appointment.id)
+    try {
+      onUpdated(await setAppointmentStatus(appointment.id, status))
+    } catch (error) {
+      console.error('Error updating appointment:', error)
+      alert('Error updating appointment. Please try again.')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (appointments.length === 0) {
+    return <p className="text-gray-500 py-4">{emptyMessage}</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {appointments.map((appointment) => {
+        const overdue = isAppointmentOverdue(appointment)
+        const missed = appointment.status === 'no_show' || overdue
+        return (
+          <li key={appointment.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900">
+                  {format(new Date(appointment.scheduled_at), 'EEE MM/dd/yyyy h:mm a')}
+                  {' - '}
+                  {format(appointmentEnd(appointment), 'h:mm a')}
+                </span>
+                <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-sky-100 text-sky-800">
+                  {APPOINTMENT_TYPE_LABELS[appointment.appointment_type]}
+                </span>
+                {overdue ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800">
+                    Overdue
+                  </span>
+                ) : (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[appointment.status]}`}>
+                    {APPOINTMENT_STATUS_LABELS[appointment.status]}
+                  </span>
+                )}
+                {appointment.transportation_needed && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+                    Ride needed
+                  </span>
+                )}
+              </div>
+              {showClient && appointment.person && (
+                <p className="text-sm mt-1">
+                  <Link href={`/client/${appointment.person.id}`} className="font-medium text-blue-700 hover:text-blue-800">
+                    {appointment.person.first_name} {appointment.person.last_name} ({appointment.person.client_id})
+                  </Link>
+                </p>
+              )}
+              <p className="text-sm text-gray-600 mt-1">
+                {appointment.location || 'No location given'}
+                {showAssignee && ` · ${appointment.assigned_to}`}
+              </p>
+              {appointment.notes && (
+                <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{appointment.notes}</p>
+              )}
+              {appointment.status_changed_by && appointment.status_changed_at && appointment.status !== 'scheduled' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Marked {APPOINTMENT_STATUS_LABELS[appointment.status].toLowerCase()} by {appointment.status_changed_by} on{' '}
+                  {format(new Date(appointment.status_changed_at), 'MM/dd/yyyy')}
+                  {appointment.follow_up_encounter_id && ' · followed up with an interaction'}
+                </p>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {appointment.status === 'scheduled' && (
+                <>
+                  <button
+                    onClick={() => handleStatus(appointment, 'completed')}
+                    disabled={savingId === appointment.id}
+                    className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    Completed
+                  </button>
+                  <button
+                    onClick={() => handleStatus(appointment, 'no_show')}
+                    disabled={savingId === appointment.id}
+                    className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    No-show
+                  </button>
+                  <button
+                    onClick={() => handleStatus(appointment, 'cancelled')}
+                    disabled={savingId === appointment.id}
+                    className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </>
+              )}
+              {missed && !appointment.follow_up_encounter_id && (
+                <Link
+                  href={`/client/${appointment.person_id}/encounter/new?appointment=${appointment.id}`}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+                >
+                  Log Follow-up
+                </Link>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
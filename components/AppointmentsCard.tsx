@@ -0,0 +1,65 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { fetchPersonAppointments, type Appointment } from '@/lib/utils/appointments'
+import type { Worker } from '@/lib/utils/case-plans'
+import AppointmentForm from './AppointmentForm'
+import AppointmentList from './AppointmentList'
+
+interface AppointmentsCardProps {
+  personId: string
+  initialAppointments: Appointment[]
+  workers: Worker[]
+}
+
+export default function AppointmentsCard({ personId, initialAppointments, workers }: AppointmentsCardProps) {
+  const [appointments, setAppointments] = useState(initialAppointments)
+  const [showForm, setShowForm] = useState(false)
+
+  const upcoming = appointments
+    .filter((a) => a.status === 'scheduled')
+    .sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at))
+  const past = appointments.filter((a) => a.status !== 'scheduled')
+
+  const handleSaved = async () => {
+    setShowForm(false)
+    setAppointments(await fetchPersonAppointments(createClient(), personId))
+  }
+
+  const handleUpdated = (updated: Appointment) => {
+    setAppointments(appointments.map((a) => (a.id === updated.id ? updated : a)))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-semibold">Appointments</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          {showForm ? 'Cancel' : '+ Schedule'}
+        </button>
+      </div>
+
+      {showForm && <AppointmentForm personId={personId} workers={workers} onSaved={handleSaved} />}
+
+      <AppointmentList
+        appointments={upcoming}
+        onUpdated={handleUpdated}
+        showAssignee
+        emptyMessage="No upcoming appointments"
+      />
+
+      {past.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+            Past appointments ({past.length})
+          </summary>
+          <AppointmentList appointments={past} onUpdated={handleUpdated} showAssignee />
+        </details>
+      )}
+    </div>
+  )
+}
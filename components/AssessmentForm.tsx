@@ -0,0 +1,167 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
+import {
+  ACUITY_LABELS,
+  CURRENT_ASSESSMENT,
+  createAssessmentFormSchema,
+  type AssessmentFormData,
+} from '@/lib/schemas/assessment-schema'
+import { saveAssessment, scoreAssessment } from '@/lib/utils/assessments'
+
+interface AssessmentFormProps {
+  personId: string
+  personName: string
+}
+
+export default function AssessmentForm({ personId, personName }: AssessmentFormProps) {
+  const router = useRouter()
+  const definition = CURRENT_ASSESSMENT
+  const schema = useMemo(() => createAssessmentFormSchema(definition), [definition])
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<AssessmentFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      assessed_on: format(new Date(), 'yyyy-MM-dd'),
+      notes: '',
+      answers: {},
+    },
+  })
+
+  const answers = watch('answers')
+  const score = scoreAssessment(definition, answers || {})
+  const band = definition.acuityBands.find((b) => b.acuity === score.acuity)
+  const totalQuestions = definition.domains.reduce((sum, domain) => sum + domain.questions.length, 0)
+  const maxScore = definition.domains.reduce(
+    (sum, domain) => sum + domain.questions.reduce(
+      (domainSum, question) => domainSum + Math.max(...question.options.map((o) => o.points)),
+      0
+    ),
+    0
+  )
+  const answeredCount = Object.values(answers || {}).filter(Boolean).length
+
+  const onSubmit = async (data: AssessmentFormData) => {
+    try {
+      await saveAssessment(personId, data)
+      router.push(`/client/${personId}`)
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving assessment:', error)
+      alert('Error saving assessment. Please try again.')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-xl font-semibold mb-1">{definition.name}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Version {definition.version} · Ask {personName} each question as written. &quot;Refused&quot; scores no points.
+        </p>
+        <div className="max-w-xs">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Assessment Date <span className="text-red-500">*</span>
+          </label>
+          <input
+            {...register('assessed_on')}
+            type="date"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {errors.assessed_on && (
+            <p className="text-red-500 text-sm mt-1">{errors.assessed_on.message}</p>
+          )}
+        </div>
+      </div>
+
+      {definition.domains.map((domain) => (
+        <div key={domain.key} className="bg-white p-6 rounded-lg shadow">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">{domain.label}</h2>
+            <span className="text-sm font-semibold text-blue-700">{score.domainScores[domain.key]} pts</span>
+          </div>
+          <div className="space-y-5">
+            {domain.questions.map((question) => (
+              <fieldset key={question.id}>
+                <legend className="text-sm font-medium text-gray-900 mb-2">{question.text}</legend>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                  {question.options.map((option) => (
+                    <label key={option.value} className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        {...register(`answers.${question.id}`)}
+                        type="radio"
+                        value={option.value}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      <span className="text-sm text-gray-700">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+                {errors.answers?.[question.id] && (
+                  <p className="text-red-500 text-sm mt-1">{errors.answers[question.id]?.message}</p>
+                )}
+              </fieldset>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-xl font-semibold mb-4">Notes</h2>
+        <textarea
+          {...register('notes')}
+          rows={3}
+          placeholder="Context for the score, e.g. client was unsure of dates"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {errors.notes && (
+          <p className="text-red-500 text-sm mt-1">{errors.notes.message}</p>
+        )}
+      </div>
+
+      {/* Running score */}
+      <div className="bg-blue-50 border-2 border-blue-200 p-6 rounded-lg">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-sm text-gray-600 font-medium">Score</p>
+            <p className="text-4xl font-bold text-blue-700">
+              {score.total}
+              <span className="text-lg text-gray-500 font-medium"> / {maxScore}</span>
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm font-semibold text-gray-900">{ACUITY_LABELS[score.acuity]} acuity</p>
+            {band && <p className="text-sm text-gray-600">{band.recommendation}</p>}
+            <p className="text-xs text-gray-500 mt-1">{answeredCount} of {totalQuestions} questions answered</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Saving...' : 'Save Assessment'}
+        </button>
+      </div>
+    </form>
+  )
+}
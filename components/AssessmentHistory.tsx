@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { ACUITY_LABELS, type Acuity } from '@/lib/schemas/assessment-schema'
+import { getAssessmentDefinition, type Assessment } from '@/lib/utils/assessments'
+
+const ACUITY_STYLES: Record<Acuity, string> = {
+  low: 'bg-green-100 text-green-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+}
+
+interface AssessmentHistoryProps {
+  assessments: Assessment[]
+}
+
+export default function AssessmentHistory({ assessments }: AssessmentHistoryProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  if (assessments.length === 0) {
+    return <p className="text-gray-500 py-4">No assessments recorded</p>
+  }
+
+  return (
+    <ul className="space-y-3">
+      {assessments.map((assessment, index) => {
+        const definition = getAssessmentDefinition(assessment.definition_key, assessment.definition_version)
+        const expanded = expandedId === assessment.id
+        return (
+          <li key={assessment.id} className="rounded-lg border border-gray-200 p-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-2xl font-bold text-gray-900">{assessment.total_score}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ACUITY_STYLES[assessment.acuity]}`}>
+                    {ACUITY_LABELS[assessment.acuity]} acuity
+                  </span>
+                  {index === 0 && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {format(parseISO(assessment.assessed_on), 'MM/dd/yyyy')}
+                  {assessment.assessed_by && ` by ${assessment.assessed_by}`}
+                  {` · ${definition?.name || assessment.definition_key} v${assessment.definition_version}`}
+                </p>
+                {assessment.notes && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{assessment.notes}</p>
+                )}
+              </div>
+              {definition && (
+                <button
+                  onClick={() => setExpandedId(expanded ? null : assessment.id)}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors"
+                >
+                  {expanded ? 'Hide Answers' : 'Show Answers'}
+                </button>
+              )}
+            </div>
+
+            {expanded && definition && (
+              <div className="mt-4 space-y-4">
+                {definition.domains.map((domain) => (
+                  <div key={domain.key}>
+                    <h5 className="text-sm font-semibold text-gray-800 mb-1">
+                      {domain.label} ({assessment.domain_scores[domain.key] ?? 0} pts)
+                    </h5>
+                    <dl className="text-sm space-y-1">
+                      {domain.questions.map((question) => (
+                        <div key={question.id} className="flex flex-wrap justify-between gap-2">
+                          <dt className="text-gray-600">{question.text}</dt>
+                          <dd className="font-medium">
+                            {question.options.find((o) => o.value === assessment.answers[question.id])?.label || 'Not answered'}
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                ))}
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
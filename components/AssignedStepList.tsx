@@ -0,0 +1,70 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { CASE_GOAL_TYPE_LABELS } from '@/lib/schemas/case-plan-schema'
+import { isStepOverdue, setCaseStepCompleted, type CaseStep } from '@/lib/utils/case-plans'
+
+interface AssignedStepListProps {
+  initialSteps: CaseStep[]
+}
+
+export default function AssignedStepList({ initialSteps }: AssignedStepListProps) {
+  const router = useRouter()
+  const [steps, setSteps] = useState(initialSteps)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const handleComplete = async (step: CaseStep) => {
+    setSavingId(step.id)
+    try {
+      await setCaseStepCompleted(step.id, true)
+      setSteps(steps.filter((s) => s.id !== step.id))
+      // Refresh the overdue count rendered by the page
+      router.refresh()
+    } catch (error) {
+      console.error('Error completing action step:', error)
+      alert('Error updating action step. Please try again.')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (steps.length === 0) {
+    return <p className="text-gray-500 py-4">You have no open action steps.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {steps.map((step) => {
+        const overdue = isStepOverdue(step)
+        return (
+          <li key={step.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <p className="text-gray-900">{step.description}</p>
+              <p className="text-sm text-gray-600 mt-1">
+                {step.person && (
+                  <Link href={`/client/${step.person.id}`} className="font-medium text-blue-700 hover:text-blue-800">
+                    {step.person.first_name} {step.person.last_name} ({step.person.client_id})
+                  </Link>
+                )}
+                {step.goal && ` · ${CASE_GOAL_TYPE_LABELS[step.goal.goal_type]}: ${step.goal.description}`}
+              </p>
+              <p className={`text-sm mt-1 ${overdue ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                {overdue ? 'Overdue since' : 'Due'} {format(parseISO(step.due_date), 'MM/dd/yyyy')}
+              </p>
+            </div>
+            <button
+              onClick={() => handleComplete(step)}
+              disabled={savingId === step.id}
+              className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {savingId === step.id ? 'Saving...' : 'Mark Done'}
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,335 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_PAGE_SIZE,
+  searchAuditLog,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from '@/lib/utils/audit'
+import { DOCUMENT_TYPE_LABELS, type DocumentType } from '@/lib/schemas/document-schema'
+
+interface StaffUser {
+  id: string
+  email: string
+  full_name?: string | null
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  view: 'bg-gray-100 text-gray-800',
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  merge: 'bg-orange-100 text-orange-800',
+  unmerge: 'bg-yellow-100 text-yellow-800',
+  export: 'bg-purple-100 text-purple-800',
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export default function AuditLogViewer() {
+  const [users, setUsers] = useState<StaffUser[]>([])
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [page, setPage] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  // Form state
+  const [userId, setUserId] = useState('')
+  const [client, setClient] = useState('')
+  const [action, setAction] = useState<AuditAction | ''>('')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, email, full_name')
+        .order('email')
+
+      if (error) {
+        console.error('Error loading users:', error)
+        return
+      }
+      setUsers((data || []) as StaffUser[])
+    }
+
+    loadUsers()
+    loadEntries({}, 0)
+  }, [])
+
+  const loadEntries = async (nextFilters: AuditLogFilters, nextPage: number) => {
+    setIsLoading(true)
+
+    try {
+      const results = await searchAuditLog(nextFilters, nextPage)
+      setEntries(nextPage === 0 ? results : (current) => [...current, ...results])
+      setFilters(nextFilters)
+      setPage(nextPage)
+      setHasMore(results.length === AUDIT_PAGE_SIZE)
+    } catch (error) {
+      console.error('Error searching audit log:', error)
+      alert('Error searching audit log. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setExpandedId(null)
+    loadEntries({ userId, client, action, startDate, endDate }, 0)
+  }
+
+  const handleClear = () => {
+    setUserId('')
+    setClient('')
+    setAction('')
+    setStartDate('')
+    setEndDate('')
+    setExpandedId(null)
+    loadEntries({}, 0)
+  }
+
+  const describeEntry = (entry: AuditLogEntry): string => {
+    const details = entry.details || {}
+
+    switch (entry.action) {
+      case 'export':
+        return `${String(details.format || 'data').toUpperCase()} export` +
+          (details.start_date || details.end_date
+            ? ` (${details.start_date || 'start'} to ${details.end_date || 'today'})`
+            : ' (all time)')
+      case 'merge':
+        return `Merged ${details.merged_client_id || 'a duplicate'} into this record`
+      case 'unmerge':
+        return `Undid merge of ${details.merged_client_id || 'a duplicate'} into this record`
+      case 'view':
+        if (entry.entity_type === 'client_documents') {
+          return `Document: ${DOCUMENT_TYPE_LABELS[details.document_type as DocumentType] || 'file'}`
+        }
+        return entry.entity_type === 'report'
+          ? `Report list: ${details.type || 'details'}`
+          : 'Client profile'
+      default: {
+        const fields = Object.keys(entry.changes || {})
+        const record = entry.entity_type === 'encounters'
+          ? 'Service interaction'
+          : entry.entity_type === 'client_documents' ? 'Document' : 'Client record'
+        return entry.action === 'update'
+          ? `${record}: ${fields.join(', ')}`
+          : record
+      }
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Audit Log</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Every view, edit, merge, deletion and export of client records. Entries cannot be changed or removed.
+      </p>
+
+      <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All users</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.full_name || user.email}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Client</label>
+          <input
+            type="text"
+            value={client}
+            onChange={(e) => setClient(e.target.value)}
+            placeholder="Name or client ID"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((value) => (
+              <option key={value} value={value}>
+                {AUDIT_ACTION_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Search
+          </button>
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={isLoading}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                When
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                User
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Action
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Client
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Details
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.map((entry) => {
+              const changes = Object.entries(entry.changes || {})
+              const isExpanded = expandedId === entry.id
+
+              return (
+                <tr
+                  key={entry.id}
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="align-top cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {format(new Date(entry.created_at), 'MMM dd, yyyy h:mm a')}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {entry.user_email || 'System'}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${ACTION_STYLES[entry.action]}`}>
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    {entry.person_id && entry.action !== 'delete' ? (
+                      <Link
+                        href={`/client/${entry.person_id}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-blue-700 hover:text-blue-800 font-medium"
+                      >
+                        {entry.client_id || 'View client'}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-700">{entry.client_id || '-'}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    <p>{describeEntry(entry)}</p>
+                    {isExpanded && changes.length > 0 && (
+                      <table className="mt-2 w-full text-xs border border-gray-200 rounded">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-2 py-1 text-left font-medium text-gray-500">Field</th>
+                            <th className="px-2 py-1 text-left font-medium text-gray-500">Before</th>
+                            <th className="px-2 py-1 text-left font-medium text-gray-500">After</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {changes.map(([field, change]) => (
+                            <tr key={field}>
+                              <td className="px-2 py-1 font-medium text-gray-700">{field}</td>
+                              <td className="px-2 py-1 text-red-700 break-all">{formatValue(change.before)}</td>
+                              <td className="px-2 py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {isExpanded && entry.details && (
+                      <pre className="mt-2 text-xs bg-gray-50 rounded p-2 whitespace-pre-wrap break-all">
+                        {JSON.stringify(entry.details, null, 2)}
+                      </pre>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {!isLoading && entries.length === 0 && (
+        <p className="text-center text-gray-500 py-8">No audit entries match these filters.</p>
+      )}
+
+      {isLoading && (
+        <p className="text-center text-gray-600 py-4">Loading audit log...</p>
+      )}
+
+      {hasMore && !isLoading && (
+        <div className="text-center mt-4">
+          <button
+            onClick={() => loadEntries(filters, page + 1)}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors text-sm"
+          >
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
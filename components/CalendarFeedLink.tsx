@@ -0,0 +1,97 @@
+'use client'
+
+import { useState } from 'react'
+import { fetchCalendarFeedToken, resetCalendarFeedToken } from '@/lib/utils/appointments'
+
+export default function CalendarFeedLink() {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const toUrl = (token: string) => `${window.location.origin}/api/calendar/${token}.ics`
+
+  const handleShow = async () => {
+    setBusy(true)
+    try {
+      setFeedUrl(toUrl(await fetchCalendarFeedToken()))
+    } catch (error) {
+      console.error('Error loading calendar feed:', error)
+      alert('Error loading calendar feed. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!confirm('Replace your calendar feed link? Calendars subscribed to the old link stop updating.')) return
+
+    setBusy(true)
+    try {
+      setFeedUrl(toUrl(await resetCalendarFeedToken()))
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error)
+      alert('Error resetting calendar feed. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      alert('Calendar feed link copied')
+    } catch {
+      prompt('Copy your calendar feed link:', feedUrl)
+    }
+  }
+
+  if (!feedUrl) {
+    return (
+      <button
+        onClick={handleShow}
+        disabled={busy}
+        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium disabled:opacity-50"
+      >
+        {busy ? 'Loading...' : 'Subscribe in Calendar App'}
+      </button>
+    )
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2">
+      <p className="text-sm text-gray-700">
+        Add this link to Google Calendar, Apple Calendar or Outlook as a subscribed calendar. It shows when your client
+        appointments are, linking to each client in the app, but no client details. Keep it private: anyone with the
+        link can see your schedule.
+      </p>
+      <input
+        type="text"
+        readOnly
+        value={feedUrl}
+        onFocus={(e) => e.target.select()}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={handleCopy}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+        >
+          Copy Link
+        </button>
+        <a
+          href={feedUrl.replace(/^https?:/, 'webcal:')}
+          className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors"
+        >
+          Open in Calendar
+        </a>
+        <button
+          onClick={handleReset}
+          disabled={busy}
+          className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          Reset Link
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+'use client'
+
+import { useState } from 'react'
+import { addDays, format, parseISO } from 'date-fns'
+import {
+  CASE_GOAL_STATUS_LABELS,
+  CASE_GOAL_TYPE_LABELS,
+  caseGoalUpdateSchema,
+  caseStepSchema,
+} from '@/lib/schemas/case-plan-schema'
+import {
+  addCaseGoalUpdate,
+  addCaseStep,
+  closeCaseGoal,
+  isStepOverdue,
+  setCaseStepCompleted,
+  type CaseGoal,
+  type Worker,
+} from '@/lib/utils/case-plans'
+
+interface CaseGoalItemProps {
+  goal: CaseGoal
+  workers: Worker[]
+  // The client's interactions, newest first, for linking progress updates
+  encounters: { id: string, service_date: string, outreach_location: string }[]
+  onChanged: () => Promise<void>
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function CaseGoalItem({ goal, workers, encounters, onChanged }: CaseGoalItemProps) {
+  const [busy, setBusy] = useState(false)
+  const [form, setForm] = useState<'step' | 'update' | null>(null)
+  const [stepDescription, setStepDescription] = useState('')
+  const [assignedTo, setAssignedTo] = useState('')
+  const [dueDate, setDueDate] = useState(format(addDays(new Date(), 7), 'yyyy-MM-dd'))
+  const [note, setNote] = useState('')
+  const [encounterId, setEncounterId] = useState('')
+
+  const active = goal.status === 'active'
+  const steps = goal.steps || []
+  const updates = goal.updates || []
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true)
+    try {
+      await action()
+      await onChanged()
+    } catch (error) {
+      console.error(`Error ${failure}:`, error)
+      alert(`Error ${failure}. Please try again.`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAddStep = async () => {
+    const result = caseStepSchema.safeParse({
+      description: stepDescription,
+      assigned_to: assignedTo,
+      due_date: dueDate,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid action step')
+      return
+    }
+
+    await run(async () => {
+      await addCaseStep(goal, result.data)
+      setForm(null)
+      setStepDescription('')
+    }, 'saving action step')
+  }
+
+  const handleAddUpdate = async () => {
+    const result = caseGoalUpdateSchema.safeParse({
+      note,
+      encounter_id: encounterId || null,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid progress update')
+      return
+    }
+
+    await run(async () => {
+      await addCaseGoalUpdate(goal, result.data)
+      setForm(null)
+      setNote('')
+      setEncounterId('')
+    }, 'saving progress update')
+  }
+
+  const handleClose = async (status: 'achieved' | 'abandoned') => {
+    const reason = prompt(status === 'achieved'
+      ? 'Goal achieved! Notes (optional), e.g. what the client accomplished:'
+      : 'Why is this goal being dropped? (e.g. client chose a different goal)')
+    if (reason === null) return
+
+    await run(() => closeCaseGoal(goal.id, status, reason.trim()), 'closing goal')
+  }
+
+  const workerName = (email: string) => workers.find((w) => w.email === email)?.full_name || email
+
+  return (
+    <div className={`rounded-lg border p-4 ${active ? 'border-gray-200' : 'border-gray-100 bg-gray-50'}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-sky-100 text-sky-800">
+              {CASE_GOAL_TYPE_LABELS[goal.goal_type]}
+            </span>
+            {!active && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${goal.status === 'achieved' ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'}`}>
+                {CASE_GOAL_STATUS_LABELS[goal.status]}
+                {goal.closed_on && ` ${format(parseISO(goal.closed_on), 'MM/dd/yyyy')}`}
+              </span>
+            )}
+            <span className="text-sm text-gray-600">
+              Set {format(new Date(goal.created_at), 'MM/dd/yyyy')}
+              {goal.created_by && ` by ${goal.created_by}`}
+              {goal.target_date && ` · target ${format(parseISO(goal.target_date), 'MM/dd/yyyy')}`}
+            </span>
+          </div>
+          <p className="text-gray-900 mt-1 whitespace-pre-wrap">{goal.description}</p>
+          {goal.closed_reason && <p className="text-sm text-gray-600">{goal.closed_reason}</p>}
+        </div>
+        {active && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleClose('achieved')}
+              disabled={busy}
+              className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Achieved
+            </button>
+            <button
+              onClick={() => handleClose('abandoned')}
+              disabled={busy}
+              className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              Drop
+            </button>
+          </div>
+        )}
+      </div>
+
+      {steps.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {steps.map((step) => (
+            <li key={step.id} className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!step.completed_on}
+                disabled={busy || !active}
+                onChange={(e) => run(() => setCaseStepCompleted(step.id, e.target.checked), 'updating action step')}
+                className="h-4 w-4 mt-0.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className={step.completed_on ? 'text-gray-500 line-through' : 'text-gray-900'}>
+                {step.description}
+              </span>
+              <span className={`whitespace-nowrap ${isStepOverdue(step) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                · {workerName(step.assigned_to)}
+                {step.completed_on
+                  ? `, done ${format(parseISO(step.completed_on), 'MM/dd/yyyy')}`
+                  : `, due ${format(parseISO(step.due_date), 'MM/dd/yyyy')}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {updates.length > 0 && (
+        <ul className="mt-3 space-y-2 border-l-2 border-sky-200 pl-3">
+          {updates.map((update) => (
+            <li key={update.id} className="text-sm">
+              <p className="text-gray-500">
+                {format(new Date(update.created_at), 'MM/dd/yyyy')}
+                {update.created_by && ` · ${update.created_by}`}
+                {update.encounter && ` · at the interaction on ${format(new Date(update.encounter.service_date), 'MM/dd/yyyy')} (${update.encounter.outreach_location})`}
+              </p>
+              <p className="text-gray-900 whitespace-pre-wrap">{update.note}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {active && form === null && (
+        <div className="flex gap-3 mt-3">
+          <button
+            onClick={() => setForm('step')}
+            className="text-sm text-blue-700 hover:text-blue-800 font-medium"
+          >
+            + Action Step
+          </button>
+          <button
+            onClick={() => setForm('update')}
+            className="text-sm text-blue-700 hover:text-blue-800 font-medium"
+          >
+            + Progress Update
+          </button>
+        </div>
+      )}
+
+      {form === 'step' && (
+        <div className="mt-3 space-y-2">
+          <input
+            type="text"
+            value={stepDescription}
+            onChange={(e) => setStepDescription(e.target.value)}
+            placeholder="Action step, e.g. Request birth certificate from county"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <select value={assignedTo} onChange={(e) => setAssignedTo(e.target.value)} className={inputClass}>
+              <option value="">Assign to...</option>
+              {workers.map((worker) => (
+                <option key={worker.email} value={worker.email}>
+                  {worker.full_name || worker.email}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleAddStep}
+              disabled={busy}
+              className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {busy ? 'Saving...' : 'Add Step'}
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {form === 'update' && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="What progress was made?"
+            className={inputClass}
+          />
+          <select value={encounterId} onChange={(e) => setEncounterId(e.target.value)} className={inputClass}>
+            <option value="">Not from a service interaction</option>
+            {encounters.map((encounter) => (
+              <option key={encounter.id} value={encounter.id}>
+                {format(new Date(encounter.service_date), 'MM/dd/yyyy')} · {encounter.outreach_location}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <button
+              onClick={handleAddUpdate}
+              disabled={busy}
+              className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {busy ? 'Saving...' : 'Add Update'}
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  CASE_GOAL_TYPES,
+  CASE_GOAL_TYPE_LABELS,
+  caseGoalSchema,
+  type CaseGoalType,
+} from '@/lib/schemas/case-plan-schema'
+import { addCaseGoal, fetchPersonCaseGoals, type CaseGoal, type Worker } from '@/lib/utils/case-plans'
+import CaseGoalItem from './CaseGoalItem'
+
+interface CasePlanCardProps {
+  personId: string
+  initialGoals: CaseGoal[]
+  workers: Worker[]
+  // The client's interactions, newest first, for linking progress updates
+  encounters: { id: string, service_date: string, outreach_location: string }[]
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function CasePlanCard({ personId, initialGoals, workers, encounters }: CasePlanCardProps) {
+  const [goals, setGoals] = useState(initialGoals)
+  const [showForm, setShowForm] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [goalType, setGoalType] = useState<CaseGoalType | ''>('')
+  const [description, setDescription] = useState('')
+  const [targetDate, setTargetDate] = useState('')
+
+  const active = goals.filter((goal) => goal.status === 'active')
+  const closed = goals.filter((goal) => goal.status !== 'active')
+
+  const reload = async () => {
+    setGoals(await fetchPersonCaseGoals(createClient(), personId))
+  }
+
+  const handleSave = async () => {
+    const result = caseGoalSchema.safeParse({
+      goal_type: goalType,
+      description,
+      target_date: targetDate,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid goal')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await addCaseGoal(personId, result.data)
+      setShowForm(false)
+      setGoalType('')
+      setDescription('')
+      setTargetDate('')
+      await reload()
+    } catch (error) {
+      console.error('Error saving case goal:', error)
+      alert('Error saving goal. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-semibold">Case Plan</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          disabled={busy}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {showForm ? 'Cancel' : '+ New Goal'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="border-t border-gray-200 pt-4 mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-w-xl">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Goal <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={goalType}
+                onChange={(e) => setGoalType(e.target.value as CaseGoalType | '')}
+                className={inputClass}
+              >
+                <option value="">Select...</option>
+                {CASE_GOAL_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {CASE_GOAL_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Target Date</label>
+              <input
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="What is the client working toward? e.g. Get a California ID"
+              className={inputClass}
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={busy}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Saving...' : 'Save Goal'}
+          </button>
+        </div>
+      )}
+
+      {active.length === 0 ? (
+        <p className="text-gray-500">No active goals. Add one when the client decides what they want to work toward.</p>
+      ) : (
+        <div className="space-y-3">
+          {active.map((goal) => (
+            <CaseGoalItem key={goal.id} goal={goal} workers={workers} encounters={encounters} onChanged={reload} />
+          ))}
+        </div>
+      )}
+
+      {closed.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+            Achieved and dropped goals ({closed.length})
+          </summary>
+          <div className="space-y-3 mt-2">
+            {closed.map((goal) => (
+              <CaseGoalItem key={goal.id} goal={goal} workers={workers} encounters={encounters} onChanged={reload} />
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { format, parseISO } from 'date-fns'
+import { CAUTION_FLAG_TYPE_LABELS } from '@/lib/schemas/caution-flag-schema'
+import { isFlagActive, type CautionFlag } from '@/lib/utils/caution-flags'
+
+interface CautionFlagBannerProps {
+  flags: CautionFlag[]
+}
+
+export default function CautionFlagBanner({ flags }: CautionFlagBannerProps) {
+  const active = flags.filter((flag) => isFlagActive(flag))
+  if (active.length === 0) return null
+
+  return (
+    <div className="bg-red-50 border-2 border-red-400 rounded-lg p-4 mb-6 text-red-900" role="alert">
+      <p className="font-bold flex items-center">
+        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+          />
+        </svg>
+        Caution before approaching
+      </p>
+      <ul className="mt-2 space-y-1 text-sm">
+        {active.map((flag) => (
+          <li key={flag.id}>
+            <span className="font-semibold">{CAUTION_FLAG_TYPE_LABELS[flag.flag_type]}:</span>{' '}
+            {flag.restricted
+              ? <span className="italic">Restricted. Ask a supervisor before approaching.</span>
+              : flag.description}
+            {flag.expires_on && (
+              <span className="text-red-700"> (until {format(parseISO(flag.expires_on), 'MM/dd/yyyy')})</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
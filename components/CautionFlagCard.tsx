@@ -0,0 +1,243 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  CAUTION_FLAG_TYPES,
+  CAUTION_FLAG_TYPE_LABELS,
+  SENSITIVE_BY_DEFAULT,
+  cautionFlagSchema,
+  type CautionFlagType,
+} from '@/lib/schemas/caution-flag-schema'
+import {
+  addCautionFlag,
+  clearCautionFlag,
+  fetchPersonCautionFlags,
+  isFlagActive,
+  type CautionFlag,
+} from '@/lib/utils/caution-flags'
+
+interface CautionFlagCardProps {
+  personId: string
+  initialFlags: CautionFlag[]
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function CautionFlagCard({ personId, initialFlags }: CautionFlagCardProps) {
+  const [flags, setFlags] = useState(initialFlags)
+  const [showForm, setShowForm] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [flagType, setFlagType] = useState<CautionFlagType | ''>('')
+  const [description, setDescription] = useState('')
+  const [sensitive, setSensitive] = useState(false)
+  const [expiresOn, setExpiresOn] = useState('')
+
+  const active = flags.filter((flag) => isFlagActive(flag))
+  const past = flags.filter((flag) => !isFlagActive(flag))
+
+  const reload = async () => {
+    setFlags(await fetchPersonCautionFlags(createClient(), personId))
+  }
+
+  const handleTypeChange = (type: CautionFlagType | '') => {
+    setFlagType(type)
+    setSensitive(type !== '' && SENSITIVE_BY_DEFAULT.includes(type))
+  }
+
+  const handleSave = async () => {
+    const result = cautionFlagSchema.safeParse({
+      flag_type: flagType,
+      description,
+      sensitive,
+      expires_on: expiresOn,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid caution flag')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await addCautionFlag(personId, result.data)
+      setShowForm(false)
+      setFlagType('')
+      setDescription('')
+      setSensitive(false)
+      setExpiresOn('')
+      await reload()
+    } catch (error) {
+      console.error('Error saving caution flag:', error)
+      alert('Error saving caution flag. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleClear = async (flag: CautionFlag) => {
+    const reason = prompt(`Clear this ${CAUTION_FLAG_TYPE_LABELS[flag.flag_type].toLowerCase()} flag? It stays in the flag history.\n\nReason:`)
+    if (reason === null) return
+    if (!reason.trim()) {
+      alert('Enter a reason for clearing the flag')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await clearCautionFlag(flag.id, reason.trim())
+      await reload()
+    } catch (error) {
+      console.error('Error clearing caution flag:', error)
+      alert('Error clearing caution flag. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const renderFlag = (flag: CautionFlag) => (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${isFlagActive(flag) ? 'bg-red-100 text-red-800' : 'bg-gray-200 text-gray-700'}`}>
+          {CAUTION_FLAG_TYPE_LABELS[flag.flag_type]}
+        </span>
+        {flag.sensitive && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+            Sensitive
+          </span>
+        )}
+        <span className="text-sm text-gray-600">
+          Set {format(new Date(flag.created_at), 'MM/dd/yyyy')}
+          {flag.set_by && ` by ${flag.set_by}`}
+          {flag.expires_on && ` · ${isFlagActive(flag) ? 'until' : 'expired'} ${format(parseISO(flag.expires_on), 'MM/dd/yyyy')}`}
+        </span>
+      </div>
+      <p className="text-sm text-gray-900 mt-1 whitespace-pre-wrap">
+        {flag.restricted
+          ? <span className="italic text-gray-600">Restricted. Ask a supervisor for details.</span>
+          : flag.description}
+      </p>
+      {flag.cleared_at && (
+        <p className="text-sm text-gray-600">
+          Cleared {format(new Date(flag.cleared_at), 'MM/dd/yyyy')}
+          {flag.cleared_by && ` by ${flag.cleared_by}`}
+          {flag.clear_reason && `: ${flag.clear_reason}`}
+        </p>
+      )}
+    </div>
+  )
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-8 mb-6 ${active.length > 0 ? 'border-2 border-red-300' : ''}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-semibold">Caution Flags</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          disabled={busy}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {showForm ? 'Cancel' : '+ Add Flag'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="border-t border-gray-200 pt-4 mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-w-xl">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Type <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={flagType}
+                onChange={(e) => handleTypeChange(e.target.value as CautionFlagType | '')}
+                className={inputClass}
+              >
+                <option value="">Select...</option>
+                {CAUTION_FLAG_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {CAUTION_FLAG_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+              <input
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              placeholder="What should workers know before approaching?"
+              className={inputClass}
+            />
+          </div>
+          <label className="flex items-start space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={sensitive}
+              onChange={(e) => setSensitive(e.target.checked)}
+              className="h-4 w-4 mt-0.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">
+              Sensitive: only supervisors and you can read the description. Other workers see a restricted flag.
+            </span>
+          </label>
+          <button
+            onClick={handleSave}
+            disabled={busy}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Saving...' : 'Save Flag'}
+          </button>
+        </div>
+      )}
+
+      {active.length === 0 ? (
+        <p className="text-gray-500">No active caution flags</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {active.map((flag) => (
+            <li key={flag.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+              {renderFlag(flag)}
+              {!flag.restricted && (
+                <button
+                  onClick={() => handleClear(flag)}
+                  disabled={busy}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {past.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+            Flag history ({past.length})
+          </summary>
+          <ul className="divide-y divide-gray-200 mt-2">
+            {past.map((flag) => (
+              <li key={flag.id} className="py-3">
+                {renderFlag(flag)}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -1,20 +1,11 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import {
-  intakeFormSchema,
-  type IntakeFormData,
-  LIVING_SITUATIONS,
-  GENDER_OPTIONS,
-  RACE_OPTIONS,
-  DISABILITY_TYPES,
-  REFERRAL_SOURCES,
-  TIME_HOMELESS_OPTIONS,
-  SEXUAL_ORIENTATION_OPTIONS,
-  ADDICTION_OPTIONS,
-} from '@/lib/schemas/intake-schema'
+import { createIntakeFormSchema, type IntakeFormData } from '@/lib/schemas/intake-schema'
+import { useLookupOptions } from '@/lib/hooks/useLookupOptions'
+import { lookupChoices } from '@/lib/utils/lookup-options'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
 
@@ -44,8 +35,6 @@ interface PersonData {
   living_situation: string
   length_of_time_homeless?: string | null
   evictions?: number | null
-  income?: string | null
-  income_amount?: number | null
   support_system?: string | null
   enrollment_date: string
   case_manager?: string | null
@@ -65,6 +54,23 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false)
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null)
   const [isCameraActive, setIsCameraActive] = useState(false)
+  const lookups = useLookupOptions()
+
+  // Saved answers stay selectable even if their option has been retired
+  const savedAnswers = useMemo(() => ({
+    gender: person.gender,
+    race: person.race,
+    sexual_orientation: person.sexual_orientation || null,
+    disability_types: person.disability_type ? person.disability_type.split(',') : [],
+    addictions: person.addiction ? person.addiction.split(',') : [],
+    living_situation: person.living_situation,
+    length_of_time_homeless: person.length_of_time_homeless || null,
+    referral_source: person.referral_source || null,
+  }), [person])
+  const intakeSchema = useMemo(
+    () => createIntakeFormSchema(lookups, savedAnswers),
+    [lookups, savedAnswers]
+  )
 
   const {
     register,
@@ -73,7 +79,7 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
     setValue,
     formState: { errors },
   } = useForm({
-    resolver: zodResolver(intakeFormSchema),
+    resolver: zodResolver(intakeSchema),
     defaultValues: {
       photo_url: person.photo_url || null,
       first_name: person.first_name,
@@ -98,8 +104,6 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
       living_situation: person.living_situation,
       length_of_time_homeless: person.length_of_time_homeless || '',
       evictions: person.evictions || 0,
-      income: person.income || '',
-      income_amount: person.income_amount || undefined,
       support_system: person.support_system || '',
       enrollment_date: person.enrollment_date,
       case_manager: person.case_manager || '',
@@ -245,8 +249,6 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
           living_situation: data.living_situation,
           length_of_time_homeless: data.length_of_time_homeless || null,
           evictions: data.evictions || 0,
-          income: data.income || null,
-          income_amount: data.income_amount || null,
           support_system: data.support_system || null,
           enrollment_date: data.enrollment_date,
           case_manager: data.case_manager || null,
@@ -437,9 +439,9 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select gender...</option>
-              {GENDER_OPTIONS.map((option) => (
-                <option key={option} value={option}>
-                  {option}
+              {lookupChoices(lookups.gender, savedAnswers.gender).map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.value}{choice.retired ? ' (retired)' : ''}
                 </option>
               ))}
             </select>
@@ -457,9 +459,9 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select race...</option>
-              {RACE_OPTIONS.map((option) => (
-                <option key={option} value={option}>
-                  {option}
+              {lookupChoices(lookups.race, savedAnswers.race).map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.value}{choice.retired ? ' (retired)' : ''}
                 </option>
               ))}
             </select>
@@ -477,9 +479,9 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select sexual orientation...</option>
-              {SEXUAL_ORIENTATION_OPTIONS.map((option) => (
-                <option key={option} value={option}>
-                  {option}
+              {lookupChoices(lookups.sexual_orientation, savedAnswers.sexual_orientation).map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.value}{choice.retired ? ' (retired)' : ''}
                 </option>
               ))}
             </select>
@@ -542,16 +544,16 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Type of Disability (select all that apply)
                 </label>
-                {DISABILITY_TYPES.map((option) => (
-                  <div key={option} className="flex items-center">
+                {lookupChoices(lookups.disability_type, savedAnswers.disability_types).map((choice) => (
+                  <div key={choice.value} className="flex items-center">
                     <input
                       {...register('disability_types')}
                       type="checkbox"
-                      value={option}
+                      value={choice.value}
                       className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                     />
                     <label className="ml-2 block text-sm text-gray-700">
-                      {option}
+                      {choice.value}{choice.retired ? ' (retired)' : ''}
                     </label>
                   </div>
                 ))}
@@ -608,16 +610,16 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
               Addiction / Substance Use (select all that apply)
             </label>
             <div className="space-y-2">
-              {ADDICTION_OPTIONS.map((option) => (
-                <div key={option} className="flex items-center">
+              {lookupChoices(lookups.addiction, savedAnswers.addictions).map((choice) => (
+                <div key={choice.value} className="flex items-center">
                   <input
                     {...register('addictions')}
                     type="checkbox"
-                    value={option}
+                    value={choice.value}
                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                   />
                   <label className="ml-2 block text-sm text-gray-700">
-                    {option}
+                    {choice.value}{choice.retired ? ' (retired)' : ''}
                   </label>
                 </div>
               ))}
@@ -633,9 +635,9 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select living situation...</option>
-              {LIVING_SITUATIONS.map((option) => (
-                <option key={option} value={option}>
-                  {option}
+              {lookupChoices(lookups.living_situation, savedAnswers.living_situation).map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.value}{choice.retired ? ' (retired)' : ''}
                 </option>
               ))}
             </select>
@@ -653,9 +655,9 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select timeframe...</option>
-              {TIME_HOMELESS_OPTIONS.map((option) => (
-                <option key={option} value={option}>
-                  {option}
+              {lookupChoices(lookups.time_homeless, savedAnswers.length_of_time_homeless).map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.value}{choice.retired ? ' (retired)' : ''}
                 </option>
               ))}
             </select>
@@ -674,33 +676,6 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Income Source
-            </label>
-            <input
-              {...register('income')}
-              type="text"
-              placeholder="e.g., SSI, Employment, None"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Monthly Income Amount
-            </label>
-            <input
-              {...register('income_amount', { valueAsNumber: true })}
-              type="number"
-              min="0"
-              step="0.01"
-              placeholder="0.00"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            <p className="text-xs text-gray-500 mt-1">Enter amount in dollars (e.g., 1200.00)</p>
-          </div>
-
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Support System
@@ -753,9 +728,9 @@ export default function ClientEditForm({ person }: ClientEditFormProps) {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select referral source...</option>
-              {REFERRAL_SOURCES.map((option) => (
-                <option key={option} value={option}>
-                  {option}
+              {lookupChoices(lookups.referral_source, savedAnswers.referral_source).map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.value}{choice.retired ? ' (retired)' : ''}
                 </option>
               ))}
             </select>
@@ -6,6 +6,9 @@ import { fuzzySearchPersons } from '@/lib/utils/duplicate-detection'
 import { format } from 'date-fns'
 import Link from 'next/link'
 import Image from 'next/image'
+import { CAUTION_FLAG_TYPE_LABELS, type CautionFlagType } from '@/lib/schemas/caution-flag-schema'
+import { fetchCautionFlags, isFlagActive } from '@/lib/utils/caution-flags'
+import { resolveSurvivorIds } from '@/lib/utils/person-merge'
 
 interface Person {
   id: string
@@ -24,6 +27,8 @@ interface Person {
     case_management_notes: string | null
   }
   case_notes?: string[] // All case management notes from encounters
+  previous_client_ids?: string[] // Client IDs of duplicates merged into this record
+  caution_flags?: CautionFlagType[] // Types of active caution flags, including restricted ones
 }
 
 // Helper function to calculate age from date of birth
@@ -89,6 +94,7 @@ export default function ClientSearch() {
           phone_number,
           exit_date,
           exit_destination,
+          merged_into,
           encounters (
             service_date,
             outreach_location,
@@ -99,8 +105,7 @@ export default function ClientSearch() {
 
       if (error) throw error
 
-      // Process the data to include only the most recent encounter and all case notes
-      const processedPersons = persons?.map((person: {
+      type PersonRow = {
         id: string
         client_id: string
         first_name: string
@@ -111,8 +116,36 @@ export default function ClientSearch() {
         phone_number: string | null
         exit_date?: string | null
         exit_destination?: string | null
+        merged_into?: string | null
         encounters?: Array<{ service_date: string; outreach_location: string; case_management_notes: string | null }>
-      }) => {
+      }
+      const rows = (persons || []) as PersonRow[]
+
+      // Merged-away duplicates aren't listed, but their old client IDs still find the kept record
+      const mergedSurvivorIds = resolveSurvivorIds(rows)
+      const previousClientIds: Record<string, string[]> = {}
+      rows.filter(row => row.merged_into).forEach(row => {
+        const survivorId = mergedSurvivorIds.get(row.id) as string
+        previousClientIds[survivorId] = [...(previousClientIds[survivorId] || []), row.client_id]
+      })
+
+      // Active caution flags, with flags set on merged-away duplicates shown on the kept record
+      const cautionFlags: Record<string, CautionFlagType[]> = {}
+      try {
+        const survivorIds = Object.fromEntries(rows.map(row => [row.id, mergedSurvivorIds.get(row.id) || row.id]))
+        const flags = await fetchCautionFlags(supabase)
+        flags.filter(flag => isFlagActive(flag)).forEach(flag => {
+          const personId = survivorIds[flag.person_id] || flag.person_id
+          if (!cautionFlags[personId]?.includes(flag.flag_type)) {
+            cautionFlags[personId] = [...(cautionFlags[personId] || []), flag.flag_type]
+          }
+        })
+      } catch (flagsError) {
+        console.error('Error loading caution flags:', flagsError)
+      }
+
+      // Process the data to include only the most recent encounter and all case notes
+      const processedPersons = rows.filter(row => !row.merged_into).map(person => {
         // Sort encounters by date (most recent first)
         const sortedEncounters = person.encounters?.sort((a, b) =>
           new Date(b.service_date).getTime() - new Date(a.service_date).getTime()
@@ -127,9 +160,11 @@ export default function ClientSearch() {
           ...person,
           last_encounter: sortedEncounters.length > 0 ? sortedEncounters[0] : undefined,
           case_notes: caseNotes,
+          previous_client_ids: previousClientIds[person.id] || [],
+          caution_flags: cautionFlags[person.id] || [],
           encounters: undefined, // Remove the full encounters array
         }
-      }) || []
+      })
 
       setAllPersons(processedPersons)
       setFilteredPersons(processedPersons.slice(0, 20))
@@ -322,10 +357,22 @@ export default function ClientSearch() {
                           Exited
                         </span>
                       )}
+                      {person.caution_flags?.map(flagType => (
+                        <span
+                          key={flagType}
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-red-100 text-red-800"
+                          title="Caution flag: see the profile before approaching"
+                        >
+                          ⚠ {CAUTION_FLAG_TYPE_LABELS[flagType]}
+                        </span>
+                      ))}
                     </div>
                     <div className="mt-1 space-y-1 text-sm text-gray-600">
                       <p>
-                        <span className="font-medium">ID:</span> {person.client_id} |{' '}
+                        <span className="font-medium">ID:</span> {person.client_id}
+                        {person.previous_client_ids && person.previous_client_ids.length > 0 && (
+                          <> (formerly {person.previous_client_ids.join(', ')})</>
+                        )} |{' '}
                         <span className="font-medium">Age:</span> {calculateAge(person.date_of_birth)} |{' '}
                         <span className="font-medium">DOB:</span>{' '}
                         {format(new Date(person.date_of_birth), 'MM/dd/yyyy')}
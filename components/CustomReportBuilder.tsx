@@ -2,133 +2,43 @@
 
 import { useState } from 'react'
 import { exportToCSV } from '@/lib/utils/export-csv'
-import { EXIT_DESTINATIONS } from '@/lib/schemas/exit-schema'
-
-interface Person {
-  id: string  // UUID from database
-  client_id: string
-  first_name: string
-  last_name: string
-  nickname?: string | null
-  date_of_birth: string
-  gender: string
-  race: string
-  ethnicity: string
-  sexual_orientation?: string | null
-  living_situation: string
-  length_of_time_homeless?: string | null
-  veteran_status: boolean
-  chronic_homeless: boolean
-  enrollment_date: string
-  case_manager?: string | null
-  referral_source?: string | null
-  disability_status?: boolean
-  disability_type?: string | null
-  exit_date?: string | null
-  exit_destination?: string | null
-  exit_notes?: string | null
-}
-
-interface Encounter {
-  id?: string  // UUID from database
-  service_date: string
-  person_id: string  // UUID foreign key
-  outreach_location: string
-  latitude: number
-  longitude: number
-  outreach_worker: string
-  language_preference?: string | null
-  co_occurring_mh_sud: boolean
-  co_occurring_type?: string | null
-  mat_referral: boolean
-  mat_type?: string | null
-  mat_provider?: string | null
-  detox_referral: boolean
-  detox_provider?: string | null
-  naloxone_distributed: boolean
-  naloxone_date?: string | null
-  fentanyl_test_strips_count?: number | null
-  harm_reduction_education: boolean
-  transportation_provided: boolean
-  shower_trailer: boolean
-  other_services?: string | null
-  placement_made?: boolean
-  placement_location?: string | null
-  placement_location_other?: string | null
-  refused_shelter?: boolean
-  high_utilizer_contact?: boolean
-  case_management_notes?: string | null
-}
-
-interface StatusChange {
-  id: string
-  person_id: string
-  change_type: 'exit' | 'return_to_active'
-  change_date: string
-  exit_destination?: string | null
-  notes?: string | null
-  created_by?: string | null
-  created_at: string
-}
-
-interface CustomReportBuilderProps {
-  persons: Person[]
-  encounters: Encounter[]
-  statusChanges?: StatusChange[]
-}
-
-interface GeneratedReport {
-  reportData: Record<string, unknown>[]
-  metadata: {
-    generated: string
-    dateRange: string
-    startDate: string
-    endDate: string
-  }
-  metrics: {
-    clientsServed: number
-    totalInteractions: number
-    naloxoneDistributed: number
-    fentanylTestStrips: number
-    totalReferrals: number
-    matReferrals: number
-    detoxReferrals: number
-    housingPlacements: number
-    placementsMade: number
-    refusedShelter: number
-    highUtilizerContacts: number
-    programExits: number
-    returnedToActive: number
-  }
-  breakdowns: {
-    matByProvider: Record<string, number>
-    detoxByProvider: Record<string, number>
-    placementsByLocation: Record<string, number>
-    exitsByCategory: Record<string, { total: number, destinations: Record<string, number> }>
-    returnedToActiveDetails: Array<{
-      person_id: string
-      person_name: string
-      client_id: string
-      return_date: string
-      notes: string | null
-    }>
-    highUtilizerDetails: Array<{
-      person_id: string
-      person_name: string
-      client_id: string
-      encounter_count: number
-    }>
-  }
-  filteredPersons: Person[]
-  activePersons: Person[]
-  filteredEncounters: Encounter[]
-}
-
-export default function CustomReportBuilder({
-  persons,
-  encounters,
-  statusChanges = [],
-}: CustomReportBuilderProps) {
+import {
+  REPORT_DETAIL_TYPES,
+  type DemographicBreakdown,
+  type ReportDetailType,
+  type ReportMetric,
+  type ReportOptions,
+  type ReportSelection,
+} from '@/lib/schemas/report-schema'
+import { buildDefinitionOptions, type ReportDefinition } from '@/lib/utils/report-definitions'
+import {
+  calculateAge,
+  type GeneratedReport,
+  type ReportDetails,
+  type ReportEncounter,
+  type ReportPerson,
+} from '@/lib/utils/report-engine'
+import {
+  FENTANYL_STRIPS_SERVICE,
+  NALOXONE_SERVICE,
+  formatEncounterService,
+  groupServicesByCategory,
+  hasService,
+  serviceQuantity,
+} from '@/lib/utils/encounter-services'
+import {
+  REFERRAL_STATUSES,
+  REFERRAL_STATUS_LABELS,
+  REFERRAL_TYPE_LABELS,
+} from '@/lib/schemas/referral-schema'
+import { HOUSING_STAGE_LABELS } from '@/lib/schemas/housing-schema'
+import { CASE_GOAL_TYPE_LABELS } from '@/lib/schemas/case-plan-schema'
+import { createClient } from '@/lib/supabase/client'
+import { logAuditEvent } from '@/lib/utils/audit'
+import SavedReports from './SavedReports'
+import ReportPdfModal from './ReportPdfModal'
+
+export default function CustomReportBuilder() {
   const [startDate, setStartDate] = useState('')
   const [endDate, setEndDate] = useState('')
   const [isGenerating, setIsGenerating] = useState(false)
@@ -136,17 +46,29 @@ export default function CustomReportBuilder({
   const [showReportModal, setShowReportModal] = useState(false)
   const [showDetailModal, setShowDetailModal] = useState(false)
   const [detailModalType, setDetailModalType] = useState<string>('')
-  const [selectedEncounter, setSelectedEncounter] = useState<Encounter | null>(null)
+  const [reportOptions, setReportOptions] = useState<ReportOptions | null>(null)
+  const [reportRunId, setReportRunId] = useState<string | null>(null)
+  const [showPdfModal, setShowPdfModal] = useState(false)
+  const [details, setDetails] = useState<ReportDetails | null>(null)
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false)
+  const [selectedEncounter, setSelectedEncounter] = useState<ReportEncounter | null>(null)
   const [showEncounterModal, setShowEncounterModal] = useState(false)
 
   // Metric selections
   const [includeClientsServed, setIncludeClientsServed] = useState(true)
+  const [includeHouseholdsServed, setIncludeHouseholdsServed] = useState(true)
   const [includeServiceInteractions, setIncludeServiceInteractions] = useState(true)
   const [includeNaloxone, setIncludeNaloxone] = useState(true)
   const [includeFentanylStrips, setIncludeFentanylStrips] = useState(true)
+  const [includeServicesProvided, setIncludeServicesProvided] = useState(true)
+  const [includeSiteBreakdown, setIncludeSiteBreakdown] = useState(true)
   const [includeTotalReferrals, setIncludeTotalReferrals] = useState(true)
   const [includeReferralBreakdown, setIncludeReferralBreakdown] = useState(true)
+  const [includeReferralOutcomes, setIncludeReferralOutcomes] = useState(true)
   const [includeHousingPlacements, setIncludeHousingPlacements] = useState(true)
+  const [includeHousingPipeline, setIncludeHousingPipeline] = useState(true)
+  const [includeIncomeChange, setIncludeIncomeChange] = useState(true)
+  const [includeCaseGoals, setIncludeCaseGoals] = useState(true)
   const [includePlacements, setIncludePlacements] = useState(true)
   const [includeRefusedShelter, setIncludeRefusedShelter] = useState(true)
   const [includeHighUtilizerCount, setIncludeHighUtilizerCount] = useState(true)
@@ -172,941 +94,190 @@ export default function CustomReportBuilder({
   const [filterChronicHomeless, setFilterChronicHomeless] = useState(false)
   const [filterAgeRange, setFilterAgeRange] = useState('')
 
-  const handleGenerate = () => {
-    setIsGenerating(true)
-
-    // DEBUG: Log what data we're working with
-
-    try {
-      // Calculate age helper
-      const calculateAge = (dob: string): number => {
-        const birthDate = new Date(dob)
-        const today = new Date()
-        let age = today.getFullYear() - birthDate.getFullYear()
-        const monthDiff = today.getMonth() - birthDate.getMonth()
-        if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-          age--
-        }
-        return age
-      }
-
-      // Helper function to get local date string (YYYY-MM-DD) from timestamp
-      // This properly handles timezone offsets by parsing the date and extracting local date
-      const getLocalDateString = (dateStr: string): string => {
-        const date = new Date(dateStr)
-        const year = date.getFullYear()
-        const month = String(date.getMonth() + 1).padStart(2, '0')
-        const day = String(date.getDate()).padStart(2, '0')
-        return `${year}-${month}-${day}`
-      }
-
-      // Filter encounters by date range FIRST
-      let filteredEncounters = encounters
-
-
-      if (startDate && endDate) {
-        // Both dates provided: filter between range
-        filteredEncounters = filteredEncounters.filter(e => {
-          const localDate = getLocalDateString(e.service_date)
-          return localDate >= startDate && localDate <= endDate
-        })
-      } else if (startDate) {
-        // Only start date: filter from start date onwards
-        filteredEncounters = filteredEncounters.filter(e => {
-          const localDate = getLocalDateString(e.service_date)
-          return localDate >= startDate
-        })
-      } else if (endDate) {
-        // Only end date: filter up to end date
-        filteredEncounters = filteredEncounters.filter(e => {
-          const localDate = getLocalDateString(e.service_date)
-          return localDate <= endDate
-        })
-      }
-
-      // Get unique person IDs from filtered encounters
-      const personIdsWithEncounters = new Set(filteredEncounters.map(e => e.person_id))
-
-      // Get person IDs with exits in the date range
-      const personIdsWithExits = new Set(
-        persons
-          .filter(p => {
-            if (!p.exit_date) return false
-            const exitDateStr = getLocalDateString(p.exit_date)
-            if (startDate && endDate) {
-              return exitDateStr >= startDate && exitDateStr <= endDate
-            } else if (startDate) {
-              return exitDateStr >= startDate
-            } else if (endDate) {
-              return exitDateStr <= endDate
-            }
-            return true
-          })
-          .map(p => p.id)
-      )
-
-
-      // Filter persons by demographics AND by whether they have encounters OR exits in the date range
-      let filteredPersons = persons.filter(p =>
-        personIdsWithEncounters.has(p.id) || personIdsWithExits.has(p.id)
-      )
-
-
-      if (filterVeteransOnly) {
-        filteredPersons = filteredPersons.filter(p => p.veteran_status)
-      }
+  const buildReportOptions = (): ReportOptions => {
+    const metricSelections: Record<ReportMetric, boolean> = {
+      clientsServed: includeClientsServed,
+      householdsServed: includeHouseholdsServed,
+      serviceInteractions: includeServiceInteractions,
+      naloxone: includeNaloxone,
+      fentanylStrips: includeFentanylStrips,
+      servicesProvided: includeServicesProvided,
+      siteBreakdown: includeSiteBreakdown,
+      totalReferrals: includeTotalReferrals,
+      referralBreakdown: includeReferralBreakdown,
+      referralOutcomes: includeReferralOutcomes,
+      housingPlacements: includeHousingPlacements,
+      housingPipeline: includeHousingPipeline,
+      incomeChange: includeIncomeChange,
+      caseGoals: includeCaseGoals,
+      placements: includePlacements,
+      refusedShelter: includeRefusedShelter,
+      highUtilizerCount: includeHighUtilizerCount,
+      returnedToActive: includeReturnedToActive,
+      inflows: includeInflows,
+      outflows: includeOutflows,
+      byNameList: includeByNameList,
+      interactionsDetail: includeInteractionsDetail,
+    }
+    const demographicSelections: Record<DemographicBreakdown, boolean> = {
+      race: includeByRace,
+      ethnicity: includeByEthnicity,
+      gender: includeByGender,
+      sexualOrientation: includeBySexualOrientation,
+      ageRange: includeByAgeRange,
+      veteranStatus: includeByVeteranStatus,
+      disabilityStatus: includeByDisabilityStatus,
+      livingSituation: includeByLivingSituation,
+    }
 
-      if (filterDisabledOnly) {
-        filteredPersons = filteredPersons.filter(p => p.disability_status)
-      }
+    return {
+      startDate,
+      endDate,
+      // Encounter timestamps are bucketed into days in the user's time zone
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      metrics: (Object.keys(metricSelections) as ReportMetric[]).filter(m => metricSelections[m]),
+      demographics: (Object.keys(demographicSelections) as DemographicBreakdown[]).filter(d => demographicSelections[d]),
+      filters: {
+        veteransOnly: filterVeteransOnly,
+        disabledOnly: filterDisabledOnly,
+        chronicHomeless: filterChronicHomeless,
+        ageRange: filterAgeRange as ReportOptions['filters']['ageRange'],
+      },
+    }
+  }
 
-      if (filterChronicHomeless) {
-        filteredPersons = filteredPersons.filter(p => p.chronic_homeless)
-      }
+  const getSelection = (): ReportSelection => {
+    const { metrics, demographics, filters } = buildReportOptions()
+    return { metrics, demographics, filters }
+  }
 
-      if (filterAgeRange) {
-        filteredPersons = filteredPersons.filter(p => {
-          const age = calculateAge(p.date_of_birth)
-          switch (filterAgeRange) {
-            case '18-24': return age >= 18 && age <= 24
-            case '25-34': return age >= 25 && age <= 34
-            case '35-44': return age >= 35 && age <= 44
-            case '45-54': return age >= 45 && age <= 54
-            case '55-64': return age >= 55 && age <= 64
-            case '65+': return age >= 65
-            default: return true
-          }
-        })
-      }
+  // Tick the builder's checkboxes to match saved report options
+  const applyReportOptions = (options: ReportOptions) => {
+    const metrics = new Set(options.metrics)
+    setIncludeClientsServed(metrics.has('clientsServed'))
+    setIncludeHouseholdsServed(metrics.has('householdsServed'))
+    setIncludeServiceInteractions(metrics.has('serviceInteractions'))
+    setIncludeNaloxone(metrics.has('naloxone'))
+    setIncludeFentanylStrips(metrics.has('fentanylStrips'))
+    setIncludeServicesProvided(metrics.has('servicesProvided'))
+    setIncludeSiteBreakdown(metrics.has('siteBreakdown'))
+    setIncludeTotalReferrals(metrics.has('totalReferrals'))
+    setIncludeReferralBreakdown(metrics.has('referralBreakdown'))
+    setIncludeReferralOutcomes(metrics.has('referralOutcomes'))
+    setIncludeHousingPlacements(metrics.has('housingPlacements'))
+    setIncludeHousingPipeline(metrics.has('housingPipeline'))
+    setIncludeIncomeChange(metrics.has('incomeChange'))
+    setIncludeCaseGoals(metrics.has('caseGoals'))
+    setIncludePlacements(metrics.has('placements'))
+    setIncludeRefusedShelter(metrics.has('refusedShelter'))
+    setIncludeHighUtilizerCount(metrics.has('highUtilizerCount'))
+    setIncludeReturnedToActive(metrics.has('returnedToActive'))
+    setIncludeInflows(metrics.has('inflows'))
+    setIncludeOutflows(metrics.has('outflows'))
+    setIncludeByNameList(metrics.has('byNameList'))
+    setIncludeInteractionsDetail(metrics.has('interactionsDetail'))
+
+    const demographics = new Set(options.demographics)
+    setIncludeByRace(demographics.has('race'))
+    setIncludeByEthnicity(demographics.has('ethnicity'))
+    setIncludeByGender(demographics.has('gender'))
+    setIncludeBySexualOrientation(demographics.has('sexualOrientation'))
+    setIncludeByAgeRange(demographics.has('ageRange'))
+    setIncludeByVeteranStatus(demographics.has('veteranStatus'))
+    setIncludeByDisabilityStatus(demographics.has('disabilityStatus'))
+    setIncludeByLivingSituation(demographics.has('livingSituation'))
+
+    setFilterVeteransOnly(options.filters.veteransOnly)
+    setFilterDisabledOnly(options.filters.disabledOnly)
+    setFilterChronicHomeless(options.filters.chronicHomeless)
+    setFilterAgeRange(options.filters.ageRange)
+
+    setStartDate(options.startDate)
+    setEndDate(options.endDate)
+  }
 
-      // Filter encounters to only include those for the filtered persons
-      const filteredPersonIds = new Set(filteredPersons.map(p => p.id))
-      filteredEncounters = filteredEncounters.filter(e => filteredPersonIds.has(e.person_id))
-
-      // Active persons = those without an exit_date (for By-Name List)
-      const activePersons = filteredPersons.filter(p => !p.exit_date)
-
-      // Calculate metrics from filtered data
-      const clientsServed = filteredPersons.length
-
-      const totalInteractions = filteredEncounters.length
-      const naloxoneDistributed = filteredEncounters.filter(e => e.naloxone_distributed).length
-      const fentanylTestStrips = filteredEncounters.reduce(
-        (sum, e) => sum + (e.fentanyl_test_strips_count || 0),
-        0
-      )
-      const matReferrals = filteredEncounters.filter(e => e.mat_referral).length
-      const detoxReferrals = filteredEncounters.filter(e => e.detox_referral).length
-      const totalReferrals = matReferrals + detoxReferrals
-
-      // Count unique persons who have at least one high utilizer encounter
-      const highUtilizerPersonIds = new Set(
-        filteredEncounters
-          .filter(e => e.high_utilizer_contact)
-          .map(e => e.person_id)
-      )
-      const highUtilizerContacts = highUtilizerPersonIds.size
-
-      // Build details for high utilizers with person info and encounter count
-      const highUtilizerDetails = Array.from(highUtilizerPersonIds).map(personId => {
-        const person = persons.find(p => p.id === personId)
-        const encounterCount = filteredEncounters.filter(e => e.person_id === personId && e.high_utilizer_contact).length
-        return {
-          person_id: personId,
-          person_name: person ? `${person.first_name} ${person.last_name}` : 'Unknown',
-          client_id: person?.client_id || 'Unknown',
-          encounter_count: encounterCount,
-        }
-      }).sort((a, b) => b.encounter_count - a.encounter_count)
-
-      // Calculate housing placements from program exits to permanent housing
-      const permanentHousingDestinations = EXIT_DESTINATIONS['Permanent Housing'] as readonly string[]
-      const housingPlacements = filteredPersons.filter(p => {
-        if (!p.exit_date || !p.exit_destination) return false
-
-        // Check if exit is within date range
-        const exitDateStr = getLocalDateString(p.exit_date)
-        const inDateRange = startDate && endDate
-          ? (exitDateStr >= startDate && exitDateStr <= endDate)
-          : startDate
-            ? exitDateStr >= startDate
-            : endDate
-              ? exitDateStr <= endDate
-              : true
-
-        // Check if destination is permanent housing
-        const isPermanentHousing = permanentHousingDestinations.includes(p.exit_destination)
-
-        return inDateRange && isPermanentHousing
-      }).length
-
-      // Calculate program exits breakdown by category
-      const personsWithExits = filteredPersons.filter(p => {
-        if (!p.exit_date || !p.exit_destination) return false
-        const exitDateStr = getLocalDateString(p.exit_date)
-        const inDateRange = startDate && endDate
-          ? (exitDateStr >= startDate && exitDateStr <= endDate)
-          : startDate
-            ? exitDateStr >= startDate
-            : endDate
-              ? exitDateStr <= endDate
-              : true
-        return inDateRange
-      })
+  const handleLoadDefinition = (definition: ReportDefinition) => {
+    applyReportOptions(buildDefinitionOptions(definition))
+  }
 
-      const programExits = personsWithExits.length
-
-      // Calculate returned to active from status_changes
-      const returnedToActiveRecords = statusChanges.filter(sc => {
-        if (sc.change_type !== 'return_to_active') return false
-        const changeDateStr = getLocalDateString(sc.change_date)
-        if (startDate && endDate) {
-          return changeDateStr >= startDate && changeDateStr <= endDate
-        } else if (startDate) {
-          return changeDateStr >= startDate
-        } else if (endDate) {
-          return changeDateStr <= endDate
-        }
-        return true
-      })
-      const returnedToActive = returnedToActiveRecords.length
-
-      // Build details for returned to active with person info
-      const returnedToActiveDetails = returnedToActiveRecords.map(sc => {
-        const person = persons.find(p => p.id === sc.person_id)
-        return {
-          person_id: sc.person_id,
-          person_name: person ? `${person.first_name} ${person.last_name}` : 'Unknown',
-          client_id: person?.client_id || 'Unknown',
-          return_date: sc.change_date,
-          notes: sc.notes || null,
-        }
-      }).sort((a, b) => new Date(b.return_date).getTime() - new Date(a.return_date).getTime())
-
-      const exitsByCategory = Object.entries(EXIT_DESTINATIONS).reduce((acc, [category, destinations]) => {
-        const categoryDestinations: Record<string, number> = {}
-        let categoryTotal = 0
-
-        destinations.forEach(destination => {
-          const count = personsWithExits.filter(p => p.exit_destination === destination).length
-          if (count > 0) {
-            categoryDestinations[destination] = count
-            categoryTotal += count
-          }
-        })
-
-        if (categoryTotal > 0) {
-          acc[category] = {
-            total: categoryTotal,
-            destinations: categoryDestinations
-          }
-        }
-
-        return acc
-      }, {} as Record<string, { total: number, destinations: Record<string, number> }>)
-
-      // Build referral breakdown
-      const matByProvider = filteredEncounters
-        .filter(e => e.mat_referral && e.mat_provider)
-        .reduce((acc, e) => {
-          const provider = e.mat_provider || 'Unknown'
-          acc[provider] = (acc[provider] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-      const detoxByProvider = filteredEncounters
-        .filter(e => e.detox_referral && e.detox_provider)
-        .reduce((acc, e) => {
-          const provider = e.detox_provider || 'Unknown'
-          acc[provider] = (acc[provider] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-      // Calculate placements
-      const placementsMade = filteredEncounters.filter(e => e.placement_made).length
-
-      // Calculate refused shelter
-      const refusedShelter = filteredEncounters.filter(e => e.refused_shelter).length
-
-      // Calculate inflows (newly enrolled in date range)
-      const inflowPersons = persons.filter(p => {
-        const enrollmentDateStr = getLocalDateString(p.enrollment_date)
-        if (startDate && endDate) {
-          return enrollmentDateStr >= startDate && enrollmentDateStr <= endDate
-        } else if (startDate) {
-          return enrollmentDateStr >= startDate
-        } else if (endDate) {
-          return enrollmentDateStr <= endDate
-        }
-        return true
-      })
+  // Show a report, either freshly generated or from the report history
+  const showReport = (report: GeneratedReport, options: ReportOptions, runId?: string) => {
+    applyReportOptions(options)
+    setGeneratedReport(report)
+    setReportOptions(options)
+    setReportRunId(runId || null)
+    setDetails(null)
+    setShowReportModal(true)
+  }
 
-      // Calculate outflows (exits to housed/sheltered/detox)
-      const permanentHousingDests = [
-        'Owned by client, no ongoing subsidy',
-        'Owned by client, with ongoing subsidy (mortgage, VA, etc.)',
-        'Rental by client, no ongoing subsidy',
-        'Rental by client, with VASH subsidy',
-        'Rental by client, with other ongoing housing subsidy (HCV, public housing, CoC-RRH, etc.)',
-        'Permanent housing for formerly homeless persons (CoC, ESG, or other funding)',
-        'Staying or living with family, permanent tenure',
-        'Staying or living with friends, permanent tenure',
-      ]
-      const shelterDests = [
-        'Emergency shelter (including hotel/motel paid for with voucher)',
-        'Transitional housing for homeless persons (including youth)',
-        'Staying or living with family, temporary tenure',
-        'Staying or living with friends, temporary tenure',
-        'Hotel or motel paid for without emergency shelter voucher',
-        'Foster care home or foster care group home',
-        'Residential project or halfway house with no homeless criteria (e.g., sober living)',
-        'Safe Haven',
-      ]
-      const detoxDests = ['Substance abuse treatment facility or detox center']
-
-      const outflowHoused = personsWithExits.filter(p => p.exit_destination && permanentHousingDests.includes(p.exit_destination))
-      const outflowSheltered = personsWithExits.filter(p => p.exit_destination && shelterDests.includes(p.exit_destination))
-      const outflowDetox = personsWithExits.filter(p => p.exit_destination && detoxDests.includes(p.exit_destination))
-
-      // Placement breakdown by location
-      const placementsByLocation = filteredEncounters
-        .filter(e => e.placement_made)
-        .reduce((acc, e) => {
-          const location = e.placement_location === 'Other'
-            ? (e.placement_location_other || 'Other')
-            : (e.placement_location || 'Unknown')
-          acc[location] = (acc[location] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-      // Build custom report data
-      const reportData: Record<string, unknown>[] = []
-
-      // Add report metadata using same column structure as metrics
-      reportData.push({
-        'Metric': '=== REPORT INFORMATION ===',
-        'Value': '',
-        'Description': '',
-      })
-      reportData.push({
-        'Metric': 'Report Type',
-        'Value': 'Custom Data Report',
-        'Description': '',
-      })
-      reportData.push({
-        'Metric': 'Generated',
-        'Value': new Date().toISOString(),
-        'Description': '',
-      })
-      // Determine date range text
-      let dateRangeText = 'All Time'
-      if (startDate && endDate) {
-        dateRangeText = `${startDate} to ${endDate}`
-      } else if (startDate) {
-        dateRangeText = `From ${startDate}`
-      } else if (endDate) {
-        dateRangeText = `Up to ${endDate}`
-      }
+  const handleGenerate = async () => {
+    setIsGenerating(true)
 
-      reportData.push({
-        'Metric': 'Date Range',
-        'Value': dateRangeText,
-        'Description': '',
-      })
-      reportData.push({
-        'Metric': '',
-        'Value': '',
-        'Description': '',
-      })
-      reportData.push({
-        'Metric': '=== METRICS ===',
-        'Value': '',
-        'Description': '',
+    try {
+      const options = buildReportOptions()
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
       })
 
-      // Add selected metrics
-      if (includeClientsServed) {
-        reportData.push({
-          'Metric': 'Clients Served',
-          'Value': clientsServed,
-          'Description': 'Unduplicated individuals',
-        })
-      }
-
-      if (includeServiceInteractions) {
-        reportData.push({
-          'Metric': 'Service Interactions',
-          'Value': totalInteractions,
-          'Description': 'Total encounters',
-        })
-      }
-
-      if (includeNaloxone) {
-        reportData.push({
-          'Metric': 'Naloxone Distributed',
-          'Value': naloxoneDistributed,
-          'Description': 'Kits given out',
-        })
-      }
-
-      if (includeFentanylStrips) {
-        reportData.push({
-          'Metric': 'Fentanyl Test Strips',
-          'Value': fentanylTestStrips,
-          'Description': 'Total distributed',
-        })
-      }
-
-      if (includeTotalReferrals) {
-        reportData.push({
-          'Metric': 'Total Referrals',
-          'Value': totalReferrals,
-          'Description': `MAT: ${matReferrals}, Detox: ${detoxReferrals}`,
-        })
-      }
-
-      if (includeHighUtilizerCount) {
-        reportData.push({
-          'Metric': 'High Utilizers',
-          'Value': highUtilizerContacts,
-          'Description': 'Unique individuals marked as high utilizers',
-        })
-      }
-
-      if (includeReferralBreakdown) {
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'MAT Referrals by Provider',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(matByProvider).forEach(([provider, count]) => {
-          reportData.push({
-            'Metric': `  ${provider}`,
-            'Value': count,
-            'Description': '',
-          })
-        })
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Detox Referrals by Provider',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(detoxByProvider).forEach(([provider, count]) => {
-          reportData.push({
-            'Metric': `  ${provider}`,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
-
-      if (includeInflows) {
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== INFLOWS ===',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Total Inflows',
-          'Value': inflowPersons.length,
-          'Description': 'Newly enrolled clients in date range',
-        })
-        if (inflowPersons.length > 0) {
-          reportData.push({
-            'Metric': 'Inflow Details',
-            'Value': '',
-            'Description': '',
-          })
-          inflowPersons.slice(0, 50).forEach(p => {
-            reportData.push({
-              'Metric': `  ${p.first_name} ${p.last_name}`,
-              'Value': p.client_id,
-              'Description': `Enrolled: ${getLocalDateString(p.enrollment_date)}`,
-            })
-          })
-        }
-      }
-
-      if (includeOutflows) {
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== OUTFLOWS ===',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Total Outflows',
-          'Value': outflowHoused.length + outflowSheltered.length + outflowDetox.length,
-          'Description': 'Exits to housing, shelter, or detox',
-        })
-        reportData.push({
-          'Metric': '  Housed',
-          'Value': outflowHoused.length,
-          'Description': 'Exits to permanent housing',
-        })
-        reportData.push({
-          'Metric': '  Sheltered',
-          'Value': outflowSheltered.length,
-          'Description': 'Exits to shelter/transitional',
-        })
-        reportData.push({
-          'Metric': '  Detox',
-          'Value': outflowDetox.length,
-          'Description': 'Exits to detox/treatment',
-        })
-        if (outflowHoused.length + outflowSheltered.length + outflowDetox.length > 0) {
-          reportData.push({
-            'Metric': 'Outflow Details',
-            'Value': '',
-            'Description': '',
-          })
-          ;[...outflowHoused, ...outflowSheltered, ...outflowDetox].slice(0, 50).forEach(p => {
-            reportData.push({
-              'Metric': `  ${p.first_name} ${p.last_name}`,
-              'Value': p.client_id,
-              'Description': `${p.exit_destination?.split('(')[0].trim() || 'Unknown'} - ${getLocalDateString(p.exit_date!)}`,
-            })
-          })
-        }
-      }
-
-      if (includeHousingPlacements) {
-        reportData.push({
-          'Metric': 'Housing Placements',
-          'Value': housingPlacements,
-          'Description': 'Permanent housing',
-        })
-      }
-
-      if (includePlacements) {
-        reportData.push({
-          'Metric': 'Placements Made',
-          'Value': placementsMade,
-          'Description': 'Total placements to programs/shelters',
-        })
-
-        if (Object.keys(placementsByLocation).length > 0) {
-          reportData.push({
-            'Metric': '',
-            'Value': '',
-            'Description': '',
-          })
-          reportData.push({
-            'Metric': 'Placements by Location',
-            'Value': '',
-            'Description': '',
-          })
-          Object.entries(placementsByLocation)
-            .sort(([, a], [, b]) => b - a)
-            .forEach(([location, count]) => {
-              reportData.push({
-                'Metric': `  ${location}`,
-                'Value': count,
-                'Description': '',
-              })
-            })
-        }
-      }
-
-      if (includeRefusedShelter) {
-        reportData.push({
-          'Metric': 'Refused Shelter',
-          'Value': refusedShelter,
-          'Description': 'Clients who declined shelter placement',
-        })
-      }
-
-      if (includeReturnedToActive) {
-        reportData.push({
-          'Metric': 'Returned to Active',
-          'Value': returnedToActive,
-          'Description': 'Previously exited clients who returned',
-        })
-      }
-
-      // Export by-name list if selected
-      if (includeByNameList) {
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== ACTIVE BY-NAME LIST ===',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Total Active Clients',
-          'Value': activePersons.length,
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Veterans',
-          'Value': activePersons.filter(p => p.veteran_status).length,
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Chronically Homeless',
-          'Value': activePersons.filter(p => p.chronic_homeless).length,
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'With Disability',
-          'Value': activePersons.filter(p => p.disability_status).length,
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Client ID',
-          'Value': 'First Name',
-          'Description': 'Last Name',
-          'Age': 'Age',
-          'Gender': 'Gender',
-          'Veteran': 'Veteran',
-          'Chronic Homeless': 'Chronic Homeless',
-          'Enrollment Date': 'Enrollment Date',
-        })
-        activePersons.forEach(p => {
-          reportData.push({
-            'Metric': p.client_id,
-            'Value': p.first_name,
-            'Description': p.last_name,
-            'Age': calculateAge(p.date_of_birth),
-            'Gender': p.gender,
-            'Veteran': p.veteran_status ? 'Yes' : 'No',
-            'Chronic Homeless': p.chronic_homeless ? 'Yes' : 'No',
-            'Enrollment Date': p.enrollment_date,
-          })
-        })
-      }
-
-      // Export interactions detail if selected
-      if (includeInteractionsDetail) {
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== SERVICE INTERACTIONS DETAIL ===',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': 'Service Date',
-          'Value': 'Client ID',
-          'Description': 'Location',
-          'Outreach Worker': 'Outreach Worker',
-          'MAT Referral': 'MAT Referral',
-          'Detox Referral': 'Detox Referral',
-          'Naloxone': 'Naloxone',
-          'Fentanyl Strips': 'Fentanyl Strips',
-        })
-        filteredEncounters.forEach(e => {
-          reportData.push({
-            'Metric': e.service_date,
-            'Value': e.person_id,
-            'Description': e.outreach_location,
-            'Outreach Worker': e.outreach_worker,
-            'MAT Referral': e.mat_referral ? 'Yes' : 'No',
-            'Detox Referral': e.detox_referral ? 'Yes' : 'No',
-            'Naloxone': e.naloxone_distributed ? 'Yes' : 'No',
-            'Fentanyl Strips': e.fentanyl_test_strips_count || 0,
-          })
-        })
-      }
-
-      // Export demographic breakdowns if selected
-      if (includeByRace) {
-        const raceBreakdown = filteredPersons.reduce((acc, p) => {
-          const race = p.race || 'Unknown'
-          acc[race] = (acc[race] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY RACE ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(raceBreakdown).forEach(([race, count]) => {
-          reportData.push({
-            'Metric': race,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
-
-      if (includeByEthnicity) {
-        const ethnicityBreakdown = filteredPersons.reduce((acc, p) => {
-          const ethnicity = p.ethnicity || 'Unknown'
-          acc[ethnicity] = (acc[ethnicity] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY ETHNICITY ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(ethnicityBreakdown).forEach(([ethnicity, count]) => {
-          reportData.push({
-            'Metric': ethnicity,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
-
-      if (includeByGender) {
-        const genderBreakdown = filteredPersons.reduce((acc, p) => {
-          const gender = p.gender || 'Unknown'
-          acc[gender] = (acc[gender] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY GENDER ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(genderBreakdown).forEach(([gender, count]) => {
-          reportData.push({
-            'Metric': gender,
-            'Value': count,
-            'Description': '',
-          })
-        })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to generate report')
       }
 
-      if (includeBySexualOrientation) {
-        const sexualOrientationBreakdown = filteredPersons.reduce((acc, p) => {
-          const orientation = p.sexual_orientation || 'Not specified'
-          acc[orientation] = (acc[orientation] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY SEXUAL ORIENTATION ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(sexualOrientationBreakdown).forEach(([orientation, count]) => {
-          reportData.push({
-            'Metric': orientation,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
-
-      if (includeByAgeRange) {
-        const ageBreakdown: Record<string, number> = {
-          '18-24': 0,
-          '25-34': 0,
-          '35-44': 0,
-          '45-54': 0,
-          '55-64': 0,
-          '65+': 0,
-        }
-
-        filteredPersons.forEach(p => {
-          const age = calculateAge(p.date_of_birth)
-          if (age >= 18 && age <= 24) ageBreakdown['18-24']++
-          else if (age >= 25 && age <= 34) ageBreakdown['25-34']++
-          else if (age >= 35 && age <= 44) ageBreakdown['35-44']++
-          else if (age >= 45 && age <= 54) ageBreakdown['45-54']++
-          else if (age >= 55 && age <= 64) ageBreakdown['55-64']++
-          else if (age >= 65) ageBreakdown['65+']++
-        })
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY AGE RANGE ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(ageBreakdown).forEach(([range, count]) => {
-          reportData.push({
-            'Metric': range,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
+      const { report } = await response.json()
+      showReport(report as GeneratedReport, options)
+    } catch (error) {
+      console.error('Report generation error:', error)
+      alert('Error generating report. Please try again.')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
 
-      if (includeByVeteranStatus) {
-        const veteranBreakdown = {
-          'Veteran': filteredPersons.filter(p => p.veteran_status).length,
-          'Non-Veteran': filteredPersons.filter(p => !p.veteran_status).length,
-        }
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY VETERAN STATUS ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(veteranBreakdown).forEach(([status, count]) => {
-          reportData.push({
-            'Metric': status,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
+  // Open a metric's detail modal, fetching its client/encounter list on demand
+  const openDetailModal = async (type: string) => {
+    setDetailModalType(type)
+    setShowDetailModal(true)
 
-      if (includeByDisabilityStatus) {
-        const disabilityBreakdown = {
-          'Has Disability': filteredPersons.filter(p => p.disability_status).length,
-          'No Disability': filteredPersons.filter(p => !p.disability_status).length,
-        }
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY DISABILITY STATUS ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(disabilityBreakdown).forEach(([status, count]) => {
-          reportData.push({
-            'Metric': status,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
+    if (!reportOptions || !(REPORT_DETAIL_TYPES as readonly string[]).includes(type)) return
 
-      if (includeByLivingSituation) {
-        const livingSituationBreakdown = filteredPersons.reduce((acc, p) => {
-          const situation = p.living_situation || 'Unknown'
-          acc[situation] = (acc[situation] || 0) + 1
-          return acc
-        }, {} as Record<string, number>)
-
-        reportData.push({
-          'Metric': '',
-          'Value': '',
-          'Description': '',
-        })
-        reportData.push({
-          'Metric': '=== BREAKDOWN BY LIVING SITUATION ===',
-          'Value': '',
-          'Description': '',
-        })
-        Object.entries(livingSituationBreakdown).forEach(([situation, count]) => {
-          reportData.push({
-            'Metric': situation,
-            'Value': count,
-            'Description': '',
-          })
-        })
-      }
+    setDetails(null)
+    setIsLoadingDetails(true)
 
-      // Store the generated report data to display
-      setGeneratedReport({
-        reportData,
-        metadata: {
-          generated: new Date().toISOString(),
-          dateRange: dateRangeText,
-          startDate,
-          endDate,
-        },
-        metrics: {
-          clientsServed,
-          totalInteractions,
-          naloxoneDistributed,
-          fentanylTestStrips,
-          totalReferrals,
-          matReferrals,
-          detoxReferrals,
-          housingPlacements,
-          placementsMade,
-          refusedShelter,
-          highUtilizerContacts,
-          programExits,
-          returnedToActive,
-        },
-        breakdowns: {
-          matByProvider,
-          detoxByProvider,
-          placementsByLocation,
-          exitsByCategory,
-          returnedToActiveDetails,
-          highUtilizerDetails,
+    try {
+      const response = await fetch('/api/reports/details', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-        filteredPersons,
-        activePersons,
-        filteredEncounters,
+        body: JSON.stringify({ options: reportOptions, type: type as ReportDetailType }),
       })
 
-      setShowReportModal(true)
-      setIsGenerating(false)
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to load report details')
+      }
+
+      setDetails(await response.json() as ReportDetails)
     } catch (error) {
-      console.error('Report generation error:', error)
-      alert('Error generating report. Please try again.')
-      setIsGenerating(false)
+      console.error('Error loading report details:', error)
+      alert('Error loading details. Please try again.')
+    } finally {
+      setIsLoadingDetails(false)
     }
   }
 
+  const detailPersons = details?.persons || []
+  const detailEncounters = details?.encounters || []
+
+  // Look up the client an encounter in the detail list belongs to
+  const getDetailPerson = (personId: string): ReportPerson | undefined =>
+    details?.persons.find(p => p.id === personId)
+
   const handleDownloadCSV = () => {
     console.log('🚨 DOWNLOAD CSV BUTTON CLICKED - EXPORTING NOW')
     if (!generatedReport) return
@@ -1122,12 +293,24 @@ export default function CustomReportBuilder({
     const filename = `custom_report${dateRange}.csv`
 
     exportToCSV(generatedReport.reportData, filename)
+
+    logAuditEvent(createClient(), {
+      action: 'export',
+      entity_type: 'report',
+      entity_id: reportRunId,
+      details: {
+        format: 'csv',
+        start_date: generatedReport.metadata.startDate || null,
+        end_date: generatedReport.metadata.endDate || null,
+        metrics: reportOptions?.metrics || [],
+      },
+    })
   }
 
-  const allUnchecked = !includeClientsServed && !includeServiceInteractions &&
-                       !includeNaloxone && !includeFentanylStrips &&
-                       !includeTotalReferrals && !includeReferralBreakdown &&
-                       !includeHousingPlacements && !includePlacements &&
+  const allUnchecked = !includeClientsServed && !includeHouseholdsServed && !includeServiceInteractions &&
+                       !includeNaloxone && !includeFentanylStrips && !includeServicesProvided && !includeSiteBreakdown &&
+                       !includeTotalReferrals && !includeReferralBreakdown && !includeReferralOutcomes &&
+                       !includeHousingPlacements && !includeHousingPipeline && !includeIncomeChange && !includeCaseGoals && !includePlacements &&
                        !includeRefusedShelter && !includeHighUtilizerCount && !includeReturnedToActive &&
                        !includeByNameList && !includeInteractionsDetail &&
                        !includeByRace && !includeByEthnicity && !includeByGender &&
@@ -1160,6 +343,15 @@ export default function CustomReportBuilder({
         Select the metrics you want to include in your custom report and specify a date range.
       </p>
 
+      {/* Saved Reports */}
+      <SavedReports
+        getSelection={getSelection}
+        startDate={startDate}
+        endDate={endDate}
+        onLoad={handleLoadDefinition}
+        onShowReport={showReport}
+      />
+
       {/* Date Range */}
       <div className="bg-white rounded-lg p-4 mb-4">
         <h4 className="font-semibold text-gray-800 mb-3">Date Range</h4>
@@ -1203,6 +395,16 @@ export default function CustomReportBuilder({
             <span className="text-sm text-gray-700">Clients Served (Unduplicated)</span>
           </label>
 
+          <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+            <input
+              type="checkbox"
+              checked={includeHouseholdsServed}
+              onChange={(e) => setIncludeHouseholdsServed(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Households Served</span>
+          </label>
+
           <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
             <input
               type="checkbox"
@@ -1233,6 +435,26 @@ export default function CustomReportBuilder({
             <span className="text-sm text-gray-700">Fentanyl Test Strips</span>
           </label>
 
+          <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+            <input
+              type="checkbox"
+              checked={includeServicesProvided}
+              onChange={(e) => setIncludeServicesProvided(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Services Provided (by service)</span>
+          </label>
+
+          <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+            <input
+              type="checkbox"
+              checked={includeSiteBreakdown}
+              onChange={(e) => setIncludeSiteBreakdown(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Interactions by Site</span>
+          </label>
+
           <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
             <input
               type="checkbox"
@@ -1253,6 +475,16 @@ export default function CustomReportBuilder({
             <span className="text-sm text-gray-700">Referrals by Provider</span>
           </label>
 
+          <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+            <input
+              type="checkbox"
+              checked={includeReferralOutcomes}
+              onChange={(e) => setIncludeReferralOutcomes(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Referral Outcomes (conversion rates)</span>
+          </label>
+
           <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
             <input
               type="checkbox"
@@ -1263,6 +495,36 @@ export default function CustomReportBuilder({
             <span className="text-sm text-gray-700">Housing Placements (Exits)</span>
           </label>
 
+          <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+            <input
+              type="checkbox"
+              checked={includeHousingPipeline}
+              onChange={(e) => setIncludeHousingPipeline(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Housing Pipeline (time in stage, time to housing)</span>
+          </label>
+
+          <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+            <input
+              type="checkbox"
+              checked={includeIncomeChange}
+              onChange={(e) => setIncludeIncomeChange(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Income Change (entry to exit)</span>
+          </label>
+
+          <label className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
+            <input
+              type="checkbox"
+              checked={includeCaseGoals}
+              onChange={(e) => setIncludeCaseGoals(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Case Plan Goals (set and achieved)</span>
+          </label>
+
           <label className="flex items-center space-x-2 cursor-pointer hover:bg-green-50 p-2 rounded border border-green-200">
             <input
               type="checkbox"
@@ -1564,11 +826,30 @@ export default function CustomReportBuilder({
               </svg>
               Download CSV
             </button>
+            <button
+              onClick={() => setShowPdfModal(true)}
+              className="ml-3 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium inline-flex items-center"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+                />
+              </svg>
+              Download PDF
+            </button>
           </div>
 
           <div className="p-6">
             {/* Key Metrics Grid */}
-          {(includeClientsServed || includeServiceInteractions || includeNaloxone ||
+          {(includeClientsServed || includeHouseholdsServed || includeServiceInteractions || includeNaloxone ||
             includeFentanylStrips || includeTotalReferrals || includeHousingPlacements || includeHighUtilizerCount || includeReturnedToActive) && (
             <div className="mb-8">
               <h5 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -1580,10 +861,7 @@ export default function CustomReportBuilder({
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {includeClientsServed && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('clientsServed')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('clientsServed')}
                     className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg p-4 border border-blue-200 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">Clients Served</p>
@@ -1591,12 +869,17 @@ export default function CustomReportBuilder({
                     <p className="text-xs text-gray-500 mt-1">Click for details</p>
                   </div>
                 )}
+                {includeHouseholdsServed && (
+                  <div className="bg-gradient-to-br from-sky-50 to-sky-100 rounded-lg p-4 border border-sky-200">
+                    <p className="text-sm text-gray-600 font-medium">Households Served</p>
+                    {/* Runs saved before households were counted have no value */}
+                    <p className="text-3xl font-bold text-sky-600 mt-1">{generatedReport.metrics.householdsServed ?? '—'}</p>
+                    <p className="text-xs text-gray-500 mt-1">Individuals count as their own household</p>
+                  </div>
+                )}
                 {includeServiceInteractions && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('serviceInteractions')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('serviceInteractions')}
                     className="bg-gradient-to-br from-green-50 to-green-100 rounded-lg p-4 border border-green-200 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">Service Interactions</p>
@@ -1606,10 +889,7 @@ export default function CustomReportBuilder({
                 )}
                 {includeNaloxone && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('naloxone')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('naloxone')}
                     className="bg-gradient-to-br from-red-50 to-red-100 rounded-lg p-4 border border-red-200 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">Naloxone Distributed</p>
@@ -1619,10 +899,7 @@ export default function CustomReportBuilder({
                 )}
                 {includeFentanylStrips && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('fentanylStrips')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('fentanylStrips')}
                     className="bg-gradient-to-br from-yellow-50 to-yellow-100 rounded-lg p-4 border border-yellow-200 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">Fentanyl Test Strips</p>
@@ -1632,10 +909,7 @@ export default function CustomReportBuilder({
                 )}
                 {includeTotalReferrals && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('referrals')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('referrals')}
                     className="bg-gradient-to-br from-purple-50 to-purple-100 rounded-lg p-4 border border-purple-200 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">Total Referrals</p>
@@ -1645,10 +919,7 @@ export default function CustomReportBuilder({
                 )}
                 {includeHousingPlacements && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('housingPlacements')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('housingPlacements')}
                     className="bg-gradient-to-br from-teal-50 to-teal-100 rounded-lg p-4 border border-teal-200 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">Housing Placements</p>
@@ -1658,10 +929,7 @@ export default function CustomReportBuilder({
                 )}
                 {includePlacements && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('placements')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('placements')}
                     className="bg-gradient-to-br from-green-50 to-green-100 rounded-lg p-4 border-2 border-green-300 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">🏠 Placements</p>
@@ -1671,10 +939,7 @@ export default function CustomReportBuilder({
                 )}
                 {includeRefusedShelter && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('refusedShelter')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('refusedShelter')}
                     className="bg-gradient-to-br from-red-50 to-red-100 rounded-lg p-4 border-2 border-red-300 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">🚫 Refused Shelter</p>
@@ -1684,10 +949,7 @@ export default function CustomReportBuilder({
                 )}
                 {includeHighUtilizerCount && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('highUtilizers')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('highUtilizers')}
                     className="bg-gradient-to-br from-yellow-50 to-yellow-100 rounded-lg p-4 border-2 border-yellow-300 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">⚠️ High Utilizers</p>
@@ -1697,10 +959,7 @@ export default function CustomReportBuilder({
                 )}
                 {generatedReport.metrics.programExits > 0 && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('programExits')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('programExits')}
                     className="bg-gradient-to-br from-orange-50 to-orange-100 rounded-lg p-4 border border-orange-200 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">Program Exits</p>
@@ -1710,10 +969,7 @@ export default function CustomReportBuilder({
                 )}
                 {includeReturnedToActive && (
                   <div
-                    onClick={() => {
-                      setDetailModalType('returnedToActive')
-                      setShowDetailModal(true)
-                    }}
+                    onClick={() => openDetailModal('returnedToActive')}
                     className="bg-gradient-to-br from-emerald-50 to-emerald-100 rounded-lg p-4 border-2 border-emerald-300 cursor-pointer hover:shadow-lg transition-shadow"
                   >
                     <p className="text-sm text-gray-600 font-medium">↩️ Returned to Active</p>
@@ -1725,6 +981,54 @@ export default function CustomReportBuilder({
             </div>
           )}
 
+          {/* Services Provided */}
+          {includeServicesProvided && (generatedReport.breakdowns.servicesProvided || []).length > 0 && (
+            <div className="mb-8">
+              <h5 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <svg className="w-5 h-5 mr-2 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+                Services Provided
+              </h5>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {generatedReport.breakdowns.servicesProvided.map((total) => (
+                  <div key={total.key} className="flex justify-between items-center bg-teal-50 px-4 py-3 rounded-lg border border-teal-200">
+                    <span className="text-gray-700 font-medium">
+                      {total.name}
+                      {total.unit && (
+                        <span className="text-sm text-gray-500 ml-2">({total.quantity} {total.unit})</span>
+                      )}
+                    </span>
+                    <span className="text-xl font-bold text-teal-600">{total.encounters}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Interactions by Site */}
+          {includeSiteBreakdown && (generatedReport.breakdowns.sites || []).length > 0 && (
+            <div className="mb-8">
+              <h5 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <svg className="w-5 h-5 mr-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+                Interactions by Site
+              </h5>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {generatedReport.breakdowns.sites.map((total) => (
+                  <div key={total.site_id} className="flex justify-between items-center bg-indigo-50 px-4 py-3 rounded-lg border border-indigo-200">
+                    <span className="text-gray-700 font-medium">
+                      {total.name}
+                      <span className="text-sm text-gray-500 ml-2">({total.clients} clients)</span>
+                    </span>
+                    <span className="text-xl font-bold text-indigo-600">{total.interactions}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Referral Breakdown */}
           {includeReferralBreakdown && (Object.keys(generatedReport.breakdowns.matByProvider).length > 0 || Object.keys(generatedReport.breakdowns.detoxByProvider).length > 0) && (
             <div className="mb-8">
@@ -1769,6 +1073,190 @@ export default function CustomReportBuilder({
             </div>
           )}
 
+          {/* Referral Outcomes */}
+          {includeReferralOutcomes && (generatedReport.breakdowns.referralOutcomes || []).some(summary => summary.total > 0) && (
+            <div className="mb-8">
+              <h5 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <svg className="w-5 h-5 mr-2 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                </svg>
+                Referral Outcomes
+              </h5>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {generatedReport.breakdowns.referralOutcomes.filter(summary => summary.total > 0).map(summary => (
+                  <div key={summary.referral_type} className="bg-purple-50 rounded-lg p-4 border border-purple-200">
+                    <div className="flex justify-between items-baseline mb-3">
+                      <h6 className="text-md font-medium text-purple-700">
+                        {REFERRAL_TYPE_LABELS[summary.referral_type]} Referrals ({summary.total})
+                      </h6>
+                      <span className="text-2xl font-bold text-purple-600">{summary.attendedRate}%</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Attended · {summary.acceptedRate}% accepted or attended
+                    </p>
+                    <div className="space-y-1">
+                      {REFERRAL_STATUSES.map(status => (
+                        <div key={status} className="flex justify-between text-sm">
+                          <span className="text-gray-700">{REFERRAL_STATUS_LABELS[status]}</span>
+                          <span className="font-semibold text-gray-900">{summary.byStatus[status]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Housing Pipeline - runs saved before pipelines were tracked have none */}
+          {includeHousingPipeline && generatedReport.breakdowns.housingPipeline && (
+            <div className="mb-8">
+              <h5 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <svg className="w-5 h-5 mr-2 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+                </svg>
+                Housing Pipeline
+              </h5>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="bg-teal-50 rounded-lg p-4 border border-teal-200">
+                  <p className="text-sm text-gray-600 font-medium">Pipelines Started</p>
+                  <p className="text-2xl font-bold text-teal-600 mt-1">{generatedReport.breakdowns.housingPipeline.started}</p>
+                </div>
+                <div className="bg-teal-50 rounded-lg p-4 border border-teal-200">
+                  <p className="text-sm text-gray-600 font-medium">Moved In</p>
+                  <p className="text-2xl font-bold text-teal-600 mt-1">{generatedReport.breakdowns.housingPipeline.movedIn}</p>
+                </div>
+                <div className="bg-teal-50 rounded-lg p-4 border border-teal-200">
+                  <p className="text-sm text-gray-600 font-medium">Avg Days to Housing</p>
+                  <p className="text-2xl font-bold text-teal-600 mt-1">{generatedReport.breakdowns.housingPipeline.averageDaysToHousing ?? '—'}</p>
+                </div>
+                <div className="bg-teal-50 rounded-lg p-4 border border-teal-200">
+                  <p className="text-sm text-gray-600 font-medium">Median Days to Housing</p>
+                  <p className="text-2xl font-bold text-teal-600 mt-1">{generatedReport.breakdowns.housingPipeline.medianDaysToHousing ?? '—'}</p>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h6 className="text-md font-medium text-gray-700 mb-3">Average Days to Reach Each Stage</h6>
+                  <div className="space-y-1">
+                    {generatedReport.breakdowns.housingPipeline.stageDurations.map(duration => (
+                      <div key={duration.stage} className="flex justify-between text-sm">
+                        <span className="text-gray-700">
+                          {HOUSING_STAGE_LABELS[duration.stage]}
+                          <span className="text-gray-500 ml-1">({duration.count})</span>
+                        </span>
+                        <span className="font-semibold text-gray-900">{duration.averageDays ?? '—'}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h6 className="text-md font-medium text-gray-700 mb-3">Open Pipelines by Current Stage</h6>
+                  {generatedReport.breakdowns.housingPipeline.openByStage.length === 0 ? (
+                    <p className="text-sm text-gray-500">No open pipelines</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {generatedReport.breakdowns.housingPipeline.openByStage.map(open => (
+                        <div key={open.stage} className="flex justify-between text-sm">
+                          <span className="text-gray-700">
+                            {open.stage === 'started' ? 'Not yet document-ready' : HOUSING_STAGE_LABELS[open.stage]}
+                          </span>
+                          <span className="font-semibold text-gray-900">{open.count}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Income Change - runs saved before income was tracked over time have none */}
+          {includeIncomeChange && generatedReport.breakdowns.incomeChange && (
+            <div className="mb-8">
+              <h5 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <svg className="w-5 h-5 mr-2 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Income Change (Entry to Exit)
+              </h5>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="bg-emerald-50 rounded-lg p-4 border border-emerald-200">
+                  <p className="text-sm text-gray-600 font-medium">Leavers</p>
+                  <p className="text-2xl font-bold text-emerald-600 mt-1">{generatedReport.breakdowns.incomeChange.leavers}</p>
+                </div>
+                <div className="bg-emerald-50 rounded-lg p-4 border border-emerald-200">
+                  <p className="text-sm text-gray-600 font-medium">With Income at Entry</p>
+                  <p className="text-2xl font-bold text-emerald-600 mt-1">{generatedReport.breakdowns.incomeChange.withIncomeAtEntry}</p>
+                  <p className="text-xs text-gray-500 mt-1">Avg ${generatedReport.breakdowns.incomeChange.averageIncomeAtEntry ?? 0}/month</p>
+                </div>
+                <div className="bg-emerald-50 rounded-lg p-4 border border-emerald-200">
+                  <p className="text-sm text-gray-600 font-medium">With Income at Exit</p>
+                  <p className="text-2xl font-bold text-emerald-600 mt-1">{generatedReport.breakdowns.incomeChange.withIncomeAtExit}</p>
+                  <p className="text-xs text-gray-500 mt-1">Avg ${generatedReport.breakdowns.incomeChange.averageIncomeAtExit ?? 0}/month</p>
+                </div>
+                <div className="bg-emerald-50 rounded-lg p-4 border border-emerald-200">
+                  <p className="text-sm text-gray-600 font-medium">Increased Total Income</p>
+                  <p className="text-2xl font-bold text-emerald-600 mt-1">{generatedReport.breakdowns.incomeChange.increasedTotal}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {generatedReport.breakdowns.incomeChange.maintained} maintained, {generatedReport.breakdowns.incomeChange.decreased} decreased
+                  </p>
+                </div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 max-w-md">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700">Increased earned income (employment)</span>
+                  <span className="font-semibold text-gray-900">{generatedReport.breakdowns.incomeChange.increasedEarned}</span>
+                </div>
+                <div className="flex justify-between text-sm mt-1">
+                  <span className="text-gray-700">Increased other income</span>
+                  <span className="font-semibold text-gray-900">{generatedReport.breakdowns.incomeChange.increasedOther}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Case Plan Goals - runs saved before case plans were tracked have none */}
+          {includeCaseGoals && generatedReport.breakdowns.caseGoals && (
+            <div className="mb-8">
+              <h5 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <svg className="w-5 h-5 mr-2 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                Case Plan Goals
+              </h5>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="bg-sky-50 rounded-lg p-4 border border-sky-200">
+                  <p className="text-sm text-gray-600 font-medium">Goals Set</p>
+                  <p className="text-2xl font-bold text-sky-600 mt-1">{generatedReport.breakdowns.caseGoals.set}</p>
+                </div>
+                <div className="bg-sky-50 rounded-lg p-4 border border-sky-200">
+                  <p className="text-sm text-gray-600 font-medium">Goals Achieved</p>
+                  <p className="text-2xl font-bold text-sky-600 mt-1">{generatedReport.breakdowns.caseGoals.achieved}</p>
+                  <p className="text-xs text-gray-500 mt-1">{generatedReport.breakdowns.caseGoals.abandoned} abandoned</p>
+                </div>
+                <div className="bg-sky-50 rounded-lg p-4 border border-sky-200">
+                  <p className="text-sm text-gray-600 font-medium">Avg. Days to Achieve</p>
+                  <p className="text-2xl font-bold text-sky-600 mt-1">{generatedReport.breakdowns.caseGoals.averageDaysToAchieve ?? '—'}</p>
+                </div>
+                <div className="bg-sky-50 rounded-lg p-4 border border-sky-200">
+                  <p className="text-sm text-gray-600 font-medium">Active Goals</p>
+                  <p className="text-2xl font-bold text-sky-600 mt-1">{generatedReport.breakdowns.caseGoals.active}</p>
+                </div>
+              </div>
+              {generatedReport.breakdowns.caseGoals.byType.length > 0 && (
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 max-w-md">
+                  {generatedReport.breakdowns.caseGoals.byType.map(row => (
+                    <div key={row.goal_type} className="flex justify-between text-sm mt-1 first:mt-0">
+                      <span className="text-gray-700">{CASE_GOAL_TYPE_LABELS[row.goal_type]}</span>
+                      <span className="font-semibold text-gray-900">{row.achieved} of {row.set} achieved</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* By-Name List */}
           {includeByNameList && generatedReport.activePersons.length > 0 && (
             <div className="mb-8">
@@ -1813,17 +1301,7 @@ export default function CustomReportBuilder({
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {generatedReport.activePersons.map((person: Person, idx: number) => {
-                      const calculateAge = (dob: string): number => {
-                        const birthDate = new Date(dob)
-                        const today = new Date()
-                        let age = today.getFullYear() - birthDate.getFullYear()
-                        const monthDiff = today.getMonth() - birthDate.getMonth()
-                        if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-                          age--
-                        }
-                        return age
-                      }
+                    {generatedReport.activePersons.map((person: ReportPerson, idx: number) => {
                       return (
                         <tr key={idx} className="hover:bg-gray-50">
                           <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{person.client_id}</td>
@@ -1873,7 +1351,7 @@ export default function CustomReportBuilder({
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {generatedReport.filteredEncounters.map((encounter: Encounter, idx: number) => (
+                    {generatedReport.filteredEncounters.map((encounter: ReportEncounter, idx: number) => (
                       <tr key={idx} className="hover:bg-gray-50">
                         <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{encounter.service_date}</td>
                         <td className="px-4 py-3 text-sm text-gray-700">{encounter.outreach_location}</td>
@@ -1889,11 +1367,11 @@ export default function CustomReportBuilder({
                           </span>
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap text-sm">
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${encounter.naloxone_distributed ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'}`}>
-                            {encounter.naloxone_distributed ? 'Yes' : 'No'}
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${hasService(encounter, NALOXONE_SERVICE) ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'}`}>
+                            {hasService(encounter, NALOXONE_SERVICE) ? 'Yes' : 'No'}
                           </span>
                         </td>
-                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 font-medium">{encounter.fentanyl_test_strips_count || 0}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 font-medium">{serviceQuantity(encounter, FENTANYL_STRIPS_SERVICE)}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -1918,13 +1396,7 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-blue-700 mb-3">By Race</h6>
                     <div className="space-y-2">
-                      {Object.entries(
-                        generatedReport.filteredPersons.reduce((acc, p) => {
-                          const race = p.race || 'Unknown'
-                          acc[race] = (acc[race] || 0) + 1
-                          return acc
-                        }, {} as Record<string, number>)
-                      )
+                      {Object.entries(generatedReport.breakdowns.demographics.race || {})
                         .sort(([, a], [, b]) => b - a)
                         .map(([race, count]) => (
                           <div key={race} className="flex justify-between items-center bg-blue-50 px-4 py-3 rounded-lg border border-blue-200">
@@ -1941,13 +1413,7 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-indigo-700 mb-3">By Ethnicity</h6>
                     <div className="space-y-2">
-                      {Object.entries(
-                        generatedReport.filteredPersons.reduce((acc, p) => {
-                          const ethnicity = p.ethnicity || 'Unknown'
-                          acc[ethnicity] = (acc[ethnicity] || 0) + 1
-                          return acc
-                        }, {} as Record<string, number>)
-                      )
+                      {Object.entries(generatedReport.breakdowns.demographics.ethnicity || {})
                         .sort(([, a], [, b]) => b - a)
                         .map(([ethnicity, count]) => (
                           <div key={ethnicity} className="flex justify-between items-center bg-indigo-50 px-4 py-3 rounded-lg border border-indigo-200">
@@ -1964,13 +1430,7 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-pink-700 mb-3">By Gender</h6>
                     <div className="space-y-2">
-                      {Object.entries(
-                        generatedReport.filteredPersons.reduce((acc, p) => {
-                          const gender = p.gender || 'Unknown'
-                          acc[gender] = (acc[gender] || 0) + 1
-                          return acc
-                        }, {} as Record<string, number>)
-                      )
+                      {Object.entries(generatedReport.breakdowns.demographics.gender || {})
                         .sort(([, a], [, b]) => b - a)
                         .map(([gender, count]) => (
                           <div key={gender} className="flex justify-between items-center bg-pink-50 px-4 py-3 rounded-lg border border-pink-200">
@@ -1987,13 +1447,7 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-violet-700 mb-3">By Sexual Orientation</h6>
                     <div className="space-y-2">
-                      {Object.entries(
-                        generatedReport.filteredPersons.reduce((acc, p) => {
-                          const orientation = p.sexual_orientation || 'Not specified'
-                          acc[orientation] = (acc[orientation] || 0) + 1
-                          return acc
-                        }, {} as Record<string, number>)
-                      )
+                      {Object.entries(generatedReport.breakdowns.demographics.sexualOrientation || {})
                         .sort(([, a], [, b]) => b - a)
                         .map(([orientation, count]) => (
                           <div key={orientation} className="flex justify-between items-center bg-violet-50 px-4 py-3 rounded-lg border border-violet-200">
@@ -2010,44 +1464,12 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-orange-700 mb-3">By Age Range</h6>
                     <div className="space-y-2">
-                      {(() => {
-                        const calculateAge = (dob: string): number => {
-                          const birthDate = new Date(dob)
-                          const today = new Date()
-                          let age = today.getFullYear() - birthDate.getFullYear()
-                          const monthDiff = today.getMonth() - birthDate.getMonth()
-                          if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-                            age--
-                          }
-                          return age
-                        }
-
-                        const ageBreakdown: Record<string, number> = {
-                          '18-24': 0,
-                          '25-34': 0,
-                          '35-44': 0,
-                          '45-54': 0,
-                          '55-64': 0,
-                          '65+': 0,
-                        }
-
-                        generatedReport.filteredPersons.forEach(p => {
-                          const age = calculateAge(p.date_of_birth)
-                          if (age >= 18 && age <= 24) ageBreakdown['18-24']++
-                          else if (age >= 25 && age <= 34) ageBreakdown['25-34']++
-                          else if (age >= 35 && age <= 44) ageBreakdown['35-44']++
-                          else if (age >= 45 && age <= 54) ageBreakdown['45-54']++
-                          else if (age >= 55 && age <= 64) ageBreakdown['55-64']++
-                          else if (age >= 65) ageBreakdown['65+']++
-                        })
-
-                        return Object.entries(ageBreakdown).map(([range, count]) => (
-                          <div key={range} className="flex justify-between items-center bg-orange-50 px-4 py-3 rounded-lg border border-orange-200">
-                            <span className="text-gray-700 font-medium">{range}</span>
-                            <span className="text-xl font-bold text-orange-600">{count}</span>
-                          </div>
-                        ))
-                      })()}
+                      {Object.entries(generatedReport.breakdowns.demographics.ageRange || {}).map(([range, count]) => (
+                        <div key={range} className="flex justify-between items-center bg-orange-50 px-4 py-3 rounded-lg border border-orange-200">
+                          <span className="text-gray-700 font-medium">{range}</span>
+                          <span className="text-xl font-bold text-orange-600">{count}</span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 )}
@@ -2057,10 +1479,7 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-blue-700 mb-3">By Veteran Status</h6>
                     <div className="space-y-2">
-                      {Object.entries({
-                        'Veteran': generatedReport.filteredPersons.filter(p => p.veteran_status).length,
-                        'Non-Veteran': generatedReport.filteredPersons.filter(p => !p.veteran_status).length,
-                      }).map(([status, count]) => (
+                      {Object.entries(generatedReport.breakdowns.demographics.veteranStatus || {}).map(([status, count]) => (
                         <div key={status} className="flex justify-between items-center bg-blue-50 px-4 py-3 rounded-lg border border-blue-200">
                           <span className="text-gray-700 font-medium">{status}</span>
                           <span className="text-xl font-bold text-blue-600">{count}</span>
@@ -2075,10 +1494,7 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-amber-700 mb-3">By Disability Status</h6>
                     <div className="space-y-2">
-                      {Object.entries({
-                        'Has Disability': generatedReport.filteredPersons.filter(p => p.disability_status).length,
-                        'No Disability': generatedReport.filteredPersons.filter(p => !p.disability_status).length,
-                      }).map(([status, count]) => (
+                      {Object.entries(generatedReport.breakdowns.demographics.disabilityStatus || {}).map(([status, count]) => (
                         <div key={status} className="flex justify-between items-center bg-amber-50 px-4 py-3 rounded-lg border border-amber-200">
                           <span className="text-gray-700 font-medium">{status}</span>
                           <span className="text-xl font-bold text-amber-600">{count}</span>
@@ -2093,13 +1509,7 @@ export default function CustomReportBuilder({
                   <div>
                     <h6 className="text-md font-medium text-teal-700 mb-3">By Living Situation</h6>
                     <div className="space-y-2">
-                      {Object.entries(
-                        generatedReport.filteredPersons.reduce((acc, p) => {
-                          const situation = p.living_situation || 'Unknown'
-                          acc[situation] = (acc[situation] || 0) + 1
-                          return acc
-                        }, {} as Record<string, number>)
-                      )
+                      {Object.entries(generatedReport.breakdowns.demographics.livingSituation || {})
                         .sort(([, a], [, b]) => b - a)
                         .map(([situation, count]) => (
                           <div key={situation} className="flex justify-between items-center bg-teal-50 px-4 py-3 rounded-lg border border-teal-200">
@@ -2119,6 +1529,15 @@ export default function CustomReportBuilder({
         </div>
       )}
 
+      {/* PDF Cover Settings Modal */}
+      {showPdfModal && reportOptions && (
+        <ReportPdfModal
+          options={reportOptions}
+          runId={reportRunId}
+          onClose={() => setShowPdfModal(false)}
+        />
+      )}
+
       {/* Detail Modal */}
       {showDetailModal && generatedReport && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-[60] flex items-center justify-center p-4">
@@ -2149,8 +1568,14 @@ export default function CustomReportBuilder({
             </div>
 
             <div className="p-6">
+              {isLoadingDetails && (
+                <div className="text-center py-8 text-gray-500">
+                  <p>Loading details...</p>
+                </div>
+              )}
+
               {/* Clients Served Details */}
-              {detailModalType === 'clientsServed' && (
+              {detailModalType === 'clientsServed' && !isLoadingDetails && (
                 <div className="space-y-4">
                   <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg p-4 border-2 border-blue-200 mb-6">
                     <p className="text-sm text-gray-600 font-medium">Total Clients Served</p>
@@ -2158,11 +1583,11 @@ export default function CustomReportBuilder({
                     <p className="text-xs text-gray-500 mt-2">Unduplicated individuals in this date range</p>
                   </div>
 
-                  {generatedReport.filteredPersons.length > 0 ? (
+                  {detailPersons.length > 0 ? (
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                       <h5 className="font-semibold text-blue-700 text-lg mb-3">Client List</h5>
                       <div className="space-y-2 max-h-96 overflow-y-auto">
-                        {generatedReport.filteredPersons.map((person) => (
+                        {detailPersons.map((person) => (
                           <div key={person.id} className="bg-white rounded-lg p-3 border border-blue-100 shadow-sm flex justify-between items-center">
                             <div>
                               <p className="font-semibold text-gray-900">{person.first_name} {person.last_name}</p>
@@ -2185,7 +1610,7 @@ export default function CustomReportBuilder({
               )}
 
               {/* Service Interactions Details */}
-              {detailModalType === 'serviceInteractions' && (
+              {detailModalType === 'serviceInteractions' && !isLoadingDetails && (
                 <div className="space-y-4">
                   <div className="bg-gradient-to-br from-green-50 to-green-100 rounded-lg p-4 border-2 border-green-200 mb-6">
                     <p className="text-sm text-gray-600 font-medium">Total Service Interactions</p>
@@ -2193,12 +1618,12 @@ export default function CustomReportBuilder({
                     <p className="text-xs text-gray-500 mt-2">Click any encounter to view full details</p>
                   </div>
 
-                  {generatedReport.filteredEncounters.length > 0 ? (
+                  {detailEncounters.length > 0 ? (
                     <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                       <h5 className="font-semibold text-green-700 text-lg mb-3">Encounter List</h5>
                       <div className="space-y-2 max-h-96 overflow-y-auto">
-                        {generatedReport.filteredEncounters.map((encounter, index) => {
-                          const person = persons.find(p => p.id === encounter.person_id)
+                        {detailEncounters.map((encounter, index) => {
+                          const person = getDetailPerson(encounter.person_id)
                           return (
                             <div
                               key={index}
@@ -2219,11 +1644,11 @@ export default function CustomReportBuilder({
                                 </div>
                               </div>
                               <div className="flex gap-2 mt-2 flex-wrap">
-                                {encounter.naloxone_distributed && <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded">Naloxone</span>}
+                                {hasService(encounter, NALOXONE_SERVICE) && <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded">Naloxone</span>}
                                 {encounter.mat_referral && <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded">MAT</span>}
                                 {encounter.detox_referral && <span className="text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded">Detox</span>}
-                                {encounter.fentanyl_test_strips_count && encounter.fentanyl_test_strips_count > 0 && <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded">{encounter.fentanyl_test_strips_count} strips</span>}
-                                {encounter.transportation_provided && <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">Transport</span>}
+                                {serviceQuantity(encounter, FENTANYL_STRIPS_SERVICE) > 0 && <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded">{serviceQuantity(encounter, FENTANYL_STRIPS_SERVICE)} strips</span>}
+                                {hasService(encounter, 'transportation') && <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">Transport</span>}
                                 {encounter.co_occurring_mh_sud && <span className="text-xs bg-pink-100 text-pink-700 px-2 py-0.5 rounded">Co-occurring</span>}
                                 {encounter.placement_made && <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">Placement</span>}
                               </div>
@@ -2242,7 +1667,7 @@ export default function CustomReportBuilder({
               )}
 
               {/* Naloxone Details */}
-              {detailModalType === 'naloxone' && (
+              {detailModalType === 'naloxone' && !isLoadingDetails && (
                 <div className="space-y-4">
                   <div className="bg-gradient-to-br from-red-50 to-red-100 rounded-lg p-4 border-2 border-red-200 mb-6">
                     <p className="text-sm text-gray-600 font-medium">Total Naloxone Distributed</p>
@@ -2251,13 +1676,13 @@ export default function CustomReportBuilder({
                   </div>
 
                   {(() => {
-                    const naloxoneEncounters = generatedReport.filteredEncounters.filter(e => e.naloxone_distributed)
+                    const naloxoneEncounters = detailEncounters.filter(e => hasService(e, NALOXONE_SERVICE))
                     return naloxoneEncounters.length > 0 ? (
                       <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                         <h5 className="font-semibold text-red-700 text-lg mb-3">Distribution Details</h5>
                         <div className="space-y-2 max-h-96 overflow-y-auto">
                           {naloxoneEncounters.map((encounter, index) => {
-                            const person = persons.find(p => p.id === encounter.person_id)
+                            const person = getDetailPerson(encounter.person_id)
                             return (
                               <div key={index} className="bg-white rounded-lg p-3 border border-red-100 shadow-sm flex justify-between items-center">
                                 <div>
@@ -2282,7 +1707,7 @@ export default function CustomReportBuilder({
               )}
 
               {/* Fentanyl Strips Details */}
-              {detailModalType === 'fentanylStrips' && (
+              {detailModalType === 'fentanylStrips' && !isLoadingDetails && (
                 <div className="space-y-4">
                   <div className="bg-gradient-to-br from-yellow-50 to-yellow-100 rounded-lg p-4 border-2 border-yellow-200 mb-6">
                     <p className="text-sm text-gray-600 font-medium">Total Fentanyl Test Strips</p>
@@ -2291,13 +1716,13 @@ export default function CustomReportBuilder({
                   </div>
 
                   {(() => {
-                    const stripEncounters = generatedReport.filteredEncounters.filter(e => e.fentanyl_test_strips_count && e.fentanyl_test_strips_count > 0)
+                    const stripEncounters = detailEncounters.filter(e => serviceQuantity(e, FENTANYL_STRIPS_SERVICE) > 0)
                     return stripEncounters.length > 0 ? (
                       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                         <h5 className="font-semibold text-yellow-700 text-lg mb-3">Distribution Details</h5>
                         <div className="space-y-2 max-h-96 overflow-y-auto">
                           {stripEncounters.map((encounter, index) => {
-                            const person = persons.find(p => p.id === encounter.person_id)
+                            const person = getDetailPerson(encounter.person_id)
                             return (
                               <div key={index} className="bg-white rounded-lg p-3 border border-yellow-100 shadow-sm flex justify-between items-center">
                                 <div>
@@ -2305,7 +1730,7 @@ export default function CustomReportBuilder({
                                   <p className="text-sm text-gray-500">{encounter.outreach_location}</p>
                                 </div>
                                 <div className="text-right">
-                                  <p className="text-2xl font-bold text-yellow-600">{encounter.fentanyl_test_strips_count}</p>
+                                  <p className="text-2xl font-bold text-yellow-600">{serviceQuantity(encounter, FENTANYL_STRIPS_SERVICE)}</p>
                                   <p className="text-xs text-gray-500">{new Date(encounter.service_date).toLocaleDateString()}</p>
                                 </div>
                               </div>
@@ -2504,7 +1929,7 @@ export default function CustomReportBuilder({
                 </div>
               )}
 
-              {detailModalType === 'refusedShelter' && (
+              {detailModalType === 'refusedShelter' && !isLoadingDetails && (
                 <div className="space-y-4">
                   <div className="bg-gradient-to-br from-red-50 to-red-100 rounded-lg p-4 border-2 border-red-200 mb-6">
                     <p className="text-sm text-gray-600 font-medium">Total Refused Shelter</p>
@@ -2512,14 +1937,14 @@ export default function CustomReportBuilder({
                     <p className="text-xs text-gray-500 mt-2">Clients who declined shelter placement in this date range</p>
                   </div>
 
-                  {generatedReport.filteredEncounters.filter(e => e.refused_shelter).length > 0 ? (
+                  {detailEncounters.filter(e => e.refused_shelter).length > 0 ? (
                     <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                       <h5 className="font-semibold text-red-700 text-lg mb-3">Refused Shelter Encounters</h5>
                       <div className="space-y-3">
-                        {generatedReport.filteredEncounters
+                        {detailEncounters
                           .filter(e => e.refused_shelter)
                           .map((encounter, index) => {
-                            const person = generatedReport.filteredPersons.find(p => p.id === encounter.person_id)
+                            const person = getDetailPerson(encounter.person_id)
                             return (
                               <div key={index} className="bg-white rounded-lg p-3 border border-red-100 shadow-sm">
                                 <div className="flex justify-between items-center">
@@ -2615,7 +2040,7 @@ export default function CustomReportBuilder({
             <div className="p-6 space-y-6">
               {/* Client Info */}
               {(() => {
-                const person = persons.find(p => p.id === selectedEncounter.person_id)
+                const person = getDetailPerson(selectedEncounter.person_id)
                 return person && (
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <h5 className="font-semibold text-blue-700 mb-2">Client Information</h5>
@@ -2637,29 +2062,27 @@ export default function CustomReportBuilder({
                 </div>
               </div>
 
-              {/* Harm Reduction Services */}
+              {/* Services Provided */}
               <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                <h5 className="font-semibold text-red-700 mb-3">Harm Reduction</h5>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-700">Naloxone Distributed</span>
-                    <span className={`font-bold ${selectedEncounter.naloxone_distributed ? 'text-green-600' : 'text-gray-400'}`}>
-                      {selectedEncounter.naloxone_distributed ? '✓ Yes' : '✗ No'}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-700">Fentanyl Test Strips</span>
-                    <span className={`font-bold ${selectedEncounter.fentanyl_test_strips_count ? 'text-yellow-600' : 'text-gray-400'}`}>
-                      {selectedEncounter.fentanyl_test_strips_count || 0}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-700">Harm Reduction Education</span>
-                    <span className={`font-bold ${selectedEncounter.harm_reduction_education ? 'text-green-600' : 'text-gray-400'}`}>
-                      {selectedEncounter.harm_reduction_education ? '✓ Yes' : '✗ No'}
-                    </span>
+                <h5 className="font-semibold text-red-700 mb-3">Services Provided</h5>
+                {(selectedEncounter.encounter_services || []).length > 0 ? (
+                  <div className="space-y-3">
+                    {groupServicesByCategory(selectedEncounter.encounter_services).map(([category, services]) => (
+                      <div key={category}>
+                        <p className="text-sm text-gray-500">{category}</p>
+                        <ul className="mt-1 space-y-1">
+                          {services.map((service) => (
+                            <li key={service.service_id} className="font-semibold text-gray-900">
+                              ✓ {formatEncounterService(service)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
                   </div>
-                </div>
+                ) : (
+                  <p className="text-gray-400">No services recorded</p>
+                )}
               </div>
 
               {/* Referrals */}
@@ -2715,29 +2138,12 @@ export default function CustomReportBuilder({
               )}
 
               {/* Other Services */}
-              <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
-                <h5 className="font-semibold text-indigo-700 mb-3">Other Services</h5>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-700">Transportation</span>
-                    <span className={`font-bold ${selectedEncounter.transportation_provided ? 'text-green-600' : 'text-gray-400'}`}>
-                      {selectedEncounter.transportation_provided ? '✓ Yes' : '✗ No'}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-700">Shower Trailer</span>
-                    <span className={`font-bold ${selectedEncounter.shower_trailer ? 'text-green-600' : 'text-gray-400'}`}>
-                      {selectedEncounter.shower_trailer ? '✓ Yes' : '✗ No'}
-                    </span>
-                  </div>
+              {selectedEncounter.other_services && (
+                <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
+                  <h5 className="font-semibold text-indigo-700 mb-2">Other Services Provided</h5>
+                  <p className="text-gray-700">{selectedEncounter.other_services}</p>
                 </div>
-                {selectedEncounter.other_services && (
-                  <div className="mt-3 bg-white rounded p-2">
-                    <p className="text-sm text-gray-500">Other Services Provided</p>
-                    <p className="text-gray-700">{selectedEncounter.other_services}</p>
-                  </div>
-                )}
-              </div>
+              )}
 
               {/* Case Management Notes */}
               {selectedEncounter.case_management_notes && (
@@ -0,0 +1,274 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  documentUploadSchema,
+  type DocumentType,
+} from '@/lib/schemas/document-schema'
+import {
+  buildDocumentChecklist,
+  deleteDocument,
+  fetchPersonDocuments,
+  getDocumentUrl,
+  isDocumentExpired,
+  uploadDocument,
+  type ClientDocument,
+} from '@/lib/utils/documents'
+
+const CHECKLIST_STYLES = {
+  on_file: 'bg-green-50 border-green-200 text-green-800',
+  expired: 'bg-orange-50 border-orange-200 text-orange-800',
+  missing: 'bg-red-50 border-red-200 text-red-800',
+}
+
+const CHECKLIST_LABELS = {
+  on_file: 'On file',
+  expired: 'Expired',
+  missing: 'Missing',
+}
+
+interface DocumentVaultProps {
+  personId: string
+  veteran: boolean
+  initialDocuments: ClientDocument[]
+}
+
+export default function DocumentVault({ personId, veteran, initialDocuments }: DocumentVaultProps) {
+  const [documents, setDocuments] = useState(initialDocuments)
+  const [showUpload, setShowUpload] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [documentType, setDocumentType] = useState<DocumentType>('photo_id')
+  const [expiresOn, setExpiresOn] = useState('')
+  const [notes, setNotes] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+
+  const checklist = buildDocumentChecklist(documents, veteran)
+  const missingCount = checklist.filter((item) => item.status !== 'on_file').length
+
+  const reload = async () => {
+    setDocuments(await fetchPersonDocuments(createClient(), personId))
+  }
+
+  const resetUpload = () => {
+    setShowUpload(false)
+    setExpiresOn('')
+    setNotes('')
+    setFile(null)
+  }
+
+  const startUpload = (type: DocumentType) => {
+    setDocumentType(type)
+    setShowUpload(true)
+  }
+
+  const handleUpload = async () => {
+    if (!file) {
+      alert('Choose a file or take a photo first')
+      return
+    }
+
+    const result = documentUploadSchema.safeParse({
+      document_type: documentType,
+      expires_on: expiresOn || null,
+      notes: notes.trim() || null,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid document details')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await uploadDocument(personId, file, result.data)
+      resetUpload()
+      await reload()
+    } catch (error) {
+      console.error('Error uploading document:', error)
+      alert(`Error uploading document: ${error instanceof Error ? error.message : 'Please try again.'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleView = async (document: ClientDocument) => {
+    // Open the tab before the await so popup blockers allow it
+    const tab = window.open('', '_blank')
+    try {
+      const url = await getDocumentUrl(document)
+      if (tab) {
+        tab.location.href = url
+      } else {
+        window.location.href = url
+      }
+    } catch (error) {
+      tab?.close()
+      console.error('Error opening document:', error)
+      alert('Error opening document. Please try again.')
+    }
+  }
+
+  const handleDelete = async (document: ClientDocument) => {
+    if (!confirm(`Delete ${DOCUMENT_TYPE_LABELS[document.document_type]} (${document.file_name})? This cannot be undone.`)) return
+
+    setBusy(true)
+    try {
+      await deleteDocument(document)
+      await reload()
+    } catch (error) {
+      console.error('Error deleting document:', error)
+      alert('Error deleting document. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-semibold">Documents</h3>
+          <p className="text-sm text-gray-600">
+            {missingCount === 0 ? 'Document-ready' : `${missingCount} document${missingCount === 1 ? '' : 's'} missing or expired`}
+          </p>
+        </div>
+        <button
+          onClick={() => (showUpload ? resetUpload() : setShowUpload(true))}
+          disabled={busy}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {showUpload ? 'Cancel' : '+ Add Document'}
+        </button>
+      </div>
+
+      {/* Documents missing checklist */}
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+        {checklist.map((item) => (
+          <li
+            key={item.document_type}
+            className={`flex items-center justify-between gap-2 rounded border px-3 py-2 text-sm ${CHECKLIST_STYLES[item.status]}`}
+          >
+            <span className="font-medium">{DOCUMENT_TYPE_LABELS[item.document_type]}</span>
+            {item.status === 'on_file' ? (
+              <span>{CHECKLIST_LABELS[item.status]}</span>
+            ) : (
+              <button
+                onClick={() => startUpload(item.document_type)}
+                disabled={busy}
+                className="underline disabled:opacity-50"
+              >
+                {CHECKLIST_LABELS[item.status]} - upload
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {showUpload && (
+        <div className="border-t border-gray-200 pt-4 mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Document Type</label>
+              <select
+                value={documentType}
+                onChange={(e) => setDocumentType(e.target.value as DocumentType)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {DOCUMENT_TYPES.map((type) => (
+                  <option key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires On (if printed)</label>
+              <input
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional), e.g. original kept at the office"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center cursor-pointer">
+              Take Photo
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="hidden"
+              />
+            </label>
+            <label className="flex-1 px-4 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors flex items-center justify-center cursor-pointer">
+              Choose File
+              <input
+                type="file"
+                accept="image/*,application/pdf"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="hidden"
+              />
+            </label>
+          </div>
+          {file && <p className="text-sm text-gray-600">Selected: {file.name}</p>}
+          <button
+            onClick={handleUpload}
+            disabled={busy || !file}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Uploading...' : 'Upload Document'}
+          </button>
+        </div>
+      )}
+
+      {documents.length === 0 ? (
+        <p className="text-gray-500">No documents on file</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {documents.map((document) => (
+            <li key={document.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="font-medium text-gray-900">{DOCUMENT_TYPE_LABELS[document.document_type]}</p>
+                <p className="text-sm text-gray-600">
+                  {document.file_name} · Uploaded {format(parseISO(document.created_at), 'MM/dd/yyyy')}
+                  {document.uploaded_by && ` by ${document.uploaded_by}`}
+                </p>
+                {document.expires_on && (
+                  <p className={`text-sm ${isDocumentExpired(document) ? 'text-orange-700 font-medium' : 'text-gray-600'}`}>
+                    {isDocumentExpired(document) ? 'Expired' : 'Expires'} {format(parseISO(document.expires_on), 'MM/dd/yyyy')}
+                  </p>
+                )}
+                {document.notes && <p className="text-sm text-gray-700">{document.notes}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleView(document)}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+                >
+                  View
+                </button>
+                <button
+                  onClick={() => handleDelete(document)}
+                  disabled={busy}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,146 +1,193 @@
 'use client'
 
-import { useState } from 'react'
-import { calculateSimilarity } from '@/lib/utils/duplicate-detection'
+import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { logAuditEvent } from '@/lib/utils/audit'
+import {
+  listDuplicateCandidates,
+  markCandidateMerged,
+  markNotDuplicate,
+  reopenMergedCandidate,
+  type CandidatePerson,
+  type DuplicateCandidate,
+} from '@/lib/utils/duplicate-candidates'
+import {
+  listUndoableMerges,
+  undoPersonMerge,
+  MERGE_UNDO_DAYS,
+  type PersonMerge,
+} from '@/lib/utils/person-merge'
 import { format } from 'date-fns'
+import MergePersonsModal from './MergePersonsModal'
 
-interface Person {
-  id: string  // UUID from database
-  client_id: string
-  first_name: string
-  last_name: string
-  nickname?: string | null
-  date_of_birth: string
-  gender: string
-  race: string
-  ethnicity: string
-  living_situation: string
-  veteran_status: boolean
-  chronic_homeless: boolean
-  enrollment_date: string
-  case_manager?: string | null
+interface MergeTarget {
+  candidate: DuplicateCandidate
+  survivor: CandidatePerson
+  merged: CandidatePerson
 }
 
-interface DuplicateGroup {
-  persons: Person[]
-  similarity_score: number
-  encounter_counts: Record<string, number>  // UUID keys
-}
-
-interface DuplicateManagerProps {
-  persons: Person[]
-}
-
-export default function DuplicateManager({ persons }: DuplicateManagerProps) {
-  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([])
+export default function DuplicateManager() {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
   const [isScanning, setIsScanning] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [encounterCounts, setEncounterCounts] = useState<Record<string, number>>({})
-  const [showResults, setShowResults] = useState(false)
+  const [mergeTarget, setMergeTarget] = useState<MergeTarget | null>(null)
+  const [recentMerges, setRecentMerges] = useState<PersonMerge[]>([])
 
-  const scanForDuplicates = async () => {
-    setIsScanning(true)
-    setShowResults(false)
+  useEffect(() => {
+    loadQueue()
+    loadRecentMerges()
+  }, [])
+
+  const loadQueue = async () => {
+    setIsLoading(true)
     const supabase = createClient()
 
     try {
-      // Get encounter counts for all persons
-      const { data: encounters } = await supabase
-        .from('encounters')
-        .select('person_id')
+      const pending = await listDuplicateCandidates()
 
+      // Get encounter counts for the clients in the queue
+      const personIds = Array.from(new Set(pending.flatMap((c) => [c.person_a_id, c.person_b_id])))
       const counts: Record<string, number> = {}
-      if (encounters) {
-        encounters.forEach((e: { person_id: string }) => {
+      if (personIds.length > 0) {
+        const { data: encounters, error } = await supabase
+          .from('encounters')
+          .select('person_id')
+          .in('person_id', personIds)
+
+        if (error) throw error
+
+        const rows = (encounters || []) as { person_id: string }[]
+        rows.forEach((e) => {
           counts[e.person_id] = (counts[e.person_id] || 0) + 1
         })
       }
+
       setEncounterCounts(counts)
+      setCandidates(pending)
+    } catch (error) {
+      console.error('Error loading duplicate queue:', error)
+      alert('Error loading duplicate queue. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-      // Find potential duplicates using fuzzy matching
-      const groups: DuplicateGroup[] = []
-      const processed = new Set<string>()
-
-      for (let i = 0; i < persons.length; i++) {
-        if (processed.has(persons[i].id)) continue
-
-        const person1 = persons[i]
-        const potentialMatches: Person[] = [person1]
-
-        for (let j = i + 1; j < persons.length; j++) {
-          if (processed.has(persons[j].id)) continue
-
-          const person2 = persons[j]
-
-          // Calculate name similarity
-          const firstNameSim = calculateSimilarity(person1.first_name, person2.first_name)
-          const lastNameSim = calculateSimilarity(person1.last_name, person2.last_name)
-          const avgSimilarity = (firstNameSim + lastNameSim) / 2
-
-          // Check for exact DOB match or high name similarity
-          const isDuplicate =
-            (person1.date_of_birth === person2.date_of_birth && avgSimilarity > 0.6) ||
-            avgSimilarity > 0.85
-
-          if (isDuplicate) {
-            potentialMatches.push(person2)
-            processed.add(persons[j].id)
-          }
-        }
-
-        if (potentialMatches.length > 1) {
-          processed.add(persons[i].id)
-          groups.push({
-            persons: potentialMatches,
-            similarity_score: 0.9, // Placeholder
-            encounter_counts: counts,
-          })
-        }
+  const loadRecentMerges = async () => {
+    try {
+      setRecentMerges(await listUndoableMerges())
+    } catch (error) {
+      console.error('Error loading recent merges:', error)
+    }
+  }
+
+  const runScan = async () => {
+    setIsScanning(true)
+
+    try {
+      const response = await fetch('/api/duplicates/scan', { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to run duplicate scan')
       }
 
-      setDuplicateGroups(groups)
-      setShowResults(true)
+      await loadQueue()
+      alert(`Scanned ${result.scanned} clients: ${result.flagged} possible duplicate pair${result.flagged !== 1 ? 's' : ''} in the queue.`)
     } catch (error) {
       console.error('Error scanning for duplicates:', error)
-      alert('Error scanning for duplicates. Please try again.')
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      alert(`Error scanning for duplicates: ${errorMessage}`)
     } finally {
       setIsScanning(false)
     }
   }
 
-  const mergeDuplicates = async (keepPersonId: string, deletePersonId: string) => {
-    if (!confirm('Are you sure you want to merge these records? This action cannot be undone.')) {
-      return
+  const handleMerged = async (mergeId: string) => {
+    if (!mergeTarget) return
+    const { candidate, survivor, merged } = mergeTarget
+    setMergeTarget(null)
+
+    try {
+      await markCandidateMerged(candidate.id)
+    } catch (error) {
+      console.error('Error updating duplicate queue:', error)
     }
 
+    await logAuditEvent(createClient(), {
+      action: 'merge',
+      entity_type: 'persons',
+      entity_id: survivor.id,
+      person_id: survivor.id,
+      client_id: survivor.client_id,
+      details: {
+        merge_id: mergeId,
+        merged_person_id: merged.id,
+        merged_client_id: merged.client_id,
+        encounters_moved: encounterCounts[merged.id] || 0,
+        duplicate_score: candidate.score,
+      },
+    })
+
+    // Other pairs involving the merged record are cleared by the next scan
+    setCandidates(candidates.filter((c) =>
+      c.person_a_id !== merged.id && c.person_b_id !== merged.id
+    ))
+    alert('Records merged successfully!')
+
+    await loadRecentMerges()
+  }
+
+  const handleNotDuplicate = async (candidate: DuplicateCandidate) => {
     setIsProcessing(true)
-    const supabase = createClient()
 
     try {
-      // Transfer all encounters from deleted person to kept person
-      const { error: updateError } = await supabase
-        .from('encounters')
-        .update({ person_id: keepPersonId } as never)
-        .eq('person_id', deletePersonId)
-
-      if (updateError) throw updateError
-
-      // Delete the duplicate person
-      const { error: deleteError } = await supabase
-        .from('persons')
-        .delete()
-        .eq('id', deletePersonId)
+      await markNotDuplicate(candidate.id)
+      setCandidates(candidates.filter((c) => c.id !== candidate.id))
+    } catch (error) {
+      console.error('Error dismissing duplicate pair:', error)
+      alert('Error updating duplicate pair. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
 
-      if (deleteError) throw deleteError
+  const handleUndoMerge = async (merge: PersonMerge) => {
+    const survivorName = `${merge.survivor_before.first_name} ${merge.survivor_before.last_name}`
+    if (!confirm(`Undo merging ${merge.merged_before.client_id} into ${survivorName}? The duplicate record will be restored with its encounters and history.`)) {
+      return
+    }
 
-      alert('Records merged successfully!')
+    setIsProcessing(true)
 
-      // Refresh the duplicate list
-      await scanForDuplicates()
+    try {
+      await undoPersonMerge(merge.id)
+
+      await logAuditEvent(createClient(), {
+        action: 'unmerge',
+        entity_type: 'persons',
+        entity_id: merge.survivor_id,
+        person_id: merge.survivor_id,
+        client_id: merge.survivor_before.client_id,
+        details: {
+          merge_id: merge.id,
+          merged_person_id: merge.merged_id,
+          merged_client_id: merge.merged_before.client_id,
+        },
+      })
+
+      // The pair goes back in the queue for another look
+      await reopenMergedCandidate(merge.survivor_id, merge.merged_id)
+
+      setRecentMerges(recentMerges.filter((m) => m.id !== merge.id))
+      alert('Merge undone successfully!')
+
+      await loadQueue()
     } catch (error) {
-      console.error('Error merging duplicates:', error)
-      alert('Error merging records. Please try again.')
+      console.error('Error undoing merge:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      alert(`Error undoing merge: ${errorMessage}`)
     } finally {
       setIsProcessing(false)
     }
@@ -173,8 +220,10 @@ export default function DuplicateManager({ persons }: DuplicateManagerProps) {
 
       alert('Record deleted successfully!')
 
-      // Refresh the duplicate list
-      await scanForDuplicates()
+      // Pairs involving the deleted record are removed with it
+      setCandidates(candidates.filter((c) =>
+        c.person_a_id !== personId && c.person_b_id !== personId
+      ))
     } catch (error) {
       console.error('Error deleting person:', error)
       alert('Error deleting record. Please try again.')
@@ -216,18 +265,22 @@ export default function DuplicateManager({ persons }: DuplicateManagerProps) {
       </div>
 
       <p className="text-sm text-gray-600 mb-4">
-        Scan the by-name list for potential duplicate clients. You can merge duplicates (combining their service history) or delete records.
+        Possible duplicate clients are scored every night and queued here for review. Merge a pair (combining their service history), mark it as not a duplicate so it is never flagged again, or delete a record. Merges can be undone for {MERGE_UNDO_DAYS} days.
       </p>
 
-      {/* Scan Button */}
-      {!showResults && (
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-lg font-semibold text-gray-800">
+          {isLoading
+            ? 'Loading review queue...'
+            : `${candidates.length} possible duplicate pair${candidates.length !== 1 ? 's' : ''} to review`}
+        </p>
         <button
-          onClick={scanForDuplicates}
+          onClick={runScan}
           disabled={isScanning || isProcessing}
-          className="px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors font-medium inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm font-medium inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <svg
-            className="w-5 h-5 mr-2"
+            className="w-4 h-4 mr-2"
             fill="none"
             stroke="currentColor"
             viewBox="0 0 24 24"
@@ -239,53 +292,71 @@ export default function DuplicateManager({ persons }: DuplicateManagerProps) {
               d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
             />
           </svg>
-          {isScanning ? 'Scanning...' : 'Scan for Duplicates'}
+          {isScanning ? 'Scanning...' : 'Scan Now'}
         </button>
+      </div>
+
+      {!isLoading && candidates.length === 0 && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-green-800 font-medium">
+            No duplicates waiting for review! Your by-name list is clean.
+          </p>
+        </div>
       )}
 
-      {/* Results */}
-      {showResults && (
-        <div className="mt-4">
-          <div className="flex items-center justify-between mb-4">
-            <p className="text-lg font-semibold text-gray-800">
-              Found {duplicateGroups.length} potential duplicate group{duplicateGroups.length !== 1 ? 's' : ''}
-            </p>
-            <button
-              onClick={scanForDuplicates}
-              disabled={isScanning || isProcessing}
-              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors text-sm"
-            >
-              Re-scan
-            </button>
-          </div>
+      {candidates.length > 0 && (
+        <div className="space-y-4">
+          {candidates.map((candidate) => {
+            const pair = [candidate.person_a, candidate.person_b]
+
+            return (
+              <div key={candidate.id} className="bg-white rounded-lg border-2 border-orange-300 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="px-2 py-1 bg-orange-100 text-orange-800 text-xs font-semibold rounded">
+                      {Math.round(candidate.score * 100)}% match
+                    </span>
+                    {candidate.reasons.map((reason) => (
+                      <span key={reason} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
+                        {reason}
+                      </span>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => handleNotDuplicate(candidate)}
+                    disabled={isProcessing}
+                    className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Not a duplicate
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  {pair.map((person, index) => {
+                    const otherPerson = pair[1 - index]
 
-          {duplicateGroups.length === 0 ? (
-            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-              <p className="text-green-800 font-medium">
-                No duplicates found! Your by-name list is clean.
-              </p>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {duplicateGroups.map((group, groupIndex) => (
-                <div key={groupIndex} className="bg-white rounded-lg border-2 border-orange-300 p-4">
-                  <h4 className="font-semibold text-gray-800 mb-3">
-                    Duplicate Group #{groupIndex + 1}
-                  </h4>
-                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                    {group.persons.map((person) => (
+                    return (
                       <div key={person.id} className="border border-gray-300 rounded-lg p-4 bg-gray-50">
                         <div className="flex items-start justify-between mb-3">
-                          <div>
-                            <p className="font-bold text-lg text-gray-900">
-                              {person.first_name} {person.last_name}
-                            </p>
-                            <p className="text-sm text-gray-600">
-                              {person.nickname ? `"${person.nickname}"` : ''}
-                            </p>
-                            <p className="text-xs text-blue-600 font-mono">
-                              {person.client_id}
-                            </p>
+                          <div className="flex items-start gap-3">
+                            {person.photo_url && (
+                              /* eslint-disable-next-line @next/next/no-img-element */
+                              <img
+                                src={person.photo_url}
+                                alt={`${person.first_name} ${person.last_name}`}
+                                className="w-12 h-12 rounded-full object-cover"
+                              />
+                            )}
+                            <div>
+                              <p className="font-bold text-lg text-gray-900">
+                                {person.first_name} {person.last_name}
+                              </p>
+                              <p className="text-sm text-gray-600">
+                                {person.nickname ? `"${person.nickname}"` : ''}
+                              </p>
+                              <p className="text-xs text-blue-600 font-mono">
+                                {person.client_id}
+                              </p>
+                            </div>
                           </div>
                           <div className="text-right">
                             <span className="inline-block px-2 py-1 bg-blue-100 text-blue-800 text-xs font-semibold rounded">
@@ -303,6 +374,12 @@ export default function DuplicateManager({ persons }: DuplicateManagerProps) {
                             <dt className="text-gray-600">Gender:</dt>
                             <dd className="font-medium">{person.gender}</dd>
                           </div>
+                          {person.phone_number && (
+                            <div className="flex justify-between">
+                              <dt className="text-gray-600">Phone:</dt>
+                              <dd className="font-medium">{person.phone_number}</dd>
+                            </div>
+                          )}
                           <div className="flex justify-between">
                             <dt className="text-gray-600">Enrolled:</dt>
                             <dd className="font-medium">{format(new Date(person.enrollment_date), 'MMM dd, yyyy')}</dd>
@@ -317,20 +394,13 @@ export default function DuplicateManager({ persons }: DuplicateManagerProps) {
 
                         {/* Action Buttons */}
                         <div className="mt-4 pt-4 border-t border-gray-200 space-y-2">
-                          {group.persons.length > 1 && (
-                            <>
-                              {group.persons.filter(p => p.id !== person.id).map(otherPerson => (
-                                <button
-                                  key={otherPerson.id}
-                                  onClick={() => mergeDuplicates(person.id, otherPerson.id)}
-                                  disabled={isProcessing}
-                                  className="w-full px-3 py-2 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                >
-                                  Keep this, merge with {otherPerson.first_name}
-                                </button>
-                              ))}
-                            </>
-                          )}
+                          <button
+                            onClick={() => setMergeTarget({ candidate, survivor: person, merged: otherPerson })}
+                            disabled={isProcessing}
+                            className="w-full px-3 py-2 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Keep this, merge with {otherPerson.first_name}
+                          </button>
                           <button
                             onClick={() => deletePerson(person.id)}
                             disabled={isProcessing}
@@ -340,15 +410,60 @@ export default function DuplicateManager({ persons }: DuplicateManagerProps) {
                           </button>
                         </div>
                       </div>
-                    ))}
-                  </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Recent merges that can still be undone */}
+      {recentMerges.length > 0 && (
+        <div className="mt-6">
+          <h4 className="font-semibold text-gray-800 mb-2">Recent Merges</h4>
+          <div className="space-y-2">
+            {recentMerges.map((merge) => (
+              <div
+                key={merge.id}
+                className="bg-white rounded-lg border border-gray-200 p-3 flex items-center justify-between"
+              >
+                <div className="text-sm">
+                  <p className="text-gray-900">
+                    <span className="font-mono text-blue-600">{merge.merged_before.client_id}</span>
+                    {' '}{merge.merged_before.first_name} {merge.merged_before.last_name} merged into{' '}
+                    <span className="font-mono text-blue-600">{merge.survivor_before.client_id}</span>
+                    {' '}{merge.survivor_before.first_name} {merge.survivor_before.last_name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(merge.created_at), 'MMM dd, yyyy h:mm a')}
+                    {merge.merged_by ? ` by ${merge.merged_by}` : ''}
+                  </p>
                 </div>
-              ))}
-            </div>
-          )}
+                <button
+                  onClick={() => handleUndoMerge(merge)}
+                  disabled={isProcessing}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Undo
+                </button>
+              </div>
+            ))}
+          </div>
         </div>
       )}
 
+      {mergeTarget && (
+        <MergePersonsModal
+          survivorId={mergeTarget.survivor.id}
+          mergedId={mergeTarget.merged.id}
+          encounterCounts={encounterCounts}
+          onClose={() => setMergeTarget(null)}
+          onMerged={handleMerged}
+        />
+      )}
+
       {isProcessing && (
         <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
           <p className="text-blue-800 font-medium">
@@ -74,6 +74,7 @@ export default function ExitProgramButton({
           isOpen={showReturnModal}
           personId={personId}
           personName={personName}
+          lastExitDate={exitDate}
           onClose={() => setShowReturnModal(false)}
           onSuccess={handleReturnSuccess}
         />
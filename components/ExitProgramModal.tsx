@@ -1,10 +1,14 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { exitFormSchema, type ExitFormData, EXIT_DESTINATIONS } from '@/lib/schemas/exit-schema'
 import { createClient } from '@/lib/supabase/client'
+import { exitEnrollment } from '@/lib/utils/enrollments'
+import { EMPTY_INCOME_CHANGES, incomeChangesSchema } from '@/lib/schemas/income-schema'
+import { fetchPersonIncomeSources, saveIncomeChanges, type IncomeSource } from '@/lib/utils/income'
+import IncomeChangesEditor from './IncomeChangesEditor'
 
 interface ExitProgramModalProps {
   isOpen: boolean
@@ -22,6 +26,17 @@ export default function ExitProgramModal({
   onSuccess,
 }: ExitProgramModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [incomeSources, setIncomeSources] = useState<IncomeSource[]>([])
+  const [incomeChanges, setIncomeChanges] = useState(EMPTY_INCOME_CHANGES)
+
+  // Income at exit is compared with income at entry for HUD reporting, so
+  // confirm what the client is receiving now
+  useEffect(() => {
+    if (!isOpen) return
+    fetchPersonIncomeSources(createClient(), personId)
+      .then((sources) => setIncomeSources(sources.filter((source) => !source.end_date)))
+      .catch((error) => console.error('Error loading income sources:', error))
+  }, [isOpen, personId])
 
   // Get current date in local timezone (not UTC)
   const getLocalDateString = () => {
@@ -47,6 +62,12 @@ export default function ExitProgramModal({
   })
 
   const onSubmit = async (data: ExitFormData) => {
+    const incomeResult = incomeChangesSchema.safeParse(incomeChanges)
+    if (!incomeResult.success) {
+      alert(incomeResult.error.issues[0]?.message || 'Invalid income details')
+      return
+    }
+
     setIsSubmitting(true)
     const supabase = createClient()
 
@@ -57,7 +78,15 @@ export default function ExitProgramModal({
       // Ensure date is in YYYY-MM-DD format without timezone conversion
       const exitDate = data.exit_date // Already in YYYY-MM-DD from date input
 
-      // First, log the exit to status_changes
+      // Close the client's open enrollment episode
+      await exitEnrollment(personId, {
+        exit_date: exitDate,
+        exit_destination: data.exit_destination,
+        exit_notes: data.exit_notes || null,
+        exited_by: user?.email || 'Unknown',
+      })
+
+      // Then log the exit to status_changes
       const { error: statusError } = await supabase
         .from('status_changes')
         .insert({
@@ -71,19 +100,10 @@ export default function ExitProgramModal({
 
       if (statusError) throw statusError
 
-      // Then update the person record
-      const { error } = await supabase
-        .from('persons')
-        .update({
-          exit_date: exitDate,
-          exit_destination: data.exit_destination,
-          exit_notes: data.exit_notes || null,
-        } as never)
-        .eq('id', personId)
-
-      if (error) throw error
+      await saveIncomeChanges(personId, incomeResult.data, exitDate, 'exit')
 
       reset()
+      setIncomeChanges(EMPTY_INCOME_CHANGES)
       onSuccess()
       onClose()
     } catch (error) {
@@ -96,6 +116,7 @@ export default function ExitProgramModal({
 
   const handleClose = () => {
     reset()
+    setIncomeChanges(EMPTY_INCOME_CHANGES)
     onClose()
   }
 
@@ -163,6 +184,17 @@ export default function ExitProgramModal({
               )}
             </div>
 
+            {/* Income at Exit */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Income &amp; Benefits at Exit
+              </label>
+              {incomeSources.length === 0 && (
+                <p className="text-sm text-gray-500 mb-2">No current income or benefits recorded.</p>
+              )}
+              <IncomeChangesEditor currentSources={incomeSources} value={incomeChanges} onChange={setIncomeChanges} />
+            </div>
+
             {/* Exit Notes */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -0,0 +1,213 @@
+'use client'
+
+import { useState } from 'react'
+import type { HmisExportResult } from '@/lib/utils/hmis-export'
+import { HMIS_ROI_RECIPIENT } from '@/lib/schemas/roi-schema'
+
+interface HmisExportButtonProps {
+  startDate?: string | null
+  endDate?: string | null
+}
+
+// Validation report returned by the export route; the files stay on the server
+type HmisValidationReport = Pick<HmisExportResult, 'counts' | 'issues'> & {
+  excludedWithoutRoi: number
+}
+
+/**
+ * Request the HMIS export for a period from the server
+ */
+function requestHmisExport(startDate: string | null | undefined, endDate: string | null | undefined, validateOnly: boolean) {
+  return fetch('/api/exports/hmis', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ startDate: startDate || '', endDate: endDate || '', validateOnly }),
+  })
+}
+
+export default function HmisExportButton({
+  startDate,
+  endDate,
+}: HmisExportButtonProps) {
+  const [result, setResult] = useState<HmisValidationReport | null>(null)
+  const [isValidating, setIsValidating] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  const handleValidate = async () => {
+    setIsValidating(true)
+
+    try {
+      // Only clients who consented to sharing with HMIS are uploaded
+      const response = await requestHmisExport(startDate, endDate, true)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate HMIS export')
+      }
+
+      setResult(data as HmisValidationReport)
+    } catch (error) {
+      console.error('HMIS export error:', error)
+      alert('Error generating HMIS export. Please try again.')
+    } finally {
+      setIsValidating(false)
+    }
+  }
+
+  const handleDownload = async () => {
+    if (!result) return
+    setIsDownloading(true)
+
+    try {
+      const response = await requestHmisExport(startDate, endDate, false)
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to create HMIS zip')
+      }
+
+      const blob = await response.blob()
+      const dateRange = startDate && endDate
+        ? `_${startDate}_to_${endDate}`
+        : '_all_time'
+
+      const link = document.createElement('a')
+      const url = URL.createObjectURL(blob)
+      link.setAttribute('href', url)
+      link.setAttribute('download', `hmis_csv_fy2024${dateRange}.zip`)
+      link.style.visibility = 'hidden'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      setResult(null)
+    } catch (error) {
+      console.error('HMIS zip error:', error)
+      alert('Error creating HMIS zip file. Please try again.')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const errors = result?.issues.filter((i) => i.severity === 'error') || []
+  const warnings = result?.issues.filter((i) => i.severity === 'warning') || []
+
+  return (
+    <>
+      <button
+        onClick={handleValidate}
+        disabled={isValidating}
+        className="px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg
+          className="w-5 h-5 mr-2"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+          />
+        </svg>
+        {isValidating ? 'Checking records...' : 'Export HMIS CSV (FY2024)'}
+      </button>
+
+      {result && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[85vh] flex flex-col">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-900">HMIS CSV Export - Validation</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                {startDate && endDate ? `${startDate} to ${endDate}` : 'All time'}
+              </p>
+            </div>
+
+            <div className="p-6 overflow-y-auto flex-1 space-y-6">
+              {/* File counts */}
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {Object.entries(result.counts).map(([file, count]) => (
+                  <div key={file} className="bg-gray-50 rounded p-3">
+                    <p className="text-xs text-gray-500">{file}</p>
+                    <p className="text-lg font-semibold text-gray-900">{count} rows</p>
+                  </div>
+                ))}
+              </div>
+
+              {result.excludedWithoutRoi > 0 && (
+                <div className="bg-orange-50 border border-orange-200 rounded p-4 text-orange-800">
+                  {result.excludedWithoutRoi} client(s) without an active release of information for {HMIS_ROI_RECIPIENT} are left out of the export.
+                </div>
+              )}
+
+              {/* Summary */}
+              {errors.length === 0 && warnings.length === 0 ? (
+                <div className="bg-green-50 border border-green-200 rounded p-4 text-green-800">
+                  All rows passed validation.
+                </div>
+              ) : (
+                <div className={`rounded p-4 border ${errors.length > 0 ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+                  {errors.length} row(s) would fail HMIS import and {warnings.length} warning(s).
+                  {errors.length > 0 && ' Fix these records before uploading, or download anyway to review the files.'}
+                </div>
+              )}
+
+              {/* Issue report */}
+              {result.issues.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">Severity</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">File</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">Client ID</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">Field</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {[...errors, ...warnings].map((issue, index) => (
+                        <tr key={`${issue.file}-${issue.recordId}-${issue.field}-${index}`}>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                              {issue.severity === 'error' ? 'Error' : 'Warning'}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">{issue.file}</td>
+                          <td className="px-3 py-2 text-gray-700 font-mono">{issue.clientId}</td>
+                          <td className="px-3 py-2 text-gray-700">{issue.field}</td>
+                          <td className="px-3 py-2 text-gray-900">{issue.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setResult(null)}
+                className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDownload}
+                disabled={isDownloading}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDownloading ? 'Creating zip...' : errors.length > 0 ? 'Download Anyway' : 'Download Zip'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import {
+  RELATIONSHIPS_TO_HEAD,
+  RELATIONSHIP_LABELS,
+  householdMemberSchema,
+  type RelationshipToHead,
+} from '@/lib/schemas/household-schema'
+import {
+  addHouseholdMember,
+  createHousehold,
+  fetchPersonHousehold,
+  removeHouseholdMember,
+  searchHouseholdCandidates,
+  updateHouseholdRelationship,
+  type Household,
+  type HouseholdCandidate,
+  type HouseholdMember,
+} from '@/lib/utils/households'
+
+interface HouseholdCardProps {
+  personId: string
+  personName: string
+  initialHousehold: Household | null
+}
+
+export default function HouseholdCard({ personId, personName, initialHousehold }: HouseholdCardProps) {
+  const [household, setHousehold] = useState(initialHousehold)
+  const [busy, setBusy] = useState(false)
+  const [showAdd, setShowAdd] = useState(false)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [candidates, setCandidates] = useState<HouseholdCandidate[]>([])
+  const [selected, setSelected] = useState<HouseholdCandidate | null>(null)
+  const [relationship, setRelationship] = useState<Exclude<RelationshipToHead, 'self'>>('child')
+
+  const hasHead = household?.members.some((m) => m.relationship_to_head === 'self') ?? false
+
+  const reload = async () => {
+    setHousehold(await fetchPersonHousehold(createClient(), personId))
+  }
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true)
+    try {
+      await action()
+      await reload()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(`${failure}. Please try again.`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCreate = () => {
+    const name = prompt(`Household name (optional), e.g. "${personName.split(' ').pop()} family"`)
+    if (name === null) return
+    run(async () => {
+      await createHousehold(personId, name.trim() || null)
+    }, 'Error creating household')
+  }
+
+  const handleSearch = async () => {
+    try {
+      setCandidates(await searchHouseholdCandidates(searchTerm))
+      setSelected(null)
+    } catch (error) {
+      console.error('Error searching clients:', error)
+      alert('Error searching clients. Please try again.')
+    }
+  }
+
+  const handleAdd = () => {
+    if (!household) return
+
+    const result = householdMemberSchema.safeParse({
+      person_id: selected?.id || '',
+      relationship_to_head: relationship,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0].message)
+      return
+    }
+    if (selected?.household_id) {
+      alert(`${selected.first_name} ${selected.last_name} already belongs to a household. Remove them from it first.`)
+      return
+    }
+
+    run(async () => {
+      await addHouseholdMember(household.id, result.data)
+      setShowAdd(false)
+      setSearchTerm('')
+      setCandidates([])
+      setSelected(null)
+    }, 'Error adding household member')
+  }
+
+  const handleRelationshipChange = (member: HouseholdMember, value: RelationshipToHead) => {
+    run(() => updateHouseholdRelationship(member.id, value), 'Error updating relationship')
+  }
+
+  const handleRemove = (member: HouseholdMember) => {
+    const name = member.person ? `${member.person.first_name} ${member.person.last_name}` : 'this person'
+    const warning = member.relationship_to_head === 'self' && household && household.members.length > 1
+      ? ' They are the head of household; choose a new head afterwards.'
+      : ''
+    if (!confirm(`Remove ${name} from the household?${warning}`)) return
+    run(() => removeHouseholdMember(member), 'Error removing household member')
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-semibold">Household</h3>
+          {household?.name && <p className="text-sm text-gray-600">{household.name}</p>}
+        </div>
+        {household ? (
+          <button
+            onClick={() => setShowAdd(!showAdd)}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {showAdd ? 'Cancel' : '+ Add Member'}
+          </button>
+        ) : (
+          <button
+            onClick={handleCreate}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Create Household
+          </button>
+        )}
+      </div>
+
+      {!household && (
+        <p className="text-gray-500">
+          Not part of a household. Create one to link a partner or family members served together.
+        </p>
+      )}
+
+      {household && !hasHead && (
+        <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded p-3 mb-4">
+          This household has no head. Set one member&apos;s relationship to &quot;{RELATIONSHIP_LABELS.self}&quot;.
+        </p>
+      )}
+
+      {household && (
+        <ul className="divide-y divide-gray-200">
+          {household.members.map((member) => (
+            <li key={member.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                {member.person_id === personId ? (
+                  <span className="font-medium text-gray-900">
+                    {member.person?.first_name} {member.person?.last_name}
+                  </span>
+                ) : (
+                  <Link href={`/client/${member.person_id}`} className="font-medium text-blue-700 hover:text-blue-800">
+                    {member.person?.first_name} {member.person?.last_name}
+                  </Link>
+                )}
+                <span className="text-sm text-gray-500 ml-2">{member.person?.client_id}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={member.relationship_to_head}
+                  onChange={(e) => handleRelationshipChange(member, e.target.value as RelationshipToHead)}
+                  disabled={busy}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {RELATIONSHIPS_TO_HEAD
+                    .filter((r) => r !== 'self' || !hasHead || member.relationship_to_head === 'self')
+                    .map((r) => (
+                      <option key={r} value={r}>{RELATIONSHIP_LABELS[r]}</option>
+                    ))}
+                </select>
+                <button
+                  onClick={() => handleRemove(member)}
+                  disabled={busy}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {household && showAdd && (
+        <div className="mt-4 border-t border-gray-200 pt-4 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  handleSearch()
+                }
+              }}
+              placeholder="Search by name or client ID"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={handleSearch}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              Search
+            </button>
+          </div>
+
+          {candidates.length > 0 && (
+            <ul className="border border-gray-200 rounded-md divide-y divide-gray-200 max-h-60 overflow-y-auto">
+              {candidates
+                .filter((c) => !household.members.some((m) => m.person_id === c.id))
+                .map((candidate) => (
+                  <li key={candidate.id}>
+                    <label className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="radio"
+                        name="household-candidate"
+                        checked={selected?.id === candidate.id}
+                        onChange={() => setSelected(candidate)}
+                      />
+                      <span className="text-sm">
+                        {candidate.first_name} {candidate.last_name}
+                        <span className="text-gray-500 ml-2">{candidate.client_id}</span>
+                        {candidate.household_id && (
+                          <span className="ml-2 text-xs text-orange-700">(in another household)</span>
+                        )}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="text-sm font-medium text-gray-700">Relationship to head</label>
+            <select
+              value={relationship}
+              onChange={(e) => setRelationship(e.target.value as Exclude<RelationshipToHead, 'self'>)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {RELATIONSHIPS_TO_HEAD.filter((r) => r !== 'self').map((r) => (
+                <option key={r} value={r}>{RELATIONSHIP_LABELS[r]}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={busy || !selected}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              Add to Household
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
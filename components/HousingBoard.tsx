@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { HOUSING_STAGES, HOUSING_STAGE_LABELS, type HousingStage } from '@/lib/schemas/housing-schema'
+import {
+  currentStage,
+  daysInStage,
+  fetchOpenPipelines,
+  nextStage,
+  type BoardPipeline,
+} from '@/lib/utils/housing-pipeline'
+import { createClient } from '@/lib/supabase/client'
+import HousingStageForm from './HousingStageForm'
+
+// Pipelines waiting in a stage for longer than this are highlighted
+const STALLED_DAYS = 30
+
+// Moved-in pipelines leave the board, so it has no column for them
+const BOARD_COLUMNS: (HousingStage | 'started')[] = ['started', ...HOUSING_STAGES.filter((s) => s !== 'moved_in')]
+
+const COLUMN_LABELS: Record<HousingStage | 'started', string> = {
+  started: 'Not yet document-ready',
+  ...HOUSING_STAGE_LABELS,
+}
+
+interface HousingBoardProps {
+  initialPipelines: BoardPipeline[]
+}
+
+export default function HousingBoard({ initialPipelines }: HousingBoardProps) {
+  const [pipelines, setPipelines] = useState(initialPipelines)
+  const [advancingId, setAdvancingId] = useState<string | null>(null)
+
+  const handleRecorded = async () => {
+    setAdvancingId(null)
+    try {
+      setPipelines(await fetchOpenPipelines(createClient()))
+    } catch (error) {
+      console.error('Error reloading housing pipelines:', error)
+    }
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {BOARD_COLUMNS.map((column) => {
+        const cards = pipelines
+          .filter((p) => (currentStage(p) || 'started') === column)
+          .sort((a, b) => daysInStage(b) - daysInStage(a))
+        return (
+          <div key={column} className="flex-shrink-0 w-64 bg-gray-100 rounded-lg p-3">
+            <h3 className="font-semibold text-gray-800 mb-3">
+              {COLUMN_LABELS[column]} <span className="text-gray-500 font-normal">({cards.length})</span>
+            </h3>
+            <ul className="space-y-3">
+              {cards.map((pipeline) => {
+                const days = daysInStage(pipeline)
+                const next = nextStage(pipeline)
+                return (
+                  <li
+                    key={pipeline.id}
+                    className={`bg-white rounded-lg shadow p-3 ${days > STALLED_DAYS ? 'border-l-4 border-orange-400' : ''}`}
+                  >
+                    <Link href={`/client/${pipeline.person_id}`} className="font-medium text-blue-700 hover:text-blue-800">
+                      {pipeline.person.first_name} {pipeline.person.last_name}
+                    </Link>
+                    <p className="text-xs text-gray-500">{pipeline.person.client_id}</p>
+                    {pipeline.housing_program && (
+                      <p className="text-sm text-gray-700 mt-1">{pipeline.housing_program}</p>
+                    )}
+                    <p className={`text-sm mt-1 ${days > STALLED_DAYS ? 'text-orange-700 font-medium' : 'text-gray-600'}`}>
+                      {days} day{days === 1 ? '' : 's'} in stage
+                    </p>
+                    {next && (
+                      <div className="mt-2">
+                        {advancingId === pipeline.id ? (
+                          <HousingStageForm
+                            pipeline={pipeline}
+                            stage={next}
+                            onRecorded={handleRecorded}
+                            onCancel={() => setAdvancingId(null)}
+                          />
+                        ) : (
+                          <button
+                            onClick={() => setAdvancingId(pipeline.id)}
+                            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+                          >
+                            {HOUSING_STAGE_LABELS[next]} →
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
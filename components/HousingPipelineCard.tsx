@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { HOUSING_STAGES, HOUSING_STAGE_LABELS, pipelineStartSchema } from '@/lib/schemas/housing-schema'
+import {
+  closePipeline,
+  currentStage,
+  daysInStage,
+  fetchPersonPipelines,
+  isPipelineOpen,
+  nextStage,
+  stageColumn,
+  startPipeline,
+  type HousingPipeline,
+} from '@/lib/utils/housing-pipeline'
+import { createClient } from '@/lib/supabase/client'
+import HousingStageForm from './HousingStageForm'
+
+interface HousingPipelineCardProps {
+  personId: string
+  initialPipelines: HousingPipeline[]
+}
+
+export default function HousingPipelineCard({ personId, initialPipelines }: HousingPipelineCardProps) {
+  const router = useRouter()
+  const [pipelines, setPipelines] = useState(initialPipelines)
+  const [busy, setBusy] = useState(false)
+  const [advancing, setAdvancing] = useState(false)
+
+  const open = pipelines.find(isPipelineOpen)
+  const past = pipelines.filter((p) => p !== open)
+  const next = open ? nextStage(open) : null
+  const current = open ? currentStage(open) : null
+
+  const reload = async () => {
+    setPipelines(await fetchPersonPipelines(createClient(), personId))
+  }
+
+  const handleStart = async () => {
+    const program = prompt('Housing program (optional), e.g. "CoC PSH" or "VASH"')
+    if (program === null) return
+
+    const result = pipelineStartSchema.safeParse({
+      started_on: format(new Date(), 'yyyy-MM-dd'),
+      housing_program: program.trim() || null,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid housing program')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await startPipeline(personId, result.data)
+      await reload()
+    } catch (error) {
+      console.error('Error starting housing pipeline:', error)
+      alert('Error starting housing pipeline. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleClose = async () => {
+    if (!open) return
+    const reason = prompt('Why is this pipeline ending? (e.g. client declined, lost contact)')
+    if (reason === null) return
+
+    setBusy(true)
+    try {
+      await closePipeline(open.id, format(new Date(), 'yyyy-MM-dd'), reason.trim())
+      await reload()
+    } catch (error) {
+      console.error('Error closing housing pipeline:', error)
+      alert('Error closing housing pipeline. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRecorded = async () => {
+    setAdvancing(false)
+    await reload()
+    // Moving in changes the client's program status
+    router.refresh()
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-semibold">Housing Pipeline</h3>
+          {open && (
+            <p className="text-sm text-gray-600">
+              {open.housing_program && `${open.housing_program} · `}
+              {current ? HOUSING_STAGE_LABELS[current] : 'Started'} for {daysInStage(open)} days
+            </p>
+          )}
+        </div>
+        {open ? (
+          <div className="flex gap-2">
+            {next && !advancing && (
+              <button
+                onClick={() => setAdvancing(true)}
+                disabled={busy}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Mark {HOUSING_STAGE_LABELS[next]}
+              </button>
+            )}
+            <button
+              onClick={handleClose}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium disabled:opacity-50"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Start Pipeline
+          </button>
+        )}
+      </div>
+
+      {!open && (
+        <p className="text-gray-500">
+          Not in a housing pipeline. Start one when the client begins working toward permanent housing.
+        </p>
+      )}
+
+      {open && (
+        <ol className="grid grid-cols-2 md:grid-cols-6 gap-2">
+          {HOUSING_STAGES.map((stage) => {
+            const reached = open[stageColumn(stage)]
+            return (
+              <li
+                key={stage}
+                className={`rounded border p-2 text-sm ${reached ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}
+              >
+                <p className="font-medium text-gray-900">{HOUSING_STAGE_LABELS[stage]}</p>
+                <p className="text-gray-600">{reached ? format(parseISO(reached), 'MM/dd/yyyy') : '—'}</p>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      {open && next && advancing && (
+        <div className="mt-4 border-t border-gray-200 pt-4 max-w-sm">
+          <HousingStageForm
+            pipeline={open}
+            stage={next}
+            onRecorded={handleRecorded}
+            onCancel={() => setAdvancing(false)}
+          />
+        </div>
+      )}
+
+      {past.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Previous Pipelines</h4>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {past.map((pipeline) => (
+              <li key={pipeline.id}>
+                Started {format(parseISO(pipeline.started_on), 'MM/dd/yyyy')}
+                {pipeline.housing_program && ` · ${pipeline.housing_program}`}
+                {pipeline.moved_in_on
+                  ? ` · Moved in ${format(parseISO(pipeline.moved_in_on), 'MM/dd/yyyy')} (${pipeline.move_in_destination})`
+                  : pipeline.closed_on && ` · Closed ${format(parseISO(pipeline.closed_on), 'MM/dd/yyyy')}${pipeline.closed_reason ? `: ${pipeline.closed_reason}` : ''}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import {
+  HOUSING_STAGE_LABELS,
+  MOVE_IN_DESTINATIONS,
+  pipelineStageSchema,
+  type HousingStage,
+} from '@/lib/schemas/housing-schema'
+import { recordStage, type HousingPipeline, type RecordStageResult } from '@/lib/utils/housing-pipeline'
+
+interface HousingStageFormProps {
+  pipeline: HousingPipeline
+  stage: HousingStage
+  onRecorded: (result: RecordStageResult) => void
+  onCancel: () => void
+}
+
+export default function HousingStageForm({ pipeline, stage, onRecorded, onCancel }: HousingStageFormProps) {
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [destination, setDestination] = useState('')
+  const [saving, setSaving] = useState(false)
+  const movingIn = stage === 'moved_in'
+
+  const handleSave = async () => {
+    const result = pipelineStageSchema.safeParse({
+      stage,
+      date,
+      move_in_destination: movingIn ? destination : null,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid stage')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const recorded = await recordStage(pipeline, result.data)
+      if (movingIn && !recorded.exited) {
+        alert('Move-in recorded, but the client has no open enrollment to exit. Check their program status.')
+      }
+      onRecorded(recorded)
+    } catch (error) {
+      console.error('Error recording housing stage:', error)
+      alert('Error recording housing stage. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        {HOUSING_STAGE_LABELS[stage]} on
+      </label>
+      <input
+        type="date"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {movingIn && (
+        <select
+          value={destination}
+          onChange={(e) => setDestination(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Permanent housing destination...</option>
+          {MOVE_IN_DESTINATIONS.map((d) => (
+            <option key={d} value={d}>{d}</option>
+          ))}
+        </select>
+      )}
+      {movingIn && (
+        <p className="text-xs text-gray-500">Moving in exits the client with this destination.</p>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
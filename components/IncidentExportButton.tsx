@@ -0,0 +1,67 @@
+'use client'
+
+import { format } from 'date-fns'
+import { exportToCSV } from '@/lib/utils/export-csv'
+import { createClient } from '@/lib/supabase/client'
+import { logAuditEvent } from '@/lib/utils/audit'
+import { INCIDENT_OUTCOME_LABELS, INCIDENT_TYPE_LABELS } from '@/lib/schemas/incident-schema'
+import type { Incident } from '@/lib/utils/incidents'
+
+interface IncidentExportButtonProps {
+  incidents: Incident[]
+}
+
+export default function IncidentExportButton({ incidents }: IncidentExportButtonProps) {
+  const handleExport = () => {
+    logAuditEvent(createClient(), {
+      action: 'export',
+      entity_type: 'incidents',
+      details: {
+        format: 'csv',
+        files: ['incidents'],
+        incident_count: incidents.length,
+      },
+    })
+
+    // De-identified: the grant report needs counts, not who was involved
+    exportToCSV(
+      incidents.map((incident) => ({
+        'Date': format(new Date(incident.occurred_at), 'yyyy-MM-dd'),
+        'Time': format(new Date(incident.occurred_at), 'HH:mm'),
+        'Type': INCIDENT_TYPE_LABELS[incident.incident_type],
+        'Naloxone Doses': incident.naloxone_doses,
+        'EMS Called': incident.ems_called ? 'Yes' : 'No',
+        'Outcome': INCIDENT_OUTCOME_LABELS[incident.outcome],
+        'Location': incident.location_description,
+        'Latitude': incident.latitude ?? '',
+        'Longitude': incident.longitude ?? '',
+        'Client Linked': incident.person_id ? 'Yes' : 'No',
+        'Reported By': incident.reported_by || '',
+        'Review Status': incident.review_status === 'reviewed' ? 'Reviewed' : 'Pending',
+      })),
+      `encinitas_street_reach_incidents_${format(new Date(), 'yyyy-MM-dd')}.csv`
+    )
+  }
+
+  return (
+    <button
+      onClick={handleExport}
+      className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium inline-flex items-center"
+    >
+      <svg
+        className="w-5 h-5 mr-2"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+        />
+      </svg>
+      Export CSV
+    </button>
+  )
+}
@@ -0,0 +1,268 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
+import {
+  incidentSchema,
+  INCIDENT_OUTCOMES,
+  INCIDENT_OUTCOME_LABELS,
+  INCIDENT_TYPES,
+  INCIDENT_TYPE_LABELS,
+  type IncidentFormData,
+} from '@/lib/schemas/incident-schema'
+import { saveIncident } from '@/lib/utils/incidents'
+import { useGeolocation } from '@/lib/hooks/useGeolocation'
+import { useInventory } from '@/lib/hooks/useInventory'
+import { useStockLocation } from '@/lib/hooks/useStockLocation'
+
+interface IncidentFormProps {
+  // Client involved, when the report is started from their profile
+  person?: { id: string, name: string } | null
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function IncidentForm({ person = null }: IncidentFormProps) {
+  const router = useRouter()
+  const { latitude, longitude, accuracy, error: gpsError, loading: gpsLoading, refreshLocation } = useGeolocation()
+  const { locations } = useInventory()
+  const activeStockLocations = useMemo(() => locations.filter((location) => !location.retired_at), [locations])
+  const { stockLocationId, setStockLocationId, rememberStockLocation } = useStockLocation(activeStockLocations)
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<IncidentFormData>({
+    resolver: zodResolver(incidentSchema),
+    defaultValues: {
+      occurred_on: format(new Date(), 'yyyy-MM-dd'),
+      occurred_time: format(new Date(), 'HH:mm'),
+      person_description: '',
+      naloxone_doses: 0,
+      ems_called: false,
+      location_description: '',
+      description: '',
+    },
+  })
+
+  const incidentType = watch('incident_type')
+  const doses = watch('naloxone_doses')
+
+  const onSubmit = async (data: IncidentFormData) => {
+    const locationId = data.naloxone_doses > 0 ? stockLocationId || null : null
+
+    try {
+      await saveIncident(data, {
+        personId: person?.id || null,
+        latitude,
+        longitude,
+        stockLocationId: locationId,
+      })
+      if (locationId) rememberStockLocation(locationId)
+      router.push(person ? `/client/${person.id}` : '/')
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving incident report:', error)
+      alert('Error saving incident report. Please try again.')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-xl font-semibold mb-4">What Happened</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Incident Type <span className="text-red-500">*</span>
+            </label>
+            <select {...register('incident_type')} className={inputClass}>
+              <option value="">Select...</option>
+              {INCIDENT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {INCIDENT_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            {errors.incident_type && (
+              <p className="text-red-500 text-sm mt-1">{errors.incident_type.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Date <span className="text-red-500">*</span>
+            </label>
+            <input {...register('occurred_on')} type="date" className={inputClass} />
+            {errors.occurred_on && (
+              <p className="text-red-500 text-sm mt-1">{errors.occurred_on.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Time <span className="text-red-500">*</span>
+            </label>
+            <input {...register('occurred_time')} type="time" className={inputClass} />
+            {errors.occurred_time && (
+              <p className="text-red-500 text-sm mt-1">{errors.occurred_time.message}</p>
+            )}
+          </div>
+        </div>
+        {incidentType === 'reversal' && (
+          <p className="text-sm text-gray-500 mt-2">
+            A reversal is an overdose where staff administered naloxone and the person responded.
+          </p>
+        )}
+
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Person Involved
+          </label>
+          {person ? (
+            <p className="text-gray-900">{person.name}</p>
+          ) : (
+            <>
+              <input
+                {...register('person_description')}
+                type="text"
+                placeholder="Not a client, or not identified: describe the person"
+                className={inputClass}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                To link the report to a client, start it from their profile.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Description <span className="text-red-500">*</span>
+          </label>
+          <textarea {...register('description')} rows={5} className={inputClass} />
+          {errors.description && (
+            <p className="text-red-500 text-sm mt-1">{errors.description.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-xl font-semibold mb-4">Response</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Naloxone Doses Administered
+            </label>
+            <input
+              {...register('naloxone_doses', { valueAsNumber: true })}
+              type="number"
+              min="0"
+              className={inputClass}
+            />
+            {errors.naloxone_doses && (
+              <p className="text-red-500 text-sm mt-1">{errors.naloxone_doses.message}</p>
+            )}
+          </div>
+          {doses > 0 && activeStockLocations.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Naloxone From
+              </label>
+              <select
+                value={stockLocationId}
+                onChange={(e) => setStockLocationId(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Not from tracked stock</option>
+                {activeStockLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Outcome <span className="text-red-500">*</span>
+            </label>
+            <select {...register('outcome')} className={inputClass}>
+              <option value="">Select...</option>
+              {INCIDENT_OUTCOMES.map((outcome) => (
+                <option key={outcome} value={outcome}>
+                  {INCIDENT_OUTCOME_LABELS[outcome]}
+                </option>
+              ))}
+            </select>
+            {errors.outcome && (
+              <p className="text-red-500 text-sm mt-1">{errors.outcome.message}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center mt-4">
+          <input
+            {...register('ems_called')}
+            type="checkbox"
+            id="ems_called"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <label htmlFor="ems_called" className="ml-2 text-sm text-gray-700">
+            EMS (911) was called
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-xl font-semibold mb-4">Location</h2>
+        <div className="mb-4 text-sm">
+          {gpsLoading ? (
+            <p className="text-gray-600">Getting GPS location...</p>
+          ) : latitude !== null && longitude !== null ? (
+            <p className="text-green-700">
+              GPS: {latitude.toFixed(5)}, {longitude.toFixed(5)}
+              {accuracy !== null && ` (±${Math.round(accuracy)}m)`}
+            </p>
+          ) : (
+            <p className="text-amber-700">
+              {gpsError || 'GPS location unavailable'}. Describe the location below.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={refreshLocation}
+            className="mt-2 px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors"
+          >
+            Refresh Location
+          </button>
+        </div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Location Description <span className="text-red-500">*</span>
+        </label>
+        <input
+          {...register('location_description')}
+          type="text"
+          placeholder="e.g. Behind the library on Cornish Dr"
+          className={inputClass}
+        />
+        {errors.location_description && (
+          <p className="text-red-500 text-sm mt-1">{errors.location_description.message}</p>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        The report goes to a supervisor for review once it is filed.
+      </p>
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium disabled:opacity-50"
+      >
+        {isSubmitting ? 'Saving...' : 'File Incident Report'}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import {
+  INCIDENT_OUTCOME_LABELS,
+  INCIDENT_TYPE_LABELS,
+  type IncidentType,
+} from '@/lib/schemas/incident-schema'
+import { reviewIncident, type Incident } from '@/lib/utils/incidents'
+
+const TYPE_STYLES: Record<IncidentType, string> = {
+  overdose: 'bg-red-100 text-red-800',
+  reversal: 'bg-green-100 text-green-800',
+  medical: 'bg-orange-100 text-orange-800',
+  violence: 'bg-purple-100 text-purple-800',
+  police_contact: 'bg-blue-100 text-blue-800',
+}
+
+interface IncidentListProps {
+  initialIncidents: Incident[]
+  // Supervisors (admins) can mark pending reports as reviewed
+  canReview?: boolean
+  // Hide the person on a client's own profile
+  showPerson?: boolean
+}
+
+export default function IncidentList({ initialIncidents, canReview = false, showPerson = true }: IncidentListProps) {
+  const [incidents, setIncidents] = useState(initialIncidents)
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+
+  const handleReview = async (incident: Incident) => {
+    const notes = prompt('Review notes (optional): follow-up, corrections or debrief')
+    if (notes === null) return
+
+    setReviewingId(incident.id)
+
+    try {
+      const reviewed = await reviewIncident(incident.id, notes.trim() || null)
+      setIncidents(incidents.map((i) => (i.id === incident.id ? reviewed : i)))
+    } catch (error) {
+      console.error('Error reviewing incident:', error)
+      alert('Error saving the review. Please try again.')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  if (incidents.length === 0) {
+    return <p className="text-gray-500 py-4">No incidents reported</p>
+  }
+
+  return (
+    <ul className="space-y-3">
+      {incidents.map((incident) => (
+        <li
+          key={incident.id}
+          className={`rounded-lg border p-4 ${incident.review_status === 'pending' ? 'border-orange-300' : 'border-gray-200'}`}
+        >
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${TYPE_STYLES[incident.incident_type]}`}>
+                  {INCIDENT_TYPE_LABELS[incident.incident_type]}
+                </span>
+                <span className="text-sm text-gray-600">
+                  {format(new Date(incident.occurred_at), 'MM/dd/yyyy h:mm a')}
+                </span>
+                {incident.review_status === 'pending' ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800">
+                    Awaiting review
+                  </span>
+                ) : (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                    Reviewed
+                  </span>
+                )}
+              </div>
+              {showPerson && (
+                <p className="text-sm mt-1">
+                  {incident.person ? (
+                    <Link href={`/client/${incident.person.id}`} className="font-medium text-blue-700 hover:text-blue-800">
+                      {incident.person.first_name} {incident.person.last_name} ({incident.person.client_id})
+                    </Link>
+                  ) : (
+                    <span className="text-gray-700">{incident.person_description || 'Person not identified'}</span>
+                  )}
+                </p>
+              )}
+              <p className="text-sm text-gray-600 mt-1">
+                {incident.location_description}
+                {` · ${INCIDENT_OUTCOME_LABELS[incident.outcome]}`}
+                {incident.naloxone_doses > 0 && ` · ${incident.naloxone_doses} naloxone dose${incident.naloxone_doses === 1 ? '' : 's'}`}
+                {incident.ems_called && ' · EMS called'}
+              </p>
+              <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{incident.description}</p>
+              <p className="text-xs text-gray-500 mt-2">
+                Reported by {incident.reported_by || 'Unknown'}
+                {incident.reviewed_by && incident.reviewed_at &&
+                  ` · Reviewed by ${incident.reviewed_by} on ${format(new Date(incident.reviewed_at), 'MM/dd/yyyy')}`}
+              </p>
+              {incident.review_notes && (
+                <p className="text-sm text-gray-700 mt-1 bg-gray-50 rounded p-2 whitespace-pre-wrap">
+                  {incident.review_notes}
+                </p>
+              )}
+            </div>
+            {canReview && incident.review_status === 'pending' && (
+              <button
+                onClick={() => handleReview(incident)}
+                disabled={reviewingId === incident.id}
+                className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {reviewingId === incident.id ? 'Saving...' : 'Mark Reviewed'}
+              </button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
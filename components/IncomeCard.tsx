@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  EMPTY_INCOME_CHANGES,
+  INCOME_SOURCE_LABELS,
+  incomeChangesSchema,
+  isCashIncome,
+} from '@/lib/schemas/income-schema'
+import {
+  fetchPersonIncomeSources,
+  monthlyIncomeOn,
+  saveIncomeChanges,
+  type IncomeSource,
+} from '@/lib/utils/income'
+import IncomeChangesEditor from './IncomeChangesEditor'
+
+interface IncomeCardProps {
+  personId: string
+  initialSources: IncomeSource[]
+}
+
+const STAGE_LABELS: Record<IncomeSource['collection_stage'], string> = {
+  intake: 'at intake',
+  interaction: 'at an interaction',
+  update: 'from the profile',
+  exit: 'at exit',
+}
+
+export default function IncomeCard({ personId, initialSources }: IncomeCardProps) {
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const [sources, setSources] = useState(initialSources)
+  const [showForm, setShowForm] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [changes, setChanges] = useState(EMPTY_INCOME_CHANGES)
+  const [changeDate, setChangeDate] = useState(today)
+
+  const current = sources.filter((source) => !source.end_date)
+  const past = sources.filter((source) => source.end_date)
+  const income = monthlyIncomeOn(sources, today)
+
+  const handleSave = async () => {
+    const result = incomeChangesSchema.safeParse(changes)
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid income details')
+      return
+    }
+    if (result.data.added.length === 0 && result.data.ended.length === 0) {
+      alert('Add a source or check one that stopped')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await saveIncomeChanges(personId, result.data, changeDate, 'update')
+      setSources(await fetchPersonIncomeSources(createClient(), personId))
+      setChanges(EMPTY_INCOME_CHANGES)
+      setShowForm(false)
+    } catch (error) {
+      console.error('Error saving income changes:', error)
+      alert('Error saving income changes. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-semibold">Income &amp; Benefits</h3>
+          <p className="text-sm text-gray-600">
+            Monthly cash income: <span className="font-semibold">${income.total.toLocaleString()}</span>
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setShowForm(!showForm)
+            setChanges(EMPTY_INCOME_CHANGES)
+          }}
+          disabled={busy}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {showForm ? 'Cancel' : 'Update'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="border-t border-gray-200 pt-4 mb-6 space-y-4">
+          <div className="max-w-xs">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date of change</label>
+            <input
+              type="date"
+              value={changeDate}
+              max={today}
+              onChange={(e) => setChangeDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <IncomeChangesEditor currentSources={current} value={changes} onChange={setChanges} />
+          <button
+            onClick={handleSave}
+            disabled={busy}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      )}
+
+      {current.length === 0 ? (
+        <p className="text-gray-500 text-sm">No current income or benefits recorded.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {current.map((source) => (
+            <li key={source.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <span className="font-medium text-gray-900">{INCOME_SOURCE_LABELS[source.source_type]}</span>
+                <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-semibold ${isCashIncome(source.source_type) ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'}`}>
+                  {isCashIncome(source.source_type) ? 'Income' : 'Benefit'}
+                </span>
+                {source.notes && <p className="text-sm text-gray-700">{source.notes}</p>}
+              </div>
+              <span className="text-sm text-gray-600">
+                {source.monthly_amount !== null && `$${Number(source.monthly_amount).toLocaleString()}/mo · `}
+                since {format(parseISO(source.start_date), 'MM/dd/yyyy')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {past.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-sm text-gray-600 cursor-pointer">History ({past.length} ended)</summary>
+          <ul className="mt-2 space-y-1">
+            {past.map((source) => (
+              <li key={source.id} className="text-sm text-gray-600">
+                {INCOME_SOURCE_LABELS[source.source_type]}
+                {source.monthly_amount !== null && ` · $${Number(source.monthly_amount).toLocaleString()}/mo`}
+                {` · ${format(parseISO(source.start_date), 'MM/dd/yyyy')} - ${format(parseISO(source.end_date as string), 'MM/dd/yyyy')}`}
+                {` · recorded ${STAGE_LABELS[source.collection_stage]}`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { format, parseISO } from 'date-fns'
+import {
+  INCOME_SOURCES,
+  INCOME_SOURCE_LABELS,
+  isCashIncome,
+  type IncomeChanges,
+  type IncomeSourceInput,
+  type IncomeSourceType,
+} from '@/lib/schemas/income-schema'
+import type { IncomeSource } from '@/lib/utils/income'
+
+interface IncomeChangesEditorProps {
+  // Sources the client is receiving now, which can be marked as stopped
+  currentSources: IncomeSource[]
+  value: IncomeChanges
+  onChange: (changes: IncomeChanges) => void
+}
+
+export default function IncomeChangesEditor({ currentSources, value, onChange }: IncomeChangesEditorProps) {
+  const toggleEnded = (sourceId: string) => {
+    onChange({
+      ...value,
+      ended: value.ended.includes(sourceId)
+        ? value.ended.filter((id) => id !== sourceId)
+        : [...value.ended, sourceId],
+    })
+  }
+
+  const updateAdded = (index: number, source: IncomeSourceInput) => {
+    onChange({ ...value, added: value.added.map((s, i) => (i === index ? source : s)) })
+  }
+
+  const addSource = () => {
+    onChange({ ...value, added: [...value.added, { source_type: 'employment', monthly_amount: null }] })
+  }
+
+  const removeAdded = (index: number) => {
+    onChange({ ...value, added: value.added.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="space-y-4">
+      {currentSources.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Currently receiving (check any that stopped)</p>
+          <div className="space-y-2">
+            {currentSources.map((source) => (
+              <label key={source.id} className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={value.ended.includes(source.id)}
+                  onChange={() => toggleEnded(source.id)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className={`text-sm ${value.ended.includes(source.id) ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                  {INCOME_SOURCE_LABELS[source.source_type]}
+                  {source.monthly_amount !== null && ` · $${Number(source.monthly_amount).toLocaleString()}/mo`}
+                  {` · since ${format(parseISO(source.start_date), 'MM/dd/yyyy')}`}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {value.added.map((source, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_10rem_auto] gap-2 items-center">
+          <select
+            value={source.source_type}
+            onChange={(e) => updateAdded(index, { ...source, source_type: e.target.value as IncomeSourceType })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <optgroup label="Cash income">
+              {INCOME_SOURCES.filter(isCashIncome).map((type) => (
+                <option key={type} value={type}>{INCOME_SOURCE_LABELS[type]}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Non-cash benefits">
+              {INCOME_SOURCES.filter((type) => !isCashIncome(type)).map((type) => (
+                <option key={type} value={type}>{INCOME_SOURCE_LABELS[type]}</option>
+              ))}
+            </optgroup>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={source.monthly_amount ?? ''}
+            onChange={(e) => updateAdded(index, {
+              ...source,
+              monthly_amount: e.target.value === '' ? null : Number(e.target.value),
+            })}
+            placeholder={isCashIncome(source.source_type) ? '$ per month' : '$ per month (optional)'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="button"
+            onClick={() => removeAdded(index)}
+            className="text-sm text-gray-600 hover:text-gray-800 underline justify-self-start"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addSource}
+        className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors"
+      >
+        + Add income or benefit
+      </button>
+    </div>
+  )
+}
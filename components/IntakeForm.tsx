@@ -1,23 +1,17 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { v4 as uuidv4 } from 'uuid'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import {
-  intakeFormSchema,
-  type IntakeFormData,
-  LIVING_SITUATIONS,
-  GENDER_OPTIONS,
-  RACE_OPTIONS,
-  DISABILITY_TYPES,
-  REFERRAL_SOURCES,
-  TIME_HOMELESS_OPTIONS,
-  SEXUAL_ORIENTATION_OPTIONS,
-  ADDICTION_OPTIONS,
-} from '@/lib/schemas/intake-schema'
+import { createIntakeFormSchema, type IntakeFormData } from '@/lib/schemas/intake-schema'
+import { EMPTY_INCOME_CHANGES, incomeChangesSchema } from '@/lib/schemas/income-schema'
+import { useLookupOptions } from '@/lib/hooks/useLookupOptions'
 import { checkForDuplicates, SimilarPerson } from '@/lib/utils/duplicate-detection'
 import DuplicateWarningModal from './DuplicateWarningModal'
+import IncomeChangesEditor from './IncomeChangesEditor'
 import { createClient } from '@/lib/supabase/client'
+import { submitPerson, getClientHref } from '@/lib/offline/sync'
 import { useRouter } from 'next/navigation'
 
 export default function IntakeForm() {
@@ -31,6 +25,12 @@ export default function IntakeForm() {
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false)
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null)
   const [isCameraActive, setIsCameraActive] = useState(false)
+  const [incomeChanges, setIncomeChanges] = useState(EMPTY_INCOME_CHANGES)
+  // Kept across attempts so submitting again after an error finishes the
+  // save rather than creating the client twice
+  const newPersonId = useRef<string | null>(null)
+  const lookups = useLookupOptions()
+  const intakeSchema = useMemo(() => createIntakeFormSchema(lookups), [lookups])
 
   // Get current date in local timezone (not UTC)
   const getLocalDateString = () => {
@@ -48,7 +48,7 @@ export default function IntakeForm() {
     setValue,
     formState: { errors },
   } = useForm({
-    resolver: zodResolver(intakeFormSchema),
+    resolver: zodResolver(intakeSchema),
     defaultValues: {
       photo_url: null,
       veteran_status: false,
@@ -61,7 +61,6 @@ export default function IntakeForm() {
       addictions: [] as string[],
       release_of_information: false,
       evictions: 0,
-      income_amount: undefined,
       enrollment_date: getLocalDateString(),
     },
   })
@@ -175,12 +174,17 @@ export default function IntakeForm() {
   useEffect(() => {
     const checkDuplicates = async () => {
       if (firstName && lastName && firstName.length > 2 && lastName.length > 2) {
-        const result = await checkForDuplicates(firstName, lastName, dateOfBirth || undefined)
-        if (result.hasPotentialDuplicates) {
-          // Store similar persons but don't show modal yet
-          setSimilarPersons(result.similarPersons)
-        } else {
-          setSimilarPersons([])
+        try {
+          const result = await checkForDuplicates(firstName, lastName, dateOfBirth || undefined)
+          if (result.hasPotentialDuplicates) {
+            // Store similar persons but don't show modal yet
+            setSimilarPersons(result.similarPersons)
+          } else {
+            setSimilarPersons([])
+          }
+        } catch (error) {
+          // Offline or the search failed - queued intakes are checked again at sync
+          console.error('Error checking for duplicates:', error)
         }
       }
     }
@@ -190,6 +194,12 @@ export default function IntakeForm() {
   }, [firstName, lastName, dateOfBirth])
 
   const onSubmit = async (data: IntakeFormData) => {
+    const incomeResult = incomeChangesSchema.safeParse(incomeChanges)
+    if (!incomeResult.success) {
+      alert(incomeResult.error.issues[0]?.message || 'Invalid income details')
+      return
+    }
+
     // If there are similar persons, show the modal first
     if (similarPersons.length > 0) {
       setPendingFormData(data)
@@ -203,12 +213,11 @@ export default function IntakeForm() {
 
   const createPerson = async (data: IntakeFormData) => {
     setIsSubmitting(true)
-    const supabase = createClient()
 
     try {
-      // Upload photo if exists
+      // Upload photo if exists (offline, the photo is queued with the client)
       let photoUrl = data.photo_url
-      if (photoFile && !photoUrl) {
+      if (photoFile && !photoUrl && navigator.onLine) {
         photoUrl = await uploadPhoto(photoFile)
       }
 
@@ -216,52 +225,52 @@ export default function IntakeForm() {
       const dateOfBirth = data.date_of_birth || null
       const enrollmentDate = data.enrollment_date // Already in YYYY-MM-DD from date input
 
-      const { data: result, error } = await supabase
-        .from('persons')
-        .insert([
-          {
-            photo_url: photoUrl || null,
-            first_name: data.first_name,
-            last_name: data.last_name,
-            nickname: data.nickname || null,
-            phone_number: data.phone_number || null,
-            date_of_birth: dateOfBirth,
-            gender: data.gender,
-            race: data.race,
-            ethnicity: data.ethnicity,
-            sexual_orientation: data.sexual_orientation || null,
-            veteran_status: data.veteran_status,
-            disability_status: data.disability_status,
-            disability_type: data.disability_types?.length ? data.disability_types.join(',') : null,
-            chronic_homeless: data.chronic_homeless,
-            domestic_violence_victim: data.domestic_violence_victim,
-            chronic_health: data.chronic_health,
-            mental_health: data.mental_health,
-            addiction: data.addictions?.length ? data.addictions.join(',') : null,
-            living_situation: data.living_situation,
-            length_of_time_homeless: data.length_of_time_homeless || null,
-            evictions: data.evictions || 0,
-            income: data.income || null,
-            income_amount: data.income_amount || null,
-            support_system: data.support_system || null,
-            enrollment_date: enrollmentDate,
-            case_manager: data.case_manager || null,
-            referral_source: data.referral_source || null,
-            release_of_information: data.release_of_information,
-            preferred_language: data.preferred_language || null,
-            cultural_lived_experience: data.cultural_lived_experience || null,
-          } as never,
-        ])
-        .select()
-        .single()
-
-      if (error) throw error
-
-      // Type assertion for returned person data
-      const newPerson = result as { id: string }
+      const person = {
+        id: (newPersonId.current ??= uuidv4()),
+        photo_url: photoUrl || null,
+        first_name: data.first_name,
+        last_name: data.last_name,
+        nickname: data.nickname || null,
+        phone_number: data.phone_number || null,
+        date_of_birth: dateOfBirth,
+        gender: data.gender,
+        race: data.race,
+        ethnicity: data.ethnicity,
+        sexual_orientation: data.sexual_orientation || null,
+        veteran_status: data.veteran_status,
+        disability_status: data.disability_status,
+        disability_type: data.disability_types?.length ? data.disability_types.join(',') : null,
+        chronic_homeless: data.chronic_homeless,
+        domestic_violence_victim: data.domestic_violence_victim,
+        chronic_health: data.chronic_health,
+        mental_health: data.mental_health,
+        addiction: data.addictions?.length ? data.addictions.join(',') : null,
+        living_situation: data.living_situation,
+        length_of_time_homeless: data.length_of_time_homeless || null,
+        evictions: data.evictions || 0,
+        support_system: data.support_system || null,
+        enrollment_date: enrollmentDate,
+        case_manager: data.case_manager || null,
+        referral_source: data.referral_source || null,
+        release_of_information: data.release_of_information,
+        preferred_language: data.preferred_language || null,
+        cultural_lived_experience: data.cultural_lived_experience || null,
+      }
+
+      // Saves directly when online, otherwise queues with a provisional ID
+      const { queued, personId } = await submitPerson(
+        `${data.first_name} ${data.last_name}`,
+        person,
+        photoUrl ? null : photoFile,
+        incomeChanges.added
+      )
+
+      if (queued) {
+        alert('No connection. This client has been saved on this device with a provisional ID and will sync automatically when you are back online.')
+      }
 
       // Success! Navigate to the person's profile
-      router.push(`/client/${newPerson.id}`)
+      router.push(getClientHref(personId))
     } catch (error) {
       console.error('Error creating person:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
@@ -461,7 +470,7 @@ export default function IntakeForm() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">Select gender...</option>
-                {GENDER_OPTIONS.map((option) => (
+                {lookups.gender.map((option) => (
                   <option key={option} value={option}>
                     {option}
                   </option>
@@ -481,7 +490,7 @@ export default function IntakeForm() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">Select race...</option>
-                {RACE_OPTIONS.map((option) => (
+                {lookups.race.map((option) => (
                   <option key={option} value={option}>
                     {option}
                   </option>
@@ -501,7 +510,7 @@ export default function IntakeForm() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">Select sexual orientation...</option>
-                {SEXUAL_ORIENTATION_OPTIONS.map((option) => (
+                {lookups.sexual_orientation.map((option) => (
                   <option key={option} value={option}>
                     {option}
                   </option>
@@ -566,7 +575,7 @@ export default function IntakeForm() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Type of Disability (select all that apply)
                   </label>
-                  {DISABILITY_TYPES.map((option) => (
+                  {lookups.disability_type.map((option) => (
                     <div key={option} className="flex items-center">
                       <input
                         {...register('disability_types')}
@@ -632,7 +641,7 @@ export default function IntakeForm() {
                 Addiction / Substance Use (select all that apply)
               </label>
               <div className="space-y-2">
-                {ADDICTION_OPTIONS.map((option) => (
+                {lookups.addiction.map((option) => (
                   <div key={option} className="flex items-center">
                     <input
                       {...register('addictions')}
@@ -657,7 +666,7 @@ export default function IntakeForm() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">Select living situation...</option>
-                {LIVING_SITUATIONS.map((option) => (
+                {lookups.living_situation.map((option) => (
                   <option key={option} value={option}>
                     {option}
                   </option>
@@ -677,7 +686,7 @@ export default function IntakeForm() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">Select timeframe...</option>
-                {TIME_HOMELESS_OPTIONS.map((option) => (
+                {lookups.time_homeless.map((option) => (
                   <option key={option} value={option}>
                     {option}
                   </option>
@@ -698,33 +707,6 @@ export default function IntakeForm() {
               />
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Income Source
-              </label>
-              <input
-                {...register('income')}
-                type="text"
-                placeholder="e.g., SSI, Employment, None"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Monthly Income Amount
-              </label>
-              <input
-                {...register('income_amount', { valueAsNumber: true })}
-                type="number"
-                min="0"
-                step="0.01"
-                placeholder="0.00"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-              <p className="text-xs text-gray-500 mt-1">Enter amount in dollars (e.g., 1200.00)</p>
-            </div>
-
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Support System
@@ -739,6 +721,15 @@ export default function IntakeForm() {
           </div>
         </div>
 
+        {/* Income & Benefits Section */}
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-xl font-semibold mb-2">Income &amp; Benefits</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Each source the client receives as of the enrollment date. Leave empty if they have none.
+          </p>
+          <IncomeChangesEditor currentSources={[]} value={incomeChanges} onChange={setIncomeChanges} />
+        </div>
+
         {/* Program Information Section */}
         <div className="bg-white p-6 rounded-lg shadow">
           <h2 className="text-xl font-semibold mb-4">Program Information</h2>
@@ -777,7 +768,7 @@ export default function IntakeForm() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">Select referral source...</option>
-                {REFERRAL_SOURCES.map((option) => (
+                {lookups.referral_source.map((option) => (
                   <option key={option} value={option}>
                     {option}
                   </option>
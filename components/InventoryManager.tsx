@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { STOCK_LOCATION_TYPE_LABELS } from '@/lib/schemas/inventory-schema'
+import {
+  computeStockBalances,
+  fetchInventory,
+  summarizeReconciliation,
+  type InventorySnapshot,
+} from '@/lib/utils/inventory'
+import { createClient } from '@/lib/supabase/client'
+import StockMovementForm from './StockMovementForm'
+import InventoryReconciliation from './InventoryReconciliation'
+
+interface InventoryManagerProps {
+  initialSnapshot: InventorySnapshot
+  // Month reconciled (YYYY-MM) and its first and last days
+  month: string
+  monthStart: string
+  monthEnd: string
+  // Quantity recorded on interactions in the month, by service ID
+  recordedByService: Record<string, number>
+}
+
+export default function InventoryManager({
+  initialSnapshot,
+  month,
+  monthStart,
+  monthEnd,
+  recordedByService,
+}: InventoryManagerProps) {
+  const [snapshot, setSnapshot] = useState(initialSnapshot)
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const balances = computeStockBalances(snapshot.transactions)
+  const lotsById = new Map(snapshot.lots.map((lot) => [lot.id, lot]))
+  const itemsById = new Map(snapshot.items.map((item) => [item.id, item]))
+  const reconciliation = summarizeReconciliation(
+    snapshot,
+    monthStart,
+    monthEnd,
+    new Map(Object.entries(recordedByService))
+  )
+
+  const handleRecorded = async () => {
+    try {
+      setSnapshot(await fetchInventory(createClient()))
+    } catch (error) {
+      console.error('Error reloading inventory:', error)
+    }
+  }
+
+  const locations = snapshot.locations.filter(
+    (location) => !location.retired_at || balances.some((b) => b.location_id === location.id)
+  )
+
+  return (
+    <>
+      <StockMovementForm snapshot={snapshot} balances={balances} onRecorded={handleRecorded} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        {locations.map((location) => {
+          const held = balances
+            .filter((b) => b.location_id === location.id)
+            .sort((a, b) =>
+              (itemsById.get(a.item_id)?.name || '').localeCompare(itemsById.get(b.item_id)?.name || '') ||
+              (lotsById.get(a.lot_id || '')?.expires_on || '').localeCompare(lotsById.get(b.lot_id || '')?.expires_on || '')
+            )
+          return (
+            <div key={location.id} className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold">
+                {location.name}
+                <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded align-middle">
+                  {STOCK_LOCATION_TYPE_LABELS[location.location_type]}
+                </span>
+              </h3>
+              {held.length === 0 ? (
+                <p className="text-sm text-gray-500 mt-2">No stock on hand.</p>
+              ) : (
+                <ul className="mt-3 space-y-1 text-sm">
+                  {held.map((balance) => {
+                    const item = itemsById.get(balance.item_id)
+                    const lot = balance.lot_id ? lotsById.get(balance.lot_id) : undefined
+                    const expired = !!lot && lot.expires_on < today
+                    return (
+                      <li key={`${balance.item_id}:${balance.lot_id}`} className="flex justify-between">
+                        <span className="text-gray-600">
+                          {item?.name}
+                          {lot ? (
+                            <span className={expired ? 'text-red-600' : 'text-gray-400'}>
+                              {' '}lot {lot.lot_number}, exp. {lot.expires_on}
+                            </span>
+                          ) : (
+                            <span className="text-red-600"> beyond stock on record</span>
+                          )}
+                        </span>
+                        <span className={`font-medium ${balance.quantity < 0 ? 'text-red-600' : ''}`}>
+                          {balance.quantity} {item?.unit}
+                        </span>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <InventoryReconciliation month={month} rows={reconciliation} />
+    </>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { exportToCSV } from '@/lib/utils/export-csv'
+import type { ReconciliationRow } from '@/lib/utils/inventory'
+
+interface InventoryReconciliationProps {
+  // Month reconciled (YYYY-MM)
+  month: string
+  rows: ReconciliationRow[]
+}
+
+export default function InventoryReconciliation({ month, rows }: InventoryReconciliationProps) {
+  const router = useRouter()
+
+  const handleExport = () => {
+    exportToCSV(
+      rows.map((row) => ({
+        item: row.item.name,
+        unit: row.item.unit,
+        opening_balance: row.opening,
+        received: row.received,
+        distributed: row.distributed,
+        adjusted_out: row.adjustedOut,
+        adjusted_in: row.adjustedIn,
+        closing_balance: row.closing,
+        distributed_beyond_stock: row.unallocated,
+        administered_at_incidents: row.atIncidents,
+        recorded_on_interactions: row.recordedOnInteractions,
+        distributed_by_location: row.distributedByLocation
+          .map(({ location, quantity }) => `${location.name}: ${quantity}`)
+          .join('; '),
+      })),
+      `supply-reconciliation-${month}.csv`
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Monthly Reconciliation</h3>
+          <p className="text-sm text-gray-600">
+            Stock received, distributed and adjusted across all locations, for the naloxone grant report.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && router.push(`/inventory?month=${e.target.value}`)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-gray-500">No supply items are set up yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-600">
+                <th className="py-2 pr-4 font-medium">Item</th>
+                <th className="py-2 pr-4 font-medium text-right">Opening</th>
+                <th className="py-2 pr-4 font-medium text-right">Received</th>
+                <th className="py-2 pr-4 font-medium text-right">Distributed</th>
+                <th className="py-2 pr-4 font-medium text-right">Adjusted Out</th>
+                <th className="py-2 pr-4 font-medium text-right">Adjusted In</th>
+                <th className="py-2 pr-4 font-medium text-right">Closing</th>
+                <th className="py-2 font-medium text-right">On Interactions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row) => (
+                <tr key={row.item.id}>
+                  <td className="py-2 pr-4">
+                    <p className="font-medium text-gray-900">{row.item.name}</p>
+                    {row.distributedByLocation.length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {row.distributedByLocation.map(({ location, quantity }) => `${location.name}: ${quantity}`).join(', ')}
+                      </p>
+                    )}
+                    {row.atIncidents > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {row.atIncidents} {row.item.unit} administered at incidents
+                      </p>
+                    )}
+                    {row.unallocated > 0 && (
+                      <p className="text-xs text-red-600">
+                        {row.unallocated} {row.item.unit} distributed beyond the stock on record
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{row.opening}</td>
+                  <td className="py-2 pr-4 text-right">{row.received}</td>
+                  <td className="py-2 pr-4 text-right">{row.distributed}</td>
+                  <td className="py-2 pr-4 text-right">{row.adjustedOut}</td>
+                  <td className="py-2 pr-4 text-right">{row.adjustedIn}</td>
+                  <td className="py-2 pr-4 text-right font-medium">{row.closing}</td>
+                  <td
+                    className={`py-2 text-right ${
+                      row.recordedOnInteractions !== null && row.recordedOnInteractions !== row.distributed - row.atIncidents
+                        ? 'text-orange-600 font-medium'
+                        : ''
+                    }`}
+                    title="Quantity recorded on service interactions, including those not drawn from tracked stock"
+                  >
+                    {row.recordedOnInteractions ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,381 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  inventoryItemSchema,
+  stockLocationSchema,
+  STOCK_LOCATION_TYPES,
+  STOCK_LOCATION_TYPE_LABELS,
+  type InventoryItemFormData,
+  type StockLocationFormData,
+} from '@/lib/schemas/inventory-schema'
+import type { ServiceCatalogItem } from '@/lib/utils/encounter-services'
+import { listServiceCatalog } from '@/lib/utils/service-catalog'
+import {
+  addInventoryItem,
+  addStockLocation,
+  listInventorySetup,
+  setInventoryRetired,
+  type InventoryItem,
+  type StockLocation,
+} from '@/lib/utils/inventory'
+
+const EMPTY_ITEM: InventoryItemFormData = {
+  name: '',
+  unit: '',
+  service_id: '',
+  low_stock_threshold: 10,
+}
+
+const EMPTY_LOCATION: StockLocationFormData = {
+  name: '',
+  location_type: 'worker',
+  worker_email: '',
+}
+
+export default function InventorySetupManager() {
+  const [items, setItems] = useState<InventoryItem[]>([])
+  const [locations, setLocations] = useState<StockLocation[]>([])
+  const [services, setServices] = useState<ServiceCatalogItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const itemForm = useForm<InventoryItemFormData>({
+    resolver: zodResolver(inventoryItemSchema),
+    defaultValues: EMPTY_ITEM,
+  })
+
+  const locationForm = useForm<StockLocationFormData>({
+    resolver: zodResolver(stockLocationSchema),
+    defaultValues: EMPTY_LOCATION,
+  })
+
+  const locationType = locationForm.watch('location_type')
+
+  useEffect(() => {
+    const loadSetup = async () => {
+      try {
+        const [setup, catalog] = await Promise.all([listInventorySetup(), listServiceCatalog()])
+        setItems(setup.items)
+        setLocations(setup.locations)
+        setServices(catalog)
+      } catch (error) {
+        console.error('Error loading inventory setup:', error)
+        alert('Error loading inventory items and locations. Please try again.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadSetup()
+  }, [])
+
+  // A service can draw down only one item
+  const linkableServices = services.filter(
+    (service) => !service.retired_at && !items.some((item) => item.service_id === service.id)
+  )
+
+  const onAddItem = async (data: InventoryItemFormData) => {
+    if (items.some((item) => item.name.toLowerCase() === data.name.toLowerCase())) {
+      alert(`"${data.name}" is already tracked. Restore it instead if it was retired.`)
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      const item = await addInventoryItem(data)
+      setItems([...items, item].sort((a, b) => a.name.localeCompare(b.name)))
+      itemForm.reset(EMPTY_ITEM)
+    } catch (error) {
+      console.error('Error adding inventory item:', error)
+      alert('Error adding item. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const onAddLocation = async (data: StockLocationFormData) => {
+    if (locations.some((location) => location.name.toLowerCase() === data.name.toLowerCase())) {
+      alert(`"${data.name}" already exists. Restore it instead if it was retired.`)
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      const location = await addStockLocation({
+        ...data,
+        worker_email: data.location_type === 'worker' ? data.worker_email : null,
+      })
+      setLocations([...locations, location].sort((a, b) => a.name.localeCompare(b.name)))
+      locationForm.reset(EMPTY_LOCATION)
+    } catch (error) {
+      console.error('Error adding stock location:', error)
+      alert('Error adding location. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleToggleItem = async (item: InventoryItem) => {
+    const retire = !item.retired_at
+    if (retire && !confirm(`Retire "${item.name}"? Interactions will stop drawing it from stock, but its history stays in reconciliation.`)) {
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      await setInventoryRetired('inventory_items', item.id, retire)
+      setItems(items.map((i) =>
+        i.id === item.id ? { ...i, retired_at: retire ? new Date().toISOString() : null } : i
+      ))
+    } catch (error) {
+      console.error('Error updating inventory item:', error)
+      alert('Error updating item. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleToggleLocation = async (location: StockLocation) => {
+    const retire = !location.retired_at
+    if (retire && !confirm(`Retire "${location.name}"? Transfer any remaining stock out first; it will no longer be offered on the interaction form.`)) {
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      await setInventoryRetired('stock_locations', location.id, retire)
+      setLocations(locations.map((l) =>
+        l.id === location.id ? { ...l, retired_at: retire ? new Date().toISOString() : null } : l
+      ))
+    } catch (error) {
+      console.error('Error updating stock location:', error)
+      alert('Error updating location. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const retireButtonClass = (retired: boolean) =>
+    `px-3 py-1 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+      retired
+        ? 'bg-green-100 text-green-800 hover:bg-green-200'
+        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+    }`
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Supply Items</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          Supplies counted in stock. When an item is linked to a service, recording that service on an interaction takes it off the worker&apos;s stock. Low-stock alerts fire per location below the threshold.
+        </p>
+
+        {isLoading ? (
+          <p className="text-gray-600 py-4">Loading items...</p>
+        ) : items.length === 0 ? (
+          <p className="text-gray-500 py-4">No items yet. Add the first item below.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-8">
+            {items.map((item) => {
+              const service = services.find((s) => s.id === item.service_id)
+              return (
+                <li key={item.id} className="flex items-center justify-between px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className={item.retired_at ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                      {item.name}
+                    </span>
+                    <span className="text-sm text-gray-500">
+                      alert below {item.low_stock_threshold} {item.unit}
+                    </span>
+                    {service && (
+                      <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded">
+                        {service.name}
+                      </span>
+                    )}
+                    {item.retired_at && (
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-semibold rounded">
+                        Retired
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleToggleItem(item)}
+                    disabled={isProcessing}
+                    className={retireButtonClass(!!item.retired_at)}
+                  >
+                    {item.retired_at ? 'Restore' : 'Retire'}
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={itemForm.handleSubmit(onAddItem)} className="border-t border-gray-200 pt-6">
+          <h4 className="font-semibold text-gray-800 mb-3">Add an Item</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Item Name</label>
+              <input
+                {...itemForm.register('name')}
+                type="text"
+                placeholder="e.g. Wound Care Kits"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {itemForm.formState.errors.name && (
+                <p className="text-red-500 text-sm mt-1">{itemForm.formState.errors.name.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+              <input
+                {...itemForm.register('unit')}
+                type="text"
+                placeholder="e.g. kits"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {itemForm.formState.errors.unit && (
+                <p className="text-red-500 text-sm mt-1">{itemForm.formState.errors.unit.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Distributed As Service</label>
+              <select
+                {...itemForm.register('service_id')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Not linked to a service</option>
+                {linkableServices.map((service) => (
+                  <option key={service.id} value={service.id}>
+                    {service.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Low-Stock Threshold</label>
+              <input
+                {...itemForm.register('low_stock_threshold', { valueAsNumber: true })}
+                type="number"
+                min="0"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {itemForm.formState.errors.low_stock_threshold && (
+                <p className="text-red-500 text-sm mt-1">{itemForm.formState.errors.low_stock_threshold.message}</p>
+              )}
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isProcessing || isLoading}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Add Item
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Stock Locations</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          Where stock is held. A worker&apos;s own location is their default on the service interaction form.
+        </p>
+
+        {isLoading ? (
+          <p className="text-gray-600 py-4">Loading locations...</p>
+        ) : locations.length === 0 ? (
+          <p className="text-gray-500 py-4">No locations yet. Add the first location below.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-8">
+            {locations.map((location) => (
+              <li key={location.id} className="flex items-center justify-between px-4 py-2">
+                <div className="flex items-center gap-2">
+                  <span className={location.retired_at ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                    {location.name}
+                  </span>
+                  <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded">
+                    {STOCK_LOCATION_TYPE_LABELS[location.location_type]}
+                  </span>
+                  {location.worker_email && (
+                    <span className="text-sm text-gray-500">{location.worker_email}</span>
+                  )}
+                  {location.retired_at && (
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-semibold rounded">
+                      Retired
+                    </span>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleToggleLocation(location)}
+                  disabled={isProcessing}
+                  className={retireButtonClass(!!location.retired_at)}
+                >
+                  {location.retired_at ? 'Restore' : 'Retire'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={locationForm.handleSubmit(onAddLocation)} className="border-t border-gray-200 pt-6">
+          <h4 className="font-semibold text-gray-800 mb-3">Add a Location</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Location Name</label>
+              <input
+                {...locationForm.register('name')}
+                type="text"
+                placeholder="e.g. Van 2"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {locationForm.formState.errors.name && (
+                <p className="text-red-500 text-sm mt-1">{locationForm.formState.errors.name.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                {...locationForm.register('location_type')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {STOCK_LOCATION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {STOCK_LOCATION_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {locationType === 'worker' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Worker Email</label>
+                <input
+                  {...locationForm.register('worker_email')}
+                  type="email"
+                  placeholder="worker@example.org"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {locationForm.formState.errors.worker_email && (
+                  <p className="text-red-500 text-sm mt-1">{locationForm.formState.errors.worker_email.message}</p>
+                )}
+              </div>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={isProcessing || isLoading}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Add Location
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
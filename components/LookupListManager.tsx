@@ -0,0 +1,239 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  LOOKUP_LISTS,
+  LOOKUP_LIST_LABELS,
+  lookupOptionSchema,
+  type LookupListKey,
+  type LookupOptionFormData,
+} from '@/lib/schemas/lookup-schema'
+import {
+  addLookupOption,
+  listLookupOptions,
+  reorderLookupOptions,
+  setLookupOptionRetired,
+  type LookupOption,
+} from '@/lib/utils/lookup-options'
+
+export default function LookupListManager() {
+  const [options, setOptions] = useState<LookupOption[]>([])
+  const [listKey, setListKey] = useState<LookupListKey>(LOOKUP_LISTS[0])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<LookupOptionFormData>({
+    resolver: zodResolver(lookupOptionSchema),
+    defaultValues: { value: '' },
+  })
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        setOptions(await listLookupOptions())
+      } catch (error) {
+        console.error('Error loading lookup options:', error)
+        alert('Error loading lookup lists. Please try again.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadOptions()
+  }, [])
+
+  const listOptions = options.filter((option) => option.list_key === listKey)
+  const activeCount = listOptions.filter((option) => !option.retired_at).length
+
+  const replaceList = (updated: LookupOption[]) => {
+    setOptions([
+      ...options.filter((option) => option.list_key !== listKey),
+      ...updated,
+    ])
+  }
+
+  const onAdd = async (data: LookupOptionFormData) => {
+    if (listOptions.some((option) => option.value.toLowerCase() === data.value.toLowerCase())) {
+      alert(`"${data.value}" is already in this list. Restore it instead if it was retired.`)
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      const option = await addLookupOption(listKey, data.value, listOptions.length)
+      replaceList([...listOptions, option])
+      reset({ value: '' })
+    } catch (error) {
+      console.error('Error adding lookup option:', error)
+      alert('Error adding option. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= listOptions.length) return
+
+    const reordered = [...listOptions]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved)
+    const updated = reordered.map((option, i) => ({ ...option, sort_order: i }))
+
+    setIsProcessing(true)
+
+    try {
+      await reorderLookupOptions(updated)
+      replaceList(updated)
+    } catch (error) {
+      console.error('Error reordering lookup options:', error)
+      alert('Error saving the new order. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleToggleRetired = async (option: LookupOption) => {
+    const retire = !option.retired_at
+    if (retire && !confirm(`Retire "${option.value}"? It will no longer be offered on forms, but records that already use it will keep it.`)) {
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      await setLookupOptionRetired(option.id, retire)
+      replaceList(listOptions.map((o) =>
+        o.id === option.id
+          ? { ...o, retired_at: retire ? new Date().toISOString() : null }
+          : o
+      ))
+    } catch (error) {
+      console.error('Error updating lookup option:', error)
+      alert('Error updating option. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Lookup Lists</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Options offered on the intake, client edit and service interaction forms. Retired options are hidden from new entries but still shown on records that use them.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {/* List picker */}
+        <nav className="space-y-1">
+          {LOOKUP_LISTS.map((key) => (
+            <button
+              key={key}
+              onClick={() => setListKey(key)}
+              className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                key === listKey
+                  ? 'bg-blue-100 text-blue-800 font-semibold'
+                  : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {LOOKUP_LIST_LABELS[key]}
+            </button>
+          ))}
+        </nav>
+
+        {/* Options */}
+        <div className="md:col-span-3">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-semibold text-gray-800">{LOOKUP_LIST_LABELS[listKey]}</h4>
+            <span className="text-sm text-gray-500">
+              {activeCount} active, {listOptions.length - activeCount} retired
+            </span>
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-600 py-4">Loading lookup lists...</p>
+          ) : listOptions.length === 0 ? (
+            <p className="text-gray-500 py-4">
+              This list has no options yet. The built-in defaults are used until one is added.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-4">
+              {listOptions.map((option, index) => (
+                <li key={option.id} className="flex items-center justify-between px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className={option.retired_at ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                      {option.value}
+                    </span>
+                    {option.retired_at && (
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-semibold rounded">
+                        Retired
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={isProcessing || index === 0}
+                      title="Move up"
+                      className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={isProcessing || index === listOptions.length - 1}
+                      title="Move down"
+                      className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => handleToggleRetired(option)}
+                      disabled={isProcessing}
+                      className={`px-3 py-1 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        option.retired_at
+                          ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                    >
+                      {option.retired_at ? 'Restore' : 'Retire'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSubmit(onAdd)} className="flex gap-2 items-start">
+            <div className="flex-1">
+              <input
+                {...register('value')}
+                type="text"
+                placeholder={`Add to ${LOOKUP_LIST_LABELS[listKey]}...`}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {errors.value && (
+                <p className="text-red-500 text-sm mt-1">{errors.value.message}</p>
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={isProcessing || isLoading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              Add Option
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
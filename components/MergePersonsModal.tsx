@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  getMergeCandidates,
+  mergePersons,
+  MERGE_UNDO_DAYS,
+  MERGEABLE_FIELDS,
+  type PersonRecord,
+} from '@/lib/utils/person-merge'
+
+interface MergePersonsModalProps {
+  survivorId: string
+  mergedId: string
+  encounterCounts: Record<string, number>
+  onClose: () => void
+  onMerged: (mergeId: string) => void
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+function formatValue(key: string, value: unknown): string {
+  if (isEmpty(value)) return '(empty)'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (key === 'photo_url') return 'Photo on file'
+  return String(value)
+}
+
+export default function MergePersonsModal({
+  survivorId,
+  mergedId,
+  encounterCounts,
+  onClose,
+  onMerged,
+}: MergePersonsModalProps) {
+  const [survivor, setSurvivor] = useState<PersonRecord | null>(null)
+  const [duplicate, setDuplicate] = useState<PersonRecord | null>(null)
+  // Fields where the duplicate's value should replace the survivor's
+  const [takeFromDuplicate, setTakeFromDuplicate] = useState<Set<string>>(new Set())
+  const [isMerging, setIsMerging] = useState(false)
+  const [loadError, setLoadError] = useState(false)
+
+  useEffect(() => {
+    const loadCandidates = async () => {
+      try {
+        const [survivorRow, duplicateRow] = await getMergeCandidates([survivorId, mergedId])
+        if (!survivorRow || !duplicateRow) throw new Error('Client not found')
+
+        setSurvivor(survivorRow)
+        setDuplicate(duplicateRow)
+        // Default to filling in anything the survivor is missing
+        setTakeFromDuplicate(new Set(
+          MERGEABLE_FIELDS
+            .filter(({ key }) => isEmpty(survivorRow[key]) && !isEmpty(duplicateRow[key]))
+            .map(({ key }) => key)
+        ))
+      } catch (error) {
+        console.error('Error loading clients to merge:', error)
+        setLoadError(true)
+      }
+    }
+
+    loadCandidates()
+  }, [survivorId, mergedId])
+
+  const differingFields = survivor && duplicate
+    ? MERGEABLE_FIELDS.filter(({ key }) =>
+        !(isEmpty(survivor[key]) && isEmpty(duplicate[key])) && survivor[key] !== duplicate[key]
+      )
+    : []
+
+  const choose = (key: string, fromDuplicate: boolean) => {
+    const next = new Set(takeFromDuplicate)
+    if (fromDuplicate) {
+      next.add(key)
+    } else {
+      next.delete(key)
+    }
+    setTakeFromDuplicate(next)
+  }
+
+  const handleMerge = async () => {
+    if (!survivor || !duplicate) return
+    setIsMerging(true)
+
+    try {
+      const fieldValues = Object.fromEntries(
+        differingFields
+          .filter(({ key }) => takeFromDuplicate.has(key))
+          .map(({ key }) => [key, duplicate[key] ?? null])
+      )
+      const mergeId = await mergePersons(survivor.id, duplicate.id, fieldValues)
+      onMerged(mergeId)
+      onClose()
+    } catch (error) {
+      console.error('Error merging duplicates:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      alert(`Error merging records: ${errorMessage}. Please try again.`)
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Merge Duplicate Records</h2>
+              <p className="text-gray-600 mt-1">
+                Choose which value to keep for each field that differs
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loadError ? (
+            <p className="text-red-600 py-8 text-center">Error loading client records. Please try again.</p>
+          ) : !survivor || !duplicate ? (
+            <p className="text-gray-600 py-8 text-center">Loading records...</p>
+          ) : (
+            <>
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4 text-sm text-blue-900">
+                <p>
+                  <span className="font-mono">{duplicate.client_id}</span> will be merged into{' '}
+                  <span className="font-mono">{survivor.client_id}</span>.
+                  Its {encounterCounts[duplicate.id] || 0} encounters, status history and enrollment
+                  episodes move to the kept record, and its client ID will still open the kept record.
+                </p>
+                <p className="mt-1">The merge can be undone for {MERGE_UNDO_DAYS} days.</p>
+              </div>
+
+              {differingFields.length === 0 ? (
+                <p className="text-sm text-gray-600 mb-4">Both records have the same values for every field.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 mb-4">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Field
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Keep ({survivor.client_id})
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Duplicate ({duplicate.client_id})
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {differingFields.map(({ key, label }) => (
+                      <tr key={key}>
+                        <td className="px-3 py-2 text-sm font-medium text-gray-700">{label}</td>
+                        <td className="px-3 py-2 text-sm">
+                          <label className="flex items-start space-x-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={key}
+                              checked={!takeFromDuplicate.has(key)}
+                              onChange={() => choose(key, false)}
+                              className="mt-1 h-4 w-4 text-green-600 focus:ring-green-500"
+                            />
+                            <span className="text-gray-900 break-all">{formatValue(key, survivor[key])}</span>
+                          </label>
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          <label className="flex items-start space-x-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={key}
+                              checked={takeFromDuplicate.has(key)}
+                              onChange={() => choose(key, true)}
+                              className="mt-1 h-4 w-4 text-green-600 focus:ring-green-500"
+                            />
+                            <span className="text-gray-900 break-all">{formatValue(key, duplicate[key])}</span>
+                          </label>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end space-x-4 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isMerging}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={isMerging || !survivor || !duplicate}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {isMerging ? 'Merging...' : 'Merge Records'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,14 @@
 'use client'
 
 import MetricCard from './MetricCard'
+import {
+  FENTANYL_STRIPS_SERVICE,
+  NALOXONE_SERVICE,
+  hasService,
+  serviceQuantity,
+  type EncounterService,
+} from '@/lib/utils/encounter-services'
+import type { HouseholdMembership } from '@/lib/utils/households'
 
 interface Person {
   id: string
@@ -28,10 +36,8 @@ interface Encounter {
   mat_provider?: string | null
   detox_referral: boolean
   detox_provider?: string | null
-  naloxone_distributed: boolean
   naloxone_date?: string | null
-  fentanyl_test_strips_count?: number | null
-  transportation_provided: boolean
+  encounter_services?: EncounterService[] | null
   placement_made?: boolean
   placement_location?: string | null
 }
@@ -46,16 +52,18 @@ interface MetricsGridProps {
     fentanylTestStrips: number
     transportationProvided: number
     exitsFromHomelessness: number
+    householdsServed: number
   }
   persons: Person[]
   encounters: Encounter[]
+  householdMemberships: HouseholdMembership[]
   demographics: {
     byGender: Record<string, number>
     byRace: Record<string, number>
   }
 }
 
-export default function MetricsGrid({ metrics, persons, encounters, demographics }: MetricsGridProps) {
+export default function MetricsGrid({ metrics, persons, encounters, householdMemberships, demographics }: MetricsGridProps) {
   // Build detail items for each metric
   const clientDetails = persons.map(p => ({
     id: p.id,
@@ -72,7 +80,7 @@ export default function MetricsGrid({ metrics, persons, encounters, demographics
   }))
 
   const naloxoneDetails = encounters
-    .filter(e => e.naloxone_distributed)
+    .filter(e => hasService(e, NALOXONE_SERVICE))
     .map(e => ({
       id: e.id || e.person_id + e.service_date,
       name: persons.find(p => p.id === e.person_id)?.first_name + ' ' + persons.find(p => p.id === e.person_id)?.last_name || 'Unknown',
@@ -121,16 +129,16 @@ export default function MetricsGrid({ metrics, persons, encounters, demographics
 
   // Fentanyl strips by encounter
   const fentanylDetails = encounters
-    .filter(e => e.fentanyl_test_strips_count && e.fentanyl_test_strips_count > 0)
+    .filter(e => serviceQuantity(e, FENTANYL_STRIPS_SERVICE) > 0)
     .map(e => ({
       id: e.id || e.person_id + e.service_date,
       name: persons.find(p => p.id === e.person_id)?.first_name + ' ' + persons.find(p => p.id === e.person_id)?.last_name || 'Unknown',
       date: new Date(e.service_date).toLocaleDateString(),
-      details: `${e.fentanyl_test_strips_count} strips distributed`,
+      details: `${serviceQuantity(e, FENTANYL_STRIPS_SERVICE)} strips distributed`,
     }))
 
   const transportationDetails = encounters
-    .filter(e => e.transportation_provided)
+    .filter(e => hasService(e, 'transportation'))
     .map(e => ({
       id: e.id || e.person_id + e.service_date,
       name: persons.find(p => p.id === e.person_id)?.first_name + ' ' + persons.find(p => p.id === e.person_id)?.last_name || 'Unknown',
@@ -147,6 +155,26 @@ export default function MetricsGrid({ metrics, persons, encounters, demographics
       details: e.placement_location || 'Placement',
     }))
 
+  // Served persons grouped by household; persons not in one are a household of one
+  const householdByPerson = new Map(householdMemberships.map(m => [m.person_id, m.household_id]))
+  const servedHouseholds = new Map<string, Person[]>()
+  persons.forEach(p => {
+    const key = householdByPerson.get(p.id) || `person:${p.id}`
+    servedHouseholds.set(key, [...(servedHouseholds.get(key) || []), p])
+  })
+
+  const householdDetails = Array.from(servedHouseholds.entries()).map(([key, members]) => ({
+    id: key,
+    name: members.map(p => `${p.first_name} ${p.last_name}`).join(', '),
+    details: members.length === 1 ? 'Individual' : `${members.length} members served`,
+  }))
+
+  const householdBreakdown: Record<string, number> = {}
+  servedHouseholds.forEach(members => {
+    const size = members.length === 1 ? 'Individuals' : 'Households of 2+'
+    householdBreakdown[size] = (householdBreakdown[size] || 0) + 1
+  })
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
       <MetricCard
@@ -163,6 +191,20 @@ export default function MetricsGrid({ metrics, persons, encounters, demographics
         }
       />
 
+      <MetricCard
+        title="Households Served"
+        value={metrics.householdsServed}
+        color="blue"
+        detailItems={householdDetails}
+        detailTitle="Households Served"
+        breakdown={householdBreakdown}
+        icon={
+          <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+          </svg>
+        }
+      />
+
       <MetricCard
         title="Total Interactions"
         value={metrics.totalInteractions}
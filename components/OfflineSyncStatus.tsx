@@ -0,0 +1,186 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { useOfflineQueue } from '@/lib/hooks/useOfflineQueue'
+import { getClientHref } from '@/lib/offline/sync'
+import DuplicateWarningModal from './DuplicateWarningModal'
+
+export default function OfflineSyncStatus() {
+  const router = useRouter()
+  const {
+    items,
+    pendingCount,
+    failedCount,
+    reviewCount,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retry,
+    discard,
+    resolveDuplicate,
+  } = useOfflineQueue()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [dismissedReviewIds, setDismissedReviewIds] = useState<string[]>([])
+
+  // Prompt for the first possible duplicate found at sync time
+  const reviewItem = items.find(
+    (i) => i.kind === 'person' && i.status === 'needs_review' && !dismissedReviewIds.includes(i.id)
+  )
+
+  // Nothing to show while online with an empty queue
+  if (isOnline && items.length === 0) return null
+
+  const handleDiscard = async (id: string, kind: string) => {
+    const message = kind === 'person'
+      ? 'Discard this unsynced client? The client and any service interactions logged for them will be lost.'
+      : 'Discard this unsynced record? The data will be lost.'
+    if (!confirm(message)) {
+      return
+    }
+    await discard(id)
+  }
+
+  const handleResolveDuplicate = async (existingPersonId: string | null) => {
+    if (!reviewItem) return
+    try {
+      const personId = await resolveDuplicate(reviewItem.id, existingPersonId)
+      router.push(`/client/${personId}`)
+    } catch (error) {
+      console.error('Error resolving duplicate:', error)
+      alert('Error syncing client. Please try again.')
+    }
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 max-w-sm w-full">
+      <div className={`rounded-lg shadow-lg border-2 ${failedCount > 0 || reviewCount > 0 ? 'bg-red-50 border-red-300' : 'bg-yellow-50 border-yellow-300'}`}>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full px-4 py-3 flex items-center justify-between text-left"
+        >
+          <div>
+            <p className="text-sm font-semibold text-gray-900">
+              {isOnline ? (isSyncing ? 'Syncing...' : 'Unsynced records') : '📴 Offline mode'}
+            </p>
+            <p className="text-xs text-gray-600">
+              {pendingCount} pending
+              {reviewCount > 0 && <span className="text-orange-700 font-medium"> • {reviewCount} to review</span>}
+              {failedCount > 0 && <span className="text-red-700 font-medium"> • {failedCount} failed</span>}
+            </p>
+          </div>
+          <svg
+            className={`h-5 w-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+          </svg>
+        </button>
+
+        {isExpanded && (
+          <div className="border-t border-gray-200 px-4 py-3 space-y-3">
+            {!isOnline && (
+              <p className="text-xs text-gray-600">
+                Records are saved on this device and will sync automatically when you&apos;re back online.
+              </p>
+            )}
+
+            {items.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No records waiting to sync</p>
+            ) : (
+              <ul className="space-y-2 max-h-64 overflow-y-auto">
+                {items.map((item) => (
+                  <li key={item.id} className="bg-white rounded border border-gray-200 p-2 text-sm">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        {item.kind === 'person' ? (
+                          <Link href={getClientHref(item.person_id)} className="font-medium text-blue-700 hover:underline">
+                            New client: {item.label}
+                          </Link>
+                        ) : (
+                          <p className="font-medium text-gray-900">{item.label}</p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Saved {format(new Date(item.created_at), 'MM/dd/yyyy h:mm a')}
+                        </p>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        item.status === 'failed'
+                          ? 'bg-red-100 text-red-800'
+                          : item.status === 'needs_review'
+                          ? 'bg-orange-100 text-orange-800'
+                          : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {item.status === 'failed' ? 'Failed' : item.status === 'needs_review' ? 'Possible duplicate' : 'Pending'}
+                      </span>
+                    </div>
+                    {item.last_error && (
+                      <p className="text-xs text-red-600 mt-1">{item.last_error}</p>
+                    )}
+                    <div className="flex gap-3 mt-2">
+                      {item.status === 'needs_review' ? (
+                        <button
+                          type="button"
+                          onClick={() => setDismissedReviewIds(dismissedReviewIds.filter((id) => id !== item.id))}
+                          disabled={!isOnline || isSyncing}
+                          className="text-xs text-orange-700 underline hover:text-orange-800 disabled:text-gray-400 disabled:no-underline"
+                        >
+                          Review
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => retry(item.id)}
+                          disabled={!isOnline || isSyncing}
+                          className="text-xs text-blue-700 underline hover:text-blue-800 disabled:text-gray-400 disabled:no-underline"
+                        >
+                          Retry
+                        </button>
+                      )}
+                      {item.status !== 'pending' && (
+                        <button
+                          type="button"
+                          onClick={() => handleDiscard(item.id, item.kind)}
+                          className="text-xs text-red-700 underline hover:text-red-800"
+                        >
+                          Discard
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {isOnline && items.length > 0 && (
+              <button
+                type="button"
+                onClick={() => syncNow(true)}
+                disabled={isSyncing}
+                className="w-full px-3 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSyncing ? 'Syncing...' : 'Sync All Now'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {reviewItem && reviewItem.kind === 'person' && (
+        <DuplicateWarningModal
+          isOpen={isOnline && !isSyncing}
+          similarPersons={reviewItem.similar_persons || []}
+          enteredName={reviewItem.label}
+          onSelectExisting={(personId) => handleResolveDuplicate(personId)}
+          onCreateNew={() => handleResolveDuplicate(null)}
+          onCancel={() => setDismissedReviewIds([...dismissedReviewIds, reviewItem.id])}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { format } from 'date-fns'
+import {
+  listQueued,
+  getResolvedPersonId,
+  QUEUE_CHANGED_EVENT,
+  type EncounterQueueItem,
+  type PersonQueueItem,
+} from '@/lib/offline/queue'
+
+interface PendingPerson {
+  first_name: string
+  last_name: string
+  nickname?: string | null
+  date_of_birth?: string | null
+  gender?: string
+  living_situation?: string
+  enrollment_date?: string
+  case_manager?: string | null
+}
+
+export default function PendingClientProfile() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const provisionalId = searchParams.get('id') || ''
+  const [personItem, setPersonItem] = useState<PersonQueueItem | null>(null)
+  const [encounterItems, setEncounterItems] = useState<EncounterQueueItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const items = await listQueued()
+      const person = items.find(
+        (i): i is PersonQueueItem => i.kind === 'person' && i.person_id === provisionalId
+      ) || null
+
+      if (!person) {
+        // Already synced - go to the real profile
+        const personId = getResolvedPersonId(provisionalId)
+        if (personId) {
+          router.replace(`/client/${personId}`)
+          return
+        }
+      }
+
+      setPersonItem(person)
+      setEncounterItems(items.filter(
+        (i): i is EncounterQueueItem => i.kind === 'encounter' && i.person_id === provisionalId
+      ))
+    } catch (error) {
+      console.error('Error loading offline client:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [provisionalId, router])
+
+  useEffect(() => {
+    refresh()
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh)
+    return () => window.removeEventListener(QUEUE_CHANGED_EVENT, refresh)
+  }, [refresh])
+
+  if (isLoading) {
+    return <p className="text-gray-500">Loading...</p>
+  }
+
+  if (!personItem) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <p className="text-gray-700">
+          This client is not saved on this device. It may have been discarded, or synced from another session.
+        </p>
+      </div>
+    )
+  }
+
+  const person = personItem.payload.person as unknown as PendingPerson
+
+  return (
+    <div className="space-y-6">
+      {/* Sync status */}
+      <div className={`rounded-lg border-2 p-4 ${personItem.status === 'pending' ? 'bg-yellow-50 border-yellow-300' : 'bg-red-50 border-red-300'}`}>
+        <p className="font-semibold text-gray-900">
+          {personItem.status === 'pending' && 'Saved on this device - waiting to sync'}
+          {personItem.status === 'needs_review' && 'Possible duplicate - review required before syncing'}
+          {personItem.status === 'failed' && 'Sync failed'}
+        </p>
+        <p className="text-sm text-gray-600 mt-1">
+          {personItem.status === 'needs_review'
+            ? 'Open the sync panel to choose an existing client or create a new one.'
+            : 'This client has a provisional ID until it is created on the server.'}
+        </p>
+        {personItem.last_error && (
+          <p className="text-sm text-red-600 mt-1">{personItem.last_error}</p>
+        )}
+      </div>
+
+      {/* Client details */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900">
+              {person.first_name} {person.last_name}
+              {person.nickname && (
+                <span className="text-xl text-gray-500 ml-2">&quot;{person.nickname}&quot;</span>
+              )}
+            </h2>
+            <p className="text-gray-600 mt-1">
+              Client ID: <span className="font-mono">{personItem.payload.provisional_client_id}</span>
+            </p>
+          </div>
+          <Link
+            href={`/client/pending/encounter?id=${encodeURIComponent(provisionalId)}`}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            New Service Interaction
+          </Link>
+        </div>
+
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-6 text-sm">
+          {person.date_of_birth && (
+            <div>
+              <dt className="text-gray-500">Date of Birth</dt>
+              <dd className="text-gray-900">{format(new Date(person.date_of_birth + 'T00:00:00'), 'MM/dd/yyyy')}</dd>
+            </div>
+          )}
+          {person.gender && (
+            <div>
+              <dt className="text-gray-500">Gender</dt>
+              <dd className="text-gray-900">{person.gender}</dd>
+            </div>
+          )}
+          {person.living_situation && (
+            <div>
+              <dt className="text-gray-500">Living Situation</dt>
+              <dd className="text-gray-900">{person.living_situation}</dd>
+            </div>
+          )}
+          {person.enrollment_date && (
+            <div>
+              <dt className="text-gray-500">Enrollment Date</dt>
+              <dd className="text-gray-900">{format(new Date(person.enrollment_date + 'T00:00:00'), 'MM/dd/yyyy')}</dd>
+            </div>
+          )}
+          {person.case_manager && (
+            <div>
+              <dt className="text-gray-500">Case Manager</dt>
+              <dd className="text-gray-900">{person.case_manager}</dd>
+            </div>
+          )}
+        </dl>
+      </div>
+
+      {/* Queued encounters */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-xl font-semibold text-gray-900 mb-4">
+          Service Interactions ({encounterItems.length})
+        </h3>
+        {encounterItems.length === 0 ? (
+          <p className="text-gray-500 italic">No service interactions logged yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {encounterItems.map((item) => (
+              <li key={item.id} className="py-3 flex justify-between text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {String(item.payload.encounter.outreach_location || 'Service interaction')}
+                  </p>
+                  <p className="text-gray-500">
+                    {format(new Date(String(item.payload.encounter.service_date)), 'MM/dd/yyyy')} • {String(item.payload.encounter.outreach_worker || '')}
+                  </p>
+                </div>
+                <span className="self-start px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                  Waiting to sync
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
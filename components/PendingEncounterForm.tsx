@@ -0,0 +1,54 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { listQueued } from '@/lib/offline/queue'
+import ServiceInteractionForm from './ServiceInteractionForm'
+
+export default function PendingEncounterForm() {
+  const searchParams = useSearchParams()
+  const provisionalId = searchParams.get('id') || ''
+  const [personName, setPersonName] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const loadPerson = async () => {
+      try {
+        const item = (await listQueued()).find(
+          (i) => i.kind === 'person' && i.person_id === provisionalId
+        )
+        setPersonName(item ? item.label : null)
+      } catch (error) {
+        console.error('Error loading offline client:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPerson()
+  }, [provisionalId])
+
+  if (isLoading) {
+    return <p className="text-gray-500">Loading...</p>
+  }
+
+  if (!personName) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <p className="text-gray-700">This client is not saved on this device.</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <h2 className="text-3xl font-bold text-gray-900 mb-2">
+        New Service Interaction
+      </h2>
+      <p className="text-gray-600 mb-8">
+        Logging for {personName} (not yet synced)
+      </p>
+      <ServiceInteractionForm personId={provisionalId} personName={personName} />
+    </>
+  )
+}
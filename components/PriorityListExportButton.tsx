@@ -0,0 +1,91 @@
+'use client'
+
+import { format } from 'date-fns'
+import { exportToCSV } from '@/lib/utils/export-csv'
+import { createClient } from '@/lib/supabase/client'
+import { logAuditEvent } from '@/lib/utils/audit'
+import { ACUITY_LABELS } from '@/lib/schemas/assessment-schema'
+import type { PriorityListEntry } from '@/lib/utils/assessments'
+import { COORDINATED_ENTRY_ROI_RECIPIENT } from '@/lib/schemas/roi-schema'
+import { fetchConsentedPersonIds } from '@/lib/utils/roi'
+
+interface PriorityListExportButtonProps {
+  entries: PriorityListEntry[]
+}
+
+export default function PriorityListExportButton({ entries }: PriorityListExportButtonProps) {
+  const handleExport = async () => {
+    const supabase = createClient()
+
+    let consented: Set<string>
+    try {
+      consented = await fetchConsentedPersonIds(supabase, COORDINATED_ENTRY_ROI_RECIPIENT)
+    } catch (error) {
+      console.error('Error checking releases of information:', error)
+      alert('Error checking releases of information. Please try again.')
+      return
+    }
+
+    // Clients without consent are left out; the rest keep their rank on the full list
+    const shared = entries
+      .map((entry, index) => ({ ...entry, rank: index + 1 }))
+      .filter(({ person }) => consented.has(person.id))
+    const excluded = entries.length - shared.length
+
+    logAuditEvent(supabase, {
+      action: 'export',
+      entity_type: 'assessments',
+      details: {
+        format: 'csv',
+        files: ['prioritization_list'],
+        recipient: COORDINATED_ENTRY_ROI_RECIPIENT,
+        client_count: shared.length,
+        excluded_without_roi: excluded,
+      },
+    })
+
+    exportToCSV(
+      shared.map(({ person, assessment, rank }) => ({
+        'Rank': rank,
+        'Client ID': person.client_id,
+        'First Name': person.first_name,
+        'Last Name': person.last_name,
+        'Score': assessment.total_score,
+        'Acuity': ACUITY_LABELS[assessment.acuity],
+        'Chronically Homeless': person.chronic_homeless ? 'Yes' : 'No',
+        'Veteran': person.veteran_status ? 'Yes' : 'No',
+        'Time Homeless': person.length_of_time_homeless || '',
+        'Assessed On': assessment.assessed_on,
+        'Assessed By': assessment.assessed_by || '',
+        'Assessment Version': `${assessment.definition_key} v${assessment.definition_version}`,
+      })),
+      `encinitas_street_reach_prioritization_${format(new Date(), 'yyyy-MM-dd')}.csv`
+    )
+
+    if (excluded > 0) {
+      alert(`${excluded} client(s) without an active release of information for ${COORDINATED_ENTRY_ROI_RECIPIENT} were left out of the export.`)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleExport}
+      className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium inline-flex items-center"
+    >
+      <svg
+        className="w-5 h-5 mr-2"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+        />
+      </svg>
+      Export CSV
+    </button>
+  )
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  REFERRAL_STATUSES,
+  REFERRAL_STATUS_LABELS,
+  REFERRAL_TYPE_LABELS,
+  referralUpdateSchema,
+  type ReferralStatus,
+  type ReferralUpdateData,
+} from '@/lib/schemas/referral-schema'
+import {
+  isReferralOpen,
+  isReferralOverdue,
+  referralFollowUpDate,
+  updateReferral,
+  type Referral,
+} from '@/lib/utils/referrals'
+
+const STATUS_STYLES: Record<ReferralStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-blue-100 text-blue-800',
+  attended: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-200 text-gray-700',
+  no_show: 'bg-red-100 text-red-800',
+}
+
+interface ReferralListProps {
+  initialReferrals: Referral[]
+  // Show the client's name on each referral (for lists spanning clients)
+  showClient?: boolean
+  // Drop referrals from the list once they are closed
+  hideClosed?: boolean
+  emptyMessage?: string
+}
+
+export default function ReferralList({
+  initialReferrals,
+  showClient = false,
+  hideClosed = false,
+  emptyMessage = 'No referrals recorded',
+}: ReferralListProps) {
+  const router = useRouter()
+  const [referrals, setReferrals] = useState(initialReferrals)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const handleSaved = (updated: Referral) => {
+    setReferrals(
+      referrals
+        .map((r) => (r.id === updated.id ? { ...updated, person: r.person } : r))
+        .filter((r) => !hideClosed || isReferralOpen(r))
+    )
+    setEditingId(null)
+    // Refresh open and overdue counts rendered by the page
+    router.refresh()
+  }
+
+  if (referrals.length === 0) {
+    return <p className="text-gray-500 py-4">{emptyMessage}</p>
+  }
+
+  return (
+    <ul className="space-y-3">
+      {referrals.map((referral) => {
+        const overdue = isReferralOverdue(referral)
+        return (
+          <li
+            key={referral.id}
+            className={`rounded-lg border p-4 ${overdue ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-white'}`}
+          >
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-gray-900">
+                    {REFERRAL_TYPE_LABELS[referral.referral_type]} referral
+                    {referral.provider && <span className="font-normal text-gray-700"> to {referral.provider}</span>}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[referral.status]}`}>
+                    {REFERRAL_STATUS_LABELS[referral.status]}
+                  </span>
+                  {overdue && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-600 text-white">
+                      Follow-up overdue
+                    </span>
+                  )}
+                </div>
+                {showClient && referral.person && (
+                  <Link
+                    href={`/client/${referral.person.id}`}
+                    className="text-sm text-blue-700 hover:text-blue-800 font-medium"
+                  >
+                    {referral.person.first_name} {referral.person.last_name} ({referral.person.client_id})
+                  </Link>
+                )}
+                <p className="text-sm text-gray-600 mt-1">
+                  Referred {format(parseISO(referral.referred_on), 'MM/dd/yyyy')}
+                  {referral.referred_by_email && ` by ${referral.referred_by_email}`}
+                  {isReferralOpen(referral)
+                    ? ` · Follow up by ${format(parseISO(referralFollowUpDate(referral)), 'MM/dd/yyyy')}`
+                    : referral.outcome_date && ` · ${REFERRAL_STATUS_LABELS[referral.status]} ${format(parseISO(referral.outcome_date), 'MM/dd/yyyy')}`}
+                </p>
+                {referral.notes && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{referral.notes}</p>
+                )}
+              </div>
+              {editingId !== referral.id && (
+                <button
+                  onClick={() => setEditingId(referral.id)}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+                >
+                  Update Status
+                </button>
+              )}
+            </div>
+
+            {editingId === referral.id && (
+              <ReferralStatusForm
+                referral={referral}
+                onSaved={handleSaved}
+                onCancel={() => setEditingId(null)}
+              />
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+function ReferralStatusForm({
+  referral,
+  onSaved,
+  onCancel,
+}: {
+  referral: Referral
+  onSaved: (referral: Referral) => void
+  onCancel: () => void
+}) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ReferralUpdateData>({
+    resolver: zodResolver(referralUpdateSchema),
+    defaultValues: {
+      status: referral.status,
+      outcome_date: format(new Date(), 'yyyy-MM-dd'),
+      notes: referral.notes || '',
+    },
+  })
+
+  const onSubmit = async (data: ReferralUpdateData) => {
+    if (data.outcome_date && data.outcome_date < referral.referred_on) {
+      alert('The outcome date cannot be before the referral was made.')
+      return
+    }
+
+    try {
+      onSaved(await updateReferral(referral.id, data))
+    } catch (error) {
+      console.error('Error updating referral:', error)
+      alert('Error updating referral. Please try again.')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+        <select
+          {...register('status')}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {REFERRAL_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {REFERRAL_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Outcome Date</label>
+        <input
+          {...register('outcome_date')}
+          type="date"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {errors.outcome_date && (
+          <p className="text-red-500 text-sm mt-1">{errors.outcome_date.message}</p>
+        )}
+      </div>
+      <div className="md:col-span-3">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          {...register('notes')}
+          rows={2}
+          placeholder="e.g. Intake appointment Tuesday 9am"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {errors.notes && (
+          <p className="text-red-500 text-sm mt-1">{errors.notes.message}</p>
+        )}
+      </div>
+      <div className="md:col-span-3 flex gap-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  reportPdfCoverSchema,
+  type ReportOptions,
+  type ReportPdfCover,
+} from '@/lib/schemas/report-schema'
+
+// localStorage key for the last cover page settings used
+const COVER_SETTINGS_KEY = 'report-pdf-cover'
+
+const DEFAULT_COVER: ReportPdfCover = {
+  include_cover: true,
+  title: 'Street Outreach Program Report',
+  organization: 'San Diego Rescue Mission',
+  prepared_for: '',
+  prepared_by: '',
+  notes: '',
+}
+
+function loadCoverSettings(): ReportPdfCover {
+  if (typeof localStorage === 'undefined') return DEFAULT_COVER
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(COVER_SETTINGS_KEY) || '{}')
+    return { ...DEFAULT_COVER, ...saved }
+  } catch {
+    return DEFAULT_COVER
+  }
+}
+
+interface ReportPdfModalProps {
+  options: ReportOptions
+  runId?: string | null
+  onClose: () => void
+}
+
+export default function ReportPdfModal({ options, runId, onClose }: ReportPdfModalProps) {
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ReportPdfCover>({
+    resolver: zodResolver(reportPdfCoverSchema),
+    defaultValues: loadCoverSettings(),
+  })
+
+  const includeCover = watch('include_cover')
+
+  const onSubmit = async (cover: ReportPdfCover) => {
+    setIsDownloading(true)
+
+    try {
+      localStorage.setItem(COVER_SETTINGS_KEY, JSON.stringify(cover))
+
+      // Past runs are rendered from their stored results so the PDF matches the history
+      const response = await fetch('/api/reports/pdf', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(runId ? { runId, cover } : { options, cover }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to create PDF')
+      }
+
+      const blob = await response.blob()
+      const dateRange = options.startDate && options.endDate
+        ? `_${options.startDate}_to_${options.endDate}`
+        : '_all_time'
+
+      const link = document.createElement('a')
+      const url = URL.createObjectURL(blob)
+      link.setAttribute('href', url)
+      link.setAttribute('download', `funder_report${dateRange}.pdf`)
+      link.style.visibility = 'hidden'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      onClose()
+    } catch (error) {
+      console.error('Report PDF error:', error)
+      alert('Error creating PDF. Please try again.')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Download PDF</h2>
+              <p className="text-gray-600 mt-1">
+                Funder-ready report with charts and summary tables
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Report Title <span className="text-red-500">*</span>
+              </label>
+              <input
+                {...register('title')}
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              {errors.title && (
+                <p className="text-red-500 text-sm mt-1">{errors.title.message}</p>
+              )}
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                {...register('include_cover')}
+                type="checkbox"
+                className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Include cover page</span>
+            </label>
+
+            {includeCover && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Organization
+                  </label>
+                  <input
+                    {...register('organization')}
+                    type="text"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Prepared For
+                    </label>
+                    <input
+                      {...register('prepared_for')}
+                      type="text"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                      placeholder="e.g. City of San Diego"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Prepared By
+                    </label>
+                    <input
+                      {...register('prepared_by')}
+                      type="text"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes
+                  </label>
+                  <textarea
+                    {...register('notes')}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    placeholder="Shown on the cover page"
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end space-x-4 pt-4 border-t">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isDownloading}
+                className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isDownloading}
+                className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isDownloading ? 'Creating PDF...' : 'Download PDF'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
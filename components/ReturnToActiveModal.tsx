@@ -5,18 +5,24 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase/client'
+import { startEnrollment } from '@/lib/utils/enrollments'
 
-const returnToActiveSchema = z.object({
+// The new episode can't start before the last one ended, or they'd overlap
+const buildReturnToActiveSchema = (lastExitDate?: string | null) => z.object({
   return_date: z.string().min(1, 'Return date is required'),
   notes: z.string().optional(),
+}).refine((data) => !lastExitDate || data.return_date >= lastExitDate, {
+  message: 'Return date cannot be before the last exit date',
+  path: ['return_date'],
 })
 
-type ReturnToActiveFormData = z.infer<typeof returnToActiveSchema>
+type ReturnToActiveFormData = z.infer<ReturnType<typeof buildReturnToActiveSchema>>
 
 interface ReturnToActiveModalProps {
   isOpen: boolean
   personId: string
   personName: string
+  lastExitDate?: string | null // YYYY-MM-DD
   onClose: () => void
   onSuccess: () => void
 }
@@ -25,6 +31,7 @@ export default function ReturnToActiveModal({
   isOpen,
   personId,
   personName,
+  lastExitDate,
   onClose,
   onSuccess,
 }: ReturnToActiveModalProps) {
@@ -44,7 +51,7 @@ export default function ReturnToActiveModal({
     formState: { errors },
     reset,
   } = useForm<ReturnToActiveFormData>({
-    resolver: zodResolver(returnToActiveSchema),
+    resolver: zodResolver(buildReturnToActiveSchema(lastExitDate)),
     defaultValues: {
       return_date: getLocalDateString(),
       notes: '',
@@ -59,7 +66,10 @@ export default function ReturnToActiveModal({
       // Get current user for tracking who made the change
       const { data: { user } } = await supabase.auth.getUser()
 
-      // First, log the return to active in status_changes
+      // Open a new enrollment episode for the client
+      await startEnrollment(personId, data.return_date, user?.email || 'Unknown')
+
+      // Then log the return to active in status_changes
       const { error: statusError } = await supabase
         .from('status_changes')
         .insert({
@@ -72,18 +82,6 @@ export default function ReturnToActiveModal({
 
       if (statusError) throw statusError
 
-      // Then, clear the exit fields on the person record
-      const { error: personError } = await supabase
-        .from('persons')
-        .update({
-          exit_date: null,
-          exit_destination: null,
-          exit_notes: null,
-        } as never)
-        .eq('id', personId)
-
-      if (personError) throw personError
-
       reset()
       onSuccess()
       onClose()
@@ -144,6 +142,7 @@ export default function ReturnToActiveModal({
               <input
                 {...register('return_date')}
                 type="date"
+                min={lastExitDate || undefined}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
               />
               {errors.return_date && (
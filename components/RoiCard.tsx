@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { addMonths, format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { useLookupOptions } from '@/lib/hooks/useLookupOptions'
+import { DEFAULT_ROI_TERM_MONTHS, roiFormSchema } from '@/lib/schemas/roi-schema'
+import {
+  fetchPersonRois,
+  getRoiStatus,
+  isRoiActive,
+  revokeRoi,
+  saveRoi,
+  type ReleaseOfInformation,
+} from '@/lib/utils/roi'
+import SignaturePad from './SignaturePad'
+
+interface RoiCardProps {
+  personId: string
+  personName: string
+  initialRois: ReleaseOfInformation[]
+}
+
+export default function RoiCard({ personId, personName, initialRois }: RoiCardProps) {
+  const lookups = useLookupOptions()
+  const [rois, setRois] = useState(initialRois)
+  const [showForm, setShowForm] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [recipients, setRecipients] = useState<string[]>([])
+  const [effectiveOn, setEffectiveOn] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [expiresOn, setExpiresOn] = useState(format(addMonths(new Date(), DEFAULT_ROI_TERM_MONTHS), 'yyyy-MM-dd'))
+  const [signature, setSignature] = useState<string | null>(null)
+  const [notes, setNotes] = useState('')
+
+  const status = getRoiStatus(rois)
+  const latest = rois[0]
+
+  const reload = async () => {
+    setRois(await fetchPersonRois(createClient(), personId))
+  }
+
+  const toggleRecipient = (recipient: string) => {
+    setRecipients(recipients.includes(recipient)
+      ? recipients.filter((r) => r !== recipient)
+      : [...recipients, recipient])
+  }
+
+  const handleSave = async () => {
+    const result = roiFormSchema.safeParse({
+      recipients,
+      effective_on: effectiveOn,
+      expires_on: expiresOn,
+      signature: signature || '',
+      notes: notes.trim() || null,
+    })
+    if (!result.success) {
+      alert(result.error.issues[0]?.message || 'Invalid release')
+      return
+    }
+
+    setBusy(true)
+    try {
+      await saveRoi(personId, result.data)
+      setShowForm(false)
+      setRecipients([])
+      setSignature(null)
+      setNotes('')
+      await reload()
+    } catch (error) {
+      console.error('Error saving release of information:', error)
+      alert('Error saving release of information. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRevoke = async (roi: ReleaseOfInformation) => {
+    const reason = prompt(`Revoke this release for ${personName}? Sharing with ${roi.recipients.join(', ')} stops today.\n\nReason (optional):`)
+    if (reason === null) return
+
+    setBusy(true)
+    try {
+      await revokeRoi(roi.id, reason.trim())
+      await reload()
+    } catch (error) {
+      console.error('Error revoking release of information:', error)
+      alert('Error revoking release of information. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-8 mb-6 ${status === 'active' ? '' : 'border-2 border-orange-300'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-semibold">Releases of Information</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          disabled={busy}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {showForm ? 'Cancel' : '+ New Release'}
+        </button>
+      </div>
+
+      {status !== 'active' && (
+        <p className="text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded p-3 mb-4">
+          {status === 'none' && 'No release of information on file. '}
+          {status === 'expired' && `Release of information expired on ${format(parseISO(latest.expires_on), 'MM/dd/yyyy')}. `}
+          {status === 'revoked' && `Release of information was revoked on ${format(parseISO(latest.revoked_on as string), 'MM/dd/yyyy')}. `}
+          This client is left out of exports to partner agencies until a new release is signed.
+        </p>
+      )}
+
+      {showForm && (
+        <div className="border-t border-gray-200 pt-4 mb-6 space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">
+              {personName} authorizes sharing with <span className="text-red-500">*</span>
+            </legend>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {lookups.roi_recipient.map((recipient) => (
+                <label key={recipient} className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={recipients.includes(recipient)}
+                    onChange={() => toggleRecipient(recipient)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-700">{recipient}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-w-xl">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Effective</label>
+              <input
+                type="date"
+                value={effectiveOn}
+                onChange={(e) => setEffectiveOn(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+              <input
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional), e.g. limits the client placed on sharing"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Client Signature <span className="text-red-500">*</span>
+            </label>
+            <SignaturePad onChange={setSignature} />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={busy}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Saving...' : 'Save Release'}
+          </button>
+        </div>
+      )}
+
+      {rois.length > 0 && (
+        <ul className="divide-y divide-gray-200">
+          {rois.map((roi) => {
+            const active = isRoiActive(roi)
+            return (
+              <li key={roi.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'}`}>
+                      {active ? 'Active' : roi.revoked_on ? 'Revoked' : roi.effective_on > format(new Date(), 'yyyy-MM-dd') ? 'Not yet effective' : 'Expired'}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {format(parseISO(roi.effective_on), 'MM/dd/yyyy')} - {format(parseISO(roi.expires_on), 'MM/dd/yyyy')}
+                      {roi.created_by && ` · witnessed by ${roi.created_by}`}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-900 mt-1">{roi.recipients.join(', ')}</p>
+                  {roi.notes && <p className="text-sm text-gray-700">{roi.notes}</p>}
+                  {roi.revoked_on && (
+                    <p className="text-sm text-gray-600">
+                      Revoked {format(parseISO(roi.revoked_on), 'MM/dd/yyyy')}
+                      {roi.revoked_by && ` by ${roi.revoked_by}`}
+                      {roi.revoked_reason && `: ${roi.revoked_reason}`}
+                    </p>
+                  )}
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={roi.signature} alt="Client signature" className="h-12 mt-2 border border-gray-200 rounded bg-white" />
+                </div>
+                {!roi.revoked_on && roi.expires_on >= format(new Date(), 'yyyy-MM-dd') && (
+                  <button
+                    onClick={() => handleRevoke(roi)}
+                    disabled={busy}
+                    className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  reportDefinitionSchema,
+  REPORT_DATE_RANGE_LABELS,
+  REPORT_DATE_RANGES,
+  type ReportDefinitionFormData,
+  type ReportSelection,
+} from '@/lib/schemas/report-schema'
+import { saveReportDefinition, type ReportDefinition } from '@/lib/utils/report-definitions'
+
+interface SaveReportModalProps {
+  selection: ReportSelection
+  startDate: string
+  endDate: string
+  existing?: ReportDefinition | null
+  onClose: () => void
+  onSaved: (definition: ReportDefinition) => void
+}
+
+export default function SaveReportModal({
+  selection,
+  startDate,
+  endDate,
+  existing,
+  onClose,
+  onSaved,
+}: SaveReportModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ReportDefinitionFormData>({
+    resolver: zodResolver(reportDefinitionSchema),
+    defaultValues: {
+      name: existing?.name || '',
+      description: existing?.description || '',
+      is_shared: existing?.is_shared || false,
+      date_range: existing?.date_range || 'last_full_month',
+      start_date: existing?.start_date || startDate,
+      end_date: existing?.end_date || endDate,
+      schedule: existing?.schedule || 'none',
+    },
+  })
+
+  const dateRange = watch('date_range')
+
+  const onSubmit = async (data: ReportDefinitionFormData) => {
+    setIsSubmitting(true)
+
+    try {
+      const timeZone = existing?.time_zone || Intl.DateTimeFormat().resolvedOptions().timeZone
+      const definition = await saveReportDefinition(data, selection, timeZone, existing?.id)
+      onSaved(definition)
+      onClose()
+    } catch (error) {
+      console.error('Error saving report definition:', error)
+      alert('Error saving report. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">
+                {existing ? 'Update Saved Report' : 'Save Report'}
+              </h2>
+              <p className="text-gray-600 mt-1">
+                Saves the current metric, breakdown and filter selections
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Report Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                {...register('name')}
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                placeholder="e.g. Monthly funder report"
+              />
+              {errors.name && (
+                <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                {...register('description')}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date Range
+              </label>
+              <select
+                {...register('date_range')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                {REPORT_DATE_RANGES.map((range) => (
+                  <option key={range} value={range}>
+                    {REPORT_DATE_RANGE_LABELS[range]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Relative ranges are worked out each time the report runs.
+              </p>
+            </div>
+
+            {dateRange === 'custom' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Start Date
+                  </label>
+                  <input
+                    {...register('start_date')}
+                    type="date"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Date
+                  </label>
+                  <input
+                    {...register('end_date')}
+                    type="date"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Schedule
+              </label>
+              <select
+                {...register('schedule')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="none">Not scheduled</option>
+                <option value="weekly">Weekly (Mondays)</option>
+                <option value="monthly">Monthly (1st of the month)</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Scheduled runs are saved to the report history.
+              </p>
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                {...register('is_shared')}
+                type="checkbox"
+                className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Share with all staff</span>
+            </label>
+
+            <div className="flex justify-end space-x-4 pt-4 border-t">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Report'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  REPORT_DATE_RANGE_LABELS,
+  type ReportOptions,
+  type ReportSelection,
+} from '@/lib/schemas/report-schema'
+import {
+  deleteReportDefinition,
+  getReportRun,
+  listReportDefinitions,
+  listReportRuns,
+  type ReportDefinition,
+  type ReportRun,
+  type ReportRunSummary,
+} from '@/lib/utils/report-definitions'
+import type { GeneratedReport } from '@/lib/utils/report-engine'
+import SaveReportModal from './SaveReportModal'
+
+interface SavedReportsProps {
+  getSelection: () => ReportSelection
+  startDate: string
+  endDate: string
+  onLoad: (definition: ReportDefinition) => void
+  onShowReport: (report: GeneratedReport, options: ReportOptions, runId?: string) => void
+}
+
+export default function SavedReports({
+  getSelection,
+  startDate,
+  endDate,
+  onLoad,
+  onShowReport,
+}: SavedReportsProps) {
+  const [definitions, setDefinitions] = useState<ReportDefinition[]>([])
+  const [selectedId, setSelectedId] = useState('')
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [runs, setRuns] = useState<ReportRunSummary[] | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [saveMode, setSaveMode] = useState<'new' | 'update' | null>(null)
+
+  useEffect(() => {
+    const loadDefinitions = async () => {
+      try {
+        const supabase = createClient()
+        const { data: { user } } = await supabase.auth.getUser()
+        setCurrentUserId(user?.id || null)
+        setDefinitions(await listReportDefinitions())
+      } catch (error) {
+        console.error('Error loading saved reports:', error)
+      }
+    }
+
+    loadDefinitions()
+  }, [])
+
+  const selected = definitions.find((d) => d.id === selectedId) || null
+  const isOwner = !!selected && selected.owner_id === currentUserId
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id)
+    setRuns(null)
+    const definition = definitions.find((d) => d.id === id)
+    if (definition) onLoad(definition)
+  }
+
+  const handleRun = async () => {
+    if (!selected) return
+    setIsRunning(true)
+
+    try {
+      const response = await fetch(`/api/reports/definitions/${selected.id}/run`, {
+        method: 'POST',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to run report')
+      }
+
+      const { run } = await response.json() as { run: ReportRun }
+      if (runs) setRuns([run, ...runs])
+      onShowReport(run.report, run.options, run.id)
+    } catch (error) {
+      console.error('Error running saved report:', error)
+      alert('Error running report. Please try again.')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleToggleHistory = async () => {
+    if (!selected) return
+    if (runs) {
+      setRuns(null)
+      return
+    }
+
+    try {
+      setRuns(await listReportRuns(selected.id))
+    } catch (error) {
+      console.error('Error loading report history:', error)
+      alert('Error loading report history. Please try again.')
+    }
+  }
+
+  const handleOpenRun = async (runId: string) => {
+    try {
+      const run = await getReportRun(runId)
+      onShowReport(run.report, run.options, run.id)
+    } catch (error) {
+      console.error('Error loading past report:', error)
+      alert('Error loading past report. Please try again.')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected) return
+    if (!confirm(`Delete the saved report "${selected.name}"? Past runs stay in the report history.`)) return
+
+    try {
+      await deleteReportDefinition(selected.id)
+      setDefinitions(definitions.filter((d) => d.id !== selected.id))
+      setSelectedId('')
+      setRuns(null)
+    } catch (error) {
+      console.error('Error deleting saved report:', error)
+      alert('Error deleting report. Please try again.')
+    }
+  }
+
+  const handleSaved = (definition: ReportDefinition) => {
+    const others = definitions.filter((d) => d.id !== definition.id)
+    setDefinitions([...others, definition].sort((a, b) => a.name.localeCompare(b.name)))
+    setSelectedId(definition.id)
+    setRuns(null)
+  }
+
+  return (
+    <div className="bg-white rounded-lg p-4 mb-4">
+      <h4 className="font-semibold text-gray-800 mb-3">Saved Reports</h4>
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+        >
+          <option value="">Select a saved report...</option>
+          {definitions.map((definition) => (
+            <option key={definition.id} value={definition.id}>
+              {definition.name}
+              {definition.is_shared ? ' (shared)' : ''}
+              {definition.schedule !== 'none' ? ` - runs ${definition.schedule}` : ''}
+            </option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleRun}
+            disabled={!selected || isRunning}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isRunning ? 'Running...' : 'Run'}
+          </button>
+          <button
+            onClick={handleToggleHistory}
+            disabled={!selected}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {runs ? 'Hide History' : 'History'}
+          </button>
+          {isOwner && (
+            <>
+              <button
+                onClick={() => setSaveMode('update')}
+                className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors text-sm font-medium"
+              >
+                Update
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm font-medium"
+              >
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setSaveMode('new')}
+            className="px-4 py-2 border border-green-600 text-green-700 rounded-lg hover:bg-green-50 transition-colors text-sm font-medium"
+          >
+            Save Current Selections
+          </button>
+        </div>
+      </div>
+
+      {selected && (
+        <p className="text-xs text-gray-500 mt-2">
+          {REPORT_DATE_RANGE_LABELS[selected.date_range]}
+          {selected.description ? ` - ${selected.description}` : ''}
+          {selected.next_run_at ? ` - next run ${new Date(selected.next_run_at).toLocaleDateString()}` : ''}
+        </p>
+      )}
+
+      {runs && (
+        <div className="mt-4 border-t pt-4">
+          <h5 className="text-sm font-semibold text-gray-700 mb-2">Report History</h5>
+          {runs.length === 0 ? (
+            <p className="text-sm text-gray-500">This report has not been run yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {runs.map((run) => (
+                <button
+                  key={run.id}
+                  onClick={() => handleOpenRun(run.id)}
+                  className="w-full text-left bg-gray-50 rounded-lg p-3 border border-gray-200 hover:bg-green-50 hover:border-green-300 transition-colors flex justify-between items-center"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {run.options.startDate || run.options.endDate
+                        ? `${run.options.startDate || 'Start'} to ${run.options.endDate || 'Today'}`
+                        : 'All time'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {run.trigger === 'scheduled' ? 'Scheduled' : `Run by ${run.run_by || 'Unknown'}`}
+                    </p>
+                  </div>
+                  <p className="text-xs text-gray-500">{new Date(run.created_at).toLocaleString()}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {saveMode && (
+        <SaveReportModal
+          selection={getSelection()}
+          startDate={startDate}
+          endDate={endDate}
+          existing={saveMode === 'update' ? selected : null}
+          onClose={() => setSaveMode(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  )
+}
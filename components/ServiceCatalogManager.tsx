@@ -0,0 +1,280 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  serviceCatalogSchema,
+  type ServiceCatalogFormData,
+} from '@/lib/schemas/encounter-schema'
+import type { ServiceCatalogItem } from '@/lib/utils/encounter-services'
+import {
+  addService,
+  listServiceCatalog,
+  reorderServices,
+  setServiceRetired,
+  toServiceKey,
+} from '@/lib/utils/service-catalog'
+
+const EMPTY_SERVICE: ServiceCatalogFormData = {
+  name: '',
+  category: '',
+  tracks_quantity: false,
+  unit: '',
+}
+
+export default function ServiceCatalogManager() {
+  const [services, setServices] = useState<ServiceCatalogItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<ServiceCatalogFormData>({
+    resolver: zodResolver(serviceCatalogSchema),
+    defaultValues: EMPTY_SERVICE,
+  })
+
+  const tracksQuantity = watch('tracks_quantity')
+
+  useEffect(() => {
+    const loadServices = async () => {
+      try {
+        setServices(await listServiceCatalog())
+      } catch (error) {
+        console.error('Error loading service catalog:', error)
+        alert('Error loading the service catalog. Please try again.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadServices()
+  }, [])
+
+  const categories = Array.from(new Set(services.map((service) => service.category)))
+
+  const replaceCategory = (category: string, updated: ServiceCatalogItem[]) => {
+    setServices([
+      ...services.filter((service) => service.category !== category),
+      ...updated,
+    ].sort((a, b) => a.category.localeCompare(b.category) || a.sort_order - b.sort_order))
+  }
+
+  const onAdd = async (data: ServiceCatalogFormData) => {
+    const key = toServiceKey(data.name)
+    if (services.some((service) => service.key === key)) {
+      alert(`"${data.name}" is already in the catalog. Restore it instead if it was retired.`)
+      return
+    }
+
+    const categoryServices = services.filter((service) => service.category === data.category)
+
+    setIsProcessing(true)
+
+    try {
+      const service = await addService(data, categoryServices.length)
+      replaceCategory(data.category, [...categoryServices, service])
+      reset(EMPTY_SERVICE)
+    } catch (error) {
+      console.error('Error adding service:', error)
+      alert('Error adding service. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleMove = async (category: string, index: number, direction: -1 | 1) => {
+    const categoryServices = services.filter((service) => service.category === category)
+    const target = index + direction
+    if (target < 0 || target >= categoryServices.length) return
+
+    const reordered = [...categoryServices]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved)
+    const updated = reordered.map((service, i) => ({ ...service, sort_order: i }))
+
+    setIsProcessing(true)
+
+    try {
+      await reorderServices(updated)
+      replaceCategory(category, updated)
+    } catch (error) {
+      console.error('Error reordering services:', error)
+      alert('Error saving the new order. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleToggleRetired = async (service: ServiceCatalogItem) => {
+    const retire = !service.retired_at
+    if (retire && !confirm(`Retire "${service.name}"? It will no longer be offered on the service interaction form, but past interactions and reports will keep it.`)) {
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      await setServiceRetired(service.id, retire)
+      setServices(services.map((s) =>
+        s.id === service.id
+          ? { ...s, retired_at: retire ? new Date().toISOString() : null }
+          : s
+      ))
+    } catch (error) {
+      console.error('Error updating service:', error)
+      alert('Error updating service. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Service Catalog</h3>
+      <p className="text-sm text-gray-600 mb-6">
+        Services offered on the service interaction form, grouped by category. Retired services are hidden from new interactions but stay on past interactions and in reports.
+      </p>
+
+      {isLoading ? (
+        <p className="text-gray-600 py-4">Loading service catalog...</p>
+      ) : categories.length === 0 ? (
+        <p className="text-gray-500 py-4">The catalog is empty. Add the first service below.</p>
+      ) : (
+        <div className="space-y-6 mb-8">
+          {categories.map((category) => {
+            const categoryServices = services.filter((service) => service.category === category)
+            return (
+              <div key={category}>
+                <h4 className="font-semibold text-gray-800 mb-2">{category}</h4>
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {categoryServices.map((service, index) => (
+                    <li key={service.id} className="flex items-center justify-between px-4 py-2">
+                      <div className="flex items-center gap-2">
+                        <span className={service.retired_at ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                          {service.name}
+                        </span>
+                        {service.tracks_quantity && (
+                          <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded">
+                            Counts {service.unit || 'quantity'}
+                          </span>
+                        )}
+                        {service.retired_at && (
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-semibold rounded">
+                            Retired
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleMove(category, index, -1)}
+                          disabled={isProcessing || index === 0}
+                          title="Move up"
+                          className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => handleMove(category, index, 1)}
+                          disabled={isProcessing || index === categoryServices.length - 1}
+                          title="Move down"
+                          className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          onClick={() => handleToggleRetired(service)}
+                          disabled={isProcessing}
+                          className={`px-3 py-1 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            service.retired_at
+                              ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                          }`}
+                        >
+                          {service.retired_at ? 'Restore' : 'Retire'}
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onAdd)} className="border-t border-gray-200 pt-6">
+        <h4 className="font-semibold text-gray-800 mb-3">Add a Service</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Service Name</label>
+            <input
+              {...register('name')}
+              type="text"
+              placeholder="e.g. Hygiene Kit"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.name && (
+              <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <input
+              {...register('category')}
+              type="text"
+              list="service-categories"
+              placeholder="e.g. Harm Reduction"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <datalist id="service-categories">
+              {categories.map((category) => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+            {errors.category && (
+              <p className="text-red-500 text-sm mt-1">{errors.category.message}</p>
+            )}
+          </div>
+          <div className="flex items-center">
+            <input
+              {...register('tracks_quantity')}
+              type="checkbox"
+              id="tracks_quantity"
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label htmlFor="tracks_quantity" className="ml-2 text-sm text-gray-700">
+              Record a quantity (e.g. number of items given out)
+            </label>
+          </div>
+          {tracksQuantity && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+              <input
+                {...register('unit')}
+                type="text"
+                placeholder="e.g. kits"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {errors.unit && (
+                <p className="text-red-500 text-sm mt-1">{errors.unit.message}</p>
+              )}
+            </div>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={isProcessing || isLoading}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          Add Service
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,35 +1,78 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { v4 as uuidv4 } from 'uuid'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
+import { createEncounterFormSchema, type EncounterFormData } from '@/lib/schemas/encounter-schema'
+import { useLookupOptions } from '@/lib/hooks/useLookupOptions'
+import { useServiceCatalog } from '@/lib/hooks/useServiceCatalog'
+import { useInventory } from '@/lib/hooks/useInventory'
+import { useStockLocation } from '@/lib/hooks/useStockLocation'
 import {
-  encounterFormSchema,
-  type EncounterFormData,
-  MAT_TYPES,
-  CO_OCCURRING_TYPES,
-  PLACEMENT_LOCATIONS,
-} from '@/lib/schemas/encounter-schema'
-import { REFERRAL_SOURCES } from '@/lib/schemas/intake-schema'
+  NALOXONE_SERVICE,
+  type EncounterServiceInput,
+  type ServiceCatalogItem,
+} from '@/lib/utils/encounter-services'
 import { useGeolocation } from '@/lib/hooks/useGeolocation'
-import { createClient } from '@/lib/supabase/client'
+import { useSites } from '@/lib/hooks/useSites'
+import { findNearestSite } from '@/lib/utils/sites'
+import { SITE_TYPE_LABELS } from '@/lib/schemas/site-schema'
+import { submitEncounter, getClientHref } from '@/lib/offline/sync'
+import type { PlacementExit } from '@/lib/offline/queue'
+import type { ReferralInput } from '@/lib/utils/referrals'
+import { REFERRAL_FOLLOW_UP_DAYS } from '@/lib/schemas/referral-schema'
+import { EMPTY_INCOME_CHANGES, incomeChangesSchema } from '@/lib/schemas/income-schema'
+import type { IncomeSource } from '@/lib/utils/income'
 import { useRouter } from 'next/navigation'
 import MapPicker from './MapPicker'
+import IncomeChangesEditor from './IncomeChangesEditor'
 
 interface ServiceInteractionFormProps {
   personId: string
   personName: string
+  // Other members of the client's household, who can be served in the same interaction
+  householdMembers?: { id: string, name: string }[]
+  // Income and benefits the client is currently receiving
+  incomeSources?: IncomeSource[]
+  // Missed appointment this interaction follows up, linked once it is saved
+  followUpAppointment?: { id: string, label: string } | null
 }
 
 export default function ServiceInteractionForm({
   personId,
   personName,
+  householdMembers = [],
+  incomeSources = [],
+  followUpAppointment = null,
 }: ServiceInteractionFormProps) {
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [servedMemberIds, setServedMemberIds] = useState<string[]>(() => householdMembers.map((m) => m.id))
   const [showMapPicker, setShowMapPicker] = useState(false)
   const [manualLocation, setManualLocation] = useState<{ lat: number; lng: number } | null>(null)
+  const [showIncome, setShowIncome] = useState(false)
+  const [incomeChanges, setIncomeChanges] = useState(EMPTY_INCOME_CHANGES)
+  // One encounter ID per person served, kept across attempts so submitting
+  // again after an error finishes the save rather than duplicating it
+  const encounterIds = useRef<Record<string, string>>({})
   const { latitude, longitude, accuracy, error: gpsError, loading: gpsLoading, refreshLocation } = useGeolocation()
+  const lookups = useLookupOptions()
+  const encounterSchema = useMemo(() => createEncounterFormSchema(lookups), [lookups])
+  const { catalog, isLoading: catalogLoading } = useServiceCatalog()
+  const { sites } = useSites()
+  const { items: inventoryItems, locations: stockLocations } = useInventory()
+
+  // Active services grouped into form sections by category
+  const serviceCategories = useMemo(() => {
+    const groups = new Map<string, ServiceCatalogItem[]>()
+    catalog
+      .filter((service) => !service.retired_at)
+      .forEach((service) => {
+        groups.set(service.category, [...(groups.get(service.category) || []), service])
+      })
+    return Array.from(groups.entries())
+  }, [catalog])
 
   const {
     register,
@@ -38,19 +81,18 @@ export default function ServiceInteractionForm({
     setValue,
     formState: { errors },
   } = useForm<EncounterFormData>({
-    resolver: zodResolver(encounterFormSchema),
+    resolver: zodResolver(encounterSchema),
     defaultValues: {
       service_date: new Date().toISOString().split('T')[0],
       co_occurring_mh_sud: false,
       mat_referral: false,
       detox_referral: false,
-      naloxone_distributed: false,
-      harm_reduction_education: false,
-      transportation_provided: false,
-      shower_trailer: false,
+      service_ids: [],
+      service_quantities: {},
       placement_made: false,
       refused_shelter: false,
       high_utilizer_contact: false,
+      case_management_notes: followUpAppointment ? `Follow-up: missed ${followUpAppointment.label}. ` : undefined,
     },
   })
 
@@ -58,9 +100,10 @@ export default function ServiceInteractionForm({
   const coOccurring = watch('co_occurring_mh_sud')
   const matReferral = watch('mat_referral')
   const detoxReferral = watch('detox_referral')
-  const naloxoneDistributed = watch('naloxone_distributed')
+  const selectedServiceIds = watch('service_ids') || []
   const placementMade = watch('placement_made')
   const placementLocation = watch('placement_location')
+  const siteId = watch('site_id')
 
   // Set GPS coordinates when available (auto GPS takes priority)
   useEffect(() => {
@@ -83,51 +126,95 @@ export default function ServiceInteractionForm({
   const currentLongitude = manualLocation?.lng ?? longitude
   const isManuallySet = manualLocation !== null
 
+  // Known site covering the current location, offered until a site is chosen
+  const nearestSite = currentLatitude !== null && currentLongitude !== null
+    ? findNearestSite(sites, currentLatitude, currentLongitude)
+    : null
+  const activeSites = sites.filter((site) => !site.retired_at || site.id === siteId)
+
+  const handleSiteChange = (id: string) => {
+    setValue('site_id', id || null)
+    const site = sites.find((s) => s.id === id)
+    if (site) {
+      setValue('outreach_location', site.name, { shouldValidate: true })
+    }
+  }
+
+  // Supplies are drawn from stock when a service linked to an inventory item is selected
+  const activeStockLocations = useMemo(
+    () => stockLocations.filter((location) => !location.retired_at),
+    [stockLocations]
+  )
+  const drawsFromStock = inventoryItems.some(
+    (item) => !item.retired_at && item.service_id && selectedServiceIds.includes(item.service_id)
+  )
+
+  const { stockLocationId, setStockLocationId, rememberStockLocation } = useStockLocation(activeStockLocations)
+
+  const naloxoneServiceId = catalog.find((service) => service.key === NALOXONE_SERVICE)?.id
+
   const onSubmit = async (data: EncounterFormData) => {
     if (currentLatitude === null || currentLongitude === null) {
       alert('GPS location is required. Please enable location services or manually select a location on the map.')
       return
     }
 
+    const incomeResult = incomeChangesSchema.safeParse(incomeChanges)
+    if (!incomeResult.success) {
+      alert(incomeResult.error.issues[0]?.message || 'Invalid income details')
+      return
+    }
+
     setIsSubmitting(true)
-    const supabase = createClient()
 
     try {
-      const { error } = await supabase.from('encounters').insert([
-        {
-          person_id: personId,
-          service_date: new Date(data.service_date).toISOString(),
-          outreach_location: data.outreach_location,
-          latitude: data.latitude,
-          longitude: data.longitude,
-          outreach_worker: data.outreach_worker,
-          referral_source: data.referral_source || null,
-          language_preference: data.language_preference || null,
-          cultural_notes: data.cultural_notes || null,
-          co_occurring_mh_sud: data.co_occurring_mh_sud,
-          co_occurring_type: data.co_occurring_type || null,
-          mat_referral: data.mat_referral,
-          mat_type: data.mat_type || null,
-          mat_provider: data.mat_provider || null,
-          detox_referral: data.detox_referral,
-          detox_provider: data.detox_provider || null,
-          naloxone_distributed: data.naloxone_distributed,
-          naloxone_date: data.naloxone_date || null,
-          fentanyl_test_strips_count: data.fentanyl_test_strips_count || null,
-          harm_reduction_education: data.harm_reduction_education,
-          transportation_provided: data.transportation_provided,
-          shower_trailer: data.shower_trailer,
-          other_services: data.other_services || null,
-          placement_made: data.placement_made,
-          placement_location: data.placement_location || null,
-          placement_location_other: data.placement_location_other || null,
-          refused_shelter: data.refused_shelter,
-          high_utilizer_contact: data.high_utilizer_contact,
-          case_management_notes: data.case_management_notes || null,
-        } as never,
-      ])
-
-      if (error) throw error
+      const encounterIdFor = (id: string) => (encounterIds.current[id] ??= uuidv4())
+
+      const encounter = {
+        id: encounterIdFor(personId),
+        person_id: personId,
+        service_date: new Date(data.service_date).toISOString(),
+        outreach_location: data.outreach_location,
+        site_id: data.site_id || null,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        outreach_worker: data.outreach_worker,
+        referral_source: data.referral_source || null,
+        language_preference: data.language_preference || null,
+        cultural_notes: data.cultural_notes || null,
+        co_occurring_mh_sud: data.co_occurring_mh_sud,
+        co_occurring_type: data.co_occurring_type || null,
+        mat_referral: data.mat_referral,
+        mat_type: data.mat_type || null,
+        mat_provider: data.mat_provider || null,
+        detox_referral: data.detox_referral,
+        detox_provider: data.detox_provider || null,
+        naloxone_date: naloxoneServiceId && data.service_ids.includes(naloxoneServiceId)
+          ? data.naloxone_date || null
+          : null,
+        other_services: data.other_services || null,
+        placement_made: data.placement_made,
+        placement_location: data.placement_location || null,
+        placement_location_other: data.placement_location_other || null,
+        refused_shelter: data.refused_shelter,
+        high_utilizer_contact: data.high_utilizer_contact,
+        case_management_notes: data.case_management_notes || null,
+      }
+
+      const services: EncounterServiceInput[] = data.service_ids.map((serviceId) => ({
+        service_id: serviceId,
+        quantity: data.service_quantities?.[serviceId] ?? null,
+      }))
+
+      // Each referral is followed up until the client attends, declines or doesn't show
+      const referrals: ReferralInput[] = [
+        ...(data.mat_referral
+          ? [{ referral_type: 'mat' as const, provider: data.mat_provider || null, referred_on: data.service_date }]
+          : []),
+        ...(data.detox_referral
+          ? [{ referral_type: 'detox' as const, provider: data.detox_provider || null, referred_on: data.service_date }]
+          : []),
+      ]
 
       // Auto-exit client if placed in shelter, detox, or program
       // Note: "Shelter Not Available" does NOT trigger auto-exit
@@ -146,6 +233,7 @@ export default function ServiceInteractionForm({
         'Other',
       ]
 
+      let placementExit: PlacementExit | null = null
       if (data.placement_made && data.placement_location && validPlacementLocations.includes(data.placement_location)) {
         // Determine exit destination based on placement type
         let exitDestination: string
@@ -157,37 +245,77 @@ export default function ServiceInteractionForm({
           exitDestination = 'Emergency shelter (including hotel/motel paid for with voucher)'
         }
 
-        // Get current user for tracking
-        const { data: { user } } = await supabase.auth.getUser()
+        placementExit = {
+          placement_location: data.placement_location,
+          exit_date: data.service_date,
+          exit_destination: exitDestination,
+        }
+      }
 
-        // Update person with exit date and destination
-        const { error: exitError } = await supabase
-          .from('persons')
-          .update({
-            exit_date: data.service_date,
-            exit_destination: exitDestination,
-          } as never)
-          .eq('id', personId)
+      const encounterStockLocationId = drawsFromStock ? stockLocationId || null : null
+      if (encounterStockLocationId) {
+        rememberStockLocation(encounterStockLocationId)
+      }
 
-        if (exitError) {
-          console.error('Error auto-exiting client:', exitError)
-        } else {
-          // Log the exit to status_changes
-          await supabase
-            .from('status_changes')
-            .insert({
-              person_id: personId,
-              change_type: 'exit',
-              change_date: data.service_date,
-              exit_destination: exitDestination,
-              notes: `Auto-exited: Placement to ${data.placement_location}`,
-              created_by: user?.email || 'Field Worker',
-            } as never)
+      // Saves directly when online, otherwise queues on this device
+      const { queued } = await submitEncounter(
+        personId,
+        `${personName} - ${data.service_date}`,
+        {
+          encounter,
+          services,
+          referrals,
+          incomeChanges,
+          stockLocationId: encounterStockLocationId,
+          appointmentId: followUpAppointment?.id || null,
+          placementExit,
         }
+      )
+
+      // The rest of the household gets the same interaction and placement, but
+      // not this client's referrals, clinical details, notes or counted supplies
+      // (kits and doses were handed out once, so they're only counted once)
+      const sharedServices = services.filter(
+        (service) => !catalog.find((item) => item.id === service.service_id)?.tracks_quantity
+      )
+      let queuedMembers = false
+      for (const member of householdMembers.filter((m) => servedMemberIds.includes(m.id))) {
+        const memberResult = await submitEncounter(
+          member.id,
+          `${member.name} - ${data.service_date}`,
+          {
+            encounter: {
+              ...encounter,
+              id: encounterIdFor(member.id),
+              person_id: member.id,
+              co_occurring_mh_sud: false,
+              co_occurring_type: null,
+              mat_referral: false,
+              mat_type: null,
+              mat_provider: null,
+              detox_referral: false,
+              detox_provider: null,
+              naloxone_date: sharedServices.some((service) => service.service_id === naloxoneServiceId)
+                ? encounter.naloxone_date
+                : null,
+              high_utilizer_contact: false,
+              case_management_notes: null,
+            },
+            services: sharedServices,
+            referrals: [],
+            stockLocationId: encounterStockLocationId,
+            placementExit,
+          }
+        )
+        queuedMembers = queuedMembers || memberResult.queued
+      }
+
+      if (queued || queuedMembers) {
+        alert('No connection. This interaction has been saved on this device and will sync automatically when you are back online.')
       }
 
       // Success! Navigate back to client profile
-      router.push(`/client/${personId}`)
+      router.push(getClientHref(personId))
     } catch (error) {
       console.error('Error saving service interaction:', error)
       alert('Error saving service interaction. Please try again.')
@@ -208,6 +336,14 @@ export default function ServiceInteractionForm({
       )}
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {followUpAppointment && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+            <p className="text-sm text-orange-800">
+              Following up the missed {followUpAppointment.label}. Saving links this interaction to the appointment.
+            </p>
+          </div>
+        )}
+
         {/* GPS Location Status */}
         <div className="bg-white p-6 rounded-lg shadow">
           <h2 className="text-xl font-semibold mb-4 flex items-center">
@@ -367,6 +503,38 @@ export default function ServiceInteractionForm({
             )}
           </div>
 
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Site
+            </label>
+            {nearestSite && nearestSite.site.id !== siteId && (
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-md">
+                <span className="text-sm text-blue-900">
+                  You appear to be at <strong>{nearestSite.site.name}</strong> ({Math.round(nearestSite.distanceMeters)} m away)
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleSiteChange(nearestSite.site.id)}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+                >
+                  Use this site
+                </button>
+              </div>
+            )}
+            <select
+              value={siteId || ''}
+              onChange={(e) => handleSiteChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Not at a registered site</option>
+              {activeSites.map((site) => (
+                <option key={site.id} value={site.id}>
+                  {site.name} ({SITE_TYPE_LABELS[site.site_type]})
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Location/Area <span className="text-red-500">*</span>
@@ -391,7 +559,7 @@ export default function ServiceInteractionForm({
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select source...</option>
-              {REFERRAL_SOURCES.map((source) => (
+              {lookups.referral_source.map((source) => (
                 <option key={source} value={source}>
                   {source}
                 </option>
@@ -427,7 +595,7 @@ export default function ServiceInteractionForm({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="">Select type...</option>
-                  {CO_OCCURRING_TYPES.map((type) => (
+                  {lookups.co_occurring_type.map((type) => (
                     <option key={type} value={type}>
                       {type}
                     </option>
@@ -460,7 +628,7 @@ export default function ServiceInteractionForm({
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
                     <option value="">Select type...</option>
-                    {MAT_TYPES.map((type) => (
+                    {lookups.mat_type.map((type) => (
                       <option key={type} value={type}>
                         {type}
                       </option>
@@ -507,104 +675,111 @@ export default function ServiceInteractionForm({
               </div>
             )}
           </div>
+
+          {(matReferral || detoxReferral) && (
+            <p className="text-sm text-gray-500">
+              Referrals are added to My Referrals. Follow up within {REFERRAL_FOLLOW_UP_DAYS} days to record whether the client attended.
+            </p>
+          )}
         </div>
       </div>
 
-      {/* Harm Reduction Section */}
-      <div className="bg-white p-6 rounded-lg shadow">
-        <h2 className="text-xl font-semibold mb-4">Harm Reduction Services</h2>
-        <div className="space-y-4">
-          {/* Naloxone */}
-          <div>
-            <div className="flex items-center mb-2">
-              <input
-                {...register('naloxone_distributed')}
-                type="checkbox"
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-              <label className="ml-2 block text-sm text-gray-700">
-                Naloxone Kit Distributed
-              </label>
-            </div>
-            {naloxoneDistributed && (
-              <div className="ml-6">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Distribution Date
-                </label>
-                <input
-                  {...register('naloxone_date')}
-                  type="date"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-            )}
-          </div>
-
-          {/* Fentanyl Test Strips */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Fentanyl Test Strips Provided (quantity)
-            </label>
-            <input
-              {...register('fentanyl_test_strips_count', { valueAsNumber: true })}
-              type="number"
-              min="0"
-              placeholder="0"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+      {/* Service sections, generated from the service catalog */}
+      {serviceCategories.map(([category, services]) => (
+        <div key={category} className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-xl font-semibold mb-4">{category}</h2>
+          <div className="space-y-4">
+            {services.map((service) => {
+              const isSelected = selectedServiceIds.includes(service.id)
+
+              return (
+                <div key={service.id}>
+                  <div className="flex items-center mb-2">
+                    <input
+                      {...register('service_ids')}
+                      type="checkbox"
+                      value={service.id}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <label className="ml-2 block text-sm text-gray-700">
+                      {service.name}
+                    </label>
+                  </div>
+                  {isSelected && service.tracks_quantity && (
+                    <div className="ml-6">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Quantity{service.unit ? ` (${service.unit})` : ''}
+                      </label>
+                      <input
+                        {...register(`service_quantities.${service.id}`, {
+                          setValueAs: (value) => value === '' || value === null ? null : Number(value),
+                        })}
+                        type="number"
+                        min="0"
+                        placeholder="0"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  {isSelected && service.key === NALOXONE_SERVICE && (
+                    <div className="ml-6">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Distribution Date
+                      </label>
+                      <input
+                        {...register('naloxone_date')}
+                        type="date"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                </div>
+              )
+            })}
           </div>
+        </div>
+      ))}
 
-          {/* Harm Reduction Education */}
-          <div className="flex items-center">
-            <input
-              {...register('harm_reduction_education')}
-              type="checkbox"
-              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-            />
-            <label className="ml-2 block text-sm text-gray-700">
-              Harm Reduction Education Provided
-            </label>
-          </div>
+      {/* Stock the linked supplies are drawn from */}
+      {drawsFromStock && activeStockLocations.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-xl font-semibold mb-4">Supplies From</h2>
+          <select
+            value={stockLocationId}
+            onChange={(e) => setStockLocationId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Not from tracked stock</option>
+            {activeStockLocations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-sm text-gray-500">
+            Naloxone and other tracked supplies handed out are taken off this location&apos;s stock.
+          </p>
         </div>
-      </div>
+      )}
 
-      {/* Other Services Section */}
+      {/* Services not in the catalog */}
       <div className="bg-white p-6 rounded-lg shadow">
         <h2 className="text-xl font-semibold mb-4">Other Services Provided</h2>
-        <div className="space-y-4">
-          <div className="flex items-center">
-            <input
-              {...register('transportation_provided')}
-              type="checkbox"
-              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-            />
-            <label className="ml-2 block text-sm text-gray-700">
-              Transportation Provided
-            </label>
-          </div>
-
-          <div className="flex items-center">
-            <input
-              {...register('shower_trailer')}
-              type="checkbox"
-              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-            />
-            <label className="ml-2 block text-sm text-gray-700">
-              Shower Trailer Access
-            </label>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Other Services (IDs, birth certificates, etc.)
-            </label>
-            <textarea
-              {...register('other_services')}
-              rows={2}
-              placeholder="Describe any other services provided..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+        {!catalogLoading && serviceCategories.length === 0 && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3 mb-4">
+            The service list isn&apos;t available on this device yet. Describe the services provided below.
+          </p>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Other Services (IDs, birth certificates, etc.)
+          </label>
+          <textarea
+            {...register('other_services')}
+            rows={2}
+            placeholder="Describe any other services provided..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
         </div>
       </div>
 
@@ -639,7 +814,7 @@ export default function ServiceInteractionForm({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                 >
                   <option value="">Select location...</option>
-                  {PLACEMENT_LOCATIONS.map((location) => (
+                  {lookups.placement_location.map((location) => (
                     <option key={location} value={location}>
                       {location}
                     </option>
@@ -712,6 +887,61 @@ export default function ServiceInteractionForm({
         </p>
       </div>
 
+      {/* Income & Benefits */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Income &amp; Benefits</h2>
+          <button
+            type="button"
+            onClick={() => {
+              setShowIncome(!showIncome)
+              setIncomeChanges(EMPTY_INCOME_CHANGES)
+            }}
+            className="text-sm text-blue-700 hover:text-blue-800 font-medium"
+          >
+            {showIncome ? 'No changes' : 'Record a change'}
+          </button>
+        </div>
+        {showIncome && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-600 mb-4">
+              Sources started or stopped as of the service date.
+            </p>
+            <IncomeChangesEditor currentSources={incomeSources} value={incomeChanges} onChange={setIncomeChanges} />
+          </div>
+        )}
+      </div>
+
+      {/* Household */}
+      {householdMembers.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-xl font-semibold mb-2">Household</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Also record this interaction for household members who were there. They get the same date, location,
+            services and placement; referrals, notes and counted supplies stay with {personName}.
+          </p>
+          <div className="space-y-2">
+            {householdMembers.map((member) => (
+              <label key={member.id} className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={servedMemberIds.includes(member.id)}
+                  onChange={(e) =>
+                    setServedMemberIds(
+                      e.target.checked
+                        ? [...servedMemberIds, member.id]
+                        : servedMemberIds.filter((id) => id !== member.id)
+                    )
+                  }
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm">{member.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Submit Button */}
       <div className="flex justify-end space-x-4">
         <button
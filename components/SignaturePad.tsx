@@ -0,0 +1,85 @@
+'use client'
+
+import { useRef, useState } from 'react'
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void
+}
+
+export default function SignaturePad({ onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawing = useRef(false)
+  const [signed, setSigned] = useState(false)
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    // The canvas is drawn at a fixed resolution and scaled to fit the screen
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d')
+    if (!ctx) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    drawing.current = true
+    const { x, y } = getPoint(e)
+    ctx.lineWidth = 3
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.strokeStyle = '#111827'
+    ctx.beginPath()
+    ctx.moveTo(x, y)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return
+    const ctx = e.currentTarget.getContext('2d')
+    if (!ctx) return
+    const { x, y } = getPoint(e)
+    ctx.lineTo(x, y)
+    ctx.stroke()
+  }
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return
+    drawing.current = false
+    setSigned(true)
+    onChange(canvasRef.current?.toDataURL('image/png') || null)
+  }
+
+  const clear = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setSigned(false)
+    onChange(null)
+  }
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={200}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full max-w-xl h-40 border-2 border-dashed border-gray-300 rounded-lg bg-white touch-none"
+      />
+      <div className="flex items-center justify-between max-w-xl mt-1">
+        <p className="text-xs text-gray-500">{signed ? 'Signed' : 'Client signs above with a finger or stylus'}</p>
+        <button
+          type="button"
+          onClick={clear}
+          className="text-sm text-gray-600 hover:text-gray-800 underline"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  DEFAULT_SITE_RADIUS_METERS,
+  SITE_TYPES,
+  SITE_TYPE_LABELS,
+  siteSchema,
+  type SiteFormData,
+} from '@/lib/schemas/site-schema'
+import { addSite, listSites, setSiteRetired, updateSite, type Site } from '@/lib/utils/sites'
+import MapPicker from './MapPicker'
+
+const EMPTY_SITE: Partial<SiteFormData> = {
+  name: '',
+  site_type: 'encampment',
+  radius_meters: DEFAULT_SITE_RADIUS_METERS,
+  notes: '',
+}
+
+export default function SiteManager() {
+  const [sites, setSites] = useState<Site[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showMapPicker, setShowMapPicker] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<SiteFormData>({
+    resolver: zodResolver(siteSchema),
+    defaultValues: EMPTY_SITE,
+  })
+
+  const latitude = watch('latitude')
+  const longitude = watch('longitude')
+
+  useEffect(() => {
+    const loadSites = async () => {
+      try {
+        setSites(await listSites())
+      } catch (error) {
+        console.error('Error loading sites:', error)
+        alert('Error loading sites. Please try again.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadSites()
+  }, [])
+
+  const startEditing = (site: Site) => {
+    setEditingId(site.id)
+    reset({
+      name: site.name,
+      site_type: site.site_type,
+      latitude: site.latitude,
+      longitude: site.longitude,
+      radius_meters: site.radius_meters,
+      notes: site.notes || '',
+    })
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    reset(EMPTY_SITE)
+  }
+
+  const onSave = async (data: SiteFormData) => {
+    const duplicate = sites.find(
+      (site) => site.id !== editingId && site.name.toLowerCase() === data.name.toLowerCase()
+    )
+    if (duplicate) {
+      alert(`"${duplicate.name}" is already registered. Restore it instead if it was retired.`)
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      const saved = editingId ? await updateSite(editingId, data) : await addSite(data)
+      setSites(
+        [...sites.filter((site) => site.id !== saved.id), saved]
+          .sort((a, b) => a.name.localeCompare(b.name))
+      )
+      setEditingId(null)
+      reset(EMPTY_SITE)
+    } catch (error) {
+      console.error('Error saving site:', error)
+      alert('Error saving site. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleToggleRetired = async (site: Site) => {
+    const retire = !site.retired_at
+    if (retire && !confirm(`Retire "${site.name}"? It will no longer be suggested on the service interaction form, but past interactions and reports will keep it.`)) {
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      await setSiteRetired(site.id, retire)
+      setSites(sites.map((s) =>
+        s.id === site.id
+          ? { ...s, retired_at: retire ? new Date().toISOString() : null }
+          : s
+      ))
+    } catch (error) {
+      console.error('Error updating site:', error)
+      alert('Error updating site. Please try again.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      {showMapPicker && (
+        <MapPicker
+          initialLatitude={latitude}
+          initialLongitude={longitude}
+          onLocationSelect={(lat, lng) => {
+            setValue('latitude', lat, { shouldValidate: true })
+            setValue('longitude', lng, { shouldValidate: true })
+          }}
+          onClose={() => setShowMapPicker(false)}
+        />
+      )}
+
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Sites</h3>
+      <p className="text-sm text-gray-600 mb-6">
+        Known outreach sites. Workers recording an interaction within a site&apos;s radius are offered that site. Retired sites are no longer suggested but stay on past interactions and in reports.
+      </p>
+
+      {isLoading ? (
+        <p className="text-gray-600 py-4">Loading sites...</p>
+      ) : sites.length === 0 ? (
+        <p className="text-gray-500 py-4">No sites registered yet. Add the first site below.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-8">
+          {sites.map((site) => (
+            <li key={site.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Link
+                  href={`/sites/${site.id}`}
+                  className={site.retired_at ? 'text-gray-400 line-through' : 'text-blue-700 hover:text-blue-800 font-medium'}
+                >
+                  {site.name}
+                </Link>
+                <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded">
+                  {SITE_TYPE_LABELS[site.site_type]}
+                </span>
+                <span className="text-xs text-gray-500">{site.radius_meters} m radius</span>
+                {site.retired_at && (
+                  <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-semibold rounded">
+                    Retired
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => startEditing(site)}
+                  disabled={isProcessing}
+                  className="px-3 py-1 bg-blue-100 text-blue-800 rounded text-sm hover:bg-blue-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleToggleRetired(site)}
+                  disabled={isProcessing}
+                  className={`px-3 py-1 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    site.retired_at
+                      ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {site.retired_at ? 'Restore' : 'Retire'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit(onSave)} className="border-t border-gray-200 pt-6">
+        <h4 className="font-semibold text-gray-800 mb-3">{editingId ? 'Edit Site' : 'Add a Site'}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Site Name</label>
+            <input
+              {...register('name')}
+              type="text"
+              placeholder="e.g. Moonlight Beach stairs"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.name && (
+              <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              {...register('site_type')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SITE_TYPES.map((type) => (
+                <option key={type} value={type}>{SITE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setShowMapPicker(true)}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                {latitude !== undefined ? 'Move on Map' : 'Pick on Map'}
+              </button>
+              {latitude !== undefined && longitude !== undefined && (
+                <span className="text-sm text-gray-600">
+                  {latitude.toFixed(5)}, {longitude.toFixed(5)}
+                </span>
+              )}
+            </div>
+            {(errors.latitude || errors.longitude) && (
+              <p className="text-red-500 text-sm mt-1">{(errors.latitude || errors.longitude)?.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Radius (meters)</label>
+            <input
+              {...register('radius_meters', { valueAsNumber: true })}
+              type="number"
+              min={10}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.radius_meters && (
+              <p className="text-red-500 text-sm mt-1">{errors.radius_meters.message}</p>
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              {...register('notes')}
+              rows={2}
+              placeholder="e.g. Under the stairs on the north side"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.notes && (
+              <p className="text-red-500 text-sm mt-1">{errors.notes.message}</p>
+            )}
+          </div>
+        </div>
+        <div className="mt-4 flex gap-2">
+          <button
+            type="submit"
+            disabled={isProcessing || isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {editingId ? 'Save Site' : 'Add Site'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={cancelEditing}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import {
+  adjustmentSchema,
+  restockSchema,
+  transferSchema,
+} from '@/lib/schemas/inventory-schema'
+import {
+  adjustStock,
+  receiveStock,
+  transferStock,
+  type InventorySnapshot,
+  type StockBalance,
+} from '@/lib/utils/inventory'
+
+type Movement = 'restock' | 'transfer' | 'adjustment'
+
+const MOVEMENT_LABELS: Record<Movement, string> = {
+  restock: 'Receive Stock',
+  transfer: 'Transfer',
+  adjustment: 'Adjust Count',
+}
+
+interface StockMovementFormProps {
+  snapshot: InventorySnapshot
+  balances: StockBalance[]
+  onRecorded: () => void
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function StockMovementForm({ snapshot, balances, onRecorded }: StockMovementFormProps) {
+  const [movement, setMovement] = useState<Movement>('restock')
+  const [itemId, setItemId] = useState('')
+  const [lotNumber, setLotNumber] = useState('')
+  const [expiresOn, setExpiresOn] = useState('')
+  const [lotId, setLotId] = useState('')
+  const [fromLocationId, setFromLocationId] = useState('')
+  const [toLocationId, setToLocationId] = useState('')
+  const [direction, setDirection] = useState<'remove' | 'add'>('remove')
+  const [quantity, setQuantity] = useState('')
+  const [occurredOn, setOccurredOn] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const activeItems = snapshot.items.filter((item) => !item.retired_at)
+  const activeLocations = snapshot.locations.filter((location) => !location.retired_at)
+  const itemsById = new Map(snapshot.items.map((item) => [item.id, item]))
+
+  // Lots on hand at the source location (transfers, removals) or any lot (additions)
+  const lotOptions = snapshot.lots
+    .map((lot) => ({
+      lot,
+      onHand: balances.find((b) => b.location_id === fromLocationId && b.lot_id === lot.id)?.quantity ?? 0,
+    }))
+    .filter(({ onHand }) => movement === 'adjustment' && direction === 'add' ? true : onHand > 0)
+
+  const selectedLot = snapshot.lots.find((lot) => lot.id === lotId)
+  const onHand = lotOptions.find((option) => option.lot.id === lotId)?.onHand ?? 0
+
+  const reset = () => {
+    setLotNumber('')
+    setExpiresOn('')
+    setLotId('')
+    setQuantity('')
+    setNotes('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const common = {
+      quantity: quantity === '' ? NaN : Number(quantity),
+      occurred_on: occurredOn,
+      notes: notes || null,
+    }
+
+    let save: () => Promise<void>
+    if (movement === 'restock') {
+      const result = restockSchema.safeParse({
+        ...common,
+        item_id: itemId,
+        lot_number: lotNumber,
+        expires_on: expiresOn,
+        to_location_id: toLocationId,
+      })
+      if (!result.success) {
+        alert(result.error.issues[0]?.message || 'Invalid stock details')
+        return
+      }
+      save = () => receiveStock(result.data)
+    } else if (movement === 'transfer') {
+      const result = transferSchema.safeParse({
+        ...common,
+        lot_id: lotId,
+        from_location_id: fromLocationId,
+        to_location_id: toLocationId,
+      })
+      if (!result.success) {
+        alert(result.error.issues[0]?.message || 'Invalid transfer details')
+        return
+      }
+      if (result.data.quantity > onHand) {
+        alert(`Only ${onHand} on hand in this lot at that location.`)
+        return
+      }
+      save = () => transferStock(selectedLot!.item_id, result.data)
+    } else {
+      const result = adjustmentSchema.safeParse({
+        ...common,
+        notes,
+        lot_id: lotId,
+        location_id: fromLocationId,
+        direction,
+      })
+      if (!result.success) {
+        alert(result.error.issues[0]?.message || 'Invalid adjustment details')
+        return
+      }
+      if (result.data.direction === 'remove' && result.data.quantity > onHand) {
+        alert(`Only ${onHand} on hand in this lot at that location.`)
+        return
+      }
+      save = () => adjustStock(selectedLot!.item_id, result.data)
+    }
+
+    setIsSaving(true)
+
+    try {
+      await save()
+      reset()
+      onRecorded()
+    } catch (error) {
+      console.error('Error recording stock movement:', error)
+      alert(error instanceof Error ? error.message : 'Error recording stock movement. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const locationSelect = (value: string, onChange: (id: string) => void, placeholder: string) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      <option value="">{placeholder}</option>
+      {activeLocations.map((location) => (
+        <option key={location.id} value={location.id}>
+          {location.name}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(MOVEMENT_LABELS) as Movement[]).map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => {
+              setMovement(type)
+              reset()
+            }}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              movement === type ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {MOVEMENT_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {movement === 'restock' ? (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Item</label>
+              <select value={itemId} onChange={(e) => setItemId(e.target.value)} className={inputClass}>
+                <option value="">Select an item...</option>
+                {activeItems.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Lot Number</label>
+              <input value={lotNumber} onChange={(e) => setLotNumber(e.target.value)} type="text" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+              <input value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} type="date" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Into</label>
+              {locationSelect(toLocationId, setToLocationId, 'Select a location...')}
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {movement === 'transfer' ? 'From' : 'Location'}
+              </label>
+              {locationSelect(fromLocationId, (id) => {
+                setFromLocationId(id)
+                setLotId('')
+              }, 'Select a location...')}
+            </div>
+            {movement === 'adjustment' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Adjustment</label>
+                <select
+                  value={direction}
+                  onChange={(e) => {
+                    setDirection(e.target.value as 'remove' | 'add')
+                    setLotId('')
+                  }}
+                  className={inputClass}
+                >
+                  <option value="remove">Remove (expired, damaged, lost)</option>
+                  <option value="add">Add (found, count correction)</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Lot</label>
+              <select value={lotId} onChange={(e) => setLotId(e.target.value)} className={inputClass}>
+                <option value="">{fromLocationId ? 'Select a lot...' : 'Select a location first'}</option>
+                {fromLocationId && lotOptions.map(({ lot, onHand: lotOnHand }) => (
+                  <option key={lot.id} value={lot.id}>
+                    {itemsById.get(lot.item_id)?.name} - lot {lot.lot_number} (exp. {lot.expires_on}, {lotOnHand} on hand)
+                  </option>
+                ))}
+              </select>
+            </div>
+            {movement === 'transfer' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                {locationSelect(toLocationId, setToLocationId, 'Select a location...')}
+              </div>
+            )}
+          </>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+          <input value={quantity} onChange={(e) => setQuantity(e.target.value)} type="number" min="1" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input value={occurredOn} onChange={(e) => setOccurredOn(e.target.value)} type="date" className={inputClass} />
+        </div>
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Notes{movement === 'adjustment' ? ' (reason required)' : ''}
+          </label>
+          <input value={notes} onChange={(e) => setNotes(e.target.value)} type="text" className={inputClass} />
+        </div>
+        <div className="md:col-span-3">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : MOVEMENT_LABELS[movement]}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import type { Appointment } from '@/lib/utils/appointments'
+import AppointmentList from './AppointmentList'
+
+interface TeamCalendarProps {
+  // Days of the week shown (YYYY-MM-DD), in order
+  days: string[]
+  initialAppointments: Appointment[]
+}
+
+export default function TeamCalendar({ days, initialAppointments }: TeamCalendarProps) {
+  const [appointments, setAppointments] = useState(initialAppointments)
+
+  const handleUpdated = (updated: Appointment) => {
+    setAppointments(appointments.map((a) => (a.id === updated.id ? updated : a)))
+  }
+
+  return (
+    <div className="space-y-6">
+      {days.map((day) => {
+        const dayAppointments = appointments.filter(
+          (a) => format(new Date(a.scheduled_at), 'yyyy-MM-dd') === day
+        )
+        return (
+          <div key={day} className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {format(new Date(`${day}T00:00:00`), 'EEEE, MMMM d')}
+            </h3>
+            <AppointmentList
+              appointments={dayAppointments}
+              onUpdated={handleUpdated}
+              showClient
+              showAssignee
+              emptyMessage="Nothing scheduled"
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useState } from 'react'
+import { isAppointmentOverdue, type Appointment } from '@/lib/utils/appointments'
+import AppointmentList from './AppointmentList'
+
+interface WorkerAgendaProps {
+  initialAppointments: Appointment[]
+}
+
+export default function WorkerAgenda({ initialAppointments }: WorkerAgendaProps) {
+  const [appointments, setAppointments] = useState(initialAppointments)
+
+  const overdueCount = appointments.filter((a) => isAppointmentOverdue(a)).length
+
+  // Appointments leave the agenda once they are completed, missed or cancelled
+  const handleUpdated = (updated: Appointment) => {
+    setAppointments(appointments.filter((a) => a.id !== updated.id || updated.status === 'scheduled'))
+  }
+
+  return (
+    <>
+      {overdueCount > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-4">
+          <p className="text-sm text-orange-800">
+            {overdueCount} appointment{overdueCount === 1 ? ' is' : 's are'} over without an outcome. Mark each one
+            completed or a no-show, and log a follow-up for clients who missed theirs.
+          </p>
+        </div>
+      )}
+      <AppointmentList
+        appointments={appointments}
+        onUpdated={handleUpdated}
+        showClient
+        emptyMessage="You have no appointments scheduled."
+      />
+    </>
+  )
+}
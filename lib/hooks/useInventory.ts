@@ -0,0 +1,45 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { listInventorySetup, type InventoryItem, type StockLocation } from '@/lib/utils/inventory'
+
+// localStorage key for the last items and locations loaded, so the form works offline
+const INVENTORY_CACHE_KEY = 'inventory-setup'
+
+interface InventorySetup {
+  items: InventoryItem[]
+  locations: StockLocation[]
+}
+
+function loadCachedSetup(): InventorySetup {
+  const empty = { items: [], locations: [] }
+  if (typeof localStorage === 'undefined') return empty
+
+  try {
+    return JSON.parse(localStorage.getItem(INVENTORY_CACHE_KEY) || 'null') || empty
+  } catch {
+    return empty
+  }
+}
+
+export function useInventory() {
+  const [setup, setSetup] = useState<InventorySetup>({ items: [], locations: [] })
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    setSetup(loadCachedSetup())
+
+    listInventorySetup()
+      .then((loaded) => {
+        setSetup(loaded)
+        localStorage.setItem(INVENTORY_CACHE_KEY, JSON.stringify(loaded))
+      })
+      .catch((error) => {
+        // Offline - keep the cached items and locations
+        console.error('Error loading inventory setup:', error)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  return { items: setup.items, locations: setup.locations, isLoading }
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { LookupValues } from '@/lib/schemas/lookup-schema'
+import {
+  DEFAULT_LOOKUP_VALUES,
+  listLookupOptions,
+  toLookupValues,
+} from '@/lib/utils/lookup-options'
+
+// localStorage key for the last lookup lists loaded, so forms work offline
+const LOOKUP_CACHE_KEY = 'lookup-options'
+
+function loadCachedLookups(): LookupValues {
+  if (typeof localStorage === 'undefined') return DEFAULT_LOOKUP_VALUES
+
+  try {
+    const cached = JSON.parse(localStorage.getItem(LOOKUP_CACHE_KEY) || '{}')
+    return { ...DEFAULT_LOOKUP_VALUES, ...cached }
+  } catch {
+    return DEFAULT_LOOKUP_VALUES
+  }
+}
+
+export function useLookupOptions() {
+  const [lookups, setLookups] = useState<LookupValues>(DEFAULT_LOOKUP_VALUES)
+
+  useEffect(() => {
+    setLookups(loadCachedLookups())
+
+    listLookupOptions()
+      .then((options) => {
+        const values = toLookupValues(options)
+        setLookups(values)
+        localStorage.setItem(LOOKUP_CACHE_KEY, JSON.stringify(values))
+      })
+      .catch((error) => {
+        // Offline or not yet migrated - keep the cached or built-in lists
+        console.error('Error loading lookup options:', error)
+      })
+  }, [])
+
+  return lookups
+}
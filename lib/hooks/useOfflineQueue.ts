@@ -0,0 +1,107 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { listQueued, QUEUE_CHANGED_EVENT, type QueueItem } from '@/lib/offline/queue'
+import {
+  discardQueued,
+  replayQueue,
+  resolveQueuedPerson,
+  retryQueued,
+  REPLAY_MESSAGE,
+} from '@/lib/offline/sync'
+
+export function useOfflineQueue() {
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await listQueued())
+    } catch (error) {
+      console.error('Error reading offline queue:', error)
+    }
+  }, [])
+
+  const syncNow = useCallback(async (includeFailed = false) => {
+    if (!navigator.onLine) return
+    setIsSyncing(true)
+    try {
+      await replayQueue(includeFailed)
+    } catch (error) {
+      console.error('Error syncing offline queue:', error)
+    } finally {
+      setIsSyncing(false)
+      await refresh()
+    }
+  }, [refresh])
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine)
+    refresh().then(() => {
+      if (navigator.onLine) syncNow()
+    })
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncNow()
+    }
+    const handleOffline = () => setIsOnline(false)
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_MESSAGE) syncNow()
+    }
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh)
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage)
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh)
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage)
+    }
+  }, [refresh, syncNow])
+
+  const retry = async (id: string) => {
+    setIsSyncing(true)
+    try {
+      await retryQueued(id)
+    } catch (error) {
+      console.error('Error retrying queued item:', error)
+    } finally {
+      setIsSyncing(false)
+      await refresh()
+    }
+  }
+
+  const discard = async (id: string) => {
+    await discardQueued(id)
+  }
+
+  // Resolve a possible duplicate flagged at sync time, either by linking to
+  // an existing client or by creating the queued client as new
+  const resolveDuplicate = async (id: string, existingPersonId: string | null) => {
+    setIsSyncing(true)
+    try {
+      return await resolveQueuedPerson(id, existingPersonId)
+    } finally {
+      setIsSyncing(false)
+      await refresh()
+    }
+  }
+
+  return {
+    items,
+    pendingCount: items.filter((i) => i.status === 'pending').length,
+    failedCount: items.filter((i) => i.status === 'failed').length,
+    reviewCount: items.filter((i) => i.status === 'needs_review').length,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retry,
+    discard,
+    resolveDuplicate,
+  }
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { ServiceCatalogItem } from '@/lib/utils/encounter-services'
+import { listServiceCatalog } from '@/lib/utils/service-catalog'
+
+// localStorage key for the last service catalog loaded, so the form works offline
+const SERVICE_CATALOG_CACHE_KEY = 'service-catalog'
+
+function loadCachedCatalog(): ServiceCatalogItem[] {
+  if (typeof localStorage === 'undefined') return []
+
+  try {
+    return JSON.parse(localStorage.getItem(SERVICE_CATALOG_CACHE_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+export function useServiceCatalog() {
+  const [catalog, setCatalog] = useState<ServiceCatalogItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    setCatalog(loadCachedCatalog())
+
+    listServiceCatalog()
+      .then((services) => {
+        setCatalog(services)
+        localStorage.setItem(SERVICE_CATALOG_CACHE_KEY, JSON.stringify(services))
+      })
+      .catch((error) => {
+        // Offline - keep the cached catalog
+        console.error('Error loading service catalog:', error)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  return { catalog, isLoading }
+}
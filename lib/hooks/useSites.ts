@@ -0,0 +1,39 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { listSites, type Site } from '@/lib/utils/sites'
+
+// localStorage key for the last site registry loaded, so suggestions work offline
+const SITES_CACHE_KEY = 'sites'
+
+function loadCachedSites(): Site[] {
+  if (typeof localStorage === 'undefined') return []
+
+  try {
+    return JSON.parse(localStorage.getItem(SITES_CACHE_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+export function useSites() {
+  const [sites, setSites] = useState<Site[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    setSites(loadCachedSites())
+
+    listSites()
+      .then((loaded) => {
+        setSites(loaded)
+        localStorage.setItem(SITES_CACHE_KEY, JSON.stringify(loaded))
+      })
+      .catch((error) => {
+        // Offline - keep the cached sites
+        console.error('Error loading sites:', error)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  return { sites, isLoading }
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { StockLocation } from '@/lib/utils/inventory'
+
+// localStorage key for the stock location last handed out from on this device
+const STOCK_LOCATION_KEY = 'last-stock-location'
+
+/**
+ * The stock location supplies are handed out from. Defaults to the location
+ * last used on this device, else the signed-in worker's own stock.
+ * @param locations - Active stock locations
+ */
+export function useStockLocation(locations: StockLocation[]) {
+  const [stockLocationId, setStockLocationId] = useState('')
+
+  useEffect(() => {
+    if (stockLocationId || locations.length === 0) return
+
+    const lastUsed = localStorage.getItem(STOCK_LOCATION_KEY)
+    if (lastUsed && locations.some((location) => location.id === lastUsed)) {
+      setStockLocationId(lastUsed)
+      return
+    }
+
+    // getSession reads the stored session, so this also works offline
+    createClient().auth.getSession().then(({ data: { session } }) => {
+      const email = session?.user.email?.toLowerCase()
+      const own = locations.find((location) => email && location.worker_email?.toLowerCase() === email)
+      if (own) setStockLocationId(own.id)
+    })
+  }, [stockLocationId, locations])
+
+  // Remember the location used so it's the default next time
+  const rememberStockLocation = (id: string) => {
+    localStorage.setItem(STOCK_LOCATION_KEY, id)
+  }
+
+  return { stockLocationId, setStockLocationId, rememberStockLocation }
+}
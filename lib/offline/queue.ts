@@ -0,0 +1,325 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { SimilarPerson } from '@/lib/utils/duplicate-detection'
+import type { EncounterServiceInput } from '@/lib/utils/encounter-services'
+import type { ReferralInput } from '@/lib/utils/referrals'
+import type { IncomeChanges, IncomeSourceInput } from '@/lib/schemas/income-schema'
+
+// IndexedDB-backed queue for writes captured while the device is offline.
+// Items are replayed in creation order by lib/offline/sync.ts.
+
+const DB_NAME = 'street-reach-offline'
+const DB_VERSION = 1
+const QUEUE_STORE = 'sync_queue'
+
+export const QUEUE_CHANGED_EVENT = 'offline-queue-changed'
+
+// Persons created offline get a local ID until they are inserted server-side
+const PROVISIONAL_ID_PREFIX = 'local-'
+
+// localStorage key mapping synced provisional IDs to their real person IDs
+const RESOLVED_PERSONS_KEY = 'offline-resolved-persons'
+
+export type QueueItemStatus = 'pending' | 'failed' | 'needs_review'
+
+export interface PlacementExit {
+  placement_location: string
+  exit_date: string
+  exit_destination: string
+}
+
+// Shape of EncounterQueuePayload written by this version of the app. Bump it
+// when the shape changes and upgrade older items in migrateEncounterPayload.
+//   1 - services were columns on the encounter (before the service catalog)
+//   2 - services are listed separately by catalog ID
+export const ENCOUNTER_PAYLOAD_VERSION = 2
+
+// Service columns encounters had in version 1 payloads, by catalog key
+const LEGACY_SERVICE_COLUMNS: Record<string, string> = {
+  naloxone_distributed: 'naloxone',
+  fentanyl_test_strips_count: 'fentanyl_test_strips',
+  harm_reduction_education: 'harm_reduction_education',
+  transportation_provided: 'transportation',
+  shower_trailer: 'shower_trailer',
+}
+
+export interface EncounterQueuePayload {
+  // Missing on encounters queued before payloads were versioned
+  version?: number
+  encounter: Record<string, unknown>
+  // Missing on encounters queued before the service catalog existed
+  services?: EncounterServiceInput[]
+  // Missing on encounters queued before referrals were tracked
+  referrals?: ReferralInput[]
+  // Income sources started or stopped as of the service date. Missing on
+  // encounters queued before income was tracked over time.
+  incomeChanges?: IncomeChanges
+  // Stock location supplies were handed out from. Missing on encounters
+  // queued before supplies were tracked in stock.
+  stockLocationId?: string | null
+  // Appointment this interaction follows up. Missing on encounters queued
+  // before appointments were scheduled.
+  appointmentId?: string | null
+  placementExit: PlacementExit | null
+}
+
+export interface PersonQueuePayload {
+  person: Record<string, unknown>
+  photo: Blob | null
+  provisional_client_id: string
+  // Income and benefits at intake. Missing on clients queued before income
+  // was tracked over time.
+  income_sources?: IncomeSourceInput[]
+}
+
+interface BaseQueueItem {
+  id: string
+  person_id: string
+  label: string
+  status: QueueItemStatus
+  attempts: number
+  last_error: string | null
+  created_at: string
+}
+
+export interface EncounterQueueItem extends BaseQueueItem {
+  kind: 'encounter'
+  payload: EncounterQueuePayload
+}
+
+export interface PersonQueueItem extends BaseQueueItem {
+  kind: 'person'
+  payload: PersonQueuePayload
+  // Server-side matches found at sync time, awaiting worker review
+  similar_persons?: SimilarPerson[]
+}
+
+export type QueueItem = EncounterQueueItem | PersonQueueItem
+
+type GeneratedQueueFields = 'id' | 'status' | 'attempts' | 'last_error' | 'created_at'
+
+export type NewQueueItem =
+  | Omit<EncounterQueueItem, GeneratedQueueFields>
+  | Omit<PersonQueueItem, GeneratedQueueFields>
+
+/**
+ * Version of a queued encounter payload. Unversioned payloads that list
+ * services separately were written after the service catalog existed.
+ */
+export function getEncounterPayloadVersion(payload: EncounterQueuePayload): number {
+  return payload.version ?? (payload.services ? 2 : 1)
+}
+
+/**
+ * Upgrade an encounter queued by an older version of the app to the current
+ * payload shape, so it can still be saved after the schema changed
+ * @param payload - The queued payload
+ * @param serviceIdsByKey - Service catalog IDs by key
+ */
+export function migrateEncounterPayload(
+  payload: EncounterQueuePayload,
+  serviceIdsByKey: Map<string, string>
+): EncounterQueuePayload {
+  let migrated = payload
+
+  if (getEncounterPayloadVersion(migrated) < 2) {
+    const encounter = { ...migrated.encounter }
+    const services: EncounterServiceInput[] = []
+
+    for (const [column, key] of Object.entries(LEGACY_SERVICE_COLUMNS)) {
+      const value = encounter[column]
+      delete encounter[column]
+
+      const serviceId = serviceIdsByKey.get(key)
+      if (!serviceId || !value) continue
+
+      // The test strip column held a count; the rest were yes/no
+      services.push({ service_id: serviceId, quantity: typeof value === 'number' ? value : null })
+    }
+
+    migrated = { ...migrated, encounter, services }
+  }
+
+  return { ...migrated, version: ENCOUNTER_PAYLOAD_VERSION }
+}
+
+/**
+ * Generate a local person ID for a client created while offline
+ */
+export function createProvisionalId(): string {
+  return `${PROVISIONAL_ID_PREFIX}${uuidv4()}`
+}
+
+/**
+ * Check whether a person ID is a provisional (not yet synced) ID
+ */
+export function isProvisionalId(personId: string): boolean {
+  return personId.startsWith(PROVISIONAL_ID_PREFIX)
+}
+
+/**
+ * Build a human-readable provisional client ID, shown until the server
+ * assigns the real CL-XXXXXX value
+ */
+export function createProvisionalClientId(provisionalId: string): string {
+  return `PENDING-${provisionalId.slice(PROVISIONAL_ID_PREFIX.length, PROVISIONAL_ID_PREFIX.length + 6).toUpperCase()}`
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported in this browser'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' })
+        store.createIndex('created_at', 'created_at')
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, mode)
+    const request = run(transaction.objectStore(QUEUE_STORE))
+
+    transaction.oncomplete = () => {
+      db.close()
+      resolve(request.result)
+    }
+    transaction.onerror = () => {
+      db.close()
+      reject(transaction.error)
+    }
+    // Aborts such as a full disk fire only onabort
+    transaction.onabort = () => {
+      db.close()
+      reject(transaction.error || new Error('Offline queue transaction was aborted'))
+    }
+  })
+}
+
+function notifyQueueChanged() {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT))
+  }
+}
+
+/**
+ * Add an item to the offline queue
+ * @returns The stored queue item
+ */
+export async function enqueue(item: NewQueueItem): Promise<QueueItem> {
+  const queued = {
+    ...item,
+    id: uuidv4(),
+    status: 'pending',
+    attempts: 0,
+    last_error: null,
+    created_at: new Date().toISOString(),
+  } as QueueItem
+
+  await withStore('readwrite', (store) => store.put(queued))
+  notifyQueueChanged()
+  return queued
+}
+
+/**
+ * List all queued items, oldest first
+ */
+export async function listQueued(): Promise<QueueItem[]> {
+  const items = await withStore<QueueItem[]>('readonly', (store) =>
+    store.index('created_at').getAll()
+  )
+  return items || []
+}
+
+/**
+ * Get a single queued item by ID
+ */
+export async function getQueued(id: string): Promise<QueueItem | null> {
+  const item = await withStore<QueueItem | undefined>('readonly', (store) => store.get(id))
+  return item || null
+}
+
+/**
+ * Update a queued item in place
+ */
+export async function updateQueued(item: QueueItem): Promise<void> {
+  await withStore('readwrite', (store) => store.put(item))
+  notifyQueueChanged()
+}
+
+/**
+ * Remove an item from the queue (after it has synced, or when discarded)
+ */
+export async function removeQueued(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+  notifyQueueChanged()
+}
+
+/**
+ * Point every queued item for a provisional person at its real person ID
+ * once the person exists server-side
+ */
+export async function remapQueuedPerson(provisionalId: string, personId: string): Promise<void> {
+  const items = await listQueued()
+
+  for (const item of items) {
+    if (item.person_id !== provisionalId) continue
+
+    if (item.kind === 'encounter') {
+      await withStore('readwrite', (store) => store.put({
+        ...item,
+        person_id: personId,
+        payload: {
+          ...item.payload,
+          encounter: { ...item.payload.encounter, person_id: personId },
+        },
+      }))
+    }
+  }
+
+  recordResolvedPerson(provisionalId, personId)
+  notifyQueueChanged()
+}
+
+function recordResolvedPerson(provisionalId: string, personId: string) {
+  if (typeof localStorage === 'undefined') return
+
+  try {
+    const resolved = JSON.parse(localStorage.getItem(RESOLVED_PERSONS_KEY) || '{}')
+    resolved[provisionalId] = personId
+    localStorage.setItem(RESOLVED_PERSONS_KEY, JSON.stringify(resolved))
+  } catch (error) {
+    console.error('Error recording resolved person:', error)
+  }
+}
+
+/**
+ * Look up the real person ID for a provisional ID that has already synced
+ * @returns The server person ID, or null if it has not synced yet
+ */
+export function getResolvedPersonId(provisionalId: string): string | null {
+  if (typeof localStorage === 'undefined') return null
+
+  try {
+    const resolved = JSON.parse(localStorage.getItem(RESOLVED_PERSONS_KEY) || '{}')
+    return resolved[provisionalId] || null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,607 @@
+import { v4 as uuidv4 } from 'uuid'
+import { createClient } from '@/lib/supabase/client'
+import { checkForDuplicates } from '@/lib/utils/duplicate-detection'
+import { linkFollowUpEncounter } from '@/lib/utils/appointments'
+import { exitEnrollment } from '@/lib/utils/enrollments'
+import { saveIncomeChanges } from '@/lib/utils/income'
+import { recordEncounterDistribution } from '@/lib/utils/inventory'
+import { fetchServiceCatalog } from '@/lib/utils/encounter-services'
+import type { IncomeSourceInput } from '@/lib/schemas/income-schema'
+import {
+  createProvisionalClientId,
+  createProvisionalId,
+  ENCOUNTER_PAYLOAD_VERSION,
+  enqueue,
+  getEncounterPayloadVersion,
+  getQueued,
+  isProvisionalId,
+  listQueued,
+  migrateEncounterPayload,
+  remapQueuedPerson,
+  removeQueued,
+  updateQueued,
+  type EncounterQueuePayload,
+  type PersonQueueItem,
+  type PersonQueuePayload,
+  type QueueItem,
+} from './queue'
+
+// Tag used for Background Sync registrations (handled in worker/index.js)
+export const SYNC_TAG = 'sync-offline-queue'
+
+// Message posted by the service worker when a background sync fires
+export const REPLAY_MESSAGE = 'REPLAY_OFFLINE_QUEUE'
+
+export interface SubmitResult {
+  queued: boolean
+}
+
+export interface PersonSubmitResult extends SubmitResult {
+  personId: string
+}
+
+export interface ReplayResult {
+  synced: number
+  failed: number
+  needsReview: number
+  remaining: number
+}
+
+let replayInProgress: Promise<ReplayResult> | null = null
+
+/**
+ * Detect errors caused by missing connectivity (as opposed to the server
+ * rejecting the data). Supabase surfaces fetch failures as plain messages.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true
+  }
+
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: string } | null)?.message || ''
+
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message)
+}
+
+/**
+ * Whether an earlier attempt at saving an encounter already wrote its rows
+ * to a table
+ */
+async function hasEncounterRows(table: string, encounterId: string): Promise<boolean> {
+  const supabase = createClient()
+
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('encounter_id', encounterId)
+
+  if (error) throw error
+  return (count || 0) > 0
+}
+
+/**
+ * Write an encounter with its services, referrals, income changes and supply
+ * distribution, link it to the appointment it follows up and, if a placement
+ * was made, auto-exit the client.
+ * Used both for direct saves and for replaying queued encounters. The
+ * encounter carries its own ID, so a save that was cut off part way through
+ * picks up where it stopped instead of writing the encounter twice.
+ */
+export async function saveEncounter(personId: string, payload: EncounterQueuePayload): Promise<void> {
+  const supabase = createClient()
+  const encounter = { id: payload.encounter.id as string }
+
+  const { error } = await supabase
+    .from('encounters')
+    .upsert([payload.encounter as never], { onConflict: 'id', ignoreDuplicates: true })
+
+  if (error) throw error
+
+  const services = payload.services || []
+  if (services.length > 0) {
+    const { error: servicesError } = await supabase
+      .from('encounter_services')
+      .upsert(
+        services.map((service) => ({ ...service, encounter_id: encounter.id })) as never,
+        { onConflict: 'encounter_id,service_id', ignoreDuplicates: true }
+      )
+
+    if (servicesError) throw servicesError
+  }
+
+  const referrals = payload.referrals || []
+  if (referrals.length > 0 && !(await hasEncounterRows('referrals', encounter.id))) {
+    const { error: referralsError } = await supabase
+      .from('referrals')
+      .insert(referrals.map((referral) => ({
+        ...referral,
+        encounter_id: encounter.id,
+        person_id: personId,
+      })) as never)
+
+    if (referralsError) throw referralsError
+  }
+
+  // service_date is stored as a timestamp; income and stock are dated by day
+  const serviceDay = (payload.encounter.service_date as string).slice(0, 10)
+
+  // Ending a source is repeatable; starting one is skipped if already written
+  const incomeChanges = payload.incomeChanges
+  if (incomeChanges && (incomeChanges.added.length > 0 || incomeChanges.ended.length > 0)) {
+    const added = incomeChanges.added.length > 0 && await hasEncounterRows('income_sources', encounter.id)
+      ? []
+      : incomeChanges.added
+    await saveIncomeChanges(
+      personId,
+      { added, ended: incomeChanges.ended },
+      serviceDay,
+      'interaction',
+      encounter.id
+    )
+  }
+
+  // Supplies linked to an inventory item come out of the worker's stock
+  if (payload.stockLocationId && services.length > 0) {
+    try {
+      if (!(await hasEncounterRows('inventory_transactions', encounter.id))) {
+        await recordEncounterDistribution(encounter.id, payload.stockLocationId, services, serviceDay)
+      }
+    } catch (stockError) {
+      // The interaction is saved; a missed decrement shows up in reconciliation
+      console.error('Error recording supply distribution:', stockError)
+    }
+  }
+
+  if (payload.appointmentId) {
+    try {
+      await linkFollowUpEncounter(payload.appointmentId, encounter.id)
+    } catch (appointmentError) {
+      // The interaction is saved; the appointment still offers a follow-up
+      console.error('Error linking follow-up to appointment:', appointmentError)
+    }
+  }
+
+  const exit = payload.placementExit
+  if (!exit) return
+
+  // Get current user for tracking
+  const { data: { user } } = await supabase.auth.getUser()
+  const exitNotes = `Auto-exited: Placement to ${exit.placement_location}`
+
+  // An earlier attempt may have closed the enrollment before it was cut off
+  const { data: closed, error: closedError } = await supabase
+    .from('enrollments')
+    .select('id')
+    .eq('person_id', personId)
+    .eq('exit_date', exit.exit_date)
+    .eq('exit_notes', exitNotes)
+    .limit(1)
+
+  if (closedError) throw closedError
+
+  // Close the client's open enrollment episode
+  if (!closed || closed.length === 0) {
+    try {
+      await exitEnrollment(personId, {
+        exit_date: exit.exit_date,
+        exit_destination: exit.exit_destination,
+        exit_notes: exitNotes,
+        exited_by: user?.email || 'Field Worker',
+      })
+    } catch (exitError) {
+      // Keep the item queued rather than losing the exit
+      if (isNetworkError(exitError)) throw exitError
+      // e.g. the client was already exited by someone else
+      console.error('Error auto-exiting client:', exitError)
+      return
+    }
+  }
+
+  const { data: logged, error: loggedError } = await supabase
+    .from('status_changes')
+    .select('id')
+    .eq('person_id', personId)
+    .eq('change_type', 'exit')
+    .eq('change_date', exit.exit_date)
+    .eq('notes', exitNotes)
+    .limit(1)
+
+  if (loggedError) throw loggedError
+  if (logged && logged.length > 0) return
+
+  // Log the exit to status_changes
+  const { error: logError } = await supabase
+    .from('status_changes')
+    .insert({
+      person_id: personId,
+      change_type: 'exit',
+      change_date: exit.exit_date,
+      exit_destination: exit.exit_destination,
+      notes: exitNotes,
+      created_by: user?.email || 'Field Worker',
+    } as never)
+
+  if (logError) throw logError
+}
+
+/**
+ * Save an encounter, falling back to the offline queue when there is no
+ * connectivity. Server-side validation errors are still thrown.
+ */
+export async function submitEncounter(
+  personId: string,
+  label: string,
+  payload: EncounterQueuePayload
+): Promise<SubmitResult> {
+  // The ID is fixed before the first attempt so a retry or replay can't
+  // create the encounter a second time
+  if (!payload.encounter.id) {
+    payload = { ...payload, encounter: { ...payload.encounter, id: uuidv4() } }
+  }
+  payload = { ...payload, version: ENCOUNTER_PAYLOAD_VERSION }
+
+  // Encounters for a client created offline must wait for the client to sync
+  if (!isProvisionalId(personId) && (typeof navigator === 'undefined' || navigator.onLine)) {
+    try {
+      await saveEncounter(personId, payload)
+      return { queued: false }
+    } catch (error) {
+      if (!isNetworkError(error)) throw error
+    }
+  }
+
+  await enqueue({ kind: 'encounter', person_id: personId, label, payload })
+  await requestBackgroundSync()
+  return { queued: true }
+}
+
+/**
+ * Upload a client photo to Supabase storage
+ * @returns The public URL of the uploaded photo
+ */
+async function uploadClientPhoto(photo: Blob): Promise<string> {
+  const supabase = createClient()
+  const fileExt = photo.type === 'image/png' ? 'png' : 'jpg'
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`
+
+  const { error } = await supabase.storage
+    .from('client-photos')
+    .upload(fileName, photo)
+
+  if (error) throw error
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('client-photos')
+    .getPublicUrl(fileName)
+
+  return publicUrl
+}
+
+/**
+ * Insert a person captured at intake, with their income and benefits as of
+ * the enrollment date. The person carries a client-generated ID, so a retry
+ * after a lost response reuses the record and only redoes the steps that
+ * didn't finish.
+ * @returns The new person's ID
+ */
+export async function savePerson(payload: PersonQueuePayload): Promise<string> {
+  const supabase = createClient()
+  const person = { ...payload.person }
+
+  if (payload.photo && !person.photo_url) {
+    try {
+      person.photo_url = await uploadClientPhoto(payload.photo)
+    } catch (error) {
+      if (isNetworkError(error)) throw error
+      // Don't block the client record on a photo problem
+      console.error('Error uploading queued photo:', error)
+    }
+  }
+
+  const { error } = await supabase
+    .from('persons')
+    .upsert([person as never], { onConflict: 'id', ignoreDuplicates: true })
+
+  if (error) throw error
+
+  const personId = person.id as string
+
+  // Intake income is skipped if an earlier attempt already wrote it
+  const incomeSources = payload.income_sources || []
+  if (incomeSources.length > 0) {
+    const { count, error: countError } = await supabase
+      .from('income_sources')
+      .select('id', { count: 'exact', head: true })
+      .eq('person_id', personId)
+      .eq('collection_stage', 'intake')
+
+    if (countError) throw countError
+
+    if (!count) {
+      await saveIncomeChanges(
+        personId,
+        { added: incomeSources, ended: [] },
+        person.enrollment_date as string,
+        'intake'
+      )
+    }
+  }
+
+  return personId
+}
+
+/**
+ * Create a person, falling back to the offline queue with a provisional ID
+ * when there is no connectivity. Server-side validation errors are still thrown.
+ */
+export async function submitPerson(
+  label: string,
+  person: Record<string, unknown>,
+  photo: Blob | null,
+  incomeSources: IncomeSourceInput[] = []
+): Promise<PersonSubmitResult> {
+  person = { ...person, id: person.id || uuidv4() }
+
+  if (typeof navigator === 'undefined' || navigator.onLine) {
+    try {
+      const personId = await savePerson({ person, photo, provisional_client_id: '', income_sources: incomeSources })
+      return { queued: false, personId }
+    } catch (error) {
+      if (!isNetworkError(error)) throw error
+    }
+  }
+
+  const provisionalId = createProvisionalId()
+  await enqueue({
+    kind: 'person',
+    person_id: provisionalId,
+    label,
+    payload: {
+      person,
+      photo,
+      provisional_client_id: createProvisionalClientId(provisionalId),
+      income_sources: incomeSources,
+    },
+  })
+  await requestBackgroundSync()
+  return { queued: true, personId: provisionalId }
+}
+
+/**
+ * Give a queued person the ID it is saved with, stored before the first
+ * attempt so later attempts reuse it. Clients queued before IDs were
+ * generated on the device get one here.
+ */
+async function withQueuedPersonId(item: PersonQueueItem): Promise<PersonQueueItem> {
+  if (item.payload.person.id) return item
+
+  const updated = { ...item, payload: { ...item.payload, person: { ...item.payload.person, id: uuidv4() } } }
+  await updateQueued(updated)
+  return updated
+}
+
+/**
+ * Insert a queued person and point its queued encounters at the new record
+ */
+async function syncQueuedPerson(item: PersonQueueItem): Promise<string> {
+  item = await withQueuedPersonId(item)
+  const personId = await savePerson(item.payload)
+  await remapQueuedPerson(item.person_id, personId)
+  await removeQueued(item.id)
+  return personId
+}
+
+type ReplayOutcome = 'synced' | 'needs_review' | 'blocked'
+
+async function replayItem(item: QueueItem): Promise<ReplayOutcome> {
+  switch (item.kind) {
+    case 'encounter':
+      // The client this encounter belongs to hasn't synced yet
+      if (isProvisionalId(item.person_id)) return 'blocked'
+
+      // Encounters queued by an older version of the app are brought up to
+      // the current shape first
+      if (getEncounterPayloadVersion(item.payload) < ENCOUNTER_PAYLOAD_VERSION) {
+        const catalog = await fetchServiceCatalog(createClient())
+        const serviceIdsByKey = new Map(catalog.map((service) => [service.key, service.id]))
+        item = { ...item, payload: migrateEncounterPayload(item.payload, serviceIdsByKey) }
+        await updateQueued(item)
+      }
+
+      // Encounters queued before they were given an ID get one now, stored
+      // before the first attempt so later attempts reuse it
+      if (!item.payload.encounter.id) {
+        item = { ...item, payload: { ...item.payload, encounter: { ...item.payload.encounter, id: uuidv4() } } }
+        await updateQueued(item)
+      }
+
+      await saveEncounter(item.person_id, item.payload)
+      await removeQueued(item.id)
+      return 'synced'
+
+    case 'person': {
+      item = await withQueuedPersonId(item)
+      const queuedPersonId = item.payload.person.id
+
+      // The person may have been entered by someone else while we were
+      // offline - check now that we can see the server. A failed check
+      // throws, so the intake stays queued instead of syncing unchecked
+      const { first_name, last_name, date_of_birth } = item.payload.person as {
+        first_name: string
+        last_name: string
+        date_of_birth: string | null
+      }
+      const result = await checkForDuplicates(first_name, last_name, date_of_birth || undefined)
+
+      // An earlier attempt may have created the client before its response was lost
+      const similarPersons = result.similarPersons.filter((p) => p.id !== queuedPersonId)
+      if (similarPersons.length > 0) {
+        await updateQueued({
+          ...item,
+          status: 'needs_review',
+          similar_persons: similarPersons,
+        })
+        return 'needs_review'
+      }
+
+      await syncQueuedPerson(item)
+      return 'synced'
+    }
+  }
+}
+
+async function runReplay(includeFailed: boolean): Promise<ReplayResult> {
+  let synced = 0
+  let failed = 0
+  let needsReview = 0
+  const processed = new Set<string>()
+
+  // Re-read the queue after each item, since syncing a person remaps the
+  // provisional IDs on the encounters queued behind it
+  while (true) {
+    const item = (await listQueued()).find((i) =>
+      !processed.has(i.id) &&
+      (i.status === 'pending' || (i.status === 'failed' && includeFailed))
+    )
+    if (!item) break
+    processed.add(item.id)
+
+    try {
+      const outcome = await replayItem(item)
+      if (outcome === 'synced') synced++
+      if (outcome === 'needs_review') needsReview++
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Lost connectivity again - stop here so later items stay in order
+        break
+      }
+
+      console.error('Error replaying queued item:', error)
+      await updateQueued({
+        ...item,
+        status: 'failed',
+        attempts: item.attempts + 1,
+        last_error: (error as { message?: string })?.message || 'Unknown error',
+      })
+      failed++
+    }
+  }
+
+  const remaining = (await listQueued()).length
+  return { synced, failed, needsReview, remaining }
+}
+
+/**
+ * Replay all pending queued items in the order they were captured.
+ * Concurrent calls share the same run.
+ */
+export function replayQueue(includeFailed = false): Promise<ReplayResult> {
+  if (!replayInProgress) {
+    replayInProgress = runReplay(includeFailed).finally(() => {
+      replayInProgress = null
+    })
+  }
+  return replayInProgress
+}
+
+/**
+ * Retry a single queued item (typically one previously marked as failed)
+ */
+export async function retryQueued(id: string): Promise<void> {
+  const item = await getQueued(id)
+  if (!item) return
+
+  try {
+    await replayItem(item)
+  } catch (error) {
+    await updateQueued({
+      ...item,
+      status: isNetworkError(error) ? 'pending' : 'failed',
+      attempts: item.attempts + 1,
+      last_error: (error as { message?: string })?.message || 'Unknown error',
+    })
+    throw error
+  }
+}
+
+/**
+ * Resolve a queued person flagged as a possible duplicate at sync time
+ * @param id - The queue item ID
+ * @param existingPersonId - The existing person to use instead, or null to
+ *   create the queued person as a new record
+ * @returns The person ID the queued encounters now point at
+ */
+export async function resolveQueuedPerson(
+  id: string,
+  existingPersonId: string | null
+): Promise<string> {
+  const item = await getQueued(id)
+  if (!item || item.kind !== 'person') {
+    throw new Error('Queued client not found')
+  }
+
+  let personId: string
+  if (existingPersonId) {
+    await remapQueuedPerson(item.person_id, existingPersonId)
+    await removeQueued(item.id)
+    personId = existingPersonId
+  } else {
+    personId = await syncQueuedPerson(item)
+  }
+
+  // Encounters for this client can go now
+  await replayQueue()
+  return personId
+}
+
+/**
+ * Discard a queued item. Discarding a queued person also discards the
+ * encounters logged against it, which could never sync on their own.
+ */
+export async function discardQueued(id: string): Promise<void> {
+  const item = await getQueued(id)
+  if (!item) return
+
+  if (item.kind === 'person') {
+    const dependents = (await listQueued()).filter(
+      (i) => i.kind === 'encounter' && i.person_id === item.person_id
+    )
+    for (const dependent of dependents) {
+      await removeQueued(dependent.id)
+    }
+  }
+
+  await removeQueued(item.id)
+}
+
+/**
+ * Link to a client profile, using the offline profile for clients that
+ * haven't synced yet
+ */
+export function getClientHref(personId: string): string {
+  return isProvisionalId(personId)
+    ? `/client/pending?id=${encodeURIComponent(personId)}`
+    : `/client/${personId}`
+}
+
+/**
+ * Ask the next-pwa service worker to wake us when connectivity returns.
+ * Browsers without Background Sync fall back to the window 'online' event.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+
+  try {
+    // getRegistration() rather than .ready, which never resolves when the
+    // worker is disabled (e.g. in development)
+    const registration = await navigator.serviceWorker.getRegistration()
+    const syncManager = (registration as (ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> }
+    }) | undefined)?.sync
+    await syncManager?.register(SYNC_TAG)
+  } catch (error) {
+    console.error('Background sync registration failed:', error)
+  }
+}
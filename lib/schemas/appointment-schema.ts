@@ -0,0 +1,39 @@
+import { z } from 'zod'
+
+export const APPOINTMENT_TYPES = ['detox_intake', 'medical', 'court', 'housing', 'benefits', 'id_documents', 'other'] as const
+
+export type AppointmentType = (typeof APPOINTMENT_TYPES)[number]
+
+export const APPOINTMENT_TYPE_LABELS: Record<AppointmentType, string> = {
+  detox_intake: 'Detox Intake',
+  medical: 'Medical',
+  court: 'Court',
+  housing: 'Housing',
+  benefits: 'Benefits',
+  id_documents: 'ID & Documents',
+  other: 'Other',
+}
+
+export const APPOINTMENT_STATUSES = ['scheduled', 'completed', 'no_show', 'cancelled'] as const
+
+export type AppointmentStatus = (typeof APPOINTMENT_STATUSES)[number]
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  no_show: 'No-show',
+  cancelled: 'Cancelled',
+}
+
+export const appointmentSchema = z.object({
+  appointment_type: z.enum(APPOINTMENT_TYPES, { message: 'Select the type of appointment' }),
+  scheduled_on: z.string().min(1, 'Date is required').regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  scheduled_time: z.string().min(1, 'Time is required').regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+  duration_minutes: z.number({ message: 'Enter the length in minutes' }).int().min(5).max(720),
+  assigned_to: z.string().min(1, 'Assign the appointment to a worker'),
+  location: z.string().trim().max(200).optional().nullable(),
+  transportation_needed: z.boolean(),
+  notes: z.string().max(2000).optional().nullable(),
+})
+
+export type AppointmentFormData = z.infer<typeof appointmentSchema>
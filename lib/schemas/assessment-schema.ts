@@ -0,0 +1,175 @@
+import { z } from 'zod'
+
+export const ACUITY_LEVELS = ['low', 'moderate', 'high'] as const
+
+export type Acuity = (typeof ACUITY_LEVELS)[number]
+
+export const ACUITY_LABELS: Record<Acuity, string> = {
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High',
+}
+
+export interface AssessmentOption {
+  value: string
+  label: string
+  points: number
+}
+
+export interface AssessmentQuestion {
+  id: string
+  text: string
+  options: AssessmentOption[]
+}
+
+export interface AssessmentDomain {
+  key: string
+  label: string
+  questions: AssessmentQuestion[]
+}
+
+export interface AcuityBand {
+  acuity: Acuity
+  // Lowest total score in the band
+  minScore: number
+  recommendation: string
+}
+
+export interface AssessmentDefinition {
+  key: string
+  version: number
+  name: string
+  domains: AssessmentDomain[]
+  // Ordered from lowest to highest acuity
+  acuityBands: AcuityBand[]
+}
+
+// A question scored 1 point for "yes". Refusing to answer scores nothing.
+function yesNo(id: string, text: string): AssessmentQuestion {
+  return {
+    id,
+    text,
+    options: [
+      { value: 'yes', label: 'Yes', points: 1 },
+      { value: 'no', label: 'No', points: 0 },
+      { value: 'refused', label: 'Refused', points: 0 },
+    ],
+  }
+}
+
+// Version 1 of the single-adult prescreen, scored 0-17 like the VI-SPDAT.
+// Never edit a published version: answers are stored against it. Add a new
+// version to ASSESSMENT_DEFINITIONS instead.
+const PRESCREEN_V1: AssessmentDefinition = {
+  key: 'prescreen',
+  version: 1,
+  name: 'Coordinated Entry Prescreen (VI-SPDAT style)',
+  domains: [
+    {
+      key: 'housing_history',
+      label: 'History of Housing & Homelessness',
+      questions: [
+        {
+          id: 'sleep_location',
+          text: 'Where do you sleep most frequently?',
+          options: [
+            { value: 'sheltered', label: 'Shelter, transitional housing or safe haven', points: 0 },
+            { value: 'unsheltered', label: 'Outdoors, vehicle or other place not meant for habitation', points: 1 },
+            { value: 'refused', label: 'Refused', points: 0 },
+          ],
+        },
+        {
+          id: 'long_term_homeless',
+          text: 'Has it been a year or more since you last lived in permanent stable housing, or have you been homeless four or more times in the past three years?',
+          options: [
+            { value: 'yes', label: 'Yes', points: 1 },
+            { value: 'no', label: 'No', points: 0 },
+            { value: 'refused', label: 'Refused', points: 0 },
+          ],
+        },
+      ],
+    },
+    {
+      key: 'risks',
+      label: 'Risks',
+      questions: [
+        {
+          id: 'emergency_service_use',
+          text: 'In the past six months, how many times have you been to an emergency room, ridden in an ambulance, used a crisis service or been hospitalized?',
+          options: [
+            { value: 'under_4', label: '0 to 3 times', points: 0 },
+            { value: '4_or_more', label: '4 or more times', points: 1 },
+            { value: 'refused', label: 'Refused', points: 0 },
+          ],
+        },
+        yesNo('attacked', 'Have you been attacked or beaten up since you became homeless?'),
+        yesNo('harm_risk', 'Have you threatened or tried to harm yourself or anyone else in the last year?'),
+        yesNo('legal_issues', 'Do you have any legal issues going on right now that may result in you being locked up or having to pay fines?'),
+        yesNo('exploitation', 'Does anybody force or trick you into doing things you do not want to do, or do you do risky things like exchanging sex for money or sharing needles?'),
+      ],
+    },
+    {
+      key: 'daily_functioning',
+      label: 'Socialization & Daily Functioning',
+      questions: [
+        yesNo('owes_money', 'Is there any person, past landlord, business or bookie that thinks you owe them money?'),
+        yesNo('no_income', 'Do you have no income at all, including government benefits or informal work?'),
+        yesNo('no_meaningful_activity', 'Do you go without planned activities, other than surviving, that make you feel happy and fulfilled?'),
+        yesNo('self_care', 'Do you have trouble taking care of basic needs like bathing, changing clothes or using a restroom?'),
+        yesNo('relationship_loss', 'Is your current homelessness because of a relationship that broke down, an unhealthy or abusive relationship, or because family or friends caused you to lose housing?'),
+      ],
+    },
+    {
+      key: 'wellness',
+      label: 'Wellness',
+      questions: [
+        yesNo('physical_health', 'Do you have a chronic health condition, such as problems with your liver, kidneys, stomach, lungs or heart?'),
+        yesNo('substance_use', 'Has your drinking or drug use led to you being kicked out of housing, or would it make it hard to stay housed?'),
+        yesNo('mental_health', 'Do you have a mental health condition or brain injury that would make it hard to live independently?'),
+        yesNo('medications', 'Are you not taking medication a doctor prescribed for you, or selling it?'),
+        yesNo('trauma', 'Has abuse or trauma in your life caused your current homelessness?'),
+      ],
+    },
+  ],
+  acuityBands: [
+    { acuity: 'low', minScore: 0, recommendation: 'No housing intervention; refer to mainstream resources' },
+    { acuity: 'moderate', minScore: 4, recommendation: 'Assess for rapid re-housing' },
+    { acuity: 'high', minScore: 8, recommendation: 'Assess for permanent supportive housing' },
+  ],
+}
+
+// Every published version, oldest first. The last one is offered for new assessments.
+export const ASSESSMENT_DEFINITIONS: AssessmentDefinition[] = [PRESCREEN_V1]
+
+export const CURRENT_ASSESSMENT = ASSESSMENT_DEFINITIONS[ASSESSMENT_DEFINITIONS.length - 1]
+
+export interface AssessmentFormData {
+  assessed_on: string
+  notes?: string | null
+  // Question ID -> chosen option value
+  answers: Record<string, string>
+}
+
+/**
+ * Build the form schema for a version of the questionnaire. Every question
+ * must be answered ("Refused" counts as an answer).
+ * @param definition - The questionnaire version being taken
+ */
+export function createAssessmentFormSchema(definition: AssessmentDefinition) {
+  const questions = definition.domains.flatMap((domain) => domain.questions)
+
+  return z.object({
+    assessed_on: z.string().min(1, 'Assessment date is required'),
+    notes: z.string().max(2000).optional().nullable(),
+    answers: z.object(
+      Object.fromEntries(
+        questions.map((question) => [
+          question.id,
+          z.enum(question.options.map((option) => option.value) as [string, ...string[]], {
+            message: 'Answer this question',
+          }),
+        ])
+      )
+    ),
+  })
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod'
+
+export const CASE_GOAL_TYPES = ['housing', 'id_documents', 'sobriety', 'income', 'health', 'other'] as const
+
+export type CaseGoalType = (typeof CASE_GOAL_TYPES)[number]
+
+export const CASE_GOAL_TYPE_LABELS: Record<CaseGoalType, string> = {
+  housing: 'Housing',
+  id_documents: 'ID & Documents',
+  sobriety: 'Sobriety',
+  income: 'Income',
+  health: 'Health',
+  other: 'Other',
+}
+
+export const CASE_GOAL_STATUSES = ['active', 'achieved', 'abandoned'] as const
+
+export type CaseGoalStatus = (typeof CASE_GOAL_STATUSES)[number]
+
+export const CASE_GOAL_STATUS_LABELS: Record<CaseGoalStatus, string> = {
+  active: 'Active',
+  achieved: 'Achieved',
+  abandoned: 'Abandoned',
+}
+
+const dateField = z.string().min(1, 'Date is required').regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+export const caseGoalSchema = z.object({
+  goal_type: z.enum(CASE_GOAL_TYPES, { message: 'Select the type of goal' }),
+  description: z.string().trim().min(1, 'Describe the goal').max(1000),
+  target_date: z.union([dateField, z.literal('')]).optional().nullable(),
+})
+
+export type CaseGoalFormData = z.infer<typeof caseGoalSchema>
+
+export const caseStepSchema = z.object({
+  description: z.string().trim().min(1, 'Describe the action step').max(1000),
+  assigned_to: z.string().min(1, 'Assign the step to a worker'),
+  due_date: dateField,
+})
+
+export type CaseStepFormData = z.infer<typeof caseStepSchema>
+
+export const caseGoalUpdateSchema = z.object({
+  note: z.string().trim().min(1, 'Describe the progress').max(2000),
+  encounter_id: z.string().optional().nullable(),
+})
+
+export type CaseGoalUpdateFormData = z.infer<typeof caseGoalUpdateSchema>
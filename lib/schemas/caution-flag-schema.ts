@@ -0,0 +1,25 @@
+import { z } from 'zod'
+
+export const CAUTION_FLAG_TYPES = ['safety', 'service_animal', 'trespass_order', 'medical_risk', 'other'] as const
+
+export type CautionFlagType = (typeof CAUTION_FLAG_TYPES)[number]
+
+export const CAUTION_FLAG_TYPE_LABELS: Record<CautionFlagType, string> = {
+  safety: 'Safety Concern',
+  service_animal: 'Service Animal',
+  trespass_order: 'Trespass Order',
+  medical_risk: 'Medical Risk',
+  other: 'Other',
+}
+
+// Medical risks are usually health information, so they start out sensitive
+export const SENSITIVE_BY_DEFAULT: CautionFlagType[] = ['medical_risk']
+
+export const cautionFlagSchema = z.object({
+  flag_type: z.enum(CAUTION_FLAG_TYPES, { message: 'Select the type of flag' }),
+  description: z.string().trim().min(1, 'Describe the caution').max(1000),
+  sensitive: z.boolean(),
+  expires_on: z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'), z.literal('')]).optional().nullable(),
+})
+
+export type CautionFlagFormData = z.infer<typeof cautionFlagSchema>
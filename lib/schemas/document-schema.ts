@@ -0,0 +1,33 @@
+import { z } from 'zod'
+
+export const DOCUMENT_TYPES = [
+  'photo_id',
+  'birth_certificate',
+  'ssn_card',
+  'dd214',
+  'other',
+] as const
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number]
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  photo_id: 'Photo ID (driver license or state ID)',
+  birth_certificate: 'Birth certificate',
+  ssn_card: 'Social Security card',
+  dd214: 'DD-214',
+  other: 'Other',
+}
+
+// Documents every client needs to be document-ready. Veterans also need a DD-214.
+export const REQUIRED_DOCUMENT_TYPES: readonly DocumentType[] = ['photo_id', 'birth_certificate', 'ssn_card']
+export const VETERAN_DOCUMENT_TYPES: readonly DocumentType[] = ['dd214']
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024
+
+export const documentUploadSchema = z.object({
+  document_type: z.enum(DOCUMENT_TYPES),
+  expires_on: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Date must be in YYYY-MM-DD format').optional().nullable(),
+  notes: z.string().max(500).optional().nullable(),
+})
+
+export type DocumentUploadData = z.infer<typeof documentUploadSchema>
@@ -1,9 +1,12 @@
 import { z } from 'zod'
+import { lookupFieldsRefinement, type LookupListKey, type LookupValues } from './lookup-schema'
 
 export const encounterFormSchema = z.object({
   // Service details
   service_date: z.string().min(1, 'Service date is required'),
   outreach_location: z.string().min(1, 'Location is required'),
+  // Registered site the interaction took place at, if any
+  site_id: z.string().optional().nullable(),
   outreach_worker: z.string().min(1, 'Outreach worker name is required'),
   referral_source: z.string().optional().nullable(),
 
@@ -24,15 +27,11 @@ export const encounterFormSchema = z.object({
   detox_referral: z.boolean(),
   detox_provider: z.string().optional().nullable(),
 
-  // Harm Reduction
-  naloxone_distributed: z.boolean(),
+  // Services from the service catalog (IDs of the services provided)
+  service_ids: z.array(z.string()),
+  // Quantity per service ID, for services that track one
+  service_quantities: z.record(z.string(), z.number().int().min(0).nullable()).optional(),
   naloxone_date: z.string().optional().nullable(),
-  fentanyl_test_strips_count: z.number().int().min(0).optional().nullable(),
-  harm_reduction_education: z.boolean(),
-
-  // Other Services
-  transportation_provided: z.boolean(),
-  shower_trailer: z.boolean(),
   other_services: z.string().optional().nullable(),
 
   // Placement
@@ -48,6 +47,35 @@ export const encounterFormSchema = z.object({
 
 export type EncounterFormData = z.infer<typeof encounterFormSchema>
 
+export const serviceCatalogSchema = z.object({
+  name: z.string().trim().min(1, 'Service name is required').max(100)
+    .refine((name) => /[a-z0-9]/i.test(name), 'Service name must contain a letter or number'),
+  category: z.string().trim().min(1, 'Category is required').max(100),
+  tracks_quantity: z.boolean(),
+  unit: z.string().trim().max(50).optional().nullable(),
+})
+
+export type ServiceCatalogFormData = z.infer<typeof serviceCatalogSchema>
+
+// Encounter fields whose options come from admin-managed lookup lists
+export const ENCOUNTER_LOOKUP_FIELDS: Partial<Record<keyof EncounterFormData, LookupListKey>> = {
+  referral_source: 'referral_source',
+  co_occurring_type: 'co_occurring_type',
+  mat_type: 'mat_type',
+  placement_location: 'placement_location',
+}
+
+/**
+ * Encounter schema that also checks dropdown answers against the lookup lists
+ * @param lookups - Active values for each lookup list
+ */
+export function createEncounterFormSchema(lookups: LookupValues) {
+  return encounterFormSchema.superRefine(lookupFieldsRefinement(ENCOUNTER_LOOKUP_FIELDS, lookups))
+}
+
+// Default option lists, seeded into lookup_options by migration 023 and
+// used until the admin-managed lists have loaded
+
 // MAT (Medication-Assisted Treatment) types
 export const MAT_TYPES = [
   'Methadone',
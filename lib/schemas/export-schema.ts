@@ -0,0 +1,21 @@
+import { z } from 'zod'
+
+const optionalDate = z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Date must be in YYYY-MM-DD format')
+
+// Files in the dashboard CSV export, downloaded one request at a time
+export const CSV_EXPORT_FILES = ['summary', 'clients', 'interactions'] as const
+export type CsvExportFile = typeof CSV_EXPORT_FILES[number]
+
+export const csvExportRequestSchema = z.object({
+  file: z.enum(CSV_EXPORT_FILES),
+  recipient: z.string().trim().min(1, 'Choose who the export is for'),
+  startDate: optionalDate.default(''),
+  endDate: optionalDate.default(''),
+})
+
+export const hmisExportRequestSchema = z.object({
+  startDate: optionalDate.default(''),
+  endDate: optionalDate.default(''),
+  // Return the validation report instead of the zip
+  validateOnly: z.boolean().default(false),
+})
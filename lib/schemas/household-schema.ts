@@ -0,0 +1,31 @@
+import { z } from 'zod'
+
+// HUD 3.15 Relationship to Head of Household
+export const RELATIONSHIPS_TO_HEAD = ['self', 'child', 'spouse_partner', 'other_relative', 'unrelated'] as const
+
+export type RelationshipToHead = (typeof RELATIONSHIPS_TO_HEAD)[number]
+
+export const RELATIONSHIP_LABELS: Record<RelationshipToHead, string> = {
+  self: 'Head of household',
+  child: 'Child',
+  spouse_partner: 'Spouse or partner',
+  other_relative: 'Other relative',
+  unrelated: 'Unrelated household member',
+}
+
+// HMIS CSV RelationshipToHoH codes
+export const HUD_RELATIONSHIP_CODES: Record<RelationshipToHead, number> = {
+  self: 1,
+  child: 2,
+  spouse_partner: 3,
+  other_relative: 4,
+  unrelated: 5,
+}
+
+export const householdMemberSchema = z.object({
+  person_id: z.string().min(1, 'Select a client'),
+  // The head is set when the household is created, not when adding members
+  relationship_to_head: z.enum(RELATIONSHIPS_TO_HEAD).exclude(['self']),
+})
+
+export type HouseholdMemberFormData = z.infer<typeof householdMemberSchema>
@@ -0,0 +1,47 @@
+import { z } from 'zod'
+import { EXIT_DESTINATIONS } from './exit-schema'
+
+// Stages toward permanent housing, in order
+export const HOUSING_STAGES = [
+  'document_ready',
+  'matched',
+  'application_submitted',
+  'unit_identified',
+  'lease_signed',
+  'moved_in',
+] as const
+
+export type HousingStage = (typeof HOUSING_STAGES)[number]
+
+export const HOUSING_STAGE_LABELS: Record<HousingStage, string> = {
+  document_ready: 'Document-ready',
+  matched: 'Matched',
+  application_submitted: 'Application submitted',
+  unit_identified: 'Unit identified',
+  lease_signed: 'Lease signed',
+  moved_in: 'Moved in',
+}
+
+// Moving in exits the client to one of these
+export const MOVE_IN_DESTINATIONS: readonly string[] = EXIT_DESTINATIONS['Permanent Housing']
+
+const dateField = z.string().min(1, 'Date is required').regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+export const pipelineStartSchema = z.object({
+  started_on: dateField,
+  housing_program: z.string().trim().max(100).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+})
+
+export type PipelineStartData = z.infer<typeof pipelineStartSchema>
+
+export const pipelineStageSchema = z.object({
+  stage: z.enum(HOUSING_STAGES),
+  date: dateField,
+  move_in_destination: z.string().optional().nullable(),
+}).refine(
+  (data) => data.stage !== 'moved_in' || MOVE_IN_DESTINATIONS.includes(data.move_in_destination || ''),
+  { message: 'Choose the permanent housing destination', path: ['move_in_destination'] }
+)
+
+export type PipelineStageData = z.infer<typeof pipelineStageSchema>
@@ -0,0 +1,52 @@
+import { z } from 'zod'
+
+export const INCIDENT_TYPES = ['overdose', 'reversal', 'medical', 'violence', 'police_contact'] as const
+
+export type IncidentType = (typeof INCIDENT_TYPES)[number]
+
+export const INCIDENT_TYPE_LABELS: Record<IncidentType, string> = {
+  overdose: 'Overdose',
+  reversal: 'Overdose Reversal',
+  medical: 'Medical Emergency',
+  violence: 'Violence',
+  police_contact: 'Police Contact',
+}
+
+export const INCIDENT_OUTCOMES = [
+  'recovered_on_scene',
+  'transported',
+  'refused_transport',
+  'deceased',
+  'resolved',
+  'unknown',
+] as const
+
+export type IncidentOutcome = (typeof INCIDENT_OUTCOMES)[number]
+
+export const INCIDENT_OUTCOME_LABELS: Record<IncidentOutcome, string> = {
+  recovered_on_scene: 'Recovered on scene',
+  transported: 'Transported to hospital',
+  refused_transport: 'Refused transport',
+  deceased: 'Deceased',
+  resolved: 'Resolved without injury',
+  unknown: 'Unknown',
+}
+
+export type IncidentReviewStatus = 'pending' | 'reviewed'
+
+export const incidentSchema = z.object({
+  incident_type: z.enum(INCIDENT_TYPES, { message: 'Select the type of incident' }),
+  occurred_on: z.string().min(1, 'Date is required').regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  occurred_time: z.string().min(1, 'Time is required').regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+  person_description: z.string().trim().max(500).optional().nullable(),
+  naloxone_doses: z.number({ message: 'Enter the doses administered' }).int('Doses must be a whole number').min(0).max(20),
+  ems_called: z.boolean(),
+  outcome: z.enum(INCIDENT_OUTCOMES, { message: 'Select the outcome' }),
+  location_description: z.string().trim().min(1, 'Location is required').max(200),
+  description: z.string().trim().min(1, 'Describe what happened').max(5000),
+}).refine((data) => data.incident_type !== 'reversal' || data.naloxone_doses > 0, {
+  message: 'A reversal needs at least one naloxone dose administered',
+  path: ['naloxone_doses'],
+})
+
+export type IncidentFormData = z.infer<typeof incidentSchema>
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+
+// Income and benefit sources tracked per client, following the HUD
+// Income and Sources / Non-Cash Benefits data elements (4.02 and 4.03)
+export const INCOME_SOURCES = [
+  'employment',
+  'ssi',
+  'ssdi',
+  'general_assistance',
+  'va_disability',
+  'unemployment',
+  'other_income',
+  'calfresh',
+  'medi_cal',
+  'medicare',
+  'other_benefit',
+] as const
+
+export type IncomeSourceType = typeof INCOME_SOURCES[number]
+
+export const INCOME_SOURCE_LABELS: Record<IncomeSourceType, string> = {
+  employment: 'Employment',
+  ssi: 'SSI',
+  ssdi: 'SSDI',
+  general_assistance: 'General Assistance (GA)',
+  va_disability: 'VA Disability',
+  unemployment: 'Unemployment Insurance',
+  other_income: 'Other Income',
+  calfresh: 'CalFresh',
+  medi_cal: 'Medi-Cal',
+  medicare: 'Medicare',
+  other_benefit: 'Other Benefit',
+}
+
+// Cash income counts toward a client's monthly income; non-cash benefits
+// (food assistance, health insurance) are tracked as enrolled or not
+export const CASH_INCOME_SOURCES: IncomeSourceType[] = [
+  'employment',
+  'ssi',
+  'ssdi',
+  'general_assistance',
+  'va_disability',
+  'unemployment',
+  'other_income',
+]
+
+// HUD reports earned income (employment) separately from other cash income
+export const EARNED_INCOME_SOURCES: IncomeSourceType[] = ['employment']
+
+// When the source was recorded, mirroring HUD data collection stages
+export const INCOME_COLLECTION_STAGES = ['intake', 'interaction', 'update', 'exit'] as const
+
+export type IncomeCollectionStage = typeof INCOME_COLLECTION_STAGES[number]
+
+export function isCashIncome(sourceType: IncomeSourceType): boolean {
+  return CASH_INCOME_SOURCES.includes(sourceType)
+}
+
+export const incomeSourceInputSchema = z.object({
+  source_type: z.enum(INCOME_SOURCES),
+  monthly_amount: z.number().min(0, 'Amount cannot be negative').max(100000).nullable(),
+  notes: z.string().max(500).optional().nullable(),
+}).refine((data) => !isCashIncome(data.source_type) || data.monthly_amount !== null, {
+  message: 'Enter the monthly amount for each income source',
+  path: ['monthly_amount'],
+})
+
+export type IncomeSourceInput = z.infer<typeof incomeSourceInputSchema>
+
+// Sources started and ended at one point in time (intake, an interaction,
+// an update from the profile or exit)
+export const incomeChangesSchema = z.object({
+  added: z.array(incomeSourceInputSchema),
+  ended: z.array(z.string().min(1)),
+})
+
+export type IncomeChanges = z.infer<typeof incomeChangesSchema>
+
+export const EMPTY_INCOME_CHANGES: IncomeChanges = { added: [], ended: [] }
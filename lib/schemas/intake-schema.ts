@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { lookupFieldsRefinement, type LookupListKey, type LookupValues } from './lookup-schema'
 
 export const intakeFormSchema = z.object({
   // Personal Information
@@ -27,8 +28,6 @@ export const intakeFormSchema = z.object({
   living_situation: z.string().min(1, 'Living situation is required'),
   length_of_time_homeless: z.string().optional().nullable(),
   evictions: z.number().int().min(0).optional().nullable(),
-  income: z.string().optional().nullable(),
-  income_amount: z.number().min(0).optional().nullable(),
   support_system: z.string().optional().nullable(),
 
   // Program Information
@@ -40,6 +39,33 @@ export const intakeFormSchema = z.object({
 
 export type IntakeFormData = z.infer<typeof intakeFormSchema>
 
+// Intake fields whose options come from admin-managed lookup lists
+export const INTAKE_LOOKUP_FIELDS: Partial<Record<keyof IntakeFormData, LookupListKey>> = {
+  gender: 'gender',
+  race: 'race',
+  sexual_orientation: 'sexual_orientation',
+  disability_types: 'disability_type',
+  addictions: 'addiction',
+  living_situation: 'living_situation',
+  length_of_time_homeless: 'time_homeless',
+  referral_source: 'referral_source',
+}
+
+/**
+ * Intake schema that also checks dropdown answers against the lookup lists
+ * @param lookups - Active values for each lookup list
+ * @param existing - Saved answers of the client being edited
+ */
+export function createIntakeFormSchema(
+  lookups: LookupValues,
+  existing: Partial<Record<keyof IntakeFormData, string | string[] | null>> = {}
+) {
+  return intakeFormSchema.superRefine(lookupFieldsRefinement(INTAKE_LOOKUP_FIELDS, lookups, existing))
+}
+
+// Default option lists, seeded into lookup_options by migration 023 and
+// used until the admin-managed lists have loaded
+
 // HUD Standard Living Situations
 export const LIVING_SITUATIONS = [
   'Place not meant for habitation',
@@ -0,0 +1,84 @@
+import { z } from 'zod'
+
+export const STOCK_LOCATION_TYPES = ['worker', 'vehicle', 'storage'] as const
+
+export type StockLocationType = (typeof STOCK_LOCATION_TYPES)[number]
+
+export const STOCK_LOCATION_TYPE_LABELS: Record<StockLocationType, string> = {
+  worker: 'Worker',
+  vehicle: 'Vehicle',
+  storage: 'Storage',
+}
+
+export const INVENTORY_TRANSACTION_TYPES = ['restock', 'transfer', 'distribution', 'adjustment'] as const
+
+export type InventoryTransactionType = (typeof INVENTORY_TRANSACTION_TYPES)[number]
+
+export const INVENTORY_TRANSACTION_TYPE_LABELS: Record<InventoryTransactionType, string> = {
+  restock: 'Restock',
+  transfer: 'Transfer',
+  distribution: 'Distribution',
+  adjustment: 'Adjustment',
+}
+
+// Lots expiring within this many days are flagged on the dashboard
+export const EXPIRY_WARNING_DAYS = 60
+
+const dateField = z.string().min(1, 'Date is required').regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+const quantityField = z.number({ message: 'Quantity is required' }).int('Quantity must be a whole number').min(1, 'Quantity must be at least 1')
+
+export const inventoryItemSchema = z.object({
+  name: z.string().trim().min(1, 'Item name is required').max(100),
+  unit: z.string().trim().min(1, 'Unit is required').max(50),
+  service_id: z.string().optional().nullable(),
+  low_stock_threshold: z.number({ message: 'Threshold is required' }).int().min(0).max(100000),
+})
+
+export type InventoryItemFormData = z.infer<typeof inventoryItemSchema>
+
+export const stockLocationSchema = z.object({
+  name: z.string().trim().min(1, 'Location name is required').max(100),
+  location_type: z.enum(STOCK_LOCATION_TYPES),
+  worker_email: z.union([z.string().trim().email('Enter a valid email'), z.literal('')]).optional().nullable(),
+})
+
+export type StockLocationFormData = z.infer<typeof stockLocationSchema>
+
+// Receiving stock: a new or existing lot of an item into a location
+export const restockSchema = z.object({
+  item_id: z.string().min(1, 'Select an item'),
+  lot_number: z.string().trim().min(1, 'Lot number is required').max(100),
+  expires_on: dateField,
+  to_location_id: z.string().min(1, 'Select where the stock goes'),
+  quantity: quantityField,
+  occurred_on: dateField,
+  notes: z.string().trim().max(500).optional().nullable(),
+})
+
+export type RestockFormData = z.infer<typeof restockSchema>
+
+export const transferSchema = z.object({
+  lot_id: z.string().min(1, 'Select a lot'),
+  from_location_id: z.string().min(1, 'Select where the stock comes from'),
+  to_location_id: z.string().min(1, 'Select where the stock goes'),
+  quantity: quantityField,
+  occurred_on: dateField,
+  notes: z.string().trim().max(500).optional().nullable(),
+}).refine((data) => data.from_location_id !== data.to_location_id, {
+  message: 'Pick two different locations',
+  path: ['to_location_id'],
+})
+
+export type TransferFormData = z.infer<typeof transferSchema>
+
+// Correcting a count: stock that expired, was damaged or lost, or was found
+export const adjustmentSchema = z.object({
+  lot_id: z.string().min(1, 'Select a lot'),
+  location_id: z.string().min(1, 'Select a location'),
+  direction: z.enum(['remove', 'add']),
+  quantity: quantityField,
+  occurred_on: dateField,
+  notes: z.string().trim().min(1, 'Give a reason for the adjustment').max(500),
+})
+
+export type AdjustmentFormData = z.infer<typeof adjustmentSchema>
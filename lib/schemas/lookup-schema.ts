@@ -0,0 +1,83 @@
+import { z } from 'zod'
+
+// Option lists admins manage from /dashboard/lookups
+export const LOOKUP_LISTS = [
+  'gender',
+  'race',
+  'sexual_orientation',
+  'disability_type',
+  'addiction',
+  'living_situation',
+  'time_homeless',
+  'referral_source',
+  'co_occurring_type',
+  'mat_type',
+  'placement_location',
+  'roi_recipient',
+] as const
+
+export type LookupListKey = typeof LOOKUP_LISTS[number]
+
+export const LOOKUP_LIST_LABELS: Record<LookupListKey, string> = {
+  gender: 'Gender',
+  race: 'Race',
+  sexual_orientation: 'Sexual Orientation',
+  disability_type: 'Disability Types',
+  addiction: 'Addiction / Substance Use',
+  living_situation: 'Living Situations',
+  time_homeless: 'Length of Time Homeless',
+  referral_source: 'Referral Sources',
+  co_occurring_type: 'Co-occurring Condition Types',
+  mat_type: 'MAT Types',
+  placement_location: 'Placement Locations',
+  roi_recipient: 'ROI Recipient Agencies',
+}
+
+// Active option values for each list, in display order
+export type LookupValues = Record<LookupListKey, readonly string[]>
+
+export const lookupOptionSchema = z.object({
+  value: z.string().trim().min(1, 'Option is required').max(200)
+    // Multi-select answers are stored comma-separated
+    .refine((value) => !value.includes(','), 'Options cannot contain commas'),
+})
+
+export type LookupOptionFormData = z.infer<typeof lookupOptionSchema>
+
+/**
+ * Build a superRefine check that form fields hold an active option from
+ * their lookup list. Values already saved on the record stay valid after
+ * their option is retired.
+ * @param fields - Form field name -> lookup list it draws from
+ * @param lookups - Active values for each list
+ * @param existing - The record being edited, if any
+ */
+export function lookupFieldsRefinement<T extends Record<string, unknown>>(
+  fields: Partial<Record<keyof T & string, LookupListKey>>,
+  lookups: LookupValues,
+  existing: Partial<Record<keyof T & string, string | string[] | null>> = {}
+) {
+  return (data: T, ctx: z.RefinementCtx) => {
+    (Object.keys(fields) as (keyof T & string)[]).forEach((field) => {
+      const listKey = fields[field] as LookupListKey
+      const value = data[field]
+      const values = (Array.isArray(value) ? value : [value])
+        .filter((v): v is string => typeof v === 'string' && v !== '')
+      const saved = existing[field]
+      const allowed = new Set([
+        ...lookups[listKey],
+        ...(Array.isArray(saved) ? saved : saved ? [saved] : []),
+      ])
+
+      values.forEach((v) => {
+        if (!allowed.has(v)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: [field],
+            message: `"${v}" is no longer an available option`,
+          })
+        }
+      })
+    })
+  }
+}
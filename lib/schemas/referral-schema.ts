@@ -0,0 +1,36 @@
+import { z } from 'zod'
+
+export const REFERRAL_TYPES = ['mat', 'detox'] as const
+
+export type ReferralType = (typeof REFERRAL_TYPES)[number]
+
+export const REFERRAL_TYPE_LABELS: Record<ReferralType, string> = {
+  mat: 'MAT',
+  detox: 'Detox',
+}
+
+export const REFERRAL_STATUSES = ['pending', 'accepted', 'attended', 'declined', 'no_show'] as const
+
+export type ReferralStatus = (typeof REFERRAL_STATUSES)[number]
+
+export const REFERRAL_STATUS_LABELS: Record<ReferralStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  attended: 'Attended',
+  declined: 'Declined',
+  no_show: 'No-show',
+}
+
+// Referrals still waiting on an outcome; the rest are closed
+export const OPEN_REFERRAL_STATUSES: readonly ReferralStatus[] = ['pending', 'accepted']
+
+// Days after the referral before an open referral is overdue for follow-up
+export const REFERRAL_FOLLOW_UP_DAYS = 7
+
+export const referralUpdateSchema = z.object({
+  status: z.enum(REFERRAL_STATUSES),
+  outcome_date: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Date must be in YYYY-MM-DD format').optional().nullable(),
+  notes: z.string().max(1000).optional().nullable(),
+})
+
+export type ReferralUpdateData = z.infer<typeof referralUpdateSchema>
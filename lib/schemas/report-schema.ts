@@ -0,0 +1,147 @@
+import { z } from 'zod'
+
+const optionalDate = z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Date must be in YYYY-MM-DD format')
+
+// Metrics and sections that can be selected in the custom report builder
+export const REPORT_METRICS = [
+  'clientsServed',
+  'householdsServed',
+  'serviceInteractions',
+  'naloxone',
+  'fentanylStrips',
+  'servicesProvided',
+  'siteBreakdown',
+  'totalReferrals',
+  'referralBreakdown',
+  'referralOutcomes',
+  'housingPlacements',
+  'housingPipeline',
+  'incomeChange',
+  'caseGoals',
+  'placements',
+  'refusedShelter',
+  'highUtilizerCount',
+  'returnedToActive',
+  'inflows',
+  'outflows',
+  'byNameList',
+  'interactionsDetail',
+] as const
+
+// Demographic breakdowns computed over the clients in the report
+export const DEMOGRAPHIC_BREAKDOWNS = [
+  'race',
+  'ethnicity',
+  'gender',
+  'sexualOrientation',
+  'ageRange',
+  'veteranStatus',
+  'disabilityStatus',
+  'livingSituation',
+] as const
+
+export const AGE_RANGES = ['18-24', '25-34', '35-44', '45-54', '55-64', '65+'] as const
+
+// Drill-down lists fetched on demand from the report modal
+export const REPORT_DETAIL_TYPES = [
+  'clientsServed',
+  'serviceInteractions',
+  'naloxone',
+  'fentanylStrips',
+  'refusedShelter',
+] as const
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const reportOptionsSchema = z.object({
+  startDate: optionalDate.default(''),
+  endDate: optionalDate.default(''),
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+  metrics: z.array(z.enum(REPORT_METRICS)).default([]),
+  demographics: z.array(z.enum(DEMOGRAPHIC_BREAKDOWNS)).default([]),
+  filters: z.object({
+    veteransOnly: z.boolean().default(false),
+    disabledOnly: z.boolean().default(false),
+    chronicHomeless: z.boolean().default(false),
+    ageRange: z.union([z.enum(AGE_RANGES), z.literal('')]).default(''),
+  }).default({ veteransOnly: false, disabledOnly: false, chronicHomeless: false, ageRange: '' }),
+})
+
+// Relative date ranges a saved report definition can use
+export const REPORT_DATE_RANGES = [
+  'last_full_month',
+  'month_to_date',
+  'last_full_quarter',
+  'year_to_date',
+  'last_30_days',
+  'all_time',
+  'custom',
+] as const
+
+export const REPORT_DATE_RANGE_LABELS: Record<typeof REPORT_DATE_RANGES[number], string> = {
+  last_full_month: 'Last full month',
+  month_to_date: 'Month to date',
+  last_full_quarter: 'Last full quarter',
+  year_to_date: 'Year to date',
+  last_30_days: 'Last 30 days',
+  all_time: 'All time',
+  custom: 'Custom dates',
+}
+
+export const REPORT_SCHEDULES = ['none', 'weekly', 'monthly'] as const
+
+// The builder selections stored on a saved report definition
+export const reportSelectionSchema = reportOptionsSchema.pick({
+  metrics: true,
+  demographics: true,
+  filters: true,
+})
+
+export const reportDefinitionSchema = z.object({
+  name: z.string().trim().min(1, 'Report name is required'),
+  description: z.string().optional().nullable(),
+  is_shared: z.boolean(),
+  date_range: z.enum(REPORT_DATE_RANGES),
+  start_date: optionalDate.optional().nullable(),
+  end_date: optionalDate.optional().nullable(),
+  schedule: z.enum(REPORT_SCHEDULES),
+})
+
+export const reportDetailRequestSchema = z.object({
+  options: reportOptionsSchema,
+  type: z.enum(REPORT_DETAIL_TYPES),
+})
+
+// Cover page settings for the PDF funder report
+export const reportPdfCoverSchema = z.object({
+  include_cover: z.boolean(),
+  title: z.string().trim().min(1, 'Report title is required'),
+  organization: z.string().optional().nullable(),
+  prepared_for: z.string().optional().nullable(),
+  prepared_by: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+})
+
+// A PDF is rendered either from fresh options or from a stored run in the report history
+export const reportPdfRequestSchema = z.object({
+  options: reportOptionsSchema.optional(),
+  runId: z.string().uuid().optional(),
+  cover: reportPdfCoverSchema,
+}).refine((data) => !!data.options || !!data.runId, 'Report options or a report run is required')
+
+export type ReportOptions = z.infer<typeof reportOptionsSchema>
+export type ReportMetric = typeof REPORT_METRICS[number]
+export type DemographicBreakdown = typeof DEMOGRAPHIC_BREAKDOWNS[number]
+export type ReportDetailType = typeof REPORT_DETAIL_TYPES[number]
+export type ReportSelection = z.infer<typeof reportSelectionSchema>
+export type ReportDefinitionFormData = z.infer<typeof reportDefinitionSchema>
+export type ReportDateRange = typeof REPORT_DATE_RANGES[number]
+export type ReportSchedule = typeof REPORT_SCHEDULES[number]
+export type ReportPdfCover = z.infer<typeof reportPdfCoverSchema>
@@ -0,0 +1,34 @@
+import { z } from 'zod'
+
+// Agencies a client can authorize sharing with. Admins manage the list from
+// /dashboard/lookups (roi_recipient); these are the built-in defaults.
+export const ROI_RECIPIENTS = [
+  'San Diego HMIS (Regional Task Force on Homelessness)',
+  'Coordinated Entry System',
+  'County of San Diego',
+  'City of Encinitas',
+  'VA San Diego Healthcare System',
+] as const
+
+// Recipients of the app's fixed exports. Keep these options active in the
+// lookup list, or nobody can be included in those exports.
+export const HMIS_ROI_RECIPIENT = ROI_RECIPIENTS[0]
+export const COORDINATED_ENTRY_ROI_RECIPIENT = ROI_RECIPIENTS[1]
+
+// Releases are signed for a year unless the client asks otherwise
+export const DEFAULT_ROI_TERM_MONTHS = 12
+
+const dateField = z.string().min(1, 'Date is required').regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+export const roiFormSchema = z.object({
+  recipients: z.array(z.string().min(1)).min(1, 'Select at least one agency'),
+  effective_on: dateField,
+  expires_on: dateField,
+  signature: z.string().startsWith('data:image/png;base64,', 'The client must sign'),
+  notes: z.string().max(1000).optional().nullable(),
+}).refine((data) => data.expires_on > data.effective_on, {
+  message: 'Expiry date must be after the effective date',
+  path: ['expires_on'],
+})
+
+export type RoiFormData = z.infer<typeof roiFormSchema>
@@ -0,0 +1,25 @@
+import { z } from 'zod'
+
+export const SITE_TYPES = ['encampment', 'vehicle', 'park', 'business'] as const
+
+export type SiteType = (typeof SITE_TYPES)[number]
+
+export const SITE_TYPE_LABELS: Record<SiteType, string> = {
+  encampment: 'Encampment',
+  vehicle: 'Vehicle',
+  park: 'Park',
+  business: 'Business',
+}
+
+export const DEFAULT_SITE_RADIUS_METERS = 100
+
+export const siteSchema = z.object({
+  name: z.string().trim().min(1, 'Site name is required').max(100),
+  site_type: z.enum(SITE_TYPES),
+  latitude: z.number({ message: 'Pick the site on the map' }).min(-90).max(90),
+  longitude: z.number({ message: 'Pick the site on the map' }).min(-180).max(180),
+  radius_meters: z.number({ message: 'Radius is required' }).int().min(10, 'Radius must be at least 10 m').max(5000),
+  notes: z.string().trim().max(500).optional().nullable(),
+})
+
+export type SiteFormData = z.infer<typeof siteSchema>
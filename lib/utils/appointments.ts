@@ -0,0 +1,248 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { addMinutes } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import type {
+  AppointmentFormData,
+  AppointmentStatus,
+  AppointmentType,
+} from '@/lib/schemas/appointment-schema'
+import { fetchMergedPersonIds } from '@/lib/utils/person-merge'
+
+export interface Appointment {
+  id: string
+  person_id: string
+  appointment_type: AppointmentType
+  scheduled_at: string
+  duration_minutes: number
+  assigned_to: string
+  location?: string | null
+  transportation_needed: boolean
+  notes?: string | null
+  status: AppointmentStatus
+  status_changed_at?: string | null
+  status_changed_by?: string | null
+  follow_up_encounter_id?: string | null
+  created_by?: string | null
+  created_at: string
+  person?: { id: string, client_id: string, first_name: string, last_name: string } | null
+}
+
+// Embedded select for the client an appointment is with
+const APPOINTMENT_SELECT = '*, person:persons(id, client_id, first_name, last_name)'
+
+/**
+ * Load every worker's appointments in a date range, earliest first
+ * @param supabase - Supabase client (browser or server)
+ * @param startDate - First day (YYYY-MM-DD)
+ * @param endDate - Last day (YYYY-MM-DD)
+ */
+export async function fetchAppointments(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<Appointment[]> {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .gte('scheduled_at', new Date(`${startDate}T00:00:00`).toISOString())
+    .lte('scheduled_at', new Date(`${endDate}T23:59:59`).toISOString())
+    .order('scheduled_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as Appointment[]
+}
+
+/**
+ * Load a worker's agenda: appointments assigned to them that are still
+ * scheduled, earliest first so overdue ones lead
+ * @param supabase - Supabase client (browser or server)
+ * @param email - The worker's email
+ */
+export async function fetchWorkerAgenda(supabase: SupabaseClient, email: string): Promise<Appointment[]> {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .eq('assigned_to', email)
+    .eq('status', 'scheduled')
+    .order('scheduled_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as Appointment[]
+}
+
+/**
+ * Load a client's appointments, latest first. Appointments made for
+ * duplicates merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonAppointments(supabase: SupabaseClient, personId: string): Promise<Appointment[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .in('person_id', personIds)
+    .order('scheduled_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as Appointment[]
+}
+
+/**
+ * Load a single appointment
+ * @param supabase - Supabase client (browser or server)
+ * @param appointmentId - The appointment's UUID
+ */
+export async function fetchAppointment(supabase: SupabaseClient, appointmentId: string): Promise<Appointment | null> {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .eq('id', appointmentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as Appointment | null
+}
+
+export function appointmentEnd(appointment: Pick<Appointment, 'scheduled_at' | 'duration_minutes'>): Date {
+  return addMinutes(new Date(appointment.scheduled_at), appointment.duration_minutes)
+}
+
+/**
+ * Whether an appointment is over but nobody has recorded what happened
+ */
+export function isAppointmentOverdue(
+  appointment: Pick<Appointment, 'scheduled_at' | 'duration_minutes' | 'status'>,
+  now: Date = new Date()
+): boolean {
+  return appointment.status === 'scheduled' && appointmentEnd(appointment) < now
+}
+
+/**
+ * Schedule an appointment with a client
+ * @param personId - The person's UUID
+ * @param data - Type, date and time, length, worker, location and whether a ride is needed
+ */
+export async function saveAppointment(personId: string, data: AppointmentFormData): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('appointments')
+    .insert({
+      person_id: personId,
+      appointment_type: data.appointment_type,
+      scheduled_at: new Date(`${data.scheduled_on}T${data.scheduled_time}`).toISOString(),
+      duration_minutes: data.duration_minutes,
+      assigned_to: data.assigned_to,
+      location: data.location || null,
+      transportation_needed: data.transportation_needed,
+      notes: data.notes || null,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Record what happened to an appointment
+ * @param appointmentId - The appointment's UUID
+ * @param status - completed, no_show or cancelled
+ * @returns The updated appointment
+ */
+export async function setAppointmentStatus(appointmentId: string, status: AppointmentStatus): Promise<Appointment> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data, error } = await supabase
+    .from('appointments')
+    .update({
+      status,
+      status_changed_at: new Date().toISOString(),
+      status_changed_by: user?.email || 'Unknown',
+    } as never)
+    .eq('id', appointmentId)
+    .select(APPOINTMENT_SELECT)
+    .single()
+
+  if (error) throw error
+  return data as Appointment
+}
+
+/**
+ * Link the interaction that followed up a missed appointment. An overdue
+ * appointment nobody closed is marked a no-show.
+ * @param appointmentId - The appointment's UUID
+ * @param encounterId - The follow-up interaction's UUID
+ */
+export async function linkFollowUpEncounter(appointmentId: string, encounterId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { data: appointment, error: fetchError } = await supabase
+    .from('appointments')
+    .select('status')
+    .eq('id', appointmentId)
+    .single<{ status: AppointmentStatus }>()
+
+  if (fetchError) throw fetchError
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { error } = await supabase
+    .from('appointments')
+    .update({
+      follow_up_encounter_id: encounterId,
+      ...(appointment.status === 'scheduled' && {
+        status: 'no_show',
+        status_changed_at: new Date().toISOString(),
+        status_changed_by: user?.email || 'Unknown',
+      }),
+    } as never)
+    .eq('id', appointmentId)
+
+  if (error) throw error
+}
+
+/**
+ * The signed-in worker's calendar feed token, created on first use
+ */
+export async function fetchCalendarFeedToken(): Promise<string> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Not signed in')
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('token')
+    .eq('user_id', user.id)
+    .maybeSingle<{ token: string }>()
+
+  if (error) throw error
+  if (data) return data.token
+
+  const { data: created, error: createError } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({ user_id: user.id } as never)
+    .select('token')
+    .single<{ token: string }>()
+
+  if (createError) throw createError
+  return created.token
+}
+
+/**
+ * Replace the signed-in worker's calendar feed token, so the old feed URL
+ * stops working (e.g. after a phone is lost)
+ */
+export async function resetCalendarFeedToken(): Promise<string> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Not signed in')
+
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', user.id)
+
+  if (error) throw error
+  return fetchCalendarFeedToken()
+}
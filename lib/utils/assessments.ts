@@ -0,0 +1,201 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import {
+  ASSESSMENT_DEFINITIONS,
+  CURRENT_ASSESSMENT,
+  type Acuity,
+  type AssessmentDefinition,
+  type AssessmentFormData,
+} from '@/lib/schemas/assessment-schema'
+import { TIME_HOMELESS_OPTIONS } from '@/lib/schemas/intake-schema'
+import { fetchAllRows } from '@/lib/utils/paginate'
+import { fetchMergedPersonIds, resolveSurvivorIds } from '@/lib/utils/person-merge'
+
+export interface Assessment {
+  id: string
+  person_id: string
+  definition_key: string
+  definition_version: number
+  answers: Record<string, string>
+  domain_scores: Record<string, number>
+  total_score: number
+  acuity: Acuity
+  assessed_on: string
+  notes?: string | null
+  assessed_by?: string | null
+  created_at: string
+}
+
+export interface AssessmentScore {
+  total: number
+  domainScores: Record<string, number>
+  acuity: Acuity
+}
+
+// A client on the prioritization list with their latest assessment
+export interface PriorityListEntry {
+  person: PriorityPerson
+  assessment: Assessment
+}
+
+export interface PriorityPerson {
+  id: string
+  client_id: string
+  first_name: string
+  last_name: string
+  chronic_homeless: boolean
+  veteran_status: boolean
+  length_of_time_homeless?: string | null
+}
+
+// Lengths of time homeless from shortest to longest. "Unknown" and values
+// admins added later sort below all of them.
+const LENGTH_HOMELESS_ORDER: readonly string[] = TIME_HOMELESS_OPTIONS.filter((option) => option !== 'Unknown')
+
+/**
+ * Find the questionnaire version an assessment was taken on
+ * @returns The definition, or undefined if the version is unknown
+ */
+export function getAssessmentDefinition(key: string, version: number): AssessmentDefinition | undefined {
+  return ASSESSMENT_DEFINITIONS.find((d) => d.key === key && d.version === version)
+}
+
+/**
+ * Score a set of answers: points per domain, the total and the acuity band
+ * @param definition - The questionnaire version answered
+ * @param answers - Question ID -> chosen option value (unanswered questions score 0)
+ */
+export function scoreAssessment(
+  definition: AssessmentDefinition,
+  answers: Partial<Record<string, string>>
+): AssessmentScore {
+  const domainScores = Object.fromEntries(
+    definition.domains.map((domain) => [
+      domain.key,
+      domain.questions.reduce(
+        (sum, question) => sum + (question.options.find((o) => o.value === answers[question.id])?.points || 0),
+        0
+      ),
+    ])
+  )
+  const total = Object.values(domainScores).reduce((sum, points) => sum + points, 0)
+
+  const band = [...definition.acuityBands].reverse().find((b) => total >= b.minScore)
+    || definition.acuityBands[0]
+
+  return { total, domainScores, acuity: band.acuity }
+}
+
+/**
+ * Load a client's assessments, newest first. Assessments recorded on
+ * duplicates merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonAssessments(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<Assessment[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('assessments')
+    .select('*')
+    .in('person_id', personIds)
+    .order('assessed_on', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as Assessment[]
+}
+
+/**
+ * Score and save an assessment on the current questionnaire
+ * @param personId - The person's UUID
+ * @param data - Answers, assessment date and notes
+ * @returns The saved assessment
+ */
+export async function saveAssessment(personId: string, data: AssessmentFormData): Promise<Assessment> {
+  const supabase = createClient()
+  const score = scoreAssessment(CURRENT_ASSESSMENT, data.answers)
+
+  const { data: assessment, error } = await supabase
+    .from('assessments')
+    .insert({
+      person_id: personId,
+      definition_key: CURRENT_ASSESSMENT.key,
+      definition_version: CURRENT_ASSESSMENT.version,
+      answers: data.answers,
+      domain_scores: score.domainScores,
+      total_score: score.total,
+      acuity: score.acuity,
+      assessed_on: data.assessed_on,
+      notes: data.notes || null,
+    } as never)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return assessment as Assessment
+}
+
+/**
+ * Sort order for the prioritization list: highest score first, then
+ * chronically homeless, then veterans, then longest homeless, then the
+ * earliest assessment
+ */
+export function comparePriority(a: PriorityListEntry, b: PriorityListEntry): number {
+  const lengthRank = (person: PriorityPerson) =>
+    LENGTH_HOMELESS_ORDER.indexOf(person.length_of_time_homeless || '')
+
+  return b.assessment.total_score - a.assessment.total_score
+    || Number(b.person.chronic_homeless) - Number(a.person.chronic_homeless)
+    || Number(b.person.veteran_status) - Number(a.person.veteran_status)
+    || lengthRank(b.person) - lengthRank(a.person)
+    || a.assessment.assessed_on.localeCompare(b.assessment.assessed_on)
+}
+
+/**
+ * Build the prioritization list: active clients with their latest
+ * assessment, in priority order
+ * @param supabase - Server Supabase client
+ */
+export async function fetchPriorityList(supabase: SupabaseClient): Promise<PriorityListEntry[]> {
+  const [persons, assessments] = await Promise.all([
+    fetchAllRows<PriorityPerson & { exit_date?: string | null, merged_into?: string | null }>((from, to) =>
+      supabase
+        .from('persons')
+        .select('id, client_id, first_name, last_name, chronic_homeless, veteran_status, length_of_time_homeless, exit_date, merged_into')
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows<Assessment>((from, to) =>
+      supabase
+        .from('assessments')
+        .select('*')
+        .order('assessed_on', { ascending: false })
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(from, to)
+    ),
+  ])
+
+  const survivorIds = resolveSurvivorIds(persons)
+  const activePersons = new Map(
+    persons.filter((p) => !p.merged_into && !p.exit_date).map((p) => [p.id, p])
+  )
+
+  // Assessments are newest first, so the first one seen per client is their latest
+  const latest = new Map<string, Assessment>()
+  for (const assessment of assessments) {
+    const personId = survivorIds.get(assessment.person_id) || assessment.person_id
+    if (!latest.has(personId)) {
+      latest.set(personId, assessment)
+    }
+  }
+
+  return Array.from(latest.entries())
+    .filter(([personId]) => activePersons.has(personId))
+    .map(([personId, assessment]) => ({ person: activePersons.get(personId) as PriorityPerson, assessment }))
+    .sort(comparePriority)
+}
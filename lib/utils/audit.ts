@@ -0,0 +1,124 @@
+import { addDays, parseISO } from 'date-fns'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+
+export type AuditAction = 'view' | 'insert' | 'update' | 'delete' | 'merge' | 'unmerge' | 'export'
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  view: 'Viewed',
+  insert: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+  merge: 'Merged',
+  unmerge: 'Unmerged',
+  export: 'Exported',
+}
+
+export interface AuditFieldChange {
+  before: unknown
+  after: unknown
+}
+
+export interface AuditLogEntry {
+  id: string
+  user_id?: string | null
+  user_email?: string | null
+  action: AuditAction
+  entity_type: string
+  entity_id?: string | null
+  person_id?: string | null
+  client_id?: string | null
+  changes?: Record<string, AuditFieldChange> | null
+  details?: Record<string, unknown> | null
+  created_at: string
+}
+
+// Writes are logged by database triggers; the app logs the rest
+export interface AuditEvent {
+  action: Extract<AuditAction, 'view' | 'merge' | 'unmerge' | 'export'>
+  entity_type: string
+  entity_id?: string | null
+  person_id?: string | null
+  client_id?: string | null
+  details?: Record<string, unknown>
+}
+
+/**
+ * Record a view, merge, unmerge or export in the audit log as the current user.
+ * The database fills in the user from the session.
+ * Failures are logged rather than thrown so the audited action still completes.
+ * @param supabase - Browser or server Supabase client with the user's session
+ * @param event - What was accessed and how
+ */
+export async function logAuditEvent(
+  supabase: SupabaseClient,
+  event: AuditEvent
+): Promise<void> {
+  const { error } = await supabase.rpc('log_audit_event', {
+    event_action: event.action,
+    event_entity_type: event.entity_type,
+    event_entity_id: event.entity_id || null,
+    event_person_id: event.person_id || null,
+    event_client_id: event.client_id || null,
+    event_details: event.details || null,
+  } as never)
+
+  if (error) {
+    console.error('Error writing audit log:', error)
+  }
+}
+
+export interface AuditLogFilters {
+  userId?: string
+  client?: string // Client ID or name
+  action?: AuditAction | ''
+  startDate?: string // YYYY-MM-DD, local time
+  endDate?: string // YYYY-MM-DD, local time, inclusive
+}
+
+export const AUDIT_PAGE_SIZE = 50
+
+/**
+ * Search the audit log, newest first. Only admins can read the log.
+ * @param filters - User, client, action and date range to match
+ * @param page - Zero-based page of AUDIT_PAGE_SIZE entries
+ */
+export async function searchAuditLog(
+  filters: AuditLogFilters,
+  page: number = 0
+): Promise<AuditLogEntry[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1)
+
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.action) query = query.eq('action', filters.action)
+  if (filters.startDate) query = query.gte('created_at', parseISO(filters.startDate).toISOString())
+  if (filters.endDate) query = query.lt('created_at', addDays(parseISO(filters.endDate), 1).toISOString())
+
+  // Strip characters that would break the PostgREST filter syntax
+  const client = (filters.client || '').replace(/[,()%*]/g, '').trim()
+  if (client) {
+    const { data: matches, error: matchError } = await supabase
+      .from('persons')
+      .select('id')
+      .or(`client_id.ilike.%${client}%,first_name.ilike.%${client}%,last_name.ilike.%${client}%`)
+      .limit(100)
+
+    if (matchError) throw matchError
+
+    const personIds = ((matches || []) as { id: string }[]).map((p) => p.id)
+    query = personIds.length > 0
+      ? query.or(`client_id.ilike.%${client}%,person_id.in.(${personIds.join(',')})`)
+      : query.ilike('client_id', `%${client}%`)
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return (data || []) as AuditLogEntry[]
+}
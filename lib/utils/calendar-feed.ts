@@ -0,0 +1,90 @@
+import { appointmentEnd, type Appointment } from '@/lib/utils/appointments'
+
+// Calendar apps sync feeds to third-party servers, so events only say there
+// is a client appointment and link to the profile. Who it's with, the type
+// (e.g. a detox intake) and where it is can reveal substance use treatment
+// covered by 42 CFR Part 2, so they stay in the app.
+
+function icsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// UTF-8 length of a single code point
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) as number
+  if (code < 0x80) return 1
+  if (code < 0x800) return 2
+  if (code < 0x10000) return 3
+  return 4
+}
+
+// Lines longer than 75 octets continue on the next line after a space (which
+// counts toward the 75), breaking only between characters
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  let limit = 75
+
+  for (const char of line) {
+    const length = utf8Length(char)
+    if (octets + length > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+      limit = 74
+    }
+    current += char
+    octets += length
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+/**
+ * Build an iCalendar (.ics) feed of appointments
+ * @param appointments - Appointments to include
+ * @param calendarName - Name shown in the calendar app
+ * @param appUrl - Base URL of the app, for links to client profiles
+ */
+export function buildCalendarFeed(appointments: Appointment[], calendarName: string, appUrl: string): string {
+  const stamp = icsDate(new Date())
+
+  const events = appointments.map((appointment) => {
+    const summary = appointment.transportation_needed
+      ? 'Client appointment - ride needed'
+      : 'Client appointment'
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${appointment.id}@street-reach`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(new Date(appointment.scheduled_at))}`,
+      `DTEND:${icsDate(appointmentEnd(appointment))}`,
+      `SUMMARY:${icsText(summary)}`,
+      `URL:${appUrl}/client/${appointment.person_id}`,
+      `STATUS:${appointment.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT',
+    ]
+  })
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Encinitas Street Reach//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,281 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  CASE_GOAL_TYPES,
+  type CaseGoalFormData,
+  type CaseGoalStatus,
+  type CaseGoalType,
+  type CaseGoalUpdateFormData,
+  type CaseStepFormData,
+} from '@/lib/schemas/case-plan-schema'
+import { fetchMergedPersonIds } from '@/lib/utils/person-merge'
+
+export interface CaseStep {
+  id: string
+  goal_id: string
+  person_id: string
+  description: string
+  assigned_to: string
+  due_date: string
+  completed_on?: string | null
+  completed_by?: string | null
+  created_by?: string | null
+  created_at: string
+  // Only loaded for lists that span clients
+  goal?: { id: string, goal_type: CaseGoalType, description: string } | null
+  person?: { id: string, client_id: string, first_name: string, last_name: string } | null
+}
+
+export interface CaseGoalUpdate {
+  id: string
+  goal_id: string
+  person_id: string
+  encounter_id?: string | null
+  note: string
+  created_by?: string | null
+  created_at: string
+  encounter?: { id: string, service_date: string, outreach_location: string } | null
+}
+
+export interface CaseGoal {
+  id: string
+  person_id: string
+  goal_type: CaseGoalType
+  description: string
+  target_date?: string | null
+  status: CaseGoalStatus
+  closed_on?: string | null
+  closed_reason?: string | null
+  created_by?: string | null
+  created_at: string
+  // Loaded with a client's case plan
+  steps?: CaseStep[]
+  updates?: CaseGoalUpdate[]
+}
+
+export interface Worker {
+  email: string
+  full_name: string | null
+}
+
+export interface CaseGoalSummary {
+  set: number
+  achieved: number
+  abandoned: number
+  // Goals still being worked on today
+  active: number
+  averageDaysToAchieve: number | null
+  byType: { goal_type: CaseGoalType, set: number, achieved: number }[]
+}
+
+// Embedded select for a goal's steps and progress updates
+const CASE_GOAL_SELECT =
+  '*, steps:case_plan_steps(*), updates:case_goal_updates(*, encounter:encounters(id, service_date, outreach_location))'
+
+const CASE_STEP_SELECT =
+  '*, goal:case_goals(id, goal_type, description), person:persons(id, client_id, first_name, last_name)'
+
+/**
+ * Load a client's case plan: every goal, active ones first, with steps in
+ * due date order and updates newest first. Goals set on duplicates merged
+ * into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonCaseGoals(supabase: SupabaseClient, personId: string): Promise<CaseGoal[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('case_goals')
+    .select(CASE_GOAL_SELECT)
+    .in('person_id', personIds)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return ((data || []) as CaseGoal[])
+    .map((goal) => ({
+      ...goal,
+      steps: [...(goal.steps || [])].sort((a, b) => a.due_date.localeCompare(b.due_date)),
+      updates: [...(goal.updates || [])].sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    }))
+    .sort((a, b) => Number(a.status !== 'active') - Number(b.status !== 'active'))
+}
+
+/**
+ * Load the open action steps assigned to a worker, earliest due first so
+ * overdue ones lead
+ * @param supabase - Supabase client (browser or server)
+ * @param email - The worker's email
+ */
+export async function fetchAssignedSteps(supabase: SupabaseClient, email: string): Promise<CaseStep[]> {
+  const { data, error } = await supabase
+    .from('case_plan_steps')
+    .select(CASE_STEP_SELECT)
+    .eq('assigned_to', email)
+    .is('completed_on', null)
+    .order('due_date', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as CaseStep[]
+}
+
+/**
+ * Load the workers action steps can be assigned to
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchWorkers(supabase: SupabaseClient): Promise<Worker[]> {
+  const { data, error } = await supabase.rpc('list_workers')
+
+  if (error) throw error
+  return (data || []) as Worker[]
+}
+
+export function isStepOverdue(
+  step: Pick<CaseStep, 'due_date' | 'completed_on'>,
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): boolean {
+  return !step.completed_on && step.due_date < today
+}
+
+/**
+ * Add a goal to a client's case plan
+ * @param personId - The person's UUID
+ * @param data - Type, description and target date
+ */
+export async function addCaseGoal(personId: string, data: CaseGoalFormData): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('case_goals')
+    .insert({
+      person_id: personId,
+      goal_type: data.goal_type,
+      description: data.description,
+      target_date: data.target_date || null,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Mark a goal achieved or abandoned. It stays on the plan as history.
+ * @param goalId - The goal's UUID
+ * @param status - achieved or abandoned
+ * @param reason - What was achieved, or why the goal was dropped
+ */
+export async function closeCaseGoal(
+  goalId: string,
+  status: Exclude<CaseGoalStatus, 'active'>,
+  reason: string
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('case_goals')
+    .update({
+      status,
+      closed_on: format(new Date(), 'yyyy-MM-dd'),
+      closed_reason: reason || null,
+    } as never)
+    .eq('id', goalId)
+
+  if (error) throw error
+}
+
+/**
+ * Add an action step to a goal
+ * @param goal - The goal the step works toward
+ * @param data - Description, assigned worker and due date
+ */
+export async function addCaseStep(goal: Pick<CaseGoal, 'id' | 'person_id'>, data: CaseStepFormData): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('case_plan_steps')
+    .insert({
+      goal_id: goal.id,
+      person_id: goal.person_id,
+      description: data.description,
+      assigned_to: data.assigned_to,
+      due_date: data.due_date,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Mark an action step done today by the signed-in worker, or reopen it
+ * @param stepId - The step's UUID
+ * @param completed - Whether the step is done
+ */
+export async function setCaseStepCompleted(stepId: string, completed: boolean): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { error } = await supabase
+    .from('case_plan_steps')
+    .update({
+      completed_on: completed ? format(new Date(), 'yyyy-MM-dd') : null,
+      completed_by: completed ? user?.email || 'Unknown' : null,
+    } as never)
+    .eq('id', stepId)
+
+  if (error) throw error
+}
+
+/**
+ * Record progress on a goal
+ * @param goal - The goal progress was made on
+ * @param data - What happened, and the interaction it happened at
+ */
+export async function addCaseGoalUpdate(
+  goal: Pick<CaseGoal, 'id' | 'person_id'>,
+  data: CaseGoalUpdateFormData
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('case_goal_updates')
+    .insert({
+      goal_id: goal.id,
+      person_id: goal.person_id,
+      encounter_id: data.encounter_id || null,
+      note: data.note,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Summarize goals for a reporting period: how many were set, achieved and
+ * abandoned, how long achieved goals took, and the split by goal type
+ * @param goals - Goals of the clients being reported on
+ * @param isInRange - Whether a date (YYYY-MM-DD) falls in the period
+ */
+export function summarizeCaseGoals(goals: CaseGoal[], isInRange: (date: string) => boolean): CaseGoalSummary {
+  const setOn = (goal: CaseGoal) => goal.created_at.slice(0, 10)
+  const set = goals.filter((goal) => isInRange(setOn(goal)))
+  const achieved = goals.filter((goal) => goal.status === 'achieved' && goal.closed_on && isInRange(goal.closed_on))
+  const daysToAchieve = achieved.map((goal) =>
+    differenceInCalendarDays(parseISO(goal.closed_on as string), parseISO(setOn(goal)))
+  )
+
+  return {
+    set: set.length,
+    achieved: achieved.length,
+    abandoned: goals.filter((goal) => goal.status === 'abandoned' && goal.closed_on && isInRange(goal.closed_on)).length,
+    active: goals.filter((goal) => goal.status === 'active').length,
+    averageDaysToAchieve: daysToAchieve.length > 0
+      ? Math.round(daysToAchieve.reduce((sum, days) => sum + days, 0) / daysToAchieve.length)
+      : null,
+    byType: CASE_GOAL_TYPES
+      .map((goal_type) => ({
+        goal_type,
+        set: set.filter((goal) => goal.goal_type === goal_type).length,
+        achieved: achieved.filter((goal) => goal.goal_type === goal_type).length,
+      }))
+      .filter((row) => row.set > 0 || row.achieved > 0),
+  }
+}
@@ -0,0 +1,102 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import type { CautionFlagFormData, CautionFlagType } from '@/lib/schemas/caution-flag-schema'
+import { fetchMergedPersonIds } from '@/lib/utils/person-merge'
+
+export interface CautionFlag {
+  id: string
+  person_id: string
+  flag_type: CautionFlagType
+  // NULL when the flag is sensitive and the viewer can't read it
+  description: string | null
+  sensitive: boolean
+  restricted: boolean
+  expires_on: string | null
+  set_by: string | null
+  cleared_at: string | null
+  cleared_by: string | null
+  clear_reason: string | null
+  created_at: string
+}
+
+/**
+ * Whether a flag applies today: not cleared and not past its expiry
+ * @param flag - The caution flag
+ * @param today - Date to check (YYYY-MM-DD, defaults to today)
+ */
+export function isFlagActive(flag: CautionFlag, today: string = format(new Date(), 'yyyy-MM-dd')): boolean {
+  return !flag.cleared_at && (!flag.expires_on || flag.expires_on >= today)
+}
+
+/**
+ * Load caution flags, newest first, with restricted descriptions left out
+ * @param supabase - Supabase client (browser or server)
+ * @param personIds - Clients to load flags for; every client when omitted
+ */
+export async function fetchCautionFlags(supabase: SupabaseClient, personIds?: string[]): Promise<CautionFlag[]> {
+  const { data, error } = await supabase.rpc(
+    'get_caution_flags',
+    { person_ids: personIds ?? null } as never
+  )
+
+  if (error) throw error
+  return (data || []) as CautionFlag[]
+}
+
+/**
+ * Load a client's caution flags, active and past. Flags set on duplicates
+ * merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonCautionFlags(supabase: SupabaseClient, personId: string): Promise<CautionFlag[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  return fetchCautionFlags(supabase, personIds)
+}
+
+/**
+ * Set a caution flag on a client
+ * @param personId - The person's UUID
+ * @param data - Type, description, sensitivity and expiry
+ */
+export async function addCautionFlag(personId: string, data: CautionFlagFormData): Promise<CautionFlag> {
+  const supabase = createClient()
+
+  const { data: flag, error } = await supabase
+    .from('caution_flags')
+    .insert({
+      person_id: personId,
+      flag_type: data.flag_type,
+      description: data.description,
+      sensitive: data.sensitive,
+      expires_on: data.expires_on || null,
+    } as never)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { ...(flag as Omit<CautionFlag, 'restricted'>), restricted: false }
+}
+
+/**
+ * Clear a flag that no longer applies. It stays in the client's flag history.
+ * @param flagId - The flag's UUID
+ * @param reason - Why it was cleared
+ */
+export async function clearCautionFlag(flagId: string, reason: string): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { error } = await supabase
+    .from('caution_flags')
+    .update({
+      cleared_at: new Date().toISOString(),
+      cleared_by: user?.email || 'Unknown',
+      clear_reason: reason,
+    } as never)
+    .eq('id', flagId)
+
+  if (error) throw error
+}
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  MAX_DOCUMENT_BYTES,
+  REQUIRED_DOCUMENT_TYPES,
+  VETERAN_DOCUMENT_TYPES,
+  type DocumentType,
+  type DocumentUploadData,
+} from '@/lib/schemas/document-schema'
+import { logAuditEvent } from '@/lib/utils/audit'
+import { fetchMergedPersonIds } from '@/lib/utils/person-merge'
+
+export const DOCUMENTS_BUCKET = 'client-documents'
+
+// Signed links are opened straight away, so they only need to outlive the click
+const SIGNED_URL_SECONDS = 60
+
+export interface ClientDocument {
+  id: string
+  person_id: string
+  document_type: DocumentType
+  storage_path: string
+  file_name: string
+  content_type?: string | null
+  file_size?: number | null
+  expires_on?: string | null
+  notes?: string | null
+  uploaded_by?: string | null
+  created_at: string
+}
+
+export interface DocumentChecklistItem {
+  document_type: DocumentType
+  status: 'on_file' | 'expired' | 'missing'
+  document?: ClientDocument
+}
+
+/**
+ * Whether a document's printed expiry date has passed
+ * @param today - Date to compare against (YYYY-MM-DD, defaults to today)
+ */
+export function isDocumentExpired(document: ClientDocument, today: string = format(new Date(), 'yyyy-MM-dd')): boolean {
+  return !!document.expires_on && document.expires_on < today
+}
+
+/**
+ * Check a client's documents against the ones they need to be
+ * document-ready. The newest upload of each type decides its status.
+ * @param documents - The client's documents, newest first
+ * @param veteran - Whether the client is a veteran (adds the DD-214)
+ */
+export function buildDocumentChecklist(documents: ClientDocument[], veteran: boolean): DocumentChecklistItem[] {
+  const required = veteran ? [...REQUIRED_DOCUMENT_TYPES, ...VETERAN_DOCUMENT_TYPES] : REQUIRED_DOCUMENT_TYPES
+
+  return required.map((documentType) => {
+    const document = documents.find((d) => d.document_type === documentType)
+    if (!document) return { document_type: documentType, status: 'missing' }
+    return { document_type: documentType, status: isDocumentExpired(document) ? 'expired' : 'on_file', document }
+  })
+}
+
+/**
+ * Load a client's documents, newest first. Documents uploaded to
+ * duplicates merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonDocuments(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<ClientDocument[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('client_documents')
+    .select('*')
+    .in('person_id', personIds)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as ClientDocument[]
+}
+
+/**
+ * Upload a document to the private bucket and record it against the client
+ * @param personId - The person's UUID
+ * @param file - Scan or photo of the document (image or PDF)
+ * @param data - Document type, expiry date and notes
+ */
+export async function uploadDocument(personId: string, file: File, data: DocumentUploadData): Promise<ClientDocument> {
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`File is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`)
+  }
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    throw new Error('Only images and PDFs can be uploaded')
+  }
+
+  const supabase = createClient()
+  const fileExt = file.name.split('.').pop() || (file.type === 'application/pdf' ? 'pdf' : 'jpg')
+  const storagePath = `${personId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(storagePath, file, { contentType: file.type })
+
+  if (uploadError) throw uploadError
+
+  const { data: document, error } = await supabase
+    .from('client_documents')
+    .insert({
+      person_id: personId,
+      document_type: data.document_type,
+      storage_path: storagePath,
+      file_name: file.name,
+      content_type: file.type,
+      file_size: file.size,
+      expires_on: data.expires_on || null,
+      notes: data.notes || null,
+    } as never)
+    .select('*')
+    .single()
+
+  if (error) {
+    // Don't leave an orphaned file behind
+    await supabase.storage.from(DOCUMENTS_BUCKET).remove([storagePath])
+    throw error
+  }
+  return document as ClientDocument
+}
+
+/**
+ * Get a short-lived link to open a document, and log the view
+ * @param document - The document to open
+ * @returns Signed URL valid for a minute
+ */
+export async function getDocumentUrl(document: ClientDocument): Promise<string> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(document.storage_path, SIGNED_URL_SECONDS)
+
+  if (error) throw error
+
+  await logAuditEvent(supabase, {
+    action: 'view',
+    entity_type: 'client_documents',
+    entity_id: document.id,
+    person_id: document.person_id,
+    details: { document_type: document.document_type },
+  })
+
+  return data.signedUrl
+}
+
+/**
+ * Delete a document record and its file
+ * @param document - The document to delete
+ */
+export async function deleteDocument(document: ClientDocument): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('client_documents')
+    .delete()
+    .eq('id', document.id)
+
+  if (error) throw error
+
+  const { error: storageError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .remove([document.storage_path])
+
+  if (storageError) {
+    console.error('Error removing document file:', storageError)
+  }
+}
@@ -0,0 +1,116 @@
+import { createClient } from '@/lib/supabase/client'
+
+export type DuplicateCandidateStatus = 'pending' | 'not_duplicate' | 'merged'
+
+export interface CandidatePerson {
+  id: string
+  client_id: string
+  first_name: string
+  last_name: string
+  nickname?: string | null
+  date_of_birth: string
+  gender: string
+  phone_number?: string | null
+  photo_url?: string | null
+  enrollment_date: string
+  case_manager?: string | null
+}
+
+export interface DuplicateCandidate {
+  id: string
+  person_a_id: string
+  person_b_id: string
+  score: number
+  reasons: string[]
+  status: DuplicateCandidateStatus
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  last_scored_at: string
+  person_a: CandidatePerson
+  person_b: CandidatePerson
+}
+
+const CANDIDATE_PERSON_COLUMNS =
+  'id, client_id, first_name, last_name, nickname, date_of_birth, gender, phone_number, photo_url, enrollment_date, case_manager'
+
+/**
+ * List pairs awaiting review, highest score first
+ */
+export async function listDuplicateCandidates(): Promise<DuplicateCandidate[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('duplicate_candidates')
+    .select(`
+      *,
+      person_a:persons!person_a_id(${CANDIDATE_PERSON_COLUMNS}),
+      person_b:persons!person_b_id(${CANDIDATE_PERSON_COLUMNS})
+    `)
+    .eq('status', 'pending')
+    .order('score', { ascending: false })
+
+  if (error) throw error
+
+  // NUMERIC columns come back as strings
+  return ((data || []) as DuplicateCandidate[]).map((candidate) => ({
+    ...candidate,
+    score: Number(candidate.score),
+  }))
+}
+
+async function setCandidateStatus(
+  candidateId: string,
+  status: DuplicateCandidateStatus
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { error } = await supabase
+    .from('duplicate_candidates')
+    .update({
+      status,
+      reviewed_by: user?.email || null,
+      reviewed_at: new Date().toISOString(),
+    } as never)
+    .eq('id', candidateId)
+
+  if (error) throw error
+}
+
+/**
+ * Mark a pair as not a duplicate so the scan never flags it again
+ * @param candidateId - The candidate pair's UUID
+ */
+export async function markNotDuplicate(candidateId: string): Promise<void> {
+  await setCandidateStatus(candidateId, 'not_duplicate')
+}
+
+/**
+ * Mark a pair as resolved by a merge
+ * @param candidateId - The candidate pair's UUID
+ */
+export async function markCandidateMerged(candidateId: string): Promise<void> {
+  await setCandidateStatus(candidateId, 'merged')
+}
+
+/**
+ * Put a pair back in the queue after its merge is undone
+ * @param personId1 - One client of the pair
+ * @param personId2 - The other client
+ */
+export async function reopenMergedCandidate(personId1: string, personId2: string): Promise<void> {
+  const supabase = createClient()
+  // Pairs are stored once with the lower UUID first
+  const [personAId, personBId] = personId1 < personId2
+    ? [personId1, personId2]
+    : [personId2, personId1]
+
+  const { error } = await supabase
+    .from('duplicate_candidates')
+    .update({ status: 'pending', reviewed_by: null, reviewed_at: null } as never)
+    .eq('person_a_id', personAId)
+    .eq('person_b_id', personBId)
+    .eq('status', 'merged')
+
+  if (error) throw error
+}
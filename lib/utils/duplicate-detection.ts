@@ -18,7 +18,9 @@ export interface DuplicateCheckResult {
 }
 
 /**
- * Check for potential duplicate persons using fuzzy matching
+ * Check for potential duplicate persons using fuzzy matching. A failed search
+ * throws rather than reporting no duplicates, so an unchecked name is never
+ * treated as new.
  * @param firstName - First name to search for
  * @param lastName - Last name to search for
  * @param dateOfBirth - Optional date of birth for exact match
@@ -33,38 +35,24 @@ export async function checkForDuplicates(
 ): Promise<DuplicateCheckResult> {
   const supabase = createClient()
 
-  try {
-    // Call the database function for fuzzy search
-    const { data, error } = await supabase.rpc(
-      'search_similar_persons',
-      {
-        search_first_name: firstName,
-        search_last_name: lastName,
-        search_dob: dateOfBirth || null,
-        similarity_threshold: threshold,
-      } as never
-    )
+  // Call the database function for fuzzy search
+  const { data, error } = await supabase.rpc(
+    'search_similar_persons',
+    {
+      search_first_name: firstName,
+      search_last_name: lastName,
+      search_dob: dateOfBirth || null,
+      similarity_threshold: threshold,
+    } as never
+  )
 
-    if (error) {
-      console.error('Error checking for duplicates:', error)
-      return {
-        hasPotentialDuplicates: false,
-        similarPersons: [],
-      }
-    }
+  if (error) throw error
 
-    const similarPersons = (data || []) as SimilarPerson[]
+  const similarPersons = (data || []) as SimilarPerson[]
 
-    return {
-      hasPotentialDuplicates: similarPersons.length > 0,
-      similarPersons,
-    }
-  } catch (error) {
-    console.error('Exception checking for duplicates:', error)
-    return {
-      hasPotentialDuplicates: false,
-      similarPersons: [],
-    }
+  return {
+    hasPotentialDuplicates: similarPersons.length > 0,
+    similarPersons,
   }
 }
 
@@ -81,6 +69,7 @@ export function fuzzySearchPersons<T extends {
   last_name: string
   nickname: string | null
   date_of_birth: string
+  previous_client_ids?: string[]
 }>(
   searchTerm: string,
   persons: T[]
@@ -95,6 +84,7 @@ export function fuzzySearchPersons<T extends {
       { name: 'last_name', weight: 0.4 },
       { name: 'nickname', weight: 0.3 },
       { name: 'client_id', weight: 0.3 },
+      { name: 'previous_client_ids', weight: 0.3 },
     ],
     threshold: 0.4,
     includeScore: true,
@@ -0,0 +1,213 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateSimilarity } from '@/lib/utils/duplicate-detection'
+import { fetchAllRows } from '@/lib/utils/paginate'
+
+// Pairs scoring at or above this are added to the review queue
+export const DUPLICATE_SCORE_THRESHOLD = 0.55
+
+// Signal weights. Names carry most of the score; a matching DOB or phone
+// number on top of a similar name is strong evidence of a duplicate.
+const NAME_WEIGHT = 0.7
+const DOB_MATCH_WEIGHT = 0.2
+const DOB_PARTIAL_WEIGHT = 0.1
+const PHONE_MATCH_WEIGHT = 0.2
+// Re-intakes in the field often skip the photo the original record has
+const PHOTO_MISSING_WEIGHT = 0.05
+
+// Rows per delete when clearing stale pending pairs, keeping the request URL short
+const DELETE_BATCH_SIZE = 100
+
+export interface ScoredPerson {
+  id: string
+  client_id: string
+  first_name: string
+  last_name: string
+  nickname?: string | null
+  date_of_birth?: string | null
+  phone_number?: string | null
+  photo_url?: string | null
+}
+
+export interface DuplicateScore {
+  score: number
+  reasons: string[]
+}
+
+export interface DuplicateScanResult {
+  scanned: number
+  flagged: number
+  cleared: number
+}
+
+function normalizePhone(phone?: string | null): string {
+  const digits = (phone || '').replace(/\D/g, '')
+  // Compare without a leading US country code
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits
+}
+
+// Same year with day and month swapped, or only one of year/month/day different
+function isPartialDobMatch(dob1: string, dob2: string): boolean {
+  const [y1, m1, d1] = dob1.split('-')
+  const [y2, m2, d2] = dob2.split('-')
+  if (y1 === y2 && m1 === d2 && d1 === m2) return true
+  return [y1 === y2, m1 === m2, d1 === d2].filter(Boolean).length === 2
+}
+
+/**
+ * Score how likely two client records are the same person
+ * @param a - First client
+ * @param b - Second client
+ * @returns Score from 0 to 1 and the signals behind it
+ */
+export function scorePersonPair(a: ScoredPerson, b: ScoredPerson): DuplicateScore {
+  const reasons: string[] = []
+
+  // Compare first names directly and through nicknames, keep the best
+  const lastNameSim = calculateSimilarity(a.last_name, b.last_name)
+  const firstNameSim = Math.max(
+    calculateSimilarity(a.first_name, b.first_name),
+    a.nickname ? calculateSimilarity(a.nickname, b.first_name) : 0,
+    b.nickname ? calculateSimilarity(a.first_name, b.nickname) : 0
+  )
+  const nameSim = (firstNameSim + lastNameSim) / 2
+  let score = nameSim * NAME_WEIGHT
+  reasons.push(`Names ${Math.round(nameSim * 100)}% similar`)
+
+  if (a.date_of_birth && b.date_of_birth) {
+    if (a.date_of_birth === b.date_of_birth) {
+      score += DOB_MATCH_WEIGHT
+      reasons.push('Same date of birth')
+    } else if (isPartialDobMatch(a.date_of_birth, b.date_of_birth)) {
+      score += DOB_PARTIAL_WEIGHT
+      reasons.push('Date of birth nearly matches')
+    }
+  }
+
+  const phoneA = normalizePhone(a.phone_number)
+  if (phoneA.length >= 7 && phoneA === normalizePhone(b.phone_number)) {
+    score += PHONE_MATCH_WEIGHT
+    reasons.push('Same phone number')
+  }
+
+  if (!!a.photo_url !== !!b.photo_url) {
+    score += PHOTO_MISSING_WEIGHT
+    reasons.push('Only one record has a photo')
+  } else if (a.photo_url && b.photo_url) {
+    reasons.push('Both records have photos to compare')
+  }
+
+  return { score: Math.min(1, Math.round(score * 1000) / 1000), reasons }
+}
+
+// Pairs are stored once with the lower UUID first
+function orderPair(id1: string, id2: string): [string, string] {
+  return id1 < id2 ? [id1, id2] : [id2, id1]
+}
+
+/**
+ * Score all likely client pairs and refresh the duplicate review queue.
+ * Candidate pairs come from find_similar_person_pairs plus clients sharing a
+ * DOB or phone number. Pairs an admin already resolved are left alone, and
+ * pending pairs that no longer score high enough are cleared.
+ * @param supabase - Server Supabase client (admin session or service role)
+ */
+export async function runDuplicateScan(supabase: SupabaseClient): Promise<DuplicateScanResult> {
+  const persons = await fetchAllRows<ScoredPerson>((from, to) =>
+    supabase
+      .from('persons')
+      .select('id, client_id, first_name, last_name, nickname, date_of_birth, phone_number, photo_url')
+      .is('merged_into', null)
+      .order('id')
+      .range(from, to)
+  )
+  const personsById = new Map(persons.map((p) => [p.id, p]))
+  const pairKeys = new Set<string>()
+  const addPair = (id1: string, id2: string) => {
+    if (id1 !== id2 && personsById.has(id1) && personsById.has(id2)) {
+      pairKeys.add(orderPair(id1, id2).join(':'))
+    }
+  }
+
+  // Name matches from the trigram search, found in one query
+  const nameMatches = await fetchAllRows<{ person_a_id: string, person_b_id: string }>((from, to) =>
+    supabase
+      .rpc('find_similar_person_pairs', { similarity_threshold: 0.3 })
+      .order('person_a_id')
+      .order('person_b_id')
+      .range(from, to)
+  )
+  nameMatches.forEach((match) => addPair(match.person_a_id, match.person_b_id))
+
+  // Clients sharing a DOB or phone number, whatever their names
+  const groups = new Map<string, string[]>()
+  persons.forEach((person) => {
+    const phone = normalizePhone(person.phone_number)
+    const keys = [
+      person.date_of_birth ? `dob:${person.date_of_birth}` : null,
+      phone.length >= 7 ? `phone:${phone}` : null,
+    ]
+    keys.forEach((key) => {
+      if (key) groups.set(key, [...(groups.get(key) || []), person.id])
+    })
+  })
+  groups.forEach((ids) => {
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) addPair(ids[i], ids[j])
+    }
+  })
+
+  // Load the existing queue so reviewed pairs are never re-flagged
+  const existingRows = await fetchAllRows<{ id: string, person_a_id: string, person_b_id: string, status: string }>((from, to) =>
+    supabase
+      .from('duplicate_candidates')
+      .select('id, person_a_id, person_b_id, status')
+      .order('id')
+      .range(from, to)
+  )
+
+  const existing = new Map(
+    existingRows.map((row) => [`${row.person_a_id}:${row.person_b_id}`, row])
+  )
+
+  const now = new Date().toISOString()
+  const flagged: Record<string, unknown>[] = []
+
+  pairKeys.forEach((key) => {
+    const current = existing.get(key)
+    if (current && current.status !== 'pending') return
+
+    const [aId, bId] = key.split(':')
+    const a = personsById.get(aId) as ScoredPerson
+    const b = personsById.get(bId) as ScoredPerson
+    const { score, reasons } = scorePersonPair(a, b)
+
+    if (score >= DUPLICATE_SCORE_THRESHOLD) {
+      flagged.push({ person_a_id: aId, person_b_id: bId, score, reasons, last_scored_at: now })
+    }
+  })
+
+  if (flagged.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('duplicate_candidates')
+      .upsert(flagged as never, { onConflict: 'person_a_id,person_b_id' })
+
+    if (upsertError) throw upsertError
+  }
+
+  // Pending pairs that weren't flagged this run (edited or merged since) are cleared
+  const flaggedKeys = new Set(flagged.map((row) => `${row.person_a_id}:${row.person_b_id}`))
+  const staleIds = Array.from(existing.entries())
+    .filter(([key, row]) => row.status === 'pending' && !flaggedKeys.has(key))
+    .map(([, row]) => row.id)
+
+  for (let i = 0; i < staleIds.length; i += DELETE_BATCH_SIZE) {
+    const { error: deleteError } = await supabase
+      .from('duplicate_candidates')
+      .delete()
+      .in('id', staleIds.slice(i, i + DELETE_BATCH_SIZE))
+
+    if (deleteError) throw deleteError
+  }
+
+  return { scanned: persons.length, flagged: flagged.length, cleared: staleIds.length }
+}
@@ -0,0 +1,137 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Catalog keys of services the grant metrics are built on
+export const NALOXONE_SERVICE = 'naloxone'
+export const FENTANYL_STRIPS_SERVICE = 'fentanyl_test_strips'
+
+export interface ServiceCatalogItem {
+  id: string
+  key: string
+  name: string
+  category: string
+  tracks_quantity: boolean
+  unit: string | null
+  sort_order: number
+  retired_at: string | null
+}
+
+export interface EncounterService {
+  service_id: string
+  quantity: number | null
+  service: Pick<ServiceCatalogItem, 'key' | 'name' | 'unit' | 'category'> | null
+}
+
+// A service selected on the interaction form, before it is saved
+export interface EncounterServiceInput {
+  service_id: string
+  quantity: number | null
+}
+
+export interface ServiceTotal {
+  key: string
+  name: string
+  unit: string | null
+  encounters: number
+  quantity: number
+}
+
+interface WithServices {
+  encounter_services?: EncounterService[] | null
+}
+
+// Embedded select for loading encounters with the services provided
+export const ENCOUNTER_SERVICES_SELECT =
+  'encounter_services(service_id, quantity, service:service_catalog(key, name, unit, category))'
+
+/**
+ * Load the service catalog, retired services included, in form order
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchServiceCatalog(supabase: SupabaseClient): Promise<ServiceCatalogItem[]> {
+  const { data, error } = await supabase
+    .from('service_catalog')
+    .select('id, key, name, category, tracks_quantity, unit, sort_order, retired_at')
+    .order('category')
+    .order('sort_order')
+
+  if (error) throw error
+  return (data || []) as ServiceCatalogItem[]
+}
+
+/**
+ * Whether a service was provided during an encounter
+ * @param encounter - Encounter loaded with ENCOUNTER_SERVICES_SELECT
+ * @param key - Catalog key of the service
+ */
+export function hasService(encounter: WithServices, key: string): boolean {
+  return (encounter.encounter_services || []).some((s) => s.service?.key === key)
+}
+
+/**
+ * Quantity of a service provided during an encounter (0 if not provided)
+ * @param encounter - Encounter loaded with ENCOUNTER_SERVICES_SELECT
+ * @param key - Catalog key of the service
+ */
+export function serviceQuantity(encounter: WithServices, key: string): number {
+  const service = (encounter.encounter_services || []).find((s) => s.service?.key === key)
+  return service?.quantity || 0
+}
+
+/**
+ * Describe one provided service, e.g. "Fentanyl Test Strips (10 strips)"
+ */
+export function formatEncounterService(service: EncounterService): string {
+  const name = service.service?.name || 'Unknown service'
+  if (service.quantity === null) return name
+  return `${name} (${service.quantity}${service.service?.unit ? ` ${service.service.unit}` : ''})`
+}
+
+/**
+ * Group an encounter's services by catalog category, for display
+ * @returns [category, services] pairs in the order first seen
+ */
+export function groupServicesByCategory(
+  services: EncounterService[] | null | undefined
+): [string, EncounterService[]][] {
+  const groups = new Map<string, EncounterService[]>()
+  const rows = services || []
+  rows.forEach((service) => {
+    const category = service.service?.category || 'Other Services'
+    groups.set(category, [...(groups.get(category) || []), service])
+  })
+  return Array.from(groups.entries())
+}
+
+/**
+ * Count encounters and total quantity for every service in the catalog
+ * @param encounters - Encounters loaded with ENCOUNTER_SERVICES_SELECT
+ * @param catalog - Service catalog, in display order
+ * @returns One total per catalog service, retired services only when used
+ */
+export function summarizeServices(
+  encounters: WithServices[],
+  catalog: ServiceCatalogItem[]
+): ServiceTotal[] {
+  const totals = new Map<string, ServiceTotal>(
+    catalog.map((item) => [item.key, {
+      key: item.key,
+      name: item.name,
+      unit: item.tracks_quantity ? item.unit : null,
+      encounters: 0,
+      quantity: 0,
+    }])
+  )
+
+  encounters.forEach((encounter) => {
+    (encounter.encounter_services || []).forEach((s) => {
+      const total = s.service ? totals.get(s.service.key) : undefined
+      if (!total) return
+      total.encounters++
+      total.quantity += s.quantity || 0
+    })
+  })
+
+  const retiredKeys = new Set(catalog.filter((item) => item.retired_at).map((item) => item.key))
+  return Array.from(totals.values())
+    .filter((total) => !retiredKeys.has(total.key) || total.encounters > 0)
+}
@@ -0,0 +1,116 @@
+import { createClient } from '@/lib/supabase/client'
+
+export const DEFAULT_PROJECT = 'Street Outreach'
+
+export interface Enrollment {
+  id: string
+  person_id: string
+  project: string
+  entry_date: string
+  exit_date?: string | null
+  exit_destination?: string | null
+  exit_notes?: string | null
+  created_by?: string | null
+  exited_by?: string | null
+  created_at: string
+}
+
+export interface EnrollmentExit {
+  exit_date: string
+  exit_destination: string
+  exit_notes?: string | null
+  exited_by?: string | null
+}
+
+/**
+ * Close a person's open enrollment episode
+ * @param personId - The person's UUID
+ * @param exit - Exit date, destination and notes
+ * @param project - Program the episode belongs to
+ */
+export async function exitEnrollment(
+  personId: string,
+  exit: EnrollmentExit,
+  project: string = DEFAULT_PROJECT
+): Promise<void> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('enrollments')
+    .update({
+      exit_date: exit.exit_date,
+      exit_destination: exit.exit_destination,
+      exit_notes: exit.exit_notes || null,
+      exited_by: exit.exited_by || null,
+    } as never)
+    .eq('person_id', personId)
+    .eq('project', project)
+    .is('exit_date', null)
+    .select('id')
+
+  if (error) throw error
+
+  if (!data || data.length === 0) {
+    throw new Error('Client has no open enrollment to exit')
+  }
+}
+
+/**
+ * Open a new enrollment episode (e.g. when a client returns to active)
+ * @param personId - The person's UUID
+ * @param entryDate - Entry date (YYYY-MM-DD)
+ * @param createdBy - Email or name of the user opening the episode
+ * @param project - Program the episode belongs to
+ */
+export async function startEnrollment(
+  personId: string,
+  entryDate: string,
+  createdBy: string | null,
+  project: string = DEFAULT_PROJECT
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('enrollments')
+    .insert({
+      person_id: personId,
+      project,
+      entry_date: entryDate,
+      created_by: createdBy,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Check whether an episode's exit falls within a date range
+ * @param enrollment - The enrollment episode
+ * @param startDate - Optional range start (YYYY-MM-DD)
+ * @param endDate - Optional range end (YYYY-MM-DD)
+ */
+export function isExitInRange(
+  enrollment: Pick<Enrollment, 'exit_date'>,
+  startDate?: string | null,
+  endDate?: string | null
+): boolean {
+  if (!enrollment.exit_date) return false
+  if (startDate && enrollment.exit_date < startDate) return false
+  if (endDate && enrollment.exit_date > endDate) return false
+  return true
+}
+
+/**
+ * Check whether an episode's entry falls within a date range
+ * @param enrollment - The enrollment episode
+ * @param startDate - Optional range start (YYYY-MM-DD)
+ * @param endDate - Optional range end (YYYY-MM-DD)
+ */
+export function isEntryInRange(
+  enrollment: Pick<Enrollment, 'entry_date'>,
+  startDate?: string | null,
+  endDate?: string | null
+): boolean {
+  if (startDate && enrollment.entry_date < startDate) return false
+  if (endDate && enrollment.entry_date > endDate) return false
+  return true
+}
@@ -1,5 +1,12 @@
+import {
+  summarizeServices,
+  type EncounterService,
+  type ServiceCatalogItem,
+} from '@/lib/utils/encounter-services'
+
 // Database types
-interface Person {
+export interface ExportPerson {
+  id: string  // UUID from database
   client_id: string
   first_name: string
   last_name: string
@@ -17,7 +24,7 @@ interface Person {
   referral_source?: string | null
 }
 
-interface Encounter {
+export interface ExportEncounter {
   service_date: string
   person_id: string  // UUID foreign key
   outreach_location: string
@@ -32,27 +39,22 @@ interface Encounter {
   mat_provider?: string | null
   detox_referral: boolean
   detox_provider?: string | null
-  naloxone_distributed: boolean
   naloxone_date?: string | null
-  fentanyl_test_strips_count?: number | null
-  harm_reduction_education: boolean
-  transportation_provided: boolean
-  shower_trailer: boolean
+  encounter_services?: EncounterService[] | null
   other_services?: string | null
   case_management_notes?: string | null
 }
 
-export function exportToCSV(data: Record<string, unknown>[], filename: string) {
-  if (data.length === 0) {
-    alert('No data to export')
-    return
-  }
+/**
+ * Serialize rows to CSV text, with headers taken from the first row
+ */
+export function toCSV(data: Record<string, unknown>[]): string {
+  if (data.length === 0) return ''
 
   // Get headers from first object
   const headers = Object.keys(data[0])
 
-  // Create CSV content
-  const csvContent = [
+  return [
     // Header row
     headers.join(','),
     // Data rows
@@ -71,9 +73,16 @@ export function exportToCSV(data: Record<string, unknown>[], filename: string) {
       }).join(',')
     )
   ].join('\n')
+}
+
+export function exportToCSV(data: Record<string, unknown>[], filename: string) {
+  if (data.length === 0) {
+    alert('No data to export')
+    return
+  }
 
   // Create blob and download
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+  const blob = new Blob([toCSV(data)], { type: 'text/csv;charset=utf-8;' })
   const link = document.createElement('a')
   const url = URL.createObjectURL(blob)
 
@@ -87,8 +96,9 @@ export function exportToCSV(data: Record<string, unknown>[], filename: string) {
 }
 
 export function formatDataForExport(
-  persons: Person[],
-  encounters: Encounter[],
+  persons: ExportPerson[],
+  encounters: ExportEncounter[],
+  catalog: ServiceCatalogItem[],
   startDate?: string | null,
   endDate?: string | null
 ) {
@@ -124,6 +134,14 @@ export function formatDataForExport(
     'Referral Source': p.referral_source || '',
   }))
 
+  // One column per catalog service: the quantity for counted services, Yes/No otherwise
+  const serviceColumns = (e: ExportEncounter): Record<string, string | number> =>
+    Object.fromEntries(catalog.map(item => {
+      const provided = (e.encounter_services || []).find(s => s.service?.key === item.key)
+      if (item.tracks_quantity) return [item.name, provided?.quantity || 0]
+      return [item.name, provided ? 'Yes' : 'No']
+    }))
+
   // Format encounters data
   const encountersExport = encounters.map(e => ({
     'Service Date': e.service_date,
@@ -140,12 +158,8 @@ export function formatDataForExport(
     'MAT Provider': e.mat_provider || '',
     'Detox Referral': e.detox_referral ? 'Yes' : 'No',
     'Detox Provider': e.detox_provider || '',
-    'Naloxone Distributed': e.naloxone_distributed ? 'Yes' : 'No',
+    ...serviceColumns(e),
     'Naloxone Date': e.naloxone_date || '',
-    'Fentanyl Test Strips': e.fentanyl_test_strips_count || '0',
-    'Harm Reduction Education': e.harm_reduction_education ? 'Yes' : 'No',
-    'Transportation': e.transportation_provided ? 'Yes' : 'No',
-    'Shower Trailer': e.shower_trailer ? 'Yes' : 'No',
     'Other Services': e.other_services || '',
     'Case Notes': e.case_management_notes || '',
   }))
@@ -157,12 +171,13 @@ export function formatDataForExport(
     'Date Range End': endDate || 'All time',
     'Total Clients': persons.length,
     'Total Interactions': encounters.length,
-    'Naloxone Distributed': encounters.filter(e => e.naloxone_distributed).length,
     'MAT Referrals': encounters.filter(e => e.mat_referral).length,
     'Detox Referrals': encounters.filter(e => e.detox_referral).length,
     'Co-Occurring Conditions': encounters.filter(e => e.co_occurring_mh_sud).length,
-    'Transportation Provided': encounters.filter(e => e.transportation_provided).length,
-    'Shower Trailer Services': encounters.filter(e => e.shower_trailer).length,
+    ...Object.fromEntries(summarizeServices(encounters, catalog).flatMap(total => [
+      [total.name, total.encounters],
+      ...(total.unit ? [[`${total.name} (${total.unit})`, total.quantity]] : []),
+    ])),
     'Veterans': persons.filter(p => p.veteran_status).length,
     'Chronically Homeless': persons.filter(p => p.chronic_homeless).length,
   }
@@ -0,0 +1,158 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { HMIS_ROI_RECIPIENT } from '@/lib/schemas/roi-schema'
+import type { CsvExportFile } from '@/lib/schemas/export-schema'
+import type { Enrollment } from '@/lib/utils/enrollments'
+import { ENCOUNTER_SERVICES_SELECT, fetchServiceCatalog } from '@/lib/utils/encounter-services'
+import {
+  formatDataForExport,
+  toCSV,
+  type ExportEncounter,
+  type ExportPerson,
+} from '@/lib/utils/export-csv'
+import {
+  generateHmisExport,
+  type HmisEncounter,
+  type HmisExportResult,
+  type HmisPerson,
+} from '@/lib/utils/hmis-export'
+import { fetchHouseholdMemberships } from '@/lib/utils/households'
+import { fetchAllRows } from '@/lib/utils/paginate'
+import { fetchConsentedPersonIds } from '@/lib/utils/roi'
+
+// Exports are built on the server so the client list never reaches the
+// dashboard page; only the file the admin asked for is downloaded.
+
+export interface CsvExport {
+  files: Record<CsvExportFile, string>
+  clientCount: number
+  encounterCount: number
+  excludedWithoutRoi: number
+}
+
+export interface HmisExport {
+  result: HmisExportResult
+  clientCount: number
+  excludedWithoutRoi: number
+}
+
+/**
+ * Load clients, leaving out merged-away duplicates
+ */
+async function fetchExportPersons<T>(supabase: SupabaseClient): Promise<T[]> {
+  return fetchAllRows<T>((from, to) =>
+    supabase
+      .from('persons')
+      .select('*')
+      .is('merged_into', null)
+      .order('id')
+      .range(from, to)
+  )
+}
+
+/**
+ * Load encounters with the services provided, optionally limited to a date
+ * range (whole days, matching the dashboard filter)
+ */
+async function fetchExportEncounters<T>(
+  supabase: SupabaseClient,
+  startDate?: string | null,
+  endDate?: string | null
+): Promise<T[]> {
+  return fetchAllRows<T>((from, to) => {
+    let query = supabase.from('encounters').select(`*, ${ENCOUNTER_SERVICES_SELECT}`)
+
+    if (startDate) query = query.gte('service_date', `${startDate}T00:00:00`)
+    if (endDate) query = query.lte('service_date', `${endDate}T23:59:59`)
+
+    return query.order('id').range(from, to)
+  })
+}
+
+/**
+ * Build the three dashboard CSV exports (summary metrics, client list and
+ * service interactions) for an agency, leaving out clients without an active
+ * release of information for it
+ * @param supabase - Server Supabase client with an admin session
+ * @param recipient - Agency the export is for
+ * @param startDate - Optional period start (YYYY-MM-DD)
+ * @param endDate - Optional period end (YYYY-MM-DD)
+ */
+export async function buildCsvExport(
+  supabase: SupabaseClient,
+  recipient: string,
+  startDate?: string | null,
+  endDate?: string | null
+): Promise<CsvExport> {
+  const [persons, encounters, catalog, consented] = await Promise.all([
+    fetchExportPersons<ExportPerson>(supabase),
+    fetchExportEncounters<ExportEncounter>(supabase, startDate, endDate),
+    fetchServiceCatalog(supabase),
+    fetchConsentedPersonIds(supabase, recipient),
+  ])
+
+  const sharedPersons = persons.filter((p) => consented.has(p.id))
+  const sharedEncounters = encounters.filter((e) => consented.has(e.person_id))
+
+  const { personsExport, encountersExport, metrics } = formatDataForExport(
+    sharedPersons,
+    sharedEncounters,
+    catalog,
+    startDate,
+    endDate
+  )
+
+  return {
+    files: {
+      summary: toCSV(metrics),
+      clients: toCSV(personsExport),
+      interactions: toCSV(encountersExport),
+    },
+    clientCount: sharedPersons.length,
+    encounterCount: sharedEncounters.length,
+    excludedWithoutRoi: persons.length - sharedPersons.length,
+  }
+}
+
+/**
+ * Build and validate the HUD HMIS CSV export, limited to clients with an
+ * active release of information for HMIS
+ * @param supabase - Server Supabase client with an admin session
+ * @param startDate - Optional period start (YYYY-MM-DD)
+ * @param endDate - Optional period end (YYYY-MM-DD)
+ */
+export async function buildHmisExport(
+  supabase: SupabaseClient,
+  startDate?: string | null,
+  endDate?: string | null
+): Promise<HmisExport> {
+  // All encounters and episodes are loaded; the export applies the period itself
+  const [persons, encounters, enrollments, memberships, consented] = await Promise.all([
+    fetchExportPersons<HmisPerson>(supabase),
+    fetchExportEncounters<HmisEncounter>(supabase),
+    fetchAllRows<Enrollment>((from, to) => supabase.from('enrollments').select('*').order('id').range(from, to)),
+    fetchHouseholdMemberships(supabase),
+    fetchConsentedPersonIds(supabase, HMIS_ROI_RECIPIENT),
+  ])
+
+  // Persons with their household membership, for HouseholdID and RelationshipToHoH
+  const membershipByPerson = new Map(memberships.map((m) => [m.person_id, m]))
+  const sharedPersons = persons
+    .filter((p) => consented.has(p.id))
+    .map((p) => ({
+      ...p,
+      household_id: membershipByPerson.get(p.id)?.household_id ?? null,
+      relationship_to_head: membershipByPerson.get(p.id)?.relationship_to_head ?? null,
+    }))
+
+  return {
+    result: generateHmisExport(
+      sharedPersons,
+      encounters.filter((e) => consented.has(e.person_id)),
+      enrollments.filter((en) => consented.has(en.person_id)),
+      startDate,
+      endDate
+    ),
+    clientCount: sharedPersons.length,
+    excludedWithoutRoi: persons.length - sharedPersons.length,
+  }
+}
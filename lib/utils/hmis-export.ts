@@ -0,0 +1,756 @@
+import JSZip from 'jszip'
+import type { Enrollment as EnrollmentEpisode } from './enrollments'
+import { HUD_RELATIONSHIP_CODES, type RelationshipToHead } from '@/lib/schemas/household-schema'
+
+// HUD HMIS CSV export, FY2024 specification (CSV version 'FY2024').
+// Maps persons, enrollments and encounters to the HUD data standard.
+// https://www.hudexchange.info/resource/4973/hmis-csv-format-specifications/
+
+// Source and project identifiers used throughout the export
+export const HMIS_EXPORT_CONFIG = {
+  sourceName: 'Encinitas Street Reach',
+  softwareName: 'Encinitas Street Reach',
+  softwareVersion: '1.0',
+  organizationId: 'SDRM',
+  organizationName: 'San Diego Rescue Mission',
+  projectId: 'ESR-SO',
+  projectName: 'Encinitas Street Reach',
+  cocCode: 'CA-601',
+  // 4 = Street Outreach
+  projectType: 4,
+} as const
+
+// HUD "Data not collected" and related response codes
+const YES = 1
+const NO = 0
+const CLIENT_DOESNT_KNOW = 8
+const CLIENT_PREFERS_NOT_TO_ANSWER = 9
+const DATA_NOT_COLLECTED = 99
+
+// Intake LIVING_SITUATIONS -> HUD 3.917.1 prior living situation
+export const HUD_LIVING_SITUATION_CODES: Record<string, number> = {
+  'Place not meant for habitation': 116,
+  'Emergency shelter': 101,
+  'Transitional housing': 302,
+  'Safe Haven': 118,
+  'Hotel/motel paid by organization': 101,
+  'Staying with family/friends (temporary)': 312,
+  'Staying with family/friends (permanent)': 422,
+  'Vehicle': 116,
+  'Other': 17,
+}
+
+// Intake TIME_HOMELESS_OPTIONS -> HUD 3.917.2 length of stay in prior living situation
+export const HUD_LENGTH_OF_STAY_CODES: Record<string, number> = {
+  'Less than 1 month': 2,
+  '1-3 months': 3,
+  '3-6 months': 4,
+  '6-12 months': 4,
+  '1-2 years': 5,
+  '2-5 years': 5,
+  '5-10 years': 5,
+  'More than 10 years': 5,
+  'Unknown': CLIENT_DOESNT_KNOW,
+}
+
+// EXIT_DESTINATIONS -> HUD 3.12.1 destination (and 3.12.A rental subsidy type)
+export const HUD_DESTINATION_CODES: Record<string, { destination: number; subsidyType?: number }> = {
+  'Owned by client, no ongoing subsidy': { destination: 411 },
+  'Owned by client, with ongoing subsidy (mortgage, VA, etc.)': { destination: 421 },
+  'Rental by client, no ongoing subsidy': { destination: 410 },
+  'Rental by client, with VASH subsidy': { destination: 435, subsidyType: 419 },
+  // Subsidy type can't be determined from this option, flagged in validation
+  'Rental by client, with other ongoing housing subsidy (HCV, public housing, CoC-RRH, etc.)': { destination: 435 },
+  'Permanent housing for formerly homeless persons (CoC, ESG, or other funding)': { destination: 435, subsidyType: 440 },
+  'Staying or living with family, permanent tenure': { destination: 422 },
+  'Staying or living with friends, permanent tenure': { destination: 423 },
+  'Transitional housing for homeless persons (including youth)': { destination: 302 },
+  'Staying or living with family, temporary tenure': { destination: 312 },
+  'Staying or living with friends, temporary tenure': { destination: 313 },
+  'Hotel or motel paid for without emergency shelter voucher': { destination: 314 },
+  'Foster care home or foster care group home': { destination: 215 },
+  'Residential project or halfway house with no homeless criteria (e.g., sober living)': { destination: 329 },
+  'Psychiatric hospital or other psychiatric facility': { destination: 204 },
+  'Substance abuse treatment facility or detox center': { destination: 205 },
+  'Hospital or other residential non-psychiatric medical facility': { destination: 206 },
+  'Jail, prison, or juvenile detention facility': { destination: 207 },
+  'Long-term care facility or nursing home': { destination: 225 },
+  'Emergency shelter (including hotel/motel paid for with voucher)': { destination: 101 },
+  'Place not meant for habitation (vehicle, park, street, abandoned building, etc.)': { destination: 116 },
+  'Safe Haven': { destination: 118 },
+  'Deceased': { destination: 24 },
+  'Moved from one HOPWA funded project to another HOPWA project': { destination: 426 },
+  "Client doesn't know": { destination: CLIENT_DOESNT_KNOW },
+  'Client refused': { destination: CLIENT_PREFERS_NOT_TO_ANSWER },
+  'Data not collected': { destination: DATA_NOT_COLLECTED },
+  'No exit interview completed': { destination: 30 },
+  'Auto-inactivated - No contact for 90 days': { destination: 30 },
+}
+
+// GENDER_OPTIONS -> FY2024 gender column (1 = yes in that column)
+type HudGenderColumn =
+  | 'Woman'
+  | 'Man'
+  | 'NonBinary'
+  | 'CulturallySpecific'
+  | 'Transgender'
+  | 'Questioning'
+  | 'DifferentIdentity'
+
+const GENDER_COLUMNS: HudGenderColumn[] = [
+  'Woman',
+  'Man',
+  'NonBinary',
+  'CulturallySpecific',
+  'Transgender',
+  'Questioning',
+  'DifferentIdentity',
+]
+
+export const HUD_GENDER_COLUMNS: Record<string, HudGenderColumn | null> = {
+  'Male': 'Man',
+  'Female': 'Woman',
+  'Transgender': 'Transgender',
+  'Non-binary': 'NonBinary',
+  'Other': 'DifferentIdentity',
+  // Reported through GenderNone instead
+  'Prefer not to say': null,
+}
+
+// RACE_OPTIONS -> FY2024 race and ethnicity column
+type HudRaceColumn =
+  | 'AmIndAKNative'
+  | 'Asian'
+  | 'BlackAfAmerican'
+  | 'HispanicLatinaeo'
+  | 'MidEastNAfrican'
+  | 'NativeHIPacific'
+  | 'White'
+
+const RACE_COLUMNS: HudRaceColumn[] = [
+  'AmIndAKNative',
+  'Asian',
+  'BlackAfAmerican',
+  'HispanicLatinaeo',
+  'MidEastNAfrican',
+  'NativeHIPacific',
+  'White',
+]
+
+export const HUD_RACE_COLUMNS: Record<string, HudRaceColumn | null> = {
+  'American Indian or Alaska Native': 'AmIndAKNative',
+  'Asian': 'Asian',
+  'Black or African American': 'BlackAfAmerican',
+  'Hispanic or Latino': 'HispanicLatinaeo',
+  'Native Hawaiian or Other Pacific Islander': 'NativeHIPacific',
+  'White': 'White',
+  // Individual races aren't recorded, flagged in validation
+  'Multiple Races': null,
+  'Prefer not to say': null,
+}
+
+// DISABILITY_TYPES -> HUD 4.05-4.10 disability type
+const HUD_DISABILITY_TYPES = {
+  physical: 5,
+  developmental: 6,
+  chronicHealth: 7,
+  mentalHealth: 9,
+  substanceUse: 10,
+} as const
+
+// Input record types (subset of the database rows used by the export)
+export interface HmisPerson {
+  id: string
+  client_id: string
+  first_name: string
+  last_name: string
+  date_of_birth?: string | null
+  gender: string
+  race: string
+  ethnicity?: string | null
+  veteran_status: boolean
+  disability_status?: boolean
+  disability_type?: string | null
+  chronic_health?: boolean
+  mental_health?: boolean
+  addiction?: string | null
+  living_situation: string
+  length_of_time_homeless?: string | null
+  enrollment_date: string
+  // Household membership, when the person is part of one
+  household_id?: string | null
+  relationship_to_head?: RelationshipToHead | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface HmisEncounter {
+  id?: string
+  person_id: string
+  service_date: string
+  outreach_location: string
+  mat_referral: boolean
+  detox_referral: boolean
+  placement_made?: boolean
+  case_management_notes?: string | null
+  created_at?: string
+}
+
+export interface HmisValidationIssue {
+  severity: 'error' | 'warning'
+  file: string
+  recordId: string
+  clientId: string
+  field: string
+  message: string
+}
+
+export interface HmisExportResult {
+  files: Record<string, string>
+  issues: HmisValidationIssue[]
+  counts: Record<string, number>
+}
+
+type CsvRow = Record<string, string | number | null | undefined>
+
+interface HmisEnrollmentRecord {
+  enrollmentId: string
+  person: HmisPerson
+  entryDate: string
+  exitDate: string | null
+  exitId: string | null
+  exitDestination: string | null
+  exitCreatedAt: string | null
+}
+
+/**
+ * HMIS IDs are limited to 32 characters; UUIDs fit once the dashes are removed
+ */
+function toHmisId(uuid: string): string {
+  return uuid.replace(/-/g, '')
+}
+
+/**
+ * Format a timestamp as the HMIS datetime format (YYYY-MM-DD HH:MM:SS)
+ */
+function formatHmisDateTime(value: string | Date | null | undefined): string {
+  if (!value) return ''
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return ''
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+/**
+ * Get a YYYY-MM-DD date from a date or timestamp string (in local time for timestamps)
+ */
+function toDateString(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const date = new Date(value)
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Serialize rows to CSV with a fixed column order
+ */
+function toCsv(columns: string[], rows: CsvRow[]): string {
+  const escape = (value: string | number | null | undefined) => {
+    if (value === null || value === undefined) return ''
+    const stringValue = String(value)
+    if (/[",\r\n]/.test(stringValue)) {
+      return `"${stringValue.replace(/"/g, '""')}"`
+    }
+    return stringValue
+  }
+
+  return [
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => escape(row[column])).join(',')),
+  ].join('\r\n')
+}
+
+/**
+ * Build HMIS enrollments for a person from their enrollment episodes
+ */
+function buildEnrollments(person: HmisPerson, episodes: EnrollmentEpisode[]): HmisEnrollmentRecord[] {
+  return episodes
+    .filter((episode) => episode.person_id === person.id)
+    .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+    .map((episode) => ({
+      enrollmentId: toHmisId(episode.id),
+      person,
+      entryDate: episode.entry_date,
+      exitDate: episode.exit_date || null,
+      exitId: episode.exit_date ? `${toHmisId(episode.id).slice(0, 28)}EXIT` : null,
+      exitDestination: episode.exit_destination || null,
+      exitCreatedAt: episode.created_at,
+    }))
+}
+
+/**
+ * Check whether an enrollment overlaps the export period
+ */
+function overlapsPeriod(enrollment: HmisEnrollmentRecord, startDate: string | null, endDate: string | null): boolean {
+  if (endDate && enrollment.entryDate > endDate) return false
+  if (startDate && enrollment.exitDate && enrollment.exitDate < startDate) return false
+  return true
+}
+
+/**
+ * Find the enrollment an encounter belongs to (the episode active on the service date)
+ */
+function findEnrollmentForDate(enrollments: HmisEnrollmentRecord[], date: string): HmisEnrollmentRecord | null {
+  return enrollments.find((e) =>
+    e.entryDate <= date && (!e.exitDate || e.exitDate >= date)
+  ) || null
+}
+
+/**
+ * Generate HMIS CSV files (FY2024) and validate required fields
+ * @param persons - All persons
+ * @param encounters - All encounters
+ * @param episodes - All enrollment episodes
+ * @param startDate - Optional export period start (YYYY-MM-DD)
+ * @param endDate - Optional export period end (YYYY-MM-DD)
+ * @returns CSV file contents keyed by file name, with validation issues
+ */
+export function generateHmisExport(
+  persons: HmisPerson[],
+  encounters: HmisEncounter[],
+  episodes: EnrollmentEpisode[],
+  startDate?: string | null,
+  endDate?: string | null
+): HmisExportResult {
+  const issues: HmisValidationIssue[] = []
+  const exportDate = formatHmisDateTime(new Date())
+  const exportId = `ESR${Date.now()}`
+  const periodStart = startDate || null
+  const periodEnd = endDate || null
+  const { projectId, organizationId, cocCode } = HMIS_EXPORT_CONFIG
+
+  const addIssue = (issue: HmisValidationIssue) => issues.push(issue)
+
+  // Audit columns shared by every record file
+  const auditColumns = ['DateCreated', 'DateUpdated', 'UserID', 'DateDeleted', 'ExportID']
+  const audit = (created?: string | null, updated?: string | null): CsvRow => ({
+    DateCreated: formatHmisDateTime(created) || exportDate,
+    DateUpdated: formatHmisDateTime(updated || created) || exportDate,
+    UserID: 'ESR',
+    DateDeleted: '',
+    ExportID: exportId,
+  })
+
+  // Enrollment episodes within the export period
+  const enrollmentsByPerson = new Map<string, HmisEnrollmentRecord[]>()
+  for (const person of persons) {
+    const enrollments = buildEnrollments(person, episodes)
+      .filter((e) => overlapsPeriod(e, periodStart, periodEnd))
+    if (enrollments.length > 0) {
+      enrollmentsByPerson.set(person.id, enrollments)
+    }
+  }
+  const exportedPersons = persons.filter((p) => enrollmentsByPerson.has(p.id))
+  const allEnrollments = Array.from(enrollmentsByPerson.values()).flat()
+
+  // Client.csv
+  const clientColumns = [
+    'PersonalID', 'FirstName', 'MiddleName', 'LastName', 'NameSuffix', 'NameDataQuality',
+    'SSN', 'SSNDataQuality', 'DOB', 'DOBDataQuality',
+    ...RACE_COLUMNS, 'RaceNone', 'AdditionalRaceEthnicity',
+    ...GENDER_COLUMNS, 'GenderNone', 'DifferentIdentityText',
+    'VeteranStatus', 'YearEnteredService', 'YearSeparated', 'WorldWarII', 'KoreanWar',
+    'VietnamWar', 'DesertStorm', 'AfghanistanOEF', 'IraqOIF', 'IraqOND', 'OtherTheater',
+    'MilitaryBranch', 'DischargeStatus',
+    ...auditColumns,
+  ]
+
+  const clientRows = exportedPersons.map((person) => {
+    const personalId = toHmisId(person.id)
+    const issueBase = { file: 'Client.csv', recordId: personalId, clientId: person.client_id }
+
+    if (!person.first_name?.trim() || !person.last_name?.trim()) {
+      addIssue({ ...issueBase, severity: 'error', field: 'FirstName/LastName', message: 'First and last name are required' })
+    }
+    if (!person.date_of_birth) {
+      addIssue({ ...issueBase, severity: 'warning', field: 'DOB', message: 'Date of birth missing - exported as data not collected' })
+    }
+
+    // Gender
+    const gender: CsvRow = Object.fromEntries(GENDER_COLUMNS.map((c) => [c, NO]))
+    let genderNone: number | null = null
+    if (!(person.gender in HUD_GENDER_COLUMNS)) {
+      addIssue({ ...issueBase, severity: 'error', field: 'Gender', message: `Unrecognized gender "${person.gender}"` })
+      genderNone = DATA_NOT_COLLECTED
+    } else {
+      const column = HUD_GENDER_COLUMNS[person.gender]
+      if (column) {
+        gender[column] = YES
+      } else {
+        genderNone = CLIENT_PREFERS_NOT_TO_ANSWER
+      }
+    }
+    if (genderNone !== null) {
+      GENDER_COLUMNS.forEach((c) => { gender[c] = null })
+    }
+
+    // Race and ethnicity (combined in FY2024)
+    const race: CsvRow = Object.fromEntries(RACE_COLUMNS.map((c) => [c, NO]))
+    let raceNone: number | null = null
+    if (!(person.race in HUD_RACE_COLUMNS)) {
+      addIssue({ ...issueBase, severity: 'error', field: 'Race', message: `Unrecognized race "${person.race}"` })
+    } else {
+      const column = HUD_RACE_COLUMNS[person.race]
+      if (column) race[column] = YES
+      if (person.race === 'Multiple Races') {
+        addIssue({ ...issueBase, severity: 'warning', field: 'Race', message: 'Multiple Races does not identify which races - individual race columns left as No' })
+      }
+      if (person.race === 'Prefer not to say') raceNone = CLIENT_PREFERS_NOT_TO_ANSWER
+    }
+    if (person.ethnicity === 'Hispanic/Latino') {
+      race.HispanicLatinaeo = YES
+      raceNone = null
+    }
+    if (!RACE_COLUMNS.some((c) => race[c] === YES) && raceNone === null) {
+      raceNone = DATA_NOT_COLLECTED
+    }
+    if (raceNone !== null) {
+      RACE_COLUMNS.forEach((c) => { race[c] = null })
+    }
+
+    return {
+      PersonalID: personalId,
+      FirstName: person.first_name,
+      MiddleName: '',
+      LastName: person.last_name,
+      NameSuffix: '',
+      NameDataQuality: 1,
+      SSN: '',
+      SSNDataQuality: DATA_NOT_COLLECTED,
+      DOB: person.date_of_birth || '',
+      DOBDataQuality: person.date_of_birth ? 1 : DATA_NOT_COLLECTED,
+      ...race,
+      RaceNone: raceNone,
+      AdditionalRaceEthnicity: '',
+      ...gender,
+      GenderNone: genderNone,
+      DifferentIdentityText: person.gender === 'Other' ? 'Other' : '',
+      VeteranStatus: person.veteran_status ? YES : NO,
+      ...audit(person.created_at, person.updated_at),
+    }
+  })
+
+  // Enrollment.csv
+  const enrollmentColumns = [
+    'EnrollmentID', 'PersonalID', 'ProjectID', 'EntryDate', 'HouseholdID', 'RelationshipToHoH',
+    'EnrollmentCoC', 'LivingSituation', 'RentalSubsidyType', 'LengthOfStay', 'LOSUnderThreshold',
+    'PreviousStreetESSH', 'DateToStreetESSH', 'TimesHomelessPastThreeYears',
+    'MonthsHomelessPastThreeYears', 'DisablingCondition', 'DateOfEngagement', 'MoveInDate',
+    ...auditColumns,
+  ]
+
+  const enrollmentRows = allEnrollments.map((enrollment) => {
+    const person = enrollment.person
+    const issueBase = { file: 'Enrollment.csv', recordId: enrollment.enrollmentId, clientId: person.client_id }
+
+    if (!enrollment.entryDate) {
+      addIssue({ ...issueBase, severity: 'error', field: 'EntryDate', message: 'Entry date is required' })
+    }
+
+    const livingSituation = HUD_LIVING_SITUATION_CODES[person.living_situation]
+    if (livingSituation === undefined) {
+      addIssue({ ...issueBase, severity: 'error', field: 'LivingSituation', message: `Unrecognized living situation "${person.living_situation}"` })
+    }
+
+    const lengthOfStay = person.length_of_time_homeless
+      ? HUD_LENGTH_OF_STAY_CODES[person.length_of_time_homeless]
+      : DATA_NOT_COLLECTED
+    if (lengthOfStay === undefined) {
+      addIssue({ ...issueBase, severity: 'warning', field: 'LengthOfStay', message: `Unrecognized length of time homeless "${person.length_of_time_homeless}"` })
+    }
+
+    return {
+      EnrollmentID: enrollment.enrollmentId,
+      PersonalID: toHmisId(person.id),
+      ProjectID: projectId,
+      EntryDate: enrollment.entryDate,
+      // Persons outside a household are a household of one, with themselves as head
+      HouseholdID: person.household_id ? toHmisId(person.household_id) : enrollment.enrollmentId,
+      RelationshipToHoH: person.household_id && person.relationship_to_head
+        ? HUD_RELATIONSHIP_CODES[person.relationship_to_head]
+        : 1,
+      EnrollmentCoC: cocCode,
+      LivingSituation: livingSituation ?? DATA_NOT_COLLECTED,
+      LengthOfStay: lengthOfStay ?? DATA_NOT_COLLECTED,
+      DisablingCondition: person.disability_status ? YES : NO,
+      DateOfEngagement: enrollment.entryDate,
+      ...audit(person.created_at, person.updated_at),
+    }
+  })
+
+  // Exit.csv
+  const exitColumns = [
+    'ExitID', 'EnrollmentID', 'PersonalID', 'ExitDate', 'Destination', 'DestinationSubsidyType',
+    'OtherDestination',
+    ...auditColumns,
+  ]
+
+  const exitRows = allEnrollments
+    .filter((e) => e.exitDate)
+    .map((enrollment) => {
+      const person = enrollment.person
+      const exitId = enrollment.exitId || enrollment.enrollmentId
+      const issueBase = { file: 'Exit.csv', recordId: exitId, clientId: person.client_id }
+
+      if (enrollment.exitDate! < enrollment.entryDate) {
+        addIssue({ ...issueBase, severity: 'error', field: 'ExitDate', message: `Exit date ${enrollment.exitDate} is before entry date ${enrollment.entryDate}` })
+      }
+
+      let destination: number = DATA_NOT_COLLECTED
+      let subsidyType: number | null = null
+      let otherDestination = ''
+      if (!enrollment.exitDestination) {
+        addIssue({ ...issueBase, severity: 'error', field: 'Destination', message: 'Exit destination is required' })
+      } else if (HUD_DESTINATION_CODES[enrollment.exitDestination]) {
+        const mapped = HUD_DESTINATION_CODES[enrollment.exitDestination]
+        destination = mapped.destination
+        subsidyType = mapped.subsidyType ?? null
+        if (destination === 435 && subsidyType === null) {
+          addIssue({ ...issueBase, severity: 'warning', field: 'DestinationSubsidyType', message: 'Rental subsidy type cannot be determined from the exit destination' })
+        }
+      } else {
+        // Free-text destinations (e.g. "Other" placements) go to OtherDestination
+        destination = 17
+        otherDestination = enrollment.exitDestination
+      }
+
+      return {
+        ExitID: exitId,
+        EnrollmentID: enrollment.enrollmentId,
+        PersonalID: toHmisId(person.id),
+        ExitDate: enrollment.exitDate,
+        Destination: destination,
+        DestinationSubsidyType: subsidyType,
+        OtherDestination: otherDestination,
+        ...audit(enrollment.exitCreatedAt),
+      }
+    })
+
+  // CurrentLivingSituation.csv (street outreach contacts) and Services.csv
+  const contactColumns = [
+    'CurrentLivingSitID', 'EnrollmentID', 'PersonalID', 'InformationDate', 'CurrentLivingSituation',
+    'LocationDetails',
+    ...auditColumns,
+  ]
+  const serviceColumns = [
+    'ServicesID', 'EnrollmentID', 'PersonalID', 'DateProvided', 'RecordType', 'TypeProvided',
+    'OtherTypeProvided', 'SubTypeProvided',
+    ...auditColumns,
+  ]
+
+  const contactRows: CsvRow[] = []
+  const serviceRows: CsvRow[] = []
+  const personsById = new Map(persons.map((p) => [p.id, p]))
+
+  encounters.forEach((encounter, index) => {
+    const serviceDate = toDateString(encounter.service_date)
+    if (periodStart && serviceDate < periodStart) return
+    if (periodEnd && serviceDate > periodEnd) return
+
+    const person = personsById.get(encounter.person_id)
+    const enrollments = enrollmentsByPerson.get(encounter.person_id) || []
+    const enrollment = findEnrollmentForDate(enrollments, serviceDate)
+    const encounterId = encounter.id ? toHmisId(encounter.id) : `ENC${index}`
+
+    if (!person || !enrollment) {
+      addIssue({
+        severity: 'warning',
+        file: 'CurrentLivingSituation.csv',
+        recordId: encounterId,
+        clientId: person?.client_id || '',
+        field: 'EnrollmentID',
+        message: `Service interaction on ${serviceDate} is outside any enrollment - not exported`,
+      })
+      return
+    }
+
+    const base = {
+      EnrollmentID: enrollment.enrollmentId,
+      PersonalID: toHmisId(person.id),
+    }
+
+    contactRows.push({
+      CurrentLivingSitID: encounterId,
+      ...base,
+      InformationDate: serviceDate,
+      CurrentLivingSituation: HUD_LIVING_SITUATION_CODES[person.living_situation] ?? DATA_NOT_COLLECTED,
+      LocationDetails: encounter.outreach_location,
+      ...audit(encounter.created_at),
+    })
+
+    // PATH services (RecordType 141) and referrals (RecordType 161)
+    const services: { recordType: number; typeProvided: number; suffix: string }[] = []
+    if (encounter.case_management_notes) services.push({ recordType: 141, typeProvided: 6, suffix: 'CM' })
+    if (encounter.mat_referral || encounter.detox_referral) services.push({ recordType: 161, typeProvided: 2, suffix: 'SU' })
+    if (encounter.placement_made) services.push({ recordType: 161, typeProvided: 11, suffix: 'TH' })
+
+    services.forEach((service) => {
+      serviceRows.push({
+        ServicesID: `${encounterId.slice(0, 30)}${service.suffix}`,
+        ...base,
+        DateProvided: serviceDate,
+        RecordType: service.recordType,
+        TypeProvided: service.typeProvided,
+        ...audit(encounter.created_at),
+      })
+    })
+  })
+
+  // Disabilities.csv (collected at project start)
+  const disabilityColumns = [
+    'DisabilitiesID', 'EnrollmentID', 'PersonalID', 'InformationDate', 'DisabilityType',
+    'DisabilityResponse', 'IndefiniteAndImpairs', 'DataCollectionStage',
+    ...auditColumns,
+  ]
+
+  const disabilityRows: CsvRow[] = []
+  allEnrollments.forEach((enrollment) => {
+    const person = enrollment.person
+    const types = (person.disability_type || '').split(',').map((t) => t.trim())
+    const addictions = (person.addiction || '').split(',').map((a) => a.trim()).filter(Boolean)
+    const hasAlcohol = addictions.includes('Alcohol')
+    const hasDrugs = addictions.some((a) => a !== 'Alcohol')
+
+    let substanceResponse: number = NO
+    if (hasAlcohol && hasDrugs) substanceResponse = 3
+    else if (hasAlcohol) substanceResponse = 1
+    else if (hasDrugs) substanceResponse = 2
+    else if (types.includes('Substance Use')) {
+      // HUD has no generic "yes": 1 is alcohol, 2 drugs, 3 both
+      substanceResponse = DATA_NOT_COLLECTED
+      addIssue({
+        severity: 'warning',
+        file: 'Disabilities.csv',
+        recordId: `${enrollment.enrollmentId.slice(0, 29)}D${HUD_DISABILITY_TYPES.substanceUse}`,
+        clientId: person.client_id,
+        field: 'DisabilityResponse',
+        message: 'Substance use disability recorded without alcohol or drug use - exported as data not collected',
+      })
+    }
+
+    const responses: [number, number][] = [
+      [HUD_DISABILITY_TYPES.physical, types.includes('Physical') ? YES : NO],
+      [HUD_DISABILITY_TYPES.developmental, types.includes('Developmental') ? YES : NO],
+      [HUD_DISABILITY_TYPES.chronicHealth, types.includes('Chronic Health Condition') || person.chronic_health ? YES : NO],
+      [HUD_DISABILITY_TYPES.mentalHealth, types.includes('Mental Health') || person.mental_health ? YES : NO],
+      [HUD_DISABILITY_TYPES.substanceUse, substanceResponse],
+    ]
+
+    responses.forEach(([disabilityType, response]) => {
+      disabilityRows.push({
+        DisabilitiesID: `${enrollment.enrollmentId.slice(0, 29)}D${disabilityType}`,
+        EnrollmentID: enrollment.enrollmentId,
+        PersonalID: toHmisId(person.id),
+        InformationDate: enrollment.entryDate,
+        DisabilityType: disabilityType,
+        DisabilityResponse: response,
+        IndefiniteAndImpairs: response === NO || response === DATA_NOT_COLLECTED ? null : DATA_NOT_COLLECTED,
+        DataCollectionStage: 1,
+        ...audit(person.created_at, person.updated_at),
+      })
+    })
+  })
+
+  // Export.csv, Organization.csv, Project.csv
+  const exportColumns = [
+    'ExportID', 'SourceType', 'SourceID', 'SourceName', 'SourceContactFirst', 'SourceContactLast',
+    'SourceContactPhone', 'SourceContactExtension', 'SourceContactEmail', 'ExportDate',
+    'ExportStartDate', 'ExportEndDate', 'SoftwareName', 'SoftwareVersion', 'CSVVersion',
+    'ExportPeriodType', 'ExportDirective', 'HashStatus', 'ImplementationID',
+  ]
+  const allDates = allEnrollments.map((e) => e.entryDate).sort()
+  const exportRow: CsvRow = {
+    ExportID: exportId,
+    SourceType: 3,
+    SourceID: organizationId,
+    SourceName: HMIS_EXPORT_CONFIG.sourceName,
+    ExportDate: exportDate,
+    ExportStartDate: periodStart || allDates[0] || toDateString(new Date().toISOString()),
+    ExportEndDate: periodEnd || toDateString(new Date().toISOString()),
+    SoftwareName: HMIS_EXPORT_CONFIG.softwareName,
+    SoftwareVersion: HMIS_EXPORT_CONFIG.softwareVersion,
+    CSVVersion: 'FY2024',
+    ExportPeriodType: periodStart || periodEnd ? 3 : 4,
+    ExportDirective: 2,
+    HashStatus: 1,
+    ImplementationID: organizationId,
+  }
+
+  const organizationColumns = ['OrganizationID', 'OrganizationName', 'VictimServiceProvider', 'OrganizationCommonName', ...auditColumns]
+  const organizationRow: CsvRow = {
+    OrganizationID: organizationId,
+    OrganizationName: HMIS_EXPORT_CONFIG.organizationName,
+    VictimServiceProvider: NO,
+    OrganizationCommonName: HMIS_EXPORT_CONFIG.organizationName,
+    ...audit(null),
+  }
+
+  const projectColumns = [
+    'ProjectID', 'OrganizationID', 'ProjectName', 'ProjectCommonName', 'OperatingStartDate',
+    'OperatingEndDate', 'ContinuumProject', 'ProjectType', 'HousingType', 'RRHSubType',
+    'ResidentialAffiliation', 'TargetPopulation', 'HOPWAMedAssistedLivingFac', 'PITCount',
+    ...auditColumns,
+  ]
+  const projectRow: CsvRow = {
+    ProjectID: projectId,
+    OrganizationID: organizationId,
+    ProjectName: HMIS_EXPORT_CONFIG.projectName,
+    ProjectCommonName: HMIS_EXPORT_CONFIG.projectName,
+    OperatingStartDate: allDates[0] || '',
+    ContinuumProject: YES,
+    ProjectType: HMIS_EXPORT_CONFIG.projectType,
+    TargetPopulation: 4,
+    ...audit(null),
+  }
+
+  const files: Record<string, string> = {
+    'Export.csv': toCsv(exportColumns, [exportRow]),
+    'Organization.csv': toCsv(organizationColumns, [organizationRow]),
+    'Project.csv': toCsv(projectColumns, [projectRow]),
+    'Client.csv': toCsv(clientColumns, clientRows),
+    'Enrollment.csv': toCsv(enrollmentColumns, enrollmentRows),
+    'Exit.csv': toCsv(exitColumns, exitRows),
+    'CurrentLivingSituation.csv': toCsv(contactColumns, contactRows),
+    'Services.csv': toCsv(serviceColumns, serviceRows),
+    'Disabilities.csv': toCsv(disabilityColumns, disabilityRows),
+  }
+
+  return {
+    files,
+    issues,
+    counts: {
+      'Client.csv': clientRows.length,
+      'Enrollment.csv': enrollmentRows.length,
+      'Exit.csv': exitRows.length,
+      'CurrentLivingSituation.csv': contactRows.length,
+      'Services.csv': serviceRows.length,
+      'Disabilities.csv': disabilityRows.length,
+    },
+  }
+}
+
+/**
+ * Package HMIS CSV files into a zip archive
+ * @param files - CSV contents keyed by file name
+ * @returns Zip file contents
+ */
+export async function packageHmisZip(files: Record<string, string>): Promise<Uint8Array> {
+  const zip = new JSZip()
+  Object.entries(files).forEach(([name, content]) => {
+    zip.file(name, content)
+  })
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
@@ -0,0 +1,230 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { fetchAllRows } from '@/lib/utils/paginate'
+import type { HouseholdMemberFormData, RelationshipToHead } from '@/lib/schemas/household-schema'
+
+export interface HouseholdPerson {
+  id: string
+  client_id: string
+  first_name: string
+  last_name: string
+  date_of_birth?: string | null
+}
+
+export interface HouseholdMember {
+  id: string
+  household_id: string
+  person_id: string
+  relationship_to_head: RelationshipToHead
+  person: HouseholdPerson | null
+}
+
+export interface Household {
+  id: string
+  name?: string | null
+  members: HouseholdMember[]
+}
+
+// Just enough of a membership to count households and fill HUD fields
+export interface HouseholdMembership {
+  person_id: string
+  household_id: string
+  relationship_to_head: RelationshipToHead
+}
+
+export interface HouseholdCandidate extends HouseholdPerson {
+  household_id: string | null
+}
+
+// Members as loaded, including merged-away persons
+interface HouseholdRow extends Omit<Household, 'members'> {
+  members: (Omit<HouseholdMember, 'person'> & { person: (HouseholdPerson & { merged_into?: string | null }) | null })[]
+}
+
+const HOUSEHOLD_SELECT =
+  'id, name, members:household_members(id, household_id, person_id, relationship_to_head, person:persons(id, client_id, first_name, last_name, date_of_birth, merged_into))'
+
+/**
+ * Load the household a person belongs to, head of household first
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ * @returns The household, or null if the person lives alone
+ */
+export async function fetchPersonHousehold(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<Household | null> {
+  const { data: membership, error: membershipError } = await supabase
+    .from('household_members')
+    .select('household_id')
+    .eq('person_id', personId)
+    .maybeSingle<{ household_id: string }>()
+
+  if (membershipError) throw membershipError
+  if (!membership) return null
+
+  const { data: household, error } = await supabase
+    .from('households')
+    .select(HOUSEHOLD_SELECT)
+    .eq('id', membership.household_id)
+    .single<HouseholdRow>()
+
+  if (error) throw error
+
+  return {
+    ...household,
+    // Merged-away duplicates are tombstones, not members
+    members: household.members
+      .filter((m) => !m.person?.merged_into)
+      .sort((a, b) => (a.relationship_to_head === 'self' ? -1 : b.relationship_to_head === 'self' ? 1 : 0)),
+  }
+}
+
+/**
+ * Load every household membership, for counting households in reports
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchHouseholdMemberships(supabase: SupabaseClient): Promise<HouseholdMembership[]> {
+  return fetchAllRows<HouseholdMembership>((from, to) =>
+    supabase
+      .from('household_members')
+      .select('person_id, household_id, relationship_to_head')
+      .order('id')
+      .range(from, to)
+  )
+}
+
+/**
+ * Start a household with a person as its head
+ * @param headPersonId - The head of household's UUID
+ * @param name - Optional label for the household
+ * @returns The new household's ID
+ */
+export async function createHousehold(headPersonId: string, name: string | null): Promise<string> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('households')
+    .insert({ name } as never)
+    .select('id')
+    .single<{ id: string }>()
+
+  if (error) throw error
+
+  const { error: memberError } = await supabase
+    .from('household_members')
+    .insert({ household_id: data.id, person_id: headPersonId, relationship_to_head: 'self' } as never)
+
+  if (memberError) {
+    // Don't leave an empty household behind (e.g. the person joined another one meanwhile)
+    await supabase.from('households').delete().eq('id', data.id)
+    throw memberError
+  }
+
+  return data.id
+}
+
+/**
+ * Add a person to a household
+ * @param householdId - The household's UUID
+ * @param member - The person and their relationship to the head
+ */
+export async function addHouseholdMember(householdId: string, member: HouseholdMemberFormData): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('household_members')
+    .insert({ household_id: householdId, ...member } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Change a member's relationship to the head of household
+ * @param memberId - The membership's UUID
+ * @param relationship - New relationship ('self' only when the household has no head)
+ */
+export async function updateHouseholdRelationship(
+  memberId: string,
+  relationship: RelationshipToHead
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('household_members')
+    .update({ relationship_to_head: relationship } as never)
+    .eq('id', memberId)
+
+  if (error) throw error
+}
+
+/**
+ * Take a person out of their household. The household is deleted once its
+ * last member leaves.
+ * @param member - The membership to remove
+ */
+export async function removeHouseholdMember(member: Pick<HouseholdMember, 'id' | 'household_id'>): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('household_members')
+    .delete()
+    .eq('id', member.id)
+
+  if (error) throw error
+
+  const { count, error: countError } = await supabase
+    .from('household_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('household_id', member.household_id)
+
+  if (countError) throw countError
+
+  if (count === 0) {
+    await supabase.from('households').delete().eq('id', member.household_id)
+  }
+}
+
+/**
+ * Find clients to add to a household by name or client ID
+ * @param term - Part of a name or client ID
+ * @returns Up to 10 matches, with the household each already belongs to
+ */
+export async function searchHouseholdCandidates(term: string): Promise<HouseholdCandidate[]> {
+  // Strip characters that would break the PostgREST filter syntax
+  const search = term.replace(/[,()%*]/g, '').trim()
+  if (!search) return []
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('persons')
+    .select('id, client_id, first_name, last_name, date_of_birth, household_members(household_id)')
+    .is('merged_into', null)
+    .or(`client_id.ilike.%${search}%,first_name.ilike.%${search}%,last_name.ilike.%${search}%`)
+    .order('last_name')
+    .limit(10)
+
+  if (error) throw error
+
+  return ((data || []) as (HouseholdPerson & { household_members: { household_id: string }[] | null })[])
+    .map(({ household_members, ...person }) => ({
+      ...person,
+      household_id: household_members?.[0]?.household_id || null,
+    }))
+}
+
+/**
+ * Count households among a set of persons. Persons not in a household are
+ * a household of one, as HUD counts them.
+ * @param personIds - The persons served
+ * @param memberships - All household memberships
+ */
+export function countHouseholds(personIds: Iterable<string>, memberships: HouseholdMembership[]): number {
+  const householdByPerson = new Map(memberships.map((m) => [m.person_id, m.household_id]))
+  const households = new Set<string>()
+  for (const personId of personIds) {
+    households.add(householdByPerson.get(personId) || `person:${personId}`)
+  }
+  return households.size
+}
@@ -0,0 +1,299 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  HOUSING_STAGES,
+  type HousingStage,
+  type PipelineStageData,
+  type PipelineStartData,
+} from '@/lib/schemas/housing-schema'
+import { exitEnrollment } from '@/lib/utils/enrollments'
+import { fetchMergedPersonIds } from '@/lib/utils/person-merge'
+
+export interface HousingPipeline {
+  id: string
+  person_id: string
+  started_on: string
+  housing_program?: string | null
+  document_ready_on?: string | null
+  matched_on?: string | null
+  application_submitted_on?: string | null
+  unit_identified_on?: string | null
+  lease_signed_on?: string | null
+  moved_in_on?: string | null
+  move_in_destination?: string | null
+  closed_on?: string | null
+  closed_reason?: string | null
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+// An open pipeline on the board, with the client it belongs to
+export interface BoardPipeline extends HousingPipeline {
+  person: {
+    id: string
+    client_id: string
+    first_name: string
+    last_name: string
+  }
+}
+
+export interface StageDuration {
+  stage: HousingStage
+  averageDays: number | null
+  count: number
+}
+
+export interface HousingPipelineSummary {
+  started: number
+  movedIn: number
+  averageDaysToHousing: number | null
+  medianDaysToHousing: number | null
+  // Average days spent reaching each stage from the previous one
+  stageDurations: StageDuration[]
+  // Open pipelines by the stage they are waiting in
+  openByStage: { stage: HousingStage | 'started', count: number }[]
+}
+
+export interface RecordStageResult {
+  // False when moving in could not exit the client because they had no open enrollment
+  exited: boolean
+}
+
+/**
+ * Date column for a stage
+ */
+export function stageColumn(stage: HousingStage): `${HousingStage}_on` {
+  return `${stage}_on`
+}
+
+/**
+ * The latest stage a pipeline has reached
+ * @returns The stage, or null if the pipeline has only been started
+ */
+export function currentStage(pipeline: HousingPipeline): HousingStage | null {
+  return [...HOUSING_STAGES].reverse().find((stage) => pipeline[stageColumn(stage)]) || null
+}
+
+/**
+ * The stage a pipeline is working toward next
+ * @returns The stage, or null once the client has moved in
+ */
+export function nextStage(pipeline: HousingPipeline): HousingStage | null {
+  const current = currentStage(pipeline)
+  return current ? HOUSING_STAGES[HOUSING_STAGES.indexOf(current) + 1] || null : HOUSING_STAGES[0]
+}
+
+/**
+ * Days since the pipeline reached its current stage (or was started)
+ * @param today - Date to count to (defaults to now)
+ */
+export function daysInStage(pipeline: HousingPipeline, today: Date = new Date()): number {
+  const current = currentStage(pipeline)
+  const since = current ? pipeline[stageColumn(current)] as string : pipeline.started_on
+  return differenceInCalendarDays(today, parseISO(since))
+}
+
+/**
+ * Whether a pipeline is still in progress
+ */
+export function isPipelineOpen(pipeline: HousingPipeline): boolean {
+  return !pipeline.moved_in_on && !pipeline.closed_on
+}
+
+/**
+ * Load a client's housing pipelines, newest first. Pipelines started for
+ * duplicates merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonPipelines(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<HousingPipeline[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('housing_pipelines')
+    .select('*')
+    .in('person_id', personIds)
+    .order('started_on', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as HousingPipeline[]
+}
+
+/**
+ * Load every open pipeline with its client, for the board
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchOpenPipelines(supabase: SupabaseClient): Promise<BoardPipeline[]> {
+  const { data, error } = await supabase
+    .from('housing_pipelines')
+    .select('*, person:persons(id, client_id, first_name, last_name)')
+    .is('moved_in_on', null)
+    .is('closed_on', null)
+    .order('started_on', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as unknown as BoardPipeline[]
+}
+
+/**
+ * Start a housing pipeline for a client
+ * @param personId - The person's UUID
+ * @param data - Start date, housing program and notes
+ */
+export async function startPipeline(personId: string, data: PipelineStartData): Promise<HousingPipeline> {
+  const supabase = createClient()
+
+  const { data: pipeline, error } = await supabase
+    .from('housing_pipelines')
+    .insert({
+      person_id: personId,
+      started_on: data.started_on,
+      housing_program: data.housing_program || null,
+      notes: data.notes || null,
+    } as never)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return pipeline as HousingPipeline
+}
+
+/**
+ * Record the date a pipeline reached a stage. Moving in also exits the
+ * client to the chosen Permanent Housing destination.
+ * @param pipeline - The pipeline to advance
+ * @param data - Stage, date and (for moved_in) the destination
+ */
+export async function recordStage(pipeline: HousingPipeline, data: PipelineStageData): Promise<RecordStageResult> {
+  const supabase = createClient()
+  const movingIn = data.stage === 'moved_in'
+
+  const { error } = await supabase
+    .from('housing_pipelines')
+    .update({
+      [stageColumn(data.stage)]: data.date,
+      ...(movingIn && { move_in_destination: data.move_in_destination }),
+    } as never)
+    .eq('id', pipeline.id)
+
+  if (error) throw error
+  if (!movingIn) return { exited: false }
+
+  // Get current user for tracking
+  const { data: { user } } = await supabase.auth.getUser()
+  const exitDestination = data.move_in_destination as string
+  const notes = `Moved in${pipeline.housing_program ? ` (${pipeline.housing_program})` : ''}`
+
+  // Close the client's open enrollment episode
+  try {
+    await exitEnrollment(pipeline.person_id, {
+      exit_date: data.date,
+      exit_destination: exitDestination,
+      exit_notes: notes,
+      exited_by: user?.email || 'Unknown',
+    })
+  } catch (exitError) {
+    console.error('Error exiting client at move-in:', exitError)
+    return { exited: false }
+  }
+
+  // Log the exit to status_changes
+  const { error: statusError } = await supabase
+    .from('status_changes')
+    .insert({
+      person_id: pipeline.person_id,
+      change_type: 'exit',
+      change_date: data.date,
+      exit_destination: exitDestination,
+      notes,
+      created_by: user?.email || 'Unknown',
+    } as never)
+
+  if (statusError) throw statusError
+  return { exited: true }
+}
+
+/**
+ * End a pipeline without a move-in
+ * @param pipelineId - The pipeline's UUID
+ * @param closedOn - Date the pipeline ended (YYYY-MM-DD)
+ * @param reason - Why it ended (e.g. client declined)
+ */
+export async function closePipeline(pipelineId: string, closedOn: string, reason: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('housing_pipelines')
+    .update({ closed_on: closedOn, closed_reason: reason || null } as never)
+    .eq('id', pipelineId)
+
+  if (error) throw error
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle]
+}
+
+/**
+ * Summarize pipelines for a reporting period: how many started and moved
+ * in, time to housing for those who moved in, average time to reach each
+ * stage, and where open pipelines are waiting
+ * @param pipelines - Pipelines for the clients being reported on
+ * @param isInRange - Whether a date (YYYY-MM-DD) falls in the period
+ */
+export function summarizePipelines(
+  pipelines: HousingPipeline[],
+  isInRange: (date: string) => boolean
+): HousingPipelineSummary {
+  const movedIn = pipelines.filter((p) => p.moved_in_on && isInRange(p.moved_in_on))
+  const daysToHousing = movedIn.map((p) =>
+    differenceInCalendarDays(parseISO(p.moved_in_on as string), parseISO(p.started_on))
+  )
+
+  // Time to reach each stage from the one before it (or from the start),
+  // counting stages reached during the period
+  const stageDurations = HOUSING_STAGES.map((stage, index) => {
+    const days: number[] = []
+    for (const pipeline of pipelines) {
+      const reached = pipeline[stageColumn(stage)]
+      if (!reached || !isInRange(reached)) continue
+      const previous = HOUSING_STAGES.slice(0, index).reverse()
+        .map((s) => pipeline[stageColumn(s)])
+        .find(Boolean) || pipeline.started_on
+      days.push(differenceInCalendarDays(parseISO(reached), parseISO(previous)))
+    }
+    return { stage, averageDays: average(days), count: days.length }
+  })
+
+  const openCounts = new Map<HousingStage | 'started', number>()
+  for (const pipeline of pipelines.filter(isPipelineOpen)) {
+    const stage = currentStage(pipeline) || 'started'
+    openCounts.set(stage, (openCounts.get(stage) || 0) + 1)
+  }
+
+  return {
+    started: pipelines.filter((p) => isInRange(p.started_on)).length,
+    movedIn: movedIn.length,
+    averageDaysToHousing: average(daysToHousing),
+    medianDaysToHousing: median(daysToHousing),
+    stageDurations,
+    openByStage: (['started', ...HOUSING_STAGES] as const)
+      .filter((stage) => openCounts.has(stage))
+      .map((stage) => ({ stage, count: openCounts.get(stage) as number })),
+  }
+}
@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import {
+  INCIDENT_OUTCOMES,
+  INCIDENT_TYPES,
+  type IncidentFormData,
+  type IncidentOutcome,
+  type IncidentReviewStatus,
+  type IncidentType,
+} from '@/lib/schemas/incident-schema'
+import { recordIncidentDistribution } from '@/lib/utils/inventory'
+import { fetchMergedPersonIds } from '@/lib/utils/person-merge'
+
+export interface Incident {
+  id: string
+  incident_type: IncidentType
+  occurred_at: string
+  person_id: string | null
+  person_description?: string | null
+  naloxone_doses: number
+  ems_called: boolean
+  outcome: IncidentOutcome
+  location_description: string
+  latitude: number | null
+  longitude: number | null
+  description: string
+  reported_by?: string | null
+  review_status: IncidentReviewStatus
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  review_notes?: string | null
+  created_at: string
+  person?: { id: string, client_id: string, first_name: string, last_name: string } | null
+}
+
+export interface IncidentSummary {
+  total: number
+  reversals: number
+  naloxoneDoses: number
+  emsCalled: number
+  deaths: number
+  pendingReview: number
+  byType: { incident_type: IncidentType, count: number }[]
+  byOutcome: { outcome: IncidentOutcome, count: number }[]
+}
+
+// Embedded select for the client an incident involved
+const INCIDENT_SELECT = '*, person:persons(id, client_id, first_name, last_name)'
+
+/**
+ * Load incidents, newest first
+ * @param supabase - Supabase client (browser or server)
+ * @param startDate - Only incidents on or after this date (YYYY-MM-DD)
+ * @param endDate - Only incidents on or before this date (YYYY-MM-DD)
+ */
+export async function fetchIncidents(
+  supabase: SupabaseClient,
+  startDate?: string,
+  endDate?: string
+): Promise<Incident[]> {
+  let query = supabase
+    .from('incidents')
+    .select(INCIDENT_SELECT)
+    .order('occurred_at', { ascending: false })
+
+  if (startDate) query = query.gte('occurred_at', `${startDate}T00:00:00`)
+  if (endDate) query = query.lte('occurred_at', `${endDate}T23:59:59`)
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return (data || []) as Incident[]
+}
+
+/**
+ * Load incidents involving a client, newest first. Incidents recorded on
+ * duplicates merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonIncidents(supabase: SupabaseClient, personId: string): Promise<Incident[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('incidents')
+    .select(INCIDENT_SELECT)
+    .in('person_id', personIds)
+    .order('occurred_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as Incident[]
+}
+
+/**
+ * File an incident report. Naloxone administered is taken off the chosen
+ * stock location; a failure there doesn't lose the report.
+ * @param data - The report
+ * @param context - Client involved, GPS position and the stock naloxone came from
+ */
+export async function saveIncident(
+  data: IncidentFormData,
+  context: {
+    personId: string | null
+    latitude: number | null
+    longitude: number | null
+    stockLocationId: string | null
+  }
+): Promise<Incident> {
+  const supabase = createClient()
+
+  const { data: incident, error } = await supabase
+    .from('incidents')
+    .insert({
+      incident_type: data.incident_type,
+      occurred_at: new Date(`${data.occurred_on}T${data.occurred_time}`).toISOString(),
+      person_id: context.personId,
+      person_description: data.person_description || null,
+      naloxone_doses: data.naloxone_doses,
+      ems_called: data.ems_called,
+      outcome: data.outcome,
+      location_description: data.location_description,
+      latitude: context.latitude,
+      longitude: context.longitude,
+      description: data.description,
+    } as never)
+    .select(INCIDENT_SELECT)
+    .single()
+
+  if (error) throw error
+
+  if (context.stockLocationId && data.naloxone_doses > 0) {
+    try {
+      await recordIncidentDistribution(
+        (incident as Incident).id,
+        context.stockLocationId,
+        data.naloxone_doses,
+        data.occurred_on
+      )
+    } catch (stockError) {
+      console.error('Error recording naloxone administered:', stockError)
+    }
+  }
+
+  return incident as Incident
+}
+
+/**
+ * Mark an incident as reviewed by the signed-in supervisor
+ * @param incidentId - The incident's UUID
+ * @param notes - Review notes, e.g. follow-up or corrections
+ */
+export async function reviewIncident(incidentId: string, notes: string | null): Promise<Incident> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data, error } = await supabase
+    .from('incidents')
+    .update({
+      review_status: 'reviewed',
+      reviewed_by: user?.email || 'Unknown',
+      reviewed_at: new Date().toISOString(),
+      review_notes: notes || null,
+    } as never)
+    .eq('id', incidentId)
+    .select(INCIDENT_SELECT)
+    .single()
+
+  if (error) throw error
+  return data as Incident
+}
+
+/**
+ * Count incidents by type and outcome, with reversals and naloxone doses
+ * for the grant
+ */
+export function summarizeIncidents(incidents: Incident[]): IncidentSummary {
+  const count = <T extends string>(values: readonly T[], pick: (incident: Incident) => T) =>
+    values
+      .map((value) => ({ value, count: incidents.filter((incident) => pick(incident) === value).length }))
+      .filter(({ count }) => count > 0)
+
+  return {
+    total: incidents.length,
+    reversals: incidents.filter((incident) => incident.incident_type === 'reversal').length,
+    naloxoneDoses: incidents.reduce((sum, incident) => sum + incident.naloxone_doses, 0),
+    emsCalled: incidents.filter((incident) => incident.ems_called).length,
+    deaths: incidents.filter((incident) => incident.outcome === 'deceased').length,
+    pendingReview: incidents.filter((incident) => incident.review_status === 'pending').length,
+    byType: count(INCIDENT_TYPES, (incident) => incident.incident_type)
+      .map(({ value, count }) => ({ incident_type: value, count })),
+    byOutcome: count(INCIDENT_OUTCOMES, (incident) => incident.outcome)
+      .map(({ value, count }) => ({ outcome: value, count })),
+  }
+}
@@ -0,0 +1,281 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import {
+  EARNED_INCOME_SOURCES,
+  INCOME_SOURCES,
+  isCashIncome,
+  type IncomeChanges,
+  type IncomeCollectionStage,
+  type IncomeSourceType,
+} from '@/lib/schemas/income-schema'
+import type { Enrollment } from '@/lib/utils/enrollments'
+import { fetchAllRows } from '@/lib/utils/paginate'
+import { fetchMergedPersonIds, fetchSurvivorIds } from '@/lib/utils/person-merge'
+
+export interface IncomeSource {
+  id: string
+  person_id: string
+  source_type: IncomeSourceType
+  monthly_amount: number | null
+  start_date: string
+  end_date?: string | null
+  collection_stage: IncomeCollectionStage
+  encounter_id?: string | null
+  notes?: string | null
+  ended_by?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export interface MonthlyIncome {
+  total: number
+  earned: number
+  other: number
+}
+
+export interface IncomeChangeSummary {
+  leavers: number
+  withIncomeAtEntry: number
+  withIncomeAtExit: number
+  increasedTotal: number
+  increasedEarned: number
+  increasedOther: number
+  maintained: number
+  decreased: number
+  averageIncomeAtEntry: number | null
+  averageIncomeAtExit: number | null
+}
+
+export interface BenefitEnrollmentSummary {
+  clients: number
+  withCashIncome: number
+  withNonCashBenefit: number
+  averageMonthlyIncome: number | null
+  bySource: { source_type: IncomeSourceType, count: number }[]
+}
+
+/**
+ * Whether a client was receiving a source on a date. The end date is the
+ * date they stopped, so a source ended at exit doesn't count as income at exit.
+ * @param source - The income source or benefit
+ * @param date - Date to check (YYYY-MM-DD)
+ */
+export function isSourceActiveOn(source: IncomeSource, date: string): boolean {
+  return source.start_date <= date && (!source.end_date || source.end_date > date)
+}
+
+/**
+ * Total monthly cash income on a date, split into earned and other income
+ * @param sources - One client's income sources
+ * @param date - Date to check (YYYY-MM-DD)
+ */
+export function monthlyIncomeOn(sources: IncomeSource[], date: string): MonthlyIncome {
+  const income = { total: 0, earned: 0, other: 0 }
+  for (const source of sources) {
+    if (!isCashIncome(source.source_type) || !isSourceActiveOn(source, date)) continue
+    const amount = Number(source.monthly_amount) || 0
+    income.total += amount
+    if (EARNED_INCOME_SOURCES.includes(source.source_type)) {
+      income.earned += amount
+    } else {
+      income.other += amount
+    }
+  }
+  return income
+}
+
+/**
+ * Group income sources by client
+ */
+export function groupSourcesByPerson(sources: IncomeSource[]): Map<string, IncomeSource[]> {
+  const byPerson = new Map<string, IncomeSource[]>()
+  for (const source of sources) {
+    byPerson.set(source.person_id, [...(byPerson.get(source.person_id) || []), source])
+  }
+  return byPerson
+}
+
+/**
+ * Load a client's income history, current sources first. Sources recorded
+ * on duplicates merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonIncomeSources(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<IncomeSource[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('income_sources')
+    .select('*')
+    .in('person_id', personIds)
+    .order('end_date', { ascending: false, nullsFirst: true })
+    .order('start_date', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as IncomeSource[]
+}
+
+/**
+ * Load every client's income sources for reporting, grouped by client.
+ * Sources recorded on merged-away duplicates count for the surviving record.
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchIncomeSourcesByPerson(
+  supabase: SupabaseClient
+): Promise<Map<string, IncomeSource[]>> {
+  const [sources, survivorIds] = await Promise.all([
+    fetchAllRows<IncomeSource>((from, to) =>
+      supabase.from('income_sources').select('*').order('id').range(from, to)
+    ),
+    fetchSurvivorIds(supabase),
+  ])
+
+  return groupSourcesByPerson(
+    sources.map((source) => ({
+      ...source,
+      person_id: survivorIds.get(source.person_id) || source.person_id,
+    }))
+  )
+}
+
+/**
+ * Record the sources a client started and stopped receiving on a date
+ * @param personId - The person's UUID
+ * @param changes - Sources added and IDs of sources that ended
+ * @param date - Start date for added sources, end date for ended ones (YYYY-MM-DD)
+ * @param stage - Where the change was recorded
+ * @param encounterId - The service interaction it was recorded at, if any
+ */
+export async function saveIncomeChanges(
+  personId: string,
+  changes: IncomeChanges,
+  date: string,
+  stage: IncomeCollectionStage,
+  encounterId: string | null = null
+): Promise<void> {
+  const supabase = createClient()
+
+  if (changes.added.length > 0) {
+    const { error } = await supabase
+      .from('income_sources')
+      .insert(changes.added.map((source) => ({
+        person_id: personId,
+        source_type: source.source_type,
+        monthly_amount: source.monthly_amount,
+        notes: source.notes || null,
+        start_date: date,
+        collection_stage: stage,
+        encounter_id: encounterId,
+      })) as never)
+
+    if (error) throw error
+  }
+
+  if (changes.ended.length > 0) {
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { error } = await supabase
+      .from('income_sources')
+      .update({ end_date: date, ended_by: user?.email || 'Unknown' } as never)
+      .in('id', changes.ended)
+      .is('end_date', null)
+
+    if (error) throw error
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null
+}
+
+/**
+ * Compare each leaver's monthly cash income at program entry and at exit,
+ * as in the HUD APR (Q19a2)
+ * @param exits - Enrollment episodes that ended in the period
+ * @param sourcesByPerson - Income sources grouped by client
+ */
+export function summarizeIncomeChange(
+  exits: Enrollment[],
+  sourcesByPerson: Map<string, IncomeSource[]>
+): IncomeChangeSummary {
+  const summary: IncomeChangeSummary = {
+    leavers: 0,
+    withIncomeAtEntry: 0,
+    withIncomeAtExit: 0,
+    increasedTotal: 0,
+    increasedEarned: 0,
+    increasedOther: 0,
+    maintained: 0,
+    decreased: 0,
+    averageIncomeAtEntry: null,
+    averageIncomeAtExit: null,
+  }
+  const entryIncomes: number[] = []
+  const exitIncomes: number[] = []
+
+  for (const episode of exits) {
+    if (!episode.exit_date) continue
+    const sources = sourcesByPerson.get(episode.person_id) || []
+    const atEntry = monthlyIncomeOn(sources, episode.entry_date)
+    const atExit = monthlyIncomeOn(sources, episode.exit_date)
+
+    summary.leavers++
+    if (atEntry.total > 0) {
+      summary.withIncomeAtEntry++
+      entryIncomes.push(atEntry.total)
+    }
+    if (atExit.total > 0) {
+      summary.withIncomeAtExit++
+      exitIncomes.push(atExit.total)
+    }
+    if (atExit.total > atEntry.total) summary.increasedTotal++
+    if (atExit.total === atEntry.total) summary.maintained++
+    if (atExit.total < atEntry.total) summary.decreased++
+    if (atExit.earned > atEntry.earned) summary.increasedEarned++
+    if (atExit.other > atEntry.other) summary.increasedOther++
+  }
+
+  summary.averageIncomeAtEntry = average(entryIncomes)
+  summary.averageIncomeAtExit = average(exitIncomes)
+  return summary
+}
+
+/**
+ * How many clients were receiving each income source and benefit on a date
+ * @param personIds - Clients to count
+ * @param sourcesByPerson - Income sources grouped by client
+ * @param date - Date to check (YYYY-MM-DD)
+ */
+export function summarizeBenefitEnrollment(
+  personIds: string[],
+  sourcesByPerson: Map<string, IncomeSource[]>,
+  date: string
+): BenefitEnrollmentSummary {
+  const counts = new Map<IncomeSourceType, number>()
+  const incomes: number[] = []
+  let withNonCashBenefit = 0
+
+  for (const personId of personIds) {
+    const active = (sourcesByPerson.get(personId) || []).filter((source) => isSourceActiveOn(source, date))
+    new Set(active.map((source) => source.source_type)).forEach((type) => {
+      counts.set(type, (counts.get(type) || 0) + 1)
+    })
+
+    const income = monthlyIncomeOn(active, date).total
+    if (income > 0) incomes.push(income)
+    if (active.some((source) => !isCashIncome(source.source_type))) withNonCashBenefit++
+  }
+
+  return {
+    clients: personIds.length,
+    withCashIncome: incomes.length,
+    withNonCashBenefit,
+    averageMonthlyIncome: average(incomes),
+    bySource: INCOME_SOURCES
+      .filter((type) => counts.has(type))
+      .map((type) => ({ source_type: type, count: counts.get(type) as number })),
+  }
+}
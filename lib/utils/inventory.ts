@@ -0,0 +1,647 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { addDays, format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import {
+  EXPIRY_WARNING_DAYS,
+  type AdjustmentFormData,
+  type InventoryItemFormData,
+  type InventoryTransactionType,
+  type RestockFormData,
+  type StockLocationFormData,
+  type StockLocationType,
+  type TransferFormData,
+} from '@/lib/schemas/inventory-schema'
+import { NALOXONE_SERVICE, type EncounterServiceInput } from '@/lib/utils/encounter-services'
+import { fetchAllRows } from '@/lib/utils/paginate'
+
+export interface InventoryItem {
+  id: string
+  name: string
+  unit: string
+  service_id: string | null
+  low_stock_threshold: number
+  retired_at: string | null
+}
+
+export interface StockLocation {
+  id: string
+  name: string
+  location_type: StockLocationType
+  worker_email: string | null
+  retired_at: string | null
+}
+
+export interface InventoryLot {
+  id: string
+  item_id: string
+  lot_number: string
+  expires_on: string
+  received_on: string
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export interface InventoryTransaction {
+  id: string
+  transaction_type: InventoryTransactionType
+  item_id: string
+  lot_id: string | null
+  from_location_id: string | null
+  to_location_id: string | null
+  quantity: number
+  encounter_id: string | null
+  incident_id: string | null
+  occurred_on: string
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export interface InventorySnapshot {
+  items: InventoryItem[]
+  locations: StockLocation[]
+  lots: InventoryLot[]
+  transactions: InventoryTransaction[]
+}
+
+// Units of one lot (or of no lot, for distributions beyond recorded stock)
+// held at one location
+export interface StockBalance {
+  location_id: string
+  item_id: string
+  lot_id: string | null
+  quantity: number
+}
+
+export interface LowStockAlert {
+  location: StockLocation
+  item: InventoryItem
+  quantity: number
+}
+
+export interface ExpiringLotAlert {
+  location: StockLocation
+  item: InventoryItem
+  lot: InventoryLot
+  quantity: number
+  expired: boolean
+}
+
+export interface ReconciliationRow {
+  item: InventoryItem
+  opening: number
+  received: number
+  distributed: number
+  adjustedOut: number
+  adjustedIn: number
+  closing: number
+  // Distributed beyond the stock on record at the worker's location
+  unallocated: number
+  // Administered at incidents rather than handed out at an interaction
+  atIncidents: number
+  // Quantity recorded on service interactions, whether or not drawn from stock
+  recordedOnInteractions: number | null
+  distributedByLocation: { location: StockLocation, quantity: number }[]
+}
+
+const ITEM_COLUMNS = 'id, name, unit, service_id, low_stock_threshold, retired_at'
+const LOCATION_COLUMNS = 'id, name, location_type, worker_email, retired_at'
+
+function today(): string {
+  return format(new Date(), 'yyyy-MM-dd')
+}
+
+/**
+ * Load items, locations, lots and the full transaction ledger
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchInventory(supabase: SupabaseClient): Promise<InventorySnapshot> {
+  const [itemsResult, locationsResult, lots, transactions] = await Promise.all([
+    supabase.from('inventory_items').select(ITEM_COLUMNS).order('name'),
+    supabase.from('stock_locations').select(LOCATION_COLUMNS).order('name'),
+    fetchAllRows<InventoryLot>((from, to) =>
+      supabase.from('inventory_lots').select('*').order('expires_on').order('id').range(from, to)
+    ),
+    fetchAllRows<InventoryTransaction>((from, to) =>
+      supabase.from('inventory_transactions').select('*').order('occurred_on').order('created_at').order('id').range(from, to)
+    ),
+  ])
+
+  const error = itemsResult.error || locationsResult.error
+  if (error) throw error
+
+  return {
+    items: (itemsResult.data || []) as InventoryItem[],
+    locations: (locationsResult.data || []) as StockLocation[],
+    lots,
+    transactions,
+  }
+}
+
+/**
+ * List items and stock locations, retired ones included, for the interaction
+ * form and the admin setup
+ */
+export async function listInventorySetup(): Promise<{ items: InventoryItem[], locations: StockLocation[] }> {
+  const supabase = createClient()
+
+  const [itemsResult, locationsResult] = await Promise.all([
+    supabase.from('inventory_items').select(ITEM_COLUMNS).order('name'),
+    supabase.from('stock_locations').select(LOCATION_COLUMNS).order('name'),
+  ])
+
+  const error = itemsResult.error || locationsResult.error
+  if (error) throw error
+
+  return {
+    items: (itemsResult.data || []) as InventoryItem[],
+    locations: (locationsResult.data || []) as StockLocation[],
+  }
+}
+
+/**
+ * Stock held at each location, per lot: everything moved in minus
+ * everything moved out
+ * @param transactions - Ledger rows
+ * @param asOf - Only count movements on or before this date (YYYY-MM-DD)
+ * @returns Non-zero balances
+ */
+export function computeStockBalances(transactions: InventoryTransaction[], asOf?: string): StockBalance[] {
+  const balances = new Map<string, StockBalance>()
+
+  const apply = (locationId: string, tx: InventoryTransaction, delta: number) => {
+    const key = `${locationId}:${tx.item_id}:${tx.lot_id ?? ''}`
+    const balance = balances.get(key) || { location_id: locationId, item_id: tx.item_id, lot_id: tx.lot_id, quantity: 0 }
+    balance.quantity += delta
+    balances.set(key, balance)
+  }
+
+  for (const tx of transactions) {
+    if (asOf && tx.occurred_on > asOf) continue
+    if (tx.to_location_id) apply(tx.to_location_id, tx, tx.quantity)
+    if (tx.from_location_id) apply(tx.from_location_id, tx, -tx.quantity)
+  }
+
+  return Array.from(balances.values()).filter((balance) => balance.quantity !== 0)
+}
+
+/**
+ * Total units of an item at a location
+ */
+export function locationItemStock(balances: StockBalance[], locationId: string, itemId: string): number {
+  return balances
+    .filter((balance) => balance.location_id === locationId && balance.item_id === itemId)
+    .reduce((sum, balance) => sum + balance.quantity, 0)
+}
+
+/**
+ * Split a distribution across the lots held at a location, earliest expiry
+ * first. Unexpired lots are used before expired ones; anything beyond the
+ * stock on record is returned without a lot.
+ * @param balances - Balances of the item at the location
+ * @param lots - Lots of the item
+ * @param quantity - Units distributed
+ * @param asOf - Date of the distribution (YYYY-MM-DD)
+ */
+export function allocateDistribution(
+  balances: StockBalance[],
+  lots: InventoryLot[],
+  quantity: number,
+  asOf: string
+): { lot_id: string | null, quantity: number }[] {
+  const lotsById = new Map(lots.map((lot) => [lot.id, lot]))
+  const available = balances
+    .filter((balance) => balance.lot_id && balance.quantity > 0 && lotsById.has(balance.lot_id))
+    .map((balance) => ({ lot: lotsById.get(balance.lot_id as string) as InventoryLot, quantity: balance.quantity }))
+    .sort((a, b) =>
+      Number(a.lot.expires_on < asOf) - Number(b.lot.expires_on < asOf) ||
+      a.lot.expires_on.localeCompare(b.lot.expires_on)
+    )
+
+  const allocations: { lot_id: string | null, quantity: number }[] = []
+  let remaining = quantity
+  for (const { lot, quantity: onHand } of available) {
+    if (remaining === 0) break
+    const taken = Math.min(onHand, remaining)
+    allocations.push({ lot_id: lot.id, quantity: taken })
+    remaining -= taken
+  }
+  if (remaining > 0) {
+    allocations.push({ lot_id: null, quantity: remaining })
+  }
+  return allocations
+}
+
+/**
+ * Low stock at locations that carry an item, and lots that have expired or
+ * expire soon while still in stock
+ * @param snapshot - Items, locations, lots and ledger
+ * @param asOf - Date to check (YYYY-MM-DD, defaults to today)
+ */
+export function summarizeStockAlerts(
+  snapshot: InventorySnapshot,
+  asOf: string = today()
+): { lowStock: LowStockAlert[], expiringLots: ExpiringLotAlert[] } {
+  const balances = computeStockBalances(snapshot.transactions)
+  const activeItems = snapshot.items.filter((item) => !item.retired_at)
+  const activeLocations = snapshot.locations.filter((location) => !location.retired_at)
+  const lotsById = new Map(snapshot.lots.map((lot) => [lot.id, lot]))
+  const warnBefore = format(addDays(new Date(`${asOf}T00:00:00`), EXPIRY_WARNING_DAYS), 'yyyy-MM-dd')
+
+  // Only locations that have ever held an item are expected to carry it
+  const carried = new Set(
+    snapshot.transactions.flatMap((tx) =>
+      [tx.to_location_id, tx.from_location_id]
+        .filter((id): id is string => !!id)
+        .map((id) => `${id}:${tx.item_id}`)
+    )
+  )
+
+  const lowStock: LowStockAlert[] = []
+  for (const location of activeLocations) {
+    for (const item of activeItems) {
+      if (!carried.has(`${location.id}:${item.id}`)) continue
+      const quantity = locationItemStock(balances, location.id, item.id)
+      if (quantity < item.low_stock_threshold) {
+        lowStock.push({ location, item, quantity })
+      }
+    }
+  }
+
+  const expiringLots: ExpiringLotAlert[] = []
+  for (const balance of balances) {
+    const lot = balance.lot_id ? lotsById.get(balance.lot_id) : undefined
+    const location = activeLocations.find((l) => l.id === balance.location_id)
+    const item = activeItems.find((i) => i.id === balance.item_id)
+    if (!lot || !location || !item || balance.quantity <= 0 || lot.expires_on > warnBefore) continue
+    expiringLots.push({ location, item, lot, quantity: balance.quantity, expired: lot.expires_on < asOf })
+  }
+  expiringLots.sort((a, b) => a.lot.expires_on.localeCompare(b.lot.expires_on))
+
+  return { lowStock, expiringLots }
+}
+
+/**
+ * Stock movements of each item over a period, organization-wide: opening
+ * balance, received, distributed, adjusted and closing balance
+ * @param snapshot - Items, locations, lots and ledger
+ * @param startDate - First day of the period (YYYY-MM-DD)
+ * @param endDate - Last day of the period (YYYY-MM-DD)
+ * @param recordedByService - Quantity recorded on interactions in the period, by service ID
+ */
+export function summarizeReconciliation(
+  snapshot: InventorySnapshot,
+  startDate: string,
+  endDate: string,
+  recordedByService: Map<string, number> = new Map()
+): ReconciliationRow[] {
+  return snapshot.items.map((item) => {
+    const itemTransactions = snapshot.transactions.filter((tx) => tx.item_id === item.id)
+    const before = itemTransactions.filter((tx) => tx.occurred_on < startDate)
+    const during = itemTransactions.filter((tx) => tx.occurred_on >= startDate && tx.occurred_on <= endDate)
+    const sum = (rows: InventoryTransaction[]) => rows.reduce((total, tx) => total + tx.quantity, 0)
+    // Transfers move stock between locations and don't change the total
+    const net = (rows: InventoryTransaction[]) => rows.reduce((total, tx) =>
+      total + (tx.to_location_id ? tx.quantity : 0) - (tx.from_location_id ? tx.quantity : 0), 0)
+
+    const distributions = during.filter((tx) => tx.transaction_type === 'distribution')
+    const adjustments = during.filter((tx) => tx.transaction_type === 'adjustment')
+
+    const byLocation = new Map<string, number>()
+    for (const tx of distributions) {
+      byLocation.set(tx.from_location_id as string, (byLocation.get(tx.from_location_id as string) || 0) + tx.quantity)
+    }
+
+    const opening = net(before)
+    return {
+      item,
+      opening,
+      received: sum(during.filter((tx) => tx.transaction_type === 'restock')),
+      distributed: sum(distributions),
+      adjustedOut: sum(adjustments.filter((tx) => tx.from_location_id)),
+      adjustedIn: sum(adjustments.filter((tx) => tx.to_location_id)),
+      closing: opening + net(during),
+      unallocated: sum(distributions.filter((tx) => !tx.lot_id)),
+      atIncidents: sum(distributions.filter((tx) => tx.incident_id)),
+      recordedOnInteractions: item.service_id ? recordedByService.get(item.service_id) ?? 0 : null,
+      distributedByLocation: snapshot.locations
+        .filter((location) => byLocation.has(location.id))
+        .map((location) => ({ location, quantity: byLocation.get(location.id) as number })),
+    }
+  })
+}
+
+/**
+ * Quantity of each service recorded on interactions in a period. Services
+ * that don't count a quantity count one per interaction.
+ * @param supabase - Supabase client (browser or server)
+ * @param startDate - First day of the period (YYYY-MM-DD)
+ * @param endDate - Last day of the period (YYYY-MM-DD)
+ */
+export async function fetchRecordedServiceQuantities(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, number>> {
+  const rows = await fetchAllRows<{ service_id: string, quantity: number | null }>((from, to) =>
+    supabase
+      .from('encounter_services')
+      .select('service_id, quantity, encounter:encounters!inner(service_date)')
+      .gte('encounter.service_date', `${startDate}T00:00:00`)
+      .lte('encounter.service_date', `${endDate}T23:59:59`)
+      .order('id')
+      .range(from, to)
+  )
+
+  const totals = new Map<string, number>()
+  for (const row of rows) {
+    totals.set(row.service_id, (totals.get(row.service_id) || 0) + (row.quantity ?? 1))
+  }
+  return totals
+}
+
+/**
+ * Draw the supplies handed out at an interaction from a location's stock.
+ * Called when the interaction is saved (or replayed from the offline queue).
+ * @param encounterId - The saved encounter's UUID
+ * @param locationId - Stock location the supplies came from
+ * @param services - Services recorded at the interaction
+ * @param occurredOn - Date of the interaction (YYYY-MM-DD)
+ */
+export async function recordEncounterDistribution(
+  encounterId: string,
+  locationId: string,
+  services: EncounterServiceInput[],
+  occurredOn: string
+): Promise<void> {
+  await distributeServices(locationId, services, occurredOn, { encounter_id: encounterId })
+}
+
+/**
+ * Draw the naloxone administered at an incident from a location's stock
+ * @param incidentId - The saved incident's UUID
+ * @param locationId - Stock location the naloxone came from
+ * @param doses - Doses administered
+ * @param occurredOn - Date of the incident (YYYY-MM-DD)
+ */
+export async function recordIncidentDistribution(
+  incidentId: string,
+  locationId: string,
+  doses: number,
+  occurredOn: string
+): Promise<void> {
+  if (doses <= 0) return
+  const supabase = createClient()
+
+  const { data: service, error } = await supabase
+    .from('service_catalog')
+    .select('id')
+    .eq('key', NALOXONE_SERVICE)
+    .maybeSingle<{ id: string }>()
+
+  if (error) throw error
+  if (!service) return
+
+  await distributeServices(
+    locationId,
+    [{ service_id: service.id, quantity: doses }],
+    occurredOn,
+    { incident_id: incidentId }
+  )
+}
+
+/**
+ * Write distribution rows for the items linked to the given services,
+ * allocated across the lots held at the location
+ */
+async function distributeServices(
+  locationId: string,
+  services: EncounterServiceInput[],
+  occurredOn: string,
+  source: { encounter_id: string } | { incident_id: string }
+): Promise<void> {
+  if (services.length === 0) return
+  const supabase = createClient()
+
+  const { data: itemsData, error: itemsError } = await supabase
+    .from('inventory_items')
+    .select(ITEM_COLUMNS)
+    .in('service_id', services.map((service) => service.service_id))
+
+  if (itemsError) throw itemsError
+  const items = (itemsData || []) as InventoryItem[]
+  if (items.length === 0) return
+
+  const itemIds = items.map((item) => item.id)
+  const [transactions, lots] = await Promise.all([
+    fetchAllRows<InventoryTransaction>((from, to) =>
+      supabase
+        .from('inventory_transactions')
+        .select('*')
+        .in('item_id', itemIds)
+        .or(`from_location_id.eq.${locationId},to_location_id.eq.${locationId}`)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows<InventoryLot>((from, to) =>
+      supabase.from('inventory_lots').select('*').in('item_id', itemIds).order('id').range(from, to)
+    ),
+  ])
+
+  const balances = computeStockBalances(transactions)
+    .filter((balance) => balance.location_id === locationId)
+
+  const rows = items.flatMap((item) => {
+    const service = services.find((s) => s.service_id === item.service_id)
+    // Services without a quantity hand out one unit
+    const quantity = service?.quantity ?? 1
+    if (quantity <= 0) return []
+
+    return allocateDistribution(
+      balances.filter((balance) => balance.item_id === item.id),
+      lots.filter((lot) => lot.item_id === item.id),
+      quantity,
+      occurredOn
+    ).map((allocation) => ({
+      transaction_type: 'distribution',
+      item_id: item.id,
+      lot_id: allocation.lot_id,
+      from_location_id: locationId,
+      quantity: allocation.quantity,
+      occurred_on: occurredOn,
+      ...source,
+    }))
+  })
+
+  if (rows.length === 0) return
+
+  const { error: insertError } = await supabase
+    .from('inventory_transactions')
+    .insert(rows as never)
+
+  if (insertError) throw insertError
+}
+
+/**
+ * Receive stock into a location, creating the lot the first time it is seen
+ * @param data - Item, lot number and expiry, destination, quantity and date
+ */
+export async function receiveStock(data: RestockFormData): Promise<void> {
+  const supabase = createClient()
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('inventory_lots')
+    .select('id, expires_on')
+    .eq('item_id', data.item_id)
+    .eq('lot_number', data.lot_number)
+    .maybeSingle<{ id: string, expires_on: string }>()
+
+  if (lookupError) throw lookupError
+  if (existing && existing.expires_on !== data.expires_on) {
+    throw new Error(`Lot ${data.lot_number} is already on record with expiry ${existing.expires_on}`)
+  }
+
+  let lotId = existing?.id
+  if (!lotId) {
+    const { data: lot, error: lotError } = await supabase
+      .from('inventory_lots')
+      .insert({
+        item_id: data.item_id,
+        lot_number: data.lot_number,
+        expires_on: data.expires_on,
+        received_on: data.occurred_on,
+      } as never)
+      .select('id')
+      .single<{ id: string }>()
+
+    if (lotError) throw lotError
+    lotId = lot.id
+  }
+
+  const { error } = await supabase
+    .from('inventory_transactions')
+    .insert({
+      transaction_type: 'restock',
+      item_id: data.item_id,
+      lot_id: lotId,
+      to_location_id: data.to_location_id,
+      quantity: data.quantity,
+      occurred_on: data.occurred_on,
+      notes: data.notes || null,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Move units of a lot from one location to another
+ * @param itemId - The lot's item
+ * @param data - Lot, locations, quantity and date
+ */
+export async function transferStock(itemId: string, data: TransferFormData): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('inventory_transactions')
+    .insert({
+      transaction_type: 'transfer',
+      item_id: itemId,
+      lot_id: data.lot_id,
+      from_location_id: data.from_location_id,
+      to_location_id: data.to_location_id,
+      quantity: data.quantity,
+      occurred_on: data.occurred_on,
+      notes: data.notes || null,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Correct a location's count of a lot, e.g. for expired or damaged stock
+ * @param itemId - The lot's item
+ * @param data - Lot, location, direction, quantity, date and reason
+ */
+export async function adjustStock(itemId: string, data: AdjustmentFormData): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('inventory_transactions')
+    .insert({
+      transaction_type: 'adjustment',
+      item_id: itemId,
+      lot_id: data.lot_id,
+      from_location_id: data.direction === 'remove' ? data.location_id : null,
+      to_location_id: data.direction === 'add' ? data.location_id : null,
+      quantity: data.quantity,
+      occurred_on: data.occurred_on,
+      notes: data.notes,
+    } as never)
+
+  if (error) throw error
+}
+
+/**
+ * Add a tracked item
+ * @param data - Name, unit, linked service and low-stock threshold
+ */
+export async function addInventoryItem(data: InventoryItemFormData): Promise<InventoryItem> {
+  const supabase = createClient()
+
+  const { data: item, error } = await supabase
+    .from('inventory_items')
+    .insert({
+      name: data.name,
+      unit: data.unit,
+      service_id: data.service_id || null,
+      low_stock_threshold: data.low_stock_threshold,
+    } as never)
+    .select(ITEM_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return item as InventoryItem
+}
+
+/**
+ * Add a place stock is held
+ * @param data - Name, type and the worker carrying it
+ */
+export async function addStockLocation(data: StockLocationFormData): Promise<StockLocation> {
+  const supabase = createClient()
+
+  const { data: location, error } = await supabase
+    .from('stock_locations')
+    .insert({
+      name: data.name,
+      location_type: data.location_type,
+      worker_email: data.worker_email || null,
+    } as never)
+    .select(LOCATION_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return location as StockLocation
+}
+
+/**
+ * Retire an item or location, or bring it back. Its ledger history stays.
+ * @param table - 'inventory_items' or 'stock_locations'
+ * @param id - The row's UUID
+ * @param retired - Whether it should be retired
+ */
+export async function setInventoryRetired(
+  table: 'inventory_items' | 'stock_locations',
+  id: string,
+  retired: boolean
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from(table)
+    .update({ retired_at: retired ? new Date().toISOString() : null } as never)
+    .eq('id', id)
+
+  if (error) throw error
+}
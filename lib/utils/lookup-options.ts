@@ -0,0 +1,166 @@
+import { createClient } from '@/lib/supabase/client'
+import {
+  LOOKUP_LISTS,
+  type LookupListKey,
+  type LookupValues,
+} from '@/lib/schemas/lookup-schema'
+import {
+  LIVING_SITUATIONS,
+  GENDER_OPTIONS,
+  RACE_OPTIONS,
+  DISABILITY_TYPES,
+  REFERRAL_SOURCES,
+  TIME_HOMELESS_OPTIONS,
+  SEXUAL_ORIENTATION_OPTIONS,
+  ADDICTION_OPTIONS,
+} from '@/lib/schemas/intake-schema'
+import {
+  MAT_TYPES,
+  CO_OCCURRING_TYPES,
+  PLACEMENT_LOCATIONS,
+} from '@/lib/schemas/encounter-schema'
+import { ROI_RECIPIENTS } from '@/lib/schemas/roi-schema'
+
+export interface LookupOption {
+  id: string
+  list_key: LookupListKey
+  value: string
+  sort_order: number
+  retired_at: string | null
+  created_at: string
+}
+
+export interface LookupChoice {
+  value: string
+  retired: boolean
+}
+
+// Built-in lists, used offline and before lookup_options has loaded
+export const DEFAULT_LOOKUP_VALUES: LookupValues = {
+  gender: GENDER_OPTIONS,
+  race: RACE_OPTIONS,
+  sexual_orientation: SEXUAL_ORIENTATION_OPTIONS,
+  disability_type: DISABILITY_TYPES,
+  addiction: ADDICTION_OPTIONS,
+  living_situation: LIVING_SITUATIONS,
+  time_homeless: TIME_HOMELESS_OPTIONS,
+  referral_source: REFERRAL_SOURCES,
+  co_occurring_type: CO_OCCURRING_TYPES,
+  mat_type: MAT_TYPES,
+  placement_location: PLACEMENT_LOCATIONS,
+  roi_recipient: ROI_RECIPIENTS,
+}
+
+/**
+ * List every lookup option, retired ones included, in display order
+ */
+export async function listLookupOptions(): Promise<LookupOption[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('lookup_options')
+    .select('*')
+    .order('list_key')
+    .order('sort_order')
+
+  if (error) throw error
+  return (data || []) as LookupOption[]
+}
+
+/**
+ * Active values per list. Lists with no rows keep their built-in defaults.
+ * @param options - Rows from listLookupOptions
+ */
+export function toLookupValues(options: LookupOption[]): LookupValues {
+  const values = { ...DEFAULT_LOOKUP_VALUES }
+
+  LOOKUP_LISTS.forEach((listKey) => {
+    const rows = options.filter((option) => option.list_key === listKey)
+    if (rows.length > 0) {
+      values[listKey] = rows
+        .filter((option) => !option.retired_at)
+        .map((option) => option.value)
+    }
+  })
+
+  return values
+}
+
+/**
+ * Choices for a field on an existing record: the active options plus any
+ * saved value whose option has since been retired
+ * @param active - Active values for the field's list
+ * @param saved - The record's saved answer(s)
+ */
+export function lookupChoices(
+  active: readonly string[],
+  saved?: string | string[] | null
+): LookupChoice[] {
+  const savedValues = (Array.isArray(saved) ? saved : saved ? [saved] : [])
+    .filter((value) => value && !active.includes(value))
+
+  return [
+    ...active.map((value) => ({ value, retired: false })),
+    ...savedValues.map((value) => ({ value, retired: true })),
+  ]
+}
+
+/**
+ * Add an option to the end of a list
+ * @param listKey - Lookup list to add to
+ * @param value - The option's text, as stored on records
+ * @param sortOrder - Position in the list
+ */
+export async function addLookupOption(
+  listKey: LookupListKey,
+  value: string,
+  sortOrder: number
+): Promise<LookupOption> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('lookup_options')
+    .insert({ list_key: listKey, value, sort_order: sortOrder } as never)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as LookupOption
+}
+
+/**
+ * Retire an option so it is no longer offered, or bring it back.
+ * Records that already use a retired option keep and display it.
+ * @param optionId - The option's UUID
+ * @param retired - Whether the option should be retired
+ */
+export async function setLookupOptionRetired(optionId: string, retired: boolean): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('lookup_options')
+    .update({ retired_at: retired ? new Date().toISOString() : null } as never)
+    .eq('id', optionId)
+
+  if (error) throw error
+}
+
+/**
+ * Save a list's order
+ * @param options - The list's options in their new order
+ */
+export async function reorderLookupOptions(options: LookupOption[]): Promise<void> {
+  const supabase = createClient()
+
+  const results = await Promise.all(
+    options.map((option, index) =>
+      supabase
+        .from('lookup_options')
+        .update({ sort_order: index } as never)
+        .eq('id', option.id)
+    )
+  )
+
+  const failed = results.find((result) => result.error)
+  if (failed?.error) throw failed.error
+}
@@ -0,0 +1,27 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+
+// PostgREST caps each response at max-rows (1000 by default) without
+// reporting that rows were left out, so whole-table reads go page by page
+export const FETCH_PAGE_SIZE = 1000
+
+type PageResult = PromiseLike<{ data: unknown[] | null; error: PostgrestError | null }>
+
+/**
+ * Load every row a query matches, one page at a time
+ * @param page - Builds the query for rows `from`..`to` (inclusive); it must be
+ * ordered on a unique column so pages don't overlap or skip rows
+ * @returns All matching rows
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PageResult
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await page(from, from + FETCH_PAGE_SIZE - 1)
+    if (error) throw error
+
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows
+  }
+}
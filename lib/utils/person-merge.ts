@@ -0,0 +1,215 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { subDays } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import { fetchAllRows } from '@/lib/utils/paginate'
+
+// Must match the window enforced by undo_person_merge()
+export const MERGE_UNDO_DAYS = 7
+
+// Person fields an admin can pick a value for when merging duplicates
+export const MERGEABLE_FIELDS: { key: string, label: string }[] = [
+  { key: 'first_name', label: 'First Name' },
+  { key: 'last_name', label: 'Last Name' },
+  { key: 'nickname', label: 'Nickname' },
+  { key: 'date_of_birth', label: 'Date of Birth' },
+  { key: 'phone_number', label: 'Phone Number' },
+  { key: 'photo_url', label: 'Photo' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'race', label: 'Race' },
+  { key: 'ethnicity', label: 'Ethnicity' },
+  { key: 'sexual_orientation', label: 'Sexual Orientation' },
+  { key: 'preferred_language', label: 'Preferred Language' },
+  { key: 'cultural_lived_experience', label: 'Cultural/Lived Experience' },
+  { key: 'veteran_status', label: 'Veteran' },
+  { key: 'disability_status', label: 'Disability' },
+  { key: 'disability_type', label: 'Disability Type' },
+  { key: 'chronic_homeless', label: 'Chronically Homeless' },
+  { key: 'domestic_violence_victim', label: 'Domestic Violence Victim' },
+  { key: 'chronic_health', label: 'Chronic Health Condition' },
+  { key: 'mental_health', label: 'Mental Health Condition' },
+  { key: 'addiction', label: 'Addictions' },
+  { key: 'living_situation', label: 'Living Situation' },
+  { key: 'length_of_time_homeless', label: 'Length of Time Homeless' },
+  { key: 'evictions', label: 'Evictions' },
+  { key: 'income', label: 'Income' },
+  { key: 'income_amount', label: 'Income Amount' },
+  { key: 'support_system', label: 'Support System' },
+  { key: 'enrollment_date', label: 'Enrollment Date' },
+  { key: 'case_manager', label: 'Case Manager' },
+  { key: 'referral_source', label: 'Referral Source' },
+  { key: 'release_of_information', label: 'Release of Information' },
+]
+
+export type PersonRecord = Record<string, unknown> & {
+  id: string
+  client_id: string
+  first_name: string
+  last_name: string
+}
+
+export interface PersonMerge {
+  id: string
+  survivor_id: string
+  merged_id: string
+  survivor_before: PersonRecord
+  merged_before: PersonRecord
+  field_values: Record<string, unknown>
+  moved_encounter_ids: string[]
+  moved_status_change_ids: string[]
+  moved_enrollment_ids: string[]
+  closed_enrollment_ids: string[]
+  merged_by?: string | null
+  undone_at?: string | null
+  undone_by?: string | null
+  created_at: string
+}
+
+/**
+ * Load the full rows of two clients being merged
+ * @param ids - The two persons' UUIDs
+ */
+export async function getMergeCandidates(ids: [string, string]): Promise<PersonRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('persons')
+    .select('*')
+    .in('id', ids)
+
+  if (error) throw error
+
+  const rows = (data || []) as PersonRecord[]
+  return ids
+    .map((id) => rows.find((row) => row.id === id))
+    .filter((row): row is PersonRecord => !!row)
+}
+
+/**
+ * Merge a duplicate into a surviving client. The duplicate's encounters,
+ * status changes and enrollment episodes move to the survivor and the
+ * duplicate is kept as a tombstone pointing at it.
+ * @param survivorId - Client that remains on the by-name list
+ * @param mergedId - Duplicate being merged away
+ * @param fieldValues - Survivor fields to overwrite with the duplicate's values
+ * @returns The merge's UUID, used to undo it
+ */
+export async function mergePersons(
+  survivorId: string,
+  mergedId: string,
+  fieldValues: Record<string, unknown>
+): Promise<string> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(
+    'merge_persons',
+    {
+      survivor_person_id: survivorId,
+      merged_person_id: mergedId,
+      field_values: fieldValues,
+    } as never
+  )
+
+  if (error) throw error
+  return data as unknown as string
+}
+
+/**
+ * Undo a merge, restoring the duplicate and the survivor's previous values
+ * @param mergeId - The merge's UUID
+ */
+export async function undoPersonMerge(mergeId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc('undo_person_merge', { merge_id: mergeId } as never)
+
+  if (error) throw error
+}
+
+/**
+ * List merges that can still be undone, newest first
+ */
+export async function listUndoableMerges(): Promise<PersonMerge[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('person_merges')
+    .select('*')
+    .is('undone_at', null)
+    .gte('created_at', subDays(new Date(), MERGE_UNDO_DAYS).toISOString())
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as PersonMerge[]
+}
+
+/**
+ * Map each merged-away duplicate to the client it now belongs to. Merges of
+ * merges are followed, so if A was merged into B and B later into C, A maps to C.
+ * @param rows - Persons with the record each was merged into
+ */
+export function resolveSurvivorIds(
+  rows: { id: string, merged_into?: string | null }[]
+): Map<string, string> {
+  const mergedInto = new Map(
+    rows.filter((row) => row.merged_into).map((row) => [row.id, row.merged_into as string])
+  )
+
+  const survivorIds = new Map<string, string>()
+  mergedInto.forEach((target, id) => {
+    const seen = new Set([id])
+    while (mergedInto.has(target) && !seen.has(target)) {
+      seen.add(target)
+      target = mergedInto.get(target) as string
+    }
+    survivorIds.set(id, target)
+  })
+
+  return survivorIds
+}
+
+/**
+ * Load the client each merged-away duplicate now belongs to
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchSurvivorIds(supabase: SupabaseClient): Promise<Map<string, string>> {
+  const tombstones = await fetchAllRows<{ id: string, merged_into: string }>((from, to) =>
+    supabase
+      .from('persons')
+      .select('id, merged_into')
+      .not('merged_into', 'is', null)
+      .order('id')
+      .range(from, to)
+  )
+
+  return resolveSurvivorIds(tombstones)
+}
+
+/**
+ * IDs whose records belong to a client: the client and every duplicate
+ * merged into it, directly or through an earlier merge
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The surviving person's UUID
+ */
+export async function fetchMergedPersonIds(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<string[]> {
+  const ids = [personId]
+  let targets = [personId]
+
+  while (targets.length > 0) {
+    const { data, error } = await supabase
+      .from('persons')
+      .select('id')
+      .in('merged_into', targets)
+
+    if (error) throw error
+
+    targets = ((data || []) as { id: string }[])
+      .map((p) => p.id)
+      .filter((id) => !ids.includes(id))
+    ids.push(...targets)
+  }
+
+  return ids
+}
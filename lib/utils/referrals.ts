@@ -0,0 +1,162 @@
+import { addDays, format, parseISO } from 'date-fns'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import {
+  OPEN_REFERRAL_STATUSES,
+  REFERRAL_FOLLOW_UP_DAYS,
+  REFERRAL_STATUSES,
+  REFERRAL_TYPES,
+  type ReferralStatus,
+  type ReferralType,
+  type ReferralUpdateData,
+} from '@/lib/schemas/referral-schema'
+import { fetchMergedPersonIds } from '@/lib/utils/person-merge'
+
+export interface Referral {
+  id: string
+  encounter_id: string
+  person_id: string
+  referral_type: ReferralType
+  provider?: string | null
+  referred_on: string
+  status: ReferralStatus
+  outcome_date?: string | null
+  notes?: string | null
+  referred_by?: string | null
+  referred_by_email?: string | null
+  created_at: string
+  // Only loaded for lists that span clients
+  person?: { id: string, client_id: string, first_name: string, last_name: string } | null
+}
+
+// A referral made on the interaction form, before the encounter is saved
+export interface ReferralInput {
+  referral_type: ReferralType
+  provider: string | null
+  referred_on: string
+}
+
+export interface ReferralOutcomeSummary {
+  referral_type: ReferralType
+  total: number
+  byStatus: Record<ReferralStatus, number>
+  // Share of referrals the client attended, and accepted or attended (0-100)
+  attendedRate: number
+  acceptedRate: number
+}
+
+const REFERRAL_PERSON_SELECT = '*, person:persons(id, client_id, first_name, last_name)'
+
+/**
+ * Load a client's referrals, newest first. Referrals made for duplicates
+ * merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonReferrals(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<Referral[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('referrals')
+    .select('*')
+    .in('person_id', personIds)
+    .order('referred_on', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as Referral[]
+}
+
+/**
+ * Load the open referrals a worker made, oldest first so overdue ones lead
+ * @param supabase - Supabase client (browser or server)
+ * @param userId - The worker's auth user ID
+ */
+export async function fetchOpenReferrals(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Referral[]> {
+  const { data, error } = await supabase
+    .from('referrals')
+    .select(REFERRAL_PERSON_SELECT)
+    .eq('referred_by', userId)
+    .in('status', OPEN_REFERRAL_STATUSES as ReferralStatus[])
+    .order('referred_on', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as Referral[]
+}
+
+/**
+ * Record a referral's follow-up status
+ * @param referralId - The referral's UUID
+ * @param data - New status, the date it was confirmed and notes
+ * @returns The updated referral
+ */
+export async function updateReferral(referralId: string, data: ReferralUpdateData): Promise<Referral> {
+  const supabase = createClient()
+
+  const { data: referral, error } = await supabase
+    .from('referrals')
+    .update({
+      status: data.status,
+      outcome_date: data.outcome_date || null,
+      notes: data.notes || null,
+    } as never)
+    .eq('id', referralId)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return referral as Referral
+}
+
+export function isReferralOpen(referral: Pick<Referral, 'status'>): boolean {
+  return OPEN_REFERRAL_STATUSES.includes(referral.status)
+}
+
+/**
+ * Date an open referral is due for follow-up (YYYY-MM-DD)
+ */
+export function referralFollowUpDate(referral: Pick<Referral, 'referred_on'>): string {
+  return format(addDays(parseISO(referral.referred_on), REFERRAL_FOLLOW_UP_DAYS), 'yyyy-MM-dd')
+}
+
+/**
+ * Whether an open referral has gone past its follow-up date
+ * @param referral - The referral
+ * @param today - Today's date (YYYY-MM-DD), defaults to the local date
+ */
+export function isReferralOverdue(
+  referral: Pick<Referral, 'status' | 'referred_on'>,
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): boolean {
+  return isReferralOpen(referral) && referralFollowUpDate(referral) < today
+}
+
+/**
+ * Count referrals by type and status, with attended and accepted rates
+ * @param referrals - Referrals to summarize
+ * @returns One summary per referral type
+ */
+export function summarizeReferrals(
+  referrals: Pick<Referral, 'referral_type' | 'status'>[]
+): ReferralOutcomeSummary[] {
+  return REFERRAL_TYPES.map((type) => {
+    const ofType = referrals.filter((r) => r.referral_type === type)
+    const byStatus = Object.fromEntries(
+      REFERRAL_STATUSES.map((status) => [status, ofType.filter((r) => r.status === status).length])
+    ) as Record<ReferralStatus, number>
+    const rate = (count: number) => ofType.length > 0 ? Math.round((count / ofType.length) * 100) : 0
+
+    return {
+      referral_type: type,
+      total: ofType.length,
+      byStatus,
+      attendedRate: rate(byStatus.attended),
+      acceptedRate: rate(byStatus.accepted + byStatus.attended),
+    }
+  })
+}
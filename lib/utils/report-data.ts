@@ -0,0 +1,112 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { reportOptionsSchema } from '@/lib/schemas/report-schema'
+import type { Enrollment } from '@/lib/utils/enrollments'
+import {
+  ENCOUNTER_SERVICES_SELECT,
+  type ServiceCatalogItem,
+} from '@/lib/utils/encounter-services'
+import type { HouseholdMembership } from '@/lib/utils/households'
+import type { Site } from '@/lib/utils/sites'
+import type { HousingPipeline } from '@/lib/utils/housing-pipeline'
+import type { IncomeSource } from '@/lib/utils/income'
+import type { CaseGoal } from '@/lib/utils/case-plans'
+import { fetchAllRows } from '@/lib/utils/paginate'
+import { fetchSurvivorIds } from '@/lib/utils/person-merge'
+import {
+  buildDefinitionOptions,
+  type ReportDefinition,
+  type ReportRun,
+} from '@/lib/utils/report-definitions'
+import {
+  generateReport,
+  type ReportEncounter,
+  type ReportInput,
+  type ReportPerson,
+  type ReportReferral,
+  type ReportStatusChange,
+} from '@/lib/utils/report-engine'
+
+/**
+ * Load the rows the report engine aggregates over
+ * @param supabase - Server Supabase client (user session or service role)
+ * @returns Persons, encounters, status changes, enrollment episodes, the service catalog, referrals, household memberships, sites, housing pipelines, income sources and case goals
+ */
+export async function fetchReportInput(supabase: SupabaseClient): Promise<ReportInput> {
+  // Every query is ordered on id so pages stay stable
+  const [persons, encounters, statusChanges, enrollments, services, referrals, householdMemberships, sites, housingPipelines, incomeSources, caseGoals, survivorIds] = await Promise.all([
+    fetchAllRows<ReportPerson>((from, to) => supabase.from('persons').select('*').is('merged_into', null).order('id').range(from, to)),
+    fetchAllRows<ReportEncounter>((from, to) => supabase.from('encounters').select(`*, ${ENCOUNTER_SERVICES_SELECT}`).order('id').range(from, to)),
+    fetchAllRows<ReportStatusChange>((from, to) => supabase.from('status_changes').select('*').order('id').range(from, to)),
+    fetchAllRows<Enrollment>((from, to) => supabase.from('enrollments').select('*').order('id').range(from, to)),
+    fetchAllRows<ServiceCatalogItem>((from, to) => supabase.from('service_catalog').select('*').order('category').order('sort_order').order('id').range(from, to)),
+    fetchAllRows<ReportReferral>((from, to) => supabase.from('referrals').select('id, encounter_id, person_id, referral_type, provider, referred_on, status, outcome_date').order('id').range(from, to)),
+    fetchAllRows<HouseholdMembership>((from, to) => supabase.from('household_members').select('person_id, household_id, relationship_to_head').order('id').range(from, to)),
+    fetchAllRows<Site>((from, to) => supabase.from('sites').select('id, name, site_type, latitude, longitude, radius_meters, notes, retired_at').order('name').order('id').range(from, to)),
+    fetchAllRows<HousingPipeline>((from, to) => supabase.from('housing_pipelines').select('*').order('id').range(from, to)),
+    fetchAllRows<IncomeSource>((from, to) => supabase.from('income_sources').select('*').order('id').range(from, to)),
+    fetchAllRows<CaseGoal>((from, to) => supabase.from('case_goals').select('*').order('id').range(from, to)),
+    fetchSurvivorIds(supabase),
+  ])
+
+  // History left on merged-away duplicates (tombstones) isn't counted
+  const personIds = new Set(persons.map((p) => p.id))
+
+  return {
+    persons,
+    encounters,
+    statusChanges: statusChanges.filter((sc) => personIds.has(sc.person_id)),
+    enrollments: enrollments.filter((en) => personIds.has(en.person_id)),
+    services,
+    referrals,
+    householdMemberships,
+    sites,
+    // A pipeline started on a duplicate before the merge belongs to the survivor
+    housingPipelines: housingPipelines.map((pipeline) => ({
+      ...pipeline,
+      person_id: survivorIds.get(pipeline.person_id) || pipeline.person_id,
+    })),
+    incomeSources: incomeSources.filter((source) => personIds.has(source.person_id)),
+    // So do goals set on a duplicate's case plan
+    caseGoals: caseGoals.map((goal) => ({
+      ...goal,
+      person_id: survivorIds.get(goal.person_id) || goal.person_id,
+    })),
+  }
+}
+
+/**
+ * Generate a saved report definition and record it in the run history.
+ * Runs are only writable by the service role; callers check the user is an admin.
+ * @param supabase - Service role Supabase client
+ * @param definition - The saved report definition
+ * @param trigger - Whether a user or the scheduler started the run
+ * @param runBy - Email of the user, or the scheduler's name
+ * @returns The stored run including the generated report
+ */
+export async function runReportDefinition(
+  supabase: SupabaseClient,
+  definition: ReportDefinition,
+  trigger: ReportRun['trigger'],
+  runBy: string | null
+): Promise<ReportRun> {
+  // Definitions saved before a metric was renamed or removed fail here rather than running silently wrong
+  const options = reportOptionsSchema.parse(buildDefinitionOptions(definition))
+  const report = generateReport(await fetchReportInput(supabase), options)
+
+  const { data, error } = await supabase
+    .from('report_runs')
+    .insert({
+      definition_id: definition.id,
+      owner_id: definition.owner_id,
+      definition_name: definition.name,
+      options,
+      report,
+      trigger,
+      run_by: runBy,
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as ReportRun
+}
@@ -0,0 +1,242 @@
+import {
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfQuarter,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+} from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import type {
+  ReportDateRange,
+  ReportDefinitionFormData,
+  ReportOptions,
+  ReportSchedule,
+  ReportSelection,
+} from '@/lib/schemas/report-schema'
+import { toLocalDate, type GeneratedReport } from '@/lib/utils/report-engine'
+
+export interface ReportDefinition {
+  id: string
+  name: string
+  description?: string | null
+  owner_id: string
+  is_shared: boolean
+  options: ReportSelection
+  date_range: ReportDateRange
+  start_date?: string | null
+  end_date?: string | null
+  time_zone: string
+  schedule: ReportSchedule
+  next_run_at?: string | null
+  last_run_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReportRun {
+  id: string
+  definition_id: string | null
+  owner_id?: string | null
+  definition_name: string
+  options: ReportOptions
+  report: GeneratedReport
+  trigger: 'manual' | 'scheduled'
+  run_by?: string | null
+  created_at: string
+}
+
+export type ReportRunSummary = Omit<ReportRun, 'report'>
+
+const DATE_FORMAT = 'yyyy-MM-dd'
+
+/**
+ * Resolve a definition's date range to concrete dates as of today in its time zone
+ * @param definition - Date range, custom dates and time zone of the definition
+ * @param now - Reference time (defaults to the current time)
+ * @returns Start and end dates (YYYY-MM-DD), empty for an open-ended range
+ */
+export function resolveDateRange(
+  definition: Pick<ReportDefinition, 'date_range' | 'start_date' | 'end_date' | 'time_zone'>,
+  now: Date = new Date()
+): { startDate: string, endDate: string } {
+  const today = parseISO(toLocalDate(now.toISOString(), definition.time_zone))
+  const range = (start: Date, end: Date) => ({
+    startDate: format(start, DATE_FORMAT),
+    endDate: format(end, DATE_FORMAT),
+  })
+
+  switch (definition.date_range) {
+    case 'last_full_month': {
+      const lastMonth = subMonths(today, 1)
+      return range(startOfMonth(lastMonth), endOfMonth(lastMonth))
+    }
+    case 'month_to_date':
+      return range(startOfMonth(today), today)
+    case 'last_full_quarter': {
+      const lastQuarter = subQuarters(today, 1)
+      return range(startOfQuarter(lastQuarter), endOfQuarter(lastQuarter))
+    }
+    case 'year_to_date':
+      return range(startOfYear(today), today)
+    case 'last_30_days':
+      return range(subDays(today, 29), today)
+    case 'all_time':
+      return { startDate: '', endDate: '' }
+    case 'custom':
+      return {
+        startDate: definition.start_date || '',
+        endDate: definition.end_date || '',
+      }
+  }
+}
+
+/**
+ * Calculate when a scheduled definition should next run. Monthly reports run
+ * on the 1st so "last full month" covers the month that just ended, weekly
+ * reports run on Mondays.
+ * @param schedule - The definition's schedule
+ * @param timeZone - Time zone the definition's dates are resolved in
+ * @param now - Reference time (defaults to the current time)
+ * @returns ISO timestamp of the next run, or null when not scheduled
+ */
+export function getNextRunAt(
+  schedule: ReportSchedule,
+  timeZone: string,
+  now: Date = new Date()
+): string | null {
+  const today = parseISO(toLocalDate(now.toISOString(), timeZone))
+
+  switch (schedule) {
+    case 'monthly':
+      return `${format(startOfMonth(addMonths(today, 1)), DATE_FORMAT)}T00:00:00Z`
+    case 'weekly':
+      return `${format(startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 }), DATE_FORMAT)}T00:00:00Z`
+    case 'none':
+      return null
+  }
+}
+
+/**
+ * Build the report options for a run of a saved definition
+ * @param definition - The saved report definition
+ * @param now - Reference time (defaults to the current time)
+ */
+export function buildDefinitionOptions(
+  definition: ReportDefinition,
+  now: Date = new Date()
+): ReportOptions {
+  return {
+    ...definition.options,
+    ...resolveDateRange(definition, now),
+    timeZone: definition.time_zone,
+  }
+}
+
+/**
+ * List report definitions the current user owns or that are shared
+ */
+export async function listReportDefinitions(): Promise<ReportDefinition[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('report_definitions')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as ReportDefinition[]
+}
+
+/**
+ * Create or update a saved report definition
+ * @param form - Name, sharing, date range and schedule
+ * @param selection - Metrics, demographics and filters selected in the builder
+ * @param timeZone - Time zone relative date ranges are resolved in
+ * @param id - Existing definition to update, if any
+ */
+export async function saveReportDefinition(
+  form: ReportDefinitionFormData,
+  selection: ReportSelection,
+  timeZone: string,
+  id?: string
+): Promise<ReportDefinition> {
+  const supabase = createClient()
+  const row = {
+    name: form.name,
+    description: form.description || null,
+    is_shared: form.is_shared,
+    options: selection,
+    date_range: form.date_range,
+    start_date: form.date_range === 'custom' ? form.start_date || null : null,
+    end_date: form.date_range === 'custom' ? form.end_date || null : null,
+    time_zone: timeZone,
+    schedule: form.schedule,
+    next_run_at: getNextRunAt(form.schedule, timeZone),
+  }
+
+  const query = id
+    ? supabase.from('report_definitions').update(row as never).eq('id', id)
+    : supabase.from('report_definitions').insert(row as never)
+
+  const { data, error } = await query.select('*').single()
+
+  if (error) throw error
+  return data as ReportDefinition
+}
+
+/**
+ * Delete a saved report definition. Its run history is kept.
+ * @param id - The definition's UUID
+ */
+export async function deleteReportDefinition(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('report_definitions')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+/**
+ * List past runs of a saved report definition, newest first
+ * @param definitionId - The definition's UUID
+ */
+export async function listReportRuns(definitionId: string): Promise<ReportRunSummary[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('report_runs')
+    .select('id, definition_id, definition_name, options, trigger, run_by, created_at')
+    .eq('definition_id', definitionId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as ReportRunSummary[]
+}
+
+/**
+ * Load a past report run with its stored results
+ * @param id - The run's UUID
+ */
+export async function getReportRun(id: string): Promise<ReportRun> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('report_runs')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (error) throw error
+  return data as ReportRun
+}
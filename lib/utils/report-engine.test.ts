@@ -0,0 +1,534 @@
+import { describe, expect, it } from 'vitest'
+import { EXIT_DESTINATIONS } from '@/lib/schemas/exit-schema'
+import { reportOptionsSchema, type ReportOptions } from '@/lib/schemas/report-schema'
+import { isEntryInRange, isExitInRange, type Enrollment } from '@/lib/utils/enrollments'
+import type { EncounterService, ServiceCatalogItem } from '@/lib/utils/encounter-services'
+import {
+  generateReport,
+  type ReportEncounter,
+  type ReportInput,
+  type ReportPerson,
+  type ReportStatusChange,
+} from '@/lib/utils/report-engine'
+
+// The reference below reads local dates the way the browser did
+process.env.TZ = 'America/Los_Angeles'
+const TIME_ZONE = 'America/Los_Angeles'
+
+// Encounters as the dashboard loaded them before the service catalog, with
+// the services recorded as columns
+type LegacyEncounter = ReportEncounter & {
+  naloxone_distributed: boolean
+  fentanyl_test_strips_count?: number | null
+}
+
+type Filters = ReportOptions['filters']
+
+/**
+ * The calculations CustomReportBuilder's handleGenerate ran in the browser
+ * before they moved to generateReport, kept as the reference the engine must
+ * agree with
+ */
+function legacyReport(
+  persons: ReportPerson[],
+  encounters: LegacyEncounter[],
+  statusChanges: ReportStatusChange[],
+  enrollments: Enrollment[],
+  startDate: string,
+  endDate: string,
+  filters: Filters
+) {
+  const calculateAge = (dob: string): number => {
+    const birthDate = new Date(dob)
+    const today = new Date()
+    let age = today.getFullYear() - birthDate.getFullYear()
+    const monthDiff = today.getMonth() - birthDate.getMonth()
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+      age--
+    }
+    return age
+  }
+
+  const getLocalDateString = (dateStr: string): string => {
+    const date = new Date(dateStr)
+    const year = date.getFullYear()
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return `${year}-${month}-${day}`
+  }
+
+  let filteredEncounters = encounters
+  if (startDate && endDate) {
+    filteredEncounters = filteredEncounters.filter(e => {
+      const localDate = getLocalDateString(e.service_date)
+      return localDate >= startDate && localDate <= endDate
+    })
+  } else if (startDate) {
+    filteredEncounters = filteredEncounters.filter(e => getLocalDateString(e.service_date) >= startDate)
+  } else if (endDate) {
+    filteredEncounters = filteredEncounters.filter(e => getLocalDateString(e.service_date) <= endDate)
+  }
+
+  const personIdsWithEncounters = new Set(filteredEncounters.map(e => e.person_id))
+  const exitEpisodes = enrollments.filter(en => isExitInRange(en, startDate, endDate))
+  const personIdsWithExits = new Set(exitEpisodes.map(en => en.person_id))
+
+  let filteredPersons = persons.filter(p =>
+    personIdsWithEncounters.has(p.id) || personIdsWithExits.has(p.id)
+  )
+  if (filters.veteransOnly) filteredPersons = filteredPersons.filter(p => p.veteran_status)
+  if (filters.disabledOnly) filteredPersons = filteredPersons.filter(p => p.disability_status)
+  if (filters.chronicHomeless) filteredPersons = filteredPersons.filter(p => p.chronic_homeless)
+  if (filters.ageRange) {
+    filteredPersons = filteredPersons.filter(p => {
+      const age = calculateAge(p.date_of_birth)
+      switch (filters.ageRange) {
+        case '18-24': return age >= 18 && age <= 24
+        case '25-34': return age >= 25 && age <= 34
+        case '35-44': return age >= 35 && age <= 44
+        case '45-54': return age >= 45 && age <= 54
+        case '55-64': return age >= 55 && age <= 64
+        case '65+': return age >= 65
+        default: return true
+      }
+    })
+  }
+
+  const filteredPersonIds = new Set(filteredPersons.map(p => p.id))
+  filteredEncounters = filteredEncounters.filter(e => filteredPersonIds.has(e.person_id))
+
+  const clientsServed = filteredPersons.length
+  const totalInteractions = filteredEncounters.length
+  const naloxoneDistributed = filteredEncounters.filter(e => e.naloxone_distributed).length
+  const fentanylTestStrips = filteredEncounters.reduce(
+    (sum, e) => sum + (e.fentanyl_test_strips_count || 0),
+    0
+  )
+  const matReferrals = filteredEncounters.filter(e => e.mat_referral).length
+  const detoxReferrals = filteredEncounters.filter(e => e.detox_referral).length
+  const totalReferrals = matReferrals + detoxReferrals
+
+  const highUtilizerPersonIds = new Set(
+    filteredEncounters.filter(e => e.high_utilizer_contact).map(e => e.person_id)
+  )
+  const highUtilizerDetails = Array.from(highUtilizerPersonIds).map(personId => {
+    const person = persons.find(p => p.id === personId)
+    const encounterCount = filteredEncounters.filter(e => e.person_id === personId && e.high_utilizer_contact).length
+    return {
+      person_id: personId,
+      person_name: person ? `${person.first_name} ${person.last_name}` : 'Unknown',
+      client_id: person?.client_id || 'Unknown',
+      encounter_count: encounterCount,
+    }
+  }).sort((a, b) => b.encounter_count - a.encounter_count)
+
+  const filteredPersonsById = new Map(filteredPersons.map(p => [p.id, p]))
+  const personsWithExits = exitEpisodes.flatMap(en => {
+    const person = filteredPersonsById.get(en.person_id)
+    if (!person || !en.exit_destination) return []
+    return [{ ...person, exit_date: en.exit_date, exit_destination: en.exit_destination, exit_notes: en.exit_notes }]
+  })
+
+  const permanentHousingDestinations = EXIT_DESTINATIONS['Permanent Housing'] as readonly string[]
+  const housingPlacements = personsWithExits.filter(p =>
+    permanentHousingDestinations.includes(p.exit_destination)
+  ).length
+  const programExits = personsWithExits.length
+
+  const returnedToActiveRecords = statusChanges.filter(sc => {
+    if (sc.change_type !== 'return_to_active') return false
+    const changeDateStr = getLocalDateString(sc.change_date)
+    if (startDate && endDate) return changeDateStr >= startDate && changeDateStr <= endDate
+    if (startDate) return changeDateStr >= startDate
+    if (endDate) return changeDateStr <= endDate
+    return true
+  })
+  const returnedToActiveDetails = returnedToActiveRecords.map(sc => {
+    const person = persons.find(p => p.id === sc.person_id)
+    return {
+      person_id: sc.person_id,
+      person_name: person ? `${person.first_name} ${person.last_name}` : 'Unknown',
+      client_id: person?.client_id || 'Unknown',
+      return_date: sc.change_date,
+      notes: sc.notes || null,
+    }
+  }).sort((a, b) => new Date(b.return_date).getTime() - new Date(a.return_date).getTime())
+
+  const exitsByCategory = Object.entries(EXIT_DESTINATIONS).reduce((acc, [category, destinations]) => {
+    const categoryDestinations: Record<string, number> = {}
+    let categoryTotal = 0
+    destinations.forEach(destination => {
+      const count = personsWithExits.filter(p => p.exit_destination === destination).length
+      if (count > 0) {
+        categoryDestinations[destination] = count
+        categoryTotal += count
+      }
+    })
+    if (categoryTotal > 0) acc[category] = { total: categoryTotal, destinations: categoryDestinations }
+    return acc
+  }, {} as Record<string, { total: number, destinations: Record<string, number> }>)
+
+  const countProviders = (rows: LegacyEncounter[], provider: (e: LegacyEncounter) => string | null | undefined) =>
+    rows.reduce((acc, e) => {
+      const key = provider(e) || 'Unknown'
+      acc[key] = (acc[key] || 0) + 1
+      return acc
+    }, {} as Record<string, number>)
+  const matByProvider = countProviders(filteredEncounters.filter(e => e.mat_referral && e.mat_provider), e => e.mat_provider)
+  const detoxByProvider = countProviders(filteredEncounters.filter(e => e.detox_referral && e.detox_provider), e => e.detox_provider)
+
+  const placementsMade = filteredEncounters.filter(e => e.placement_made).length
+  const refusedShelter = filteredEncounters.filter(e => e.refused_shelter).length
+
+  const placementsByLocation = filteredEncounters
+    .filter(e => e.placement_made)
+    .reduce((acc, e) => {
+      const location = e.placement_location === 'Other'
+        ? (e.placement_location_other || 'Other')
+        : (e.placement_location || 'Unknown')
+      acc[location] = (acc[location] || 0) + 1
+      return acc
+    }, {} as Record<string, number>)
+
+  const personsById = new Map(persons.map(p => [p.id, p]))
+  const inflows = enrollments
+    .filter(en => isEntryInRange(en, startDate, endDate))
+    .filter(en => personsById.has(en.person_id)).length
+
+  const shelterDests = [
+    'Emergency shelter (including hotel/motel paid for with voucher)',
+    'Transitional housing for homeless persons (including youth)',
+    'Staying or living with family, temporary tenure',
+    'Staying or living with friends, temporary tenure',
+    'Hotel or motel paid for without emergency shelter voucher',
+    'Foster care home or foster care group home',
+    'Residential project or halfway house with no homeless criteria (e.g., sober living)',
+    'Safe Haven',
+  ]
+  const outflowHoused = personsWithExits.filter(p => permanentHousingDestinations.includes(p.exit_destination)).length
+  const outflowSheltered = personsWithExits.filter(p => shelterDests.includes(p.exit_destination)).length
+  const outflowDetox = personsWithExits.filter(p => p.exit_destination === 'Substance abuse treatment facility or detox center').length
+
+  return {
+    metrics: {
+      clientsServed,
+      totalInteractions,
+      naloxoneDistributed,
+      fentanylTestStrips,
+      totalReferrals,
+      matReferrals,
+      detoxReferrals,
+      housingPlacements,
+      placementsMade,
+      refusedShelter,
+      highUtilizerContacts: highUtilizerPersonIds.size,
+      programExits,
+      returnedToActive: returnedToActiveRecords.length,
+    },
+    breakdowns: {
+      matByProvider,
+      detoxByProvider,
+      placementsByLocation,
+      exitsByCategory,
+      returnedToActiveDetails,
+      highUtilizerDetails,
+    },
+    flows: {
+      inflows,
+      outflows: outflowHoused + outflowSheltered + outflowDetox,
+      housed: outflowHoused,
+      sheltered: outflowSheltered,
+      detox: outflowDetox,
+    },
+  }
+}
+
+// Fixtures
+
+const catalog: ServiceCatalogItem[] = [
+  { id: 'svc-naloxone', key: 'naloxone', name: 'Naloxone', category: 'Harm Reduction', tracks_quantity: false, unit: null, sort_order: 1, retired_at: null },
+  { id: 'svc-strips', key: 'fentanyl_test_strips', name: 'Fentanyl Test Strips', category: 'Harm Reduction', tracks_quantity: true, unit: 'strips', sort_order: 2, retired_at: null },
+  { id: 'svc-shower', key: 'shower_trailer', name: 'Shower Trailer', category: 'Basic Needs', tracks_quantity: false, unit: null, sort_order: 3, retired_at: null },
+]
+
+function catalogService(key: string, quantity: number | null): EncounterService {
+  const item = catalog.find(s => s.key === key) as ServiceCatalogItem
+  return {
+    service_id: item.id,
+    quantity,
+    service: { key: item.key, name: item.name, unit: item.unit, category: item.category },
+  }
+}
+
+function person(id: string, overrides: Partial<ReportPerson> = {}): ReportPerson {
+  return {
+    id,
+    client_id: `CL-${id}`,
+    first_name: `First${id}`,
+    last_name: `Last${id}`,
+    date_of_birth: '1980-06-15',
+    gender: 'Man (Boy, if child)',
+    race: 'White',
+    ethnicity: 'Non-Hispanic/Non-Latin(a)(o)(x)',
+    living_situation: 'Place not meant for habitation',
+    veteran_status: false,
+    chronic_homeless: false,
+    disability_status: false,
+    enrollment_date: '2025-01-01',
+    ...overrides,
+  }
+}
+
+let encounterCount = 0
+
+/**
+ * An encounter recorded both ways: with the legacy service columns and with
+ * the catalog services that replaced them
+ */
+function encounter(
+  personId: string,
+  serviceDate: string,
+  overrides: Partial<LegacyEncounter> & { showered?: boolean } = {}
+): LegacyEncounter {
+  const { showered, ...fields } = overrides
+  const row: LegacyEncounter = {
+    id: `enc-${++encounterCount}`,
+    service_date: serviceDate,
+    person_id: personId,
+    outreach_location: 'Moonlight Beach',
+    latitude: 33.04,
+    longitude: -117.29,
+    outreach_worker: 'Worker',
+    co_occurring_mh_sud: false,
+    mat_referral: false,
+    detox_referral: false,
+    naloxone_distributed: false,
+    fentanyl_test_strips_count: null,
+    ...fields,
+  }
+
+  const services: EncounterService[] = []
+  if (row.naloxone_distributed) services.push(catalogService('naloxone', null))
+  if (row.fentanyl_test_strips_count) services.push(catalogService('fentanyl_test_strips', row.fentanyl_test_strips_count))
+  if (showered) services.push(catalogService('shower_trailer', null))
+
+  return { ...row, encounter_services: services }
+}
+
+function enrollment(id: string, personId: string, entryDate: string, exit?: { date: string, destination: string }): Enrollment {
+  return {
+    id,
+    person_id: personId,
+    project: 'street_outreach',
+    entry_date: entryDate,
+    exit_date: exit?.date ?? null,
+    exit_destination: exit?.destination ?? null,
+    exit_notes: null,
+    created_at: `${entryDate}T12:00:00Z`,
+  }
+}
+
+const persons: ReportPerson[] = [
+  person('p1', { veteran_status: true, chronic_homeless: true }),
+  person('p2', { disability_status: true, date_of_birth: '2003-01-10' }),
+  person('p3', { veteran_status: true, disability_status: true }),
+  person('p4', { chronic_homeless: true, date_of_birth: '1955-03-02' }),
+  person('p5'),
+  person('p6', { date_of_birth: '1990-09-09' }),
+]
+
+const encounters: LegacyEncounter[] = [
+  // p1: three interactions in March, one a high utilizer contact
+  encounter('p1', '2025-03-03T17:00:00Z', { naloxone_distributed: true, fentanyl_test_strips_count: 10 }),
+  encounter('p1', '2025-03-12T18:30:00Z', { mat_referral: true, mat_provider: 'Clinic A', high_utilizer_contact: true }),
+  encounter('p1', '2025-03-20T20:00:00Z', { fentanyl_test_strips_count: 5, showered: true, high_utilizer_contact: true }),
+  // p2: March 31 evening in California is already April 1 in UTC
+  encounter('p2', '2025-04-01T04:30:00Z', { detox_referral: true, detox_provider: 'Detox Center', naloxone_distributed: true }),
+  // p2: April 1 morning in California
+  encounter('p2', '2025-04-01T16:00:00Z', { placement_made: true, placement_location: 'Other', placement_location_other: 'Motel voucher' }),
+  // p3: placements and a shelter refusal
+  encounter('p3', '2025-03-05T19:00:00Z', { placement_made: true, placement_location: 'Emergency Shelter' }),
+  encounter('p3', '2025-03-06T19:00:00Z', { refused_shelter: true, mat_referral: true, mat_provider: 'Clinic B', detox_referral: true }),
+  // p4: before the range
+  encounter('p4', '2025-02-27T21:00:00Z', { naloxone_distributed: true, fentanyl_test_strips_count: 20, high_utilizer_contact: true }),
+  // p5: date-only service date
+  encounter('p5', '2025-03-15', { mat_referral: true, mat_provider: 'Clinic A', placement_made: true, placement_location: 'Emergency Shelter' }),
+]
+
+const statusChanges: ReportStatusChange[] = [
+  { id: 'sc1', person_id: 'p3', change_type: 'return_to_active', change_date: '2025-03-10T18:00:00Z', notes: 'Back outside', created_at: '2025-03-10T18:00:00Z' },
+  { id: 'sc2', person_id: 'p4', change_type: 'return_to_active', change_date: '2025-01-05T18:00:00Z', created_at: '2025-01-05T18:00:00Z' },
+  { id: 'sc3', person_id: 'p1', change_type: 'exit', change_date: '2025-03-25T18:00:00Z', created_at: '2025-03-25T18:00:00Z' },
+  { id: 'sc4', person_id: 'p5', change_type: 'return_to_active', change_date: '2025-04-01T02:00:00Z', created_at: '2025-04-01T02:00:00Z' },
+]
+
+const enrollments: Enrollment[] = [
+  enrollment('en1', 'p1', '2025-03-03'),
+  enrollment('en2', 'p2', '2024-11-01', { date: '2025-03-28', destination: 'Rental by client, with VASH subsidy' }),
+  enrollment('en3', 'p2', '2025-03-30'),
+  enrollment('en4', 'p3', '2025-01-15', { date: '2025-03-08', destination: 'Substance abuse treatment facility or detox center' }),
+  enrollment('en5', 'p3', '2025-03-10'),
+  // p6 had no interactions but exited in March, so is still a client served
+  enrollment('en6', 'p6', '2024-08-01', { date: '2025-03-18', destination: 'Emergency shelter (including hotel/motel paid for with voucher)' }),
+  enrollment('en7', 'p4', '2024-10-01', { date: '2025-02-20', destination: 'Deceased' }),
+  enrollment('en8', 'p5', '2025-02-01'),
+]
+
+const input: ReportInput = {
+  persons,
+  encounters,
+  statusChanges,
+  enrollments,
+  services: catalog,
+  referrals: [],
+  householdMemberships: [],
+  sites: [],
+  housingPipelines: [],
+  incomeSources: [],
+  caseGoals: [],
+}
+
+function options(overrides: Partial<ReportOptions> = {}): ReportOptions {
+  return reportOptionsSchema.parse({
+    timeZone: TIME_ZONE,
+    metrics: ['inflows', 'outflows'],
+    ...overrides,
+  })
+}
+
+function reportValue(report: ReturnType<typeof generateReport>, metric: string): unknown {
+  return report.reportData.find(row => row['Metric'] === metric)?.['Value']
+}
+
+function expectMatchesLegacy(reportOptions: ReportOptions) {
+  const report = generateReport(input, reportOptions)
+  const legacy = legacyReport(
+    persons,
+    encounters,
+    statusChanges,
+    enrollments,
+    reportOptions.startDate,
+    reportOptions.endDate,
+    reportOptions.filters
+  )
+
+  const { householdsServed, ...metrics } = report.metrics
+  expect(householdsServed).toBe(report.metrics.clientsServed)
+  expect(metrics).toEqual(legacy.metrics)
+
+  expect(report.breakdowns.matByProvider).toEqual(legacy.breakdowns.matByProvider)
+  expect(report.breakdowns.detoxByProvider).toEqual(legacy.breakdowns.detoxByProvider)
+  expect(report.breakdowns.placementsByLocation).toEqual(legacy.breakdowns.placementsByLocation)
+  expect(report.breakdowns.exitsByCategory).toEqual(legacy.breakdowns.exitsByCategory)
+  expect(report.breakdowns.returnedToActiveDetails).toEqual(legacy.breakdowns.returnedToActiveDetails)
+  expect(report.breakdowns.highUtilizerDetails).toEqual(legacy.breakdowns.highUtilizerDetails)
+
+  expect(reportValue(report, 'Total Inflows')).toBe(legacy.flows.inflows)
+  expect(reportValue(report, 'Total Outflows')).toBe(legacy.flows.outflows)
+  expect(reportValue(report, '  Housed')).toBe(legacy.flows.housed)
+  expect(reportValue(report, '  Sheltered')).toBe(legacy.flows.sheltered)
+  expect(reportValue(report, '  Detox')).toBe(legacy.flows.detox)
+
+  return report
+}
+
+describe('generateReport', () => {
+  describe('matches the browser calculations it replaced', () => {
+    it('for all time', () => {
+      expectMatchesLegacy(options())
+    })
+
+    it('for a date range', () => {
+      expectMatchesLegacy(options({ startDate: '2025-03-01', endDate: '2025-03-31' }))
+    })
+
+    it('for a range with only a start date', () => {
+      expectMatchesLegacy(options({ startDate: '2025-03-10' }))
+    })
+
+    it('for a range with only an end date', () => {
+      expectMatchesLegacy(options({ endDate: '2025-03-10' }))
+    })
+
+    it.each([
+      { veteransOnly: true },
+      { disabledOnly: true },
+      { chronicHomeless: true },
+      { ageRange: '65+' as const },
+      { ageRange: '18-24' as const },
+      { veteransOnly: true, disabledOnly: true },
+    ])('with demographic filters %o', (filters) => {
+      expectMatchesLegacy(options({
+        startDate: '2025-03-01',
+        endDate: '2025-03-31',
+        filters: { veteransOnly: false, disabledOnly: false, chronicHomeless: false, ageRange: '', ...filters },
+      }))
+    })
+  })
+
+  describe('date filters', () => {
+    it('places interactions on the calendar day in the report time zone', () => {
+      const march = generateReport(input, options({ startDate: '2025-03-01', endDate: '2025-03-31' }))
+      const april = generateReport(input, options({ startDate: '2025-04-01', endDate: '2025-04-30' }))
+
+      // p2's 9:30pm March 31 interaction is in March, the next morning's in April
+      expect(march.metrics.totalInteractions).toBe(7)
+      expect(march.metrics.detoxReferrals).toBe(2)
+      expect(april.metrics.totalInteractions).toBe(1)
+      expect(april.metrics.placementsMade).toBe(1)
+    })
+
+    it('includes both end dates', () => {
+      const report = generateReport(input, options({ startDate: '2025-03-03', endDate: '2025-03-15' }))
+
+      // 2025-03-03 and the date-only 2025-03-15 are both in range
+      expect(report.metrics.totalInteractions).toBe(5)
+    })
+
+    it('counts returns to active by their local date', () => {
+      const report = generateReport(input, options({ startDate: '2025-03-01', endDate: '2025-03-31' }))
+
+      expect(report.breakdowns.returnedToActiveDetails.map(r => r.person_id)).toEqual(['p5', 'p3'])
+    })
+  })
+
+  describe('unique client counts', () => {
+    it('counts each client once however many interactions they had', () => {
+      const report = generateReport(input, options({ startDate: '2025-03-01', endDate: '2025-03-31' }))
+
+      // p1, p2, p3 and p5 had interactions; p6 only exited
+      expect(report.metrics.clientsServed).toBe(5)
+      expect(report.metrics.highUtilizerContacts).toBe(1)
+      expect(report.breakdowns.highUtilizerDetails).toEqual([
+        { person_id: 'p1', person_name: 'Firstp1 Lastp1', client_id: 'CL-p1', encounter_count: 2 },
+      ])
+    })
+
+    it('leaves out clients outside the range', () => {
+      const report = generateReport(input, options({ startDate: '2025-04-02' }))
+
+      expect(report.metrics.clientsServed).toBe(0)
+      expect(report.metrics.totalInteractions).toBe(0)
+    })
+  })
+
+  describe('service counts', () => {
+    it('counts naloxone interactions and sums test strips', () => {
+      const report = generateReport(input, options({ startDate: '2025-03-01', endDate: '2025-03-31' }))
+
+      expect(report.metrics.naloxoneDistributed).toBe(2)
+      expect(report.metrics.fentanylTestStrips).toBe(15)
+    })
+
+    it('totals every catalog service provided', () => {
+      const report = generateReport(input, options())
+      const totals = Object.fromEntries(
+        report.breakdowns.servicesProvided.map(s => [s.key, { encounters: s.encounters, quantity: s.quantity }])
+      )
+
+      expect(totals.naloxone.encounters).toBe(3)
+      expect(totals.fentanyl_test_strips).toEqual({ encounters: 3, quantity: 35 })
+      expect(totals.shower_trailer.encounters).toBe(1)
+    })
+  })
+})
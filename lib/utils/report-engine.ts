@@ -0,0 +1,1244 @@
+import { EXIT_DESTINATIONS } from '@/lib/schemas/exit-schema'
+import {
+  AGE_RANGES,
+  DEMOGRAPHIC_BREAKDOWNS,
+  type DemographicBreakdown,
+  type ReportDetailType,
+  type ReportOptions,
+} from '@/lib/schemas/report-schema'
+import { isEntryInRange, isExitInRange, type Enrollment } from '@/lib/utils/enrollments'
+import {
+  summarizeReferrals,
+  type Referral,
+  type ReferralOutcomeSummary,
+} from '@/lib/utils/referrals'
+import { REFERRAL_STATUSES, REFERRAL_STATUS_LABELS, REFERRAL_TYPE_LABELS } from '@/lib/schemas/referral-schema'
+import { countHouseholds, type HouseholdMembership } from '@/lib/utils/households'
+import { summarizeSites, type Site, type SiteTotal } from '@/lib/utils/sites'
+import {
+  summarizePipelines,
+  type HousingPipeline,
+  type HousingPipelineSummary,
+} from '@/lib/utils/housing-pipeline'
+import { HOUSING_STAGE_LABELS } from '@/lib/schemas/housing-schema'
+import {
+  groupSourcesByPerson,
+  summarizeIncomeChange,
+  type IncomeChangeSummary,
+  type IncomeSource,
+} from '@/lib/utils/income'
+import { summarizeCaseGoals, type CaseGoal, type CaseGoalSummary } from '@/lib/utils/case-plans'
+import { CASE_GOAL_TYPE_LABELS } from '@/lib/schemas/case-plan-schema'
+import {
+  FENTANYL_STRIPS_SERVICE,
+  NALOXONE_SERVICE,
+  hasService,
+  serviceQuantity,
+  summarizeServices,
+  type EncounterService,
+  type ServiceCatalogItem,
+  type ServiceTotal,
+} from '@/lib/utils/encounter-services'
+
+export interface ReportPerson {
+  id: string  // UUID from database
+  client_id: string
+  first_name: string
+  last_name: string
+  nickname?: string | null
+  date_of_birth: string
+  gender: string
+  race: string
+  ethnicity: string
+  sexual_orientation?: string | null
+  living_situation: string
+  length_of_time_homeless?: string | null
+  veteran_status: boolean
+  chronic_homeless: boolean
+  enrollment_date: string
+  case_manager?: string | null
+  referral_source?: string | null
+  disability_status?: boolean
+  disability_type?: string | null
+  exit_date?: string | null
+  exit_destination?: string | null
+  exit_notes?: string | null
+}
+
+export interface ReportEncounter {
+  id?: string  // UUID from database
+  service_date: string
+  person_id: string  // UUID foreign key
+  outreach_location: string
+  latitude: number
+  longitude: number
+  outreach_worker: string
+  site_id?: string | null
+  language_preference?: string | null
+  co_occurring_mh_sud: boolean
+  co_occurring_type?: string | null
+  mat_referral: boolean
+  mat_type?: string | null
+  mat_provider?: string | null
+  detox_referral: boolean
+  detox_provider?: string | null
+  naloxone_date?: string | null
+  encounter_services?: EncounterService[] | null
+  other_services?: string | null
+  placement_made?: boolean
+  placement_location?: string | null
+  placement_location_other?: string | null
+  refused_shelter?: boolean
+  high_utilizer_contact?: boolean
+  case_management_notes?: string | null
+}
+
+export interface ReportStatusChange {
+  id: string
+  person_id: string
+  change_type: 'exit' | 'return_to_active'
+  change_date: string
+  exit_destination?: string | null
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export type ReportReferral = Pick<Referral, 'id' | 'encounter_id' | 'person_id' | 'referral_type' | 'provider' | 'referred_on' | 'status' | 'outcome_date'>
+
+export interface ReportInput {
+  persons: ReportPerson[]
+  encounters: ReportEncounter[]
+  statusChanges: ReportStatusChange[]
+  enrollments: Enrollment[]
+  services: ServiceCatalogItem[]
+  referrals: ReportReferral[]
+  householdMemberships: HouseholdMembership[]
+  sites: Site[]
+  housingPipelines: HousingPipeline[]
+  incomeSources: IncomeSource[]
+  caseGoals: CaseGoal[]
+}
+
+export interface GeneratedReport {
+  reportData: Record<string, unknown>[]
+  metadata: {
+    generated: string
+    dateRange: string
+    startDate: string
+    endDate: string
+  }
+  metrics: {
+    clientsServed: number
+    householdsServed: number
+    totalInteractions: number
+    naloxoneDistributed: number
+    fentanylTestStrips: number
+    totalReferrals: number
+    matReferrals: number
+    detoxReferrals: number
+    housingPlacements: number
+    placementsMade: number
+    refusedShelter: number
+    highUtilizerContacts: number
+    programExits: number
+    returnedToActive: number
+  }
+  breakdowns: {
+    matByProvider: Record<string, number>
+    detoxByProvider: Record<string, number>
+    referralOutcomes: ReferralOutcomeSummary[]
+    placementsByLocation: Record<string, number>
+    servicesProvided: ServiceTotal[]
+    sites: SiteTotal[]
+    housingPipeline: HousingPipelineSummary
+    incomeChange: IncomeChangeSummary
+    caseGoals: CaseGoalSummary
+    exitsByCategory: Record<string, { total: number, destinations: Record<string, number> }>
+    returnedToActiveDetails: Array<{
+      person_id: string
+      person_name: string
+      client_id: string
+      return_date: string
+      notes: string | null
+    }>
+    highUtilizerDetails: Array<{
+      person_id: string
+      person_name: string
+      client_id: string
+      encounter_count: number
+    }>
+    demographics: Partial<Record<DemographicBreakdown, Record<string, number>>>
+  }
+  // Row-level sections, only populated when selected in the report options
+  activePersons: ReportPerson[]
+  filteredEncounters: ReportEncounter[]
+}
+
+export interface ReportDetails {
+  persons: ReportPerson[]
+  encounters: ReportEncounter[]
+}
+
+const DEMOGRAPHIC_TITLES: Record<DemographicBreakdown, string> = {
+  race: 'RACE',
+  ethnicity: 'ETHNICITY',
+  gender: 'GENDER',
+  sexualOrientation: 'SEXUAL ORIENTATION',
+  ageRange: 'AGE RANGE',
+  veteranStatus: 'VETERAN STATUS',
+  disabilityStatus: 'DISABILITY STATUS',
+  livingSituation: 'LIVING SITUATION',
+}
+
+/**
+ * Calculate a person's age in whole years as of today
+ * @param dob - Date of birth (YYYY-MM-DD)
+ * @returns Age in years
+ */
+export function calculateAge(dob: string): number {
+  const birthDate = new Date(dob)
+  const today = new Date()
+  let age = today.getFullYear() - birthDate.getFullYear()
+  const monthDiff = today.getMonth() - birthDate.getMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--
+  }
+  return age
+}
+
+/**
+ * Get the local calendar date (YYYY-MM-DD) of a timestamp in the report's time zone.
+ * Date-only values are already calendar dates and are returned unchanged.
+ * @param dateStr - Timestamp or date string from the database
+ * @param timeZone - IANA time zone of the user running the report
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function toLocalDate(dateStr: string, timeZone?: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return dateStr
+
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(dateStr))
+}
+
+function isDateInRange(localDate: string, startDate: string, endDate: string): boolean {
+  if (startDate && localDate < startDate) return false
+  if (endDate && localDate > endDate) return false
+  return true
+}
+
+function isInAgeRange(age: number, range: string): boolean {
+  switch (range) {
+    case '18-24': return age >= 18 && age <= 24
+    case '25-34': return age >= 25 && age <= 34
+    case '35-44': return age >= 35 && age <= 44
+    case '45-54': return age >= 45 && age <= 54
+    case '55-64': return age >= 55 && age <= 64
+    case '65+': return age >= 65
+    default: return true
+  }
+}
+
+/**
+ * Whether a person passes the report's demographic filters
+ * @param person - The person to check
+ * @param filters - Veteran, disability, chronic homelessness and age filters
+ */
+function matchesPersonFilters(person: ReportPerson, filters: ReportOptions['filters']): boolean {
+  if (filters.veteransOnly && !person.veteran_status) return false
+  if (filters.disabledOnly && !person.disability_status) return false
+  if (filters.chronicHomeless && !person.chronic_homeless) return false
+  if (filters.ageRange && !isInAgeRange(calculateAge(person.date_of_birth), filters.ageRange)) return false
+  return true
+}
+
+function countBy<T>(items: T[], getKey: (item: T) => string): Record<string, number> {
+  return items.reduce((acc, item) => {
+    const key = getKey(item)
+    acc[key] = (acc[key] || 0) + 1
+    return acc
+  }, {} as Record<string, number>)
+}
+
+/**
+ * Select the persons, encounters and exit episodes a report covers
+ * @param input - Persons, encounters and enrollment episodes to report on
+ * @param options - Date range, time zone and demographic filters
+ */
+function selectReportRows(input: ReportInput, options: ReportOptions) {
+  const { persons, encounters, enrollments } = input
+  const { startDate, endDate, timeZone, filters } = options
+
+  // Filter encounters by date range FIRST, using the calendar date the
+  // encounter happened on in the user's time zone
+  let filteredEncounters = encounters.filter(e =>
+    isDateInRange(toLocalDate(e.service_date, timeZone), startDate, endDate)
+  )
+
+  // Get unique person IDs from filtered encounters
+  const personIdsWithEncounters = new Set(filteredEncounters.map(e => e.person_id))
+
+  // Enrollment episodes that exited in the date range. Each episode counts
+  // separately, so a client who exits twice in the range is an outflow twice.
+  const exitEpisodes = enrollments.filter(en => isExitInRange(en, startDate, endDate))
+
+  // Get person IDs with exits in the date range
+  const personIdsWithExits = new Set(exitEpisodes.map(en => en.person_id))
+
+  // Filter persons by demographics AND by whether they have encounters OR exits in the date range
+  const filteredPersons = persons.filter(p =>
+    (personIdsWithEncounters.has(p.id) || personIdsWithExits.has(p.id)) &&
+    matchesPersonFilters(p, filters)
+  )
+
+  // Filter encounters to only include those for the filtered persons
+  const filteredPersonIds = new Set(filteredPersons.map(p => p.id))
+  filteredEncounters = filteredEncounters.filter(e => filteredPersonIds.has(e.person_id))
+
+  // Active persons = those with an open enrollment episode (for By-Name List)
+  const openEpisodePersonIds = new Set(
+    enrollments.filter(en => !en.exit_date).map(en => en.person_id)
+  )
+  const activePersons = filteredPersons.filter(p => openEpisodePersonIds.has(p.id))
+
+  return { filteredPersons, filteredEncounters, activePersons, exitEpisodes }
+}
+
+/**
+ * Count the filtered persons by each selected demographic
+ * @param persons - Persons included in the report
+ * @param selected - Demographic breakdowns to compute
+ */
+function buildDemographicBreakdowns(
+  persons: ReportPerson[],
+  selected: DemographicBreakdown[]
+): Partial<Record<DemographicBreakdown, Record<string, number>>> {
+  const breakdowns: Partial<Record<DemographicBreakdown, Record<string, number>>> = {}
+
+  for (const key of DEMOGRAPHIC_BREAKDOWNS) {
+    if (!selected.includes(key)) continue
+
+    switch (key) {
+      case 'race':
+        breakdowns.race = countBy(persons, p => p.race || 'Unknown')
+        break
+      case 'ethnicity':
+        breakdowns.ethnicity = countBy(persons, p => p.ethnicity || 'Unknown')
+        break
+      case 'gender':
+        breakdowns.gender = countBy(persons, p => p.gender || 'Unknown')
+        break
+      case 'sexualOrientation':
+        breakdowns.sexualOrientation = countBy(persons, p => p.sexual_orientation || 'Not specified')
+        break
+      case 'ageRange': {
+        const ageBreakdown = Object.fromEntries(AGE_RANGES.map(range => [range, 0])) as Record<string, number>
+        persons.forEach(p => {
+          const age = calculateAge(p.date_of_birth)
+          const range = AGE_RANGES.find(r => age >= 18 && isInAgeRange(age, r))
+          if (range) ageBreakdown[range]++
+        })
+        breakdowns.ageRange = ageBreakdown
+        break
+      }
+      case 'veteranStatus':
+        breakdowns.veteranStatus = {
+          'Veteran': persons.filter(p => p.veteran_status).length,
+          'Non-Veteran': persons.filter(p => !p.veteran_status).length,
+        }
+        break
+      case 'disabilityStatus':
+        breakdowns.disabilityStatus = {
+          'Has Disability': persons.filter(p => p.disability_status).length,
+          'No Disability': persons.filter(p => !p.disability_status).length,
+        }
+        break
+      case 'livingSituation':
+        breakdowns.livingSituation = countBy(persons, p => p.living_situation || 'Unknown')
+        break
+    }
+  }
+
+  return breakdowns
+}
+
+/**
+ * Generate a custom report. Returns aggregate metrics and breakdowns plus the
+ * CSV rows for download; row-level client and encounter lists are only
+ * included for the by-name list and interactions detail sections.
+ * @param input - Persons, encounters, status changes and enrollment episodes
+ * @param options - Selected metrics, breakdowns, filters and date range
+ * @returns The generated report
+ */
+export function generateReport(input: ReportInput, options: ReportOptions): GeneratedReport {
+  const { persons, statusChanges } = input
+  const { startDate, endDate, timeZone } = options
+  const metrics = new Set(options.metrics)
+
+  const { filteredPersons, filteredEncounters, activePersons, exitEpisodes } =
+    selectReportRows(input, options)
+
+  // Calculate metrics from filtered data
+  const clientsServed = filteredPersons.length
+  const householdsServed = countHouseholds(filteredPersons.map(p => p.id), input.householdMemberships)
+
+  const totalInteractions = filteredEncounters.length
+  const naloxoneDistributed = filteredEncounters.filter(e => hasService(e, NALOXONE_SERVICE)).length
+  const fentanylTestStrips = filteredEncounters.reduce(
+    (sum, e) => sum + serviceQuantity(e, FENTANYL_STRIPS_SERVICE),
+    0
+  )
+  const servicesProvided = summarizeServices(filteredEncounters, input.services)
+  const sites = summarizeSites(filteredEncounters, input.sites)
+  const matReferrals = filteredEncounters.filter(e => e.mat_referral).length
+  const detoxReferrals = filteredEncounters.filter(e => e.detox_referral).length
+  const totalReferrals = matReferrals + detoxReferrals
+
+  // Outcomes of the referrals made during the report's interactions
+  const filteredEncounterIds = new Set(filteredEncounters.map(e => e.id))
+  const referralOutcomes = summarizeReferrals(
+    input.referrals.filter(r => filteredEncounterIds.has(r.encounter_id))
+  )
+
+  const personsById = new Map(persons.map(p => [p.id, p]))
+
+  // Count unique persons who have at least one high utilizer encounter
+  const highUtilizerPersonIds = new Set(
+    filteredEncounters
+      .filter(e => e.high_utilizer_contact)
+      .map(e => e.person_id)
+  )
+  const highUtilizerContacts = highUtilizerPersonIds.size
+
+  // Build details for high utilizers with person info and encounter count
+  const highUtilizerDetails = Array.from(highUtilizerPersonIds).map(personId => {
+    const person = personsById.get(personId)
+    const encounterCount = filteredEncounters.filter(e => e.person_id === personId && e.high_utilizer_contact).length
+    return {
+      person_id: personId,
+      person_name: person ? `${person.first_name} ${person.last_name}` : 'Unknown',
+      client_id: person?.client_id || 'Unknown',
+      encounter_count: encounterCount,
+    }
+  }).sort((a, b) => b.encounter_count - a.encounter_count)
+
+  // Exits in the date range, one record per episode with that episode's
+  // exit date and destination
+  const filteredPersonsById = new Map(filteredPersons.map(p => [p.id, p]))
+  const personsWithExits = exitEpisodes.flatMap(en => {
+    const person = filteredPersonsById.get(en.person_id)
+    if (!person || !en.exit_destination) return []
+    return [{
+      ...person,
+      exit_date: en.exit_date,
+      exit_destination: en.exit_destination,
+      exit_notes: en.exit_notes,
+    }]
+  })
+
+  // Calculate housing placements from program exits to permanent housing
+  const permanentHousingDestinations = EXIT_DESTINATIONS['Permanent Housing'] as readonly string[]
+  const housingPlacements = personsWithExits.filter(p =>
+    permanentHousingDestinations.includes(p.exit_destination)
+  ).length
+
+  const programExits = personsWithExits.length
+
+  // Calculate returned to active from status_changes
+  const returnedToActiveRecords = statusChanges.filter(sc =>
+    sc.change_type === 'return_to_active' &&
+    isDateInRange(toLocalDate(sc.change_date, timeZone), startDate, endDate)
+  )
+  const returnedToActive = returnedToActiveRecords.length
+
+  // Build details for returned to active with person info
+  const returnedToActiveDetails = returnedToActiveRecords.map(sc => {
+    const person = personsById.get(sc.person_id)
+    return {
+      person_id: sc.person_id,
+      person_name: person ? `${person.first_name} ${person.last_name}` : 'Unknown',
+      client_id: person?.client_id || 'Unknown',
+      return_date: sc.change_date,
+      notes: sc.notes || null,
+    }
+  }).sort((a, b) => new Date(b.return_date).getTime() - new Date(a.return_date).getTime())
+
+  const exitsByCategory = Object.entries(EXIT_DESTINATIONS).reduce((acc, [category, destinations]) => {
+    const categoryDestinations: Record<string, number> = {}
+    let categoryTotal = 0
+
+    destinations.forEach(destination => {
+      const count = personsWithExits.filter(p => p.exit_destination === destination).length
+      if (count > 0) {
+        categoryDestinations[destination] = count
+        categoryTotal += count
+      }
+    })
+
+    if (categoryTotal > 0) {
+      acc[category] = {
+        total: categoryTotal,
+        destinations: categoryDestinations
+      }
+    }
+
+    return acc
+  }, {} as Record<string, { total: number, destinations: Record<string, number> }>)
+
+  // Build referral breakdown
+  const matByProvider = countBy(
+    filteredEncounters.filter(e => e.mat_referral && e.mat_provider),
+    e => e.mat_provider || 'Unknown'
+  )
+
+  const detoxByProvider = countBy(
+    filteredEncounters.filter(e => e.detox_referral && e.detox_provider),
+    e => e.detox_provider || 'Unknown'
+  )
+
+  // Calculate placements
+  const placementsMade = filteredEncounters.filter(e => e.placement_made).length
+
+  // Calculate refused shelter
+  const refusedShelter = filteredEncounters.filter(e => e.refused_shelter).length
+
+  // Calculate inflows (enrollment episodes started in date range, including returns)
+  const inflowPersons = input.enrollments
+    .filter(en => isEntryInRange(en, startDate, endDate))
+    .flatMap(en => {
+      const person = personsById.get(en.person_id)
+      return person ? [{ ...person, enrollment_date: en.entry_date }] : []
+    })
+
+  // Calculate outflows (exits to housed/sheltered/detox)
+  const permanentHousingDests = [
+    'Owned by client, no ongoing subsidy',
+    'Owned by client, with ongoing subsidy (mortgage, VA, etc.)',
+    'Rental by client, no ongoing subsidy',
+    'Rental by client, with VASH subsidy',
+    'Rental by client, with other ongoing housing subsidy (HCV, public housing, CoC-RRH, etc.)',
+    'Permanent housing for formerly homeless persons (CoC, ESG, or other funding)',
+    'Staying or living with family, permanent tenure',
+    'Staying or living with friends, permanent tenure',
+  ]
+  const shelterDests = [
+    'Emergency shelter (including hotel/motel paid for with voucher)',
+    'Transitional housing for homeless persons (including youth)',
+    'Staying or living with family, temporary tenure',
+    'Staying or living with friends, temporary tenure',
+    'Hotel or motel paid for without emergency shelter voucher',
+    'Foster care home or foster care group home',
+    'Residential project or halfway house with no homeless criteria (e.g., sober living)',
+    'Safe Haven',
+  ]
+  const detoxDests = ['Substance abuse treatment facility or detox center']
+
+  const outflowHoused = personsWithExits.filter(p => p.exit_destination && permanentHousingDests.includes(p.exit_destination))
+  const outflowSheltered = personsWithExits.filter(p => p.exit_destination && shelterDests.includes(p.exit_destination))
+  const outflowDetox = personsWithExits.filter(p => p.exit_destination && detoxDests.includes(p.exit_destination))
+
+  // Housing pipelines of clients matching the filters, whether or not they
+  // had an interaction in the date range
+  const housingPipeline = summarizePipelines(
+    input.housingPipelines.filter(pl => {
+      const person = personsById.get(pl.person_id)
+      return !!person && matchesPersonFilters(person, options.filters)
+    }),
+    date => isDateInRange(date, startDate, endDate)
+  )
+
+  // Income at entry vs. exit for episodes of matching clients that ended in
+  // the date range
+  const incomeChange = summarizeIncomeChange(
+    exitEpisodes.filter(en => filteredPersonsById.has(en.person_id)),
+    groupSourcesByPerson(input.incomeSources)
+  )
+
+  // Case plan goals of clients matching the filters, set or closed in the
+  // date range
+  const caseGoals = summarizeCaseGoals(
+    input.caseGoals.filter(goal => {
+      const person = personsById.get(goal.person_id)
+      return !!person && matchesPersonFilters(person, options.filters)
+    }),
+    date => isDateInRange(date, startDate, endDate)
+  )
+
+  // Placement breakdown by location
+  const placementsByLocation = countBy(
+    filteredEncounters.filter(e => e.placement_made),
+    e => e.placement_location === 'Other'
+      ? (e.placement_location_other || 'Other')
+      : (e.placement_location || 'Unknown')
+  )
+
+  const demographics = buildDemographicBreakdowns(filteredPersons, options.demographics)
+
+  // Build custom report data
+  const reportData: Record<string, unknown>[] = []
+
+  // Add report metadata using same column structure as metrics
+  reportData.push({
+    'Metric': '=== REPORT INFORMATION ===',
+    'Value': '',
+    'Description': '',
+  })
+  reportData.push({
+    'Metric': 'Report Type',
+    'Value': 'Custom Data Report',
+    'Description': '',
+  })
+  reportData.push({
+    'Metric': 'Generated',
+    'Value': new Date().toISOString(),
+    'Description': '',
+  })
+  // Determine date range text
+  let dateRangeText = 'All Time'
+  if (startDate && endDate) {
+    dateRangeText = `${startDate} to ${endDate}`
+  } else if (startDate) {
+    dateRangeText = `From ${startDate}`
+  } else if (endDate) {
+    dateRangeText = `Up to ${endDate}`
+  }
+
+  reportData.push({
+    'Metric': 'Date Range',
+    'Value': dateRangeText,
+    'Description': '',
+  })
+  reportData.push({
+    'Metric': '',
+    'Value': '',
+    'Description': '',
+  })
+  reportData.push({
+    'Metric': '=== METRICS ===',
+    'Value': '',
+    'Description': '',
+  })
+
+  // Add selected metrics
+  if (metrics.has('clientsServed')) {
+    reportData.push({
+      'Metric': 'Clients Served',
+      'Value': clientsServed,
+      'Description': 'Unduplicated individuals',
+    })
+  }
+
+  if (metrics.has('householdsServed')) {
+    reportData.push({
+      'Metric': 'Households Served',
+      'Value': householdsServed,
+      'Description': 'Unduplicated households (individuals count as their own household)',
+    })
+  }
+
+  if (metrics.has('serviceInteractions')) {
+    reportData.push({
+      'Metric': 'Service Interactions',
+      'Value': totalInteractions,
+      'Description': 'Total encounters',
+    })
+  }
+
+  if (metrics.has('naloxone')) {
+    reportData.push({
+      'Metric': 'Naloxone Distributed',
+      'Value': naloxoneDistributed,
+      'Description': 'Kits given out',
+    })
+  }
+
+  if (metrics.has('fentanylStrips')) {
+    reportData.push({
+      'Metric': 'Fentanyl Test Strips',
+      'Value': fentanylTestStrips,
+      'Description': 'Total distributed',
+    })
+  }
+
+  if (metrics.has('servicesProvided')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Services Provided',
+      'Value': '',
+      'Description': '',
+    })
+    servicesProvided.forEach(total => {
+      reportData.push({
+        'Metric': `  ${total.name}`,
+        'Value': total.encounters,
+        'Description': total.unit ? `${total.quantity} ${total.unit}` : 'Interactions',
+      })
+    })
+  }
+
+  if (metrics.has('siteBreakdown')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Interactions by Site',
+      'Value': '',
+      'Description': '',
+    })
+    sites.forEach(total => {
+      reportData.push({
+        'Metric': `  ${total.name}`,
+        'Value': total.interactions,
+        'Description': `${total.clients} unduplicated clients`,
+      })
+    })
+  }
+
+  if (metrics.has('totalReferrals')) {
+    reportData.push({
+      'Metric': 'Total Referrals',
+      'Value': totalReferrals,
+      'Description': `MAT: ${matReferrals}, Detox: ${detoxReferrals}`,
+    })
+  }
+
+  if (metrics.has('highUtilizerCount')) {
+    reportData.push({
+      'Metric': 'High Utilizers',
+      'Value': highUtilizerContacts,
+      'Description': 'Unique individuals marked as high utilizers',
+    })
+  }
+
+  if (metrics.has('referralBreakdown')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'MAT Referrals by Provider',
+      'Value': '',
+      'Description': '',
+    })
+    Object.entries(matByProvider).forEach(([provider, count]) => {
+      reportData.push({
+        'Metric': `  ${provider}`,
+        'Value': count,
+        'Description': '',
+      })
+    })
+
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Detox Referrals by Provider',
+      'Value': '',
+      'Description': '',
+    })
+    Object.entries(detoxByProvider).forEach(([provider, count]) => {
+      reportData.push({
+        'Metric': `  ${provider}`,
+        'Value': count,
+        'Description': '',
+      })
+    })
+  }
+
+  if (metrics.has('referralOutcomes')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Referral Outcomes',
+      'Value': '',
+      'Description': '',
+    })
+    referralOutcomes.forEach(summary => {
+      reportData.push({
+        'Metric': `  ${REFERRAL_TYPE_LABELS[summary.referral_type]} referrals`,
+        'Value': summary.total,
+        'Description': `${summary.attendedRate}% attended, ${summary.acceptedRate}% accepted or attended`,
+      })
+      REFERRAL_STATUSES.forEach(status => {
+        reportData.push({
+          'Metric': `    ${REFERRAL_STATUS_LABELS[status]}`,
+          'Value': summary.byStatus[status],
+          'Description': '',
+        })
+      })
+    })
+  }
+
+  if (metrics.has('inflows')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '=== INFLOWS ===',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Total Inflows',
+      'Value': inflowPersons.length,
+      'Description': 'Newly enrolled clients in date range',
+    })
+    if (inflowPersons.length > 0) {
+      reportData.push({
+        'Metric': 'Inflow Details',
+        'Value': '',
+        'Description': '',
+      })
+      inflowPersons.slice(0, 50).forEach(p => {
+        reportData.push({
+          'Metric': `  ${p.first_name} ${p.last_name}`,
+          'Value': p.client_id,
+          'Description': `Enrolled: ${toLocalDate(p.enrollment_date, timeZone)}`,
+        })
+      })
+    }
+  }
+
+  if (metrics.has('outflows')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '=== OUTFLOWS ===',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Total Outflows',
+      'Value': outflowHoused.length + outflowSheltered.length + outflowDetox.length,
+      'Description': 'Exits to housing, shelter, or detox',
+    })
+    reportData.push({
+      'Metric': '  Housed',
+      'Value': outflowHoused.length,
+      'Description': 'Exits to permanent housing',
+    })
+    reportData.push({
+      'Metric': '  Sheltered',
+      'Value': outflowSheltered.length,
+      'Description': 'Exits to shelter/transitional',
+    })
+    reportData.push({
+      'Metric': '  Detox',
+      'Value': outflowDetox.length,
+      'Description': 'Exits to detox/treatment',
+    })
+    if (outflowHoused.length + outflowSheltered.length + outflowDetox.length > 0) {
+      reportData.push({
+        'Metric': 'Outflow Details',
+        'Value': '',
+        'Description': '',
+      })
+      ;[...outflowHoused, ...outflowSheltered, ...outflowDetox].slice(0, 50).forEach(p => {
+        reportData.push({
+          'Metric': `  ${p.first_name} ${p.last_name}`,
+          'Value': p.client_id,
+          'Description': `${p.exit_destination?.split('(')[0].trim() || 'Unknown'} - ${toLocalDate(p.exit_date!, timeZone)}`,
+        })
+      })
+    }
+  }
+
+  if (metrics.has('housingPlacements')) {
+    reportData.push({
+      'Metric': 'Housing Placements',
+      'Value': housingPlacements,
+      'Description': 'Permanent housing',
+    })
+  }
+
+  if (metrics.has('housingPipeline')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Housing Pipeline',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '  Pipelines Started',
+      'Value': housingPipeline.started,
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '  Moved In',
+      'Value': housingPipeline.movedIn,
+      'Description': 'Exited to permanent housing from the pipeline',
+    })
+    reportData.push({
+      'Metric': '  Average Days to Housing',
+      'Value': housingPipeline.averageDaysToHousing ?? '',
+      'Description': `Median: ${housingPipeline.medianDaysToHousing ?? 'n/a'}`,
+    })
+    housingPipeline.stageDurations.forEach(duration => {
+      reportData.push({
+        'Metric': `  Days to ${HOUSING_STAGE_LABELS[duration.stage]}`,
+        'Value': duration.averageDays ?? '',
+        'Description': `Average from previous stage, ${duration.count} reached`,
+      })
+    })
+    housingPipeline.openByStage.forEach(open => {
+      reportData.push({
+        'Metric': `  Open: ${open.stage === 'started' ? 'Not yet document-ready' : HOUSING_STAGE_LABELS[open.stage]}`,
+        'Value': open.count,
+        'Description': 'Currently waiting in this stage',
+      })
+    })
+  }
+
+  if (metrics.has('incomeChange')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Income Change (Entry to Exit)',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '  Leavers',
+      'Value': incomeChange.leavers,
+      'Description': 'Enrollment episodes that ended in the period',
+    })
+    reportData.push({
+      'Metric': '  With Income at Entry',
+      'Value': incomeChange.withIncomeAtEntry,
+      'Description': `Average: $${incomeChange.averageIncomeAtEntry ?? 0}/month`,
+    })
+    reportData.push({
+      'Metric': '  With Income at Exit',
+      'Value': incomeChange.withIncomeAtExit,
+      'Description': `Average: $${incomeChange.averageIncomeAtExit ?? 0}/month`,
+    })
+    reportData.push({
+      'Metric': '  Increased Total Income',
+      'Value': incomeChange.increasedTotal,
+      'Description': `${incomeChange.maintained} maintained, ${incomeChange.decreased} decreased`,
+    })
+    reportData.push({
+      'Metric': '  Increased Earned Income',
+      'Value': incomeChange.increasedEarned,
+      'Description': 'Employment',
+    })
+    reportData.push({
+      'Metric': '  Increased Other Income',
+      'Value': incomeChange.increasedOther,
+      'Description': 'Benefits and other cash income',
+    })
+  }
+
+  if (metrics.has('caseGoals')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Case Plan Goals',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '  Goals Set',
+      'Value': caseGoals.set,
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '  Goals Achieved',
+      'Value': caseGoals.achieved,
+      'Description': `${caseGoals.abandoned} abandoned`,
+    })
+    reportData.push({
+      'Metric': '  Average Days to Achieve',
+      'Value': caseGoals.averageDaysToAchieve ?? '',
+      'Description': 'From the day the goal was set',
+    })
+    reportData.push({
+      'Metric': '  Active Goals',
+      'Value': caseGoals.active,
+      'Description': 'Still being worked on',
+    })
+    caseGoals.byType.forEach(row => {
+      reportData.push({
+        'Metric': `  ${CASE_GOAL_TYPE_LABELS[row.goal_type]}`,
+        'Value': row.achieved,
+        'Description': `Achieved, of ${row.set} set`,
+      })
+    })
+  }
+
+  if (metrics.has('placements')) {
+    reportData.push({
+      'Metric': 'Placements Made',
+      'Value': placementsMade,
+      'Description': 'Total placements to programs/shelters',
+    })
+
+    if (Object.keys(placementsByLocation).length > 0) {
+      reportData.push({
+        'Metric': '',
+        'Value': '',
+        'Description': '',
+      })
+      reportData.push({
+        'Metric': 'Placements by Location',
+        'Value': '',
+        'Description': '',
+      })
+      Object.entries(placementsByLocation)
+        .sort(([, a], [, b]) => b - a)
+        .forEach(([location, count]) => {
+          reportData.push({
+            'Metric': `  ${location}`,
+            'Value': count,
+            'Description': '',
+          })
+        })
+    }
+  }
+
+  if (metrics.has('refusedShelter')) {
+    reportData.push({
+      'Metric': 'Refused Shelter',
+      'Value': refusedShelter,
+      'Description': 'Clients who declined shelter placement',
+    })
+  }
+
+  if (metrics.has('returnedToActive')) {
+    reportData.push({
+      'Metric': 'Returned to Active',
+      'Value': returnedToActive,
+      'Description': 'Previously exited clients who returned',
+    })
+  }
+
+  // Export by-name list if selected
+  if (metrics.has('byNameList')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '=== ACTIVE BY-NAME LIST ===',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Total Active Clients',
+      'Value': activePersons.length,
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Veterans',
+      'Value': activePersons.filter(p => p.veteran_status).length,
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Chronically Homeless',
+      'Value': activePersons.filter(p => p.chronic_homeless).length,
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'With Disability',
+      'Value': activePersons.filter(p => p.disability_status).length,
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Client ID',
+      'Value': 'First Name',
+      'Description': 'Last Name',
+      'Age': 'Age',
+      'Gender': 'Gender',
+      'Veteran': 'Veteran',
+      'Chronic Homeless': 'Chronic Homeless',
+      'Enrollment Date': 'Enrollment Date',
+    })
+    activePersons.forEach(p => {
+      reportData.push({
+        'Metric': p.client_id,
+        'Value': p.first_name,
+        'Description': p.last_name,
+        'Age': calculateAge(p.date_of_birth),
+        'Gender': p.gender,
+        'Veteran': p.veteran_status ? 'Yes' : 'No',
+        'Chronic Homeless': p.chronic_homeless ? 'Yes' : 'No',
+        'Enrollment Date': p.enrollment_date,
+      })
+    })
+  }
+
+  // Export interactions detail if selected
+  if (metrics.has('interactionsDetail')) {
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': '=== SERVICE INTERACTIONS DETAIL ===',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': 'Service Date',
+      'Value': 'Client ID',
+      'Description': 'Location',
+      'Outreach Worker': 'Outreach Worker',
+      'MAT Referral': 'MAT Referral',
+      'Detox Referral': 'Detox Referral',
+      'Naloxone': 'Naloxone',
+      'Fentanyl Strips': 'Fentanyl Strips',
+    })
+    filteredEncounters.forEach(e => {
+      reportData.push({
+        'Metric': e.service_date,
+        'Value': e.person_id,
+        'Description': e.outreach_location,
+        'Outreach Worker': e.outreach_worker,
+        'MAT Referral': e.mat_referral ? 'Yes' : 'No',
+        'Detox Referral': e.detox_referral ? 'Yes' : 'No',
+        'Naloxone': hasService(e, NALOXONE_SERVICE) ? 'Yes' : 'No',
+        'Fentanyl Strips': serviceQuantity(e, FENTANYL_STRIPS_SERVICE),
+      })
+    })
+  }
+
+  // Export demographic breakdowns if selected
+  for (const key of DEMOGRAPHIC_BREAKDOWNS) {
+    const breakdown = demographics[key]
+    if (!breakdown) continue
+
+    reportData.push({
+      'Metric': '',
+      'Value': '',
+      'Description': '',
+    })
+    reportData.push({
+      'Metric': `=== BREAKDOWN BY ${DEMOGRAPHIC_TITLES[key]} ===`,
+      'Value': '',
+      'Description': '',
+    })
+    Object.entries(breakdown).forEach(([label, count]) => {
+      reportData.push({
+        'Metric': label,
+        'Value': count,
+        'Description': '',
+      })
+    })
+  }
+
+  return {
+    reportData,
+    metadata: {
+      generated: new Date().toISOString(),
+      dateRange: dateRangeText,
+      startDate,
+      endDate,
+    },
+    metrics: {
+      clientsServed,
+      householdsServed,
+      totalInteractions,
+      naloxoneDistributed,
+      fentanylTestStrips,
+      totalReferrals,
+      matReferrals,
+      detoxReferrals,
+      housingPlacements,
+      placementsMade,
+      refusedShelter,
+      highUtilizerContacts,
+      programExits,
+      returnedToActive,
+    },
+    breakdowns: {
+      matByProvider,
+      detoxByProvider,
+      referralOutcomes,
+      placementsByLocation,
+      servicesProvided,
+      sites,
+      housingPipeline,
+      incomeChange,
+      caseGoals,
+      exitsByCategory,
+      returnedToActiveDetails,
+      highUtilizerDetails,
+      demographics,
+    },
+    activePersons: metrics.has('byNameList') ? activePersons : [],
+    filteredEncounters: metrics.has('interactionsDetail') ? filteredEncounters : [],
+  }
+}
+
+/**
+ * Get the client or encounter list behind one of the report's metric cards
+ * @param input - Persons, encounters, status changes and enrollment episodes
+ * @param options - The options the report was generated with
+ * @param type - Which metric to list
+ * @returns Matching encounters and the persons they belong to
+ */
+export function getReportDetails(
+  input: ReportInput,
+  options: ReportOptions,
+  type: ReportDetailType
+): ReportDetails {
+  const { filteredPersons, filteredEncounters } = selectReportRows(input, options)
+
+  if (type === 'clientsServed') {
+    return { persons: filteredPersons, encounters: [] }
+  }
+
+  const encounters = filteredEncounters.filter(e => {
+    switch (type) {
+      case 'naloxone': return hasService(e, NALOXONE_SERVICE)
+      case 'fentanylStrips': return serviceQuantity(e, FENTANYL_STRIPS_SERVICE) > 0
+      case 'refusedShelter': return !!e.refused_shelter
+      default: return true
+    }
+  })
+  const personIds = new Set(encounters.map(e => e.person_id))
+
+  return {
+    persons: filteredPersons.filter(p => personIds.has(p.id)),
+    encounters,
+  }
+}
@@ -0,0 +1,465 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from 'pdf-lib'
+import type { DemographicBreakdown, ReportMetric, ReportOptions, ReportPdfCover } from '@/lib/schemas/report-schema'
+import { REFERRAL_STATUSES, REFERRAL_STATUS_LABELS, REFERRAL_TYPE_LABELS } from '@/lib/schemas/referral-schema'
+import { HOUSING_STAGE_LABELS } from '@/lib/schemas/housing-schema'
+import { CASE_GOAL_TYPE_LABELS } from '@/lib/schemas/case-plan-schema'
+import type { GeneratedReport } from '@/lib/utils/report-engine'
+
+// US Letter in points
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const HEADER_HEIGHT = 40
+const FOOTER_HEIGHT = 30
+
+const COLORS = {
+  brand: rgb(0.118, 0.251, 0.686), // #1e40af
+  text: rgb(0.067, 0.094, 0.153),
+  muted: rgb(0.42, 0.447, 0.502),
+  border: rgb(0.82, 0.835, 0.859),
+  cardFill: rgb(0.937, 0.965, 1),
+  bar: rgb(0.145, 0.388, 0.922),
+  barAlt: rgb(0.086, 0.639, 0.29),
+}
+
+const METRIC_CARDS: Array<{
+  metric: ReportMetric
+  label: string
+  value: (report: GeneratedReport) => number
+  description: (report: GeneratedReport) => string
+}> = [
+  { metric: 'clientsServed', label: 'Clients Served', value: r => r.metrics.clientsServed, description: () => 'Unduplicated individuals' },
+  { metric: 'householdsServed', label: 'Households Served', value: r => r.metrics.householdsServed ?? 0, description: () => 'Individuals count as their own household' },
+  { metric: 'serviceInteractions', label: 'Service Interactions', value: r => r.metrics.totalInteractions, description: () => 'Total encounters' },
+  { metric: 'naloxone', label: 'Naloxone Distributed', value: r => r.metrics.naloxoneDistributed, description: () => 'Kits given out' },
+  { metric: 'fentanylStrips', label: 'Fentanyl Test Strips', value: r => r.metrics.fentanylTestStrips, description: () => 'Total distributed' },
+  { metric: 'totalReferrals', label: 'Total Referrals', value: r => r.metrics.totalReferrals, description: r => `MAT: ${r.metrics.matReferrals}, Detox: ${r.metrics.detoxReferrals}` },
+  { metric: 'housingPlacements', label: 'Housing Placements', value: r => r.metrics.housingPlacements, description: () => 'Exits to permanent housing' },
+  { metric: 'placements', label: 'Placements Made', value: r => r.metrics.placementsMade, description: () => 'Placements to programs/shelters' },
+  { metric: 'refusedShelter', label: 'Refused Shelter', value: r => r.metrics.refusedShelter, description: () => 'Declined shelter placement' },
+  { metric: 'highUtilizerCount', label: 'High Utilizers', value: r => r.metrics.highUtilizerContacts, description: () => 'Unique individuals' },
+  { metric: 'returnedToActive', label: 'Returned to Active', value: r => r.metrics.returnedToActive, description: () => 'Previously exited clients' },
+]
+
+const DEMOGRAPHIC_LABELS: Record<DemographicBreakdown, string> = {
+  race: 'Race',
+  ethnicity: 'Ethnicity',
+  gender: 'Gender',
+  sexualOrientation: 'Sexual Orientation',
+  ageRange: 'Age Range',
+  veteranStatus: 'Veteran Status',
+  disabilityStatus: 'Disability Status',
+  livingSituation: 'Living Situation',
+}
+
+// Breakdowns with a natural order keep it; the rest are sorted by count
+const ORDERED_DEMOGRAPHICS: DemographicBreakdown[] = ['ageRange', 'veteranStatus', 'disabilityStatus']
+
+/**
+ * Replace characters the standard PDF fonts can't encode (WinAnsi)
+ * @param text - Text to draw
+ */
+function pdfSafe(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+/**
+ * Split text into lines that fit a given width
+ * @param text - Text to wrap
+ * @param font - Font used to measure the text
+ * @param size - Font size
+ * @param maxWidth - Maximum line width in points
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.split(/\r?\n/).map(pdfSafe)) {
+    let line = ''
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
+
+/**
+ * Shorten text with an ellipsis so it fits a given width
+ */
+function truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let result = pdfSafe(text)
+  if (font.widthOfTextAtSize(result, size) <= maxWidth) return result
+  while (result.length > 1 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+    result = result.slice(0, -1)
+  }
+  return `${result}...`
+}
+
+/**
+ * Render a generated report as a formatted PDF funder report
+ * @param report - The generated report
+ * @param options - Options the report was generated with (selects sections)
+ * @param cover - Cover page settings
+ * @param logoPng - Program logo as PNG bytes, if available
+ * @returns The PDF file bytes
+ */
+export async function renderReportPdf(
+  report: GeneratedReport,
+  options: ReportOptions,
+  cover: ReportPdfCover,
+  logoPng?: Uint8Array | null
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(pdfSafe(cover.title))
+  pdf.setCreationDate(new Date(report.metadata.generated))
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const logo: PDFImage | null = logoPng ? await pdf.embedPng(logoPng) : null
+  const metrics = new Set(options.metrics)
+
+  let page: PDFPage
+  let y = 0
+
+  const text = (value: string, x: number, atY: number, size: number, useFont: PDFFont = font, color: RGB = COLORS.text) => {
+    page.drawText(pdfSafe(value), { x, y: atY, size, font: useFont, color })
+  }
+
+  const addPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+
+    // Running header with logo and report title
+    if (logo) {
+      const scaled = logo.scaleToFit(110, 24)
+      page.drawImage(logo, { x: MARGIN, y: PAGE_HEIGHT - MARGIN + 4 - scaled.height, ...scaled })
+    }
+    const title = truncate(cover.title, font, 9, CONTENT_WIDTH - 130)
+    text(title, PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(title, 9), PAGE_HEIGHT - MARGIN - 6, 9, font, COLORS.muted)
+    page.drawLine({
+      start: { x: MARGIN, y: PAGE_HEIGHT - MARGIN - HEADER_HEIGHT + 14 },
+      end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - MARGIN - HEADER_HEIGHT + 14 },
+      thickness: 0.5,
+      color: COLORS.border,
+    })
+
+    y = PAGE_HEIGHT - MARGIN - HEADER_HEIGHT
+  }
+
+  // Start a new page when the next block doesn't fit
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) addPage()
+  }
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(40)
+    y -= 8
+    text(title, MARGIN, y - 14, 14, bold, COLORS.brand)
+    y -= 28
+  }
+
+  // Horizontal bar chart drawn as static vector graphics
+  const barChart = (entries: Array<[string, number]>, color: RGB = COLORS.bar) => {
+    const max = Math.max(...entries.map(([, count]) => count), 1)
+    const labelWidth = 190
+    const barArea = CONTENT_WIDTH - labelWidth - 40
+    const rowHeight = 16
+
+    for (const [label, count] of entries) {
+      ensureSpace(rowHeight)
+      const barWidth = Math.max((count / max) * barArea, count > 0 ? 2 : 0)
+      text(truncate(label, font, 9, labelWidth - 8), MARGIN, y - 11, 9)
+      page.drawRectangle({ x: MARGIN + labelWidth, y: y - 13, width: barWidth, height: 11, color })
+      text(String(count), MARGIN + labelWidth + barWidth + 4, y - 11, 9, bold)
+      y -= rowHeight
+    }
+    y -= 6
+  }
+
+  // Two-column table with counts and percentage of total
+  const countTable = (entries: Array<[string, number]>) => {
+    const total = entries.reduce((sum, [, count]) => sum + count, 0)
+    const rowHeight = 16
+
+    ensureSpace(rowHeight * 2)
+    page.drawRectangle({ x: MARGIN, y: y - rowHeight, width: CONTENT_WIDTH, height: rowHeight, color: COLORS.cardFill })
+    text('Category', MARGIN + 6, y - 11, 9, bold)
+    text('Count', MARGIN + CONTENT_WIDTH - 130, y - 11, 9, bold)
+    text('Percent', MARGIN + CONTENT_WIDTH - 60, y - 11, 9, bold)
+    y -= rowHeight
+
+    for (const [label, count] of entries) {
+      ensureSpace(rowHeight)
+      text(truncate(label, font, 9, CONTENT_WIDTH - 150), MARGIN + 6, y - 11, 9)
+      text(String(count), MARGIN + CONTENT_WIDTH - 130, y - 11, 9)
+      text(total > 0 ? `${Math.round((count / total) * 100)}%` : '-', MARGIN + CONTENT_WIDTH - 60, y - 11, 9)
+      page.drawLine({
+        start: { x: MARGIN, y: y - rowHeight },
+        end: { x: MARGIN + CONTENT_WIDTH, y: y - rowHeight },
+        thickness: 0.5,
+        color: COLORS.border,
+      })
+      y -= rowHeight
+    }
+    y -= 10
+  }
+
+  // Cover page
+  if (cover.include_cover) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - 180
+
+    if (logo) {
+      const scaled = logo.scaleToFit(300, 90)
+      page.drawImage(logo, { x: (PAGE_WIDTH - scaled.width) / 2, y: y, ...scaled })
+      y -= 60
+    }
+
+    for (const line of wrapText(cover.title, bold, 26, CONTENT_WIDTH)) {
+      text(line, (PAGE_WIDTH - bold.widthOfTextAtSize(line, 26)) / 2, y, 26, bold, COLORS.brand)
+      y -= 34
+    }
+
+    const coverLines = [
+      cover.organization,
+      `Reporting period: ${report.metadata.dateRange}`,
+      cover.prepared_for ? `Prepared for: ${cover.prepared_for}` : null,
+      cover.prepared_by ? `Prepared by: ${cover.prepared_by}` : null,
+      `Generated: ${new Date(report.metadata.generated).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+    ].filter((line): line is string => !!line)
+
+    y -= 10
+    for (const line of coverLines) {
+      const safeLine = truncate(line, font, 13, CONTENT_WIDTH)
+      text(safeLine, (PAGE_WIDTH - font.widthOfTextAtSize(safeLine, 13)) / 2, y, 13, font, COLORS.muted)
+      y -= 22
+    }
+
+    if (cover.notes) {
+      y -= 30
+      for (const line of wrapText(cover.notes, font, 11, CONTENT_WIDTH - 60)) {
+        text(line, MARGIN + 30, y, 11)
+        y -= 16
+      }
+    }
+  }
+
+  addPage()
+
+  // Report summary
+  text(cover.include_cover ? 'Summary' : cover.title, MARGIN, y - 18, 18, bold)
+  text(`Reporting period: ${report.metadata.dateRange}`, MARGIN, y - 36, 10, font, COLORS.muted)
+  y -= 50
+
+  // Key metric cards
+  const cards = METRIC_CARDS.filter(card => metrics.has(card.metric))
+  if (report.metrics.programExits > 0) {
+    cards.push({ metric: 'outflows', label: 'Program Exits', value: r => r.metrics.programExits, description: () => 'Exits in this period' })
+  }
+
+  if (cards.length > 0) {
+    sectionTitle('Key Metrics')
+    const columns = 3
+    const gap = 10
+    const cardWidth = (CONTENT_WIDTH - gap * (columns - 1)) / columns
+    const cardHeight = 64
+
+    for (let i = 0; i < cards.length; i += columns) {
+      ensureSpace(cardHeight + gap)
+      cards.slice(i, i + columns).forEach((card, column) => {
+        const x = MARGIN + column * (cardWidth + gap)
+        page.drawRectangle({
+          x,
+          y: y - cardHeight,
+          width: cardWidth,
+          height: cardHeight,
+          color: COLORS.cardFill,
+          borderColor: COLORS.border,
+          borderWidth: 0.75,
+        })
+        text(card.label, x + 10, y - 16, 9, font, COLORS.muted)
+        text(String(card.value(report)), x + 10, y - 40, 22, bold, COLORS.brand)
+        text(truncate(card.description(report), font, 8, cardWidth - 20), x + 10, y - 55, 8, font, COLORS.muted)
+      })
+      y -= cardHeight + gap
+    }
+  }
+
+  // Services provided, in catalog order (runs saved before the service catalog have none)
+  const services = (report.breakdowns.servicesProvided || []).filter(total => total.encounters > 0)
+  if (metrics.has('servicesProvided') && services.length > 0) {
+    sectionTitle('Services Provided')
+    barChart(services.map(total => [total.name, total.encounters]))
+  }
+
+  // Interactions by site (runs saved before the site registry have none)
+  const sites = report.breakdowns.sites || []
+  if (metrics.has('siteBreakdown') && sites.length > 0) {
+    sectionTitle('Interactions by Site')
+    countTable(sites.map(total => [total.name, total.interactions]))
+  }
+
+  // Referral breakdown
+  if (metrics.has('referralBreakdown')) {
+    const mat = Object.entries(report.breakdowns.matByProvider).sort(([, a], [, b]) => b - a)
+    const detox = Object.entries(report.breakdowns.detoxByProvider).sort(([, a], [, b]) => b - a)
+    if (mat.length > 0 || detox.length > 0) {
+      sectionTitle('Referrals by Provider')
+      if (mat.length > 0) {
+        ensureSpace(20)
+        text('MAT', MARGIN, y - 10, 10, bold)
+        y -= 16
+        barChart(mat)
+      }
+      if (detox.length > 0) {
+        ensureSpace(20)
+        text('Detox', MARGIN, y - 10, 10, bold)
+        y -= 16
+        barChart(detox)
+      }
+    }
+  }
+
+  // Referral outcomes (runs saved before referrals were tracked have none)
+  const referralOutcomes = (report.breakdowns.referralOutcomes || []).filter(summary => summary.total > 0)
+  if (metrics.has('referralOutcomes') && referralOutcomes.length > 0) {
+    sectionTitle('Referral Outcomes')
+    for (const summary of referralOutcomes) {
+      ensureSpace(40)
+      text(
+        `${REFERRAL_TYPE_LABELS[summary.referral_type]} - ${summary.attendedRate}% attended, ${summary.acceptedRate}% accepted or attended`,
+        MARGIN, y - 10, 10, bold
+      )
+      y -= 16
+      countTable(REFERRAL_STATUSES.map(status => [REFERRAL_STATUS_LABELS[status], summary.byStatus[status]]))
+    }
+  }
+
+  // Placement breakdown
+  const placements = Object.entries(report.breakdowns.placementsByLocation).sort(([, a], [, b]) => b - a)
+  if (metrics.has('placements') && placements.length > 0) {
+    sectionTitle('Placements by Location')
+    barChart(placements, COLORS.barAlt)
+  }
+
+  // Housing pipeline (runs saved before pipelines were tracked have none)
+  const pipeline = report.breakdowns.housingPipeline
+  if (metrics.has('housingPipeline') && pipeline) {
+    sectionTitle('Housing Pipeline')
+    ensureSpace(20)
+    text(
+      `${pipeline.started} started, ${pipeline.movedIn} moved in - ` +
+        `average ${pipeline.averageDaysToHousing ?? '-'} days to housing (median ${pipeline.medianDaysToHousing ?? '-'})`,
+      MARGIN, y - 10, 10, bold
+    )
+    y -= 16
+
+    const stageDays = pipeline.stageDurations
+      .filter(duration => duration.averageDays !== null)
+      .map((duration): [string, number] => [`Days to ${HOUSING_STAGE_LABELS[duration.stage]}`, duration.averageDays as number])
+    if (stageDays.length > 0) {
+      barChart(stageDays)
+    }
+
+    if (pipeline.openByStage.length > 0) {
+      ensureSpace(20)
+      text('Open pipelines by current stage', MARGIN, y - 10, 10, bold)
+      y -= 16
+      countTable(pipeline.openByStage.map(open => [
+        open.stage === 'started' ? 'Not yet document-ready' : HOUSING_STAGE_LABELS[open.stage],
+        open.count,
+      ]))
+    }
+  }
+
+  // Income change (runs saved before income was tracked over time have none)
+  const incomeChange = report.breakdowns.incomeChange
+  if (metrics.has('incomeChange') && incomeChange) {
+    sectionTitle('Income Change (Entry to Exit)')
+    ensureSpace(20)
+    text(
+      `${incomeChange.leavers} leavers - average income $${incomeChange.averageIncomeAtEntry ?? 0}/month at entry, ` +
+        `$${incomeChange.averageIncomeAtExit ?? 0}/month at exit`,
+      MARGIN, y - 10, 10, bold
+    )
+    y -= 16
+    barChart([
+      ['With income at entry', incomeChange.withIncomeAtEntry],
+      ['With income at exit', incomeChange.withIncomeAtExit],
+      ['Increased total income', incomeChange.increasedTotal],
+      ['Increased earned income', incomeChange.increasedEarned],
+      ['Increased other income', incomeChange.increasedOther],
+      ['Maintained income', incomeChange.maintained],
+      ['Decreased income', incomeChange.decreased],
+    ])
+  }
+
+  // Case plan goals (runs saved before case plans were tracked have none)
+  const caseGoals = report.breakdowns.caseGoals
+  if (metrics.has('caseGoals') && caseGoals) {
+    sectionTitle('Case Plan Goals')
+    ensureSpace(20)
+    text(
+      `${caseGoals.set} set, ${caseGoals.achieved} achieved, ${caseGoals.abandoned} abandoned - ` +
+        `average ${caseGoals.averageDaysToAchieve ?? '-'} days to achieve`,
+      MARGIN, y - 10, 10, bold
+    )
+    y -= 16
+    if (caseGoals.byType.length > 0) {
+      barChart(caseGoals.byType.map((row): [string, number] => [`${CASE_GOAL_TYPE_LABELS[row.goal_type]} achieved`, row.achieved]))
+    }
+  }
+
+  // Exit breakdown by HUD destination category
+  const exitCategories = Object.entries(report.breakdowns.exitsByCategory)
+  if (exitCategories.length > 0) {
+    sectionTitle('Program Exits by Destination')
+    barChart(exitCategories.map(([category, data]) => [category, data.total]))
+
+    for (const [category, data] of exitCategories) {
+      ensureSpace(40)
+      text(category, MARGIN, y - 10, 10, bold)
+      y -= 16
+      countTable(Object.entries(data.destinations).sort(([, a], [, b]) => b - a))
+    }
+  }
+
+  // Demographic tables
+  const demographics = options.demographics.filter(key => report.breakdowns.demographics[key])
+  if (demographics.length > 0) {
+    sectionTitle('Demographics')
+    for (const key of demographics) {
+      const entries = Object.entries(report.breakdowns.demographics[key] || {})
+      if (!ORDERED_DEMOGRAPHICS.includes(key)) {
+        entries.sort(([, a], [, b]) => b - a)
+      }
+      ensureSpace(60)
+      text(DEMOGRAPHIC_LABELS[key], MARGIN, y - 10, 11, bold)
+      y -= 18
+      countTable(entries)
+    }
+  }
+
+  // Page numbers on every page after the cover
+  const pages = pdf.getPages()
+  const firstNumbered = cover.include_cover ? 1 : 0
+  pages.slice(firstNumbered).forEach((numberedPage, index) => {
+    const label = `Page ${index + 1} of ${pages.length - firstNumbered}`
+    numberedPage.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 8),
+      y: MARGIN - 20,
+      size: 8,
+      font,
+      color: COLORS.muted,
+    })
+  })
+
+  return pdf.save()
+}
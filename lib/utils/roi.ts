@@ -0,0 +1,150 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/client'
+import type { RoiFormData } from '@/lib/schemas/roi-schema'
+import { fetchAllRows } from '@/lib/utils/paginate'
+import { fetchMergedPersonIds, fetchSurvivorIds } from '@/lib/utils/person-merge'
+
+export interface ReleaseOfInformation {
+  id: string
+  person_id: string
+  recipients: string[]
+  effective_on: string
+  expires_on: string
+  signature: string
+  notes?: string | null
+  revoked_on?: string | null
+  revoked_reason?: string | null
+  revoked_by?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+// Where a client stands on consent, for the profile
+export type RoiStatus = 'active' | 'expired' | 'revoked' | 'none'
+
+function today(): string {
+  return format(new Date(), 'yyyy-MM-dd')
+}
+
+/**
+ * Whether a release is in effect on a date, optionally for one recipient
+ * @param roi - The release
+ * @param recipient - Agency the data would go to (any agency if omitted)
+ * @param asOf - Date to check (YYYY-MM-DD, defaults to today)
+ */
+export function isRoiActive(roi: ReleaseOfInformation, recipient?: string, asOf: string = today()): boolean {
+  if (roi.revoked_on && roi.revoked_on <= asOf) return false
+  if (roi.effective_on > asOf || roi.expires_on < asOf) return false
+  return !recipient || roi.recipients.includes(recipient)
+}
+
+/**
+ * Summarize a client's releases: active if any is in effect, otherwise
+ * whether the latest one expired or was revoked
+ * @param rois - The client's releases, newest first
+ */
+export function getRoiStatus(rois: ReleaseOfInformation[]): RoiStatus {
+  if (rois.length === 0) return 'none'
+  if (rois.some((roi) => isRoiActive(roi))) return 'active'
+  return rois[0].revoked_on ? 'revoked' : 'expired'
+}
+
+/**
+ * Load a client's releases, newest first. Releases signed on duplicates
+ * merged into this client are included.
+ * @param supabase - Supabase client (browser or server)
+ * @param personId - The person's UUID
+ */
+export async function fetchPersonRois(
+  supabase: SupabaseClient,
+  personId: string
+): Promise<ReleaseOfInformation[]> {
+  const personIds = await fetchMergedPersonIds(supabase, personId)
+
+  const { data, error } = await supabase
+    .from('releases_of_information')
+    .select('*')
+    .in('person_id', personIds)
+    .order('effective_on', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as ReleaseOfInformation[]
+}
+
+/**
+ * IDs of the clients whose data may be shared with a recipient today.
+ * Exports to partners must leave out everyone else.
+ * @param supabase - Supabase client (browser or server)
+ * @param recipient - Agency receiving the data
+ */
+export async function fetchConsentedPersonIds(
+  supabase: SupabaseClient,
+  recipient: string
+): Promise<Set<string>> {
+  const [rois, survivorIds] = await Promise.all([
+    fetchAllRows<ReleaseOfInformation>((from, to) =>
+      supabase
+        .from('releases_of_information')
+        .select('id, person_id, recipients, effective_on, expires_on, revoked_on')
+        .contains('recipients', [recipient])
+        .order('id')
+        .range(from, to)
+    ),
+    fetchSurvivorIds(supabase),
+  ])
+
+  // Releases signed on a merged-away duplicate cover the surviving record
+  return new Set(
+    rois
+      .filter((roi) => isRoiActive(roi, recipient))
+      .map((roi) => survivorIds.get(roi.person_id) || roi.person_id)
+  )
+}
+
+/**
+ * Record a signed release
+ * @param personId - The person's UUID
+ * @param data - Agencies, dates, signature and notes
+ */
+export async function saveRoi(personId: string, data: RoiFormData): Promise<ReleaseOfInformation> {
+  const supabase = createClient()
+
+  const { data: roi, error } = await supabase
+    .from('releases_of_information')
+    .insert({
+      person_id: personId,
+      recipients: data.recipients,
+      effective_on: data.effective_on,
+      expires_on: data.expires_on,
+      signature: data.signature,
+      notes: data.notes || null,
+    } as never)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return roi as ReleaseOfInformation
+}
+
+/**
+ * Withdraw a release at the client's request
+ * @param roiId - The release's UUID
+ * @param reason - Why it was revoked, if the client said
+ */
+export async function revokeRoi(roiId: string, reason: string): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { error } = await supabase
+    .from('releases_of_information')
+    .update({
+      revoked_on: today(),
+      revoked_reason: reason || null,
+      revoked_by: user?.email || 'Unknown',
+    } as never)
+    .eq('id', roiId)
+
+  if (error) throw error
+}
@@ -0,0 +1,82 @@
+import { createClient } from '@/lib/supabase/client'
+import type { ServiceCatalogFormData } from '@/lib/schemas/encounter-schema'
+import { fetchServiceCatalog, type ServiceCatalogItem } from '@/lib/utils/encounter-services'
+
+/**
+ * List every service in the catalog, retired ones included, in form order
+ */
+export async function listServiceCatalog(): Promise<ServiceCatalogItem[]> {
+  return fetchServiceCatalog(createClient())
+}
+
+/**
+ * Turn a service name into a catalog key, e.g. "Laundry Voucher" -> "laundry_voucher"
+ */
+export function toServiceKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+}
+
+/**
+ * Add a service to the end of its category
+ * @param data - Name, category, and quantity tracking
+ * @param sortOrder - Position within the category
+ */
+export async function addService(
+  data: ServiceCatalogFormData,
+  sortOrder: number
+): Promise<ServiceCatalogItem> {
+  const supabase = createClient()
+
+  const { data: service, error } = await supabase
+    .from('service_catalog')
+    .insert({
+      key: toServiceKey(data.name),
+      name: data.name,
+      category: data.category,
+      tracks_quantity: data.tracks_quantity,
+      unit: data.tracks_quantity ? data.unit || null : null,
+      sort_order: sortOrder,
+    } as never)
+    .select('id, key, name, category, tracks_quantity, unit, sort_order, retired_at')
+    .single()
+
+  if (error) throw error
+  return service as ServiceCatalogItem
+}
+
+/**
+ * Retire a service so it is no longer offered on the form, or bring it back.
+ * Past interactions keep the service and it stays in their reports.
+ * @param serviceId - The service's UUID
+ * @param retired - Whether the service should be retired
+ */
+export async function setServiceRetired(serviceId: string, retired: boolean): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('service_catalog')
+    .update({ retired_at: retired ? new Date().toISOString() : null } as never)
+    .eq('id', serviceId)
+
+  if (error) throw error
+}
+
+/**
+ * Save the order of the services in one category
+ * @param services - The category's services in their new order
+ */
+export async function reorderServices(services: ServiceCatalogItem[]): Promise<void> {
+  const supabase = createClient()
+
+  const results = await Promise.all(
+    services.map((service, index) =>
+      supabase
+        .from('service_catalog')
+        .update({ sort_order: index } as never)
+        .eq('id', service.id)
+    )
+  )
+
+  const failed = results.find((result) => result.error)
+  if (failed?.error) throw failed.error
+}
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import type { SiteFormData, SiteType } from '@/lib/schemas/site-schema'
+
+export interface Site {
+  id: string
+  name: string
+  site_type: SiteType
+  latitude: number
+  longitude: number
+  radius_meters: number
+  notes?: string | null
+  retired_at: string | null
+}
+
+export interface NearbySite {
+  site: Site
+  distanceMeters: number
+}
+
+// Interactions and unduplicated clients contacted at one site
+export interface SiteTotal {
+  site_id: string
+  name: string
+  site_type: SiteType
+  interactions: number
+  clients: number
+}
+
+const SITE_COLUMNS = 'id, name, site_type, latitude, longitude, radius_meters, notes, retired_at'
+
+const EARTH_RADIUS_METERS = 6371000
+
+/**
+ * Load every site, retired ones included, by name
+ * @param supabase - Supabase client (browser or server)
+ */
+export async function fetchSites(supabase: SupabaseClient): Promise<Site[]> {
+  const { data, error } = await supabase
+    .from('sites')
+    .select(SITE_COLUMNS)
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as Site[]
+}
+
+/**
+ * List every site, for the browser
+ */
+export async function listSites(): Promise<Site[]> {
+  return fetchSites(createClient())
+}
+
+/**
+ * Add a site to the registry
+ * @param data - Name, type, point and radius
+ */
+export async function addSite(data: SiteFormData): Promise<Site> {
+  const supabase = createClient()
+
+  const { data: site, error } = await supabase
+    .from('sites')
+    .insert({ ...data, notes: data.notes || null } as never)
+    .select(SITE_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return site as Site
+}
+
+/**
+ * Change a site's details
+ * @param siteId - The site's UUID
+ * @param data - Name, type, point and radius
+ */
+export async function updateSite(siteId: string, data: SiteFormData): Promise<Site> {
+  const supabase = createClient()
+
+  const { data: site, error } = await supabase
+    .from('sites')
+    .update({ ...data, notes: data.notes || null } as never)
+    .eq('id', siteId)
+    .select(SITE_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return site as Site
+}
+
+/**
+ * Retire a site so it is no longer suggested on the form, or bring it back.
+ * Past interactions keep the site and it stays in their reports.
+ * @param siteId - The site's UUID
+ * @param retired - Whether the site should be retired
+ */
+export async function setSiteRetired(siteId: string, retired: boolean): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('sites')
+    .update({ retired_at: retired ? new Date().toISOString() : null } as never)
+    .eq('id', siteId)
+
+  if (error) throw error
+}
+
+/**
+ * Great-circle distance between two points, in meters
+ */
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Find the closest active site whose radius covers a point
+ * @param sites - The site registry
+ * @param latitude - Latitude of the point
+ * @param longitude - Longitude of the point
+ * @returns The site and how far away it is, or null if no site covers the point
+ */
+export function findNearestSite(sites: Site[], latitude: number, longitude: number): NearbySite | null {
+  let nearest: NearbySite | null = null
+
+  for (const site of sites) {
+    if (site.retired_at) continue
+    const distance = distanceMeters(latitude, longitude, site.latitude, site.longitude)
+    if (distance <= site.radius_meters && (!nearest || distance < nearest.distanceMeters)) {
+      nearest = { site, distanceMeters: distance }
+    }
+  }
+
+  return nearest
+}
+
+/**
+ * Count interactions and unduplicated clients per site, busiest first
+ * @param encounters - Encounters to count (those without a site are skipped)
+ * @param sites - The site registry
+ */
+export function summarizeSites(
+  encounters: { person_id: string, site_id?: string | null }[],
+  sites: Site[]
+): SiteTotal[] {
+  return sites
+    .map((site) => {
+      const atSite = encounters.filter((e) => e.site_id === site.id)
+      return {
+        site_id: site.id,
+        name: site.name,
+        site_type: site.site_type,
+        interactions: atSite.length,
+        clients: new Set(atSite.map((e) => e.person_id)).size,
+      }
+    })
+    .filter((total) => total.interactions > 0)
+    .sort((a, b) => b.interactions - a.interactions || a.name.localeCompare(b.name))
+}
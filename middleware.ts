@@ -41,6 +41,16 @@ export async function middleware(request: NextRequest) {
     return supabaseResponse
   }
 
+  // Scheduled jobs have no session and authenticate with CRON_SECRET instead
+  if (['/api/reports/scheduled', '/api/duplicates/scan'].includes(request.nextUrl.pathname)) {
+    return supabaseResponse
+  }
+
+  // Calendar apps have no session; the feed URL carries a secret token instead
+  if (request.nextUrl.pathname.startsWith('/api/calendar/')) {
+    return supabaseResponse
+  }
+
   // Protect all other routes - require authentication
   if (!user) {
     return NextResponse.redirect(new URL('/login', request.url))
@@ -19,6 +19,8 @@ const nextConfig: NextConfig = {
   },
 };
 
+// next-pwa generates sw.js and bundles worker/index.js with a webpack plugin,
+// so production builds run with --webpack; Turbopack would emit no worker
 export default withPWA({
   dest: 'public',
   register: true,
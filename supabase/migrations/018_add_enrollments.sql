@@ -0,0 +1,235 @@
+-- Migration: Add enrollments table for program enrollment episodes
+-- Each row is one episode (entry through exit) so clients who exit, return
+-- and exit again keep the dates of every episode. The exit fields on persons
+-- are kept in sync from the latest episode for existing screens.
+
+CREATE TABLE IF NOT EXISTS enrollments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    project TEXT NOT NULL DEFAULT 'Street Outreach',
+    entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    exit_date DATE,
+    exit_destination TEXT,
+    exit_notes TEXT,
+    created_by TEXT, -- Email or name of user who opened the episode
+    exited_by TEXT, -- Email or name of user who closed the episode
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT enrollments_exit_after_entry CHECK (exit_date IS NULL OR exit_date >= entry_date)
+);
+
+-- Index for efficient queries by person
+CREATE INDEX idx_enrollments_person_id ON enrollments(person_id);
+
+-- Indexes for date range queries (inflow/outflow reporting)
+CREATE INDEX idx_enrollments_entry_date ON enrollments(entry_date);
+CREATE INDEX idx_enrollments_exit_date ON enrollments(exit_date);
+
+-- Only one open episode per person per project
+CREATE UNIQUE INDEX idx_enrollments_one_open_per_project
+    ON enrollments(person_id, project)
+    WHERE exit_date IS NULL;
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_enrollments_updated_at
+    BEFORE UPDATE ON enrollments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE enrollments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (same pattern as other tables)
+CREATE POLICY "Authenticated users can view all enrollments"
+    ON enrollments FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert enrollments"
+    ON enrollments FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update enrollments"
+    ON enrollments FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Reconstruct historic episodes from enrollment_date and status_changes.
+-- The first episode starts at the person's enrollment date, each exit closes
+-- the open episode and each return to active opens a new one.
+DO $$
+DECLARE
+    person_record RECORD;
+    change_record RECORD;
+    open_entry_date DATE;
+    has_changes BOOLEAN;
+BEGIN
+    FOR person_record IN
+        SELECT p.id, p.enrollment_date, p.exit_date, p.exit_destination, p.exit_notes
+        FROM persons p
+        WHERE NOT EXISTS (SELECT 1 FROM enrollments en WHERE en.person_id = p.id)
+    LOOP
+        open_entry_date := person_record.enrollment_date;
+        has_changes := FALSE;
+
+        FOR change_record IN
+            SELECT sc.change_type, sc.change_date, sc.exit_destination, sc.notes, sc.created_by
+            FROM status_changes sc
+            WHERE sc.person_id = person_record.id
+            ORDER BY sc.change_date, sc.created_at
+        LOOP
+            has_changes := TRUE;
+
+            IF change_record.change_type = 'exit' AND open_entry_date IS NOT NULL THEN
+                INSERT INTO enrollments (person_id, entry_date, exit_date, exit_destination, exit_notes, exited_by)
+                VALUES (
+                    person_record.id,
+                    open_entry_date,
+                    GREATEST(change_record.change_date, open_entry_date),
+                    change_record.exit_destination,
+                    change_record.notes,
+                    change_record.created_by
+                );
+                open_entry_date := NULL;
+            ELSIF change_record.change_type = 'return_to_active' AND open_entry_date IS NULL THEN
+                open_entry_date := change_record.change_date;
+            END IF;
+        END LOOP;
+
+        IF open_entry_date IS NOT NULL THEN
+            IF NOT has_changes AND person_record.exit_date IS NOT NULL THEN
+                -- Exits recorded before status_changes existed only live on the person
+                INSERT INTO enrollments (person_id, entry_date, exit_date, exit_destination, exit_notes)
+                VALUES (
+                    person_record.id,
+                    open_entry_date,
+                    GREATEST(person_record.exit_date, open_entry_date),
+                    person_record.exit_destination,
+                    person_record.exit_notes
+                );
+            ELSE
+                INSERT INTO enrollments (person_id, entry_date)
+                VALUES (person_record.id, open_entry_date);
+            END IF;
+        END IF;
+    END LOOP;
+END $$;
+
+-- Open the first episode automatically when a person is created
+CREATE OR REPLACE FUNCTION create_initial_enrollment()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO enrollments (person_id, entry_date)
+    VALUES (NEW.id, COALESCE(NEW.enrollment_date, CURRENT_DATE));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER create_person_initial_enrollment
+    AFTER INSERT ON persons
+    FOR EACH ROW
+    EXECUTE FUNCTION create_initial_enrollment();
+
+-- Keep the exit fields on persons in sync with the latest episode
+CREATE OR REPLACE FUNCTION sync_person_exit_from_enrollments()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_person_id UUID;
+    latest RECORD;
+BEGIN
+    target_person_id := COALESCE(NEW.person_id, OLD.person_id);
+
+    SELECT en.exit_date, en.exit_destination, en.exit_notes
+    INTO latest
+    FROM enrollments en
+    WHERE en.person_id = target_person_id
+    ORDER BY (en.exit_date IS NULL) DESC, en.entry_date DESC, en.created_at DESC
+    LIMIT 1;
+
+    UPDATE persons
+    SET
+        exit_date = latest.exit_date,
+        exit_destination = latest.exit_destination,
+        exit_notes = latest.exit_notes
+    WHERE id = target_person_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_person_exit_on_enrollment_change
+    AFTER INSERT OR UPDATE OR DELETE ON enrollments
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_person_exit_from_enrollments();
+
+-- Auto-inactivation now closes the open episode instead of writing to persons
+CREATE OR REPLACE FUNCTION auto_inactivate_clients()
+RETURNS INTEGER AS $$
+DECLARE
+    inactivated_count INTEGER := 0;
+    enrollment_record RECORD;
+    last_activity_date DATE;
+    inactivation_notes TEXT;
+BEGIN
+    -- Loop through all open enrollment episodes
+    FOR enrollment_record IN
+        SELECT en.id, en.person_id, en.entry_date
+        FROM enrollments en
+        WHERE en.exit_date IS NULL
+    LOOP
+        -- Get the most recent encounter date in this episode
+        SELECT MAX(DATE(e.service_date)) INTO last_activity_date
+        FROM encounters e
+        WHERE e.person_id = enrollment_record.person_id
+          AND DATE(e.service_date) >= enrollment_record.entry_date;
+
+        -- If no encounters, use the episode entry date
+        IF last_activity_date IS NULL THEN
+            last_activity_date := enrollment_record.entry_date;
+        END IF;
+
+        -- Check if last activity was more than 90 days ago
+        IF last_activity_date < CURRENT_DATE - INTERVAL '90 days' THEN
+            inactivation_notes := 'Automatically inactivated due to no service interactions for 90+ days. Last activity: ' || last_activity_date::TEXT;
+
+            -- Close the episode
+            UPDATE enrollments
+            SET
+                exit_date = CURRENT_DATE,
+                exit_destination = 'Auto-inactivated - No contact for 90 days',
+                exit_notes = inactivation_notes,
+                exited_by = 'System (Auto-inactivation)'
+            WHERE id = enrollment_record.id;
+
+            -- Log the status change
+            INSERT INTO status_changes (
+                person_id,
+                change_type,
+                change_date,
+                exit_destination,
+                notes,
+                created_by
+            ) VALUES (
+                enrollment_record.person_id,
+                'exit',
+                CURRENT_DATE,
+                'Auto-inactivated - No contact for 90 days',
+                inactivation_notes,
+                'System (Auto-inactivation)'
+            );
+
+            inactivated_count := inactivated_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN inactivated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON TABLE enrollments IS 'Program enrollment episodes - one row per entry/exit cycle for each person';
+COMMENT ON COLUMN enrollments.project IS 'Program the episode belongs to';
+COMMENT ON COLUMN enrollments.exit_destination IS 'HUD exit destination, set when the episode is closed';
+COMMENT ON COLUMN persons.exit_date IS 'Exit date of the latest enrollment episode (maintained from enrollments)';
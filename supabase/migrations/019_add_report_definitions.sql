@@ -0,0 +1,105 @@
+-- Migration: Add saved report definitions and report run history
+-- A definition stores the metric, breakdown and filter selections from the
+-- custom report builder with a relative date range, so the same report can be
+-- re-run with one click or generated on a schedule. Every run is kept in
+-- report_runs with the exact options and results it produced.
+
+CREATE TABLE IF NOT EXISTS report_definitions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+    options JSONB NOT NULL DEFAULT '{}'::jsonb, -- Selected metrics, demographics and filters
+    date_range TEXT NOT NULL DEFAULT 'last_full_month' CHECK (date_range IN (
+        'last_full_month',
+        'month_to_date',
+        'last_full_quarter',
+        'year_to_date',
+        'last_30_days',
+        'all_time',
+        'custom'
+    )),
+    start_date DATE, -- Only used for custom date ranges
+    end_date DATE,
+    time_zone TEXT NOT NULL DEFAULT 'UTC', -- Time zone relative ranges are resolved in
+    schedule TEXT NOT NULL DEFAULT 'none' CHECK (schedule IN ('none', 'weekly', 'monthly')),
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS report_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    definition_id UUID REFERENCES report_definitions(id) ON DELETE SET NULL,
+    definition_name TEXT NOT NULL,
+    options JSONB NOT NULL, -- Resolved options including the concrete date range
+    report JSONB NOT NULL, -- Generated metrics, breakdowns and CSV rows
+    trigger TEXT NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled')),
+    run_by TEXT, -- Email of the user, or the scheduler
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_report_definitions_owner_id ON report_definitions(owner_id);
+CREATE INDEX idx_report_definitions_next_run_at ON report_definitions(next_run_at)
+    WHERE schedule <> 'none';
+CREATE INDEX idx_report_runs_definition_id ON report_runs(definition_id);
+CREATE INDEX idx_report_runs_created_at ON report_runs(created_at DESC);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_report_definitions_updated_at
+    BEFORE UPDATE ON report_definitions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE report_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_runs ENABLE ROW LEVEL SECURITY;
+
+-- Definitions are private to their owner unless shared org-wide
+CREATE POLICY "Users can view own or shared report definitions"
+    ON report_definitions FOR SELECT
+    TO authenticated
+    USING (owner_id = auth.uid() OR is_shared);
+
+CREATE POLICY "Users can insert own report definitions"
+    ON report_definitions FOR INSERT
+    TO authenticated
+    WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can update own report definitions"
+    ON report_definitions FOR UPDATE
+    TO authenticated
+    USING (owner_id = auth.uid())
+    WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can delete own report definitions"
+    ON report_definitions FOR DELETE
+    TO authenticated
+    USING (owner_id = auth.uid());
+
+-- Run history follows the visibility of its definition
+CREATE POLICY "Users can view runs of visible report definitions"
+    ON report_runs FOR SELECT
+    TO authenticated
+    USING (
+        definition_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM report_definitions rd
+            WHERE rd.id = report_runs.definition_id
+              AND (rd.owner_id = auth.uid() OR rd.is_shared)
+        )
+    );
+
+CREATE POLICY "Authenticated users can insert report runs"
+    ON report_runs FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Comments
+COMMENT ON TABLE report_definitions IS 'Saved custom report selections, optionally run on a schedule';
+COMMENT ON COLUMN report_definitions.is_shared IS 'Visible to all users when true, otherwise only to the owner';
+COMMENT ON COLUMN report_definitions.next_run_at IS 'When the scheduler should next generate this report (NULL when not scheduled)';
+COMMENT ON TABLE report_runs IS 'History of generated reports - options and results are stored so past reports are reproducible';
@@ -0,0 +1,124 @@
+-- Migration: Add audit_log table recording reads and writes of client records
+-- Writes to persons and encounters are captured by triggers with a
+-- before/after diff of every changed column, so edits from any screen (or the
+-- offline sync) are recorded. Views, merges and exports are logged by the app.
+-- Rows can be added but never updated or deleted.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID DEFAULT auth.uid(),
+    user_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+    action TEXT NOT NULL CHECK (action IN ('view', 'insert', 'update', 'delete', 'merge', 'export')),
+    entity_type TEXT NOT NULL, -- Table name, or 'report' for exports and report lists
+    entity_id TEXT,
+    person_id UUID, -- No foreign key so entries outlive deleted clients
+    client_id TEXT,
+    changes JSONB, -- { column: { before, after } } for writes
+    details JSONB, -- Context for views, merges and exports
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for the admin search (by user, client and date)
+CREATE INDEX idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_user_id ON audit_log(user_id, created_at DESC);
+CREATE INDEX idx_audit_log_person_id ON audit_log(person_id, created_at DESC);
+CREATE INDEX idx_audit_log_client_id ON audit_log(client_id);
+
+-- Enable RLS
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can read the log
+CREATE POLICY "Admins can view audit log"
+    ON audit_log FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Users can only log their own views, merges and exports. Writes are logged
+-- by the trigger below, which runs as the table owner.
+CREATE POLICY "Users can log their own access"
+    ON audit_log FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        user_id = auth.uid()
+        AND action IN ('view', 'merge', 'export')
+    );
+
+-- Trigger function logging inserts, updates and deletes with a per-column diff
+CREATE OR REPLACE FUNCTION audit_client_record_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+    record_row JSONB := COALESCE(new_row, old_row);
+    row_changes JSONB := '{}'::JSONB;
+    column_name TEXT;
+    record_person_id UUID;
+    record_client_id TEXT;
+BEGIN
+    FOR column_name IN SELECT jsonb_object_keys(record_row) LOOP
+        IF column_name NOT IN ('created_at', 'updated_at')
+            AND (old_row -> column_name) IS DISTINCT FROM (new_row -> column_name) THEN
+            row_changes := row_changes || jsonb_build_object(
+                column_name,
+                jsonb_build_object('before', old_row -> column_name, 'after', new_row -> column_name)
+            );
+        END IF;
+    END LOOP;
+
+    -- Nothing but timestamps changed
+    IF TG_OP = 'UPDATE' AND row_changes = '{}'::JSONB THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'persons' THEN
+        record_person_id := (record_row ->> 'id')::UUID;
+        record_client_id := record_row ->> 'client_id';
+    ELSE
+        record_person_id := (record_row ->> 'person_id')::UUID;
+        SELECT client_id INTO record_client_id FROM persons WHERE id = record_person_id;
+    END IF;
+
+    INSERT INTO audit_log (
+        user_id,
+        user_email,
+        action,
+        entity_type,
+        entity_id,
+        person_id,
+        client_id,
+        changes
+    ) VALUES (
+        auth.uid(),
+        auth.jwt() ->> 'email',
+        lower(TG_OP),
+        TG_TABLE_NAME,
+        record_row ->> 'id',
+        record_person_id,
+        record_client_id,
+        row_changes
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_persons_changes
+    AFTER INSERT OR UPDATE OR DELETE ON persons
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+CREATE TRIGGER audit_encounters_changes
+    AFTER INSERT OR UPDATE OR DELETE ON encounters
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Comment on table
+COMMENT ON TABLE audit_log IS 'Append-only audit trail of who viewed, changed, merged or exported client records';
+COMMENT ON COLUMN audit_log.action IS 'view, insert, update, delete, merge or export';
+COMMENT ON COLUMN audit_log.changes IS 'Changed columns with before and after values, written by audit_client_record_change()';
+COMMENT ON COLUMN audit_log.details IS 'Context for app-logged events, e.g. export format and date range';
@@ -0,0 +1,338 @@
+-- Migration: Non-destructive merging of duplicate clients
+-- A merge moves the duplicate's encounters, status changes and enrollment
+-- episodes to the surviving record, applies the field values the admin
+-- picked, and keeps the duplicate as a tombstone pointing at the survivor so
+-- its old client ID still resolves. person_merges records what was moved and
+-- the survivor's previous values so the merge can be undone for 7 days.
+
+-- Tombstone columns on persons. Deleting a client also deletes the
+-- duplicates that were merged into it.
+ALTER TABLE persons ADD COLUMN IF NOT EXISTS merged_into UUID REFERENCES persons(id) ON DELETE CASCADE;
+ALTER TABLE persons ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_persons_merged_into ON persons(merged_into);
+
+CREATE TABLE IF NOT EXISTS person_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    survivor_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    merged_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    survivor_before JSONB NOT NULL, -- Survivor row before the merge
+    merged_before JSONB NOT NULL, -- Duplicate row before the merge
+    field_values JSONB NOT NULL DEFAULT '{}'::JSONB, -- Values taken from the duplicate
+    moved_encounter_ids UUID[] NOT NULL DEFAULT '{}',
+    moved_status_change_ids UUID[] NOT NULL DEFAULT '{}',
+    moved_enrollment_ids UUID[] NOT NULL DEFAULT '{}',
+    merged_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    undone_at TIMESTAMP WITH TIME ZONE,
+    undone_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_person_merges_survivor_id ON person_merges(survivor_id);
+CREATE INDEX idx_person_merges_merged_id ON person_merges(merged_id);
+CREATE INDEX idx_person_merges_created_at ON person_merges(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE person_merges ENABLE ROW LEVEL SECURITY;
+
+-- Merges are written by merge_persons() and undo_person_merge() only
+CREATE POLICY "Admins can view person merges"
+    ON person_merges FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Merge a duplicate client into a surviving record
+CREATE OR REPLACE FUNCTION merge_persons(
+    survivor_person_id UUID,
+    merged_person_id UUID,
+    field_values JSONB DEFAULT '{}'::JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    survivor_row persons;
+    merged_row persons;
+    chosen_row persons;
+    assignments TEXT;
+    encounter_ids UUID[];
+    status_change_ids UUID[];
+    enrollment_ids UUID[];
+    new_merge_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can merge clients';
+    END IF;
+
+    IF survivor_person_id = merged_person_id THEN
+        RAISE EXCEPTION 'Cannot merge a client into itself';
+    END IF;
+
+    SELECT * INTO survivor_row FROM persons WHERE id = survivor_person_id FOR UPDATE;
+    SELECT * INTO merged_row FROM persons WHERE id = merged_person_id FOR UPDATE;
+
+    IF survivor_row.id IS NULL OR merged_row.id IS NULL THEN
+        RAISE EXCEPTION 'Client not found';
+    END IF;
+
+    IF survivor_row.merged_into IS NOT NULL OR merged_row.merged_into IS NOT NULL THEN
+        RAISE EXCEPTION 'Client has already been merged into another record';
+    END IF;
+
+    -- Identity, tombstone and enrollment-maintained fields can't be picked
+    IF field_values ?| ARRAY['id', 'client_id', 'merged_into', 'merged_at', 'created_at', 'updated_at', 'exit_date', 'exit_destination', 'exit_notes'] THEN
+        RAISE EXCEPTION 'Field cannot be chosen in a merge';
+    END IF;
+
+    -- Apply the chosen values to the survivor in a single update
+    IF field_values <> '{}'::JSONB THEN
+        chosen_row := jsonb_populate_record(survivor_row, field_values);
+
+        SELECT string_agg(format('%I = ($1).%I', k.key, k.key), ', ')
+        INTO assignments
+        FROM jsonb_object_keys(field_values) AS k(key);
+
+        EXECUTE format('UPDATE persons SET %s WHERE id = $2', assignments)
+        USING chosen_row, survivor_person_id;
+    END IF;
+
+    WITH moved AS (
+        UPDATE encounters SET person_id = survivor_person_id
+        WHERE person_id = merged_person_id
+        RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO encounter_ids FROM moved;
+
+    WITH moved AS (
+        UPDATE status_changes SET person_id = survivor_person_id
+        WHERE person_id = merged_person_id
+        RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO status_change_ids FROM moved;
+
+    -- An open episode stays on the tombstone when the survivor already has
+    -- one open in the same program (only one open episode is allowed)
+    WITH moved AS (
+        UPDATE enrollments en SET person_id = survivor_person_id
+        WHERE en.person_id = merged_person_id
+          AND NOT (
+              en.exit_date IS NULL
+              AND EXISTS (
+                  SELECT 1 FROM enrollments s
+                  WHERE s.person_id = survivor_person_id
+                    AND s.project = en.project
+                    AND s.exit_date IS NULL
+              )
+          )
+        RETURNING en.id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO enrollment_ids FROM moved;
+
+    UPDATE persons
+    SET merged_into = survivor_person_id, merged_at = NOW()
+    WHERE id = merged_person_id;
+
+    INSERT INTO person_merges (
+        survivor_id,
+        merged_id,
+        survivor_before,
+        merged_before,
+        field_values,
+        moved_encounter_ids,
+        moved_status_change_ids,
+        moved_enrollment_ids
+    ) VALUES (
+        survivor_person_id,
+        merged_person_id,
+        to_jsonb(survivor_row),
+        to_jsonb(merged_row),
+        field_values,
+        encounter_ids,
+        status_change_ids,
+        enrollment_ids
+    )
+    RETURNING id INTO new_merge_id;
+
+    RETURN new_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reverse a merge made in the last 7 days
+CREATE OR REPLACE FUNCTION undo_person_merge(merge_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    merge_record person_merges;
+    survivor_row persons;
+    restored_values JSONB;
+    restored_row persons;
+    assignments TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can undo merges';
+    END IF;
+
+    SELECT * INTO merge_record FROM person_merges WHERE id = merge_id FOR UPDATE;
+
+    IF merge_record.id IS NULL THEN
+        RAISE EXCEPTION 'Merge not found';
+    END IF;
+
+    IF merge_record.undone_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Merge has already been undone';
+    END IF;
+
+    IF merge_record.created_at < NOW() - INTERVAL '7 days' THEN
+        RAISE EXCEPTION 'Merges can only be undone within 7 days';
+    END IF;
+
+    SELECT * INTO survivor_row FROM persons WHERE id = merge_record.survivor_id FOR UPDATE;
+
+    IF survivor_row.merged_into IS NOT NULL THEN
+        RAISE EXCEPTION 'The surviving record has since been merged into another record. Undo that merge first.';
+    END IF;
+
+    -- Put back the survivor's own values for the fields taken from the duplicate
+    IF merge_record.field_values <> '{}'::JSONB THEN
+        SELECT jsonb_object_agg(k.key, merge_record.survivor_before -> k.key)
+        INTO restored_values
+        FROM jsonb_object_keys(merge_record.field_values) AS k(key);
+
+        restored_row := jsonb_populate_record(survivor_row, restored_values);
+
+        SELECT string_agg(format('%I = ($1).%I', k.key, k.key), ', ')
+        INTO assignments
+        FROM jsonb_object_keys(restored_values) AS k(key);
+
+        EXECUTE format('UPDATE persons SET %s WHERE id = $2', assignments)
+        USING restored_row, merge_record.survivor_id;
+    END IF;
+
+    -- Only rows still on the survivor are moved back
+    UPDATE encounters SET person_id = merge_record.merged_id
+    WHERE id = ANY(merge_record.moved_encounter_ids)
+      AND person_id = merge_record.survivor_id;
+
+    UPDATE status_changes SET person_id = merge_record.merged_id
+    WHERE id = ANY(merge_record.moved_status_change_ids)
+      AND person_id = merge_record.survivor_id;
+
+    UPDATE enrollments SET person_id = merge_record.merged_id
+    WHERE id = ANY(merge_record.moved_enrollment_ids)
+      AND person_id = merge_record.survivor_id;
+
+    UPDATE persons
+    SET merged_into = NULL, merged_at = NULL
+    WHERE id = merge_record.merged_id;
+
+    UPDATE person_merges
+    SET undone_at = NOW(), undone_by = auth.jwt() ->> 'email'
+    WHERE id = merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION merge_persons(UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_person_merge(UUID) TO authenticated;
+
+-- Undoing a merge is logged alongside merges in the audit log
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_action_check
+    CHECK (action IN ('view', 'insert', 'update', 'delete', 'merge', 'unmerge', 'export'));
+
+DROP POLICY IF EXISTS "Users can log their own access" ON audit_log;
+CREATE POLICY "Users can log their own access"
+    ON audit_log FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        user_id = auth.uid()
+        AND action IN ('view', 'merge', 'unmerge', 'export')
+    );
+
+-- Moving an episode between people now resyncs the exit fields of both
+CREATE OR REPLACE FUNCTION sync_person_exit_from_enrollments()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_person_id UUID;
+    latest RECORD;
+BEGIN
+    FOR target_person_id IN
+        SELECT DISTINCT pid
+        FROM unnest(ARRAY[NEW.person_id, OLD.person_id]) AS pid
+        WHERE pid IS NOT NULL
+    LOOP
+        SELECT en.exit_date, en.exit_destination, en.exit_notes
+        INTO latest
+        FROM enrollments en
+        WHERE en.person_id = target_person_id
+        ORDER BY (en.exit_date IS NULL) DESC, en.entry_date DESC, en.created_at DESC
+        LIMIT 1;
+
+        UPDATE persons
+        SET
+            exit_date = latest.exit_date,
+            exit_destination = latest.exit_destination,
+            exit_notes = latest.exit_notes
+        WHERE id = target_person_id;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tombstones are no longer offered as possible duplicates at intake
+CREATE OR REPLACE FUNCTION search_similar_persons(
+  search_first_name TEXT,
+  search_last_name TEXT,
+  search_dob DATE DEFAULT NULL,
+  similarity_threshold REAL DEFAULT 0.3
+)
+RETURNS TABLE (
+  id UUID,
+  client_id TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  nickname TEXT,
+  date_of_birth DATE,
+  age INTEGER,
+  similarity_score REAL,
+  last_encounter_date TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.client_id,
+    p.first_name,
+    p.last_name,
+    p.nickname,
+    p.date_of_birth,
+    EXTRACT(YEAR FROM AGE(CURRENT_DATE, p.date_of_birth))::INTEGER as age,
+    GREATEST(
+      similarity(p.first_name, search_first_name),
+      similarity(p.last_name, search_last_name),
+      COALESCE(similarity(p.nickname, search_first_name), 0)
+    ) as similarity_score,
+    (SELECT MAX(e.service_date) FROM public.encounters e WHERE e.person_id = p.id) as last_encounter_date
+  FROM public.persons p
+  WHERE
+    p.merged_into IS NULL
+    AND (
+      similarity(p.first_name, search_first_name) > similarity_threshold OR
+      similarity(p.last_name, search_last_name) > similarity_threshold OR
+      similarity(p.nickname, search_first_name) > similarity_threshold
+    )
+    AND (
+      search_dob IS NULL OR
+      p.date_of_birth = search_dob
+    )
+  ORDER BY similarity_score DESC
+  LIMIT 10;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON TABLE person_merges IS 'Duplicate client merges with what was moved, so they can be undone within 7 days';
+COMMENT ON COLUMN persons.merged_into IS 'Set on a merged-away duplicate (tombstone) to the record it was merged into';
+COMMENT ON COLUMN person_merges.field_values IS 'Survivor fields overwritten with the duplicate''s values';
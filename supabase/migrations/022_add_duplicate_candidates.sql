@@ -0,0 +1,56 @@
+-- Migration: Add duplicate_candidates table for the duplicate review queue
+-- A scheduled job scores pairs of clients and stores likely duplicates here.
+-- Admins review each pair; pairs marked not_duplicate are never re-flagged.
+
+CREATE TABLE IF NOT EXISTS duplicate_candidates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_a_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    person_b_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    score NUMERIC(4, 3) NOT NULL,
+    reasons TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'not_duplicate', 'merged')),
+    reviewed_by TEXT, -- Email of the admin who resolved the pair
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    last_scored_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Each pair is stored once, lowest UUID first
+    CONSTRAINT duplicate_candidates_ordered_pair CHECK (person_a_id < person_b_id),
+    CONSTRAINT duplicate_candidates_unique_pair UNIQUE (person_a_id, person_b_id)
+);
+
+-- Index for the review queue (pending pairs, highest score first)
+CREATE INDEX idx_duplicate_candidates_status_score ON duplicate_candidates(status, score DESC);
+CREATE INDEX idx_duplicate_candidates_person_b_id ON duplicate_candidates(person_b_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_duplicate_candidates_updated_at
+    BEFORE UPDATE ON duplicate_candidates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can see and review the queue
+CREATE POLICY "Admins can manage duplicate candidates"
+    ON duplicate_candidates FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Comments
+COMMENT ON TABLE duplicate_candidates IS 'Likely duplicate client pairs found by the scheduled duplicate scan, awaiting admin review';
+COMMENT ON COLUMN duplicate_candidates.score IS 'Duplicate likelihood from 0 to 1 combining name, DOB, phone and photo signals';
+COMMENT ON COLUMN duplicate_candidates.reasons IS 'Human-readable signals that contributed to the score';
+COMMENT ON COLUMN duplicate_candidates.status IS 'pending, not_duplicate (never re-flagged) or merged';
@@ -0,0 +1,175 @@
+-- Migration: Add admin-managed lookup lists for form dropdowns
+-- Option lists (placement locations, referral sources, MAT types, ...) used to be
+-- hard-coded in lib/schemas. Admins now add, retire and reorder them from the
+-- dashboard. Records store the option text, so retired options stay on history.
+
+CREATE TABLE IF NOT EXISTS lookup_options (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    list_key TEXT NOT NULL CHECK (list_key IN (
+        'gender', 'race', 'sexual_orientation', 'disability_type', 'addiction', 'living_situation', 'time_homeless', 'referral_source', 'co_occurring_type', 'mat_type', 'placement_location'
+    )),
+    value TEXT NOT NULL CHECK (value <> '' AND position(',' IN value) = 0),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    retired_at TIMESTAMP WITH TIME ZONE, -- NULL while the option is offered on forms
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT lookup_options_unique_value UNIQUE (list_key, value)
+);
+
+-- Index for loading a list in display order
+CREATE INDEX idx_lookup_options_list_order ON lookup_options(list_key, sort_order);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_lookup_options_updated_at
+    BEFORE UPDATE ON lookup_options
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE lookup_options ENABLE ROW LEVEL SECURITY;
+
+-- Everyone filling in forms needs the lists
+CREATE POLICY "Authenticated users can view lookup options"
+    ON lookup_options FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Only admins change them. There is no delete policy - options are retired instead.
+CREATE POLICY "Admins can insert lookup options"
+    ON lookup_options FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update lookup options"
+    ON lookup_options FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Seed with the options that were previously hard-coded
+INSERT INTO lookup_options (list_key, value, sort_order) VALUES
+    -- GENDER_OPTIONS
+    ('gender', 'Male', 0),
+    ('gender', 'Female', 1),
+    ('gender', 'Transgender', 2),
+    ('gender', 'Non-binary', 3),
+    ('gender', 'Prefer not to say', 4),
+    ('gender', 'Other', 5),
+    -- RACE_OPTIONS
+    ('race', 'American Indian or Alaska Native', 0),
+    ('race', 'Asian', 1),
+    ('race', 'Black or African American', 2),
+    ('race', 'Hispanic or Latino', 3),
+    ('race', 'Native Hawaiian or Other Pacific Islander', 4),
+    ('race', 'White', 5),
+    ('race', 'Multiple Races', 6),
+    ('race', 'Prefer not to say', 7),
+    -- SEXUAL_ORIENTATION_OPTIONS
+    ('sexual_orientation', 'Heterosexual/Straight', 0),
+    ('sexual_orientation', 'Gay', 1),
+    ('sexual_orientation', 'Lesbian', 2),
+    ('sexual_orientation', 'Bisexual', 3),
+    ('sexual_orientation', 'Queer', 4),
+    ('sexual_orientation', 'Questioning', 5),
+    ('sexual_orientation', 'Prefer not to say', 6),
+    ('sexual_orientation', 'Other', 7),
+    -- DISABILITY_TYPES
+    ('disability_type', 'Physical', 0),
+    ('disability_type', 'Mental Health', 1),
+    ('disability_type', 'Substance Use', 2),
+    ('disability_type', 'Developmental', 3),
+    ('disability_type', 'Chronic Health Condition', 4),
+    ('disability_type', 'Multiple', 5),
+    ('disability_type', 'Other', 6),
+    -- ADDICTION_OPTIONS
+    ('addiction', 'Alcohol', 0),
+    ('addiction', 'Cocaine', 1),
+    ('addiction', 'Opioids', 2),
+    ('addiction', 'Meth', 3),
+    ('addiction', 'Fentanyl', 4),
+    ('addiction', 'Inhalants', 5),
+    ('addiction', 'Other', 6),
+    -- LIVING_SITUATIONS
+    ('living_situation', 'Place not meant for habitation', 0),
+    ('living_situation', 'Emergency shelter', 1),
+    ('living_situation', 'Transitional housing', 2),
+    ('living_situation', 'Safe Haven', 3),
+    ('living_situation', 'Hotel/motel paid by organization', 4),
+    ('living_situation', 'Staying with family/friends (temporary)', 5),
+    ('living_situation', 'Staying with family/friends (permanent)', 6),
+    ('living_situation', 'Vehicle', 7),
+    ('living_situation', 'Other', 8),
+    -- TIME_HOMELESS_OPTIONS
+    ('time_homeless', 'Less than 1 month', 0),
+    ('time_homeless', '1-3 months', 1),
+    ('time_homeless', '3-6 months', 2),
+    ('time_homeless', '6-12 months', 3),
+    ('time_homeless', '1-2 years', 4),
+    ('time_homeless', '2-5 years', 5),
+    ('time_homeless', '5-10 years', 6),
+    ('time_homeless', 'More than 10 years', 7),
+    ('time_homeless', 'Unknown', 8),
+    -- REFERRAL_SOURCES
+    ('referral_source', 'CRC', 0),
+    ('referral_source', 'Encinitas Library', 1),
+    ('referral_source', 'HOPE', 2),
+    ('referral_source', 'PD (Police Department)', 3),
+    ('referral_source', 'Self', 4),
+    ('referral_source', 'SDRM (San Diego Rescue Mission)', 5),
+    ('referral_source', 'Healthcare Provider', 6),
+    ('referral_source', 'Other Organization', 7),
+    ('referral_source', 'Friend/Family', 8),
+    ('referral_source', 'Other', 9),
+    -- CO_OCCURRING_TYPES
+    ('co_occurring_type', 'Substance Use + Depression', 0),
+    ('co_occurring_type', 'Substance Use + Anxiety', 1),
+    ('co_occurring_type', 'Substance Use + Bipolar', 2),
+    ('co_occurring_type', 'Substance Use + PTSD', 3),
+    ('co_occurring_type', 'Substance Use + Schizophrenia', 4),
+    ('co_occurring_type', 'Multiple Conditions', 5),
+    ('co_occurring_type', 'Other', 6),
+    -- MAT_TYPES
+    ('mat_type', 'Methadone', 0),
+    ('mat_type', 'Buprenorphine (Suboxone)', 1),
+    ('mat_type', 'Naltrexone (Vivitrol)', 2),
+    ('mat_type', 'Other', 3),
+    -- PLACEMENT_LOCATIONS
+    ('placement_location', 'BCNC', 0),
+    ('placement_location', 'Detox', 1),
+    ('placement_location', 'East County Transitional Living', 2),
+    ('placement_location', 'La Posada', 3),
+    ('placement_location', 'Vista', 4),
+    ('placement_location', 'Victory Outreach', 5),
+    ('placement_location', 'Set Free Ministries', 6),
+    ('placement_location', 'Teen Challenge', 7),
+    ('placement_location', 'Restoration Ranch', 8),
+    ('placement_location', 'Mission Academy', 9),
+    ('placement_location', 'South County Lighthouse', 10),
+    ('placement_location', 'Shelter Not Available', 11),
+    ('placement_location', 'Other', 12)
+ON CONFLICT (list_key, value) DO NOTHING;
+
+-- Addiction options are managed here now, never in a column constraint
+-- (002 added one; 006 dropped it - drop again in case it was re-created)
+ALTER TABLE public.persons DROP CONSTRAINT IF EXISTS persons_addiction_check;
+
+-- Comments
+COMMENT ON TABLE lookup_options IS 'Admin-managed options for intake and service interaction dropdowns';
+COMMENT ON COLUMN lookup_options.list_key IS 'Which dropdown the option belongs to';
+COMMENT ON COLUMN lookup_options.value IS 'Option text, stored as-is on client and encounter records';
+COMMENT ON COLUMN lookup_options.retired_at IS 'When the option stopped being offered; records already using it still show it';
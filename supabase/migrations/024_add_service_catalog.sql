@@ -0,0 +1,143 @@
+-- Migration: Replace boolean service columns on encounters with a service catalog
+-- Services used to be one column each on encounters (naloxone_distributed,
+-- shower_trailer, ...). Admins now define services in service_catalog and each
+-- service provided during an interaction is a row in encounter_services.
+
+CREATE TABLE IF NOT EXISTS service_catalog (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    key TEXT NOT NULL UNIQUE CHECK (key ~ '^[a-z0-9_]+$'), -- Stable identifier used by reports
+    name TEXT NOT NULL,
+    category TEXT NOT NULL DEFAULT 'Other Services', -- Form section the service is listed under
+    tracks_quantity BOOLEAN NOT NULL DEFAULT false,
+    unit TEXT, -- e.g. 'strips', 'vouchers' - only used when tracks_quantity
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    retired_at TIMESTAMP WITH TIME ZONE, -- NULL while the service is offered on the form
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS encounter_services (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    encounter_id UUID NOT NULL REFERENCES encounters(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES service_catalog(id),
+    quantity INTEGER CHECK (quantity IS NULL OR quantity >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT encounter_services_unique_service UNIQUE (encounter_id, service_id)
+);
+
+-- Indexes for loading the catalog in form order and for per-service reports
+CREATE INDEX idx_service_catalog_order ON service_catalog(category, sort_order);
+CREATE INDEX idx_encounter_services_service_id ON encounter_services(service_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_service_catalog_updated_at
+    BEFORE UPDATE ON service_catalog
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE service_catalog ENABLE ROW LEVEL SECURITY;
+ALTER TABLE encounter_services ENABLE ROW LEVEL SECURITY;
+
+-- Everyone recording interactions needs the catalog
+CREATE POLICY "Authenticated users can view the service catalog"
+    ON service_catalog FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Only admins change it. There is no delete policy - services are retired instead.
+CREATE POLICY "Admins can insert services"
+    ON service_catalog FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update services"
+    ON service_catalog FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Services provided follow the same access as encounters
+CREATE POLICY "Authenticated users can view encounter services"
+    ON encounter_services FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert encounter services"
+    ON encounter_services FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Seed with the services that used to be encounter columns
+INSERT INTO service_catalog (key, name, category, tracks_quantity, unit, sort_order) VALUES
+    ('naloxone', 'Naloxone Kit Distributed', 'Harm Reduction', false, NULL, 0),
+    ('fentanyl_test_strips', 'Fentanyl Test Strips', 'Harm Reduction', true, 'strips', 1),
+    ('harm_reduction_education', 'Harm Reduction Education', 'Harm Reduction', false, NULL, 2),
+    ('transportation', 'Transportation Provided', 'Other Services', false, NULL, 0),
+    ('shower_trailer', 'Shower Trailer Access', 'Other Services', false, NULL, 1)
+ON CONFLICT (key) DO NOTHING;
+
+-- Move existing answers into encounter_services
+INSERT INTO encounter_services (encounter_id, service_id, quantity)
+SELECT e.id, s.id, NULL
+FROM encounters e
+JOIN service_catalog s ON s.key = 'naloxone'
+WHERE e.naloxone_distributed
+ON CONFLICT (encounter_id, service_id) DO NOTHING;
+
+INSERT INTO encounter_services (encounter_id, service_id, quantity)
+SELECT e.id, s.id, e.fentanyl_test_strips_count
+FROM encounters e
+JOIN service_catalog s ON s.key = 'fentanyl_test_strips'
+WHERE COALESCE(e.fentanyl_test_strips_count, 0) > 0
+ON CONFLICT (encounter_id, service_id) DO NOTHING;
+
+INSERT INTO encounter_services (encounter_id, service_id, quantity)
+SELECT e.id, s.id, NULL
+FROM encounters e
+JOIN service_catalog s ON s.key = 'harm_reduction_education'
+WHERE e.harm_reduction_education
+ON CONFLICT (encounter_id, service_id) DO NOTHING;
+
+INSERT INTO encounter_services (encounter_id, service_id, quantity)
+SELECT e.id, s.id, NULL
+FROM encounters e
+JOIN service_catalog s ON s.key = 'transportation'
+WHERE e.transportation_provided
+ON CONFLICT (encounter_id, service_id) DO NOTHING;
+
+INSERT INTO encounter_services (encounter_id, service_id, quantity)
+SELECT e.id, s.id, NULL
+FROM encounters e
+JOIN service_catalog s ON s.key = 'shower_trailer'
+WHERE e.shower_trailer
+ON CONFLICT (encounter_id, service_id) DO NOTHING;
+
+-- Drop the old columns (naloxone_date stays - it is recorded alongside the naloxone service)
+ALTER TABLE encounters
+    DROP COLUMN IF EXISTS naloxone_distributed,
+    DROP COLUMN IF EXISTS fentanyl_test_strips_count,
+    DROP COLUMN IF EXISTS harm_reduction_education,
+    DROP COLUMN IF EXISTS transportation_provided,
+    DROP COLUMN IF EXISTS shower_trailer;
+
+-- Comments
+COMMENT ON TABLE service_catalog IS 'Admin-defined services that can be recorded on a service interaction';
+COMMENT ON COLUMN service_catalog.key IS 'Stable identifier; naloxone and fentanyl_test_strips feed the grant report metrics';
+COMMENT ON COLUMN service_catalog.retired_at IS 'When the service stopped being offered on the form; past interactions keep it';
+COMMENT ON TABLE encounter_services IS 'Services provided during a service interaction, with an optional quantity';
@@ -0,0 +1,98 @@
+-- Migration: Track MAT and detox referrals through to an outcome
+-- Encounters only record that a referral was made (mat_referral,
+-- detox_referral). Each referral is now also a row in referrals, which the
+-- worker who made it follows up on until the client attends, declines or
+-- doesn't show.
+
+CREATE TABLE IF NOT EXISTS referrals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    encounter_id UUID NOT NULL REFERENCES encounters(id) ON DELETE CASCADE,
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE, -- Kept in step with the encounter's person
+    referral_type TEXT NOT NULL CHECK (referral_type IN ('mat', 'detox')),
+    provider TEXT,
+    referred_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'attended', 'declined', 'no_show')),
+    outcome_date DATE, -- When the status was last confirmed with the client or provider
+    notes TEXT,
+    referred_by UUID DEFAULT auth.uid(), -- Worker who made the referral and owns the follow-up
+    referred_by_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT referrals_outcome_after_referral CHECK (outcome_date IS NULL OR outcome_date >= referred_on)
+);
+
+-- Indexes for the client profile, the worker's open referrals and reporting
+CREATE INDEX idx_referrals_person_id ON referrals(person_id);
+CREATE INDEX idx_referrals_encounter_id ON referrals(encounter_id);
+CREATE INDEX idx_referrals_open_by_worker ON referrals(referred_by, referred_on)
+    WHERE status IN ('pending', 'accepted');
+CREATE INDEX idx_referrals_referred_on ON referrals(referred_on);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_referrals_updated_at
+    BEFORE UPDATE ON referrals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Merges (and undoing them) move encounters between persons; their referrals follow
+CREATE OR REPLACE FUNCTION sync_referral_person()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE referrals SET person_id = NEW.person_id WHERE encounter_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_encounter_referrals_person
+    AFTER UPDATE OF person_id ON encounters
+    FOR EACH ROW
+    WHEN (OLD.person_id IS DISTINCT FROM NEW.person_id)
+    EXECUTE FUNCTION sync_referral_person();
+
+-- Enable RLS
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (same pattern as encounters - any worker may record an outcome they hear about)
+CREATE POLICY "Authenticated users can view all referrals"
+    ON referrals FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert referrals"
+    ON referrals FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update referrals"
+    ON referrals FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Backfill referrals already recorded on encounters. Their outcome was never
+-- recorded, so they start as pending with no owner.
+INSERT INTO referrals (encounter_id, person_id, referral_type, provider, referred_on, referred_by, referred_by_email)
+SELECT e.id, e.person_id, 'mat', e.mat_provider, e.service_date::date, NULL, NULL
+FROM encounters e
+WHERE e.mat_referral
+  AND NOT EXISTS (SELECT 1 FROM referrals r WHERE r.encounter_id = e.id AND r.referral_type = 'mat');
+
+INSERT INTO referrals (encounter_id, person_id, referral_type, provider, referred_on, referred_by, referred_by_email)
+SELECT e.id, e.person_id, 'detox', e.detox_provider, e.service_date::date, NULL, NULL
+FROM encounters e
+WHERE e.detox_referral
+  AND NOT EXISTS (SELECT 1 FROM referrals r WHERE r.encounter_id = e.id AND r.referral_type = 'detox');
+
+-- Status changes show up in the client's audit trail (added after the
+-- backfill so it isn't logged as thousands of inserts)
+CREATE TRIGGER audit_referrals_changes
+    AFTER INSERT OR UPDATE OR DELETE ON referrals
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Comments
+COMMENT ON TABLE referrals IS 'MAT and detox referrals made during service interactions, with their follow-up status';
+COMMENT ON COLUMN referrals.status IS 'pending, accepted, attended, declined or no_show; pending and accepted referrals are open';
+COMMENT ON COLUMN referrals.outcome_date IS 'Date the current status was confirmed';
+COMMENT ON COLUMN referrals.referred_by IS 'Worker whose open referrals list this appears on';
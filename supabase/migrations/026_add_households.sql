@@ -0,0 +1,100 @@
+-- Migration: Group persons into households
+-- Couples and families were entered as unrelated persons. A household links
+-- them, with each member's relationship to the head of household as HUD
+-- defines it (3.15). A person belongs to at most one household at a time.
+
+CREATE TABLE IF NOT EXISTS households (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT, -- Optional label, e.g. "Garcia family"
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    person_id UUID NOT NULL UNIQUE REFERENCES persons(id) ON DELETE CASCADE,
+    relationship_to_head TEXT NOT NULL
+        CHECK (relationship_to_head IN ('self', 'child', 'spouse_partner', 'other_relative', 'unrelated')),
+    added_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for listing a household's members
+CREATE INDEX idx_household_members_household_id ON household_members(household_id);
+
+-- One head of household per household
+CREATE UNIQUE INDEX idx_household_members_one_head
+    ON household_members(household_id)
+    WHERE relationship_to_head = 'self';
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_households_updated_at
+    BEFORE UPDATE ON households
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_household_members_updated_at
+    BEFORE UPDATE ON household_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Membership changes show up in the client's audit trail
+CREATE TRIGGER audit_household_members_changes
+    AFTER INSERT OR UPDATE OR DELETE ON household_members
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (same pattern as persons - field workers build households)
+CREATE POLICY "Authenticated users can view all households"
+    ON households FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert households"
+    ON households FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update households"
+    ON households FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete households"
+    ON households FOR DELETE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can view all household members"
+    ON household_members FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert household members"
+    ON household_members FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update household members"
+    ON household_members FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete household members"
+    ON household_members FOR DELETE
+    TO authenticated
+    USING (true);
+
+-- Comments
+COMMENT ON TABLE households IS 'Persons who live together, e.g. a couple or family sharing a vehicle';
+COMMENT ON TABLE household_members IS 'Household membership; a person belongs to at most one household';
+COMMENT ON COLUMN household_members.relationship_to_head IS 'HUD 3.15: self (head of household), child, spouse_partner, other_relative or unrelated';
@@ -0,0 +1,72 @@
+-- Migration: Named outreach sites
+-- outreach_location is free text, so the same camp was recorded under several
+-- spellings. Sites are a registry of known places (a point and a radius) that
+-- encounters link to, so contacts can be counted per site over time.
+
+CREATE TABLE IF NOT EXISTS sites (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    site_type TEXT NOT NULL CHECK (site_type IN ('encampment', 'vehicle', 'park', 'business')),
+    latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+    radius_meters INTEGER NOT NULL DEFAULT 100 CHECK (radius_meters > 0),
+    notes TEXT,
+    retired_at TIMESTAMP WITH TIME ZONE, -- NULL while the site is offered on the form
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Encounters keep outreach_location as entered; site_id is the known place it matches
+ALTER TABLE encounters
+    ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+
+-- Indexes for site history and per-site reports
+CREATE INDEX idx_encounters_site_id ON encounters(site_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_sites_updated_at
+    BEFORE UPDATE ON sites
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE sites ENABLE ROW LEVEL SECURITY;
+
+-- Everyone recording interactions needs the registry
+CREATE POLICY "Authenticated users can view sites"
+    ON sites FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Only admins change it. There is no delete policy - sites are retired instead.
+CREATE POLICY "Admins can insert sites"
+    ON sites FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update sites"
+    ON sites FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Comments
+COMMENT ON TABLE sites IS 'Known outreach sites (encampments, vehicle areas, parks, businesses) as a point and radius';
+COMMENT ON COLUMN sites.radius_meters IS 'Encounters recorded within this distance of the point are suggested this site';
+COMMENT ON COLUMN encounters.site_id IS 'Registered site the encounter took place at, if any';
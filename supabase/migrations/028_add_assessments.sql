@@ -0,0 +1,48 @@
+-- Migration: Coordinated Entry assessments
+-- The CoC prioritizes housing by a VI-SPDAT style assessment score. The
+-- questionnaire is defined in code and versioned; each assessment records the
+-- version it was taken on, the answers and the score they produced, so old
+-- scores stay reproducible after the questionnaire changes.
+
+CREATE TABLE IF NOT EXISTS assessments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    definition_key TEXT NOT NULL,
+    definition_version INTEGER NOT NULL CHECK (definition_version > 0),
+    answers JSONB NOT NULL DEFAULT '{}'::jsonb, -- Question ID -> chosen option value
+    domain_scores JSONB NOT NULL DEFAULT '{}'::jsonb, -- Domain key -> points
+    total_score INTEGER NOT NULL CHECK (total_score >= 0),
+    acuity TEXT NOT NULL CHECK (acuity IN ('low', 'moderate', 'high')),
+    assessed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    assessed_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for a client's history and the latest assessment per client
+CREATE INDEX idx_assessments_person_assessed ON assessments(person_id, assessed_on DESC);
+
+-- Assessments show up in the client's audit trail
+CREATE TRIGGER audit_assessments_changes
+    AFTER INSERT OR UPDATE OR DELETE ON assessments
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE assessments ENABLE ROW LEVEL SECURITY;
+
+-- Assessments are a record of what the client said on the day; there is no
+-- update or delete policy. A new assessment supersedes the last one.
+CREATE POLICY "Authenticated users can view assessments"
+    ON assessments FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert assessments"
+    ON assessments FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Comments
+COMMENT ON TABLE assessments IS 'Scored Coordinated Entry assessments (VI-SPDAT style); the latest per client sets their priority';
+COMMENT ON COLUMN assessments.definition_version IS 'Version of the questionnaire in lib/schemas/assessment-schema.ts the answers belong to';
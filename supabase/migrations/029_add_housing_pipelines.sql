@@ -0,0 +1,72 @@
+-- Migration: Housing pipeline
+-- Tracks a client's progress toward permanent housing after outreach, one
+-- dated column per stage so time in each stage and time to housing can be
+-- measured. Moving in closes the pipeline with a Permanent Housing exit
+-- destination.
+
+CREATE TABLE IF NOT EXISTS housing_pipelines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    housing_program TEXT, -- e.g. 'HCV', 'CoC PSH', 'VASH'
+    document_ready_on DATE,
+    matched_on DATE,
+    application_submitted_on DATE,
+    unit_identified_on DATE,
+    lease_signed_on DATE,
+    moved_in_on DATE,
+    move_in_destination TEXT, -- One of the Permanent Housing exit destinations
+    closed_on DATE, -- Set when the pipeline ends without a move-in
+    closed_reason TEXT,
+    notes TEXT,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT housing_pipelines_move_in_destination
+        CHECK (moved_in_on IS NULL OR move_in_destination IS NOT NULL)
+);
+
+-- One open pipeline per client
+CREATE UNIQUE INDEX idx_housing_pipelines_one_open
+    ON housing_pipelines(person_id)
+    WHERE moved_in_on IS NULL AND closed_on IS NULL;
+
+-- Index for time-to-housing reports
+CREATE INDEX idx_housing_pipelines_moved_in_on ON housing_pipelines(moved_in_on);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_housing_pipelines_updated_at
+    BEFORE UPDATE ON housing_pipelines
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Stage changes show up in the client's audit trail
+CREATE TRIGGER audit_housing_pipelines_changes
+    AFTER INSERT OR UPDATE OR DELETE ON housing_pipelines
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE housing_pipelines ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (same pattern as encounters - case managers work the board)
+CREATE POLICY "Authenticated users can view housing pipelines"
+    ON housing_pipelines FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert housing pipelines"
+    ON housing_pipelines FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update housing pipelines"
+    ON housing_pipelines FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Comments
+COMMENT ON TABLE housing_pipelines IS 'A client''s progress toward permanent housing, one date per stage';
+COMMENT ON COLUMN housing_pipelines.move_in_destination IS 'Permanent Housing exit destination recorded at move-in';
+COMMENT ON COLUMN housing_pipelines.closed_on IS 'Date the pipeline ended without a move-in (e.g. client declined or lost contact)';
@@ -0,0 +1,75 @@
+-- Migration: Client document vault
+-- Scans and photos of the documents a client needs to become document-ready
+-- (photo ID, birth certificate, Social Security card, DD-214). Files live in
+-- a private bucket and are only opened through short-lived signed URLs.
+
+-- Private storage bucket for client documents
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('client-documents', 'client-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies for client-documents bucket. Files are never replaced in
+-- place, so there is no update policy.
+CREATE POLICY "Authenticated users can upload client documents"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'client-documents');
+
+CREATE POLICY "Authenticated users can view client documents"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'client-documents');
+
+CREATE POLICY "Authenticated users can delete client documents"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'client-documents');
+
+CREATE TABLE IF NOT EXISTS client_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    document_type TEXT NOT NULL CHECK (document_type IN (
+        'photo_id', 'birth_certificate', 'ssn_card', 'dd214', 'other'
+    )),
+    storage_path TEXT NOT NULL UNIQUE, -- Object path in the client-documents bucket
+    file_name TEXT NOT NULL,
+    content_type TEXT,
+    file_size INTEGER,
+    expires_on DATE,
+    notes TEXT,
+    uploaded_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Index for loading a client's documents
+CREATE INDEX idx_client_documents_person_id ON client_documents(person_id);
+
+-- Uploads and deletions show up in the client's audit trail
+CREATE TRIGGER audit_client_documents_changes
+    AFTER INSERT OR UPDATE OR DELETE ON client_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE client_documents ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Authenticated users can view client documents"
+    ON client_documents FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert client documents"
+    ON client_documents FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete client documents"
+    ON client_documents FOR DELETE
+    TO authenticated
+    USING (true);
+
+-- Comments
+COMMENT ON TABLE client_documents IS 'Identity and eligibility documents on file for a client';
+COMMENT ON COLUMN client_documents.storage_path IS 'Path in the private client-documents bucket; open with a signed URL';
+COMMENT ON COLUMN client_documents.expires_on IS 'Expiry date printed on the document, if any';
@@ -0,0 +1,77 @@
+-- Migration: Releases of information
+-- persons.release_of_information is a single yes/no from intake. ROIs are now
+-- recorded per person with the agencies data may be shared with, effective
+-- and expiry dates, the client's drawn signature and revocation. Exports to
+-- partners only include clients with an active ROI for that recipient.
+
+CREATE TABLE IF NOT EXISTS releases_of_information (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    recipients TEXT[] NOT NULL CHECK (cardinality(recipients) > 0), -- Values from the roi_recipient lookup list
+    effective_on DATE NOT NULL,
+    expires_on DATE NOT NULL,
+    signature TEXT NOT NULL, -- PNG data URL of the client's signature
+    notes TEXT,
+    revoked_on DATE,
+    revoked_reason TEXT,
+    revoked_by TEXT,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT releases_of_information_dates CHECK (expires_on > effective_on)
+);
+
+-- Index for loading a client's releases
+CREATE INDEX idx_releases_of_information_person_id ON releases_of_information(person_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_releases_of_information_updated_at
+    BEFORE UPDATE ON releases_of_information
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Signing and revocation show up in the client's audit trail
+CREATE TRIGGER audit_releases_of_information_changes
+    AFTER INSERT OR UPDATE OR DELETE ON releases_of_information
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE releases_of_information ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies. Releases are revoked rather than deleted.
+CREATE POLICY "Authenticated users can view releases of information"
+    ON releases_of_information FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert releases of information"
+    ON releases_of_information FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update releases of information"
+    ON releases_of_information FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Agencies are an admin-managed lookup list
+ALTER TABLE lookup_options DROP CONSTRAINT IF EXISTS lookup_options_list_key_check;
+ALTER TABLE lookup_options ADD CONSTRAINT lookup_options_list_key_check CHECK (list_key IN (
+    'gender', 'race', 'sexual_orientation', 'disability_type', 'addiction', 'living_situation', 'time_homeless', 'referral_source', 'co_occurring_type', 'mat_type', 'placement_location', 'roi_recipient'
+));
+
+INSERT INTO lookup_options (list_key, value, sort_order) VALUES
+    ('roi_recipient', 'San Diego HMIS (Regional Task Force on Homelessness)', 0),
+    ('roi_recipient', 'Coordinated Entry System', 1),
+    ('roi_recipient', 'County of San Diego', 2),
+    ('roi_recipient', 'City of Encinitas', 3),
+    ('roi_recipient', 'VA San Diego Healthcare System', 4)
+ON CONFLICT (list_key, value) DO NOTHING;
+
+-- Comments
+COMMENT ON TABLE releases_of_information IS 'Signed releases of information: who a client''s data may be shared with, and for how long';
+COMMENT ON COLUMN releases_of_information.recipients IS 'Agencies data may be shared with (roi_recipient lookup values)';
+COMMENT ON COLUMN releases_of_information.signature IS 'Client signature drawn on the device, as a PNG data URL';
+COMMENT ON COLUMN releases_of_information.revoked_on IS 'Date the client withdrew consent; the release is inactive from this date';
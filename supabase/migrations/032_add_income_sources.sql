@@ -0,0 +1,92 @@
+-- Migration: Income and benefits history
+-- persons.income / income_amount are captured once at intake and overwritten
+-- on edit, so changes over time were lost. Each income source or non-cash
+-- benefit is now its own dated row, started and ended at intake, during
+-- service interactions, from the profile or at exit, so income at program
+-- entry and exit can be compared for HUD reporting.
+
+CREATE TABLE IF NOT EXISTS income_sources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    source_type TEXT NOT NULL CHECK (source_type IN (
+        'employment', 'ssi', 'ssdi', 'general_assistance', 'va_disability', 'unemployment', 'other_income',
+        'calfresh', 'medi_cal', 'medicare', 'other_benefit'
+    )),
+    monthly_amount NUMERIC(10, 2) CHECK (monthly_amount >= 0), -- Optional for non-cash benefits
+    start_date DATE NOT NULL,
+    end_date DATE,
+    collection_stage TEXT NOT NULL DEFAULT 'update' CHECK (collection_stage IN ('intake', 'interaction', 'update', 'exit')),
+    encounter_id UUID REFERENCES encounters(id) ON DELETE SET NULL, -- Interaction the source was recorded at
+    notes TEXT,
+    ended_by TEXT,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT income_sources_dates CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Index for loading a client's income history
+CREATE INDEX idx_income_sources_person_id ON income_sources(person_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_income_sources_updated_at
+    BEFORE UPDATE ON income_sources
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Income changes show up in the client's audit trail
+CREATE TRIGGER audit_income_sources_changes
+    AFTER INSERT OR UPDATE OR DELETE ON income_sources
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE income_sources ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies. Sources are ended rather than deleted so history is kept.
+CREATE POLICY "Authenticated users can view income sources"
+    ON income_sources FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert income sources"
+    ON income_sources FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update income sources"
+    ON income_sources FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Carry over income captured at intake so existing clients have a starting
+-- point. The free-text source is mapped where it clearly names one.
+INSERT INTO income_sources (person_id, source_type, monthly_amount, start_date, collection_stage, notes, created_by)
+SELECT
+    id,
+    CASE
+        WHEN income ILIKE '%ssdi%' THEN 'ssdi'
+        WHEN income ILIKE '%ssi%' THEN 'ssi'
+        WHEN income ILIKE '%employ%' OR income ILIKE '%job%' OR income ILIKE '%work%' THEN 'employment'
+        WHEN income ILIKE '%general assistance%' OR income ~* '\mGA\M' THEN 'general_assistance'
+        WHEN income ILIKE '%unemployment%' THEN 'unemployment'
+        WHEN income ILIKE '%va %' OR income ILIKE '%veteran%' THEN 'va_disability'
+        ELSE 'other_income'
+    END,
+    income_amount,
+    enrollment_date,
+    'intake',
+    NULLIF(income, ''),
+    'Migrated from intake'
+FROM persons
+WHERE income_amount > 0
+  AND merged_into IS NULL;
+
+-- Comments
+COMMENT ON TABLE income_sources IS 'Dated history of each client''s income sources and non-cash benefits';
+COMMENT ON COLUMN income_sources.monthly_amount IS 'Monthly amount in dollars; required for cash income, optional for benefits';
+COMMENT ON COLUMN income_sources.end_date IS 'Date the client stopped receiving the source; NULL while ongoing';
+COMMENT ON COLUMN income_sources.collection_stage IS 'Where it was recorded: intake, interaction, update (profile) or exit';
+COMMENT ON COLUMN persons.income IS 'Superseded by income_sources; kept for records created before it';
+COMMENT ON COLUMN persons.income_amount IS 'Superseded by income_sources; kept for records created before it';
@@ -0,0 +1,193 @@
+-- Migration: Harm-reduction supply inventory
+-- Naloxone and fentanyl test strips are counted per encounter, but not how
+-- much stock each worker or van carries. Supplies are now tracked as items
+-- received in lots (with expiry dates) and held at stock locations (a
+-- worker, a vehicle or storage). Every movement is a row in an append-only
+-- ledger: restocks, transfers, adjustments (expired, damaged, found), and
+-- distributions, which are written automatically when an interaction records
+-- a service linked to an item.
+
+CREATE TABLE IF NOT EXISTS inventory_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    unit TEXT NOT NULL DEFAULT 'units', -- e.g. 'kits', 'strips'
+    service_id UUID UNIQUE REFERENCES service_catalog(id), -- Distributions of this service draw down the item
+    low_stock_threshold INTEGER NOT NULL DEFAULT 10 CHECK (low_stock_threshold >= 0), -- Per location
+    retired_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS stock_locations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    location_type TEXT NOT NULL CHECK (location_type IN ('worker', 'vehicle', 'storage')),
+    worker_email TEXT, -- The worker carrying this stock, used as their default on the interaction form
+    retired_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS inventory_lots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    item_id UUID NOT NULL REFERENCES inventory_items(id),
+    lot_number TEXT NOT NULL,
+    expires_on DATE NOT NULL,
+    received_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT inventory_lots_unique_lot UNIQUE (item_id, lot_number)
+);
+
+CREATE TABLE IF NOT EXISTS inventory_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('restock', 'transfer', 'distribution', 'adjustment')),
+    item_id UUID NOT NULL REFERENCES inventory_items(id),
+    lot_id UUID REFERENCES inventory_lots(id), -- NULL only for distributions beyond the stock on record
+    from_location_id UUID REFERENCES stock_locations(id),
+    to_location_id UUID REFERENCES stock_locations(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    encounter_id UUID REFERENCES encounters(id) ON DELETE SET NULL, -- Interaction a distribution was logged at
+    occurred_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT inventory_transactions_locations CHECK (
+        (transaction_type = 'restock' AND from_location_id IS NULL AND to_location_id IS NOT NULL)
+        OR (transaction_type = 'transfer' AND from_location_id IS NOT NULL AND to_location_id IS NOT NULL
+            AND from_location_id <> to_location_id)
+        OR (transaction_type = 'distribution' AND from_location_id IS NOT NULL AND to_location_id IS NULL)
+        OR (transaction_type = 'adjustment' AND (from_location_id IS NULL) <> (to_location_id IS NULL))
+    ),
+    CONSTRAINT inventory_transactions_lot CHECK (lot_id IS NOT NULL OR transaction_type = 'distribution')
+);
+
+-- Indexes for stock balances and monthly reconciliation
+CREATE INDEX idx_inventory_transactions_item_id ON inventory_transactions(item_id, occurred_on);
+CREATE INDEX idx_inventory_transactions_from_location ON inventory_transactions(from_location_id);
+CREATE INDEX idx_inventory_transactions_to_location ON inventory_transactions(to_location_id);
+CREATE INDEX idx_inventory_transactions_encounter_id ON inventory_transactions(encounter_id);
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_inventory_items_updated_at
+    BEFORE UPDATE ON inventory_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_stock_locations_updated_at
+    BEFORE UPDATE ON stock_locations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE inventory_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone logging interactions needs the items and locations
+CREATE POLICY "Authenticated users can view inventory items"
+    ON inventory_items FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can view stock locations"
+    ON stock_locations FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Only admins set up items and locations. They are retired, not deleted.
+CREATE POLICY "Admins can insert inventory items"
+    ON inventory_items FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update inventory items"
+    ON inventory_items FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can insert stock locations"
+    ON stock_locations FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update stock locations"
+    ON stock_locations FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Workers receive lots and move stock. The ledger is append-only: mistakes
+-- are corrected with an adjustment, so there are no update or delete policies.
+CREATE POLICY "Authenticated users can view inventory lots"
+    ON inventory_lots FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert inventory lots"
+    ON inventory_lots FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view inventory transactions"
+    ON inventory_transactions FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert inventory transactions"
+    ON inventory_transactions FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Built-in items for the grant-tracked services, and central storage
+INSERT INTO inventory_items (name, unit, service_id, low_stock_threshold)
+SELECT 'Naloxone (Narcan)', 'kits', id, 10 FROM service_catalog WHERE key = 'naloxone'
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO inventory_items (name, unit, service_id, low_stock_threshold)
+SELECT 'Fentanyl Test Strips', 'strips', id, 50 FROM service_catalog WHERE key = 'fentanyl_test_strips'
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO stock_locations (name, location_type) VALUES
+    ('Main Storage', 'storage')
+ON CONFLICT (name) DO NOTHING;
+
+-- Comments
+COMMENT ON TABLE inventory_items IS 'Harm-reduction supplies tracked in stock, optionally linked to the service that distributes them';
+COMMENT ON TABLE stock_locations IS 'Where stock is held: a worker, a vehicle or storage';
+COMMENT ON TABLE inventory_lots IS 'Manufacturer lots of an item, with expiry dates';
+COMMENT ON TABLE inventory_transactions IS 'Append-only ledger of stock movements; a location''s stock is what came in minus what went out';
+COMMENT ON COLUMN inventory_transactions.lot_id IS 'Lot moved. Distributions are drawn from the earliest-expiring lots; any shortfall is recorded without a lot';
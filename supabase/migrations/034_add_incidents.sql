@@ -0,0 +1,90 @@
+-- Migration: Incident reports
+-- Overdoses, reversals and other critical incidents could only be noted as
+-- naloxone distributed plus free-text case notes, so reversals couldn't be
+-- counted for the grant. Each incident is now a structured report: type,
+-- naloxone doses administered, whether EMS was called, outcome and location,
+-- optionally linked to a client. Reports are reviewed by a supervisor (admin).
+
+CREATE TABLE IF NOT EXISTS incidents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_type TEXT NOT NULL CHECK (incident_type IN ('overdose', 'reversal', 'medical', 'violence', 'police_contact')),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    person_id UUID REFERENCES persons(id) ON DELETE SET NULL, -- NULL when the person isn't a client or wasn't identified
+    person_description TEXT, -- Who was involved when there is no client record
+    naloxone_doses INTEGER NOT NULL DEFAULT 0 CHECK (naloxone_doses >= 0),
+    ems_called BOOLEAN NOT NULL DEFAULT false,
+    outcome TEXT NOT NULL CHECK (outcome IN (
+        'recovered_on_scene', 'transported', 'refused_transport', 'deceased', 'resolved', 'unknown'
+    )),
+    location_description TEXT NOT NULL,
+    latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+    description TEXT NOT NULL,
+    reported_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    review_status TEXT NOT NULL DEFAULT 'pending' CHECK (review_status IN ('pending', 'reviewed')),
+    reviewed_by TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT incidents_reversal_doses CHECK (incident_type <> 'reversal' OR naloxone_doses > 0)
+);
+
+-- Indexes for the incidents dashboard and client profiles
+CREATE INDEX idx_incidents_occurred_at ON incidents(occurred_at);
+CREATE INDEX idx_incidents_person_id ON incidents(person_id);
+CREATE INDEX idx_incidents_review_status ON incidents(review_status);
+
+-- Naloxone administered at an incident comes out of the worker's stock
+ALTER TABLE inventory_transactions
+    ADD COLUMN IF NOT EXISTS incident_id UUID REFERENCES incidents(id) ON DELETE SET NULL;
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_incidents_updated_at
+    BEFORE UPDATE ON incidents
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Incidents involving a client show up in their audit trail
+CREATE TRIGGER audit_incidents_changes
+    AFTER INSERT OR UPDATE OR DELETE ON incidents
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE incidents ENABLE ROW LEVEL SECURITY;
+
+-- Any worker can report an incident. Reports are not edited once filed;
+-- the supervisor's review notes record any corrections.
+CREATE POLICY "Authenticated users can view incidents"
+    ON incidents FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert incidents"
+    ON incidents FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Admins can update incidents"
+    ON incidents FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Comments
+COMMENT ON TABLE incidents IS 'Structured reports of overdoses, reversals, medical emergencies, violence and police contact';
+COMMENT ON COLUMN incidents.incident_type IS 'overdose, reversal (naloxone administered and the person responded), medical, violence or police_contact';
+COMMENT ON COLUMN incidents.naloxone_doses IS 'Naloxone doses administered by staff at the scene';
+COMMENT ON COLUMN incidents.review_status IS 'pending until a supervisor (admin) reviews the report';
+COMMENT ON COLUMN inventory_transactions.incident_id IS 'Incident naloxone was administered at, for distributions outside a service interaction';
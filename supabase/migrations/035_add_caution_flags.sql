@@ -0,0 +1,131 @@
+-- Migration: Caution flags
+-- Workers had no structured way to warn each other before approaching a
+-- client: safety concerns, a service animal, a trespass order or a known
+-- medical risk ended up in case notes, if anywhere. Flags are now their own
+-- rows with a type, description, who set them and an optional expiry. Flags
+-- are cleared rather than deleted, so every flag ever set stays as history.
+--
+-- Sensitive flags (e.g. a medical condition) are only readable by admins and
+-- the worker who set them. Everyone else still sees that the client has a
+-- restricted flag and its type, through get_caution_flags(), so they know to
+-- ask a supervisor before approaching.
+
+CREATE TABLE IF NOT EXISTS caution_flags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    flag_type TEXT NOT NULL CHECK (flag_type IN ('safety', 'service_animal', 'trespass_order', 'medical_risk', 'other')),
+    description TEXT NOT NULL,
+    sensitive BOOLEAN NOT NULL DEFAULT false,
+    expires_on DATE, -- NULL while the flag applies indefinitely
+    set_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    cleared_at TIMESTAMP WITH TIME ZONE,
+    cleared_by TEXT,
+    clear_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Index for loading a client's flags
+CREATE INDEX idx_caution_flags_person_id ON caution_flags(person_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_caution_flags_updated_at
+    BEFORE UPDATE ON caution_flags
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Flags set and cleared show up in the client's audit trail
+CREATE TRIGGER audit_caution_flags_changes
+    AFTER INSERT OR UPDATE OR DELETE ON caution_flags
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE caution_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view caution flags"
+    ON caution_flags FOR SELECT
+    TO authenticated
+    USING (
+        NOT sensitive
+        OR set_by = auth.jwt() ->> 'email'
+        OR EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Authenticated users can insert caution flags"
+    ON caution_flags FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Any worker can clear a flag they can read, e.g. an expired trespass order
+CREATE POLICY "Authenticated users can update caution flags"
+    ON caution_flags FOR UPDATE
+    TO authenticated
+    USING (
+        NOT sensitive
+        OR set_by = auth.jwt() ->> 'email'
+        OR EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (true);
+
+-- Every flag for the given clients (or all clients), with the description
+-- of sensitive flags the caller can't read left out
+CREATE OR REPLACE FUNCTION get_caution_flags(person_ids UUID[] DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    person_id UUID,
+    flag_type TEXT,
+    description TEXT,
+    sensitive BOOLEAN,
+    restricted BOOLEAN,
+    expires_on DATE,
+    set_by TEXT,
+    cleared_at TIMESTAMP WITH TIME ZONE,
+    cleared_by TEXT,
+    clear_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+    caller_is_admin BOOLEAN := EXISTS (
+        SELECT 1 FROM user_profiles WHERE user_profiles.id = auth.uid() AND role = 'admin'
+    );
+    caller_email TEXT := auth.jwt() ->> 'email';
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        f.id,
+        f.person_id,
+        f.flag_type,
+        CASE WHEN f.sensitive AND NOT caller_is_admin AND f.set_by IS DISTINCT FROM caller_email
+            THEN NULL ELSE f.description END,
+        f.sensitive,
+        f.sensitive AND NOT caller_is_admin AND f.set_by IS DISTINCT FROM caller_email,
+        f.expires_on,
+        f.set_by,
+        f.cleared_at,
+        f.cleared_by,
+        CASE WHEN f.sensitive AND NOT caller_is_admin AND f.set_by IS DISTINCT FROM caller_email
+            THEN NULL ELSE f.clear_reason END,
+        f.created_at
+    FROM caution_flags f
+    WHERE person_ids IS NULL OR f.person_id = ANY(person_ids)
+    ORDER BY f.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Comments
+COMMENT ON TABLE caution_flags IS 'Cautions shown to workers before approaching a client; cleared rather than deleted';
+COMMENT ON COLUMN caution_flags.flag_type IS 'safety, service_animal, trespass_order, medical_risk or other';
+COMMENT ON COLUMN caution_flags.sensitive IS 'Description only readable by admins and the worker who set the flag';
+COMMENT ON COLUMN caution_flags.expires_on IS 'Last day the flag applies; NULL while it applies indefinitely';
+COMMENT ON FUNCTION get_caution_flags(UUID[]) IS 'Flags for the given clients (all when NULL), with restricted descriptions left out';
@@ -0,0 +1,158 @@
+-- Migration: Case plans
+-- case_management_notes is one free-text blob per interaction, so there was
+-- no structured record of what a client is working toward. A client's case
+-- plan is now their goals (housing, ID, sobriety, income, ...), each broken
+-- into action steps assigned to a worker with a due date, plus dated
+-- progress updates that can point at the interaction they came from.
+
+CREATE TABLE IF NOT EXISTS case_goals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    goal_type TEXT NOT NULL CHECK (goal_type IN ('housing', 'id_documents', 'sobriety', 'income', 'health', 'other')),
+    description TEXT NOT NULL,
+    target_date DATE,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'achieved', 'abandoned')),
+    closed_on DATE, -- Date the goal was achieved or abandoned
+    closed_reason TEXT,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT case_goals_closed_when_done CHECK ((status = 'active') = (closed_on IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS case_plan_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    goal_id UUID NOT NULL REFERENCES case_goals(id) ON DELETE CASCADE,
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE, -- Same as the goal's, for the audit trail
+    description TEXT NOT NULL,
+    assigned_to TEXT NOT NULL, -- Email of the worker responsible for the step
+    due_date DATE NOT NULL,
+    completed_on DATE,
+    completed_by TEXT,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS case_goal_updates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    goal_id UUID NOT NULL REFERENCES case_goals(id) ON DELETE CASCADE,
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE, -- Same as the goal's, for the audit trail
+    encounter_id UUID REFERENCES encounters(id) ON DELETE SET NULL, -- Interaction the progress was made at
+    note TEXT NOT NULL,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for the client profile, the worker's open steps and reporting
+CREATE INDEX idx_case_goals_person_id ON case_goals(person_id);
+CREATE INDEX idx_case_plan_steps_goal_id ON case_plan_steps(goal_id);
+CREATE INDEX idx_case_plan_steps_open_by_worker ON case_plan_steps(assigned_to, due_date)
+    WHERE completed_on IS NULL;
+CREATE INDEX idx_case_goal_updates_goal_id ON case_goal_updates(goal_id);
+CREATE INDEX idx_case_goal_updates_encounter_id ON case_goal_updates(encounter_id);
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_case_goals_updated_at
+    BEFORE UPDATE ON case_goals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_case_plan_steps_updated_at
+    BEFORE UPDATE ON case_plan_steps
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Plan changes show up in the client's audit trail
+CREATE TRIGGER audit_case_goals_changes
+    AFTER INSERT OR UPDATE OR DELETE ON case_goals
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+CREATE TRIGGER audit_case_plan_steps_changes
+    AFTER INSERT OR UPDATE OR DELETE ON case_plan_steps
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+CREATE TRIGGER audit_case_goal_updates_changes
+    AFTER INSERT OR UPDATE OR DELETE ON case_goal_updates
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+-- Enable RLS
+ALTER TABLE case_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_plan_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_goal_updates ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (same pattern as referrals - the whole team works a client's plan)
+CREATE POLICY "Authenticated users can view all case goals"
+    ON case_goals FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert case goals"
+    ON case_goals FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update case goals"
+    ON case_goals FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view all case plan steps"
+    ON case_plan_steps FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert case plan steps"
+    ON case_plan_steps FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update case plan steps"
+    ON case_plan_steps FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Progress updates are a record of what happened; they aren't edited
+CREATE POLICY "Authenticated users can view all case goal updates"
+    ON case_goal_updates FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert case goal updates"
+    ON case_goal_updates FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Workers steps can be assigned to. Field workers can't read other users'
+-- profiles, so only the email and name are exposed.
+CREATE OR REPLACE FUNCTION list_workers()
+RETURNS TABLE (
+    email TEXT,
+    full_name TEXT
+) AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.email, p.full_name
+    FROM user_profiles p
+    ORDER BY COALESCE(p.full_name, p.email);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Comments
+COMMENT ON TABLE case_goals IS 'Goals on a client''s case plan, achieved or abandoned rather than deleted';
+COMMENT ON COLUMN case_goals.goal_type IS 'housing, id_documents, sobriety, income, health or other';
+COMMENT ON COLUMN case_goals.status IS 'active, achieved or abandoned';
+COMMENT ON COLUMN case_goals.closed_on IS 'Date the goal was achieved or abandoned; NULL while active';
+COMMENT ON TABLE case_plan_steps IS 'Action steps toward a case goal, each assigned to a worker with a due date';
+COMMENT ON COLUMN case_plan_steps.assigned_to IS 'Worker whose action steps list this appears on';
+COMMENT ON TABLE case_goal_updates IS 'Dated progress notes on a case goal, optionally from a service interaction';
+COMMENT ON FUNCTION list_workers() IS 'Email and name of every user, for assigning case plan steps';
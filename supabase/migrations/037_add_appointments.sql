@@ -0,0 +1,100 @@
+-- Migration: Appointments and tasks
+-- Promises like "pick someone up for the detox intake Thursday at 9am" lived in
+-- workers' heads. Appointments are now scheduled against a client with a
+-- type, time, the worker responsible, where it is and whether the client
+-- needs a ride. Once the time has passed they are marked completed, no-show
+-- or cancelled; a missed appointment can be followed up with an interaction,
+-- which is linked back to it.
+--
+-- Workers can subscribe to their own appointments from a calendar app
+-- through a private feed URL containing calendar_feed_tokens.token.
+
+CREATE TABLE IF NOT EXISTS appointments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_id UUID NOT NULL REFERENCES persons(id) ON DELETE CASCADE,
+    appointment_type TEXT NOT NULL
+        CHECK (appointment_type IN ('detox_intake', 'medical', 'court', 'housing', 'benefits', 'id_documents', 'other')),
+    scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes > 0),
+    assigned_to TEXT NOT NULL, -- Email of the worker responsible
+    location TEXT,
+    transportation_needed BOOLEAN NOT NULL DEFAULT false,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'completed', 'no_show', 'cancelled')),
+    status_changed_at TIMESTAMP WITH TIME ZONE,
+    status_changed_by TEXT,
+    follow_up_encounter_id UUID REFERENCES encounters(id) ON DELETE SET NULL,
+    created_by TEXT DEFAULT (auth.jwt() ->> 'email'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for the client profile, worker agendas and the team calendar
+CREATE INDEX idx_appointments_person_id ON appointments(person_id);
+CREATE INDEX idx_appointments_assigned_to ON appointments(assigned_to, scheduled_at);
+CREATE INDEX idx_appointments_scheduled_at ON appointments(scheduled_at);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_appointments_updated_at
+    BEFORE UPDATE ON appointments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Appointments scheduled and missed show up in the client's audit trail
+CREATE TRIGGER audit_appointments_changes
+    AFTER INSERT OR UPDATE OR DELETE ON appointments
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (same pattern as referrals - anyone on the team may cover an appointment)
+CREATE POLICY "Authenticated users can view all appointments"
+    ON appointments FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert appointments"
+    ON appointments FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update appointments"
+    ON appointments FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Each worker only sees and replaces their own feed token. The feed route
+-- looks tokens up with the service role.
+CREATE POLICY "Users can view own calendar feed token"
+    ON calendar_feed_tokens FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own calendar feed token"
+    ON calendar_feed_tokens FOR INSERT
+    TO authenticated
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own calendar feed token"
+    ON calendar_feed_tokens FOR DELETE
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- Comments
+COMMENT ON TABLE appointments IS 'Appointments and tasks scheduled with a client and the worker responsible';
+COMMENT ON COLUMN appointments.appointment_type IS 'detox_intake, medical, court, housing, benefits, id_documents or other';
+COMMENT ON COLUMN appointments.assigned_to IS 'Worker whose agenda and calendar feed this appears on';
+COMMENT ON COLUMN appointments.status IS 'scheduled, completed, no_show or cancelled; scheduled appointments past their end are overdue';
+COMMENT ON COLUMN appointments.follow_up_encounter_id IS 'Interaction recorded to follow up a missed appointment';
+COMMENT ON TABLE calendar_feed_tokens IS 'Secret in each worker''s .ics calendar feed URL; deleting it revokes the URL';
@@ -0,0 +1,78 @@
+-- Migration: Restrict saved and scheduled reports to admins
+-- Any signed-in user could save a report definition and have the scheduler
+-- generate it with the service role, then read the stored by-name results
+-- through report_runs. Saving definitions and reading runs now require the
+-- admin role, and only the service role writes runs.
+--
+-- Runs of a deleted definition used to become readable by everyone
+-- (definition_id IS NULL). Each run now records the owner of its definition,
+-- so those runs stay with their owner.
+
+ALTER TABLE report_runs
+    ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+UPDATE report_runs rr
+SET owner_id = rd.owner_id
+FROM report_definitions rd
+WHERE rd.id = rr.definition_id
+  AND rr.owner_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_report_runs_owner_id ON report_runs(owner_id);
+
+-- Definitions
+DROP POLICY IF EXISTS "Users can insert own report definitions" ON report_definitions;
+DROP POLICY IF EXISTS "Users can update own report definitions" ON report_definitions;
+
+CREATE POLICY "Admins can insert own report definitions"
+    ON report_definitions FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        owner_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update own report definitions"
+    ON report_definitions FOR UPDATE
+    TO authenticated
+    USING (
+        owner_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        owner_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Runs: written only by the service role (the run routes and the scheduler)
+DROP POLICY IF EXISTS "Users can view runs of visible report definitions" ON report_runs;
+DROP POLICY IF EXISTS "Authenticated users can insert report runs" ON report_runs;
+
+CREATE POLICY "Admins can view runs of visible report definitions"
+    ON report_runs FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+        AND (
+            owner_id = auth.uid()
+            OR EXISTS (
+                SELECT 1 FROM report_definitions rd
+                WHERE rd.id = report_runs.definition_id
+                  AND (rd.owner_id = auth.uid() OR rd.is_shared)
+            )
+        )
+    );
+
+-- Comments
+COMMENT ON COLUMN report_runs.owner_id IS 'Owner of the definition when the run was generated; keeps runs of deleted definitions private';
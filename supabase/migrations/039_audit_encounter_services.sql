@@ -0,0 +1,75 @@
+-- Migration: Audit services recorded on interactions
+-- encounter_services replaced the service columns on encounters (migration
+-- 024) but had no audit trigger, so services added or removed never reached
+-- the audit log. Service rows don't carry person_id; the client is looked up
+-- through the encounter.
+
+CREATE OR REPLACE FUNCTION audit_client_record_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+    record_row JSONB := COALESCE(new_row, old_row);
+    row_changes JSONB := '{}'::JSONB;
+    column_name TEXT;
+    record_person_id UUID;
+    record_client_id TEXT;
+BEGIN
+    FOR column_name IN SELECT jsonb_object_keys(record_row) LOOP
+        IF column_name NOT IN ('created_at', 'updated_at')
+            AND (old_row -> column_name) IS DISTINCT FROM (new_row -> column_name) THEN
+            row_changes := row_changes || jsonb_build_object(
+                column_name,
+                jsonb_build_object('before', old_row -> column_name, 'after', new_row -> column_name)
+            );
+        END IF;
+    END LOOP;
+
+    -- Nothing but timestamps changed
+    IF TG_OP = 'UPDATE' AND row_changes = '{}'::JSONB THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'persons' THEN
+        record_person_id := (record_row ->> 'id')::UUID;
+    ELSIF TG_TABLE_NAME = 'encounter_services' THEN
+        -- NULL when the row goes with its encounter, whose delete is logged itself
+        SELECT person_id INTO record_person_id FROM encounters WHERE id = (record_row ->> 'encounter_id')::UUID;
+    ELSE
+        record_person_id := (record_row ->> 'person_id')::UUID;
+    END IF;
+
+    IF TG_TABLE_NAME = 'persons' THEN
+        record_client_id := record_row ->> 'client_id';
+    ELSE
+        SELECT client_id INTO record_client_id FROM persons WHERE id = record_person_id;
+    END IF;
+
+    INSERT INTO audit_log (
+        user_id,
+        user_email,
+        action,
+        entity_type,
+        entity_id,
+        person_id,
+        client_id,
+        changes
+    ) VALUES (
+        auth.uid(),
+        auth.jwt() ->> 'email',
+        lower(TG_OP),
+        TG_TABLE_NAME,
+        record_row ->> 'id',
+        record_person_id,
+        record_client_id,
+        row_changes
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_encounter_services_changes
+    AFTER INSERT OR UPDATE OR DELETE ON encounter_services
+    FOR EACH ROW
+    EXECUTE FUNCTION audit_client_record_change();
@@ -0,0 +1,39 @@
+-- Migration: Find similar client pairs in one query
+-- The nightly duplicate scan called search_similar_persons once per client,
+-- which can't finish within a cron request once the by-name list is large.
+-- This returns every pair of active clients with similar names in one query,
+-- using the same name comparisons as search_similar_persons.
+
+CREATE OR REPLACE FUNCTION find_similar_person_pairs(similarity_threshold REAL DEFAULT 0.3)
+RETURNS TABLE (
+    person_a_id UUID,
+    person_b_id UUID
+) AS $$
+BEGIN
+    IF auth.role() <> 'service_role'
+        AND NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can scan for duplicate clients';
+    END IF;
+
+    -- The % operator compares against this threshold and can use the
+    -- trigram indexes on the name columns
+    PERFORM set_config('pg_trgm.similarity_threshold', similarity_threshold::TEXT, true);
+
+    -- Pairs come back once, lower UUID first, as duplicate_candidates stores them
+    RETURN QUERY
+    SELECT DISTINCT LEAST(a.id, b.id), GREATEST(a.id, b.id)
+    FROM persons a
+    JOIN persons b
+        ON b.id <> a.id
+        AND (
+            b.first_name % a.first_name
+            OR b.last_name % a.last_name
+            OR b.nickname % a.first_name
+        )
+    WHERE a.merged_into IS NULL
+      AND b.merged_into IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Comments
+COMMENT ON FUNCTION find_similar_person_pairs IS 'Pairs of active clients with similar names, for the nightly duplicate scan';
@@ -0,0 +1,53 @@
+-- Migration: Correct income sources carried over from intake
+-- Migration 032 mapped the free-text intake income with substring matches
+-- tested in the wrong order: "General Assistance" contains "ssi" and was
+-- carried over as SSI, "Unemployment" contains "employ" and became
+-- employment. Clients whose income was entered without an amount (usually
+-- benefits) weren't carried over at all. Sources are reclassified with
+-- whole-word matches, specific sources first, and the missing ones are added
+-- with no amount.
+
+CREATE OR REPLACE FUNCTION classify_intake_income(income TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN income ~* 'general\s+assistance' OR income ~* '\mGA\M' THEN 'general_assistance'
+        WHEN income ~* '\munemployment\M' OR income ~* '\m(UI|EDD)\M' THEN 'unemployment'
+        WHEN income ~* '\mSSDI\M' THEN 'ssdi'
+        WHEN income ~* '\mSSI\M' THEN 'ssi'
+        WHEN income ~* '\mVA\M' OR income ~* '\mveteran' THEN 'va_disability'
+        WHEN income ~* '\m(employ|job|work)' THEN 'employment'
+        WHEN income ~* 'cal\s*fresh' OR income ~* 'food\s+stamps' OR income ~* '\m(SNAP|EBT)\M' THEN 'calfresh'
+        WHEN income ~* 'medi-?cal' OR income ~* '\mmedicaid\M' THEN 'medi_cal'
+        WHEN income ~* '\mmedicare\M' THEN 'medicare'
+        ELSE 'other_income'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Sources carried over by migration 032 keep the intake text in notes
+UPDATE income_sources
+SET source_type = classify_intake_income(notes)
+WHERE created_by = 'Migrated from intake'
+  AND notes IS NOT NULL
+  AND source_type <> classify_intake_income(notes);
+
+-- Sources entered without an amount. Answers meaning no income aren't sources.
+INSERT INTO income_sources (person_id, source_type, monthly_amount, start_date, collection_stage, notes, created_by)
+SELECT
+    p.id,
+    classify_intake_income(p.income),
+    NULL,
+    p.enrollment_date,
+    'intake',
+    p.income,
+    'Migrated from intake'
+FROM persons p
+WHERE NULLIF(trim(p.income), '') IS NOT NULL
+  AND p.income !~* '^\s*(none|no|no income|n/?a|unemployed|0)\s*$'
+  AND (p.income_amount IS NULL OR p.income_amount <= 0)
+  AND p.merged_into IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM income_sources s
+      WHERE s.person_id = p.id AND s.created_by = 'Migrated from intake'
+  );
+
+DROP FUNCTION classify_intake_income(TEXT);
@@ -0,0 +1,37 @@
+-- Migration: Restrict who a caution flag says set it
+-- The insert and update policies on caution_flags accepted any row, so a
+-- worker could set a flag in someone else's name, or turn off `sensitive` on
+-- a flag they could read and expose its description to everyone. A flag is
+-- now always set in the caller's name, and only its author or an admin can
+-- change whether it's sensitive or who set it.
+
+DROP POLICY IF EXISTS "Authenticated users can insert caution flags" ON caution_flags;
+
+CREATE POLICY "Authenticated users can insert caution flags"
+    ON caution_flags FOR INSERT
+    TO authenticated
+    WITH CHECK (set_by = auth.jwt() ->> 'email');
+
+-- Clearing a flag stays open to any worker who can read it
+CREATE OR REPLACE FUNCTION protect_caution_flag_authorship()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() <> 'service_role'
+        AND OLD.set_by IS DISTINCT FROM auth.jwt() ->> 'email'
+        AND NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only the worker who set a caution flag or an admin can change its sensitivity or author';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_caution_flag_authorship
+    BEFORE UPDATE OF sensitive, set_by ON caution_flags
+    FOR EACH ROW
+    WHEN (OLD.sensitive IS DISTINCT FROM NEW.sensitive OR OLD.set_by IS DISTINCT FROM NEW.set_by)
+    EXECUTE FUNCTION protect_caution_flag_authorship();
+
+-- Comments
+COMMENT ON COLUMN caution_flags.set_by IS 'Email of the worker who set the flag; only they or an admin can change it or its sensitivity';
+COMMENT ON FUNCTION protect_caution_flag_authorship IS 'Stops workers other than the author or an admin changing a flag''s sensitivity or author';
@@ -0,0 +1,54 @@
+-- Migration: Log app audit events through a function
+-- Views, merges and exports were logged with a direct insert. The policy only
+-- checked user_id, so any worker could add entries with another user's email,
+-- someone else's client or a made-up change history. Inserts are now only
+-- made by the triggers and by log_audit_event(), which takes the user from
+-- the session and the client ID from the client record.
+
+DROP POLICY IF EXISTS "Users can log their own access" ON audit_log;
+
+CREATE OR REPLACE FUNCTION log_audit_event(
+    event_action TEXT,
+    event_entity_type TEXT,
+    event_entity_id TEXT DEFAULT NULL,
+    event_person_id UUID DEFAULT NULL,
+    event_client_id TEXT DEFAULT NULL,
+    event_details JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Writes are logged by the triggers
+    IF event_action NOT IN ('view', 'merge', 'unmerge', 'export') THEN
+        RAISE EXCEPTION 'Only views, merges, unmerges and exports can be logged by the app';
+    END IF;
+
+    INSERT INTO audit_log (
+        user_id,
+        user_email,
+        action,
+        entity_type,
+        entity_id,
+        person_id,
+        client_id,
+        details
+    ) VALUES (
+        auth.uid(),
+        auth.jwt() ->> 'email',
+        event_action,
+        event_entity_type,
+        event_entity_id,
+        event_person_id,
+        COALESCE((SELECT client_id FROM persons WHERE id = event_person_id), event_client_id),
+        event_details
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION log_audit_event(TEXT, TEXT, TEXT, UUID, TEXT, JSONB) TO authenticated;
+
+-- Comments
+COMMENT ON FUNCTION log_audit_event IS 'Log a view, merge, unmerge or export as the current user';
@@ -0,0 +1,241 @@
+-- Migration: Close the duplicate's open episode when merging clients
+-- When the survivor already had an open episode in the same program, the
+-- duplicate's open episode stayed open on the tombstone. Nothing is recorded
+-- against a tombstone, so auto_inactivate_clients() later exited it after 90
+-- days, logging an exit for a client who was still enrolled. The merge now
+-- closes that episode and the undo reopens it. Tombstones already left with
+-- an open episode are closed as of their merge date.
+
+ALTER TABLE person_merges ADD COLUMN IF NOT EXISTS closed_enrollment_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Merge a duplicate client into a surviving record
+CREATE OR REPLACE FUNCTION merge_persons(
+    survivor_person_id UUID,
+    merged_person_id UUID,
+    field_values JSONB DEFAULT '{}'::JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    survivor_row persons;
+    merged_row persons;
+    chosen_row persons;
+    assignments TEXT;
+    encounter_ids UUID[];
+    status_change_ids UUID[];
+    enrollment_ids UUID[];
+    closed_enrollment_ids UUID[];
+    new_merge_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can merge clients';
+    END IF;
+
+    IF survivor_person_id = merged_person_id THEN
+        RAISE EXCEPTION 'Cannot merge a client into itself';
+    END IF;
+
+    SELECT * INTO survivor_row FROM persons WHERE id = survivor_person_id FOR UPDATE;
+    SELECT * INTO merged_row FROM persons WHERE id = merged_person_id FOR UPDATE;
+
+    IF survivor_row.id IS NULL OR merged_row.id IS NULL THEN
+        RAISE EXCEPTION 'Client not found';
+    END IF;
+
+    IF survivor_row.merged_into IS NOT NULL OR merged_row.merged_into IS NOT NULL THEN
+        RAISE EXCEPTION 'Client has already been merged into another record';
+    END IF;
+
+    -- Identity, tombstone and enrollment-maintained fields can't be picked
+    IF field_values ?| ARRAY['id', 'client_id', 'merged_into', 'merged_at', 'created_at', 'updated_at', 'exit_date', 'exit_destination', 'exit_notes'] THEN
+        RAISE EXCEPTION 'Field cannot be chosen in a merge';
+    END IF;
+
+    -- Apply the chosen values to the survivor in a single update
+    IF field_values <> '{}'::JSONB THEN
+        chosen_row := jsonb_populate_record(survivor_row, field_values);
+
+        SELECT string_agg(format('%I = ($1).%I', k.key, k.key), ', ')
+        INTO assignments
+        FROM jsonb_object_keys(field_values) AS k(key);
+
+        EXECUTE format('UPDATE persons SET %s WHERE id = $2', assignments)
+        USING chosen_row, survivor_person_id;
+    END IF;
+
+    WITH moved AS (
+        UPDATE encounters SET person_id = survivor_person_id
+        WHERE person_id = merged_person_id
+        RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO encounter_ids FROM moved;
+
+    WITH moved AS (
+        UPDATE status_changes SET person_id = survivor_person_id
+        WHERE person_id = merged_person_id
+        RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO status_change_ids FROM moved;
+
+    -- An open episode stays on the tombstone when the survivor already has
+    -- one open in the same program (only one open episode is allowed)
+    WITH moved AS (
+        UPDATE enrollments en SET person_id = survivor_person_id
+        WHERE en.person_id = merged_person_id
+          AND NOT (
+              en.exit_date IS NULL
+              AND EXISTS (
+                  SELECT 1 FROM enrollments s
+                  WHERE s.person_id = survivor_person_id
+                    AND s.project = en.project
+                    AND s.exit_date IS NULL
+              )
+          )
+        RETURNING en.id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO enrollment_ids FROM moved;
+
+    -- ...and is closed, so auto-inactivation doesn't later exit a client
+    -- who is still enrolled through the survivor's episode
+    WITH closed AS (
+        UPDATE enrollments
+        SET
+            exit_date = GREATEST(entry_date, CURRENT_DATE),
+            exit_notes = 'Closed when merged into client ' || survivor_row.client_id,
+            exited_by = auth.jwt() ->> 'email'
+        WHERE person_id = merged_person_id
+          AND exit_date IS NULL
+        RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO closed_enrollment_ids FROM closed;
+
+    UPDATE persons
+    SET merged_into = survivor_person_id, merged_at = NOW()
+    WHERE id = merged_person_id;
+
+    INSERT INTO person_merges (
+        survivor_id,
+        merged_id,
+        survivor_before,
+        merged_before,
+        field_values,
+        moved_encounter_ids,
+        moved_status_change_ids,
+        moved_enrollment_ids,
+        closed_enrollment_ids
+    ) VALUES (
+        survivor_person_id,
+        merged_person_id,
+        to_jsonb(survivor_row),
+        to_jsonb(merged_row),
+        field_values,
+        encounter_ids,
+        status_change_ids,
+        enrollment_ids,
+        closed_enrollment_ids
+    )
+    RETURNING id INTO new_merge_id;
+
+    RETURN new_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reverse a merge made in the last 7 days
+CREATE OR REPLACE FUNCTION undo_person_merge(merge_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    merge_record person_merges;
+    survivor_row persons;
+    restored_values JSONB;
+    restored_row persons;
+    assignments TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can undo merges';
+    END IF;
+
+    SELECT * INTO merge_record FROM person_merges WHERE id = merge_id FOR UPDATE;
+
+    IF merge_record.id IS NULL THEN
+        RAISE EXCEPTION 'Merge not found';
+    END IF;
+
+    IF merge_record.undone_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Merge has already been undone';
+    END IF;
+
+    IF merge_record.created_at < NOW() - INTERVAL '7 days' THEN
+        RAISE EXCEPTION 'Merges can only be undone within 7 days';
+    END IF;
+
+    SELECT * INTO survivor_row FROM persons WHERE id = merge_record.survivor_id FOR UPDATE;
+
+    IF survivor_row.merged_into IS NOT NULL THEN
+        RAISE EXCEPTION 'The surviving record has since been merged into another record. Undo that merge first.';
+    END IF;
+
+    -- Put back the survivor's own values for the fields taken from the duplicate
+    IF merge_record.field_values <> '{}'::JSONB THEN
+        SELECT jsonb_object_agg(k.key, merge_record.survivor_before -> k.key)
+        INTO restored_values
+        FROM jsonb_object_keys(merge_record.field_values) AS k(key);
+
+        restored_row := jsonb_populate_record(survivor_row, restored_values);
+
+        SELECT string_agg(format('%I = ($1).%I', k.key, k.key), ', ')
+        INTO assignments
+        FROM jsonb_object_keys(restored_values) AS k(key);
+
+        EXECUTE format('UPDATE persons SET %s WHERE id = $2', assignments)
+        USING restored_row, merge_record.survivor_id;
+    END IF;
+
+    -- Only rows still on the survivor are moved back
+    UPDATE encounters SET person_id = merge_record.merged_id
+    WHERE id = ANY(merge_record.moved_encounter_ids)
+      AND person_id = merge_record.survivor_id;
+
+    UPDATE status_changes SET person_id = merge_record.merged_id
+    WHERE id = ANY(merge_record.moved_status_change_ids)
+      AND person_id = merge_record.survivor_id;
+
+    UPDATE enrollments SET person_id = merge_record.merged_id
+    WHERE id = ANY(merge_record.moved_enrollment_ids)
+      AND person_id = merge_record.survivor_id;
+
+    -- Reopen the duplicate's episodes the merge closed
+    UPDATE enrollments
+    SET exit_date = NULL, exit_destination = NULL, exit_notes = NULL, exited_by = NULL
+    WHERE id = ANY(merge_record.closed_enrollment_ids)
+      AND person_id = merge_record.merged_id;
+
+    UPDATE persons
+    SET merged_into = NULL, merged_at = NULL
+    WHERE id = merge_record.merged_id;
+
+    UPDATE person_merges
+    SET undone_at = NOW(), undone_by = auth.jwt() ->> 'email'
+    WHERE id = merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close the episodes left open by earlier merges, so undoing those reopens them
+WITH closed AS (
+    UPDATE enrollments en
+    SET
+        exit_date = GREATEST(en.entry_date, m.created_at::DATE),
+        exit_notes = 'Closed when merged into client ' || s.client_id,
+        exited_by = m.merged_by
+    FROM persons p
+    JOIN persons s ON s.id = p.merged_into
+    JOIN person_merges m ON m.merged_id = p.id AND m.survivor_id = s.id AND m.undone_at IS NULL
+    WHERE en.person_id = p.id
+      AND en.exit_date IS NULL
+    RETURNING en.id, m.id AS merge_id
+)
+UPDATE person_merges m
+SET closed_enrollment_ids = c.enrollment_ids
+FROM (SELECT merge_id, array_agg(id) AS enrollment_ids FROM closed GROUP BY merge_id) c
+WHERE m.id = c.merge_id;
+
+-- Comments
+COMMENT ON COLUMN person_merges.closed_enrollment_ids IS 'Duplicate''s open episodes closed by the merge because the survivor had one open in the same program';
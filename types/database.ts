@@ -102,12 +102,7 @@ export interface Database {
           mat_provider: string | null
           detox_referral: boolean
           detox_provider: string | null
-          naloxone_distributed: boolean
           naloxone_date: string | null
-          fentanyl_test_strips_count: number | null
-          harm_reduction_education: boolean
-          transportation_provided: boolean
-          shower_trailer: boolean
           other_services: string | null
           high_utilizer_contact: boolean
           case_management_notes: string | null
@@ -132,12 +127,7 @@ export interface Database {
           mat_provider?: string | null
           detox_referral: boolean
           detox_provider?: string | null
-          naloxone_distributed: boolean
           naloxone_date?: string | null
-          fentanyl_test_strips_count?: number | null
-          harm_reduction_education: boolean
-          transportation_provided: boolean
-          shower_trailer: boolean
           other_services?: string | null
           high_utilizer_contact?: boolean
           case_management_notes?: string | null
@@ -162,12 +152,7 @@ export interface Database {
           mat_provider?: string | null
           detox_referral?: boolean
           detox_provider?: string | null
-          naloxone_distributed?: boolean
           naloxone_date?: string | null
-          fentanyl_test_strips_count?: number | null
-          harm_reduction_education?: boolean
-          transportation_provided?: boolean
-          shower_trailer?: boolean
           other_services?: string | null
           high_utilizer_contact?: boolean
           case_management_notes?: string | null
@@ -0,0 +1,18 @@
+// Custom service worker code, bundled by next-pwa into the generated sw.js.
+//
+// Queued offline writes live in IndexedDB and are replayed from the page,
+// where the Supabase session is available. When a Background Sync fires we
+// just tell any open clients to run the replay.
+
+const SYNC_TAG = 'sync-offline-queue'
+const REPLAY_MESSAGE = 'REPLAY_OFFLINE_QUEUE'
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: REPLAY_MESSAGE }))
+    })
+  )
+})